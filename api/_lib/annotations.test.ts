@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { resolveAnnotations, resolveQuote, toQuotedAnnotations, type QuotedAnnotation } from './annotations';
+
+const ESSAY = 'Macbeth’s “vaulting ambition” drives him.\nIn Act 2 he   hesitates before the murder, and Lady Macbeth mocks him — calling him a coward.';
+
+const slice = (range: { start: number; length: number } | null) => (range ? ESSAY.slice(range.start, range.start + range.length) : null);
+
+describe('resolveQuote', () => {
+  it('finds an exact quote, ignoring surrounding quote marks and ellipses', () => {
+    expect(slice(resolveQuote(ESSAY, 'drives him'))).toBe('drives him');
+    expect(slice(resolveQuote(ESSAY, '"...hesitates before the murder..."'))).toBe('hesitates before the murder');
+  });
+
+  it('matches straight quotes, dashes and collapsed whitespace against the essay as typed', () => {
+    expect(slice(resolveQuote(ESSAY, 'Macbeth\'s "vaulting ambition" drives'))).toBe('Macbeth’s “vaulting ambition” drives');
+    expect(slice(resolveQuote(ESSAY, 'he hesitates'))).toBe('he   hesitates');
+    expect(slice(resolveQuote(ESSAY, 'MOCKS HIM - calling'))).toBe('mocks him — calling');
+  });
+
+  it('spans an elided quote from its first words to its last', () => {
+    expect(slice(resolveQuote(ESSAY, 'In Act 2 ... the murder'))).toBe('In Act 2 he   hesitates before the murder');
+  });
+
+  it('searches from the given offset', () => {
+    const first = resolveQuote(ESSAY, 'him')!;
+    const second = resolveQuote(ESSAY, 'him', first.start + 1)!;
+    expect(second.start).toBeGreaterThan(first.start);
+    expect(slice(second)).toBe('him');
+  });
+
+  it('returns null for paraphrases and quotes too short to place', () => {
+    expect(resolveQuote(ESSAY, 'Macbeth is ambitious')).toBeNull();
+    expect(resolveQuote(ESSAY, '"he"')).toBeNull();
+  });
+});
+
+describe('toQuotedAnnotations', () => {
+  it('drops entries without a quote or comment and defaults unknown types to evidence', () => {
+    expect(toQuotedAnnotations([
+      { quote: ' drives him ', type: 'STRENGTH', ao: 'AO2', comment: ' Clear ' },
+      { quote: 'the murder', type: 'praise', comment: 'Vivid' },
+      { quote: 'no comment' },
+      'not an object',
+    ])).toEqual([
+      { quote: 'drives him', type: 'strength', ao: 'AO2', comment: 'Clear' },
+      { quote: 'the murder', type: 'evidence', ao: null, comment: 'Vivid' },
+    ]);
+    expect(toQuotedAnnotations(null)).toEqual([]);
+  });
+});
+
+describe('resolveAnnotations', () => {
+  const note = (quote: string, type: QuotedAnnotation['type'] = 'strength'): QuotedAnnotation => ({ quote, type, ao: null, comment: 'Note' });
+
+  it('pins quotes to the essay text, sorted by position, dropping ones it cannot find', () => {
+    const resolved = resolveAnnotations(ESSAY, [note('calling him a coward'), note('vaulting ambition'), note('a paraphrase of the essay')]);
+    expect(resolved.map((a) => a.quote)).toEqual(['vaulting ambition', 'calling him a coward']);
+    for (const a of resolved) expect(ESSAY.slice(a.start_offset, a.start_offset + a.length)).toBe(a.quote);
+  });
+
+  it('stores the essay\'s own wording rather than the model\'s', () => {
+    expect(resolveAnnotations(ESSAY, [note('he hesitates')])[0].quote).toBe('he   hesitates');
+  });
+
+  it('drops duplicates of the same range and type but keeps a second type on it', () => {
+    const resolved = resolveAnnotations(ESSAY, [note('drives him'), note('drives him'), note('drives him', 'grammar')]);
+    expect(resolved.map((a) => a.type)).toEqual(['strength', 'grammar']);
+  });
+
+  it('keeps at most 20 annotations', () => {
+    const long = Array.from({ length: 30 }, (_, i) => `Sentence number ${i}.`).join(' ');
+    const quoted = Array.from({ length: 30 }, (_, i) => note(`Sentence number ${i}.`));
+    expect(resolveAnnotations(long, quoted)).toHaveLength(20);
+  });
+});
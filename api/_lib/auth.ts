@@ -0,0 +1,77 @@
+// Supabase JWT verification for the api/ handlers.
+// Requires SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY on the server.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { loadEffectivePlan, QuotaExceededError, type PlanName } from './quota';
+
+export interface AuthContext {
+  userId: string;
+  plan: PlanName;
+  supabase: SupabaseClient; // Service-role client; scope every query to userId
+}
+
+/**
+ * Raised when the request can't be authenticated (401) or the server can't verify tokens (500).
+ */
+export class AuthError extends Error {
+  status: 401 | 500;
+
+  constructor(status: 401 | 500, message: string) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+let cachedAdmin: SupabaseClient | null = null;
+
+export function getSupabaseAdmin(env: Env = process.env): SupabaseClient {
+  if (!cachedAdmin) {
+    const url = env.SUPABASE_URL || env.VITE_SUPABASE_URL;
+    const serviceKey = env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceKey) {
+      throw new AuthError(500, 'Server misconfiguration: missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+    }
+    cachedAdmin = createClient(url, serviceKey, { auth: { persistSession: false, autoRefreshToken: false } });
+  }
+  return cachedAdmin;
+}
+
+/**
+ * Verify the `Authorization: Bearer <access token>` header and load the caller's effective plan.
+ */
+export async function authenticateRequest(req: VercelRequest): Promise<AuthContext> {
+  const header = req.headers.authorization;
+  const token = typeof header === 'string' && header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  if (!token) {
+    throw new AuthError(401, 'Missing authorization header');
+  }
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    throw new AuthError(401, 'Unauthorized');
+  }
+
+  return { userId: data.user.id, plan: await loadEffectivePlan(supabase, data.user.id), supabase };
+}
+
+/**
+ * Send the structured response for auth and quota failures. Returns null for any other error
+ * so the handler can fall through to its own error mapping.
+ */
+export function sendAccessError(res: VercelResponse, error: unknown): VercelResponse | null {
+  if (error instanceof AuthError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  if (error instanceof QuotaExceededError) {
+    res.setHeader('Retry-After', String(error.retryAfterSeconds()));
+    res.setHeader('X-Quota-Limit', String(error.limit));
+    res.setHeader('X-Quota-Remaining', '0');
+    return res.status(error.status).json(error.toResponseBody());
+  }
+  return null;
+}
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CompletionRequest, LLMProvider } from './llmProvider';
+import { mockCompletion } from './mockProvider';
+import { MAX_ATTEMPTS, retryDelayMs, runBatchWorker, type BatchJobItemRow } from './batchWorker';
+
+const NOW = new Date('2025-12-15T10:00:00Z');
+
+const JOB = {
+  id: 'job-1',
+  teacher_id: 'teacher-1',
+  rubric_id: 'rubric-1',
+  rubric_version_id: null,
+  ai_pre_mark: true,
+  status: 'running',
+  assignment_id: null,
+};
+
+const item = (overrides: Partial<BatchJobItemRow> = {}): BatchJobItemRow => ({
+  id: 'item-1',
+  job_id: JOB.id,
+  teacher_id: JOB.teacher_id,
+  title: 'Macbeth essay',
+  content: 'Shakespeare presents Macbeth as a man torn between ambition and conscience.',
+  student_id: 'student-1',
+  attempts: 1,
+  ...overrides,
+});
+
+interface FakeOptions {
+  claims: BatchJobItemRow[][]; // One list per claim_batch_job_items call; an empty list ends the run
+  job?: Record<string, unknown>;
+  exceeded?: 'month' | 'day';
+}
+
+/**
+ * Answers the worker's RPCs and table reads, and records every call and write so tests can check them.
+ */
+function fakeClient({ claims, job = JOB, exceeded }: FakeOptions) {
+  const rpcs: Array<{ name: string; args: Record<string, unknown> }> = [];
+  const writes: Array<{ table: string; action: string; values: unknown; filters: unknown[][] }> = [];
+  const rows: Record<string, unknown> = {
+    batch_jobs: job,
+    rubrics: { criteria: [{ category: 'Analysis', maxPoints: 10 }, { category: 'Structure', maxPoints: 5 }], exam_board: 'AQA' },
+    essays: { id: 'essay-1' }, // Safeguarding claim
+  };
+  const rpcResults: Record<string, () => unknown> = {
+    claim_batch_job_items: () => claims.shift() || [],
+    effective_plan: () => 'teacher_pro',
+    reserve_usage: () => [
+      exceeded
+        ? { reservation_ids: null, used_this_month: 500, used_today: 0, exceeded }
+        : { reservation_ids: ['reservation-1'], used_this_month: 3, used_today: 1, exceeded: null },
+    ],
+    complete_batch_job_item: () => ({ essay_id: 'essay-1' }),
+    fail_batch_job_item: () => null,
+    complete_safeguarding_screen: () => 0,
+  };
+
+  const client = {
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      rpcs.push({ name, args });
+      return { data: rpcResults[name]?.() ?? null, error: null };
+    },
+    from(table: string) {
+      const write = { table, action: 'select', values: null as unknown, filters: [] as unknown[][] };
+      const record = (action: string, values: unknown = null) => {
+        Object.assign(write, { action, values });
+        writes.push(write);
+        return query;
+      };
+      const result = async () => ({ data: rows[table] ?? null, error: null });
+      const query: any = {
+        select: () => query,
+        update: (values: unknown) => record('update', values),
+        delete: () => record('delete'),
+        eq: (...args: unknown[]) => { write.filters.push(['eq', ...args]); return query; },
+        in: (...args: unknown[]) => { write.filters.push(['in', ...args]); return query; },
+        is: (...args: unknown[]) => { write.filters.push(['is', ...args]); return query; },
+        or: (...args: unknown[]) => { write.filters.push(['or', ...args]); return query; },
+        single: result,
+        maybeSingle: result,
+        then: (resolve: (value: unknown) => void) => resolve({ data: null, error: null }),
+      };
+      return query;
+    },
+  };
+  return { supabase: client as unknown as SupabaseClient, rpcs, writes };
+}
+
+const provider = (fail?: (request: CompletionRequest) => boolean): LLMProvider => ({
+  name: 'mock',
+  complete: vi.fn(async (request: CompletionRequest) => {
+    if (fail?.(request)) throw new Error('Provider unavailable');
+    return mockCompletion(request);
+  }),
+  async *stream() {},
+});
+
+const rpcNames = (rpcs: Array<{ name: string }>) => rpcs.map((r) => r.name);
+
+describe('runBatchWorker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('claims items until the queue is empty, then marks, reserves and completes each one', async () => {
+    const { supabase, rpcs } = fakeClient({ claims: [[item(), item({ id: 'item-2' })]] });
+    const result = await runBatchWorker(supabase, provider(), { concurrency: 2, perTeacher: 2 }, {});
+
+    expect(result).toEqual({ claimed: 2, completed: 2, retried: 0, failed: 0, paused: 0 });
+    expect(rpcs[0]).toEqual({ name: 'claim_batch_job_items', args: { p_limit: 2, p_teacher_id: null, p_per_teacher: 2 } });
+    expect(rpcNames(rpcs).filter((name) => name === 'claim_batch_job_items')).toHaveLength(2);
+
+    const completed = rpcs.filter((r) => r.name === 'complete_batch_job_item');
+    expect(completed.map((r) => r.args.p_item_id)).toEqual(['item-1', 'item-2']);
+    expect(completed[0].args.p_feedback).toMatchObject({ overall_score: expect.any(Number), criteria_scores: expect.any(Array) });
+    expect(rpcNames(rpcs)).toContain('complete_safeguarding_screen');
+  });
+
+  it('only claims the kicking teacher\'s items when given a teacherId', async () => {
+    const { supabase, rpcs } = fakeClient({ claims: [] });
+    await runBatchWorker(supabase, provider(), { teacherId: 'teacher-1', concurrency: 1, perTeacher: 1 }, {});
+    expect(rpcs[0].args).toMatchObject({ p_teacher_id: 'teacher-1' });
+  });
+
+  it('completes without marking or reserving when the job is not pre-marked', async () => {
+    const { supabase, rpcs } = fakeClient({ claims: [[item()]], job: { ...JOB, ai_pre_mark: false } });
+    const result = await runBatchWorker(supabase, provider(), {}, {});
+
+    expect(result.completed).toBe(1);
+    expect(rpcNames(rpcs)).not.toContain('reserve_usage');
+    expect(rpcs.find((r) => r.name === 'complete_batch_job_item')?.args.p_feedback).toBeNull();
+  });
+
+  it('schedules a retry with backoff and gives back the reservation when marking fails', async () => {
+    const { supabase, rpcs, writes } = fakeClient({ claims: [[item({ attempts: 1 })]] });
+    const result = await runBatchWorker(supabase, provider((r) => r.purpose === 'marking'), {}, {});
+
+    expect(result).toMatchObject({ completed: 0, retried: 1, failed: 0 });
+    expect(rpcs.find((r) => r.name === 'fail_batch_job_item')?.args).toEqual({
+      p_item_id: 'item-1',
+      p_error: 'Provider unavailable',
+      p_retry_at: new Date(NOW.getTime() + retryDelayMs(1)).toISOString(),
+    });
+    expect(writes).toContainEqual(expect.objectContaining({ table: 'usage_ledger', action: 'delete', filters: [['in', 'id', ['reservation-1']]] }));
+  });
+
+  it('fails the item for good on its last attempt', async () => {
+    const { supabase, rpcs } = fakeClient({ claims: [[item({ attempts: MAX_ATTEMPTS })]] });
+    const result = await runBatchWorker(supabase, provider((r) => r.purpose === 'marking'), {}, {});
+
+    expect(result).toMatchObject({ retried: 0, failed: 1 });
+    expect(rpcs.find((r) => r.name === 'fail_batch_job_item')?.args.p_retry_at).toBeNull();
+  });
+
+  it('retries before charging anything when the safeguarding classifier fails', async () => {
+    const { supabase, rpcs } = fakeClient({ claims: [[item()]] });
+    const result = await runBatchWorker(supabase, provider((r) => r.purpose === 'safeguarding'), {}, {});
+
+    expect(result.retried).toBe(1);
+    expect(rpcNames(rpcs)).not.toContain('reserve_usage');
+  });
+
+  it('pauses the job and hands the uncharged attempt back when the quota runs out', async () => {
+    const { supabase, rpcs, writes } = fakeClient({ claims: [[item({ attempts: 2 })]], exceeded: 'month' });
+    const llm = provider();
+    const result = await runBatchWorker(supabase, llm, {}, {});
+
+    expect(result).toMatchObject({ completed: 0, paused: 1, retried: 0, failed: 0 });
+    expect(rpcNames(rpcs)).not.toContain('fail_batch_job_item');
+    expect((llm.complete as ReturnType<typeof vi.fn>).mock.calls.map(([r]) => r.purpose)).toEqual(['safeguarding']);
+
+    const itemUpdate = writes.find((w) => w.table === 'batch_job_items');
+    expect(itemUpdate).toMatchObject({ action: 'update', values: { status: 'pending', attempts: 1, locked_at: null } });
+    const jobUpdate = writes.find((w) => w.table === 'batch_jobs' && w.action === 'update');
+    expect(jobUpdate).toMatchObject({ values: { status: 'paused', paused_reason: 'quota_exceeded' } });
+    expect(jobUpdate?.filters).toContainEqual(['in', 'status', ['queued', 'running']]);
+  });
+});
+
+describe('retryDelayMs', () => {
+  it('doubles from 30 seconds', () => {
+    expect([1, 2, 3].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000]);
+  });
+});
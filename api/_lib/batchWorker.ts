@@ -0,0 +1,249 @@
+// Server-side batch marking worker, run by /api/process-batch (Vercel Cron and on-demand kicks).
+// Items are claimed through claim_batch_job_items so concurrent invocations never mark the same essay twice.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { formatRubricCriteria, type EssayMarking } from './feedbackSchema';
+import type { LLMProvider } from './llmProvider';
+import { markEssay } from './marking';
+import { loadEffectivePlan, QuotaExceededError, releaseUsage, reserveUsage, type PlanName } from './quota';
+import { classifySafeguarding, recordSafeguardingFlags } from './safeguarding';
+
+// Attempts per item (including the first) before it is marked as errored
+export const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30_000;
+
+export interface BatchJobRow {
+  id: string;
+  teacher_id: string;
+  rubric_id: string;
+  rubric_version_id: string | null; // Pinned when the job was created
+  ai_pre_mark: boolean;
+  status: string;
+  assignment_id: string | null;
+}
+
+export interface BatchJobItemRow {
+  id: string;
+  job_id: string;
+  teacher_id: string;
+  title: string;
+  content: string;
+  student_id: string | null;
+  attempts: number;
+}
+
+export interface BatchWorkerOptions {
+  teacherId?: string; // Only process this teacher's items (on-demand kick from the browser)
+  concurrency?: number; // Items claimed and marked in parallel per round
+  perTeacher?: number; // Items in flight per teacher, across all worker invocations
+  timeBudgetMs?: number; // Stop claiming new items after this long
+}
+
+export interface BatchWorkerResult {
+  claimed: number;
+  completed: number;
+  retried: number;
+  failed: number;
+  paused: number; // Items released because the teacher's quota ran out
+}
+
+interface RubricInfo {
+  criteria: string;
+  examBoard?: string;
+}
+
+/**
+ * The assignment's question and word limit as a marking instruction.
+ * Mirrors assignmentBrief in src/utils/assignments.ts.
+ */
+function assignmentBrief(assignment: { prompt: string | null; word_limit: number | null }): string | undefined {
+  const lines = [
+    assignment.prompt?.trim() ? `The essay answers this question: ${assignment.prompt.trim()}` : '',
+    assignment.word_limit ? `The word limit is ${assignment.word_limit} words.` : '',
+  ].filter(Boolean);
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+const envNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+};
+
+/** Exponential backoff: 30s, 60s, 120s... after the given attempt */
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * Claim and process due batch items until the queue is empty or the time budget runs out.
+ * Failed items are retried with backoff up to MAX_ATTEMPTS; a quota error pauses the job instead.
+ */
+export async function runBatchWorker(
+  supabase: SupabaseClient,
+  llm: LLMProvider,
+  options: BatchWorkerOptions = {},
+  env: Record<string, string | undefined> = process.env
+): Promise<BatchWorkerResult> {
+  const concurrency = options.concurrency ?? envNumber(env.BATCH_WORKER_CONCURRENCY, 3);
+  const perTeacher = options.perTeacher ?? envNumber(env.BATCH_MAX_PER_TEACHER, 2);
+  const timeBudgetMs = options.timeBudgetMs ?? 30_000;
+  const startedAt = Date.now();
+  const result: BatchWorkerResult = { claimed: 0, completed: 0, retried: 0, failed: 0, paused: 0 };
+
+  const jobs = new Map<string, BatchJobRow>();
+  const rubrics = new Map<string, RubricInfo>();
+  const briefs = new Map<string, string | undefined>();
+  const plans = new Map<string, PlanName>();
+
+  const loadJob = async (jobId: string): Promise<BatchJobRow> => {
+    const cached = jobs.get(jobId);
+    if (cached) return cached;
+    const { data, error } = await supabase
+      .from('batch_jobs')
+      .select('id, teacher_id, rubric_id, rubric_version_id, ai_pre_mark, status, assignment_id')
+      .eq('id', jobId)
+      .single();
+    if (error || !data) throw error || new Error('Batch job not found');
+    jobs.set(jobId, data as BatchJobRow);
+    return data as BatchJobRow;
+  };
+
+  // Marks against the version pinned on the job, so editing the rubric mid-run doesn't change the scheme
+  const loadRubric = async (job: BatchJobRow): Promise<RubricInfo> => {
+    const key = job.rubric_version_id || job.rubric_id;
+    const cached = rubrics.get(key);
+    if (cached) return cached;
+    const { data, error } = await (job.rubric_version_id
+      ? supabase.from('rubric_versions').select('criteria, exam_board').eq('id', job.rubric_version_id)
+      : supabase.from('rubrics').select('criteria, exam_board').eq('id', job.rubric_id)
+    ).single();
+    if (error || !data) throw error || new Error('Rubric not found');
+    const rubric = { criteria: formatRubricCriteria(data.criteria), examBoard: data.exam_board || undefined };
+    rubrics.set(key, rubric);
+    return rubric;
+  };
+
+  const loadBrief = async (assignmentId: string | null): Promise<string | undefined> => {
+    if (!assignmentId) return undefined;
+    if (briefs.has(assignmentId)) return briefs.get(assignmentId);
+    const { data, error } = await supabase
+      .from('assignments')
+      .select('prompt, word_limit')
+      .eq('id', assignmentId)
+      .maybeSingle();
+    if (error) throw error;
+    const brief = data ? assignmentBrief(data) : undefined;
+    briefs.set(assignmentId, brief);
+    return brief;
+  };
+
+  const loadPlan = async (teacherId: string): Promise<PlanName> => {
+    const cached = plans.get(teacherId);
+    if (cached) return cached;
+    const plan = await loadEffectivePlan(supabase, teacherId);
+    plans.set(teacherId, plan);
+    return plan;
+  };
+
+  const pauseForQuota = async (item: BatchJobItemRow, error: QuotaExceededError) => {
+    // The attempt wasn't charged, so don't count it towards MAX_ATTEMPTS
+    await supabase
+      .from('batch_job_items')
+      .update({ status: 'pending', attempts: Math.max(0, item.attempts - 1), locked_at: null, updated_at: new Date().toISOString() })
+      .eq('id', item.id);
+    await supabase
+      .from('batch_jobs')
+      .update({ status: 'paused', paused_reason: error.code, last_error: error.message, updated_at: new Date().toISOString() })
+      .eq('id', item.job_id)
+      .in('status', ['queued', 'running']);
+  };
+
+  const processItem = async (item: BatchJobItemRow) => {
+    try {
+      const job = await loadJob(item.job_id);
+      // Screened on every item, with or without pre-marking. Runs first so a classifier failure retries
+      // the item before any marking has been charged
+      const concerns = await classifySafeguarding(llm, item.content);
+      let feedback: Record<string, unknown> | null = null;
+
+      if (job.ai_pre_mark) {
+        const plan = await loadPlan(item.teacher_id);
+        const rubric = await loadRubric(job);
+        const customPrompt = await loadBrief(job.assignment_id);
+        const reservation = await reserveUsage(supabase, { userId: item.teacher_id, plan, endpoint: 'batch-worker', provider: llm.name });
+        let marking: EssayMarking;
+        try {
+          marking = await markEssay(llm, {
+            essayText: item.content,
+            rubricCriteria: rubric.criteria,
+            examBoard: rubric.examBoard,
+            customPrompt,
+          });
+        } catch (markingError) {
+          // Not charged; the item is retried or failed below
+          await releaseUsage(supabase, reservation);
+          throw markingError;
+        }
+        feedback = {
+          grammar_issues: marking.grammar_issues,
+          strengths: marking.strengths,
+          improvements: marking.improvements,
+          suggested_feedback: marking.suggested_feedback,
+          overall_score: marking.overall_score,
+          criteria_scores: marking.criteria_scores,
+          annotations: marking.annotations,
+        };
+      }
+
+      const { data: completed, error } = await supabase.rpc('complete_batch_job_item', { p_item_id: item.id, p_feedback: feedback });
+      if (error) throw error;
+      result.completed++;
+
+      const essayId = (completed as { essay_id?: string | null } | null)?.essay_id;
+      if (essayId) {
+        try {
+          await recordSafeguardingFlags(supabase, essayId, concerns, llm.name);
+        } catch (flagError) {
+          // The essay stays unscreened, so it is screened again when the teacher opens it
+          console.error(`❌ Failed to record safeguarding flags for essay ${essayId}:`, flagError);
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof QuotaExceededError) {
+        await pauseForQuota(item, error);
+        result.paused++;
+        return;
+      }
+
+      console.error(`❌ Batch item ${item.id} failed (attempt ${item.attempts}/${MAX_ATTEMPTS}):`, error);
+      const retryAt = item.attempts < MAX_ATTEMPTS ? new Date(Date.now() + retryDelayMs(item.attempts)).toISOString() : null;
+      const { error: failError } = await supabase.rpc('fail_batch_job_item', {
+        p_item_id: item.id,
+        p_error: error?.message || 'Marking failed',
+        p_retry_at: retryAt,
+      });
+      if (failError) {
+        // The item stays 'processing' and is reclaimed once its lock goes stale
+        console.error('❌ Failed to record batch item failure:', failError);
+      }
+      if (retryAt) result.retried++;
+      else result.failed++;
+    }
+  };
+
+  while (Date.now() - startedAt < timeBudgetMs) {
+    const { data, error } = await supabase.rpc('claim_batch_job_items', {
+      p_limit: concurrency,
+      p_teacher_id: options.teacherId ?? null,
+      p_per_teacher: perTeacher,
+    });
+    if (error) throw error;
+
+    const items = (data || []) as BatchJobItemRow[];
+    if (items.length === 0) break;
+    result.claimed += items.length;
+    await Promise.all(items.map(processItem));
+  }
+
+  return result;
+}
@@ -0,0 +1,305 @@
+// Google Classroom + OAuth client for the api/ handlers.
+// Select with CLASSROOM_API=google | fake (defaults to google). The fake serves canned courses
+// and submissions in-process so the whole connect → sync → import → push flow runs offline.
+
+import mammoth from 'mammoth';
+import { createFakeClassroom } from './fakeClassroom';
+
+export const CLASSROOM_SCOPES = [
+  'openid',
+  'email',
+  'https://www.googleapis.com/auth/classroom.courses.readonly',
+  'https://www.googleapis.com/auth/classroom.rosters.readonly',
+  'https://www.googleapis.com/auth/classroom.profile.emails',
+  'https://www.googleapis.com/auth/classroom.coursework.students',
+  'https://www.googleapis.com/auth/drive.readonly',
+];
+
+export interface ClassroomCourse {
+  id: string;
+  name: string;
+  section?: string;
+}
+
+export interface ClassroomStudent {
+  userId: string;
+  fullName: string;
+  email: string | null;
+}
+
+export interface ClassroomCourseWork {
+  id: string;
+  title: string;
+  description?: string;
+  maxPoints: number | null; // null when the coursework is ungraded
+  dueDate?: string; // YYYY-MM-DD
+}
+
+export interface ClassroomAttachment {
+  driveFileId: string;
+  title: string;
+}
+
+export interface ClassroomSubmission {
+  id: string;
+  userId: string;
+  state: string; // TURNED_IN, RETURNED, ...
+  updateTime: string;
+  shortAnswer?: string;
+  attachments: ClassroomAttachment[];
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken: string | null; // Only returned on the consent exchange
+  scope: string;
+  email: string | null;
+}
+
+export interface ClassroomApi {
+  name: 'google' | 'fake';
+  authUrl(state: string): string;
+  exchangeCode(code: string): Promise<OAuthTokens>;
+  refreshAccessToken(refreshToken: string): Promise<string>;
+  revokeToken(token: string): Promise<void>;
+  listCourses(accessToken: string): Promise<ClassroomCourse[]>;
+  listStudents(accessToken: string, courseId: string): Promise<ClassroomStudent[]>;
+  listCourseWork(accessToken: string, courseId: string): Promise<ClassroomCourseWork[]>;
+  listSubmissions(accessToken: string, courseId: string, courseWorkId: string): Promise<ClassroomSubmission[]>;
+  /** Plain text of a Drive attachment, or null when the file type can't be read */
+  readAttachment(accessToken: string, attachment: ClassroomAttachment): Promise<string | null>;
+  setDraftGrade(accessToken: string, courseId: string, courseWorkId: string, submissionId: string, grade: number): Promise<void>;
+}
+
+/**
+ * Raised when the selected Classroom API is missing required environment variables.
+ */
+export class ClassroomConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClassroomConfigError';
+  }
+}
+
+/**
+ * A non-2xx response from Google. `reason` carries Google's error status, e.g. PERMISSION_DENIED.
+ */
+export class ClassroomApiError extends Error {
+  status: number;
+  reason: string | null;
+
+  constructor(status: number, message: string, reason: string | null = null) {
+    super(message);
+    this.name = 'ClassroomApiError';
+    this.status = status;
+    this.reason = reason;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
+const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const GOOGLE_REVOKE_URL = 'https://oauth2.googleapis.com/revoke';
+const GOOGLE_USERINFO_URL = 'https://openidconnect.googleapis.com/v1/userinfo';
+const CLASSROOM_BASE = 'https://classroom.googleapis.com/v1';
+const DRIVE_BASE = 'https://www.googleapis.com/drive/v3';
+
+const DOCX_MIME = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+async function googleFetch(url: string, accessToken: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Authorization: `Bearer ${accessToken}`, ...(init.headers || {}) },
+  });
+  if (!response.ok) {
+    const body: any = await response.json().catch(() => null);
+    throw new ClassroomApiError(
+      response.status,
+      body?.error?.message || `Google API request failed (${response.status})`,
+      body?.error?.status || null
+    );
+  }
+  return response;
+}
+
+/**
+ * Follow nextPageToken until every page of a list endpoint has been read
+ */
+async function listAll<T>(url: string, accessToken: string, key: string): Promise<T[]> {
+  const results: T[] = [];
+  let pageToken: string | undefined;
+  do {
+    const pageUrl = new URL(url);
+    pageUrl.searchParams.set('pageSize', '100');
+    if (pageToken) pageUrl.searchParams.set('pageToken', pageToken);
+    const body: any = await (await googleFetch(pageUrl.toString(), accessToken)).json();
+    results.push(...(body?.[key] || []));
+    pageToken = body?.nextPageToken || undefined;
+  } while (pageToken);
+  return results;
+}
+
+const formatDueDate = (date: any) =>
+  date?.year && date?.month && date?.day
+    ? `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`
+    : undefined;
+
+function createGoogleClassroom(env: Env): ClassroomApi {
+  const clientId = env.GOOGLE_CLIENT_ID;
+  const clientSecret = env.GOOGLE_CLIENT_SECRET;
+  const redirectUri = env.GOOGLE_REDIRECT_URI;
+  if (!clientId || !clientSecret || !redirectUri) {
+    throw new ClassroomConfigError(
+      'Google Classroom not configured. Please add GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET and GOOGLE_REDIRECT_URI.'
+    );
+  }
+
+  const tokenRequest = async (params: Record<string, string>) => {
+    const response = await fetch(GOOGLE_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ client_id: clientId, client_secret: clientSecret, ...params }).toString(),
+    });
+    const body: any = await response.json().catch(() => null);
+    if (!response.ok || !body?.access_token) {
+      throw new ClassroomApiError(response.status, body?.error_description || 'Google token request failed', body?.error || null);
+    }
+    return body;
+  };
+
+  return {
+    name: 'google',
+    authUrl(state) {
+      const url = new URL(GOOGLE_AUTH_URL);
+      url.search = new URLSearchParams({
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        response_type: 'code',
+        scope: CLASSROOM_SCOPES.join(' '),
+        access_type: 'offline',
+        prompt: 'consent', // Google only issues a refresh token on the consent screen
+        include_granted_scopes: 'true',
+        state,
+      }).toString();
+      return url.toString();
+    },
+    async exchangeCode(code) {
+      const body = await tokenRequest({ code, grant_type: 'authorization_code', redirect_uri: redirectUri });
+      let email: string | null = null;
+      try {
+        const profile: any = await (await googleFetch(GOOGLE_USERINFO_URL, body.access_token)).json();
+        email = profile?.email || null;
+      } catch (error) {
+        console.warn('⚠️ Could not read Google account email:', error);
+      }
+      return { accessToken: body.access_token, refreshToken: body.refresh_token || null, scope: body.scope || '', email };
+    },
+    async refreshAccessToken(refreshToken) {
+      const body = await tokenRequest({ refresh_token: refreshToken, grant_type: 'refresh_token' });
+      return body.access_token as string;
+    },
+    async revokeToken(token) {
+      const response = await fetch(GOOGLE_REVOKE_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ token }).toString(),
+      });
+      // 400 means the token was already revoked or expired, which is what we wanted anyway
+      if (!response.ok && response.status !== 400) {
+        throw new ClassroomApiError(response.status, 'Google token revoke failed');
+      }
+    },
+    async listCourses(accessToken) {
+      const courses = await listAll<any>(`${CLASSROOM_BASE}/courses?teacherId=me&courseStates=ACTIVE`, accessToken, 'courses');
+      return courses.map((c) => ({ id: c.id, name: c.name, section: c.section || undefined }));
+    },
+    async listStudents(accessToken, courseId) {
+      const students = await listAll<any>(`${CLASSROOM_BASE}/courses/${encodeURIComponent(courseId)}/students`, accessToken, 'students');
+      return students.map((s) => ({
+        userId: s.userId,
+        fullName: s.profile?.name?.fullName || 'Unnamed student',
+        email: s.profile?.emailAddress || null,
+      }));
+    },
+    async listCourseWork(accessToken, courseId) {
+      const work = await listAll<any>(
+        `${CLASSROOM_BASE}/courses/${encodeURIComponent(courseId)}/courseWork?courseWorkStates=PUBLISHED`,
+        accessToken,
+        'courseWork'
+      );
+      return work
+        .filter((w) => w.workType === 'ASSIGNMENT' || w.workType === 'SHORT_ANSWER_QUESTION')
+        .map((w) => ({
+          id: w.id,
+          title: w.title,
+          description: w.description || undefined,
+          maxPoints: typeof w.maxPoints === 'number' ? w.maxPoints : null,
+          dueDate: formatDueDate(w.dueDate),
+        }));
+    },
+    async listSubmissions(accessToken, courseId, courseWorkId) {
+      const submissions = await listAll<any>(
+        `${CLASSROOM_BASE}/courses/${encodeURIComponent(courseId)}/courseWork/${encodeURIComponent(courseWorkId)}/studentSubmissions?states=TURNED_IN&states=RETURNED`,
+        accessToken,
+        'studentSubmissions'
+      );
+      return submissions.map((s) => ({
+        id: s.id,
+        userId: s.userId,
+        state: s.state,
+        updateTime: s.updateTime,
+        shortAnswer: s.shortAnswerSubmission?.answer || undefined,
+        attachments: (s.assignmentSubmission?.attachments || [])
+          .filter((a: any) => a.driveFile?.id)
+          .map((a: any) => ({ driveFileId: a.driveFile.id, title: a.driveFile.title || 'Attachment' })),
+      }));
+    },
+    async readAttachment(accessToken, attachment) {
+      const fileUrl = `${DRIVE_BASE}/files/${encodeURIComponent(attachment.driveFileId)}`;
+      const meta: any = await (await googleFetch(`${fileUrl}?fields=mimeType`, accessToken)).json();
+      switch (meta?.mimeType) {
+        case 'application/vnd.google-apps.document':
+          return (await googleFetch(`${fileUrl}/export?mimeType=text%2Fplain`, accessToken)).text();
+        case 'text/plain':
+          return (await googleFetch(`${fileUrl}?alt=media`, accessToken)).text();
+        case DOCX_MIME: {
+          const buffer = Buffer.from(await (await googleFetch(`${fileUrl}?alt=media`, accessToken)).arrayBuffer());
+          return (await mammoth.extractRawText({ buffer })).value;
+        }
+        default:
+          return null;
+      }
+    },
+    async setDraftGrade(accessToken, courseId, courseWorkId, submissionId, grade) {
+      await googleFetch(
+        `${CLASSROOM_BASE}/courses/${encodeURIComponent(courseId)}/courseWork/${encodeURIComponent(courseWorkId)}/studentSubmissions/${encodeURIComponent(submissionId)}?updateMask=draftGrade`,
+        accessToken,
+        { method: 'PATCH', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ draftGrade: grade }) }
+      );
+    },
+  };
+}
+
+export function createClassroomApi(env: Env = process.env): ClassroomApi {
+  switch (env.CLASSROOM_API || 'google') {
+    case 'google':
+      return createGoogleClassroom(env);
+    case 'fake':
+      return createFakeClassroom(env.GOOGLE_REDIRECT_URI || '/api/google-classroom?action=callback');
+    default:
+      throw new ClassroomConfigError(`Unknown CLASSROOM_API "${env.CLASSROOM_API}". Use google or fake.`);
+  }
+}
+
+let cachedApi: ClassroomApi | null = null;
+
+/**
+ * Classroom API for the current environment, created once per serverless instance.
+ */
+export function getClassroomApi(): ClassroomApi {
+  if (!cachedApi) {
+    cachedApi = createClassroomApi();
+  }
+  return cachedApi;
+}
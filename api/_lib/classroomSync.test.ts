@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createFakeClassroom, fakeDraftGrades } from './fakeClassroom';
+import { getAccessToken, importSubmissions, pushDraftGrades, saveConnection, syncRosters, toDraftGrade } from './classroomSync';
+
+type Row = Record<string, any>;
+
+type Result = { data: any; error: { message: string } | null };
+
+/**
+ * Just enough of the Supabase query builder for the sync: filters, order, single/maybeSingle and writes,
+ * run against in-memory tables when awaited. Inserts into a table named in `failInserts` fail.
+ */
+class FakeQuery implements PromiseLike<Result> {
+  private action: 'select' | 'insert' | 'update' | 'upsert' | 'delete' = 'select';
+  private payload: any = null;
+  private conflictKeys = ['teacher_id'];
+  private filters: Array<(row: Row) => boolean> = [];
+  private sort: { column: string; ascending: boolean } | null = null;
+
+  constructor(private rows: Row[], private failInsert = false) {}
+
+  select() { return this; }
+  insert(values: Row | Row[]) { this.action = 'insert'; this.payload = values; return this; }
+  update(values: Row) { this.action = 'update'; this.payload = values; return this; }
+  upsert(values: Row, options?: { onConflict?: string }) {
+    this.action = 'upsert';
+    this.payload = values;
+    if (options?.onConflict) this.conflictKeys = options.onConflict.split(',');
+    return this;
+  }
+  delete() { this.action = 'delete'; return this; }
+  eq(column: string, value: unknown) { this.filters.push((row) => row[column] === value); return this; }
+  in(column: string, values: unknown[]) { this.filters.push((row) => values.includes(row[column])); return this; }
+  not(column: string, _op: 'is', _value: null) { this.filters.push((row) => row[column] != null); return this; }
+  order(column: string, options?: { ascending?: boolean }) { this.sort = { column, ascending: options?.ascending ?? true }; return this; }
+  maybeSingle() { return this.run().then(({ data, error }) => ({ data: data?.[0] ?? null, error })); }
+  single() { return this.maybeSingle(); }
+
+  then<T1, T2>(onfulfilled?: (value: Result) => T1 | PromiseLike<T1>, onrejected?: (reason: any) => T2 | PromiseLike<T2>) {
+    return this.run().then(onfulfilled, onrejected);
+  }
+
+  private async run(): Promise<Result> {
+    const matches = (row: Row) => this.filters.every((f) => f(row));
+    switch (this.action) {
+      case 'insert': {
+        if (this.failInsert) return { data: null, error: { message: 'insert failed' } };
+        const inserted = ([] as Row[]).concat(this.payload).map((row) => {
+          const stored = { id: `row-${this.rows.length + 1}`, ...row };
+          this.rows.push(stored);
+          return { ...stored };
+        });
+        return { data: inserted, error: null };
+      }
+      case 'upsert': {
+        const existing = this.rows.find((row) => this.conflictKeys.every((key) => row[key] === this.payload[key]));
+        if (existing) Object.assign(existing, this.payload);
+        else this.rows.push({ ...this.payload });
+        return { data: null, error: null };
+      }
+      case 'update':
+        this.rows.filter(matches).forEach((row) => Object.assign(row, this.payload));
+        return { data: null, error: null };
+      case 'delete':
+        this.rows.splice(0, this.rows.length, ...this.rows.filter((row) => !matches(row)));
+        return { data: null, error: null };
+      default: {
+        const data = this.rows.filter(matches).map((row) => ({ ...row }));
+        if (this.sort) {
+          const { column, ascending } = this.sort;
+          data.sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+        }
+        return { data, error: null };
+      }
+    }
+  }
+}
+
+function fakeDatabase(tables: Record<string, Row[]>, failInserts: string[] = []) {
+  const client = { from: (table: string) => new FakeQuery((tables[table] ||= []), failInserts.includes(table)) };
+  return client as unknown as SupabaseClient;
+}
+
+const TEACHER = 'teacher-1';
+const api = createFakeClassroom('http://localhost:3000/api/google-classroom?action=callback');
+
+describe('Classroom sync against the fake', () => {
+  let tables: Record<string, Row[]>;
+  let supabase: SupabaseClient;
+
+  beforeEach(async () => {
+    vi.stubEnv('GOOGLE_TOKEN_ENCRYPTION_KEY', 'test-encryption-key');
+    fakeDraftGrades.clear();
+    tables = {
+      students: [
+        // Added by CSV before connecting; linked by email rather than duplicated
+        { id: 'student-emma', teacher_id: TEACHER, name: 'Emma W', email: 'Emma.Wilson@student.test', google_classroom_id: null },
+      ],
+    };
+    supabase = fakeDatabase(tables);
+    const connection = await api.exchangeCode('fake-code');
+    await saveConnection(supabase, TEACHER, { refreshToken: connection.refreshToken!, email: connection.email, scope: connection.scope });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('stores the refresh token encrypted and exchanges it for an access token', async () => {
+    expect(tables.classroom_connections[0].refresh_token_encrypted).not.toContain('fake-refresh-token');
+    expect(await getAccessToken(supabase, api, TEACHER)).toBe('fake-access-token');
+  });
+
+  it('mirrors a course roster into students, linking existing students by email', async () => {
+    const result = await syncRosters(supabase, api, TEACHER, [{ courseId: 'course-10a' }]);
+    expect(result).toEqual({ courses: 1, created: 2, updated: 1 });
+
+    const byName = Object.fromEntries(tables.students.map((s) => [s.name, s]));
+    expect(Object.keys(byName).sort()).toEqual(['Ava Martinez', 'Emma Wilson', 'James Brown']);
+    expect(byName['Emma Wilson']).toMatchObject({ id: 'student-emma', google_classroom_id: 'gc-user-emma', class_section: '10A' });
+    expect(tables.classroom_courses).toEqual([expect.objectContaining({ teacher_id: TEACHER, course_id: 'course-10a', class_section: '10A' })]);
+
+    // A second sync updates rather than duplicates
+    expect(await syncRosters(supabase, api, TEACHER, [{ courseId: 'course-10a', classSection: 'Set 1' }])).toEqual({ courses: 1, created: 0, updated: 3 });
+    expect(tables.students.every((s) => s.class_section === 'Set 1')).toBe(true);
+  });
+
+  it('rejects a course the teacher does not have', async () => {
+    await expect(syncRosters(supabase, api, TEACHER, [{ courseId: 'course-missing' }])).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('pushes the latest score of each marked submission as a draft grade', async () => {
+    tables.classroom_submission_links = [
+      { id: 'link-emma', teacher_id: TEACHER, course_id: 'course-10a', coursework_id: 'cw-climate', submission_id: 'sub-emma', max_points: 40, batch_job_items: { essay_id: 'essay-emma' } },
+      { id: 'link-james', teacher_id: TEACHER, course_id: 'course-10a', coursework_id: 'cw-climate', submission_id: 'sub-james', max_points: 40, batch_job_items: { essay_id: 'essay-james' } },
+      { id: 'link-ava', teacher_id: TEACHER, course_id: 'course-10a', coursework_id: 'cw-climate', submission_id: 'sub-ava', max_points: 40, batch_job_items: null },
+    ];
+    tables.feedback = [
+      { essay_id: 'essay-emma', overall_score: 60, created_at: '2025-12-15T10:00:00Z' },
+      { essay_id: 'essay-emma', overall_score: 82, created_at: '2025-12-16T10:00:00Z' }, // Remarked
+      { essay_id: 'essay-james', overall_score: 45, created_at: '2025-12-15T11:00:00Z' },
+    ];
+
+    const result = await pushDraftGrades(supabase, api, TEACHER, { courseId: 'course-10a', courseWorkId: 'cw-climate' });
+    expect(result).toEqual({ pushed: 2, failed: 0, notMarked: 1 });
+    expect(Object.fromEntries(fakeDraftGrades)).toEqual({ 'sub-emma': 32.8, 'sub-james': 18 });
+    expect(tables.classroom_submission_links[0]).toMatchObject({ draft_grade: 32.8, push_error: null });
+  });
+
+  it('records why Google refused a grade for coursework created elsewhere', async () => {
+    tables.classroom_submission_links = [
+      { id: 'link-sophia', teacher_id: TEACHER, course_id: 'course-11b', coursework_id: 'cw-macbeth', submission_id: 'sub-sophia', max_points: 30, batch_job_items: [{ essay_id: 'essay-sophia' }] },
+    ];
+    tables.feedback = [{ essay_id: 'essay-sophia', overall_score: 90, created_at: '2025-12-15T10:00:00Z' }];
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = await pushDraftGrades(supabase, api, TEACHER, { courseId: 'course-11b', courseWorkId: 'cw-macbeth' });
+    expect(result).toEqual({ pushed: 0, failed: 1, notMarked: 0 });
+    expect(fakeDraftGrades.size).toBe(0);
+    expect(tables.classroom_submission_links[0].push_error).toMatch(/^Google only accepts grades from the app that created the assignment/);
+  });
+
+  describe('importSubmissions', () => {
+    const options = { courseId: 'course-10a', courseWorkId: 'cw-climate', rubricId: 'rubric-1', aiPreMark: true };
+
+    beforeEach(() => {
+      tables.rubrics = [{ id: 'rubric-1', name: 'Persuasive writing', teacher_id: TEACHER, organisation_id: null, department_id: null }];
+    });
+
+    it('queues readable submissions as one job with a link per submission, and skips them next time', async () => {
+      const result = await importSubmissions(supabase, api, TEACHER, options);
+      expect(result).toMatchObject({ jobId: tables.batch_jobs[0].id, queued: 2, skipped: [{ student: 'Ava Martinez', reason: expect.any(String) }] });
+      expect(tables.batch_job_items.map((item) => item.student_id)).toEqual(['student-emma', expect.any(String)]);
+      expect(tables.classroom_submission_links.map((link) => link.submission_id)).toEqual(['sub-emma', 'sub-james']);
+
+      const again = await importSubmissions(supabase, api, TEACHER, options);
+      expect(again.jobId).toBeNull();
+      expect(again.skipped.filter((s) => s.reason === 'Already imported')).toHaveLength(2);
+      expect(tables.batch_jobs).toHaveLength(1);
+    });
+
+    it('removes the job when its submission links cannot be saved, so a retry imports the submissions once', async () => {
+      const failingLinks = fakeDatabase(tables, ['classroom_submission_links']);
+      await expect(importSubmissions(failingLinks, api, TEACHER, options)).rejects.toMatchObject({ message: 'insert failed' });
+      expect(tables.batch_jobs).toEqual([]);
+
+      const retry = await importSubmissions(supabase, api, TEACHER, options);
+      expect(retry.queued).toBe(2);
+      expect(tables.batch_jobs).toHaveLength(1);
+    });
+
+    it('refuses a rubric the teacher cannot see', async () => {
+      tables.rubrics[0].teacher_id = 'teacher-2';
+      await expect(importSubmissions(supabase, api, TEACHER, options)).rejects.toMatchObject({ status: 404, message: 'Rubric not found' });
+    });
+  });
+});
+
+describe('toDraftGrade', () => {
+  it('scales a percentage to the coursework points with one decimal place', () => {
+    expect(toDraftGrade(82, 40)).toBe(32.8);
+    expect(toDraftGrade(33.333, 30)).toBe(10);
+    expect(toDraftGrade(120, 30)).toBe(30);
+  });
+});
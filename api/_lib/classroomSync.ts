@@ -0,0 +1,455 @@
+// Google Classroom sync for /api/google-classroom: stores the teacher's connection, mirrors course
+// rosters into students, queues turned-in submissions as a batch job and writes draft grades back.
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ClassroomApiError, ClassroomConfigError, type ClassroomApi, type ClassroomCourse, type ClassroomSubmission } from './classroomApi';
+import { canViewShared } from './workspaces';
+
+const STATE_TTL_MS = 10 * 60_000;
+
+/**
+ * A request the sync can't carry out as asked (not connected, unknown course, ungraded coursework...).
+ */
+export class ClassroomSyncError extends Error {
+  status: 400 | 404 | 409;
+
+  constructor(status: 400 | 404 | 409, message: string) {
+    super(message);
+    this.name = 'ClassroomSyncError';
+    this.status = status;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+function secretKey(env: Env): Buffer {
+  const secret = env.GOOGLE_TOKEN_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new ClassroomConfigError('Server misconfiguration: missing GOOGLE_TOKEN_ENCRYPTION_KEY');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+/** AES-256-GCM, stored as base64 iv.tag.ciphertext */
+export function encryptToken(token: string, env: Env = process.env): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', secretKey(env), iv);
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((b) => b.toString('base64')).join('.');
+}
+
+export function decryptToken(stored: string, env: Env = process.env): string {
+  const [iv, tag, ciphertext] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = createDecipheriv('aes-256-gcm', secretKey(env), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * OAuth state binding the callback to the teacher who started it: teacherId.expiry.signature
+ */
+export function signState(teacherId: string, env: Env = process.env, now = Date.now()): string {
+  const payload = `${teacherId}.${now + STATE_TTL_MS}`;
+  const signature = createHmac('sha256', secretKey(env)).update(payload).digest('base64url');
+  return `${payload}.${signature}`;
+}
+
+/** Teacher ID from a valid, unexpired state, otherwise null */
+export function verifyState(state: string, env: Env = process.env, now = Date.now()): string | null {
+  const [teacherId, expiry, signature] = state.split('.');
+  if (!teacherId || !expiry || !signature || Number(expiry) < now) return null;
+  const expected = createHmac('sha256', secretKey(env)).update(`${teacherId}.${expiry}`).digest();
+  const given = Buffer.from(signature, 'base64url');
+  return given.length === expected.length && timingSafeEqual(given, expected) ? teacherId : null;
+}
+
+export async function saveConnection(
+  supabase: SupabaseClient,
+  teacherId: string,
+  connection: { refreshToken: string; email: string | null; scope: string }
+): Promise<void> {
+  const { error } = await supabase.from('classroom_connections').upsert({
+    teacher_id: teacherId,
+    google_email: connection.email,
+    refresh_token_encrypted: encryptToken(connection.refreshToken),
+    scopes: connection.scope,
+    connected_at: new Date().toISOString(),
+  });
+  if (error) throw error;
+}
+
+async function loadRefreshToken(supabase: SupabaseClient, teacherId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('classroom_connections')
+    .select('refresh_token_encrypted')
+    .eq('teacher_id', teacherId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new ClassroomSyncError(409, 'Google Classroom is not connected. Connect it from Account Settings.');
+  return decryptToken(data.refresh_token_encrypted);
+}
+
+/**
+ * Fresh access token for the teacher. A revoked grant drops the connection so the UI asks to reconnect.
+ */
+export async function getAccessToken(supabase: SupabaseClient, api: ClassroomApi, teacherId: string): Promise<string> {
+  const refreshToken = await loadRefreshToken(supabase, teacherId);
+  try {
+    return await api.refreshAccessToken(refreshToken);
+  } catch (error) {
+    if (error instanceof ClassroomApiError && error.reason === 'invalid_grant') {
+      await supabase.from('classroom_connections').delete().eq('teacher_id', teacherId);
+      throw new ClassroomSyncError(409, 'Google Classroom access was revoked. Please reconnect from Account Settings.');
+    }
+    throw error;
+  }
+}
+
+export async function disconnect(supabase: SupabaseClient, api: ClassroomApi, teacherId: string): Promise<void> {
+  try {
+    await api.revokeToken(await loadRefreshToken(supabase, teacherId));
+  } catch (error) {
+    // Still forget the token locally; the teacher can remove access from their Google account
+    console.warn('⚠️ Failed to revoke Google Classroom token:', error);
+  }
+  const { error } = await supabase.from('classroom_connections').delete().eq('teacher_id', teacherId);
+  if (error) throw error;
+}
+
+const defaultClassSection = (course: ClassroomCourse) => course.section || course.name;
+
+export interface RosterSyncResult {
+  courses: number;
+  created: number;
+  updated: number;
+}
+
+async function syncCourseRoster(
+  supabase: SupabaseClient,
+  api: ClassroomApi,
+  accessToken: string,
+  teacherId: string,
+  course: ClassroomCourse,
+  classSection: string
+): Promise<{ created: number; updated: number }> {
+  const [roster, existingResult] = await Promise.all([
+    api.listStudents(accessToken, course.id),
+    supabase.from('students').select('id, email, google_classroom_id').eq('teacher_id', teacherId),
+  ]);
+  if (existingResult.error) throw existingResult.error;
+  const existing = (existingResult.data || []) as Array<{ id: string; email: string | null; google_classroom_id: string | null }>;
+
+  const byClassroomId = new Map(existing.filter((s) => s.google_classroom_id).map((s) => [s.google_classroom_id!, s]));
+  // Students added by hand or CSV before connecting are linked by email rather than duplicated
+  const unlinkedByEmail = new Map(
+    existing.filter((s) => !s.google_classroom_id && s.email).map((s) => [s.email!.trim().toLowerCase(), s])
+  );
+
+  let created = 0;
+  let updated = 0;
+  const inserts: Record<string, unknown>[] = [];
+  for (const student of roster) {
+    const fields = {
+      name: student.fullName,
+      class_section: classSection,
+      google_classroom_id: student.userId,
+      classroom_course_id: course.id,
+      ...(student.email ? { email: student.email } : {}),
+    };
+    const match = byClassroomId.get(student.userId) ?? (student.email ? unlinkedByEmail.get(student.email.toLowerCase()) : undefined);
+    if (match) {
+      const { error } = await supabase
+        .from('students')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', match.id);
+      if (error) throw error;
+      updated++;
+    } else {
+      inserts.push({ ...fields, teacher_id: teacherId, email: student.email || '', active: true });
+    }
+  }
+
+  if (inserts.length > 0) {
+    const { error } = await supabase.from('students').insert(inserts);
+    if (error) throw error;
+    created = inserts.length;
+  }
+
+  const { error: courseError } = await supabase.from('classroom_courses').upsert(
+    {
+      teacher_id: teacherId,
+      course_id: course.id,
+      name: course.name,
+      section: course.section || null,
+      class_section: classSection,
+      last_roster_sync_at: new Date().toISOString(),
+    },
+    { onConflict: 'teacher_id,course_id' }
+  );
+  if (courseError) throw courseError;
+
+  return { created, updated };
+}
+
+/**
+ * Mirror the chosen courses' rosters into students, each course mapped to a class section.
+ */
+export async function syncRosters(
+  supabase: SupabaseClient,
+  api: ClassroomApi,
+  teacherId: string,
+  courses: Array<{ courseId: string; classSection?: string }>
+): Promise<RosterSyncResult> {
+  const accessToken = await getAccessToken(supabase, api, teacherId);
+  const available = new Map((await api.listCourses(accessToken)).map((c) => [c.id, c]));
+
+  const result: RosterSyncResult = { courses: 0, created: 0, updated: 0 };
+  for (const { courseId, classSection } of courses) {
+    const course = available.get(courseId);
+    if (!course) throw new ClassroomSyncError(404, `Course ${courseId} was not found in your Google Classroom`);
+    const counts = await syncCourseRoster(
+      supabase, api, accessToken, teacherId, course, classSection?.trim() || defaultClassSection(course)
+    );
+    result.courses++;
+    result.created += counts.created;
+    result.updated += counts.updated;
+  }
+
+  await supabase.from('classroom_connections').update({ last_sync_at: new Date().toISOString() }).eq('teacher_id', teacherId);
+  return result;
+}
+
+export interface ImportOptions {
+  courseId: string;
+  courseWorkId: string;
+  rubricId: string;
+  aiPreMark: boolean;
+}
+
+export interface ImportResult {
+  jobId: string | null;
+  queued: number;
+  skipped: Array<{ student: string; reason: string }>;
+}
+
+async function submissionText(api: ClassroomApi, accessToken: string, submission: ClassroomSubmission): Promise<string | null> {
+  if (submission.shortAnswer) return submission.shortAnswer;
+  const parts: string[] = [];
+  for (const attachment of submission.attachments) {
+    const text = await api.readAttachment(accessToken, attachment);
+    if (text?.trim()) parts.push(text.trim());
+  }
+  return parts.length > 0 ? parts.join('\n\n') : null;
+}
+
+/**
+ * Queue a coursework's turned-in submissions as a batch job marked against the chosen rubric.
+ * The roster is synced first so every essay is linked to its student; already imported
+ * submissions are skipped.
+ */
+export async function importSubmissions(
+  supabase: SupabaseClient,
+  api: ClassroomApi,
+  teacherId: string,
+  options: ImportOptions
+): Promise<ImportResult> {
+  const { data: rubric, error: rubricError } = await supabase
+    .from('rubrics')
+    .select('id, name, teacher_id, organisation_id, department_id')
+    .eq('id', options.rubricId)
+    .maybeSingle();
+  if (rubricError) throw rubricError;
+  // Own rubrics, or ones shared with the teacher's workspace
+  if (!rubric || !(await canViewShared(supabase, teacherId, rubric))) {
+    throw new ClassroomSyncError(404, 'Rubric not found');
+  }
+
+  const accessToken = await getAccessToken(supabase, api, teacherId);
+  const course = (await api.listCourses(accessToken)).find((c) => c.id === options.courseId);
+  if (!course) throw new ClassroomSyncError(404, 'Course not found in your Google Classroom');
+  const courseWork = (await api.listCourseWork(accessToken, course.id)).find((w) => w.id === options.courseWorkId);
+  if (!courseWork) throw new ClassroomSyncError(404, 'Assignment not found in this course');
+
+  const { data: mapping } = await supabase
+    .from('classroom_courses')
+    .select('class_section')
+    .eq('teacher_id', teacherId)
+    .eq('course_id', course.id)
+    .maybeSingle();
+  await syncCourseRoster(supabase, api, accessToken, teacherId, course, mapping?.class_section || defaultClassSection(course));
+
+  const [submissions, studentsResult, linksResult] = await Promise.all([
+    api.listSubmissions(accessToken, course.id, courseWork.id),
+    supabase.from('students').select('id, name, google_classroom_id').eq('teacher_id', teacherId).not('google_classroom_id', 'is', null),
+    supabase.from('classroom_submission_links').select('submission_id').eq('teacher_id', teacherId).eq('coursework_id', courseWork.id),
+  ]);
+  if (studentsResult.error) throw studentsResult.error;
+  if (linksResult.error) throw linksResult.error;
+
+  const students = new Map((studentsResult.data || []).map((s: any) => [s.google_classroom_id as string, s as { id: string; name: string }]));
+  const imported = new Set((linksResult.data || []).map((l: any) => l.submission_id as string));
+
+  const result: ImportResult = { jobId: null, queued: 0, skipped: [] };
+  const queue: Array<{ submission: ClassroomSubmission; studentId: string | null; name: string; content: string }> = [];
+  for (const submission of submissions) {
+    const student = students.get(submission.userId);
+    const name = student?.name || 'Unknown student';
+    if (imported.has(submission.id)) {
+      result.skipped.push({ student: name, reason: 'Already imported' });
+      continue;
+    }
+    const content = await submissionText(api, accessToken, submission);
+    if (!content) {
+      result.skipped.push({ student: name, reason: 'No Google Doc, Word or text attachment to read' });
+      continue;
+    }
+    queue.push({ submission, studentId: student?.id ?? null, name, content });
+  }
+
+  if (queue.length === 0) return result;
+
+  const { data: job, error: jobError } = await supabase
+    .from('batch_jobs')
+    .insert({
+      teacher_id: teacherId,
+      rubric_id: rubric.id,
+      name: `${courseWork.title} — ${course.name}`,
+      ai_pre_mark: options.aiPreMark,
+      total_items: queue.length,
+    })
+    .select('id')
+    .single();
+  if (jobError || !job) throw jobError || new Error('Failed to create batch job');
+
+  const { data: items, error: itemsError } = await supabase
+    .from('batch_job_items')
+    .insert(queue.map((entry, position) => ({
+      job_id: job.id,
+      teacher_id: teacherId,
+      position,
+      filename: `Google Classroom: ${entry.name}`,
+      title: `${courseWork.title} — ${entry.name}`,
+      content: entry.content,
+      word_count: entry.content.split(/\s+/).filter(Boolean).length,
+      student_id: entry.studentId,
+    })))
+    .select('id, position');
+  if (itemsError || !items) {
+    // Don't leave an empty job behind
+    await supabase.from('batch_jobs').delete().eq('id', job.id);
+    throw itemsError || new Error('Failed to queue submissions');
+  }
+
+  const itemIds = new Map(items.map((item: any) => [item.position as number, item.id as string]));
+  const { error: linksError } = await supabase.from('classroom_submission_links').insert(
+    queue.map((entry, position) => ({
+      teacher_id: teacherId,
+      course_id: course.id,
+      coursework_id: courseWork.id,
+      coursework_title: courseWork.title,
+      max_points: courseWork.maxPoints,
+      submission_id: entry.submission.id,
+      classroom_user_id: entry.submission.userId,
+      student_id: entry.studentId,
+      batch_job_item_id: itemIds.get(position) ?? null,
+    }))
+  );
+  if (linksError) {
+    // Without its links the next import would queue these submissions again as duplicate essays
+    await supabase.from('batch_jobs').delete().eq('id', job.id);
+    throw linksError;
+  }
+
+  result.jobId = job.id;
+  result.queued = queue.length;
+  return result;
+}
+
+export interface PushResult {
+  pushed: number;
+  failed: number;
+  notMarked: number;
+}
+
+/** Classroom stores grades as doubles; keep one decimal place like its own grading UI */
+export function toDraftGrade(percent: number, maxPoints: number): number {
+  return Math.round((Math.min(100, Math.max(0, percent)) / 100) * maxPoints * 10) / 10;
+}
+
+function describePushError(error: unknown): string {
+  if (error instanceof ClassroomApiError && error.reason === 'PERMISSION_DENIED') {
+    return 'Google only accepts grades from the app that created the assignment. Enter this grade in Classroom instead.';
+  }
+  return error instanceof Error ? error.message : 'Grade push failed';
+}
+
+/**
+ * Write the latest overall score of every marked submission back as a Classroom draft grade,
+ * scaled to the coursework's point value. Teachers still review and return grades in Classroom.
+ */
+export async function pushDraftGrades(
+  supabase: SupabaseClient,
+  api: ClassroomApi,
+  teacherId: string,
+  target: { courseId: string; courseWorkId: string }
+): Promise<PushResult> {
+  const { data: links, error: linksError } = await supabase
+    .from('classroom_submission_links')
+    .select('id, submission_id, max_points, batch_job_items(essay_id)')
+    .eq('teacher_id', teacherId)
+    .eq('course_id', target.courseId)
+    .eq('coursework_id', target.courseWorkId);
+  if (linksError) throw linksError;
+  if (!links || links.length === 0) throw new ClassroomSyncError(404, 'No imported submissions for this assignment');
+
+  const accessToken = await getAccessToken(supabase, api, teacherId);
+  // Teachers can change the point value after import; use what Classroom has now
+  const courseWork = (await api.listCourseWork(accessToken, target.courseId)).find((w) => w.id === target.courseWorkId);
+  const maxPoints = courseWork ? courseWork.maxPoints : Number(links[0].max_points) || null;
+  if (!maxPoints) {
+    throw new ClassroomSyncError(400, 'This assignment is ungraded in Google Classroom, so there is no grade to fill in.');
+  }
+
+  const essayIdOf = (link: any): string | null => {
+    const item = Array.isArray(link.batch_job_items) ? link.batch_job_items[0] : link.batch_job_items;
+    return item?.essay_id ?? null;
+  };
+  const essayIds = links.map(essayIdOf).filter((id): id is string => !!id);
+  const latestScore = new Map<string, number>();
+  if (essayIds.length > 0) {
+    const { data: feedback, error: feedbackError } = await supabase
+      .from('feedback')
+      .select('essay_id, overall_score, created_at')
+      .in('essay_id', essayIds)
+      .order('created_at', { ascending: false });
+    if (feedbackError) throw feedbackError;
+    for (const row of feedback || []) {
+      if (!latestScore.has(row.essay_id)) latestScore.set(row.essay_id, Number(row.overall_score));
+    }
+  }
+
+  const result: PushResult = { pushed: 0, failed: 0, notMarked: 0 };
+  for (const link of links) {
+    const essayId = essayIdOf(link);
+    const score = essayId ? latestScore.get(essayId) : undefined;
+    if (score === undefined) {
+      result.notMarked++;
+      continue;
+    }
+    const grade = toDraftGrade(score, maxPoints);
+    try {
+      await api.setDraftGrade(accessToken, target.courseId, target.courseWorkId, link.submission_id, grade);
+      await supabase
+        .from('classroom_submission_links')
+        .update({ draft_grade: grade, max_points: maxPoints, grade_pushed_at: new Date().toISOString(), push_error: null })
+        .eq('id', link.id);
+      result.pushed++;
+    } catch (error) {
+      console.error(`❌ Draft grade push failed for submission ${link.submission_id}:`, error);
+      await supabase.from('classroom_submission_links').update({ push_error: describePushError(error) }).eq('id', link.id);
+      result.failed++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { webhookSecretMatches } from './deliveries';
+
+describe('webhookSecretMatches', () => {
+  it('accepts only the configured secret', () => {
+    expect(webhookSecretMatches('whsec-123', 'whsec-123')).toBe(true);
+    expect(webhookSecretMatches('whsec-124', 'whsec-123')).toBe(false);
+    expect(webhookSecretMatches('whsec', 'whsec-123')).toBe(false);
+  });
+
+  it('rejects every request when no secret is configured', () => {
+    expect(webhookSecretMatches('', undefined)).toBe(false);
+    expect(webhookSecretMatches('anything', '')).toBe(false);
+  });
+});
@@ -0,0 +1,230 @@
+// Feedback email delivery for /api/deliveries: renders each essay's latest feedback, sends it to the
+// student (optionally copying their parent or guardian) and records every attempt in deliveries.
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { feedbackEmailSubject, generateFeedbackEmail, generateFeedbackEmailPlainText } from './emailTemplate';
+import { EmailDeliveryError, type EmailTransport } from './emailTransport';
+
+export const MAX_EMAILS_PER_REQUEST = 50;
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+
+/**
+ * A send request that can't be carried out as asked (nothing selected, unknown batch...).
+ */
+export class DeliveryRequestError extends Error {
+  status: 400 | 404;
+
+  constructor(status: 400 | 404, message: string) {
+    super(message);
+    this.name = 'DeliveryRequestError';
+    this.status = status;
+  }
+}
+
+export interface SendOptions {
+  essayIds: string[];
+  jobId?: string; // Batch the essays belong to; larger batches are sent in chunks of MAX_EMAILS_PER_REQUEST
+  ccGuardian: boolean;
+}
+
+export interface SendResult {
+  sent: number;
+  failed: number;
+  bounced: number;
+  skipped: Array<{ essayId: string; title: string; reason: string }>;
+}
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+async function assertBatchEssays(supabase: SupabaseClient, teacherId: string, jobId: string, essayIds: string[]) {
+  const { data: job, error: jobError } = await supabase
+    .from('batch_jobs')
+    .select('id')
+    .eq('id', jobId)
+    .eq('teacher_id', teacherId)
+    .maybeSingle();
+  if (jobError) throw jobError;
+  if (!job) throw new DeliveryRequestError(404, 'Batch not found');
+
+  const { data: items, error } = await supabase
+    .from('batch_job_items')
+    .select('essay_id')
+    .eq('job_id', jobId)
+    .in('essay_id', essayIds);
+  if (error) throw error;
+  if ((items || []).length !== essayIds.length) {
+    throw new DeliveryRequestError(400, 'Some essays are not part of this batch');
+  }
+}
+
+/**
+ * Email the latest feedback on each essay to its student. Essays without a student, an email address or
+ * feedback are skipped and reported; each attempted email gets a deliveries row with its outcome.
+ */
+export async function sendFeedbackEmails(
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  teacherId: string,
+  options: SendOptions
+): Promise<SendResult> {
+  const essayIds = Array.from(new Set(options.essayIds));
+  if (essayIds.length === 0) throw new DeliveryRequestError(400, 'No marked essays to send');
+  if (essayIds.length > MAX_EMAILS_PER_REQUEST) {
+    throw new DeliveryRequestError(400, `Send at most ${MAX_EMAILS_PER_REQUEST} emails at a time`);
+  }
+  if (options.jobId) await assertBatchEssays(supabase, teacherId, options.jobId, essayIds);
+
+  const { data: essays, error: essaysError } = await supabase
+    .from('essays')
+    .select('id, title, student_id')
+    .in('id', essayIds)
+    .eq('teacher_id', teacherId);
+  if (essaysError) throw essaysError;
+  if (!essays?.length) throw new DeliveryRequestError(404, 'Essays not found');
+
+  const studentIds = Array.from(new Set(essays.map((e) => e.student_id).filter(Boolean)));
+  const [studentsResult, feedbackResult, profileResult] = await Promise.all([
+    studentIds.length
+      ? supabase.from('students').select('id, name, email, guardian_email').in('id', studentIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase
+      .from('feedback')
+      .select('id, essay_id, overall_score, strengths, improvements, grammar_issues, suggested_feedback, created_at')
+      .in('essay_id', essays.map((e) => e.id))
+      .order('created_at', { ascending: false }),
+    supabase.from('profiles').select('full_name, email').eq('id', teacherId).maybeSingle(),
+  ]);
+  if (studentsResult.error) throw studentsResult.error;
+  if (feedbackResult.error) throw feedbackResult.error;
+
+  const students = new Map((studentsResult.data || []).map((s: any) => [s.id, s]));
+  const latestFeedback = new Map<string, any>();
+  for (const row of feedbackResult.data || []) {
+    if (!latestFeedback.has(row.essay_id)) latestFeedback.set(row.essay_id, row);
+  }
+  const teacherName = profileResult.data?.full_name || 'Your Teacher';
+  const replyTo = profileResult.data?.email || null;
+
+  const result: SendResult = { sent: 0, failed: 0, bounced: 0, skipped: [] };
+
+  // One at a time: SMTP relays throttle parallel connections, and batches are capped per request
+  for (const essay of essays) {
+    const skip = (reason: string) => result.skipped.push({ essayId: essay.id, title: essay.title, reason });
+    const student: any = essay.student_id ? students.get(essay.student_id) : null;
+    const feedback = latestFeedback.get(essay.id);
+    if (!student) { skip('No student linked'); continue; }
+    if (!student.email || !EMAIL_PATTERN.test(student.email.trim())) { skip(`${student.name} has no valid email address`); continue; }
+    if (!feedback) { skip('Not marked yet'); continue; }
+
+    const guardian = (student.guardian_email || '').trim();
+    const cc = options.ccGuardian && EMAIL_PATTERN.test(guardian) ? [guardian] : [];
+    const data = {
+      studentName: student.name,
+      essayTitle: essay.title,
+      overallScore: feedback.overall_score ?? 0,
+      strengths: toStringList(feedback.strengths),
+      improvements: toStringList(feedback.improvements),
+      grammarIssues: toStringList(feedback.grammar_issues),
+      suggestedFeedback: feedback.suggested_feedback || '',
+      teacherName,
+    };
+    const subject = feedbackEmailSubject(data);
+
+    const { data: delivery, error: insertError } = await supabase
+      .from('deliveries')
+      .insert({
+        teacher_id: teacherId,
+        essay_id: essay.id,
+        feedback_id: feedback.id,
+        student_id: student.id,
+        batch_job_id: options.jobId || null,
+        recipient: student.email.trim(),
+        cc,
+        subject,
+        transport: transport.name,
+      })
+      .select('id')
+      .single();
+    if (insertError) throw insertError;
+
+    const now = () => new Date().toISOString();
+    try {
+      const { messageId } = await transport.send({
+        to: student.email.trim(),
+        cc,
+        subject,
+        html: generateFeedbackEmail(data),
+        text: generateFeedbackEmailPlainText(data),
+        replyTo,
+      });
+      await supabase
+        .from('deliveries')
+        .update({ status: 'sent', provider_message_id: messageId, sent_at: now(), updated_at: now() })
+        .eq('id', delivery.id);
+      result.sent += 1;
+    } catch (error: any) {
+      const bounced = error instanceof EmailDeliveryError && error.bounced;
+      console.error(`❌ Feedback email ${bounced ? 'bounced' : 'failed'} for essay ${essay.id}:`, error?.message);
+      await supabase
+        .from('deliveries')
+        .update({
+          status: bounced ? 'bounced' : 'failed',
+          error: error?.message || 'Delivery failed',
+          ...(bounced ? { bounced_at: now() } : {}),
+          updated_at: now(),
+        })
+        .eq('id', delivery.id);
+      if (bounced) result.bounced += 1;
+      else result.failed += 1;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether a webhook request carried the shared secret. Both sides are hashed first so the
+ * comparison is constant-time whatever length the caller sent.
+ */
+export function webhookSecretMatches(given: string, secret: string | undefined): boolean {
+  if (!secret || !given) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(secret));
+}
+
+/**
+ * Apply a provider webhook event (Resend's shape: { type, data: { email_id, bounce? } }).
+ * Only bounces and complaints change a delivery; returns whether one matched.
+ */
+export async function recordProviderEvent(supabase: SupabaseClient, event: any): Promise<boolean> {
+  const messageId = event?.data?.email_id;
+  if (typeof messageId !== 'string' || !messageId) return false;
+
+  const now = new Date().toISOString();
+  let update: Record<string, unknown>;
+  switch (event?.type) {
+    case 'email.bounced':
+      update = {
+        status: 'bounced',
+        error: event.data.bounce?.message || 'The recipient\'s mail server rejected the message',
+        bounced_at: now,
+      };
+      break;
+    case 'email.complained':
+      update = { status: 'bounced', error: 'The recipient marked the message as spam', bounced_at: now };
+      break;
+    default:
+      return false;
+  }
+
+  const { data, error } = await supabase
+    .from('deliveries')
+    .update({ ...update, updated_at: now })
+    .eq('provider_message_id', messageId)
+    .select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
@@ -1,10 +1,8 @@
-/**
- * Email template generation for feedback notifications
- */
+// Feedback email rendering for /api/deliveries: an HTML body with a plain-text alternative.
+// Everything interpolated comes from essays, students and AI output, so the HTML version escapes it.
 
-interface EmailData {
+export interface EmailData {
   studentName: string;
-  studentEmail: string;
   essayTitle: string;
   overallScore: number;
   strengths: string[];
@@ -14,20 +12,23 @@ interface EmailData {
   teacherName?: string;
 }
 
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+export const feedbackEmailSubject = (data: Pick<EmailData, 'essayTitle'>) => `Feedback for "${data.essayTitle}"`;
+
 /**
  * Generate HTML email template for feedback notification
  */
 export function generateFeedbackEmail(data: EmailData): string {
-  const {
-    studentName,
-    essayTitle,
-    overallScore,
-    strengths,
-    improvements,
-    grammarIssues,
-    suggestedFeedback,
-    teacherName = 'Your Teacher',
-  } = data;
+  const studentName = escapeHtml(data.studentName);
+  const essayTitle = escapeHtml(data.essayTitle);
+  const overallScore = data.overallScore;
+  const strengths = data.strengths.map(escapeHtml);
+  const improvements = data.improvements.map(escapeHtml);
+  const grammarIssues = data.grammarIssues.map(escapeHtml);
+  const suggestedFeedback = escapeHtml(data.suggestedFeedback);
+  const teacherName = escapeHtml(data.teacherName || 'Your Teacher');
 
   const scoreColor = overallScore >= 80 ? '#10b981' : overallScore >= 60 ? '#f59e0b' : '#ef4444';
 
@@ -237,37 +238,3 @@ If you have any questions about this feedback, please reach out to ${teacherName
 This email was generated by Simple Rubriq - AI-Powered Essay Grading
   `.trim();
 }
-
-/**
- * Mock email sending function (to be replaced with actual email service)
- * In production, this would call a Supabase Edge Function or third-party email service
- */
-export async function sendFeedbackEmail(
-  emailData: EmailData
-): Promise<{ success: boolean; error?: string }> {
-  try {
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-
-    // In production, you would:
-    // 1. Call Supabase Edge Function
-    // 2. Use SendGrid, AWS SES, Resend, or similar service
-    // 3. Store notification history in database
-
-    console.log('📧 Mock email sent:', {
-      to: emailData.studentEmail,
-      subject: `Feedback for "${emailData.essayTitle}"`,
-      html: generateFeedbackEmail(emailData),
-      text: generateFeedbackEmailPlainText(emailData),
-    });
-
-    // Mock successful send
-    return { success: true };
-  } catch (error: any) {
-    console.error('Email send error:', error);
-    return {
-      success: false,
-      error: error.message || 'Failed to send email',
-    };
-  }
-}
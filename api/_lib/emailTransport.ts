@@ -0,0 +1,193 @@
+// Pluggable email transport for /api/deliveries.
+// Select with EMAIL_TRANSPORT=smtp | resend | mock (defaults to smtp). For local development point
+// smtp at MailHog (SMTP_HOST=localhost, SMTP_PORT=1025); mock keeps messages in memory.
+
+import { randomUUID } from 'crypto';
+import { sendMail, SmtpError } from './smtp';
+
+export type TransportName = 'smtp' | 'resend' | 'mock';
+
+export interface OutgoingEmail {
+  to: string;
+  cc: string[];
+  subject: string;
+  html: string;
+  text: string;
+  replyTo?: string | null;
+}
+
+export interface EmailTransport {
+  name: TransportName;
+  /** Resolves with the ID the provider knows the message by, used to match bounce webhooks */
+  send(email: OutgoingEmail): Promise<{ messageId: string | null }>;
+}
+
+/**
+ * Raised when the selected transport is missing required environment variables.
+ */
+export class EmailConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailConfigError';
+  }
+}
+
+/**
+ * The message was refused. `bounced` when the recipient was rejected outright (SMTP 5xx on RCPT,
+ * the mock's bounce domain); otherwise a transport failure that may succeed on a later try.
+ */
+export class EmailDeliveryError extends Error {
+  bounced: boolean;
+
+  constructor(message: string, bounced = false) {
+    super(message);
+    this.name = 'EmailDeliveryError';
+    this.bounced = bounced;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+const RESEND_URL = 'https://api.resend.com/emails';
+// The mock refuses anything at this domain, so bounce handling can be exercised offline
+const MOCK_BOUNCE_DOMAIN = '@bounce.invalid';
+
+/** Messages accepted by the mock transport (EMAIL_TRANSPORT=mock only) */
+export const mockOutbox: Array<OutgoingEmail & { from: string; messageId: string }> = [];
+
+// "Name <address>" or a bare address
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1]?.trim() || mailbox.trim();
+
+// RFC 2047 for non-ASCII header text
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const base64Body = (value: string) =>
+  Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+
+/**
+ * RFC 5322 message with text and HTML alternatives, both base64 encoded
+ */
+export function buildMimeMessage(from: string, email: OutgoingEmail, messageId: string, date = new Date()): string {
+  const boundary = `=_alt_${randomUUID()}`;
+  const headers = [
+    `From: ${from}`,
+    `To: ${email.to}`,
+    ...(email.cc.length ? [`Cc: ${email.cc.join(', ')}`] : []),
+    ...(email.replyTo ? [`Reply-To: ${email.replyTo}`] : []),
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+  const part = (type: string, body: string) =>
+    [`--${boundary}`, `Content-Type: ${type}; charset=UTF-8`, 'Content-Transfer-Encoding: base64', '', base64Body(body)].join('\r\n');
+
+  return [...headers, '', part('text/plain', email.text), part('text/html', email.html), `--${boundary}--`, ''].join('\r\n');
+}
+
+/**
+ * Build a transport from environment variables. Throws EmailConfigError if misconfigured.
+ */
+export function createEmailTransport(env: Env = process.env): EmailTransport {
+  const name = (env.EMAIL_TRANSPORT || 'smtp').trim().toLowerCase() as TransportName;
+  const from = env.EMAIL_FROM;
+  if (!from && name !== 'mock') {
+    throw new EmailConfigError('Email not configured. Please add EMAIL_FROM (e.g. "Simple RubriQ <feedback@yourschool.org>").');
+  }
+
+  switch (name) {
+    case 'smtp': {
+      if (!env.SMTP_HOST) {
+        throw new EmailConfigError('SMTP not configured. Please add SMTP_HOST (and SMTP_PORT; MailHog uses 1025).');
+      }
+      const secure = env.SMTP_SECURE === 'true';
+      const config = {
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: env.SMTP_USER || undefined,
+        pass: env.SMTP_PASS || undefined,
+        allowInsecureAuth: env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+        heloName: env.SMTP_HELO_NAME || undefined,
+      };
+      const domain = addressOf(from!).split('@')[1] || 'localhost';
+
+      return {
+        name: 'smtp',
+        async send(email) {
+          const messageId = `<${randomUUID()}@${domain}>`;
+          try {
+            await sendMail(
+              config,
+              { from: addressOf(from!), to: [email.to, ...email.cc].map(addressOf) },
+              buildMimeMessage(from!, email, messageId)
+            );
+          } catch (error: unknown) {
+            if (error instanceof SmtpError) {
+              throw new EmailDeliveryError(error.message, error.recipientRejected);
+            }
+            throw new EmailDeliveryError(error instanceof Error && error.message ? error.message : 'SMTP delivery failed');
+          }
+          return { messageId };
+        },
+      };
+    }
+    case 'resend': {
+      if (!env.RESEND_API_KEY) {
+        throw new EmailConfigError('Resend not configured. Please add RESEND_API_KEY.');
+      }
+      return {
+        name: 'resend',
+        async send(email) {
+          const response = await fetch(RESEND_URL, {
+            method: 'POST',
+            headers: { Authorization: `Bearer ${env.RESEND_API_KEY}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              from,
+              to: [email.to],
+              cc: email.cc.length ? email.cc : undefined,
+              reply_to: email.replyTo || undefined,
+              subject: email.subject,
+              html: email.html,
+              text: email.text,
+            }),
+          });
+          const body: any = await response.json().catch(() => null);
+          if (!response.ok) {
+            throw new EmailDeliveryError(body?.message || `Resend request failed (${response.status})`);
+          }
+          return { messageId: body?.id ?? null };
+        },
+      };
+    }
+    case 'mock':
+      return {
+        name: 'mock',
+        async send(email) {
+          const refused = [email.to, ...email.cc].find((address) => address.toLowerCase().endsWith(MOCK_BOUNCE_DOMAIN));
+          if (refused) {
+            throw new EmailDeliveryError(`Recipient ${refused} rejected: 550 mailbox unavailable`, true);
+          }
+          const messageId = `mock-${randomUUID()}`;
+          mockOutbox.push({ ...email, from: from || 'Simple RubriQ <feedback@localhost>', messageId });
+          return { messageId };
+        },
+      };
+    default:
+      throw new EmailConfigError(`Unknown EMAIL_TRANSPORT "${env.EMAIL_TRANSPORT}". Use smtp, resend or mock.`);
+  }
+}
+
+let cachedTransport: EmailTransport | null = null;
+
+/**
+ * Transport for the current environment, created once per serverless instance.
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!cachedTransport) {
+    cachedTransport = createEmailTransport();
+  }
+  return cachedTransport;
+}
@@ -0,0 +1,153 @@
+// In-process fake of Google Classroom for CLASSROOM_API=fake.
+// Fixed courses, rosters and turned-in essays; draft grades are kept in module memory so a push can be
+// checked with GET /api/google-classroom?action=fake-grades. That only holds within one process, so use
+// the fake for local single-process runs (`vercel dev`) and tests, not deployments: there a push and the
+// fake-grades read can land on different serverless instances, and a cold start forgets every grade.
+
+import {
+  ClassroomApiError,
+  type ClassroomApi,
+  type ClassroomCourse,
+  type ClassroomCourseWork,
+  type ClassroomStudent,
+  type ClassroomSubmission,
+} from './classroomApi';
+
+const FAKE_ACCESS_TOKEN = 'fake-access-token';
+
+const COURSES: ClassroomCourse[] = [
+  { id: 'course-10a', name: 'Year 10 English', section: '10A' },
+  { id: 'course-11b', name: 'Year 11 English Literature', section: '11B' },
+];
+
+const STUDENTS: Record<string, ClassroomStudent[]> = {
+  'course-10a': [
+    { userId: 'gc-user-emma', fullName: 'Emma Wilson', email: 'emma.wilson@student.test' },
+    { userId: 'gc-user-james', fullName: 'James Brown', email: 'james.brown@student.test' },
+    { userId: 'gc-user-ava', fullName: 'Ava Martinez', email: 'ava.martinez@student.test' },
+  ],
+  'course-11b': [
+    { userId: 'gc-user-sophia', fullName: 'Sophia Davis', email: 'sophia.davis@student.test' },
+    { userId: 'gc-user-oliver', fullName: 'Oliver Johnson', email: 'oliver.johnson@student.test' },
+  ],
+};
+
+const COURSEWORK: Record<string, ClassroomCourseWork[]> = {
+  'course-10a': [
+    { id: 'cw-climate', title: 'Persuasive writing: climate action', maxPoints: 40, dueDate: '2025-12-19' },
+    { id: 'cw-reading-log', title: 'Reading log (ungraded)', maxPoints: null },
+  ],
+  'course-11b': [
+    // Stands in for coursework created in the Classroom UI: Google refuses grade writes from other projects
+    { id: 'cw-macbeth', title: 'Macbeth: ambition essay', maxPoints: 30, dueDate: '2025-12-12' },
+  ],
+};
+
+const EXTERNAL_COURSEWORK = new Set(['cw-macbeth']);
+
+const DOCUMENTS: Record<string, string> = {
+  'doc-emma':
+    'Climate change is the defining challenge of our generation, and we cannot afford to wait any longer. ' +
+    'Rising sea levels already threaten coastal towns, and every year of delay makes the damage harder to reverse. ' +
+    'Some people argue that individual actions make no difference, but when millions of people change their habits the effect is enormous.\n\n' +
+    'Governments must lead by investing in renewable energy and public transport. ' +
+    'However, we should not simply wait for politicians. Schools can cut waste, families can eat less meat, and young people can use their voices to demand change.\n\n' +
+    'In conclusion, the evidence is clear and the solutions exist. What we need now is the will to act.',
+  'doc-james':
+    'I think climate change is bad and we should stop it. There is alot of pollution from cars and factorys. ' +
+    'We should recycle more and turn off lights when we dont need them. My family recycles every week. ' +
+    'If everyone did this the planet would be better.',
+  'doc-sophia':
+    'From the moment the witches greet him as future king, Macbeth’s ambition is awakened, yet Shakespeare presents it as something that corrodes rather than elevates him. ' +
+    'His aside, "Stars, hide your fires; Let not light see my black and deep desires", reveals an ambition he already knows to be shameful. ' +
+    'By the final act, ambition has left him isolated: "I have lived long enough" suggests a man who has gained a crown but lost every reason to want it.',
+};
+
+const SUBMISSIONS: Record<string, ClassroomSubmission[]> = {
+  'cw-climate': [
+    { id: 'sub-emma', userId: 'gc-user-emma', state: 'TURNED_IN', updateTime: '2025-12-15T08:30:00Z', attachments: [{ driveFileId: 'doc-emma', title: 'Climate essay' }] },
+    { id: 'sub-james', userId: 'gc-user-james', state: 'TURNED_IN', updateTime: '2025-12-15T09:10:00Z', attachments: [{ driveFileId: 'doc-james', title: 'my essay' }] },
+    // Attachment type the importer can't read, to exercise the skip path
+    { id: 'sub-ava', userId: 'gc-user-ava', state: 'TURNED_IN', updateTime: '2025-12-15T09:45:00Z', attachments: [{ driveFileId: 'img-ava', title: 'photo of essay.jpg' }] },
+  ],
+  'cw-reading-log': [],
+  'cw-macbeth': [
+    { id: 'sub-sophia', userId: 'gc-user-sophia', state: 'TURNED_IN', updateTime: '2025-12-11T17:00:00Z', attachments: [{ driveFileId: 'doc-sophia', title: 'Macbeth essay' }] },
+    { id: 'sub-oliver', userId: 'gc-user-oliver', state: 'RETURNED', updateTime: '2025-12-12T10:00:00Z', shortAnswer: 'Macbeth is ambitious because he kills Duncan to become king, which shows ambition can make people do terrible things.', attachments: [] },
+  ],
+};
+
+/** Draft grades pushed to the fake, keyed by submission ID (this process only) */
+export const fakeDraftGrades = new Map<string, number>();
+
+function assertToken(accessToken: string) {
+  if (accessToken !== FAKE_ACCESS_TOKEN) {
+    throw new ClassroomApiError(401, 'Invalid fake access token', 'UNAUTHENTICATED');
+  }
+}
+
+function assertCourse(courseId: string) {
+  if (!COURSES.some((c) => c.id === courseId)) {
+    throw new ClassroomApiError(404, `Course ${courseId} not found`, 'NOT_FOUND');
+  }
+}
+
+export function createFakeClassroom(redirectUri: string): ClassroomApi {
+  return {
+    name: 'fake',
+    authUrl(state) {
+      // Skip Google's consent screen and go straight back to the callback
+      const separator = redirectUri.includes('?') ? '&' : '?';
+      return `${redirectUri}${separator}code=fake-code&state=${encodeURIComponent(state)}`;
+    },
+    async exchangeCode(code) {
+      if (code !== 'fake-code') throw new ClassroomApiError(400, 'Invalid fake authorization code', 'invalid_grant');
+      return { accessToken: FAKE_ACCESS_TOKEN, refreshToken: 'fake-refresh-token', scope: 'fake', email: 'teacher@classroom.test' };
+    },
+    async refreshAccessToken(refreshToken) {
+      if (refreshToken !== 'fake-refresh-token') throw new ClassroomApiError(400, 'Token has been revoked', 'invalid_grant');
+      return FAKE_ACCESS_TOKEN;
+    },
+    async revokeToken() {
+      // Nothing to revoke: the fake refresh token is the same for everyone
+    },
+    async listCourses(accessToken) {
+      assertToken(accessToken);
+      return COURSES;
+    },
+    async listStudents(accessToken, courseId) {
+      assertToken(accessToken);
+      assertCourse(courseId);
+      return STUDENTS[courseId] || [];
+    },
+    async listCourseWork(accessToken, courseId) {
+      assertToken(accessToken);
+      assertCourse(courseId);
+      return COURSEWORK[courseId] || [];
+    },
+    async listSubmissions(accessToken, courseId, courseWorkId) {
+      assertToken(accessToken);
+      assertCourse(courseId);
+      return SUBMISSIONS[courseWorkId] || [];
+    },
+    async readAttachment(accessToken, attachment) {
+      assertToken(accessToken);
+      return DOCUMENTS[attachment.driveFileId] ?? null;
+    },
+    async setDraftGrade(accessToken, courseId, courseWorkId, submissionId, grade) {
+      assertToken(accessToken);
+      assertCourse(courseId);
+      if (EXTERNAL_COURSEWORK.has(courseWorkId)) {
+        throw new ClassroomApiError(
+          403,
+          'The Developer Console project is not permitted to make this request.',
+          'PERMISSION_DENIED'
+        );
+      }
+      if (!(SUBMISSIONS[courseWorkId] || []).some((s) => s.id === submissionId)) {
+        throw new ClassroomApiError(404, `Submission ${submissionId} not found`, 'NOT_FOUND');
+      }
+      fakeDraftGrades.set(submissionId, grade);
+    },
+  };
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import {
+  bandForScore,
+  extractJson,
+  extractPartialFeedback,
+  formatRubricCriteria,
+  parseEssayMarking,
+  parsePartialJson,
+  parseRubricCriteria,
+  toPreviousImprovements,
+  validateEssayMarking,
+} from './feedbackSchema';
+
+const RUBRIC = [
+  { category: 'Analysis', maxPoints: 10 },
+  { category: 'Structure', maxPoints: 5 },
+];
+
+const marking = (overrides: Record<string, unknown> = {}) => ({
+  overall_band: 4,
+  overall_score: 70,
+  ao_analysis: [{ ao: 'AO2', band: 4, evidence: '', comment: 'Clear analysis' }],
+  strengths: ['Clear argument'],
+  improvements: ['Develop the conclusion'],
+  grammar_issues: [],
+  suggested_feedback: 'Well done.',
+  criteria_scores: [
+    { criterion: 'Analysis', points: 7, max_points: 10 },
+    { criterion: 'Structure', points: 3, max_points: 5 },
+  ],
+  justification: 'Sound analysis, uneven structure.',
+  ...overrides,
+});
+
+describe('rubric criteria strings', () => {
+  it('reads back what formatRubricCriteria writes, skipping level lines', () => {
+    const formatted = formatRubricCriteria([
+      { category: 'Analysis', maxPoints: 10, levels: [{ level: 1, minMarks: 1, maxMarks: 5, descriptor: 'Simple' }] },
+      { category: 'Structure', maxPoints: 5 },
+    ]);
+    expect(formatted).toBe('Analysis (10 points)\n  Level 1 (1-5 marks): Simple\nStructure (5 points)');
+    expect(parseRubricCriteria(formatted)).toEqual(RUBRIC);
+  });
+
+  it('accepts marks and pts, and ignores free text and zero-point lines', () => {
+    expect(parseRubricCriteria('- AO1 (4 marks)\nWrite clearly\nAO2 (6 pts)\nBonus (0 points)')).toEqual([
+      { category: 'AO1', maxPoints: 4 },
+      { category: 'AO2', maxPoints: 6 },
+    ]);
+  });
+});
+
+describe('extractJson and parsePartialJson', () => {
+  it('reads JSON from fences and surrounding prose', () => {
+    expect(extractJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Here you go: {"a":1} hope that helps')).toEqual({ a: 1 });
+    expect(extractJson('no json here')).toBeNull();
+  });
+
+  it('closes a response that is still streaming', () => {
+    expect(parsePartialJson('')).toBeNull();
+    expect(parsePartialJson('{"strengths":["Clear')).toEqual({ strengths: ['Clear'] });
+    expect(extractPartialFeedback('{"strengths":["A","B"],"suggested_feedback":"Good st')).toEqual({
+      strengths: ['A', 'B'],
+      improvements: [],
+      suggested_feedback: 'Good st',
+    });
+  });
+});
+
+describe('bandForScore', () => {
+  it('uses the GCSE band conversion', () => {
+    expect([0, 29, 30, 44, 45, 59, 60, 74, 75, 89, 90, 100].map(bandForScore)).toEqual([1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6]);
+  });
+});
+
+describe('validateEssayMarking', () => {
+  it('recomputes overall_score from the criterion points', () => {
+    const result = validateEssayMarking(marking({ overall_score: 95 }), RUBRIC);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.overall_score).toBe(67); // 10 of 15
+    expect(result.value.total_points).toBe(10);
+    expect(result.value.total_max_points).toBe(15);
+  });
+
+  it('takes overall_band from the recomputed score, not the model', () => {
+    const result = validateEssayMarking(
+      marking({
+        overall_band: 6,
+        overall_score: 95,
+        criteria_scores: [
+          { criterion: 'Analysis', points: 4, max_points: 10 },
+          { criterion: 'Structure', points: 2, max_points: 5 },
+        ],
+      }),
+      RUBRIC
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.overall_score).toBe(40);
+    expect(result.value.overall_band).toBe(2);
+  });
+
+  it('uses the rubric maxima and clamps points to them', () => {
+    const result = validateEssayMarking(
+      marking({ criteria_scores: [{ criterion: 'analysis', points: 14, max_points: 20 }, { criterion: 'Structure', points: -2 }] }),
+      RUBRIC
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.criteria_scores).toEqual([
+      { criterion: 'Analysis', points: 10, max_points: 10 },
+      { criterion: 'Structure', points: 0, max_points: 5 },
+    ]);
+  });
+
+  it('coerces numeric strings and bulleted string lists', () => {
+    const result = validateEssayMarking(marking({ overall_band: '4', strengths: '- One\n- Two' }), RUBRIC);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.strengths).toEqual(['One', 'Two']);
+  });
+
+  it('reports missing rubric criteria and fields', () => {
+    const result = validateEssayMarking(
+      marking({ criteria_scores: [{ criterion: 'Analysis', points: 7 }], justification: '' }),
+      RUBRIC
+    );
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors).toContain('criteria_scores is missing rubric criterion "Structure"');
+    expect(result.errors).toContain('justification must be a non-empty string');
+  });
+
+  it('requires a verdict on every previous improvement', () => {
+    const previous = ['Use more quotations', 'Check spelling'];
+    const missing = validateEssayMarking(marking(), RUBRIC, '', previous);
+    expect(missing.ok).toBe(false);
+
+    const result = validateEssayMarking(
+      marking({
+        addressed_improvements: [
+          { improvement: 'use more quotations', status: 'Partly addressed', evidence: 'Two new quotes' },
+          { improvement: 'Check spelling', status: 'addressed' },
+        ],
+      }),
+      RUBRIC,
+      '',
+      previous
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.addressed_improvements.map((a) => a.status)).toEqual(['partly_addressed', 'addressed']);
+  });
+
+  it('resolves annotation quotes against the essay and drops ones it cannot find', () => {
+    const essay = 'The storm opens the play. Macbeth hesitates before the murder.';
+    const result = validateEssayMarking(
+      marking({
+        annotations: [
+          { quote: 'Macbeth hesitates', type: 'strength', comment: 'Good focus' },
+          { quote: 'not in the essay', type: 'grammar', comment: 'Missing' },
+        ],
+      }),
+      RUBRIC,
+      essay
+    );
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.annotations).toHaveLength(1);
+    expect(essay.slice(result.value.annotations[0].start_offset, result.value.annotations[0].start_offset + result.value.annotations[0].length))
+      .toBe('Macbeth hesitates');
+  });
+});
+
+describe('parseEssayMarking', () => {
+  it('explains empty and non-JSON output', () => {
+    expect(parseEssayMarking('')).toEqual({ ok: false, errors: ['Empty response'] });
+    expect(parseEssayMarking('Sorry, I cannot mark this.')).toEqual({ ok: false, errors: ['Response is not valid JSON'] });
+  });
+
+  it('parses a fenced response', () => {
+    expect(parseEssayMarking('```json\n' + JSON.stringify(marking()) + '\n```', RUBRIC).ok).toBe(true);
+  });
+});
+
+describe('toPreviousImprovements', () => {
+  it('keeps trimmed strings up to the limit', () => {
+    expect(toPreviousImprovements([' a ', '', 'b', 'c'], 2)).toEqual(['a', 'b']);
+    expect(toPreviousImprovements('not a list')).toEqual([]);
+  });
+});
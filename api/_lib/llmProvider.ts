@@ -0,0 +1,156 @@
+// Pluggable LLM provider layer for the api/ handlers.
+// Select with LLM_PROVIDER=openai | azure | local | mock (defaults to openai).
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import { mockCompletion, mockStream } from './mockProvider';
+
+export type ProviderName = 'openai' | 'azure' | 'local' | 'mock';
+
+/**
+ * 'quality' is used for feedback writing, 'fast' for short scoring/classification calls.
+ */
+export type ModelTier = 'quality' | 'fast';
+
+/**
+ * What the completion is for. Real providers ignore it; the mock uses it to pick a response shape.
+ */
+export type CompletionPurpose = 'marking' | 'score' | 'band-analysis' | 'safeguarding';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  purpose: CompletionPurpose;
+  tier: ModelTier;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  context?: { essayText: string; rubricCriteria: string; previousImprovements?: string[] };
+  signal?: AbortSignal; // Aborts the upstream request, e.g. when the client disconnects
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  complete(request: CompletionRequest): Promise<string | null>;
+  /** Same request, yielding content deltas as the model produces them */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+/**
+ * Raised when the selected provider is missing required environment variables.
+ */
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LLMConfigError';
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+const DEFAULT_MODELS: Record<ModelTier, string> = {
+  quality: 'gpt-4o',
+  fast: 'gpt-4o-mini',
+};
+
+function modelFor(env: Env, tier: ModelTier, fallback?: string): string {
+  const override = tier === 'quality' ? env.LLM_MODEL_QUALITY : env.LLM_MODEL_FAST;
+  return override || fallback || DEFAULT_MODELS[tier];
+}
+
+function createChatProvider(name: ProviderName, client: OpenAI, models: Record<ModelTier, string>): LLMProvider {
+  const params = (request: CompletionRequest) => ({
+    model: models[request.tier],
+    messages: request.messages,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+  });
+
+  return {
+    name,
+    async complete(request) {
+      const response = await client.chat.completions.create(params(request), { signal: request.signal });
+      return response.choices[0]?.message?.content ?? null;
+    },
+    async *stream(request) {
+      const stream = await client.chat.completions.create({ ...params(request), stream: true }, { signal: request.signal });
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+/**
+ * Build a provider from environment variables. Throws LLMConfigError if misconfigured.
+ */
+export function createLLMProvider(env: Env = process.env): LLMProvider {
+  const name = (env.LLM_PROVIDER || 'openai').trim().toLowerCase() as ProviderName;
+
+  switch (name) {
+    case 'openai': {
+      if (!env.OPENAI_API_KEY) {
+        throw new LLMConfigError('API key not configured. Please add OPENAI_API_KEY to environment variables.');
+      }
+      return createChatProvider('openai', new OpenAI({ apiKey: env.OPENAI_API_KEY }), {
+        quality: modelFor(env, 'quality'),
+        fast: modelFor(env, 'fast'),
+      });
+    }
+    case 'azure': {
+      if (!env.AZURE_OPENAI_API_KEY || !env.AZURE_OPENAI_ENDPOINT) {
+        throw new LLMConfigError('Azure OpenAI not configured. Please add AZURE_OPENAI_API_KEY and AZURE_OPENAI_ENDPOINT.');
+      }
+      const client = new AzureOpenAI({
+        apiKey: env.AZURE_OPENAI_API_KEY,
+        endpoint: env.AZURE_OPENAI_ENDPOINT,
+        apiVersion: env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+      });
+      // On Azure the "model" is the deployment name
+      return createChatProvider('azure', client, {
+        quality: env.AZURE_OPENAI_DEPLOYMENT_QUALITY || modelFor(env, 'quality'),
+        fast: env.AZURE_OPENAI_DEPLOYMENT_FAST || env.AZURE_OPENAI_DEPLOYMENT_QUALITY || modelFor(env, 'fast'),
+      });
+    }
+    case 'local': {
+      if (!env.LOCAL_LLM_BASE_URL) {
+        throw new LLMConfigError('Local LLM not configured. Please add LOCAL_LLM_BASE_URL (e.g. http://localhost:11434/v1).');
+      }
+      // Any OpenAI-compatible server (Ollama, LM Studio, vLLM, llama.cpp)
+      const client = new OpenAI({ apiKey: env.LOCAL_LLM_API_KEY || 'local', baseURL: env.LOCAL_LLM_BASE_URL });
+      return createChatProvider('local', client, {
+        quality: modelFor(env, 'quality', env.LOCAL_LLM_MODEL),
+        fast: modelFor(env, 'fast', env.LOCAL_LLM_MODEL),
+      });
+    }
+    case 'mock':
+      return {
+        name: 'mock',
+        async complete(request) {
+          return mockCompletion(request);
+        },
+        stream(request) {
+          return mockStream(request);
+        },
+      };
+    default:
+      throw new LLMConfigError(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}". Use openai, azure, local or mock.`);
+  }
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Provider for the current environment, created once per serverless instance.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createLLMProvider();
+  }
+  return cachedProvider;
+}
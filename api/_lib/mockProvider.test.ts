@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { parseEssayMarking } from './feedbackSchema';
+import type { CompletionRequest } from './llmProvider';
+import { mockCompletion, mockStream } from './mockProvider';
+
+const ESSAY = [
+  'Shakespeare presents Macbeth as a man torn between ambition and conscience.',
+  'In the dagger soliloquy he questions whether the vision is real, which shows his guilt.',
+  'By the end of the play he has become numb to the consequences of his actions.',
+].join(' ');
+const RUBRIC = 'Analysis (10 points)\nStructure (5 points)';
+
+const request = (overrides: Partial<CompletionRequest> = {}): CompletionRequest => ({
+  purpose: 'marking',
+  tier: 'quality',
+  messages: [{ role: 'user', content: ESSAY }],
+  context: { essayText: ESSAY, rubricCriteria: RUBRIC },
+  ...overrides,
+});
+
+describe('mockCompletion', () => {
+  it('returns the same marking for the same essay', () => {
+    expect(mockCompletion(request())).toBe(mockCompletion(request()));
+  });
+
+  it('produces marking that passes validation against the rubric', () => {
+    const result = parseEssayMarking(mockCompletion(request()), [
+      { category: 'Analysis', maxPoints: 10 },
+      { category: 'Structure', maxPoints: 5 },
+    ], ESSAY);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.criteria_scores.map((c) => c.criterion)).toEqual(['Analysis', 'Structure']);
+    expect(result.value.annotations.length).toBeGreaterThan(0);
+  });
+
+  it('falls back to AO1-AO4 for a free-text rubric', () => {
+    const feedback = JSON.parse(mockCompletion(request({ context: { essayText: ESSAY, rubricCriteria: 'Mark holistically' } })));
+    expect(feedback.criteria_scores.map((c: { criterion: string }) => c.criterion)).toEqual(['AO1', 'AO2', 'AO3', 'AO4']);
+  });
+
+  it('gives a verdict on each previous improvement', () => {
+    const previousImprovements = ['Use more quotations', 'Check spelling'];
+    const feedback = JSON.parse(mockCompletion(request({ context: { essayText: ESSAY, rubricCriteria: RUBRIC, previousImprovements } })));
+    expect(feedback.addressed_improvements.map((a: { improvement: string }) => a.improvement)).toEqual(previousImprovements);
+  });
+
+  it('shapes the response by purpose', () => {
+    const marking = JSON.parse(mockCompletion(request()));
+    expect(mockCompletion(request({ purpose: 'score', tier: 'fast' }))).toBe(String(marking.overall_score));
+    expect(Object.keys(JSON.parse(mockCompletion(request({ purpose: 'band-analysis' }))))).toEqual([
+      'overall_band',
+      'overall_score',
+      'ao_bands',
+      'justification',
+    ]);
+  });
+
+  it('flags first-person safeguarding language but not set-text analysis', () => {
+    const screen = (essayText: string) =>
+      JSON.parse(mockCompletion(request({ purpose: 'safeguarding', context: { essayText, rubricCriteria: '' } }))).concerns;
+    expect(screen(ESSAY)).toEqual([]);
+    expect(screen(`${ESSAY} Sometimes I want to die.`)).toEqual([
+      expect.objectContaining({ category: 'suicidal_ideation', severity: 'high', excerpt: 'Sometimes I want to die.' }),
+    ]);
+  });
+});
+
+describe('mockStream', () => {
+  it('streams the full completion in chunks', async () => {
+    const chunks: string[] = [];
+    for await (const chunk of mockStream(request(), 50, 0)) chunks.push(chunk);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(mockCompletion(request()));
+  });
+
+  it('rejects with an AbortError once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const stream = mockStream(request({ signal: controller.signal }), 50, 0);
+    await stream.next();
+    controller.abort();
+    await expect(stream.next()).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,159 @@
+// Deterministic canned responses for LLM_PROVIDER=mock.
+// Output depends only on the essay and rubric, so tests and offline development are repeatable.
+
+import { parseRubricCriteria, type RubricCriterion } from './feedbackSchema';
+import type { CompletionRequest } from './llmProvider';
+
+const BAND_SCORES = [15, 37, 52, 67, 82, 95]; // Midpoint of each GCSE band, 1-6
+
+function hashString(input: string): number {
+  let hash = 0;
+  for (let i = 0; i < input.length; i++) {
+    hash = (hash * 31 + input.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+function sentences(text: string): string[] {
+  return (text.match(/[^.!?\n]+[.!?]?/g) || [])
+    .map((s) => s.trim())
+    .filter((s) => s.split(/\s+/).length >= 4);
+}
+
+function mockCriteria(rubricCriteria: string): RubricCriterion[] {
+  const parsed = parseRubricCriteria(rubricCriteria);
+  if (parsed.length > 0) return parsed;
+  // Free-text rubric: fall back to the four GCSE AOs, each marked out of 10
+  return ['AO1', 'AO2', 'AO3', 'AO4'].map((category) => ({ category, maxPoints: 10 }));
+}
+
+/**
+ * Band derived from essay length plus a stable hash, so longer essays tend to score higher.
+ */
+function mockBand(essayText: string): number {
+  const words = essayText.trim().split(/\s+/).filter(Boolean).length;
+  const lengthBand = words < 150 ? 2 : words < 350 ? 3 : words < 600 ? 4 : 5;
+  const nudge = (hashString(essayText) % 3) - 1; // -1, 0 or +1
+  return Math.min(6, Math.max(1, lengthBand + nudge));
+}
+
+const IMPROVEMENT_VERDICTS = ['addressed', 'partly_addressed', 'not_addressed'] as const;
+
+function buildFeedback(essayText: string, rubricCriteria: string, previousImprovements: string[] = []) {
+  const band = mockBand(essayText);
+  const quotes = sentences(essayText);
+  const quote = (i: number) => quotes.length > 0 ? quotes[i % quotes.length] : essayText.slice(0, 80).trim();
+  const criteria = mockCriteria(rubricCriteria);
+  const labels = criteria.slice(0, 6).map((c) => c.category);
+
+  return {
+    overall_band: band,
+    overall_score: BAND_SCORES[band - 1],
+    ao_analysis: labels.map((label, i) => {
+      const aoBand = Math.min(6, Math.max(1, band + ((hashString(label + essayText) % 3) - 1)));
+      return {
+        ao: label,
+        band: aoBand,
+        evidence: quote(i),
+        comment: `Mock assessment for ${label}: band ${aoBand} response with room to develop the analysis further.`,
+      };
+    }),
+    strengths: [
+      `Your opening line "${quote(0)}" sets up your ideas clearly.`,
+      'You keep a consistent focus on the question throughout.',
+    ],
+    improvements: [
+      `Try developing the point in "${quote(1)}" with a more detailed explanation of its effect.`,
+      'Use more precise subject terminology when analysing technique.',
+    ],
+    grammar_issues: band >= 5 ? [] : ['Check comma use between independent clauses.'],
+    suggested_feedback: `This is mock feedback generated offline (band ${band}). I really liked how you started, and next time try to push your analysis a little further with specific evidence.`,
+    criteria_scores: criteria.map(({ category, maxPoints }) => {
+      const percent = Math.min(100, Math.max(0, BAND_SCORES[band - 1] + ((hashString(category + essayText) % 11) - 5)));
+      return { criterion: category, points: Math.round((percent / 100) * maxPoints), max_points: maxPoints };
+    }),
+    justification: `Mock marking: the response sits in band ${band} based on its length and development.`,
+    annotations: quotes.slice(0, 3).map((q, i) => ({
+      quote: q,
+      type: (['strength', 'improvement', 'grammar'] as const)[i],
+      ao: labels[i % Math.max(1, labels.length)] ?? null,
+      comment: ['Strong, clear point here.', 'Develop this idea further with analysis of its effect.', 'Check punctuation in this sentence.'][i],
+    })),
+    addressed_improvements: previousImprovements.map((improvement, i) => {
+      const status = IMPROVEMENT_VERDICTS[hashString(improvement + essayText) % IMPROVEMENT_VERDICTS.length];
+      return {
+        improvement,
+        status,
+        evidence: status === 'not_addressed' ? 'Mock marking: no change found for this point.' : `Mock marking: see "${quote(i)}".`,
+      };
+    }),
+  };
+}
+
+// First-person phrases only, so set-text analysis ("Macbeth kills Duncan") stays unflagged
+const SAFEGUARDING_PHRASES: Array<{ pattern: RegExp; category: string; severity: 'low' | 'medium' | 'high' }> = [
+  { pattern: /\b(kill myself|want to die|end it all|better off without me)\b/i, category: 'suicidal_ideation', severity: 'high' },
+  { pattern: /\b(hurt myself|cut myself|cutting myself)\b/i, category: 'self_harm', severity: 'high' },
+  { pattern: /\b(hits me|beats me|hurts me|scared to go home)\b/i, category: 'physical_abuse', severity: 'high' },
+  { pattern: /\b(no food at home|nobody feeds me|haven't eaten for days)\b/i, category: 'neglect', severity: 'medium' },
+  { pattern: /\b(everyone at school hates me|they push me around)\b/i, category: 'bullying', severity: 'low' },
+];
+
+function mockSafeguarding(essayText: string) {
+  const concerns = [];
+  for (const sentence of essayText.match(/[^.!?\n]+[.!?]?/g) || []) {
+    const hit = SAFEGUARDING_PHRASES.find(({ pattern }) => pattern.test(sentence));
+    if (hit) {
+      concerns.push({
+        category: hit.category,
+        severity: hit.severity,
+        excerpt: sentence.trim(),
+        rationale: `Mock screening: first-person language matching ${hit.category.replace(/_/g, ' ')}.`,
+      });
+    }
+  }
+  return { concerns: concerns.slice(0, 5) };
+}
+
+/**
+ * Return canned output shaped like the real model response for the given purpose.
+ */
+export function mockCompletion(request: CompletionRequest): string {
+  const essayText = request.context?.essayText ?? request.messages[request.messages.length - 1]?.content ?? '';
+  const rubricCriteria = request.context?.rubricCriteria ?? '';
+  const feedback = buildFeedback(essayText, rubricCriteria, request.context?.previousImprovements);
+
+  switch (request.purpose) {
+    case 'score':
+      return String(feedback.overall_score);
+    case 'safeguarding':
+      return JSON.stringify(mockSafeguarding(essayText));
+    case 'band-analysis':
+      return JSON.stringify({
+        overall_band: feedback.overall_band,
+        overall_score: feedback.overall_score,
+        ao_bands: feedback.ao_analysis.map(({ ao, band, comment }) => ({ ao, band, comment })),
+        justification: feedback.justification,
+      });
+    case 'marking':
+    default:
+      return JSON.stringify(feedback);
+  }
+}
+
+/**
+ * Stream the canned completion in small chunks with a short delay, to exercise progressive rendering offline.
+ */
+export async function* mockStream(request: CompletionRequest, chunkSize = 24, delayMs = 15): AsyncGenerator<string> {
+  const content = mockCompletion(request);
+  for (let i = 0; i < content.length; i += chunkSize) {
+    if (request.signal?.aborted) {
+      // Match the real providers, which reject when the request is aborted
+      const error = new Error('Request was aborted');
+      error.name = 'AbortError';
+      throw error;
+    }
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+    yield content.slice(i, i + chunkSize);
+  }
+}
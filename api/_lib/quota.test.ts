@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { QuotaExceededError, releaseUsage, reserveUsage, toPlanName } from './quota';
+
+const NOW = new Date('2025-12-15T10:30:00Z');
+
+function fakeClient(row: Record<string, unknown>) {
+  const deleted = vi.fn(async () => ({ error: null }));
+  const client = {
+    rpc: vi.fn(async () => ({ data: [row], error: null })),
+    from: vi.fn(() => ({ delete: () => ({ in: deleted }) })),
+  };
+  return { client, supabase: client as unknown as SupabaseClient, deleted };
+}
+
+describe('reserveUsage', () => {
+  it('reserves through one RPC with the plan limits and UTC period starts', async () => {
+    const { client, supabase } = fakeClient({ reservation_ids: ['r1'], used_this_month: 2, used_today: 1, exceeded: null });
+    const reservation = await reserveUsage(supabase, { userId: 'u1', plan: 'free', endpoint: 'mark-essay', provider: 'mock' }, 1, NOW);
+
+    expect(client.rpc).toHaveBeenCalledWith('reserve_usage', {
+      p_user_id: 'u1',
+      p_plan: 'free',
+      p_endpoint: 'mark-essay',
+      p_provider: 'mock',
+      p_month_start: '2025-12-01T00:00:00.000Z',
+      p_monthly_limit: 30,
+      p_day_start: '2025-12-15T00:00:00.000Z',
+      p_daily_limit: 3,
+      p_essays: 1,
+    });
+    expect(reservation).toEqual({
+      ids: ['r1'],
+      plan: 'free',
+      limit: 30,
+      used: 3,
+      remaining: 27,
+      resetsAt: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('throws a 402 when the monthly quota is used up', async () => {
+    const { supabase } = fakeClient({ reservation_ids: null, used_this_month: 500, used_today: 40, exceeded: 'month' });
+    const error = await reserveUsage(supabase, { userId: 'u1', plan: 'teacher_pro', endpoint: 'mark-essay' }, 1, NOW).catch((e) => e);
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error).toMatchObject({ status: 402, code: 'quota_exceeded', limit: 500, used: 500, resetsAt: '2026-01-01T00:00:00.000Z' });
+  });
+
+  it('throws a 429 with Retry-After when the daily cap is reached', async () => {
+    const { supabase } = fakeClient({ reservation_ids: null, used_this_month: 5, used_today: 3, exceeded: 'day' });
+    const error = await reserveUsage(supabase, { userId: 'u1', plan: 'free', endpoint: 'mark-essay' }, 1, NOW).catch((e) => e);
+    expect(error).toMatchObject({ status: 429, code: 'daily_limit_reached', limit: 3, used: 3 });
+    expect(error.retryAfterSeconds(NOW)).toBe(13.5 * 60 * 60);
+  });
+});
+
+describe('releaseUsage', () => {
+  it('deletes the reserved ledger rows', async () => {
+    const { client, supabase, deleted } = fakeClient({});
+    await releaseUsage(supabase, { ids: ['r1', 'r2'] });
+    expect(client.from).toHaveBeenCalledWith('usage_ledger');
+    expect(deleted).toHaveBeenCalledWith('id', ['r1', 'r2']);
+  });
+
+  it('does nothing for an empty reservation', async () => {
+    const { client, supabase } = fakeClient({});
+    await releaseUsage(supabase, { ids: [] });
+    expect(client.from).not.toHaveBeenCalled();
+  });
+});
+
+describe('toPlanName', () => {
+  it('falls back to free for unknown plans', () => {
+    expect(toPlanName('school')).toBe('school');
+    expect(toPlanName('enterprise')).toBe('free');
+    expect(toPlanName(null)).toBe('free');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LLMProvider } from './llmProvider';
+import { recordSafeguardingFlags, screenEssay, SCREENING_CLAIM_TTL_MS } from './safeguarding';
+
+const ESSAY = { id: 'essay-1', content: 'Sometimes I want to die.' };
+const CONCERN = { category: 'suicidal_ideation', severity: 'high', excerpt: 'Sometimes I want to die.', rationale: 'First person' } as const;
+
+/**
+ * Records every write; the claim (update ... is null) succeeds only when `claimable` is true, and
+ * complete_safeguarding_screen returns `completed` (null when the claim was taken over).
+ */
+function fakeClient(claimable: boolean, completed: number | null = 1) {
+  const writes: Array<{ table: string; action: string; values: unknown; filters: unknown[][] }> = [];
+  const rpc = vi.fn(async (_name: string, _args: Record<string, unknown>) => ({ data: completed, error: null }));
+  const client = {
+    rpc,
+    from(table: string) {
+      const write = { table, action: '', values: null as unknown, filters: [] as unknown[][] };
+      const query: any = {
+        update: (values: unknown) => { Object.assign(write, { action: 'update', values }); writes.push(write); return query; },
+        eq: (...args: unknown[]) => { write.filters.push(['eq', ...args]); return query; },
+        is: (...args: unknown[]) => { write.filters.push(['is', ...args]); return query; },
+        or: (...args: unknown[]) => { write.filters.push(['or', ...args]); return query; },
+        select: () => query,
+        maybeSingle: async () => ({ data: claimable ? { id: ESSAY.id } : null, error: null }),
+        then: (resolve: (value: unknown) => void) => resolve({ data: null, error: null }),
+      };
+      return query;
+    },
+  };
+  return { supabase: client as unknown as SupabaseClient, writes, rpc };
+}
+
+const llm = (content: string | (() => never)): LLMProvider => ({
+  name: 'mock',
+  complete: vi.fn(async () => (typeof content === 'function' ? content() : content)),
+  async *stream() {},
+});
+
+describe('screenEssay', () => {
+  it('claims the essay before classifying and records the flags with the claim', async () => {
+    const { supabase, writes, rpc } = fakeClient(true);
+
+    expect(await screenEssay(supabase, llm(JSON.stringify({ concerns: [CONCERN] })), ESSAY)).toBe(1);
+    expect(writes.map((w) => `${w.action} ${w.table}`)).toEqual(['update essays']);
+    const claimedAt = (writes[0].values as Record<string, string>).safeguarding_claimed_at;
+    expect(writes[0].filters).toContainEqual(['is', 'safeguarding_screened_at', null]);
+    expect(rpc).toHaveBeenCalledWith('complete_safeguarding_screen', {
+      p_essay_id: ESSAY.id,
+      p_claimed_at: claimedAt,
+      p_classifier: 'mock',
+      p_concerns: [CONCERN],
+    });
+  });
+
+  it('lets a stale claim be taken over', async () => {
+    const { supabase, writes } = fakeClient(true);
+    await screenEssay(supabase, llm('{"concerns": []}'), ESSAY);
+
+    const claimedAt = new Date((writes[0].values as Record<string, string>).safeguarding_claimed_at);
+    const staleBefore = new Date(claimedAt.getTime() - SCREENING_CLAIM_TTL_MS).toISOString();
+    expect(writes[0].filters).toContainEqual(['or', `safeguarding_claimed_at.is.null,safeguarding_claimed_at.lt.${staleBefore}`]);
+  });
+
+  it('skips the classifier when another request holds the claim', async () => {
+    const { supabase, writes, rpc } = fakeClient(false);
+    const provider = llm('{"concerns": []}');
+
+    expect(await screenEssay(supabase, provider, ESSAY)).toBeNull();
+    expect(provider.complete).not.toHaveBeenCalled();
+    expect(rpc).not.toHaveBeenCalled();
+    expect(writes).toHaveLength(1);
+  });
+
+  it('gives the claim back when classification fails, leaving the essay unscreened', async () => {
+    const { supabase, writes, rpc } = fakeClient(true);
+    const failing = llm(() => { throw new Error('Provider unavailable'); });
+
+    await expect(screenEssay(supabase, failing, ESSAY)).rejects.toThrow('Provider unavailable');
+    expect(rpc).not.toHaveBeenCalled();
+    const [claim, release] = writes;
+    expect(release).toMatchObject({ table: 'essays', action: 'update', values: { safeguarding_claimed_at: null } });
+    expect(release.filters).toContainEqual(['eq', 'safeguarding_claimed_at', (claim.values as Record<string, string>).safeguarding_claimed_at]);
+  });
+});
+
+describe('recordSafeguardingFlags', () => {
+  it('returns null when the claim was taken over before the flags were stored', async () => {
+    const { supabase } = fakeClient(true, null);
+    expect(await recordSafeguardingFlags(supabase, ESSAY.id, [CONCERN], 'mock')).toBeNull();
+  });
+});
@@ -0,0 +1,268 @@
+// Safeguarding screening: a separate classifier call on every essay, stored as safeguarding_flags
+// for the teacher and their Designated Safeguarding Lead. Run by /api/safeguarding and the batch worker.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { resolveQuote } from './annotations';
+import { extractJson, FeedbackValidationError, type ValidationResult } from './feedbackSchema';
+import type { ChatMessage, CompletionRequest, LLMProvider } from './llmProvider';
+
+// One initial attempt plus one repair attempt when the output fails validation
+const MAX_ATTEMPTS = 2;
+
+// A handful of concerns is plenty for the DSL to act on; more usually means the model is over-flagging
+const MAX_CONCERNS = 5;
+const MAX_EXCERPT_LENGTH = 500;
+
+export type SafeguardingCategory =
+  | 'self_harm'
+  | 'suicidal_ideation'
+  | 'physical_abuse'
+  | 'sexual_abuse'
+  | 'emotional_abuse'
+  | 'neglect'
+  | 'domestic_abuse'
+  | 'radicalisation'
+  | 'violence'
+  | 'exploitation'
+  | 'substance_misuse'
+  | 'bullying'
+  | 'other';
+
+export type SafeguardingSeverity = 'low' | 'medium' | 'high';
+
+export const SAFEGUARDING_CATEGORIES: SafeguardingCategory[] = [
+  'self_harm', 'suicidal_ideation', 'physical_abuse', 'sexual_abuse', 'emotional_abuse', 'neglect',
+  'domestic_abuse', 'radicalisation', 'violence', 'exploitation', 'substance_misuse', 'bullying', 'other',
+];
+
+const SEVERITIES: SafeguardingSeverity[] = ['low', 'medium', 'high'];
+
+/**
+ * One concern raised by the classifier. `excerpt` is the passage as it appears in the essay.
+ */
+export interface SafeguardingConcern {
+  category: SafeguardingCategory;
+  severity: SafeguardingSeverity;
+  excerpt: string;
+  rationale: string;
+}
+
+export interface ScreenableEssay {
+  id: string;
+  content: string;
+}
+
+export const SAFEGUARDING_JSON_SHAPE = `{
+  "concerns": [
+    {
+      "category": ${SAFEGUARDING_CATEGORIES.map((c) => `"${c}"`).join(' | ')},
+      "severity": "low" | "medium" | "high",
+      "excerpt": "the passage copied exactly from the essay",
+      "rationale": "one or two sentences on why this may be a disclosure or risk indicator"
+    }
+  ]
+}`;
+
+export function buildSafeguardingMessages(essayText: string): ChatMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `You screen school pupils' written work for safeguarding concerns on behalf of the school's Designated Safeguarding Lead (DSL), following UK "Keeping Children Safe in Education" guidance. You do not mark the work.
+
+Raise a concern when the writing suggests the pupil, or a child they know, may be at risk: disclosures or strong indicators of self-harm, suicidal thoughts, abuse (physical, sexual, emotional, domestic), neglect, radicalisation or extremist views, serious violence, criminal or sexual exploitation, substance misuse, or bullying.
+
+Do NOT raise a concern for:
+- Analysis of themes in a set text (e.g. murder in Macbeth, suicide in Romeo and Juliet)
+- Clearly fictional stories that use dark themes as a creative device, unless they read as a thinly veiled personal account
+- Persuasive or discursive essays that discuss an issue in general terms
+
+Severity:
+- high: a direct disclosure, or a risk of immediate harm, that needs the DSL today
+- medium: strong indicators the DSL should review soon
+- low: ambiguous content worth noting in case it fits a wider pattern
+
+Copy each excerpt character-for-character from the essay. When in doubt between raising a low concern and none, raise it: the DSL makes the decision, not you.
+
+Return ONLY a JSON object:
+${SAFEGUARDING_JSON_SHAPE}
+Return {"concerns": []} when there is nothing to raise.`,
+    },
+    {
+      role: 'user',
+      content: `Pupil's writing:\n\n${essayText}`,
+    },
+  ];
+}
+
+/**
+ * Validate the classifier's JSON. Excerpts found in the essay are replaced with the essay's own text.
+ */
+export function parseSafeguardingResult(raw: string | null | undefined, essayText: string): ValidationResult<SafeguardingConcern[]> {
+  if (!raw || !raw.trim()) return { ok: false, errors: ['Empty response'] };
+
+  const parsed = extractJson(raw);
+  if (parsed === null) return { ok: false, errors: ['Response is not valid JSON'] };
+  const concerns = (parsed as any)?.concerns;
+  if (!Array.isArray(concerns)) return { ok: false, errors: ['"concerns" must be an array'] };
+
+  const errors: string[] = [];
+  const value: SafeguardingConcern[] = [];
+  concerns.slice(0, MAX_CONCERNS).forEach((concern: any, i: number) => {
+    const at = `concerns[${i}]`;
+    const category = String(concern?.category ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_') as SafeguardingCategory;
+    const severity = String(concern?.severity ?? '').trim().toLowerCase() as SafeguardingSeverity;
+    const excerpt = typeof concern?.excerpt === 'string' ? concern.excerpt.trim() : '';
+    const rationale = typeof concern?.rationale === 'string' ? concern.rationale.trim() : '';
+
+    if (!SAFEGUARDING_CATEGORIES.includes(category)) errors.push(`${at}.category "${concern?.category}" is not a known category`);
+    if (!SEVERITIES.includes(severity)) errors.push(`${at}.severity must be low, medium or high`);
+    if (!excerpt) {
+      errors.push(`${at}.excerpt is required`);
+      return;
+    }
+    // A paraphrased excerpt is kept as written: dropping the concern would be worse than an inexact quote
+    const range = resolveQuote(essayText, excerpt);
+    value.push({
+      category,
+      severity,
+      excerpt: (range ? essayText.slice(range.start, range.start + range.length) : excerpt).slice(0, MAX_EXCERPT_LENGTH),
+      rationale,
+    });
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+/**
+ * Screen one essay, repairing malformed output once. An empty array means nothing to raise.
+ * Throws FeedbackValidationError when the output can't be validated, so callers retry rather than assume the essay is safe.
+ */
+export async function classifySafeguarding(llm: LLMProvider, essayText: string, signal?: AbortSignal): Promise<SafeguardingConcern[]> {
+  const messages = buildSafeguardingMessages(essayText);
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const request: CompletionRequest = {
+      purpose: 'safeguarding',
+      tier: 'fast',
+      messages,
+      temperature: 0,
+      maxTokens: 800,
+      json: true,
+      context: { essayText, rubricCriteria: '' },
+      signal,
+    };
+    const content = await llm.complete(request);
+    const result = parseSafeguardingResult(content, essayText);
+    if (result.ok) return result.value;
+
+    lastErrors = result.errors;
+    console.warn(`⚠️ Safeguarding output failed validation (attempt ${attempt}/${MAX_ATTEMPTS}):`, result.errors);
+    messages.push(
+      { role: 'assistant', content: content || '' },
+      {
+        role: 'user',
+        content: `Your response did not match the required JSON format:\n- ${result.errors.join('\n- ')}\n\nReturn the corrected JSON object only, matching:\n${SAFEGUARDING_JSON_SHAPE}`,
+      }
+    );
+  }
+
+  throw new FeedbackValidationError(
+    lastErrors.includes('Empty response') ? 'empty_model_output' : 'invalid_model_output',
+    'The safeguarding check returned an unexpected response. Please try again.',
+    lastErrors
+  );
+}
+
+// A claim older than this is from a screen that was cut off (timeout, crash) and can be taken over
+export const SCREENING_CLAIM_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Claim an unscreened essay by setting safeguarding_claimed_at in a single conditional update, so two
+ * concurrent screens can't both record flags. Returns the claim timestamp, or null when the essay has
+ * already been screened or another screen holds a live claim.
+ */
+async function claimScreening(supabase: SupabaseClient, essayId: string, now = new Date()): Promise<string | null> {
+  const claimedAt = now.toISOString();
+  const staleBefore = new Date(now.getTime() - SCREENING_CLAIM_TTL_MS).toISOString();
+  const { data, error } = await supabase
+    .from('essays')
+    .update({ safeguarding_claimed_at: claimedAt })
+    .eq('id', essayId)
+    .is('safeguarding_screened_at', null)
+    .or(`safeguarding_claimed_at.is.null,safeguarding_claimed_at.lt.${staleBefore}`)
+    .select('id')
+    .maybeSingle();
+  if (error) throw error;
+  return data ? claimedAt : null;
+}
+
+/**
+ * Give the claim back after a failure, so the essay is screened again next time it is opened
+ */
+async function releaseScreening(supabase: SupabaseClient, essayId: string, claimedAt: string): Promise<void> {
+  const { error } = await supabase
+    .from('essays')
+    .update({ safeguarding_claimed_at: null })
+    .eq('id', essayId)
+    .eq('safeguarding_claimed_at', claimedAt);
+  if (error) console.error(`❌ Failed to release safeguarding claim for essay ${essayId}:`, error);
+}
+
+/**
+ * Store the flags and set safeguarding_screened_at in one transaction. Null when the claim went stale
+ * and another screen took it over, in which case nothing is stored.
+ */
+async function completeScreening(
+  supabase: SupabaseClient,
+  essayId: string,
+  claimedAt: string,
+  concerns: SafeguardingConcern[],
+  classifier: string
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc('complete_safeguarding_screen', {
+    p_essay_id: essayId,
+    p_claimed_at: claimedAt,
+    p_classifier: classifier,
+    p_concerns: concerns.map(({ category, severity, excerpt, rationale }) => ({ category, severity, excerpt, rationale: rationale || null })),
+  });
+  if (error) throw error;
+  return typeof data === 'number' ? data : null;
+}
+
+/**
+ * Store the concerns for an essay and mark it as screened. Requires the service-role client.
+ * Returns the number of flags, or null when the essay was already screened (or is being screened) and
+ * nothing was stored.
+ */
+export async function recordSafeguardingFlags(
+  supabase: SupabaseClient,
+  essayId: string,
+  concerns: SafeguardingConcern[],
+  classifier: string
+): Promise<number | null> {
+  const claimedAt = await claimScreening(supabase, essayId);
+  if (!claimedAt) return null;
+  try {
+    return await completeScreening(supabase, essayId, claimedAt, concerns, classifier);
+  } catch (error) {
+    await releaseScreening(supabase, essayId, claimedAt);
+    throw error;
+  }
+}
+
+/**
+ * Claim, classify and record in one step. Used for essays saved from the browser.
+ * Returns null without calling the classifier when the essay was already screened.
+ */
+export async function screenEssay(supabase: SupabaseClient, llm: LLMProvider, essay: ScreenableEssay): Promise<number | null> {
+  const claimedAt = await claimScreening(supabase, essay.id);
+  if (!claimedAt) return null;
+  try {
+    const concerns = await classifySafeguarding(llm, essay.content);
+    return await completeScreening(supabase, essay.id, claimedAt, concerns, llm.name);
+  } catch (error) {
+    await releaseScreening(supabase, essay.id, claimedAt);
+    throw error;
+  }
+}
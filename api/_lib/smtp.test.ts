@@ -0,0 +1,107 @@
+import net from 'net';
+import { afterEach, describe, expect, it } from 'vitest';
+import { sendMail, SmtpError, type SmtpConfig } from './smtp';
+
+/**
+ * A scripted SMTP server on localhost: replies 250 to everything except the commands given in `refuse`.
+ */
+function startServer(refuse: Record<string, string>): Promise<{ server: net.Server; port: number; received: string[] }> {
+  const received: string[] = [];
+  const server = net.createServer((socket) => {
+    let inData = false;
+    let buffer = '';
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued as TEST123\r\n');
+          }
+          continue;
+        }
+        received.push(line);
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (refuse[verb]) socket.write(`${refuse[verb]}\r\n`);
+        else if (verb === 'EHLO') socket.write('250-test\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n');
+        else if (verb === 'DATA') { inData = true; socket.write('354 go ahead\r\n'); }
+        else if (verb === 'QUIT') socket.end('221 bye\r\n');
+        else socket.write('250 ok\r\n');
+      }
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, port: (server.address() as net.AddressInfo).port, received }));
+  });
+}
+
+const MESSAGE = 'Subject: Feedback\r\n\r\nWell done.\r\n.hidden line';
+
+describe('sendMail', () => {
+  let server: net.Server | null = null;
+
+  afterEach(async () => {
+    if (server) await new Promise((resolve) => server!.close(resolve));
+    server = null;
+  });
+
+  const send = async (refuse: Record<string, string>, config: Partial<SmtpConfig> = {}) => {
+    const started = await startServer(refuse);
+    server = started.server;
+    const sent = sendMail(
+      { host: '127.0.0.1', port: started.port, secure: false, timeoutMs: 2000, ...config },
+      { from: 'teacher@school.test', to: ['student@school.test', 'parent@home.test'] },
+      MESSAGE
+    );
+    return { sent, received: started.received };
+  };
+
+  it('delivers to every recipient and returns the queue reply', async () => {
+    const { sent, received } = await send({});
+    expect(await sent).toBe('queued as TEST123');
+    expect(received).toEqual([
+      'EHLO localhost',
+      'MAIL FROM:<teacher@school.test>',
+      'RCPT TO:<student@school.test>',
+      'RCPT TO:<parent@home.test>',
+      'DATA',
+      'QUIT',
+    ]);
+  });
+
+  it('reports a refused recipient as a permanent rcpt rejection', async () => {
+    const { sent } = await send({ RCPT: '550 5.1.1 mailbox unavailable' });
+    const error = await sent.catch((e) => e);
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error).toMatchObject({ code: 550, stage: 'rcpt', permanent: true, recipientRejected: true });
+    expect(error.message).toBe('Recipient student@school.test rejected: 550 5.1.1 mailbox unavailable');
+  });
+
+  it('does not treat a refused sender as a bounce', async () => {
+    const error = await (await send({ MAIL: '550 sender not allowed' })).sent.catch((e) => e);
+    expect(error).toMatchObject({ stage: 'mail', permanent: true, recipientRejected: false });
+  });
+
+  it('does not treat a temporary recipient refusal as a bounce', async () => {
+    const error = await (await send({ RCPT: '450 try again later' })).sent.catch((e) => e);
+    expect(error).toMatchObject({ stage: 'rcpt', permanent: false, recipientRejected: false });
+  });
+
+  it('refuses to send credentials when the server does not offer STARTTLS', async () => {
+    const { sent, received } = await send({}, { user: 'teacher', pass: 'secret' });
+    const error = await sent.catch((e) => e);
+    expect(error).not.toBeInstanceOf(SmtpError);
+    expect(error.message).toMatch(/refusing to send SMTP credentials unencrypted/);
+    expect(received).toEqual(['EHLO localhost']);
+  });
+
+  it('authenticates without TLS when insecure auth is allowed', async () => {
+    const { sent, received } = await send({ AUTH: '235 accepted' }, { user: 'teacher', pass: 'secret', allowInsecureAuth: true });
+    await sent;
+    expect(received[1]).toBe(`AUTH PLAIN ${Buffer.from('\0teacher\0secret').toString('base64')}`);
+  });
+});
@@ -0,0 +1,197 @@
+// Minimal SMTP client for EMAIL_TRANSPORT=smtp: EHLO, STARTTLS or implicit TLS, AUTH PLAIN/LOGIN,
+// one message per connection. Enough for a relay (Postfix, SES, Google Workspace) or MailHog locally.
+
+import net from 'net';
+import tls from 'tls';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // Implicit TLS (465); otherwise STARTTLS is used when the server offers it
+  user?: string;
+  pass?: string;
+  /** Send credentials over a connection without TLS; only for local test servers such as MailHog */
+  allowInsecureAuth?: boolean;
+  heloName?: string;
+  timeoutMs?: number;
+}
+
+/** Step of the conversation a reply answered */
+export type SmtpStage = 'greeting' | 'ehlo' | 'starttls' | 'auth' | 'mail' | 'rcpt' | 'data' | 'message' | 'quit';
+
+/**
+ * The server answered with an error code. 5xx replies are permanent, 4xx are temporary and worth
+ * retrying later; `stage` says which step was refused.
+ */
+export class SmtpError extends Error {
+  code: number;
+  stage: SmtpStage;
+
+  constructor(code: number, message: string, stage: SmtpStage) {
+    super(message);
+    this.name = 'SmtpError';
+    this.code = code;
+    this.stage = stage;
+  }
+
+  get permanent(): boolean {
+    return this.code >= 500;
+  }
+
+  /** A recipient address was refused outright: a hard bounce rather than a server or sender problem */
+  get recipientRejected(): boolean {
+    return this.stage === 'rcpt' && this.permanent;
+  }
+}
+
+interface Reply {
+  code: number;
+  lines: string[];
+}
+
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: Reply[] = [];
+  private waiting: Array<{ resolve: (reply: Reply) => void; reject: (error: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(public socket: net.Socket | tls.TLSSocket, private timeoutMs: number) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket | tls.TLSSocket) {
+    this.socket = socket;
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP server timed out')));
+    // Buffers, not setEncoding: the plain socket may still be handed to TLS for STARTTLS
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  detach() {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) >= 0) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.lines.push(line.slice(4));
+      // "250-..." continues a multi-line reply; "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+        const waiter = this.waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return;
+    this.failure = error;
+    this.waiting.splice(0).forEach((waiter) => waiter.reject(error));
+  }
+
+  read(): Promise<Reply> {
+    const ready = this.replies.shift();
+    if (ready) return Promise.resolve(ready);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiting.push({ resolve, reject }));
+  }
+
+  async expect(codes: number[], stage: SmtpStage, what: string): Promise<Reply> {
+    const reply = await this.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(reply.code, `${what} rejected: ${reply.code} ${reply.lines.join(' ')}`, stage);
+    }
+    return reply;
+  }
+
+  async command(line: string, codes: number[], stage: SmtpStage, what = line.split(' ')[0]): Promise<Reply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes, stage, what);
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket | tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket | tls.TLSSocket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', reject);
+  });
+}
+
+function upgrade(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure: tls.TLSSocket = tls.connect({ socket, servername: host }, () => resolve(secure));
+    secure.once('error', reject);
+  });
+}
+
+const extensions = (reply: Reply) => reply.lines.slice(1).map((line) => line.toUpperCase());
+
+// Lines starting with "." would end DATA early, so double the dot (RFC 5321 4.5.2)
+const dotStuff = (message: string) => message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+
+/**
+ * Deliver one RFC 5322 message. Resolves with the server's reply to DATA (often carrying its queue ID).
+ */
+export async function sendMail(config: SmtpConfig, envelope: { from: string; to: string[] }, message: string): Promise<string> {
+  const timeoutMs = config.timeoutMs ?? 20_000;
+  const heloName = config.heloName || 'localhost';
+  const connection = new SmtpConnection(await connect(config), timeoutMs);
+
+  try {
+    await connection.expect([220], 'greeting', 'Greeting');
+    let ehlo = await connection.command(`EHLO ${heloName}`, [250], 'ehlo');
+
+    let encrypted = config.secure;
+    if (!encrypted && extensions(ehlo).includes('STARTTLS')) {
+      await connection.command('STARTTLS', [220], 'starttls');
+      connection.detach();
+      connection.attach(await upgrade(connection.socket as net.Socket, config.host));
+      ehlo = await connection.command(`EHLO ${heloName}`, [250], 'ehlo');
+      encrypted = true;
+    }
+
+    if (config.user) {
+      // AUTH PLAIN and LOGIN are only base64, so without TLS anyone on the path can read the password
+      if (!encrypted && !config.allowInsecureAuth) {
+        throw new Error(
+          `${config.host} does not offer STARTTLS; refusing to send SMTP credentials unencrypted. ` +
+            'Use SMTP_SECURE=true for implicit TLS, or SMTP_ALLOW_INSECURE_AUTH=true for a local test server.'
+        );
+      }
+      const auth = extensions(ehlo).find((line) => line.startsWith('AUTH')) || '';
+      if (auth.includes('PLAIN')) {
+        const credentials = Buffer.from(`\0${config.user}\0${config.pass || ''}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235], 'auth', 'AUTH');
+      } else {
+        await connection.command('AUTH LOGIN', [334], 'auth', 'AUTH');
+        await connection.command(Buffer.from(config.user).toString('base64'), [334], 'auth', 'AUTH');
+        await connection.command(Buffer.from(config.pass || '').toString('base64'), [235], 'auth', 'AUTH');
+      }
+    }
+
+    await connection.command(`MAIL FROM:<${envelope.from}>`, [250], 'mail');
+    for (const recipient of envelope.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251], 'rcpt', `Recipient ${recipient}`);
+    }
+    await connection.command('DATA', [354], 'data');
+    const accepted = await connection.command(`${dotStuff(message)}\r\n.`, [250], 'message', 'Message');
+    await connection.command('QUIT', [221], 'quit').catch(() => undefined);
+    return accepted.lines.join(' ');
+  } finally {
+    connection.detach();
+    connection.socket.destroy();
+  }
+}
@@ -0,0 +1,31 @@
+// Server-sent events for streaming marking responses.
+// Events: `partial` (PartialFeedback), `done` ({ feedback }) and `error` ({ error, code? }).
+
+import type { VercelResponse } from '@vercel/node';
+
+/**
+ * Switch the response to an event stream. Returns an AbortSignal that fires if the client disconnects,
+ * so the upstream model call can be cancelled.
+ */
+export function startEventStream(res: VercelResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+  // Comment line so proxies start forwarding straight away
+  res.write(': stream opened\n\n');
+
+  return controller.signal;
+}
+
+export function sendEvent(res: VercelResponse, event: 'partial' | 'done' | 'error', data: unknown): void {
+  if (res.writableEnded) return;
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
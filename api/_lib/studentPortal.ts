@@ -0,0 +1,205 @@
+// Student feedback portal for /api/student-portal: signs expiring share links and assembles what a
+// student may see, which is the released feedback cut down to the student export audience.
+
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { canViewShared } from './workspaces';
+
+const DAY_MS = 24 * 60 * 60_000;
+export const LINK_TTL_DAYS = [7, 30, 90] as const;
+
+// Same cut as the student PDF in EssayFeedback: "What went well" and "Next steps", three of each
+const STUDENT_ITEM_LIMIT = 3;
+
+/**
+ * A portal request that can't be served (bad or expired link, unknown student...).
+ */
+export class StudentPortalError extends Error {
+  status: 400 | 404 | 410;
+
+  constructor(status: 400 | 404 | 410, message: string) {
+    super(message);
+    this.name = 'StudentPortalError';
+    this.status = status;
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+export interface PortalAnnotation {
+  start_offset: number;
+  length: number;
+  quote: string;
+  type: 'strength' | 'improvement' | 'grammar' | 'evidence' | 'comment';
+  ao: string | null;
+  comment: string;
+}
+
+export interface PortalEssay {
+  id: string;
+  title: string;
+  content: string;
+  submitted_at: string;
+  released_at: string;
+  overall_score: number | null;
+  what_went_well: string[];
+  next_steps: string[];
+  annotations: PortalAnnotation[];
+}
+
+export interface PortalView {
+  student: { name: string };
+  expires_at: string;
+  essays: PortalEssay[]; // Newest first
+}
+
+function secretKey(env: Env): Buffer {
+  const secret = env.STUDENT_PORTAL_SECRET;
+  if (!secret) {
+    throw new Error('Server misconfiguration: missing STUDENT_PORTAL_SECRET');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+/** Share link token: linkId.expiry.signature */
+export function signPortalToken(linkId: string, expiresAt: number, env: Env = process.env): string {
+  const payload = `${linkId}.${expiresAt}`;
+  const signature = createHmac('sha256', secretKey(env)).update(payload).digest('base64url');
+  return `${payload}.${signature}`;
+}
+
+/** Link ID from a valid token, otherwise null. Expiry is checked by the caller so it can say so. */
+export function verifyPortalToken(token: string, env: Env = process.env): { linkId: string; expiresAt: number } | null {
+  const [linkId, expiry, signature] = token.split('.');
+  if (!linkId || !expiry || !signature || !Number.isFinite(Number(expiry))) return null;
+  const expected = createHmac('sha256', secretKey(env)).update(`${linkId}.${expiry}`).digest();
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  return { linkId, expiresAt: Number(expiry) };
+}
+
+export async function createPortalLink(
+  supabase: SupabaseClient,
+  teacherId: string,
+  studentId: string,
+  days: number,
+  now = Date.now()
+): Promise<{ id: string; token: string; expires_at: string }> {
+  if (!(LINK_TTL_DAYS as readonly number[]).includes(days)) {
+    throw new StudentPortalError(400, `Links last ${LINK_TTL_DAYS.join(', ')} days`);
+  }
+
+  const { data: student, error: studentError } = await supabase
+    .from('students')
+    .select('id, teacher_id, organisation_id, department_id')
+    .eq('id', studentId)
+    .maybeSingle();
+  if (studentError) throw studentError;
+  // Own students, or ones shared with the teacher's workspace
+  if (!student || !(await canViewShared(supabase, teacherId, student))) {
+    throw new StudentPortalError(404, 'Student not found');
+  }
+
+  // Whole seconds so the token and the stored expiry agree exactly
+  const expiresAt = Math.floor((now + days * DAY_MS) / 1000) * 1000;
+  const { data: link, error } = await supabase
+    .from('student_portal_links')
+    .insert({ student_id: studentId, teacher_id: teacherId, expires_at: new Date(expiresAt).toISOString() })
+    .select('id, expires_at')
+    .single();
+  if (error) throw error;
+
+  return { id: link.id, token: signPortalToken(link.id, expiresAt), expires_at: link.expires_at };
+}
+
+/**
+ * Everything the student may see through a share link: their released essays, the student view of
+ * each essay's latest feedback and the annotations pinned to the essay.
+ */
+export async function loadPortal(supabase: SupabaseClient, token: string, now = Date.now()): Promise<PortalView> {
+  const verified = verifyPortalToken(token);
+  if (!verified) throw new StudentPortalError(404, 'This link is not valid');
+  if (verified.expiresAt < now) throw new StudentPortalError(410, 'This link has expired');
+
+  const { data: link, error: linkError } = await supabase
+    .from('student_portal_links')
+    .select('id, student_id, expires_at, revoked_at')
+    .eq('id', verified.linkId)
+    .maybeSingle();
+  if (linkError) throw linkError;
+  if (!link) throw new StudentPortalError(404, 'This link is not valid');
+  if (link.revoked_at) throw new StudentPortalError(410, 'This link has been switched off by your teacher');
+  if (new Date(link.expires_at).getTime() < now) throw new StudentPortalError(410, 'This link has expired');
+
+  const { data: student, error: studentError } = await supabase
+    .from('students')
+    .select('name')
+    .eq('id', link.student_id)
+    .maybeSingle();
+  if (studentError) throw studentError;
+  if (!student) throw new StudentPortalError(404, 'This link is not valid');
+
+  const { data: essays, error: essaysError } = await supabase
+    .from('essays')
+    .select('id, title, content, created_at, feedback_released_at')
+    .eq('student_id', link.student_id)
+    .not('feedback_released_at', 'is', null)
+    .order('created_at', { ascending: false });
+  if (essaysError) throw essaysError;
+
+  const essayIds = (essays || []).map((e) => e.id);
+  const [feedbackResult, annotationsResult] = essayIds.length
+    ? await Promise.all([
+        supabase
+          .from('feedback')
+          .select('essay_id, overall_score, strengths, improvements, created_at')
+          .in('essay_id', essayIds)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('essay_annotations')
+          .select('essay_id, start_offset, length, quote, type, ao, comment')
+          .in('essay_id', essayIds)
+          .order('start_offset'),
+      ])
+    : [{ data: [], error: null }, { data: [], error: null }];
+  if (feedbackResult.error) throw feedbackResult.error;
+  if (annotationsResult.error) throw annotationsResult.error;
+
+  // Latest feedback per essay
+  const feedbackByEssay = new Map<string, any>();
+  for (const row of feedbackResult.data || []) {
+    if (!feedbackByEssay.has(row.essay_id)) feedbackByEssay.set(row.essay_id, row);
+  }
+
+  await supabase
+    .from('student_portal_links')
+    .update({ last_opened_at: new Date(now).toISOString() })
+    .eq('id', link.id);
+
+  return {
+    student: { name: student.name },
+    expires_at: link.expires_at,
+    essays: (essays || [])
+      .filter((essay) => feedbackByEssay.has(essay.id))
+      .map((essay) => {
+        const feedback = feedbackByEssay.get(essay.id);
+        return {
+          id: essay.id,
+          title: essay.title,
+          content: essay.content,
+          submitted_at: essay.created_at,
+          released_at: essay.feedback_released_at,
+          overall_score: typeof feedback.overall_score === 'number' ? feedback.overall_score : null,
+          what_went_well: toStringList(feedback.strengths).slice(0, STUDENT_ITEM_LIMIT),
+          next_steps: toStringList(feedback.improvements).slice(0, STUDENT_ITEM_LIMIT),
+          annotations: (annotationsResult.data || [])
+            .filter((a) => a.essay_id === essay.id)
+            .map(({ essay_id: _essayId, ...annotation }) => annotation as PortalAnnotation),
+        };
+      }),
+  };
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : [];
+}
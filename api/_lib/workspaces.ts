@@ -0,0 +1,37 @@
+// School workspace checks for api/ handlers. They use the service role, so the sharing rules that RLS
+// applies in the browser (can_view_shared in the organisations migration) are repeated here.
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export interface SharedRow {
+  teacher_id: string;
+  organisation_id: string | null;
+  department_id: string | null;
+}
+
+/**
+ * True when the user owns the row, or it's shared with a workspace (or department) they belong to.
+ */
+export async function canViewShared(supabase: SupabaseClient, userId: string, row: SharedRow): Promise<boolean> {
+  if (row.teacher_id === userId) return true;
+  if (!row.organisation_id) return false;
+
+  const { data: member, error } = await supabase
+    .from('organisation_members')
+    .select('role')
+    .eq('organisation_id', row.organisation_id)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!member) return false;
+  if (!row.department_id || member.role === 'school_admin') return true;
+
+  const { data: department, error: departmentError } = await supabase
+    .from('department_members')
+    .select('user_id')
+    .eq('department_id', row.department_id)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (departmentError) throw departmentError;
+  return !!department;
+}
@@ -0,0 +1,72 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticateRequest, getSupabaseAdmin, sendAccessError } from './_lib/auth';
+import { DeliveryRequestError, recordProviderEvent, sendFeedbackEmails, webhookSecretMatches } from './_lib/deliveries';
+import { EmailConfigError, getEmailTransport } from './_lib/emailTransport';
+
+const param = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || '';
+
+/**
+ * Feedback email delivery. `?action=` selects the operation:
+ *   POST send      { essayIds, jobId?, ccGuardian } → { sent, failed, bounced, skipped }
+ *   POST webhook   ← bounce and complaint events from the email provider (`X-Webhook-Secret: $EMAIL_WEBHOOK_SECRET`)
+ * Teachers read delivery history straight from Supabase.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const action = param(req.query.action);
+
+  try {
+    switch (action) {
+      case 'send': {
+        const { userId, supabase } = await authenticateRequest(req);
+        const { essayIds, jobId, ccGuardian } = req.body || {};
+        if (!Array.isArray(essayIds) || essayIds.some((id: unknown) => typeof id !== 'string')) {
+          return res.status(400).json({ error: 'essayIds must be a list of essay IDs' });
+        }
+        return res.status(200).json(await sendFeedbackEmails(supabase, getEmailTransport(), userId, {
+          essayIds,
+          jobId: typeof jobId === 'string' && jobId ? jobId : undefined,
+          ccGuardian: ccGuardian === true,
+        }));
+      }
+      case 'webhook': {
+        if (!webhookSecretMatches(param(req.headers['x-webhook-secret']), process.env.EMAIL_WEBHOOK_SECRET)) {
+          return res.status(401).json({ error: 'Unauthorized' });
+        }
+        const matched = await recordProviderEvent(getSupabaseAdmin(), req.body);
+        return res.status(200).json({ ok: true, matched });
+      }
+      default:
+        return res.status(400).json({ error: `Unknown action "${action}"` });
+    }
+  } catch (error: any) {
+    console.error('Deliveries Error:', error);
+
+    const accessResponse = sendAccessError(res, error);
+    if (accessResponse) return accessResponse;
+
+    if (error instanceof EmailConfigError) {
+      console.error('❌ Email transport not configured:', error.message);
+      return res.status(500).json({ error: error.message });
+    }
+    if (error instanceof DeliveryRequestError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    return res.status(500).json({
+      error: error?.message || 'Failed to send feedback emails'
+    });
+  }
+}
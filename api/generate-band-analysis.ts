@@ -1,15 +1,17 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import OpenAI from 'openai';
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { authenticateRequest, sendAccessError, type AuthContext } from './_lib/auth';
+import { getLLMProvider, LLMConfigError } from './_lib/llmProvider';
+import { releaseUsage, reserveUsage, type UsageReservation } from './_lib/quota';
 
+/**
+ * @deprecated Use /api/mark-essay, which returns the score and band analysis alongside the feedback
+ * from a single model call so they can't contradict each other.
+ */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Set CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (req.method === 'OPTIONS') {
     return res.status(200).end();
@@ -19,11 +21,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Reserved before the model call and given back if anything below fails
+  let auth: AuthContext | null = null;
+  let quota: UsageReservation | null = null;
+
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('❌ OPENAI_API_KEY not configured');
-      return res.status(500).json({ error: 'API key not configured. Please add OPENAI_API_KEY to environment variables.' });
-    }
+    auth = await authenticateRequest(req);
+    const llm = getLLMProvider();
 
     const { essayText, rubricCriteria, examBoard } = req.body;
 
@@ -31,8 +35,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
+    quota = await reserveUsage(auth.supabase, { userId: auth.userId, plan: auth.plan, endpoint: 'generate-band-analysis', provider: llm.name });
+
+    const content = await llm.complete({
+      purpose: 'band-analysis',
+      tier: 'fast',
       messages: [
         {
           role: 'system',
@@ -65,20 +72,30 @@ Return JSON only.`,
         },
       ],
       temperature: 0.3,
-      max_tokens: 300,
-      response_format: { type: 'json_object' },
+      maxTokens: 300,
+      json: true,
+      context: { essayText, rubricCriteria },
     });
 
-    const content = response.choices[0]?.message?.content;
     if (!content) {
       throw new Error('No band analysis generated');
     }
     
     const analysis = JSON.parse(content);
+    res.setHeader('X-Quota-Limit', String(quota.limit));
+    res.setHeader('X-Quota-Remaining', String(quota.remaining));
     return res.status(200).json(analysis);
   } catch (error: any) {
     console.error('Band Analysis Error:', error);
-    
+    if (auth && quota) await releaseUsage(auth.supabase, quota);
+
+    const accessResponse = sendAccessError(res, error);
+    if (accessResponse) return accessResponse;
+
+    if (error instanceof LLMConfigError) {
+      console.error('❌ LLM provider not configured:', error.message);
+      return res.status(500).json({ error: error.message });
+    }
     if (error?.status === 401) {
       return res.status(401).json({ error: 'OpenAI API authentication failed' });
     }
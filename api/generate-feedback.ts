@@ -1,16 +1,22 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import OpenAI from 'openai';
-
-// Initialize OpenAI with server-side key (secure)
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY, // No VITE_ prefix for server-side
-});
-
+import { authenticateRequest, sendAccessError, type AuthContext } from './_lib/auth';
+import { FeedbackValidationError, toPreviousImprovements } from './_lib/feedbackSchema';
+import { getLLMProvider, LLMConfigError } from './_lib/llmProvider';
+import { markEssay } from './_lib/marking';
+import { releaseUsage, reserveUsage, type UsageReservation } from './_lib/quota';
+import { sendEvent, startEventStream } from './_lib/sse';
+
+/**
+ * Full marking result as `{ feedback }`. With `stream: true` in the body the response is a
+ * server-sent event stream instead: `partial` events with strengths, improvements and the
+ * suggested feedback as the model writes them, then `done` with the validated feedback (or `error`).
+ * Non-streaming callers should prefer /api/mark-essay.
+ */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   // Set CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   // Handle OPTIONS request
   if (req.method === 'OPTIONS') {
@@ -22,103 +28,72 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
+  // Reserved before the model call and given back if anything below fails
+  let auth: AuthContext | null = null;
+  let quota: UsageReservation | null = null;
+
   try {
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('❌ OPENAI_API_KEY not configured');
-      return res.status(500).json({ error: 'API key not configured. Please add OPENAI_API_KEY to environment variables.' });
-    }
+    auth = await authenticateRequest(req);
+    // Resolve the configured provider (server-side keys only, no VITE_ prefix)
+    const llm = getLLMProvider();
 
-    const { essayText, rubricCriteria, examBoard, customPrompt } = req.body;
+    const { essayText, rubricCriteria, examBoard, customPrompt, stream } = req.body;
+    const previousImprovements = toPreviousImprovements(req.body.previousImprovements);
 
     if (!essayText || !rubricCriteria) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o', // Upgraded to the latest high-quality model for excellence.
-      messages: [
-        {
-          role: 'system',
-          content: `You are an experienced GCSE English teacher and examiner${examBoard ? ` for ${examBoard}` : ''}. Provide warm, authentic feedback as if speaking face-to-face with your student.
-
-${customPrompt ? `TEACHER INSTRUCTION: ${customPrompt}\n` : ''}
-
-🛡️ SAFEGUARDING PROTOCOL:
-If the student's work contains explicit mentions or strong indicators of self-harm, abuse, severe violence, or radicalization:
-1. Start your response with "⚠️ SAFEGUARDING ALERT: This work contains concerning themes. Please review in accordance with your school's safeguarding policy."
-2. Proceed with the academic assessment as normal, but maintain a neutral, professional tone.
-
-📋 YOUR TASK:
-1. Assess against GCSE Assessment Objectives (AO1-AO4 where applicable)
-2. Assign band levels (1=emerging, 2-3=developing, 4-5=secure, 6=exceptional)
-3. Quote specific evidence from their writing
-5. Provide a JSON object with breakdown scores for each rubric criterion (0-100)
-
-✨ TONE:
-- Encouraging yet honest - celebrate wins, be constructive about gaps
-- Specific over generic ("Your metaphor 'time is a thief' creates..." not "Good imagery")
-- Natural speech patterns ("I really liked..." "Have you considered..." "One thing to work on...")
-- Avoid: "overall", "in conclusion", "the student demonstrates", robotic lists
-
-🎯 ASSESSMENT OBJECTIVES (adapt to rubric):
-- AO1: Ideas, themes, purpose
-- AO2: Language, structure, form techniques
-- AO3: Context (if relevant)
-- AO4: SPaG (spelling, punctuation, grammar)
-
-📊 BAND DESCRIPTORS:
-Band 6 (90-100%): Perceptive, sophisticated, compelling
-Band 5 (75-89%): Clear, effective, well-developed
-Band 4 (60-74%): Explained, some development, generally clear
-Band 3 (45-59%): Attempts made, simple ideas, basic clarity
-Band 2 (30-44%): Limited, unclear, minimal development
-Band 1 (0-29%): Very limited, unclear purpose`,
-        },
-        {
-          role: 'user',
-          content: `Assess this essay using GCSE standards. Provide detailed analysis.
-
-📋 RUBRIC:
-${rubricCriteria}
-
-📝 ESSAY:
-${essayText}
-
-💬 Provide feedback in this format:
-
-Strengths:
-- [specific strength with quote]
-- [another strength]
-
-Areas for Improvement:
-- [specific area with example]
-- [another area]
+    quota = await reserveUsage(auth.supabase, { userId: auth.userId, plan: auth.plan, endpoint: 'generate-feedback', provider: llm.name });
+
+    if (stream === true) {
+      res.setHeader('X-Diagnostics', `provider=${llm.name}`);
+      res.setHeader('X-Quota-Limit', String(quota.limit));
+      const signal = startEventStream(res);
+      try {
+        const feedback = await markEssay(
+          llm,
+          { essayText, rubricCriteria, examBoard, customPrompt, previousImprovements },
+          { signal, onPartial: (partial) => sendEvent(res, 'partial', partial) }
+        );
+        sendEvent(res, 'done', { feedback });
+      } catch (streamError: any) {
+        await releaseUsage(auth.supabase, quota);
+        if (signal.aborted) {
+          // Teacher cancelled; nothing was saved and nothing is charged
+          console.log('ℹ️ Feedback stream cancelled by client');
+        } else {
+          console.error('❌ Feedback stream error:', streamError);
+          sendEvent(res, 'error', {
+            error: streamError?.message || 'Failed to generate feedback',
+            code: streamError instanceof FeedbackValidationError ? streamError.code : undefined,
+          });
+        }
+      }
+      return res.end();
+    }
 
-Grammar Issues:
-- [issues if any, or "No significant grammar issues"]
+    // Same single-call marking as /api/mark-essay (EssayMarking is a superset of EnhancedFeedback)
+    const feedback = await markEssay(llm, { essayText, rubricCriteria, examBoard, customPrompt, previousImprovements });
 
-Suggested Feedback:
-[natural, encouraging summary as if speaking to the student directly]
+    res.setHeader('X-Diagnostics', `provider=${llm.name}`);
+    res.setHeader('X-Quota-Limit', String(quota.limit));
+    res.setHeader('X-Quota-Remaining', String(quota.remaining));
+    return res.status(200).json({ feedback });
+  } catch (error: any) {
+    console.error('OpenAI API Error:', error);
+    if (auth && quota) await releaseUsage(auth.supabase, quota);
 
-Be specific. Quote their work. Sound like a real teacher, not a robot.`,
-        },
-      ],
-      temperature: 0.85,
-      max_tokens: 1000,
-    });
+    const accessResponse = sendAccessError(res, error);
+    if (accessResponse) return accessResponse;
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No feedback generated');
+    if (error instanceof LLMConfigError) {
+      console.error('❌ LLM provider not configured:', error.message);
+      return res.status(500).json({ error: error.message });
+    }
+    if (error instanceof FeedbackValidationError) {
+      return res.status(502).json({ error: error.message, code: error.code, details: error.details });
     }
-    
-    // Return the feedback as plain text (no JSON parsing needed)
-    const key = process.env.OPENAI_API_KEY || '';
-    res.setHeader('X-Diagnostics', `openaiKeyPresent=${!!key};keyStart=${key.slice(0,8)}`);
-    return res.status(200).json({ feedback: content });
-  } catch (error: any) {
-    console.error('OpenAI API Error:', error);
     
     if (error?.status === 401) {
       return res.status(401).json({ error: 'OpenAI API authentication failed' });
@@ -126,9 +101,7 @@ Be specific. Quote their work. Sound like a real teacher, not a robot.`,
     if (error?.status === 429) {
       return res.status(429).json({ error: 'Rate limit exceeded' });
     }
-    
-    const key = process.env.OPENAI_API_KEY || '';
-    res.setHeader('X-Diagnostics', `openaiKeyPresent=${!!key};keyStart=${key.slice(0,8)}`);
+
     return res.status(500).json({
       error: error?.message || 'Failed to generate feedback'
     });
@@ -0,0 +1,159 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticateRequest, getSupabaseAdmin, sendAccessError } from './_lib/auth';
+import { ClassroomApiError, ClassroomConfigError, getClassroomApi } from './_lib/classroomApi';
+import {
+  ClassroomSyncError,
+  disconnect,
+  getAccessToken,
+  importSubmissions,
+  pushDraftGrades,
+  saveConnection,
+  signState,
+  syncRosters,
+  verifyState,
+} from './_lib/classroomSync';
+import { fakeDraftGrades } from './_lib/fakeClassroom';
+
+const SETTINGS_PATH = '/account';
+
+const param = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || '';
+
+/**
+ * Google Classroom integration. `?action=` selects the operation:
+ *   GET  auth-url            → { url } to start OAuth
+ *   GET  callback            ← Google's redirect (no Supabase token; the signed state identifies the teacher)
+ *   GET  courses             → the teacher's active courses
+ *   GET  coursework          → assignments in ?courseId=
+ *   POST sync-roster         { courses: [{ courseId, classSection }] }
+ *   POST import              { courseId, courseWorkId, rubricId, aiPreMark }
+ *   POST push-grades         { courseId, courseWorkId }
+ *   POST disconnect
+ *   GET  fake-grades         → draft grades received by the fake in this process (CLASSROOM_API=fake, local runs only)
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const action = param(req.query.action);
+
+  if (action === 'callback') {
+    return handleCallback(req, res);
+  }
+
+  const expectedMethod = ['sync-roster', 'import', 'push-grades', 'disconnect'].includes(action) ? 'POST' : 'GET';
+  if (req.method !== expectedMethod) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { userId, supabase } = await authenticateRequest(req);
+    const api = getClassroomApi();
+
+    switch (action) {
+      case 'auth-url':
+        return res.status(200).json({ url: api.authUrl(signState(userId)) });
+      case 'courses': {
+        const accessToken = await getAccessToken(supabase, api, userId);
+        return res.status(200).json({ courses: await api.listCourses(accessToken) });
+      }
+      case 'coursework': {
+        const courseId = param(req.query.courseId);
+        if (!courseId) return res.status(400).json({ error: 'courseId is required' });
+        const accessToken = await getAccessToken(supabase, api, userId);
+        return res.status(200).json({ courseWork: await api.listCourseWork(accessToken, courseId) });
+      }
+      case 'sync-roster': {
+        const courses = Array.isArray(req.body?.courses) ? req.body.courses : [];
+        if (courses.length === 0 || courses.some((c: any) => typeof c?.courseId !== 'string')) {
+          return res.status(400).json({ error: 'Choose at least one course to sync' });
+        }
+        return res.status(200).json(await syncRosters(supabase, api, userId, courses));
+      }
+      case 'import': {
+        const { courseId, courseWorkId, rubricId, aiPreMark } = req.body || {};
+        if (!courseId || !courseWorkId || !rubricId) {
+          return res.status(400).json({ error: 'courseId, courseWorkId and rubricId are required' });
+        }
+        return res.status(200).json(await importSubmissions(supabase, api, userId, {
+          courseId, courseWorkId, rubricId, aiPreMark: aiPreMark !== false,
+        }));
+      }
+      case 'push-grades': {
+        const { courseId, courseWorkId } = req.body || {};
+        if (!courseId || !courseWorkId) {
+          return res.status(400).json({ error: 'courseId and courseWorkId are required' });
+        }
+        return res.status(200).json(await pushDraftGrades(supabase, api, userId, { courseId, courseWorkId }));
+      }
+      case 'disconnect':
+        await disconnect(supabase, api, userId);
+        return res.status(200).json({ ok: true });
+      case 'fake-grades':
+        if (api.name !== 'fake') return res.status(404).json({ error: 'Only available with CLASSROOM_API=fake' });
+        return res.status(200).json({ grades: Object.fromEntries(fakeDraftGrades) });
+      default:
+        return res.status(400).json({ error: `Unknown action "${action}"` });
+    }
+  } catch (error: any) {
+    console.error('Google Classroom Error:', error);
+
+    const accessResponse = sendAccessError(res, error);
+    if (accessResponse) return accessResponse;
+
+    if (error instanceof ClassroomConfigError) {
+      console.error('❌ Google Classroom not configured:', error.message);
+      return res.status(500).json({ error: error.message });
+    }
+    if (error instanceof ClassroomSyncError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof ClassroomApiError) {
+      // Upstream failure; keep Google's message so teachers can act on it
+      return res.status(502).json({ error: `Google Classroom: ${error.message}` });
+    }
+
+    return res.status(500).json({
+      error: error?.message || 'Google Classroom request failed'
+    });
+  }
+}
+
+async function handleCallback(req: VercelRequest, res: VercelResponse) {
+  const redirect = (status: 'connected' | 'error', message?: string) => {
+    const query = new URLSearchParams({ classroom: status, ...(message ? { message } : {}) });
+    res.setHeader('Location', `${SETTINGS_PATH}?${query.toString()}`);
+    return res.status(302).end();
+  };
+
+  if (param(req.query.error)) {
+    return redirect('error', 'Google Classroom access was not granted');
+  }
+
+  try {
+    const teacherId = verifyState(param(req.query.state));
+    if (!teacherId) {
+      return redirect('error', 'The connection link expired. Please try again.');
+    }
+
+    const tokens = await getClassroomApi().exchangeCode(param(req.query.code));
+    if (!tokens.refreshToken) {
+      return redirect('error', 'Google did not grant offline access. Remove Simple RubriQ from your Google account permissions and connect again.');
+    }
+
+    await saveConnection(getSupabaseAdmin(), teacherId, {
+      refreshToken: tokens.refreshToken,
+      email: tokens.email,
+      scope: tokens.scope,
+    });
+    return redirect('connected');
+  } catch (error: any) {
+    console.error('❌ Google Classroom OAuth callback failed:', error);
+    return redirect('error', error?.message || 'Could not connect Google Classroom');
+  }
+}
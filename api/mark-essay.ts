@@ -0,0 +1,73 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticateRequest, sendAccessError, type AuthContext } from './_lib/auth';
+import { FeedbackValidationError, toPreviousImprovements } from './_lib/feedbackSchema';
+import { getLLMProvider, LLMConfigError } from './_lib/llmProvider';
+import { markEssay } from './_lib/marking';
+import { releaseUsage, reserveUsage, type UsageReservation } from './_lib/quota';
+
+/**
+ * Single-call marking: feedback, per-criterion scores, overall band and justification
+ * in one consistent response. Replaces separate generate-feedback/score/band-analysis calls.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Reserved before the model call and given back if anything below fails
+  let auth: AuthContext | null = null;
+  let quota: UsageReservation | null = null;
+
+  try {
+    auth = await authenticateRequest(req);
+    const llm = getLLMProvider();
+
+    const { essayText, rubricCriteria, examBoard, customPrompt } = req.body;
+    const previousImprovements = toPreviousImprovements(req.body.previousImprovements);
+
+    if (!essayText || !rubricCriteria) {
+      return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    quota = await reserveUsage(auth.supabase, { userId: auth.userId, plan: auth.plan, endpoint: 'mark-essay', provider: llm.name });
+
+    const marking = await markEssay(llm, { essayText, rubricCriteria, examBoard, customPrompt, previousImprovements });
+    res.setHeader('X-Diagnostics', `provider=${llm.name}`);
+    res.setHeader('X-Quota-Limit', String(quota.limit));
+    res.setHeader('X-Quota-Remaining', String(quota.remaining));
+    return res.status(200).json({ marking });
+  } catch (error: any) {
+    console.error('Marking Error:', error);
+    if (auth && quota) await releaseUsage(auth.supabase, quota);
+
+    const accessResponse = sendAccessError(res, error);
+    if (accessResponse) return accessResponse;
+
+    if (error instanceof LLMConfigError) {
+      console.error('❌ LLM provider not configured:', error.message);
+      return res.status(500).json({ error: error.message });
+    }
+    if (error instanceof FeedbackValidationError) {
+      return res.status(502).json({ error: error.message, code: error.code, details: error.details });
+    }
+    if (error?.status === 401) {
+      return res.status(401).json({ error: 'OpenAI API authentication failed' });
+    }
+    if (error?.status === 429) {
+      return res.status(429).json({ error: 'Rate limit exceeded' });
+    }
+
+    return res.status(500).json({
+      error: error?.message || 'Failed to mark essay'
+    });
+  }
+}
@@ -7,6 +7,7 @@ export default function handler(_req: VercelRequest, res: VercelResponse) {
   res.status(200).send(JSON.stringify({
     ok: true,
     env: 'serverless',
+    llmProvider: (process.env.LLM_PROVIDER || 'openai').toLowerCase(),
     openaiKeyPresent: !!key,
     openaiKeyStartsWith: truncated,
     timestamp: new Date().toISOString()
@@ -0,0 +1,52 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticateRequest, getSupabaseAdmin, sendAccessError } from './_lib/auth';
+import { runBatchWorker } from './_lib/batchWorker';
+import { getLLMProvider, LLMConfigError } from './_lib/llmProvider';
+
+/**
+ * Batch marking worker. Vercel Cron calls this every minute (GET, `Authorization: Bearer $CRON_SECRET`)
+ * to drain every teacher's queue; BatchProcessor POSTs with the user's token to start their own items
+ * straight away instead of waiting for the next tick.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    const isCron = !!cronSecret && req.headers.authorization === `Bearer ${cronSecret}`;
+
+    let teacherId: string | undefined;
+    if (!isCron) {
+      const auth = await authenticateRequest(req);
+      teacherId = auth.userId;
+    }
+
+    const result = await runBatchWorker(getSupabaseAdmin(), getLLMProvider(), { teacherId });
+    return res.status(200).json(result);
+  } catch (error: any) {
+    console.error('Batch Worker Error:', error);
+
+    const accessResponse = sendAccessError(res, error);
+    if (accessResponse) return accessResponse;
+
+    if (error instanceof LLMConfigError) {
+      console.error('❌ LLM provider not configured:', error.message);
+      return res.status(500).json({ error: error.message });
+    }
+
+    return res.status(500).json({
+      error: error?.message || 'Failed to process batch'
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticateRequest, sendAccessError } from './_lib/auth';
+import { FeedbackValidationError } from './_lib/feedbackSchema';
+import { getLLMProvider, LLMConfigError } from './_lib/llmProvider';
+import { screenEssay } from './_lib/safeguarding';
+
+/**
+ * Safeguarding screen for an essay saved from the browser: POST { essayId } → { flags }.
+ * Runs once per essay: the essay is claimed atomically before classifying, so repeat or concurrent calls
+ * return the existing flag count. Never counts towards the marking quota.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { userId, supabase } = await authenticateRequest(req);
+
+    const { essayId } = req.body || {};
+    if (!essayId || typeof essayId !== 'string') {
+      return res.status(400).json({ error: 'essayId is required' });
+    }
+
+    const { data: essay, error } = await supabase
+      .from('essays')
+      .select('id, content, safeguarding_screened_at')
+      .eq('id', essayId)
+      .eq('teacher_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!essay) {
+      return res.status(404).json({ error: 'Essay not found' });
+    }
+
+    const existingFlags = async () => {
+      const { count, error: countError } = await supabase
+        .from('safeguarding_flags')
+        .select('id', { count: 'exact', head: true })
+        .eq('essay_id', essay.id);
+      if (countError) throw countError;
+      return res.status(200).json({ flags: count ?? 0, alreadyScreened: true });
+    };
+
+    if (essay.safeguarding_screened_at) return existingFlags();
+
+    const llm = getLLMProvider();
+    // Null when a concurrent request claimed the essay first
+    const flags = await screenEssay(supabase, llm, essay);
+    if (flags === null) return existingFlags();
+    res.setHeader('X-Diagnostics', `provider=${llm.name}`);
+    return res.status(200).json({ flags });
+  } catch (error: any) {
+    console.error('Safeguarding Error:', error);
+
+    const accessResponse = sendAccessError(res, error);
+    if (accessResponse) return accessResponse;
+
+    if (error instanceof LLMConfigError) {
+      console.error('❌ LLM provider not configured:', error.message);
+      return res.status(500).json({ error: error.message });
+    }
+    if (error instanceof FeedbackValidationError) {
+      return res.status(502).json({ error: error.message, code: error.code, details: error.details });
+    }
+    if (error?.status === 429) {
+      return res.status(429).json({ error: 'Rate limit exceeded' });
+    }
+
+    return res.status(500).json({
+      error: error?.message || 'Safeguarding check failed'
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { authenticateRequest, getSupabaseAdmin, sendAccessError } from './_lib/auth';
+import { createPortalLink, loadPortal, StudentPortalError } from './_lib/studentPortal';
+
+const param = (value: string | string[] | undefined) => (Array.isArray(value) ? value[0] : value) || '';
+
+/**
+ * Student feedback portal. `?action=` selects the operation:
+ *   GET  view          ?token= → the student's released feedback (no Supabase token; the signed link is the credential)
+ *   POST create-link   { studentId, days } → { id, token, expires_at }
+ * Teachers list and revoke links straight from Supabase.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  // Set CORS headers
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  const action = param(req.query.action);
+  const expectedMethod = action === 'create-link' ? 'POST' : 'GET';
+  if (req.method !== expectedMethod) {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    switch (action) {
+      case 'view': {
+        const token = param(req.query.token);
+        if (!token) return res.status(400).json({ error: 'token is required' });
+        res.setHeader('Cache-Control', 'no-store');
+        return res.status(200).json(await loadPortal(getSupabaseAdmin(), token));
+      }
+      case 'create-link': {
+        const { userId, supabase } = await authenticateRequest(req);
+        const { studentId, days } = req.body || {};
+        if (typeof studentId !== 'string' || !studentId) {
+          return res.status(400).json({ error: 'studentId is required' });
+        }
+        return res.status(200).json(await createPortalLink(supabase, userId, studentId, Number(days)));
+      }
+      default:
+        return res.status(400).json({ error: `Unknown action "${action}"` });
+    }
+  } catch (error: any) {
+    console.error('Student Portal Error:', error);
+
+    const accessResponse = sendAccessError(res, error);
+    if (accessResponse) return accessResponse;
+
+    if (error instanceof StudentPortalError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    return res.status(500).json({
+      error: error?.message || 'Student portal request failed'
+    });
+  }
+}
@@ -11,6 +11,8 @@ const Analytics = lazy(() => import('./pages/Analytics'));
 const BatchProcessor = lazy(() => import('./pages/BatchProcessor'));
 const Calibration = lazy(() => import('./pages/Calibration'));
 const FeedbackHistory = lazy(() => import('./pages/FeedbackHistory'));
+const SafeguardingQueue = lazy(() => import('./pages/SafeguardingQueue'));
+const Workspace = lazy(() => import('./pages/Workspace'));
 const Demo = lazy(() => import('./pages/Demo'));
 const DashboardDemo = lazy(() => import('./pages/DashboardDemo'));
 const About = lazy(() => import('./pages/About'));
@@ -20,6 +22,10 @@ const DataProcessingAgreement = lazy(() => import('./pages/DataProcessingAgreeme
 const PricingPage = lazy(() => import('./pages/Pricing'));
 const CheckoutSuccess = lazy(() => import('./pages/CheckoutSuccess'));
 const CheckoutCancel = lazy(() => import('./pages/CheckoutCancel'));
+const Assignments = lazy(() => import('./pages/Assignments'));
+const AssignmentDetail = lazy(() => import('./pages/AssignmentDetail'));
+const GradeBoundaries = lazy(() => import('./pages/GradeBoundaries'));
+const StudentPortal = lazy(() => import('./pages/StudentPortal'));
 import AccountSettings from './pages/AccountSettings';
 import ProtectedRoute from './components/ProtectedRoute';
 import { AdminRoute } from './components/AdminRoute';
@@ -64,9 +70,14 @@ function App() {
           <Route path="/feedback-history" element={<Suspense fallback={<SuspenseFallback />}><FeedbackHistory /></Suspense>} />
           <Route path="/students" element={<Suspense fallback={<SuspenseFallback />}><Students /></Suspense>} />
           <Route path="/rubrics" element={<Suspense fallback={<SuspenseFallback />}><Rubrics /></Suspense>} />
+          <Route path="/grade-boundaries" element={<Suspense fallback={<SuspenseFallback />}><GradeBoundaries /></Suspense>} />
           <Route path="/analytics" element={<Suspense fallback={<SuspenseFallback />}><Analytics /></Suspense>} />
+          <Route path="/assignments" element={<Suspense fallback={<SuspenseFallback />}><Assignments /></Suspense>} />
+          <Route path="/assignments/:assignmentId" element={<Suspense fallback={<SuspenseFallback />}><AssignmentDetail /></Suspense>} />
           <Route path="/batch" element={<Suspense fallback={<SuspenseFallback />}><BatchProcessor /></Suspense>} />
           <Route path="/calibration" element={<Suspense fallback={<SuspenseFallback />}><Calibration /></Suspense>} />
+          <Route path="/safeguarding" element={<Suspense fallback={<SuspenseFallback />}><SafeguardingQueue /></Suspense>} />
+          <Route path="/workspace" element={<Suspense fallback={<SuspenseFallback />}><Workspace /></Suspense>} />
         </Route>
         {/* Public */}
         <Route path="/demo" element={<Suspense fallback={<SuspenseFallback />}><Demo /></Suspense>} />
@@ -78,6 +89,7 @@ function App() {
         <Route path="/pricing" element={<Suspense fallback={<SuspenseFallback />}><PricingPage /></Suspense>} />
         <Route path="/checkout/success" element={<Suspense fallback={<SuspenseFallback />}><CheckoutSuccess /></Suspense>} />
         <Route path="/checkout/cancel" element={<Suspense fallback={<SuspenseFallback />}><CheckoutCancel /></Suspense>} />
+        <Route path="/portal/:token" element={<Suspense fallback={<SuspenseFallback />}><StudentPortal /></Suspense>} />
         {/* Protected Settings */}
         <Route element={<ProtectedRoute />}>
           <Route path="/account" element={<Suspense fallback={<SuspenseFallback />}><AccountSettings /></Suspense>} />
@@ -0,0 +1,305 @@
+import { useMemo, useRef, useState } from 'react';
+import notify from '../utils/notify';
+import type { EssayAnnotation } from '../utils/openaiClient';
+import {
+  ANNOTATION_TYPE_LABELS,
+  segmentText,
+  type AnnotationType,
+  type EssayAnnotationRow,
+} from '../utils/annotations';
+import { useEssayAnnotations } from '../hooks/useEssayAnnotations';
+
+interface AnnotatedEssayProps {
+  text: string;
+  // Saved essay the annotations belong to; without one (unsaved, or the student portal) pendingAnnotations are shown read-only
+  essayId?: string | null;
+  pendingAnnotations?: Array<Omit<EssayAnnotation, 'type'> & { type: AnnotationType }>;
+  readOnly?: boolean;
+}
+
+type MarginAnnotation = Pick<EssayAnnotationRow, 'id' | 'start_offset' | 'length' | 'quote' | 'type' | 'ao' | 'comment'> & {
+  source?: EssayAnnotationRow['source'];
+};
+
+type Draft = { type: AnnotationType; ao: string; comment: string };
+
+const TYPE_STYLES: Record<AnnotationType, { highlight: string; badge: string }> = {
+  strength: { highlight: 'bg-green-100 border-b-2 border-green-400', badge: 'bg-green-100 text-green-800' },
+  improvement: { highlight: 'bg-amber-100 border-b-2 border-amber-400', badge: 'bg-amber-100 text-amber-800' },
+  grammar: { highlight: 'bg-red-100 border-b-2 border-red-400', badge: 'bg-red-100 text-red-800' },
+  evidence: { highlight: 'bg-purple-100 border-b-2 border-purple-400', badge: 'bg-purple-100 text-purple-800' },
+  comment: { highlight: 'bg-blue-100 border-b-2 border-blue-400', badge: 'bg-blue-100 text-blue-800' },
+};
+
+const TYPES = Object.keys(ANNOTATION_TYPE_LABELS) as AnnotationType[];
+
+const emptyDraft = (): Draft => ({ type: 'comment', ao: '', comment: '' });
+
+/**
+ * Essay text with highlights pinned to exact character ranges and Google Docs style comments in the margin.
+ * Select text to add a comment; click a highlight or a comment to jump to the other.
+ */
+export const AnnotatedEssay = ({ text, essayId, pendingAnnotations = [], readOnly = false }: AnnotatedEssayProps) => {
+  const { annotations: saved, isLoading, add, update, remove } = useEssayAnnotations(essayId);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [selection, setSelection] = useState<{ start: number; length: number; quote: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const essayRef = useRef<HTMLDivElement>(null);
+  const cardRefs = useRef(new Map<string, HTMLLIElement>());
+
+  const editable = !readOnly && !!essayId;
+  const annotations: MarginAnnotation[] = useMemo(
+    () => (essayId ? saved : pendingAnnotations.map((a, idx) => ({ ...a, id: `pending-${idx}` }))),
+    [essayId, saved, pendingAnnotations]
+  );
+  const byId = useMemo(() => new Map(annotations.map((a) => [a.id, a])), [annotations]);
+  const segments = useMemo(() => segmentText(text, annotations), [text, annotations]);
+
+  const focusAnnotation = (id: string, scrollTo: 'essay' | 'margin') => {
+    setActiveId(id);
+    if (scrollTo === 'margin') {
+      cardRefs.current.get(id)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+      return;
+    }
+    const annotation = byId.get(id);
+    if (!annotation) return;
+    const start = Math.min(text.length, annotation.start_offset);
+    essayRef.current
+      ?.querySelector<HTMLElement>(`[data-start="${start}"]`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  // Map a DOM selection back to essay offsets through the data-start of each segment
+  const offsetOf = (node: Node, offset: number): number | null => {
+    if (node.nodeType !== Node.TEXT_NODE) return null;
+    const segment = node.parentElement?.closest<HTMLElement>('[data-start]');
+    if (!segment || !essayRef.current?.contains(segment)) return null;
+    return Number(segment.dataset.start) + offset;
+  };
+
+  const handleMouseUp = () => {
+    if (!editable) return;
+    const current = window.getSelection();
+    if (!current || current.isCollapsed || current.rangeCount === 0) return;
+    const range = current.getRangeAt(0);
+    const start = offsetOf(range.startContainer, range.startOffset);
+    const end = offsetOf(range.endContainer, range.endOffset);
+    if (start === null || end === null || end <= start) return;
+    const quote = text.slice(start, end);
+    if (!quote.trim()) return;
+    setSelection({ start, length: end - start, quote });
+    setEditingId(null);
+    setDraft(emptyDraft());
+  };
+
+  const startEdit = (annotation: MarginAnnotation) => {
+    setSelection(null);
+    setEditingId(annotation.id);
+    setDraft({ type: annotation.type, ao: annotation.ao || '', comment: annotation.comment });
+  };
+
+  const cancelDraft = () => {
+    setSelection(null);
+    setEditingId(null);
+    setDraft(emptyDraft());
+  };
+
+  const saveDraft = async () => {
+    if (!draft.comment.trim()) {
+      notify.error('Write a comment first');
+      return;
+    }
+    setSaving(true);
+    try {
+      const fields = { type: draft.type, ao: draft.ao.trim() || null, comment: draft.comment.trim() };
+      if (selection) {
+        await add({ ...fields, start_offset: selection.start, length: selection.length, quote: selection.quote });
+        window.getSelection()?.removeAllRanges();
+        notify.success('Comment added');
+      } else if (editingId) {
+        await update(editingId, fields);
+        notify.success('Comment updated');
+      }
+      cancelDraft();
+    } catch (error: any) {
+      console.error('❌ Failed to save annotation:', error);
+      notify.error(`Failed to save comment: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this comment?')) return;
+    try {
+      await remove(id);
+      if (activeId === id) setActiveId(null);
+      if (editingId === id) cancelDraft();
+    } catch (error: any) {
+      console.error('❌ Failed to delete annotation:', error);
+      notify.error(`Failed to delete comment: ${error?.message || 'Unknown error'}`);
+    }
+  };
+
+  const renderDraftForm = () => (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <select
+          value={draft.type}
+          onChange={(e) => setDraft({ ...draft, type: e.target.value as AnnotationType })}
+          className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm"
+          aria-label="Comment type"
+        >
+          {TYPES.map((type) => (
+            <option key={type} value={type}>{ANNOTATION_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={draft.ao}
+          onChange={(e) => setDraft({ ...draft, ao: e.target.value })}
+          placeholder="AO"
+          className="w-20 border border-gray-300 rounded px-2 py-1 text-sm"
+          aria-label="Assessment objective"
+        />
+      </div>
+      <textarea
+        value={draft.comment}
+        onChange={(e) => setDraft({ ...draft, comment: e.target.value })}
+        rows={3}
+        autoFocus
+        className="w-full border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        placeholder="Comment for this passage"
+      />
+      <div className="flex gap-2 justify-end">
+        <button
+          type="button"
+          onClick={cancelDraft}
+          className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={saveDraft}
+          disabled={saving}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div
+        ref={essayRef}
+        onMouseUp={handleMouseUp}
+        className="md:col-span-2 bg-white p-4 rounded border border-gray-200 max-h-[32rem] overflow-y-auto text-sm leading-relaxed whitespace-pre-wrap"
+      >
+        {segments.map((segment) => {
+          if (segment.annotationIds.length === 0) {
+            return <span key={segment.start} data-start={segment.start}>{segment.text}</span>;
+          }
+          // Colour overlapping ranges by the narrowest annotation; it's the most specific comment
+          const covering = segment.annotationIds
+            .map((id) => byId.get(id)!)
+            .sort((a, b) => a.length - b.length);
+          const top = covering[0];
+          const isActive = segment.annotationIds.includes(activeId || '');
+          return (
+            <span
+              key={segment.start}
+              data-start={segment.start}
+              onClick={() => focusAnnotation(top.id, 'margin')}
+              title={covering.map((a) => a.comment).join('\n')}
+              className={`${TYPE_STYLES[top.type].highlight} cursor-pointer ${
+                isActive ? 'ring-2 ring-blue-500' : ''
+              } ${covering.length > 1 ? 'font-medium' : ''}`}
+            >
+              {segment.text}
+            </span>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        {selection && (
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+            <p className="text-xs text-gray-600 mb-2 line-clamp-3">
+              <span className="font-semibold">New comment on:</span> “{selection.quote}”
+            </p>
+            {renderDraftForm()}
+          </div>
+        )}
+
+        {isLoading && essayId ? (
+          <p className="text-sm text-gray-500">Loading comments...</p>
+        ) : annotations.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {editable ? 'No comments yet. Select text in the essay to add one.' : 'No comments on this essay.'}
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-[32rem] overflow-y-auto pr-1">
+            {annotations.map((annotation) => (
+              <li
+                key={annotation.id}
+                ref={(el) => {
+                  if (el) cardRefs.current.set(annotation.id, el);
+                  else cardRefs.current.delete(annotation.id);
+                }}
+                onClick={() => focusAnnotation(annotation.id, 'essay')}
+                className={`bg-white border rounded-lg p-3 text-sm cursor-pointer transition-shadow ${
+                  activeId === annotation.id ? 'border-blue-500 shadow-md' : 'border-gray-200 hover:shadow-sm'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <span className={`px-2 py-0.5 rounded text-xs font-medium ${TYPE_STYLES[annotation.type].badge}`}>
+                    {ANNOTATION_TYPE_LABELS[annotation.type]}
+                  </span>
+                  {annotation.ao && <span className="text-xs font-semibold text-gray-600">{annotation.ao}</span>}
+                  {annotation.source === 'ai' && <span className="text-xs text-gray-400">AI</span>}
+                </div>
+                <p className="text-xs text-gray-500 italic mb-1 line-clamp-2">“{annotation.quote}”</p>
+                {editingId === annotation.id ? (
+                  <div onClick={(e) => e.stopPropagation()}>{renderDraftForm()}</div>
+                ) : (
+                  <>
+                    <p className="text-gray-700 whitespace-pre-line">{annotation.comment}</p>
+                    {editable && (
+                      <div className="flex gap-3 mt-2 text-xs">
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            startEdit(annotation);
+                          }}
+                          className="text-blue-600 hover:underline"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(annotation.id);
+                          }}
+                          className="text-red-600 hover:underline"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,500 @@
+import { useEffect, useMemo, useState } from 'react';
+import notify from '../utils/notify';
+import { ModerationReport } from './ModerationReport';
+import { ReliabilityDashboard } from './ReliabilityDashboard';
+import {
+  CALIBRATION_PHASE_LABELS,
+  criteriaMaxTotal,
+  emptyScores,
+  inviteCalibrationMarker,
+  loadCalibrationEssays,
+  loadCalibrationMarks,
+  loadCalibrationMembers,
+  levelFor,
+  loadModeratedMarks,
+  memberLabel,
+  removeCalibrationMarker,
+  respondToCalibrationInvite,
+  saveModeratedMark,
+  scoreTotal,
+  setCalibrationPhase,
+  setLeadMarker,
+  submitCalibrationMark,
+  validateScores,
+  type CalibrationCriterion,
+  type CalibrationEssay,
+  type CalibrationMark,
+  type CalibrationMember,
+  type CalibrationSession,
+  type CriterionScores,
+  type ModeratedMark,
+} from '../utils/calibration';
+
+interface CalibrationSessionPanelProps {
+  session: CalibrationSession;
+  userId: string;
+  /** Reload the session list after a phase, lead or membership change */
+  onSessionChanged: () => void;
+}
+
+function ScoreInputs({
+  criteria,
+  value,
+  onChange,
+  label,
+}: {
+  criteria: CalibrationCriterion[];
+  value: CriterionScores;
+  onChange: (scores: CriterionScores) => void;
+  label: string;
+}) {
+  return (
+    <div className="space-y-3 mb-3">
+      {criteria.map((c) => {
+        const score = value[c.key] ?? 0;
+        const outOfRange = score < 0 || score > c.maxPoints;
+        const level = levelFor(c, score);
+        return (
+          <div key={c.key} className="grid grid-cols-[8rem_1fr] gap-3 items-start">
+            <div className="flex flex-col">
+              <label className="text-xs font-semibold">{c.name}</label>
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={0}
+                  max={c.maxPoints}
+                  value={score}
+                  onChange={(e) => onChange({ ...value, [c.key]: Number(e.target.value) })}
+                  className={`border p-1 rounded text-sm w-16 ${outOfRange ? 'border-red-500' : ''}`}
+                  aria-label={`${label} ${c.name}`}
+                  aria-invalid={outOfRange}
+                  placeholder="0"
+                />
+                <span className="text-xs text-gray-600">/ {c.maxPoints}</span>
+              </div>
+              {outOfRange && <span className="text-xs text-red-600">0–{c.maxPoints} only</span>}
+            </div>
+            <div className="text-xs text-gray-700">
+              {c.levels.length > 0 ? (
+                <>
+                  <div className={level ? '' : 'text-gray-500'}>
+                    {level ? <><span className="font-semibold">Level {level.level} ({level.minMarks}–{level.maxMarks}):</span> {level.descriptor}</> : 'No level covers this mark'}
+                  </div>
+                  <details className="mt-1">
+                    <summary className="cursor-pointer text-gray-500">All levels</summary>
+                    <ul className="mt-1 space-y-1">
+                      {[...c.levels].sort((x, y) => y.level - x.level).map((l) => (
+                        <li key={l.level} className={level?.level === l.level ? 'bg-indigo-50 rounded px-1' : 'px-1'}>
+                          <span className="font-semibold">Level {l.level} ({l.minMarks}–{l.maxMarks}):</span> {l.descriptor}
+                        </li>
+                      ))}
+                    </ul>
+                  </details>
+                </>
+              ) : (
+                c.description && <span className="text-gray-500">{c.description}</span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function ScoreSummary({ criteria, scores }: { criteria: CalibrationCriterion[]; scores: CriterionScores }) {
+  return (
+    <div className="grid grid-cols-2 gap-x-4 gap-y-1 mb-1">
+      {criteria.map((c) => (
+        <div key={c.key}>
+          <span className="font-semibold text-xs">{c.name}</span> {scores[c.key] ?? '—'}/{c.maxPoints}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function CalibrationSessionPanel({ session, userId, onSessionChanged }: CalibrationSessionPanelProps) {
+  const [members, setMembers] = useState<CalibrationMember[]>([]);
+  const [essays, setEssays] = useState<CalibrationEssay[]>([]);
+  const [marks, setMarks] = useState<CalibrationMark[]>([]);
+  const [moderated, setModerated] = useState<ModeratedMark[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [currentEssayId, setCurrentEssayId] = useState('');
+  const criteria = session.criteria;
+  const [scores, setScores] = useState<CriterionScores>(() => emptyScores(criteria));
+  const [notes, setNotes] = useState('');
+  const [agreedScores, setAgreedScores] = useState<CriterionScores>(() => emptyScores(criteria));
+  const [agreedNotes, setAgreedNotes] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+
+  const isCreator = session.created_by === userId;
+  const isLead = session.lead_marker_id === userId;
+  const canRun = isCreator || isLead;
+  const phase = session.status;
+
+  const loadSession = async () => {
+    try {
+      const [memberRows, essayRows, markRows, moderatedRows] = await Promise.all([
+        loadCalibrationMembers(session.id),
+        loadCalibrationEssays(session.id),
+        loadCalibrationMarks(session.id),
+        loadModeratedMarks(session.id),
+      ]);
+      setMembers(memberRows);
+      setEssays(essayRows);
+      setMarks(markRows);
+      setModerated(moderatedRows);
+      setCurrentEssayId((prev) => prev || essayRows[0]?.essay_id || '');
+    } catch (err: any) {
+      console.error('❌ Failed to load calibration session:', err);
+      notify.error(err.message || 'Failed to load session');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    setCurrentEssayId('');
+    loadSession();
+  }, [session.id, session.status, session.lead_marker_id]);
+
+  const essayMarks = useMemo(() => marks.filter((m) => m.essay_id === currentEssayId), [marks, currentEssayId]);
+  const myMark = essayMarks.find((m) => m.marker_id === userId);
+  const currentModerated = moderated.find((m) => m.essay_id === currentEssayId);
+  const memberById = useMemo(() => new Map(members.map((m) => [m.user_id, m])), [members]);
+  const acceptedCount = members.filter((m) => m.status === 'accepted').length;
+
+  // Start the agreed mark from what was already recorded, else from the lead's own mark
+  useEffect(() => {
+    const leadMark = essayMarks.find((m) => m.marker_id === session.lead_marker_id);
+    setAgreedScores(currentModerated?.scores ?? leadMark?.scores ?? emptyScores(criteria));
+    setAgreedNotes(currentModerated?.notes ?? '');
+  }, [currentEssayId, currentModerated, essayMarks, session.lead_marker_id, criteria]);
+
+  const openEssay = (essayId: string) => {
+    setCurrentEssayId(essayId);
+    setScores(emptyScores(criteria));
+    setNotes('');
+  };
+
+  const runAction = async (action: () => Promise<void>, success: string, reloadList = false) => {
+    setBusy(true);
+    try {
+      await action();
+      notify.success(success);
+      if (reloadList) onSessionChanged();
+      await loadSession();
+    } catch (err: any) {
+      console.error('❌ Calibration action failed:', err);
+      notify.error(err.message || 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!inviteEmail.trim()) return notify.error('Enter a colleague’s email');
+    await runAction(() => inviteCalibrationMarker(session.id, inviteEmail), 'Invitation sent');
+    setInviteEmail('');
+  };
+
+  const handleSubmitMark = () => {
+    if (!currentEssayId) return;
+    const problem = validateScores(criteria, scores);
+    if (problem) return notify.error(problem);
+    if (!window.confirm('Submit this mark? Marks are final once submitted, and you’ll then see other markers’ marks for this essay.')) return;
+    runAction(() => submitCalibrationMark(session.id, currentEssayId, userId, scores, notes), 'Mark submitted');
+  };
+
+  const handleReveal = () => {
+    const outstanding = members.filter((m) => m.status === 'accepted' && m.submitted_count < essays.length);
+    const warning = outstanding.length
+      ? `\n\n${outstanding.length} marker(s) haven’t marked every essay yet and won’t be able to after the reveal.`
+      : '';
+    if (!window.confirm(`Reveal all marks to every marker?${warning}`)) return;
+    runAction(() => setCalibrationPhase(session.id, 'revealed'), 'Marks revealed', true);
+  };
+
+  const handleClose = () => {
+    if (!window.confirm('Close this session? Moderated marks can’t be changed afterwards.')) return;
+    runAction(() => setCalibrationPhase(session.id, 'closed'), 'Session closed', true);
+  };
+
+  const handleLeave = () => {
+    if (!window.confirm('Leave this calibration session? Marks you’ve submitted stay in the session.')) return;
+    runAction(() => respondToCalibrationInvite(session.id, false), 'You left the session', true);
+  };
+
+  const handleRemove = (member: CalibrationMember) => {
+    if (!window.confirm(`Remove ${memberLabel(member)} from this session?`)) return;
+    runAction(() => removeCalibrationMarker(session.id, member.user_id), 'Marker removed');
+  };
+
+  const stats = useMemo(() => {
+    if (essayMarks.length === 0) return null;
+    const result: Record<string, { avg: number; sd: number; values: number[] }> = {};
+    criteria.forEach((c) => {
+      const vals = essayMarks.map((m) => Number(m.scores[c.key]) || 0);
+      const avg = vals.reduce((a, b) => a + b, 0) / vals.length;
+      const variance = vals.reduce((a, b) => a + Math.pow(b - avg, 2), 0) / vals.length;
+      result[c.name] = { avg, sd: Math.sqrt(variance), values: vals };
+    });
+    return result;
+  }, [essayMarks, criteria]);
+
+  if (loading) {
+    return <div className="border rounded p-4 bg-white mb-6 text-sm text-gray-500">Loading session…</div>;
+  }
+
+  const currentEssay = essays.find((e) => e.essay_id === currentEssayId);
+  const othersVisible = phase !== 'marking' || !!myMark;
+
+  return (
+    <div className="space-y-6 mb-6">
+      <div className="border rounded p-4 bg-white">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 mb-4">
+          <div>
+            <h3 className="font-semibold">{session.name}</h3>
+            <div className="text-xs text-gray-600">
+              {CALIBRATION_PHASE_LABELS[phase]} • Lead: {memberLabel(memberById.get(session.lead_marker_id || ''))} • {essays.length} essays
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {canRun && phase === 'marking' && (
+              <button disabled={busy} onClick={handleReveal} className="px-3 py-1.5 rounded bg-brand-600 text-white text-sm hover:bg-brand-700 disabled:opacity-50">
+                Reveal marks
+              </button>
+            )}
+            {canRun && phase === 'revealed' && (
+              <button disabled={busy} onClick={handleClose} className="px-3 py-1.5 rounded border border-gray-300 text-sm hover:bg-gray-50 disabled:opacity-50">
+                Close session
+              </button>
+            )}
+            {!isCreator && !isLead && (
+              <button disabled={busy} onClick={handleLeave} className="px-3 py-1.5 rounded border border-red-300 text-red-700 text-sm hover:bg-red-50 disabled:opacity-50">
+                Leave session
+              </button>
+            )}
+          </div>
+        </div>
+
+        <h4 className="font-medium text-sm mb-2">Markers ({acceptedCount} joined)</h4>
+        <ul className="divide-y border rounded text-sm mb-3">
+          {members.map((member) => (
+            <li key={member.user_id} className="flex flex-wrap items-center justify-between gap-2 p-2">
+              <div>
+                <span className="font-medium">{memberLabel(member)}</span>
+                {member.user_id === userId && <span className="text-gray-500"> (you)</span>}
+                {member.is_lead && <span className="ml-2 text-xs bg-indigo-100 text-indigo-800 px-2 py-0.5 rounded">Lead</span>}
+                {member.status !== 'accepted' && (
+                  <span className="ml-2 text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded capitalize">{member.status}</span>
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-xs">
+                {member.status === 'accepted' && (
+                  <span className="text-gray-600">{member.submitted_count}/{essays.length} marked</span>
+                )}
+                {isCreator && member.status === 'accepted' && !member.is_lead && phase !== 'closed' && (
+                  <button disabled={busy} onClick={() => runAction(() => setLeadMarker(session.id, member.user_id), 'Lead marker changed', true)} className="text-indigo-600 hover:underline">
+                    Make lead
+                  </button>
+                )}
+                {isCreator && member.user_id !== userId && !member.is_lead && (
+                  <button disabled={busy} onClick={() => handleRemove(member)} className="text-red-600 hover:underline">
+                    Remove
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+        {canRun && phase === 'marking' && (
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="email"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+              placeholder="colleague@school.org"
+              aria-label="Invite marker by email"
+              className="border p-2 rounded text-sm flex-1"
+            />
+            <button disabled={busy} onClick={handleInvite} className="bg-blue-600 text-white px-4 py-2 rounded text-sm disabled:opacity-50">
+              Invite marker
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="border rounded p-4 bg-white">
+        <h3 className="font-semibold mb-3">Mark Essays</h3>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {essays.map((essay) => {
+            const marked = marks.some((m) => m.essay_id === essay.essay_id && m.marker_id === userId);
+            return (
+              <button
+                key={essay.essay_id}
+                onClick={() => openEssay(essay.essay_id)}
+                className={`px-3 py-1 rounded text-sm border ${currentEssayId === essay.essay_id ? 'bg-indigo-600 text-white' : 'bg-gray-50 hover:bg-gray-100'}`}
+              >
+                {marked ? '✓ ' : ''}{essay.title}
+              </button>
+            );
+          })}
+        </div>
+        {essays.length === 0 && <p className="text-gray-500 text-sm">This session has no essays.</p>}
+        {currentEssay && (
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="border rounded p-3 bg-gray-50">
+                <h4 className="font-medium mb-2">Essay Content</h4>
+                <div className="text-sm whitespace-pre-wrap max-h-72 overflow-y-auto">{currentEssay.content}</div>
+              </div>
+              <div className="border rounded p-3 bg-gray-50">
+                <h4 className="font-medium mb-2">Your Mark</h4>
+                {myMark ? (
+                  <div className="text-sm">
+                    <ScoreSummary criteria={criteria} scores={myMark.scores} />
+                    <div className="text-xs text-gray-600">Total {scoreTotal(myMark.scores)}/{criteriaMaxTotal(criteria)} • submitted {new Date(myMark.created_at).toLocaleString()}</div>
+                    {myMark.notes && <p className="text-xs mt-1 whitespace-pre-wrap">{myMark.notes}</p>}
+                  </div>
+                ) : phase === 'marking' ? (
+                  <>
+                    <ScoreInputs criteria={criteria} value={scores} onChange={setScores} label="Score" />
+                    <textarea
+                      value={notes}
+                      onChange={(e) => setNotes(e.target.value)}
+                      rows={2}
+                      placeholder="Notes for the moderation discussion (optional)"
+                      aria-label="Marking notes"
+                      className="border p-1 rounded text-sm w-full mb-2"
+                    />
+                    <button disabled={busy} onClick={handleSubmitMark} className="bg-green-600 text-white px-3 py-1 rounded text-sm disabled:opacity-50">
+                      Submit Mark
+                    </button>
+                  </>
+                ) : (
+                  <p className="text-xs text-gray-500">You didn’t mark this essay before the reveal.</p>
+                )}
+              </div>
+            </div>
+            <div className="space-y-4">
+              <div className="border rounded p-3 bg-gray-50">
+                <h4 className="font-medium mb-2">Marks (This Essay)</h4>
+                {!othersVisible && (
+                  <p className="text-xs text-gray-500">Blind marking: other markers’ marks appear once you submit yours.</p>
+                )}
+                {othersVisible && essayMarks.length === 0 && <p className="text-xs text-gray-500">No marks yet.</p>}
+                {othersVisible && essayMarks.length > 0 && (
+                  <table className="w-full text-xs border">
+                    <thead>
+                      <tr className="bg-white">
+                        <th className="border p-1">Marker</th>
+                        {criteria.map((c) => <th key={c.key} className="border p-1">{c.name}</th>)}
+                        <th className="border p-1">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {essayMarks.map((m) => (
+                        <tr key={m.id} className="odd:bg-white even:bg-gray-100" title={m.notes || undefined}>
+                          <td className="border p-1">
+                            {memberLabel(memberById.get(m.marker_id))}
+                            {m.marker_id === session.lead_marker_id ? ' (lead)' : ''}
+                          </td>
+                          {criteria.map((c) => <td key={c.key} className="border p-1">{m.scores[c.key] ?? '—'}</td>)}
+                          <td className="border p-1 font-medium">{scoreTotal(m.scores)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+              {othersVisible && (
+                <div className="border rounded p-3 bg-gray-50">
+                  <h4 className="font-medium mb-2">Agreement Stats</h4>
+                  {!stats && <p className="text-xs text-gray-500">No data yet.</p>}
+                  {stats && (
+                    <div className="grid grid-cols-2 gap-2 text-xs">
+                      {Object.entries(stats).map(([name, obj]) => (
+                        <div key={name} className="p-2 bg-white rounded border">
+                          <div className="font-semibold">{name}</div>
+                          <div>Avg: {obj.avg.toFixed(1)}</div>
+                          <div>SD: {obj.sd.toFixed(2)}</div>
+                          <div className="text-gray-500">n={obj.values.length}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              {phase !== 'marking' && (
+                <div className="border rounded p-3 bg-gray-50">
+                  <h4 className="font-medium mb-2">Moderated Mark</h4>
+                  {isLead && phase === 'revealed' ? (
+                    <>
+                      <ScoreInputs criteria={criteria} value={agreedScores} onChange={setAgreedScores} label="Moderated" />
+                      <textarea
+                        value={agreedNotes}
+                        onChange={(e) => setAgreedNotes(e.target.value)}
+                        rows={2}
+                        placeholder="Rationale agreed in the discussion"
+                        aria-label="Moderation notes"
+                        className="border p-1 rounded text-sm w-full mb-2"
+                      />
+                      <button
+                        disabled={busy}
+                        onClick={() => {
+                          const problem = validateScores(criteria, agreedScores);
+                          if (problem) return notify.error(problem);
+                          runAction(() => saveModeratedMark(session.id, currentEssayId, userId, agreedScores, agreedNotes), 'Moderated mark saved');
+                        }}
+                        className="bg-green-600 text-white px-3 py-1 rounded text-sm disabled:opacity-50"
+                      >
+                        {currentModerated ? 'Update Moderated Mark' : 'Record Moderated Mark'}
+                      </button>
+                    </>
+                  ) : currentModerated ? (
+                    <div className="text-sm">
+                      <ScoreSummary criteria={criteria} scores={currentModerated.scores} />
+                      <div className="text-xs text-gray-600">Total {scoreTotal(currentModerated.scores)}/{criteriaMaxTotal(criteria)} • agreed {new Date(currentModerated.agreed_at).toLocaleString()}</div>
+                      {currentModerated.notes && <p className="text-xs mt-1 whitespace-pre-wrap">{currentModerated.notes}</p>}
+                    </div>
+                  ) : (
+                    <p className="text-xs text-gray-500">The lead marker hasn’t recorded an agreed mark yet.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {phase !== 'marking' && (
+        <>
+          <ModerationReport
+            sessionName={session.name}
+            criteria={criteria}
+            essays={essays}
+            members={members}
+            marks={marks}
+            moderated={moderated}
+            leadId={session.lead_marker_id}
+          />
+          <ReliabilityDashboard
+            sessionId={session.id}
+            sessionName={session.name}
+            criteria={criteria}
+            essays={essays}
+            members={members}
+            marks={marks}
+            moderated={moderated}
+            leadId={session.lead_marker_id}
+          />
+        </>
+      )}
+    </div>
+  );
+}
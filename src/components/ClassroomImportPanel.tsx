@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import notify from '../utils/notify';
+import {
+  classroomCommentFor,
+  importClassroomSubmissions,
+  listClassroomCourses,
+  listClassroomCourseWork,
+  loadClassroomConnection,
+  loadClassroomImports,
+  pushClassroomGrades,
+  type ClassroomCourse,
+  type ClassroomCourseWork,
+  type ClassroomImport,
+} from '../utils/googleClassroom';
+
+interface ClassroomImportPanelProps {
+  rubrics: Array<{ id: string; name: string; subject: string }>;
+  onImported: (jobId: string) => void;
+}
+
+/**
+ * Import an assignment's turned-in work from Google Classroom as a batch, then send the marks
+ * back as draft grades once the batch has finished.
+ */
+export const ClassroomImportPanel = ({ rubrics, onImported }: ClassroomImportPanelProps) => {
+  const { user } = useAuth();
+  const [connected, setConnected] = useState<boolean | null>(null);
+  const [courses, setCourses] = useState<ClassroomCourse[]>([]);
+  const [courseId, setCourseId] = useState('');
+  const [courseWork, setCourseWork] = useState<ClassroomCourseWork[]>([]);
+  const [courseWorkId, setCourseWorkId] = useState('');
+  const [rubricId, setRubricId] = useState('');
+  const [aiPreMark, setAiPreMark] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [imports, setImports] = useState<ClassroomImport[]>([]);
+  const [pushingKey, setPushingKey] = useState<string | null>(null);
+
+  const refreshImports = useCallback(async () => {
+    if (!user) return;
+    try {
+      setImports(await loadClassroomImports(user.id));
+    } catch (error) {
+      console.error('❌ Failed to load Google Classroom imports:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+    let mounted = true;
+    (async () => {
+      try {
+        const connection = await loadClassroomConnection(user.id);
+        if (!mounted) return;
+        setConnected(!!connection);
+        if (connection) {
+          const available = await listClassroomCourses();
+          if (mounted) setCourses(available);
+        }
+      } catch (error: any) {
+        console.error('❌ Failed to load Google Classroom courses:', error);
+        if (mounted) notify.error(error.message || 'Failed to load Google Classroom courses');
+      }
+    })();
+    refreshImports();
+    return () => { mounted = false; };
+  }, [user, refreshImports]);
+
+  useEffect(() => {
+    setCourseWork([]);
+    setCourseWorkId('');
+    if (!courseId) return;
+    let mounted = true;
+    listClassroomCourseWork(courseId)
+      .then((work) => { if (mounted) setCourseWork(work); })
+      .catch((error) => {
+        console.error('❌ Failed to load Google Classroom assignments:', error);
+        notify.error(error.message || 'Failed to load assignments');
+      });
+    return () => { mounted = false; };
+  }, [courseId]);
+
+  const handleImport = async () => {
+    if (!courseId || !courseWorkId || !rubricId) {
+      notify.error('Choose a course, an assignment and a rubric');
+      return;
+    }
+    setImporting(true);
+    try {
+      const result = await importClassroomSubmissions({ courseId, courseWorkId, rubricId, aiPreMark });
+      if (result.skipped.length > 0) {
+        const reasons = result.skipped.map((s) => `${s.student}: ${s.reason}`).join('\n');
+        console.warn('⚠️ Skipped Google Classroom submissions:\n' + reasons);
+      }
+      if (!result.jobId) {
+        notify.info(
+          result.skipped.length > 0
+            ? `Nothing new to import (${result.skipped.length} skipped)`
+            : 'No turned-in work for this assignment yet'
+        );
+        return;
+      }
+      notify.success(
+        `Queued ${result.queued} submission${result.queued === 1 ? '' : 's'}` +
+        (result.skipped.length > 0 ? ` · ${result.skipped.length} skipped` : '')
+      );
+      refreshImports();
+      onImported(result.jobId);
+    } catch (error: any) {
+      console.error('❌ Google Classroom import failed:', error);
+      notify.error(error.message || 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handlePush = async (entry: ClassroomImport) => {
+    const key = `${entry.course_id}/${entry.coursework_id}`;
+    setPushingKey(key);
+    try {
+      const result = await pushClassroomGrades(entry.course_id, entry.coursework_id);
+      const parts = [`${result.pushed} draft grade${result.pushed === 1 ? '' : 's'} sent`];
+      if (result.notMarked > 0) parts.push(`${result.notMarked} not marked yet`);
+      if (result.failed > 0) parts.push(`${result.failed} failed`);
+      if (result.failed > 0) notify.error(parts.join(' · '));
+      else notify.success(parts.join(' · '));
+      refreshImports();
+    } catch (error: any) {
+      console.error('❌ Draft grade push failed:', error);
+      notify.error(error.message || 'Failed to send grades');
+    } finally {
+      setPushingKey(null);
+    }
+  };
+
+  const handleCopyComment = async (essayId: string) => {
+    try {
+      await navigator.clipboard.writeText(await classroomCommentFor(essayId));
+      notify.success('Comment copied. Paste it into the private comments in Classroom.');
+    } catch (error: any) {
+      console.error('❌ Failed to copy comment:', error);
+      notify.error(error.message || 'Failed to copy comment');
+    }
+  };
+
+  if (connected === false) {
+    return (
+      <div className="bg-white rounded-lg shadow-md p-6 mb-6 text-sm text-gray-700">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Import from Google Classroom</h3>
+        <Link to="/account" className="text-blue-600 hover:text-blue-800 underline">Connect Google Classroom</Link>{' '}
+        in Account Settings to import turned-in work and send grades back.
+      </div>
+    );
+  }
+  if (connected === null) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Import from Google Classroom</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <select
+          aria-label="Google Classroom course"
+          value={courseId}
+          onChange={(e) => setCourseId(e.target.value)}
+          className="border border-gray-300 rounded-lg p-2"
+        >
+          <option value="">Choose a course...</option>
+          {courses.map((c) => (
+            <option key={c.id} value={c.id}>{c.name}{c.section ? ` (${c.section})` : ''}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Google Classroom assignment"
+          value={courseWorkId}
+          onChange={(e) => setCourseWorkId(e.target.value)}
+          disabled={!courseId}
+          className="border border-gray-300 rounded-lg p-2 disabled:bg-gray-100"
+        >
+          <option value="">Choose an assignment...</option>
+          {courseWork.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.title}{w.maxPoints ? ` (${w.maxPoints} pts)` : ' (ungraded)'}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Rubric for imported submissions"
+          value={rubricId}
+          onChange={(e) => setRubricId(e.target.value)}
+          className="border border-gray-300 rounded-lg p-2"
+        >
+          <option value="">Choose a rubric...</option>
+          {rubrics.map((r) => (
+            <option key={r.id} value={r.id}>{r.name} ({r.subject})</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <label className="flex items-center cursor-pointer text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={aiPreMark}
+            onChange={(e) => setAiPreMark(e.target.checked)}
+            className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+          />
+          <span className="ml-2">AI pre-mark imported essays</span>
+        </label>
+        <button
+          onClick={handleImport}
+          disabled={importing || !courseWorkId || !rubricId}
+          className="bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {importing ? 'Importing...' : 'Import Submissions'}
+        </button>
+      </div>
+
+      {imports.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-gray-200 space-y-3">
+          <h4 className="font-semibold text-gray-900">Imported assignments</h4>
+          {imports.map((entry) => {
+            const key = `${entry.course_id}/${entry.coursework_id}`;
+            const marked = entry.submissions.filter((s) => s.item_status === 'completed').length;
+            const pushed = entry.submissions.filter((s) => s.grade_pushed_at).length;
+            return (
+              <details key={key} className="border border-gray-200 rounded-lg">
+                <summary className="p-3 cursor-pointer flex flex-col sm:flex-row sm:items-center gap-2">
+                  <span className="flex-1 font-medium text-gray-900">{entry.coursework_title}</span>
+                  <span className="text-sm text-gray-500">
+                    {marked}/{entry.submissions.length} marked · {pushed} grades sent
+                  </span>
+                  <button
+                    onClick={(e) => { e.preventDefault(); handlePush(entry); }}
+                    disabled={pushingKey === key || marked === 0 || !entry.max_points}
+                    title={!entry.max_points ? 'This assignment is ungraded in Classroom' : undefined}
+                    className="bg-blue-600 text-white px-3 py-1.5 rounded-lg hover:bg-blue-700 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {pushingKey === key ? 'Sending...' : 'Send Draft Grades'}
+                  </button>
+                </summary>
+                <table className="w-full text-sm border-t">
+                  <thead>
+                    <tr className="bg-gray-50 text-left">
+                      <th className="p-2">Student</th>
+                      <th className="p-2">Status</th>
+                      <th className="p-2">Draft grade</th>
+                      <th className="p-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {entry.submissions.map((s) => (
+                      <tr key={s.id} className="align-top">
+                        <td className="p-2 text-gray-900">{s.student_name || 'Unknown student'}</td>
+                        <td className="p-2 text-gray-600">{s.item_status ?? 'removed'}</td>
+                        <td className="p-2">
+                          {s.push_error ? (
+                            <span className="text-red-600">{s.push_error}</span>
+                          ) : s.draft_grade !== null ? (
+                            <span className="text-gray-900">{s.draft_grade}/{entry.max_points}</span>
+                          ) : (
+                            <span className="text-gray-400">Not sent</span>
+                          )}
+                        </td>
+                        <td className="p-2 text-right">
+                          {s.essay_id && (
+                            <button
+                              onClick={() => handleCopyComment(s.essay_id!)}
+                              className="text-blue-600 hover:text-blue-800 font-medium"
+                            >
+                              Copy comment
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </details>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
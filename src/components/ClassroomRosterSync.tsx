@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import notify from '../utils/notify';
+import {
+  listClassroomCourses,
+  loadClassroomConnection,
+  loadCourseMappings,
+  syncClassroomRosters,
+  type ClassroomCourse,
+} from '../utils/googleClassroom';
+
+interface ClassroomRosterSyncProps {
+  onClose: () => void;
+  onSynced: () => void;
+}
+
+interface CourseRow extends ClassroomCourse {
+  selected: boolean;
+  classSection: string;
+  lastSyncedAt: string | null;
+}
+
+/**
+ * Pick Google Classroom courses, map each to a class section and pull their rosters into Students.
+ */
+export const ClassroomRosterSync = ({ onClose, onSynced }: ClassroomRosterSyncProps) => {
+  const { user } = useAuth();
+  const [connected, setConnected] = useState<boolean | null>(null);
+  const [courses, setCourses] = useState<CourseRow[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    let mounted = true;
+    (async () => {
+      try {
+        const connection = await loadClassroomConnection(user.id);
+        if (!mounted) return;
+        setConnected(!!connection);
+        if (!connection) return;
+
+        const [available, mappings] = await Promise.all([listClassroomCourses(), loadCourseMappings(user.id)]);
+        if (!mounted) return;
+        const byCourse = new Map(mappings.map((m) => [m.course_id, m]));
+        setCourses(available.map((course) => {
+          const mapping = byCourse.get(course.id);
+          return {
+            ...course,
+            // Courses synced before stay selected with their chosen section
+            selected: !!mapping,
+            classSection: mapping?.class_section || course.section || course.name,
+            lastSyncedAt: mapping?.last_roster_sync_at ?? null,
+          };
+        }));
+      } catch (error: any) {
+        console.error('❌ Failed to load Google Classroom courses:', error);
+        if (mounted) setLoadError(error.message || 'Failed to load courses');
+      }
+    })();
+    return () => { mounted = false; };
+  }, [user]);
+
+  const updateCourse = (id: string, changes: Partial<CourseRow>) => {
+    setCourses((prev) => prev.map((c) => (c.id === id ? { ...c, ...changes } : c)));
+  };
+
+  const handleSync = async () => {
+    const selected = courses.filter((c) => c.selected);
+    if (selected.length === 0) {
+      notify.error('Choose at least one course');
+      return;
+    }
+    setSyncing(true);
+    try {
+      const result = await syncClassroomRosters(
+        selected.map((c) => ({ courseId: c.id, classSection: c.classSection.trim() }))
+      );
+      notify.success(
+        `Synced ${result.courses} course${result.courses === 1 ? '' : 's'}: ${result.created} new, ${result.updated} updated students`
+      );
+      onSynced();
+      onClose();
+    } catch (error: any) {
+      console.error('❌ Roster sync failed:', error);
+      notify.error(error.message || 'Roster sync failed');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="roster-sync-title" className="fixed inset-0 bg-black/40 flex items-start sm:items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl overflow-hidden">
+        <div className="px-4 py-3 border-b flex justify-between items-center">
+          <h4 id="roster-sync-title" className="font-semibold text-lg">Sync from Google Classroom</h4>
+          <button onClick={onClose} aria-label="Close roster sync" className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="p-4 max-h-[70vh] overflow-y-auto space-y-4">
+          {connected === null && !loadError && <p className="text-sm text-gray-500">Loading courses...</p>}
+          {loadError && <p className="text-sm text-red-600">{loadError}</p>}
+          {connected === false && (
+            <p className="text-sm text-gray-700">
+              Google Classroom isn't connected yet.{' '}
+              <Link to="/account" className="text-blue-600 hover:text-blue-800 underline">Connect it in Account Settings</Link>{' '}
+              and come back to sync your classes.
+            </p>
+          )}
+          {connected && !loadError && courses.length === 0 && (
+            <p className="text-sm text-gray-500">No active courses where you're a teacher.</p>
+          )}
+
+          {courses.length > 0 && (
+            <>
+              <p className="text-sm text-gray-600">
+                Students are matched by their Classroom account, or by email if you added them before connecting.
+                Names, emails and class sections are updated on every sync; grades and notes are left alone.
+              </p>
+              <table className="w-full text-sm border">
+                <thead>
+                  <tr className="bg-gray-100 text-left">
+                    <th className="p-2 border w-10"></th>
+                    <th className="p-2 border">Course</th>
+                    <th className="p-2 border w-48">Class section</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {courses.map((course) => (
+                    <tr key={course.id}>
+                      <td className="p-2 border text-center">
+                        <input
+                          type="checkbox"
+                          checked={course.selected}
+                          onChange={(e) => updateCourse(course.id, { selected: e.target.checked })}
+                          aria-label={`Sync ${course.name}`}
+                        />
+                      </td>
+                      <td className="p-2 border">
+                        <div className="font-medium text-gray-900">{course.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {course.section && `${course.section} · `}
+                          {course.lastSyncedAt ? `Last synced ${new Date(course.lastSyncedAt).toLocaleString()}` : 'Never synced'}
+                        </div>
+                      </td>
+                      <td className="p-2 border">
+                        <input
+                          value={course.classSection}
+                          onChange={(e) => updateCourse(course.id, { classSection: e.target.value })}
+                          className="border rounded p-1 w-full"
+                          aria-label={`Class section for ${course.name}`}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button onClick={onClose} className="px-4 py-2 rounded border bg-white hover:bg-gray-50">Cancel</button>
+            <button
+              onClick={handleSync}
+              disabled={syncing || !connected || courses.length === 0}
+              className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {syncing ? 'Syncing...' : 'Sync Rosters'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { DELIVERY_STATUS_LABELS, loadDeliveries, type Delivery, type DeliveryStatus } from '../utils/deliveries';
+
+interface DeliveryHistoryProps {
+  essayId: string;
+  refreshKey?: number; // Bump after sending to reload
+}
+
+export const DELIVERY_STATUS_STYLES: Record<DeliveryStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  bounced: 'bg-amber-100 text-amber-800',
+};
+
+/**
+ * Every feedback email sent for an essay, newest first, with why it failed or bounced.
+ */
+export const DeliveryHistory = ({ essayId, refreshKey = 0 }: DeliveryHistoryProps) => {
+  const [deliveries, setDeliveries] = useState<Delivery[] | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    loadDeliveries(essayId)
+      .then((rows) => mounted && setDeliveries(rows))
+      .catch((error) => {
+        console.error('❌ Failed to load deliveries:', error);
+        if (mounted) setDeliveries([]);
+      });
+    return () => { mounted = false; };
+  }, [essayId, refreshKey]);
+
+  if (deliveries === null) return <p className="text-sm text-gray-500">Loading emails...</p>;
+  if (deliveries.length === 0) return <p className="text-sm text-gray-500">No feedback emails sent yet.</p>;
+
+  return (
+    <ul className="space-y-2 text-sm">
+      {deliveries.map((d) => (
+        <li key={d.id} className="flex flex-wrap items-start gap-2">
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${DELIVERY_STATUS_STYLES[d.status]}`}>
+            {DELIVERY_STATUS_LABELS[d.status]}
+          </span>
+          <span className="text-gray-700">
+            {d.recipient}
+            {d.cc.length > 0 && <span className="text-gray-500"> (cc {d.cc.join(', ')})</span>}
+          </span>
+          <span className="text-gray-500">{new Date(d.sent_at || d.created_at).toLocaleString()}</span>
+          {d.error && <span className="basis-full text-xs text-red-700">{d.error}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,204 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { formatCriterionPoints } from '../utils/rubricUtils';
+import { diffWords, type DiffPart } from '../utils/textDiff';
+import {
+  IMPROVEMENT_STATUS_LABELS,
+  compareCriterionScores,
+  loadSubmissionThread,
+  submissionThreadKey,
+  type SubmissionThread,
+  type ThreadDraft,
+} from '../utils/submissionThreads';
+import type { ImprovementStatus } from '../utils/openaiClient';
+
+interface DraftComparisonProps {
+  threadId: string;
+  essayId?: string; // Draft to compare against the one before it; defaults to the latest
+}
+
+const IMPROVEMENT_STATUS_STYLES: Record<ImprovementStatus, string> = {
+  addressed: 'bg-green-100 text-green-800',
+  partly_addressed: 'bg-amber-100 text-amber-800',
+  not_addressed: 'bg-gray-100 text-gray-700',
+};
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+const formatDelta = (n: number) => signed(Number.isInteger(n) ? n : Number(n.toFixed(1)));
+const deltaClass = (n: number) => (n > 0 ? 'text-green-700' : n < 0 ? 'text-red-700' : 'text-gray-500');
+
+function DraftText({ parts, side }: { parts: DiffPart[]; side: 'before' | 'after' }) {
+  const hidden = side === 'before' ? 'added' : 'removed';
+  return (
+    <p className="text-sm text-gray-800 whitespace-pre-wrap leading-relaxed">
+      {parts
+        .filter((part) => part.type !== hidden)
+        .map((part, idx) => (
+          <span
+            key={idx}
+            className={
+              part.type === 'added'
+                ? 'bg-green-100 text-green-900'
+                : part.type === 'removed'
+                  ? 'bg-red-100 text-red-900 line-through'
+                  : ''
+            }
+          >
+            {part.text}
+          </span>
+        ))}
+    </p>
+  );
+}
+
+const draftLabel = (draft: ThreadDraft) => `Draft ${draft.version} · ${new Date(draft.created_at).toLocaleDateString()}`;
+
+/**
+ * Two drafts in a submission thread side by side: the text changes, the score change per criterion,
+ * and whether the later draft acted on the earlier draft's areas for improvement.
+ */
+export const DraftComparison = ({ threadId, essayId }: DraftComparisonProps) => {
+  const { user } = useAuth();
+  const { data: thread, isLoading, error } = useQuery<SubmissionThread, Error>(
+    submissionThreadKey(threadId),
+    () => loadSubmissionThread(threadId),
+    { enabled: !!user, staleTime: 30_000, retry: 1 }
+  );
+  const [beforeId, setBeforeId] = useState<string>('');
+  const [afterId, setAfterId] = useState<string>('');
+
+  // Start with the requested draft (or the latest) against the one before it
+  useEffect(() => {
+    if (!thread || thread.drafts.length < 2) return;
+    const requested = essayId ? thread.drafts.findIndex((d) => d.id === essayId) : -1;
+    const afterIndex = requested === -1 ? thread.drafts.length - 1 : Math.max(1, requested);
+    setAfterId(thread.drafts[afterIndex].id);
+    setBeforeId(thread.drafts[afterIndex - 1].id);
+  }, [thread, essayId]);
+
+  const before = thread?.drafts.find((d) => d.id === beforeId);
+  const after = thread?.drafts.find((d) => d.id === afterId);
+  const parts = useMemo(() => (before && after ? diffWords(before.content, after.content) : []), [before, after]);
+
+  if (isLoading) return <p className="text-sm text-gray-500">Loading drafts...</p>;
+  if (error) return <p className="text-sm text-red-600">Couldn't load drafts: {error.message}</p>;
+  if (!thread || thread.drafts.length < 2) {
+    return <p className="text-sm text-gray-500">Only one draft so far. Mark a redraft to compare them.</p>;
+  }
+  if (!before || !after) return null;
+
+  const criteria = compareCriterionScores(before.feedback?.criteria_scores ?? [], after.feedback?.criteria_scores ?? []);
+  const scoreDelta = before.feedback && after.feedback ? after.feedback.overall_score - before.feedback.overall_score : null;
+  // Progress is judged against the draft immediately before, when the later draft was marked
+  const progress = after.version - before.version === 1 ? after.feedback?.addressed_improvements ?? [] : [];
+  const addressedCount = progress.filter((p) => p.status === 'addressed').length;
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label htmlFor="draft-before" className="text-gray-700">Compare</label>
+        <select
+          id="draft-before"
+          value={beforeId}
+          onChange={(e) => setBeforeId(e.target.value)}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          {thread.drafts.filter((d) => d.version < after.version).map((d) => (
+            <option key={d.id} value={d.id}>{draftLabel(d)}</option>
+          ))}
+        </select>
+        <label htmlFor="draft-after" className="text-gray-700">with</label>
+        <select
+          id="draft-after"
+          value={afterId}
+          onChange={(e) => {
+            const next = thread.drafts.find((d) => d.id === e.target.value);
+            setAfterId(e.target.value);
+            if (next && before.version >= next.version) {
+              setBeforeId(thread.drafts[thread.drafts.indexOf(next) - 1].id);
+            }
+          }}
+          className="border border-gray-300 rounded px-2 py-1"
+        >
+          {thread.drafts.slice(1).map((d) => (
+            <option key={d.id} value={d.id}>{draftLabel(d)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-4">
+        <div className="flex flex-wrap items-baseline gap-3 mb-3">
+          <h4 className="font-semibold text-gray-800">Scores</h4>
+          {scoreDelta !== null ? (
+            <span className="text-sm text-gray-700">
+              Overall {before.feedback!.overall_score}% → <span className="font-semibold">{after.feedback!.overall_score}%</span>{' '}
+              <span className={deltaClass(scoreDelta)}>({signed(scoreDelta)})</span>
+            </span>
+          ) : (
+            <span className="text-sm text-gray-500">Both drafts need feedback to compare scores.</span>
+          )}
+        </div>
+        {criteria.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-1 pr-3 font-medium">Criterion</th>
+                <th className="py-1 pr-3 font-medium">Draft {before.version}</th>
+                <th className="py-1 pr-3 font-medium">Draft {after.version}</th>
+                <th className="py-1 font-medium">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {criteria.map((c) => (
+                <tr key={c.criterion} className="border-b last:border-0">
+                  <td className="py-1 pr-3 text-gray-800">{c.criterion}</td>
+                  <td className="py-1 pr-3 text-gray-700">
+                    {c.before === null ? '–' : formatCriterionPoints({ points: c.before, max_points: c.max_points })}
+                  </td>
+                  <td className="py-1 pr-3 text-gray-700">
+                    {c.after === null ? '–' : formatCriterionPoints({ points: c.after, max_points: c.max_points })}
+                  </td>
+                  <td className={`py-1 font-medium ${c.delta === null ? 'text-gray-400' : deltaClass(c.delta)}`}>
+                    {c.delta === null ? '–' : formatDelta(c.delta)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {progress.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-800 mb-1">Advice from Draft {before.version}</h4>
+          <p className="text-xs text-gray-500 mb-3">
+            {addressedCount} of {progress.length} areas for improvement addressed in Draft {after.version}
+          </p>
+          <ul className="space-y-2 text-sm">
+            {progress.map((p, idx) => (
+              <li key={idx} className="flex flex-wrap items-start gap-2">
+                <span className={`px-2 py-0.5 rounded text-xs font-medium ${IMPROVEMENT_STATUS_STYLES[p.status]}`}>
+                  {IMPROVEMENT_STATUS_LABELS[p.status]}
+                </span>
+                <span className="flex-1 text-gray-800">{p.improvement}</span>
+                {p.evidence && <span className="basis-full text-xs text-gray-600 italic">{p.evidence}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-800 mb-2">Draft {before.version}</h4>
+          <DraftText parts={parts} side="before" />
+        </div>
+        <div className="bg-white border border-gray-200 rounded-lg p-4">
+          <h4 className="font-semibold text-gray-800 mb-2">Draft {after.version}</h4>
+          <DraftText parts={parts} side="after" />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  FEEDBACK_FIELD_LABELS,
+  diffSnapshots,
+  loadFeedbackRevisions,
+  type FeedbackRevision,
+  type RevisionChange,
+} from '../utils/feedbackRevisions';
+
+export const feedbackRevisionsKey = (feedbackId: string | null | undefined) => ['feedback', 'revisions', feedbackId];
+
+interface FeedbackRevisionHistoryProps {
+  feedbackId: string;
+}
+
+const signed = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+
+function ChangeDetail({ change }: { change: RevisionChange }) {
+  switch (change.field) {
+    case 'overall_score':
+      return (
+        <p className="text-sm text-gray-700">
+          {change.before} → <span className="font-semibold">{change.after}</span>{' '}
+          <span className={change.after >= change.before ? 'text-green-700' : 'text-red-700'}>
+            ({signed(change.after - change.before)})
+          </span>
+        </p>
+      );
+    case 'criteria_scores':
+      return (
+        <ul className="text-sm text-gray-700 space-y-0.5">
+          {change.changes.map((c) => (
+            <li key={c.criterion}>
+              <span className="font-medium">{c.criterion}:</span> {c.before ?? '–'} → {c.after ?? '–'}/{c.max_points}
+            </li>
+          ))}
+        </ul>
+      );
+    case 'suggested_feedback':
+      return (
+        <p className="text-sm text-gray-700 whitespace-pre-line leading-relaxed">
+          {change.parts.map((part, idx) => (
+            <span
+              key={idx}
+              className={
+                part.type === 'added'
+                  ? 'bg-green-100 text-green-900'
+                  : part.type === 'removed'
+                    ? 'bg-red-100 text-red-900 line-through'
+                    : ''
+              }
+            >
+              {part.text}
+            </span>
+          ))}
+        </p>
+      );
+    default:
+      return (
+        <ul className="text-sm space-y-0.5">
+          {change.removed.map((item, idx) => (
+            <li key={`r${idx}`} className="text-red-800 line-through">− {item}</li>
+          ))}
+          {change.added.map((item, idx) => (
+            <li key={`a${idx}`} className="text-green-800">+ {item}</li>
+          ))}
+        </ul>
+      );
+  }
+}
+
+/**
+ * Revision history of one feedback record: the AI's original judgement, every teacher override,
+ * who made it and when, with a diff against the previous revision.
+ */
+export const FeedbackRevisionHistory = ({ feedbackId }: FeedbackRevisionHistoryProps) => {
+  const { user } = useAuth();
+  const { data: revisions = [], isLoading, error } = useQuery<FeedbackRevision[], Error>(
+    feedbackRevisionsKey(feedbackId),
+    () => loadFeedbackRevisions(feedbackId),
+    { enabled: !!user, staleTime: 30_000, cacheTime: 5 * 60_000, retry: 1 }
+  );
+  const [selected, setSelected] = useState<number | null>(null);
+
+  // Show the latest edit by default whenever a different record is opened
+  useEffect(() => {
+    setSelected(null);
+  }, [feedbackId]);
+
+  if (isLoading) return <p className="text-sm text-gray-500">Loading revision history...</p>;
+  if (error) return <p className="text-sm text-red-600">Couldn't load revision history: {error.message}</p>;
+  if (revisions.length === 0) return <p className="text-sm text-gray-500">No revision history for this feedback.</p>;
+
+  const ai = revisions.find((r) => r.source === 'ai') ?? revisions[0];
+  const latest = revisions[revisions.length - 1];
+  const teacherEdits = revisions.filter((r) => r.source === 'teacher').length;
+  const selectedIndex = selected ?? revisions.length - 1;
+  const current = revisions[selectedIndex];
+  const previous = selectedIndex > 0 ? revisions[selectedIndex - 1] : null;
+  const changes = previous ? diffSnapshots(previous, current) : [];
+
+  const describeActor = (revision: FeedbackRevision) => {
+    if (revision.source === 'ai') return 'AI marking';
+    return revision.changed_by && revision.changed_by === user?.id ? 'You' : 'Another teacher';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4 text-sm">
+        <span className="text-gray-700">
+          AI score <span className="font-semibold">{ai.overall_score}</span> → final{' '}
+          <span className="font-semibold">{latest.overall_score}</span>
+          {latest.overall_score !== ai.overall_score && (
+            <span className={latest.overall_score > ai.overall_score ? 'text-green-700' : 'text-red-700'}>
+              {' '}({signed(latest.overall_score - ai.overall_score)})
+            </span>
+          )}
+        </span>
+        <span className="text-gray-500">
+          {teacherEdits === 0 ? 'No teacher overrides' : `${teacherEdits} teacher edit${teacherEdits === 1 ? '' : 's'}`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <ol className="space-y-1">
+          {revisions.map((revision, idx) => (
+            <li key={revision.id}>
+              <button
+                type="button"
+                onClick={() => setSelected(idx)}
+                className={`w-full text-left px-3 py-2 rounded border text-sm ${
+                  idx === selectedIndex ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white hover:bg-gray-50'
+                }`}
+              >
+                <div className="font-medium text-gray-800">
+                  {revision.source === 'ai' ? 'Original AI feedback' : `Revision ${revision.revision_number}`}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {describeActor(revision)} · {new Date(revision.created_at).toLocaleString()}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        <div className="md:col-span-2 bg-white border border-gray-200 rounded-lg p-4">
+          {!previous ? (
+            <div className="text-sm text-gray-700 space-y-1">
+              <p className="font-semibold text-gray-800">AI judgement as first saved</p>
+              <p>Score: {current.overall_score}/100</p>
+              {current.criteria_scores.length > 0 && (
+                <p>
+                  {current.criteria_scores.map((c) => `${c.criterion} ${c.points}/${c.max_points}`).join(' · ')}
+                </p>
+              )}
+            </div>
+          ) : changes.length === 0 ? (
+            <p className="text-sm text-gray-500">No visible changes from the previous revision.</p>
+          ) : (
+            <div className="space-y-3">
+              {changes.map((change) => (
+                <div key={change.field}>
+                  <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">
+                    {FEEDBACK_FIELD_LABELS[change.field]}
+                  </h5>
+                  <ChangeDetail change={change} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import type { MarkBand, MarkSchemeCriterion, ParsedMarkScheme } from '../utils/markSchemeParser';
+
+interface MarkSchemePreviewProps {
+  fileName: string;
+  scheme: ParsedMarkScheme;
+  onConfirm: (criteria: MarkSchemeCriterion[]) => void;
+  onCancel: () => void;
+}
+
+type DraftCriterion = MarkSchemeCriterion & { include: boolean };
+
+const FORMAT_LABELS: Record<ParsedMarkScheme['format'], string> = {
+  grid: 'Level grid (table)',
+  levels: 'Level descriptors (text)',
+  simple: 'Criteria list',
+};
+
+/**
+ * Review an imported mark scheme before it replaces the form's criteria: rename or drop criteria,
+ * fix max marks and level ranges the parser got wrong.
+ */
+export const MarkSchemePreview = ({ fileName, scheme, onConfirm, onCancel }: MarkSchemePreviewProps) => {
+  const [draft, setDraft] = useState<DraftCriterion[]>(() => scheme.criteria.map((c) => ({ ...c, include: true })));
+  const [error, setError] = useState<string | null>(null);
+
+  const updateCriterion = (idx: number, changes: Partial<DraftCriterion>) => {
+    setDraft((prev) => prev.map((c, i) => (i === idx ? { ...c, ...changes } : c)));
+  };
+
+  const updateLevel = (idx: number, levelIdx: number, changes: Partial<MarkBand>) => {
+    setDraft((prev) => prev.map((c, i) => (
+      i === idx ? { ...c, levels: c.levels.map((l, j) => (j === levelIdx ? { ...l, ...changes } : l)) } : c
+    )));
+  };
+
+  const handleConfirm = () => {
+    const included = draft.filter((c) => c.include);
+    if (included.length === 0) {
+      setError('Keep at least one criterion.');
+      return;
+    }
+    const invalid = included.find((c) => !c.category.trim() || !(c.maxPoints > 0));
+    if (invalid) {
+      setError(`Check "${invalid.category || 'Unnamed criterion'}": it needs a name and max marks above 0.`);
+      return;
+    }
+    const badLevel = included.find((c) => c.levels.some((l) => l.minMarks > l.maxMarks || l.maxMarks > c.maxPoints));
+    if (badLevel) {
+      setError(`Check the level ranges for "${badLevel.category}": each must sit within 0–${badLevel.maxPoints} marks.`);
+      return;
+    }
+    onConfirm(included.map(({ include: _include, ...c }) => ({ ...c, category: c.category.trim() })));
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="mark-scheme-title" className="fixed inset-0 bg-black/40 flex items-start sm:items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl overflow-hidden">
+        <div className="px-4 py-3 border-b flex justify-between items-center">
+          <div>
+            <h4 id="mark-scheme-title" className="font-semibold text-lg">Review Imported Mark Scheme</h4>
+            <p className="text-xs text-gray-500">
+              {fileName} · {FORMAT_LABELS[scheme.format]} · {scheme.criteria.length} criteria
+            </p>
+          </div>
+          <button onClick={onCancel} aria-label="Close mark scheme preview" className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="p-4 max-h-[70vh] overflow-y-auto space-y-4">
+          {scheme.format === 'simple' && (
+            <p className="text-sm bg-blue-50 border border-blue-200 rounded p-2 text-blue-800">
+              No level grid was found, so each line was read as a criterion. Check the names and marks below.
+            </p>
+          )}
+          {scheme.warnings.length > 0 && (
+            <ul className="text-sm bg-amber-50 border border-amber-200 rounded p-2 text-amber-800 list-disc pl-6">
+              {scheme.warnings.map((w, idx) => <li key={idx}>{w}</li>)}
+            </ul>
+          )}
+
+          {draft.map((criterion, idx) => (
+            <div key={idx} className={`border rounded-lg p-3 ${criterion.include ? 'bg-white' : 'bg-gray-50 opacity-60'}`}>
+              <div className="flex flex-wrap gap-2 items-center">
+                <input
+                  type="checkbox"
+                  checked={criterion.include}
+                  onChange={(e) => updateCriterion(idx, { include: e.target.checked })}
+                  aria-label={`Include ${criterion.category}`}
+                />
+                <input
+                  value={criterion.category}
+                  onChange={(e) => updateCriterion(idx, { category: e.target.value })}
+                  className="border p-1 flex-1 min-w-[12rem] font-medium"
+                  aria-label="Criterion name"
+                />
+                <label className="text-sm text-gray-600 flex items-center gap-1">
+                  Max marks
+                  <input
+                    type="number"
+                    min="1"
+                    value={criterion.maxPoints}
+                    onChange={(e) => updateCriterion(idx, { maxPoints: Number(e.target.value) })}
+                    className="border p-1 w-20"
+                  />
+                </label>
+              </div>
+
+              {criterion.levels.length > 0 && (
+                <table className="w-full text-sm border mt-3">
+                  <thead>
+                    <tr className="bg-gray-100 text-left">
+                      <th className="p-2 border w-16">Level</th>
+                      <th className="p-2 border w-32">Marks</th>
+                      <th className="p-2 border">Descriptor</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {criterion.levels.map((level, levelIdx) => (
+                      <tr key={levelIdx} className="align-top">
+                        <td className="p-2 border">{level.level}</td>
+                        <td className="p-2 border">
+                          <div className="flex items-center gap-1">
+                            <input
+                              type="number"
+                              min="0"
+                              value={level.minMarks}
+                              onChange={(e) => updateLevel(idx, levelIdx, { minMarks: Number(e.target.value) })}
+                              className="border p-1 w-12"
+                              aria-label={`Level ${level.level} minimum marks`}
+                            />
+                            –
+                            <input
+                              type="number"
+                              min="0"
+                              value={level.maxMarks}
+                              onChange={(e) => updateLevel(idx, levelIdx, { maxMarks: Number(e.target.value) })}
+                              className="border p-1 w-12"
+                              aria-label={`Level ${level.level} maximum marks`}
+                            />
+                          </div>
+                        </td>
+                        <td className="p-2 border whitespace-pre-line text-gray-700">{level.descriptor || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {criterion.indicativeContent.length > 0 && (
+                <details className="mt-2 text-sm">
+                  <summary className="cursor-pointer text-gray-600">
+                    Indicative content ({criterion.indicativeContent.length})
+                  </summary>
+                  <ul className="list-disc pl-5 mt-1 text-gray-700">
+                    {criterion.indicativeContent.map((item, itemIdx) => <li key={itemIdx}>{item}</li>)}
+                  </ul>
+                </details>
+              )}
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <button onClick={onCancel} className="px-4 py-2 rounded border bg-white hover:bg-gray-50">Cancel</button>
+            <button onClick={handleConfirm} className="px-4 py-2 rounded bg-blue-600 text-white hover:bg-blue-700">
+              Use These Criteria
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import { useMemo } from 'react';
+import { exportToCSV } from '../utils/csvExport';
+import {
+  buildModerationReport,
+  criteriaMaxTotal,
+  moderationReportCsvRows,
+  type CalibrationCriterion,
+  type CalibrationEssay,
+  type CalibrationMark,
+  type CalibrationMember,
+  type ModeratedMark,
+} from '../utils/calibration';
+
+interface ModerationReportProps {
+  sessionName: string;
+  criteria: CalibrationCriterion[];
+  essays: CalibrationEssay[];
+  members: CalibrationMember[];
+  marks: CalibrationMark[];
+  moderated: ModeratedMark[];
+  leadId: string | null;
+}
+
+const formatGap = (value: number | null) => (value === null ? '—' : value > 0 ? `+${value}` : String(value));
+
+/** Per-essay divergence from the lead marker, with a per-marker CSV export */
+export function ModerationReport({ sessionName, criteria, essays, members, marks, moderated, leadId }: ModerationReportProps) {
+  const report = useMemo(
+    () => buildModerationReport(criteria, essays, members, marks, moderated, leadId),
+    [criteria, essays, members, marks, moderated, leadId]
+  );
+
+  // Flag gaps of a tenth or more of the marks available
+  const flagGap = Math.max(1, criteriaMaxTotal(criteria) * 0.1);
+
+  const handleExport = () => {
+    const slug = sessionName.trim().replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'calibration';
+    exportToCSV(moderationReportCsvRows(sessionName, criteria, report.rows), `moderation-report-${slug}.csv`);
+  };
+
+  return (
+    <div className="border rounded p-4 bg-white">
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <div>
+          <h4 className="font-semibold">Moderation Report</h4>
+          <p className="text-xs text-gray-600">Totals compared with the lead marker. Positive = marked higher than the lead.</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={report.rows.length === 0}
+          className="px-3 py-1.5 rounded border border-brand-600 text-brand-700 text-sm hover:bg-brand-50 disabled:opacity-50"
+        >
+          Export CSV
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs border">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="border p-1 text-left">Essay</th>
+              <th className="border p-1">Marks</th>
+              <th className="border p-1">Lead total</th>
+              <th className="border p-1">Largest gap</th>
+              <th className="border p-1">Mean gap</th>
+              <th className="border p-1">Moderated total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.essays.map((essay) => (
+              <tr key={essay.essayId} className="odd:bg-white even:bg-gray-50">
+                <td className="border p-1">{essay.essayTitle}</td>
+                <td className="border p-1 text-center">{essay.markCount}</td>
+                <td className="border p-1 text-center">{essay.leadTotal ?? '—'}</td>
+                <td className={`border p-1 text-center ${(essay.maxDivergence ?? 0) >= flagGap ? 'text-red-700 font-semibold' : ''}`}>
+                  {essay.maxDivergence ?? '—'}
+                </td>
+                <td className="border p-1 text-center">
+                  {essay.meanAbsDivergence === null ? '—' : essay.meanAbsDivergence.toFixed(1)}
+                </td>
+                <td className="border p-1 text-center">{essay.moderatedTotal ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {report.rows.length > 0 && (
+        <details className="mt-3 text-xs">
+          <summary className="cursor-pointer text-gray-700">Divergence by marker</summary>
+          <table className="w-full border mt-2">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="border p-1 text-left">Essay</th>
+                <th className="border p-1 text-left">Marker</th>
+                {criteria.map((c) => <th key={c.key} className="border p-1">{c.name}</th>)}
+                <th className="border p-1">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map((row) => (
+                <tr key={`${row.essayId}-${row.markerId}`} className="odd:bg-white even:bg-gray-50">
+                  <td className="border p-1">{row.essayTitle}</td>
+                  <td className="border p-1">{row.marker}</td>
+                  {criteria.map((c) => (
+                    <td key={c.key} className="border p-1 text-center">{formatGap(row.divergence?.[c.key] ?? null)}</td>
+                  ))}
+                  <td className="border p-1 text-center font-medium">{formatGap(row.totalDivergence)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,23 @@
 import { useState, useRef, useEffect } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
 import { usePlan } from '../hooks/usePlan';
+import { useSafeguardingQueue } from '../hooks/useSafeguarding';
 import Logo from './Logo';
 import { 
   Bars3Icon, 
   XMarkIcon, 
   ArrowRightOnRectangleIcon,
+  BuildingLibraryIcon,
   Cog6ToothIcon
 } from '@heroicons/react/24/outline';
 
 export default function Navbar() {
   const { user, signOut, profile } = useAuth();
   const { plan, isLoading } = usePlan();
+  const { data: safeguardingFlags } = useSafeguardingQueue();
+  const { workspaces, activeWorkspaceId, setActiveWorkspaceId } = useWorkspace();
   const navigate = useNavigate();
   const location = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
@@ -39,6 +44,7 @@ export default function Navbar() {
     '/analytics': () => import('../pages/Analytics'),
     '/batch': () => import('../pages/BatchProcessor'),
     '/calibration': () => import('../pages/Calibration'),
+    '/safeguarding': () => import('../pages/SafeguardingQueue'),
     '/demo': () => import('../pages/Demo'),
     '/dashboard-demo': () => import('../pages/DashboardDemo'),
     '/about': () => import('../pages/About'),
@@ -46,6 +52,7 @@ export default function Navbar() {
     '/terms': () => import('../pages/Terms'),
     '/dpa': () => import('../pages/DataProcessingAgreement'),
     '/account': () => import('../pages/AccountSettings'),
+    '/workspace': () => import('../pages/Workspace'),
     '/admin': () => import('../pages/AdminDashboard'),
     '/admin/users': () => import('../pages/AdminUsers'),
     '/admin/analytics': () => import('../pages/AdminAnalytics'),
@@ -77,16 +84,21 @@ export default function Navbar() {
     navigate('/auth');
   };
 
-  const navLinks = [
+  const openSafeguardingFlags = (safeguardingFlags || []).filter((f) => f.status === 'open').length;
+
+  const navLinks: Array<{ name: string; path: string; badge?: number }> = [
     { name: 'Dashboard', path: '/dashboard' },
     { name: 'Rubrics', path: '/rubrics' },
     { name: 'Students', path: '/students' },
     { name: 'Essay Feedback', path: '/essay-feedback' },
+    { name: 'Assignments', path: '/assignments' },
     { name: 'Analytics', path: '/analytics' },
     { name: 'Batch', path: '/batch' },
+    // Only Designated Safeguarding Leads see the queue
+    ...(profile?.is_safeguarding_lead ? [{ name: 'Safeguarding', path: '/safeguarding', badge: openSafeguardingFlags }] : []),
   ];
 
-  const publicLinks = [
+  const publicLinks: Array<{ name: string; path: string; badge?: number }> = [
     { name: 'Home', path: '/' },
     { name: 'About', path: '/about' },
     { name: 'Pricing', path: '/pricing' },
@@ -94,6 +106,21 @@ export default function Navbar() {
 
   const linksToShow = user ? navLinks : publicLinks;
 
+  // Rubrics and students lists follow the active workspace; "Personal" shows only your own
+  const workspaceSwitcher = (className: string) => (
+    <select
+      value={activeWorkspaceId ?? ''}
+      onChange={(e) => setActiveWorkspaceId(e.target.value || null)}
+      aria-label="Workspace"
+      className={className}
+    >
+      <option value="">Personal</option>
+      {workspaces.map((w) => (
+        <option key={w.organisation.id} value={w.organisation.id}>{w.organisation.name}</option>
+      ))}
+    </select>
+  );
+
   return (
     <nav className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700 sticky top-0 z-50">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -121,6 +148,11 @@ export default function Navbar() {
                     }`}
                   >
                     {link.name}
+                    {!!link.badge && (
+                      <span className="ml-1.5 inline-flex items-center justify-center min-w-[1.25rem] px-1 rounded-full bg-red-600 text-white text-xs font-semibold" aria-label={`${link.badge} open`}>
+                        {link.badge}
+                      </span>
+                    )}
                   </Link>
                 );
               })}
@@ -131,7 +163,10 @@ export default function Navbar() {
           <div className="flex items-center">
             {user ? (
               /* Profile Dropdown */
-              <div className="hidden md:ml-4 md:flex md:items-center">
+              <div className="hidden md:ml-4 md:flex md:items-center md:gap-3">
+                {workspaces.length > 0 && workspaceSwitcher(
+                  'max-w-[10rem] truncate text-sm border border-gray-300 dark:border-gray-600 rounded-md py-1.5 pl-2 pr-7 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500'
+                )}
                 <div className="relative" ref={profileRef}>
                   <button
                     onClick={() => setIsProfileOpen(!isProfileOpen)}
@@ -173,6 +208,16 @@ export default function Navbar() {
                           Settings
                         </div>
                       </Link>
+                      <Link
+                        to="/workspace"
+                        className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-600"
+                        onClick={() => setIsProfileOpen(false)}
+                      >
+                        <div className="flex items-center">
+                          <BuildingLibraryIcon className="mr-2 h-4 w-4" />
+                          School Workspaces
+                        </div>
+                      </Link>
                       <button
                         onClick={handleLogout}
                         className="w-full text-left block px-4 py-2 text-sm text-red-600 hover:bg-gray-100 dark:hover:bg-gray-600"
@@ -241,6 +286,11 @@ export default function Navbar() {
                   }`}
                 >
                   {link.name}
+                  {!!link.badge && (
+                    <span className="ml-1.5 inline-flex items-center justify-center min-w-[1.25rem] px-1 rounded-full bg-red-600 text-white text-xs font-semibold" aria-label={`${link.badge} open`}>
+                      {link.badge}
+                    </span>
+                  )}
                 </Link>
               );
             })}
@@ -262,6 +312,13 @@ export default function Navbar() {
                   </div>
                 </div>
                 <div className="mt-3 px-2 space-y-1">
+                  {workspaces.length > 0 && (
+                    <div className="px-3 py-2">
+                      {workspaceSwitcher(
+                        'w-full text-base border border-gray-300 dark:border-gray-600 rounded-md py-2 px-2 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200'
+                      )}
+                    </div>
+                  )}
                   <Link
                     to="/account"
                     onClick={() => setIsMobileMenuOpen(false)}
@@ -269,6 +326,13 @@ export default function Navbar() {
                   >
                     Settings
                   </Link>
+                  <Link
+                    to="/workspace"
+                    onClick={() => setIsMobileMenuOpen(false)}
+                    className="block px-3 py-2 rounded-md text-base font-medium text-gray-700 hover:text-gray-900 hover:bg-gray-50 dark:text-gray-300 dark:hover:text-white dark:hover:bg-gray-700"
+                  >
+                    School Workspaces
+                  </Link>
                   <button
                     onClick={handleLogout}
                     className="w-full text-left block px-3 py-2 rounded-md text-base font-medium text-red-600 hover:text-red-800 hover:bg-gray-50 dark:hover:bg-gray-700"
@@ -0,0 +1,84 @@
+import { useMemo, useState } from 'react';
+import { LOW_CONFIDENCE_THRESHOLD, applyOcrCorrections, type OcrResult } from '../utils/ocr';
+
+interface OcrReviewProps {
+  result: OcrResult;
+  onAccept: (text: string) => void;
+  onDiscard: () => void;
+}
+
+/**
+ * The scanned text with doubtful words as inline inputs, so the teacher can fix them before marking
+ */
+export const OcrReview = ({ result, onAccept, onDiscard }: OcrReviewProps) => {
+  const [corrections, setCorrections] = useState<Record<number, string>>({});
+
+  // Plain text between the flagged words, and the flagged words' indexes
+  const segments = useMemo(() => {
+    const parts: Array<{ text: string } | { index: number }> = [];
+    let cursor = 0;
+    result.words.forEach((word, index) => {
+      if (word.confidence >= LOW_CONFIDENCE_THRESHOLD) return;
+      parts.push({ text: result.text.slice(cursor, word.start) }, { index });
+      cursor = word.start + word.length;
+    });
+    parts.push({ text: result.text.slice(cursor) });
+    return parts;
+  }, [result]);
+
+  const flagged = segments.filter((s) => 'index' in s).length;
+  const rotated = result.pages.filter((p) => Math.abs(p.rotation) >= 0.5);
+
+  return (
+    <div className="mb-6 bg-white border border-amber-200 rounded-lg p-4">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+        <h3 className="font-semibold text-gray-900">Check the Scanned Text</h3>
+        <span className="text-xs text-gray-500">
+          {result.pages.length} {result.pages.length === 1 ? 'page' : 'pages'} · {result.confidence}% average confidence
+        </span>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        {flagged > 0
+          ? `${flagged} ${flagged === 1 ? 'word' : 'words'} the OCR wasn't sure of ${flagged === 1 ? 'is' : 'are'} highlighted. Correct any misreadings, then use the text.`
+          : 'The OCR read every word confidently. Give it a quick read, then use the text.'}
+        {rotated.length > 0 && ` Straightened ${rotated.map((p) => `page ${p.page} (${p.rotation}°)`).join(', ')}.`}
+      </p>
+      <div className="max-h-96 overflow-y-auto border border-gray-200 rounded p-3 text-sm text-gray-800 whitespace-pre-wrap leading-loose">
+        {segments.map((segment, idx) => {
+          if ('text' in segment) return <span key={idx}>{segment.text}</span>;
+          const word = result.words[segment.index];
+          const value = corrections[segment.index] ?? word.text;
+          return (
+            <input
+              key={idx}
+              aria-label={`Word on page ${word.page}, ${Math.round(word.confidence)}% confident`}
+              title={`${Math.round(word.confidence)}% confident`}
+              value={value}
+              onChange={(e) => setCorrections({ ...corrections, [segment.index]: e.target.value })}
+              style={{ width: `${Math.max(value.length, 2) + 1}ch` }}
+              className={`px-0.5 rounded border-b-2 text-sm ${
+                segment.index in corrections ? 'bg-green-50 border-green-400' : 'bg-amber-100 border-amber-400'
+              }`}
+            />
+          );
+        })}
+      </div>
+      <div className="flex justify-end gap-2 mt-3">
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="px-4 py-2 rounded-lg border bg-white hover:bg-gray-50 text-sm"
+        >
+          Discard Scan
+        </button>
+        <button
+          type="button"
+          onClick={() => onAccept(applyOcrCorrections(result, corrections))}
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 text-sm"
+        >
+          Use This Text
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import notify from '../utils/notify';
+import { exportToCSV } from '../utils/csvExport';
+import {
+  criteriaMaxTotal,
+  type CalibrationCriterion,
+  type CalibrationEssay,
+  type CalibrationMark,
+  type CalibrationMember,
+  type ModeratedMark,
+} from '../utils/calibration';
+import {
+  buildReliabilityReport,
+  describeIcc,
+  describeKappa,
+  loadCalibrationAiMarks,
+  reliabilityCsvHeaders,
+  reliabilityCsvRows,
+  type AiMark,
+  type MarkerTendency,
+  type ReliabilityReport,
+} from '../utils/reliability';
+
+interface ReliabilityDashboardProps {
+  sessionId: string;
+  sessionName: string;
+  criteria: CalibrationCriterion[];
+  essays: CalibrationEssay[];
+  members: CalibrationMember[];
+  marks: CalibrationMark[];
+  moderated: ModeratedMark[];
+  leadId: string | null;
+}
+
+const TENDENCY_STYLES: Record<MarkerTendency, string> = {
+  severe: 'bg-blue-100 text-blue-800',
+  lenient: 'bg-amber-100 text-amber-800',
+  consistent: 'bg-green-100 text-green-800',
+};
+
+const fixed = (value: number | null, digits = 2) => (value === null ? '—' : value.toFixed(digits));
+const signed = (value: number | null, digits = 1) =>
+  value === null ? '—' : `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+const percent = (value: number | null) => (value === null ? '—' : `${Math.round(value * 100)}%`);
+
+async function exportReliabilityPdf(sessionName: string, criteria: CalibrationCriterion[], report: ReliabilityReport) {
+  const { default: jsPDF } = await import('jspdf');
+  const doc = new jsPDF();
+  const margin = 15;
+  const maxWidth = doc.internal.pageSize.getWidth() - margin * 2;
+  let yPosition = 20;
+
+  const addText = (text: string, fontSize = 10, isBold = false, color = '#111827') => {
+    doc.setFontSize(fontSize);
+    doc.setTextColor(color);
+    doc.setFont('helvetica', isBold ? 'bold' : 'normal');
+    const lines = doc.splitTextToSize(text, maxWidth);
+    lines.forEach((line: string) => {
+      if (yPosition > 270) {
+        doc.addPage();
+        yPosition = 20;
+      }
+      doc.text(line, margin, yPosition);
+      yPosition += fontSize * 0.5 + 1;
+    });
+    yPosition += 2;
+  };
+
+  const brandPrimary = '#1e3a8a';
+  const subtle = '#4b5563';
+
+  addText('SimpleRubriQ Marker Reliability', 16, true, brandPrimary);
+  addText(`Session: ${sessionName}`, 12, true);
+  addText(`Date: ${new Date().toLocaleDateString()} • ${report.bandCount} bands over ${report.marksAvailable} marks`, 10, false, subtle);
+
+  addText('Session agreement', 12, true, brandPrimary);
+  addText(`ICC(2,1): ${fixed(report.icc)} (${describeIcc(report.icc)})`, 10);
+  addText(`Fleiss' kappa on bands: ${fixed(report.fleiss)} (${describeKappa(report.fleiss)})`, 10);
+  addText(`Based on ${report.completeEssays} essays marked by all ${report.completeMarkers} markers`, 9, false, subtle);
+
+  addText('Markers', 12, true, brandPrimary);
+  report.markers.forEach((m) => {
+    addText(`${m.marker}${m.isLead ? ' (lead)' : ''}: ${m.tendency}`, 10, true);
+    addText(
+      `${m.essaysMarked} essays • bias ${signed(m.bias)} • mean absolute error ${fixed(m.meanAbsoluteError, 1)}` +
+        (m.isLead ? '' : ` • band agreement with lead ${percent(m.exactBandAgreementWithLead)} • kappa ${fixed(m.kappaWithLead)} • weighted kappa ${fixed(m.weightedKappaWithLead)}`),
+      9,
+      false,
+      subtle
+    );
+    const criterionLine = criteria
+      .filter((c) => m.criterionBias[c.key] !== undefined)
+      .map((c) => `${c.name} ${signed(m.criterionBias[c.key])}`)
+      .join(' • ');
+    if (criterionLine) addText(`Bias by criterion: ${criterionLine}`, 9, false, subtle);
+  });
+
+  addText('AI vs human consensus', 12, true, brandPrimary);
+  if (report.ai.essaysCompared === 0) {
+    addText('No AI feedback on these essays.', 10, false, subtle);
+  } else {
+    addText(
+      `${report.ai.essaysCompared} essays • bias ${signed(report.ai.bias)} • mean absolute error ${fixed(report.ai.meanAbsoluteError, 1)} • ` +
+        `ICC ${fixed(report.ai.icc)} • band agreement ${percent(report.ai.exactBandAgreement)} • weighted kappa ${fixed(report.ai.weightedKappa)}`,
+      10
+    );
+  }
+
+  doc.save(`${sessionName.replace(/[^a-z0-9]/gi, '_') || 'calibration'}_reliability.pdf`);
+}
+
+/** Session-wide agreement metrics with per-marker drill-down; shown once marks are revealed */
+export function ReliabilityDashboard({ sessionId, sessionName, criteria, essays, members, marks, moderated, leadId }: ReliabilityDashboardProps) {
+  const [aiMarks, setAiMarks] = useState<AiMark[]>([]);
+  const [bandCount, setBandCount] = useState(6);
+  const [selectedMarkerId, setSelectedMarkerId] = useState('');
+
+  useEffect(() => {
+    loadCalibrationAiMarks(sessionId)
+      .then(setAiMarks)
+      .catch((err) => console.error('❌ Failed to load AI marks for calibration:', err));
+  }, [sessionId]);
+
+  const marksAvailable = criteriaMaxTotal(criteria);
+  const report = useMemo(
+    () => buildReliabilityReport({ criteria, essays, members, marks, moderated, aiMarks, leadId, marksAvailable, bandCount }),
+    [criteria, essays, members, marks, moderated, aiMarks, leadId, marksAvailable, bandCount]
+  );
+  const selectedMarker = report.markers.find((m) => m.markerId === selectedMarkerId);
+  const chartData = report.markers.map((m) => ({ marker: m.marker, bias: Number((m.bias ?? 0).toFixed(2)) }));
+
+  const handleCsv = () => {
+    const slug = sessionName.trim().replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'calibration';
+    exportToCSV(reliabilityCsvRows(sessionName, criteria, report), `reliability-${slug}.csv`, reliabilityCsvHeaders(criteria));
+  };
+
+  const handlePdf = async () => {
+    try {
+      await exportReliabilityPdf(sessionName, criteria, report);
+      notify.success('Reliability report exported as PDF');
+    } catch (error) {
+      console.error('PDF export error:', error);
+      notify.error('Failed to export PDF');
+    }
+  };
+
+  return (
+    <div className="border rounded p-4 bg-white">
+      <div className="flex flex-col lg:flex-row lg:items-start lg:justify-between gap-3 mb-4">
+        <div>
+          <h4 className="font-semibold">Marker Reliability</h4>
+          <p className="text-xs text-gray-600">Bias is measured against the moderated mark, or the other markers’ mean where none was agreed.</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-3 text-sm">
+          <label className="flex flex-col text-xs">
+            Bands over {marksAvailable} marks
+            <select value={bandCount} onChange={(e) => setBandCount(Number(e.target.value))} className="border rounded p-1 text-sm">
+              {[3, 4, 5, 6, 7, 8, 9].map((n) => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <button onClick={handleCsv} className="px-3 py-1.5 rounded border border-brand-600 text-brand-700 text-sm hover:bg-brand-50">
+            Export CSV
+          </button>
+          <button onClick={handlePdf} className="px-3 py-1.5 rounded border border-brand-600 text-brand-700 text-sm hover:bg-brand-50">
+            Export PDF
+          </button>
+        </div>
+      </div>
+
+      <div className="grid sm:grid-cols-3 gap-3 mb-4 text-sm">
+        <div className="p-3 border rounded bg-gray-50">
+          <div className="text-xs text-gray-600">Intraclass correlation ICC(2,1)</div>
+          <div className="text-xl font-semibold">{fixed(report.icc)}</div>
+          <div className="text-xs text-gray-600">
+            {describeIcc(report.icc)} • {report.completeEssays} essays × {report.completeMarkers} markers
+          </div>
+        </div>
+        <div className="p-3 border rounded bg-gray-50">
+          <div className="text-xs text-gray-600">Fleiss’ kappa (bands)</div>
+          <div className="text-xl font-semibold">{fixed(report.fleiss)}</div>
+          <div className="text-xs text-gray-600">{describeKappa(report.fleiss)}</div>
+        </div>
+        <div className="p-3 border rounded bg-gray-50">
+          <div className="text-xs text-gray-600">AI vs human consensus</div>
+          <div className="text-xl font-semibold">{fixed(report.ai.weightedKappa)}</div>
+          <div className="text-xs text-gray-600">
+            {report.ai.essaysCompared === 0
+              ? 'No AI feedback on these essays'
+              : `Weighted kappa • ${report.ai.essaysCompared} essays • bias ${signed(report.ai.bias)} • MAE ${fixed(report.ai.meanAbsoluteError, 1)}`}
+          </div>
+          {report.ai.scaledFromPercentage > 0 && (
+            <div className="text-xs text-gray-500">{report.ai.scaledFromPercentage} scaled from the AI’s overall %</div>
+          )}
+        </div>
+      </div>
+
+      {chartData.length > 0 && (
+        <div className="h-48 mb-4">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="marker" tick={{ fontSize: 11 }} />
+              <YAxis tick={{ fontSize: 11 }} />
+              <Tooltip formatter={(value: any) => [`${Number(value) > 0 ? '+' : ''}${value} marks`, 'Bias']} />
+              <ReferenceLine y={0} stroke="#6b7280" />
+              <Bar dataKey="bias" fill="#4f46e5" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs border">
+          <thead>
+            <tr className="bg-gray-50">
+              <th className="border p-1 text-left">Marker</th>
+              <th className="border p-1">Essays</th>
+              <th className="border p-1">Bias</th>
+              <th className="border p-1">MAE</th>
+              <th className="border p-1">Tendency</th>
+              <th className="border p-1">Band agreement with lead</th>
+              <th className="border p-1">κ with lead</th>
+              <th className="border p-1">Weighted κ</th>
+              <th className="border p-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.markers.map((m) => (
+              <tr key={m.markerId} className={selectedMarkerId === m.markerId ? 'bg-indigo-50' : 'odd:bg-white even:bg-gray-50'}>
+                <td className="border p-1">{m.marker}{m.isLead ? ' (lead)' : ''}</td>
+                <td className="border p-1 text-center">{m.essaysMarked}</td>
+                <td className="border p-1 text-center">{signed(m.bias)}</td>
+                <td className="border p-1 text-center">{fixed(m.meanAbsoluteError, 1)}</td>
+                <td className="border p-1 text-center">
+                  <span className={`px-2 py-0.5 rounded capitalize ${TENDENCY_STYLES[m.tendency]}`}>{m.tendency}</span>
+                </td>
+                <td className="border p-1 text-center">{m.isLead ? '—' : percent(m.exactBandAgreementWithLead)}</td>
+                <td className="border p-1 text-center">{m.isLead ? '—' : fixed(m.kappaWithLead)}</td>
+                <td className="border p-1 text-center">{m.isLead ? '—' : fixed(m.weightedKappaWithLead)}</td>
+                <td className="border p-1 text-center">
+                  <button
+                    onClick={() => setSelectedMarkerId(selectedMarkerId === m.markerId ? '' : m.markerId)}
+                    className="text-indigo-600 hover:underline"
+                  >
+                    {selectedMarkerId === m.markerId ? 'Hide' : 'Details'}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedMarker && (
+        <div className="mt-4">
+          <h5 className="font-medium text-sm mb-1">{selectedMarker.marker}: essay by essay</h5>
+          <p className="text-xs text-gray-600 mb-2">
+            Bias by criterion:{' '}
+            {criteria
+              .filter((c) => selectedMarker.criterionBias[c.key] !== undefined)
+              .map((c) => `${c.name} ${signed(selectedMarker.criterionBias[c.key])}`)
+              .join(' • ') || '—'}
+          </p>
+          <table className="w-full text-xs border">
+            <thead>
+              <tr className="bg-gray-50">
+                <th className="border p-1 text-left">Essay</th>
+                <th className="border p-1">Total</th>
+                <th className="border p-1">Band</th>
+                <th className="border p-1">Lead total</th>
+                <th className="border p-1">Reference</th>
+                <th className="border p-1">Difference</th>
+                {criteria.map((c) => <th key={c.key} className="border p-1">{c.name}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {selectedMarker.details.map((d) => (
+                <tr key={d.essayId} className="odd:bg-white even:bg-gray-50">
+                  <td className="border p-1">{d.essayTitle}</td>
+                  <td className="border p-1 text-center">{d.total}</td>
+                  <td className="border p-1 text-center">{d.band}</td>
+                  <td className="border p-1 text-center">{d.leadTotal ?? '—'}</td>
+                  <td className="border p-1 text-center">{fixed(d.reference, 1)}</td>
+                  <td className="border p-1 text-center font-medium">{signed(d.difference)}</td>
+                  {criteria.map((c) => (
+                    <td key={c.key} className="border p-1 text-center">{signed(d.criterionDifference[c.key] ?? null)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useMemo, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import notify from '../utils/notify';
+import { ShareBadge, ShareSelect } from './ShareSelect';
+import { PRIVATE_SHARE, type ShareTarget } from '../utils/workspaces';
+import {
+  BUILT_IN_PACKS,
+  compareVersions,
+  deleteRubricPack,
+  downloadRubricPack,
+  loadSavedPacks,
+  packFromRubrics,
+  readRubricPackFile,
+  rubricPacksKey,
+  saveRubricPack,
+  type RubricPack,
+  type RubricPackTemplate,
+  type SavedRubricPack,
+} from '../utils/rubricPacks';
+
+interface RubricLibraryProps {
+  onApply: (pack: RubricPack, template: RubricPackTemplate) => void;
+  // Rubrics the teacher can bundle into a pack of their own
+  exportableRubrics: Array<{ name: string; subject: string | null; criteria: any }>;
+}
+
+interface LibraryEntry {
+  key: string;
+  pack: RubricPack;
+  saved: SavedRubricPack | null; // Null for packs built into the app
+}
+
+/**
+ * Subject packs of question-level mark schemes: pick a template to fill the rubric form, import a
+ * department's pack file, or export rubrics as a pack for colleagues.
+ */
+export function RubricLibrary({ onApply, exportableRubrics }: RubricLibraryProps) {
+  const { user } = useAuth();
+  const { activeWorkspaceId } = useWorkspace();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedKey, setSelectedKey] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [importShare, setImportShare] = useState<ShareTarget>(PRIVATE_SHARE);
+  const [importing, setImporting] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [exportMeta, setExportMeta] = useState({ name: '', subject: '', version: '1.0.0' });
+
+  const { data: savedPacks = [] } = useQuery<SavedRubricPack[], Error>(
+    rubricPacksKey(user?.id, activeWorkspaceId),
+    () => loadSavedPacks(user!.id, activeWorkspaceId),
+    { enabled: !!user, staleTime: 60_000 }
+  );
+
+  const entries = useMemo<LibraryEntry[]>(() => [
+    ...BUILT_IN_PACKS.map(pack => ({ key: `builtin:${pack.id}`, pack, saved: null })),
+    ...[...savedPacks]
+      .sort((a, b) => a.pack.name.localeCompare(b.pack.name) || compareVersions(b.pack.version, a.pack.version))
+      .map(saved => ({ key: `saved:${saved.id}`, pack: saved.pack, saved })),
+  ], [savedPacks]);
+
+  const selected = entries.find(e => e.key === selectedKey) || null;
+  const template = selected?.pack.templates.find(t => t.id === templateId) || null;
+
+  const selectPack = (key: string) => {
+    setSelectedKey(key);
+    setTemplateId(entries.find(e => e.key === key)?.pack.templates[0]?.id || '');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !user) return;
+    setImporting(true);
+    try {
+      const pack = await readRubricPackFile(file);
+      const saved = await saveRubricPack(user.id, pack, activeWorkspaceId ? importShare : PRIVATE_SHARE);
+      await queryClient.invalidateQueries(rubricPacksKey(user.id, activeWorkspaceId));
+      setSelectedKey(`saved:${saved.id}`);
+      setTemplateId(pack.templates[0].id);
+      notify.success(`Imported ${pack.name} ${pack.version} (${pack.templates.length} templates)`);
+    } catch (error: any) {
+      console.error('❌ Failed to import rubric pack:', error);
+      notify.error(`Failed to import rubric pack: ${error.message || 'Unknown error'}`);
+    } finally {
+      setImporting(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemove = async (saved: SavedRubricPack) => {
+    if (!user) return;
+    try {
+      await deleteRubricPack(saved.id);
+      queryClient.invalidateQueries(rubricPacksKey(user.id, activeWorkspaceId));
+      setSelectedKey('');
+      notify.success(`Removed ${saved.pack.name} ${saved.pack.version} from the library`);
+    } catch (error: any) {
+      console.error('❌ Failed to remove rubric pack:', error);
+      notify.error(`Failed to remove rubric pack: ${error.message || 'Unknown error'}`);
+    }
+  };
+
+  const handleExportRubrics = () => {
+    if (!exportMeta.name.trim()) {
+      notify.error('Please name the pack');
+      return;
+    }
+    try {
+      const pack = packFromRubrics(
+        { name: exportMeta.name, subject: exportMeta.subject || exportableRubrics[0]?.subject || 'Other', version: exportMeta.version },
+        exportableRubrics
+      );
+      downloadRubricPack(pack);
+      setShowExport(false);
+    } catch (error: any) {
+      notify.error(`These rubrics can't be exported as a pack: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h3 className="font-semibold text-gray-900">Template Library</h3>
+          <p className="text-sm text-gray-600">Question-level mark schemes by subject, with level descriptors and indicative content</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <ShareSelect value={importShare} onChange={setImportShare} label="Share imported packs with" />
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+            className="hidden"
+            aria-label="Import rubric pack"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="px-3 py-1.5 rounded border bg-white hover:bg-gray-50 text-sm disabled:opacity-50"
+          >
+            {importing ? 'Importing...' : 'Import Pack'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowExport(!showExport)}
+            disabled={exportableRubrics.length === 0}
+            className="px-3 py-1.5 rounded border bg-white hover:bg-gray-50 text-sm disabled:opacity-50"
+          >
+            Export Rubrics as Pack
+          </button>
+        </div>
+      </div>
+
+      {showExport && (
+        <div className="border border-gray-200 rounded p-3 bg-gray-50 space-y-2">
+          <p className="text-sm text-gray-700">
+            The {exportableRubrics.length} {exportableRubrics.length === 1 ? 'rubric' : 'rubrics'} listed below will become one template each.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <input
+              value={exportMeta.name}
+              onChange={e => setExportMeta({ ...exportMeta, name: e.target.value })}
+              placeholder="Pack name, e.g. Humanities Dept Year 11"
+              aria-label="Pack name"
+              className="border border-gray-300 rounded p-2 text-sm"
+            />
+            <input
+              value={exportMeta.subject}
+              onChange={e => setExportMeta({ ...exportMeta, subject: e.target.value })}
+              placeholder={exportableRubrics[0]?.subject || 'Subject'}
+              aria-label="Pack subject"
+              className="border border-gray-300 rounded p-2 text-sm"
+            />
+            <input
+              value={exportMeta.version}
+              onChange={e => setExportMeta({ ...exportMeta, version: e.target.value })}
+              aria-label="Pack version"
+              className="border border-gray-300 rounded p-2 text-sm"
+            />
+          </div>
+          <div className="flex justify-end">
+            <button type="button" onClick={handleExportRubrics} className="px-3 py-1.5 rounded bg-blue-600 text-white hover:bg-blue-700 text-sm">
+              Download Pack
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <select
+          value={selectedKey}
+          onChange={e => selectPack(e.target.value)}
+          aria-label="Rubric pack"
+          className="border p-2 w-full"
+        >
+          <option value="">Choose a subject pack…</option>
+          <optgroup label="Built in">
+            {entries.filter(e => !e.saved).map(e => <option key={e.key} value={e.key}>{e.pack.name}</option>)}
+          </optgroup>
+          {entries.some(e => e.saved) && (
+            <optgroup label="Imported">
+              {entries.filter(e => e.saved).map(e => (
+                <option key={e.key} value={e.key}>{e.pack.name} {e.pack.version}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {selected && (
+          <select
+            value={templateId}
+            onChange={e => setTemplateId(e.target.value)}
+            aria-label="Pack template"
+            className="border p-2 w-full"
+          >
+            {selected.pack.templates.map(t => (
+              <option key={t.id} value={t.id}>{t.name} ({t.totalMarks} marks)</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {selected && (
+        <div className="text-xs text-gray-600 flex flex-wrap items-center gap-x-3 gap-y-1">
+          <span>{selected.pack.subject}{selected.pack.examBoard ? ` · ${selected.pack.examBoard}` : ''}</span>
+          <span>Version {selected.pack.version}</span>
+          {selected.pack.publisher && <span>From {selected.pack.publisher}</span>}
+          {selected.saved && <ShareBadge value={selected.saved} shared={selected.saved.teacher_id !== user?.id} />}
+          <button type="button" onClick={() => downloadRubricPack(selected.pack)} className="text-blue-600 hover:text-blue-800">
+            Export Pack
+          </button>
+          {selected.saved && selected.saved.teacher_id === user?.id && (
+            <button type="button" onClick={() => handleRemove(selected.saved!)} className="text-red-600 hover:text-red-800">
+              Remove
+            </button>
+          )}
+        </div>
+      )}
+
+      {template && (
+        <div className="border border-indigo-100 bg-indigo-50 rounded p-3 text-sm">
+          <div className="flex flex-wrap items-baseline justify-between gap-2">
+            <span className="font-medium text-indigo-900">
+              {template.name}{template.questionType ? ` · ${template.questionType}` : ''}
+            </span>
+            <button
+              type="button"
+              onClick={() => onApply(selected!.pack, template)}
+              className="px-3 py-1.5 rounded bg-indigo-600 text-white hover:bg-indigo-700 text-sm"
+            >
+              Use Template
+            </button>
+          </div>
+          {template.guidance && <p className="text-indigo-800 mt-1">{template.guidance}</p>}
+          <ul className="list-disc pl-5 mt-2 text-indigo-900">
+            {template.criteria.map(c => (
+              <li key={c.category}>
+                {c.category} — {c.maxPoints} marks
+                {c.levels.length > 0 && <span className="text-xs text-indigo-700"> ({c.levels.length} levels)</span>}
+                {c.indicativeContent.length > 0 && <span className="text-xs text-indigo-700"> · indicative content</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import type { DiffPart } from '../utils/textDiff';
+import {
+  RUBRIC_DETAIL_LABELS,
+  describeBand,
+  describeVersion,
+  diffRubricVersions,
+  isEmptyDiff,
+  loadRubricVersion,
+  loadRubricVersions,
+  rubricVersionKey,
+  rubricVersionsKey,
+  totalMarks,
+  type CriterionChange,
+  type CriterionFieldChange,
+  type RubricVersion,
+} from '../utils/rubricVersions';
+
+interface RubricVersionHistoryProps {
+  rubricId?: string | null;
+  // Version a feedback record was marked against; compared with the latest by default
+  pinnedVersionId?: string | null;
+}
+
+// Stable fallback, so the default selection below only resets when versions actually load
+const NO_VERSIONS: RubricVersion[] = [];
+
+function WordDiff({ parts }: { parts: DiffPart[] }) {
+  return (
+    <>
+      {parts.map((part, idx) => (
+        <span
+          key={idx}
+          className={
+            part.type === 'added'
+              ? 'bg-green-100 text-green-900'
+              : part.type === 'removed'
+                ? 'bg-red-100 text-red-900 line-through'
+                : ''
+          }
+        >
+          {part.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function FieldChange({ change }: { change: CriterionFieldChange }) {
+  switch (change.field) {
+    case 'maxPoints':
+      return <li>Max marks {change.before} → <span className="font-semibold">{change.after}</span></li>;
+    case 'description':
+      return <li>Description: <WordDiff parts={change.parts} /></li>;
+    case 'level':
+      if (!change.before) return <li className="text-green-800">+ {describeBand(change.after!)}: {change.after!.descriptor}</li>;
+      if (!change.after) return <li className="text-red-800 line-through">− {describeBand(change.before)}: {change.before.descriptor}</li>;
+      return (
+        <li>
+          {describeBand(change.before) === describeBand(change.after)
+            ? describeBand(change.after)
+            : `${describeBand(change.before)} → ${describeBand(change.after)}`}
+          : <WordDiff parts={change.parts} />
+        </li>
+      );
+    case 'indicativeContent':
+      return (
+        <li>
+          Indicative content
+          <ul className="pl-4">
+            {change.removed.map((item, idx) => <li key={`r${idx}`} className="text-red-800 line-through">− {item}</li>)}
+            {change.added.map((item, idx) => <li key={`a${idx}`} className="text-green-800">+ {item}</li>)}
+          </ul>
+        </li>
+      );
+  }
+}
+
+function CriterionDetail({ change }: { change: CriterionChange }) {
+  if (change.kind === 'added') {
+    return (
+      <p className="text-sm text-green-800">
+        + <span className="font-medium">{change.category}</span> — {change.after.maxPoints} marks
+        {change.after.levels.length > 0 && ` (${change.after.levels.length} levels)`}
+      </p>
+    );
+  }
+  if (change.kind === 'removed') {
+    return (
+      <p className="text-sm text-red-800 line-through">
+        − <span className="font-medium">{change.category}</span> — {change.before.maxPoints} marks
+      </p>
+    );
+  }
+  return (
+    <div className="text-sm text-gray-700">
+      <p className="font-medium">{change.category}</p>
+      <ul className="list-disc pl-5 space-y-0.5">
+        {change.changes.map((c, idx) => <FieldChange key={idx} change={c} />)}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Saved versions of a rubric, who saved each and when, and a criterion-level diff between any two.
+ * Given the version a feedback record was marked against, shows what has changed since.
+ */
+export const RubricVersionHistory = ({ rubricId, pinnedVersionId }: RubricVersionHistoryProps) => {
+  const { user } = useAuth();
+  const { data: pinned, isLoading: pinnedLoading } = useQuery<RubricVersion | null, Error>(
+    rubricVersionKey(pinnedVersionId),
+    () => loadRubricVersion(pinnedVersionId!),
+    { enabled: !!user && !!pinnedVersionId, staleTime: Infinity }
+  );
+  const historyOf = rubricId ?? pinned?.rubric_id ?? null;
+  const { data: versions = NO_VERSIONS, isLoading, error } = useQuery<RubricVersion[], Error>(
+    rubricVersionsKey(historyOf),
+    () => loadRubricVersions(historyOf!),
+    { enabled: !!user && !!historyOf, staleTime: 30_000, retry: 1 }
+  );
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+
+  // Pinned (or previous) version against the latest whenever a different rubric or record is opened
+  useEffect(() => {
+    setToId(versions[0]?.id || '');
+    setFromId(pinned && versions.some(v => v.id === pinned.id) ? pinned.id : versions[1]?.id || versions[0]?.id || '');
+  }, [versions, pinned]);
+
+  if ((pinnedVersionId && pinnedLoading) || (historyOf && isLoading)) {
+    return <p className="text-sm text-gray-500">Loading rubric versions...</p>;
+  }
+  if (error) return <p className="text-sm text-red-600">Couldn't load rubric versions: {error.message}</p>;
+
+  if (versions.length === 0) {
+    if (!pinned) return <p className="text-sm text-gray-500">No rubric version recorded.</p>;
+    return (
+      <div className="text-sm text-gray-700 space-y-1">
+        <p>Marked against <span className="font-semibold">{describeVersion(pinned)}</span> ({totalMarks(pinned.criteria)} marks). The rubric has since been deleted.</p>
+        <p>{pinned.criteria.map(c => `${c.category} ${c.maxPoints}`).join(' · ')}</p>
+      </div>
+    );
+  }
+
+  const latest = versions[0];
+  const from = versions.find(v => v.id === fromId);
+  const to = versions.find(v => v.id === toId);
+  const diff = from && to && from.id !== to.id ? diffRubricVersions(from, to) : null;
+
+  const describeAuthor = (version: RubricVersion) =>
+    version.created_by && version.created_by === user?.id ? 'You' : 'Another teacher';
+
+  return (
+    <div className="space-y-4">
+      {pinned && (
+        <p className="text-sm text-gray-700">
+          Marked against <span className="font-semibold">{describeVersion(pinned)}</span>
+          {pinned.id === latest.id
+            ? ' — the rubric has not changed since.'
+            : `; the rubric is now v${latest.version}. Scores were given on the earlier version.`}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <ol className="space-y-1">
+          {versions.map(version => (
+            <li key={version.id} className="px-3 py-2 rounded border border-gray-200 bg-white text-sm">
+              <div className="font-medium text-gray-800">
+                Version {version.version}
+                {version.id === latest.id && <span className="ml-1 text-xs text-gray-500">(current)</span>}
+                {version.id === pinned?.id && (
+                  <span className="ml-1 text-xs bg-blue-100 text-blue-800 px-1.5 py-0.5 rounded">this feedback</span>
+                )}
+              </div>
+              <div className="text-xs text-gray-500">
+                {describeAuthor(version)} · {new Date(version.created_at).toLocaleString()} · {totalMarks(version.criteria)} marks
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        <div className="md:col-span-2 bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+          {versions.length === 1 ? (
+            <p className="text-sm text-gray-500">Only one version so far. Editing the rubric saves the next one.</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>Compare</span>
+                <select value={fromId} onChange={e => setFromId(e.target.value)} aria-label="Compare from version" className="border rounded p-1">
+                  {versions.map(v => <option key={v.id} value={v.id}>v{v.version}</option>)}
+                </select>
+                <span>with</span>
+                <select value={toId} onChange={e => setToId(e.target.value)} aria-label="Compare to version" className="border rounded p-1">
+                  {versions.map(v => <option key={v.id} value={v.id}>v{v.version}</option>)}
+                </select>
+              </div>
+              {!diff ? (
+                <p className="text-sm text-gray-500">Choose two different versions to compare.</p>
+              ) : isEmptyDiff(diff) ? (
+                <p className="text-sm text-gray-500">No differences in criteria or details.</p>
+              ) : (
+                <div className="space-y-3">
+                  {diff.totalMarks.before !== diff.totalMarks.after && (
+                    <p className="text-sm text-gray-700">
+                      Total marks {diff.totalMarks.before} → <span className="font-semibold">{diff.totalMarks.after}</span>
+                    </p>
+                  )}
+                  {diff.details.map(d => (
+                    <p key={d.field} className="text-sm text-gray-700">
+                      {RUBRIC_DETAIL_LABELS[d.field]}: <span className="line-through text-red-800">{d.before || '—'}</span> →{' '}
+                      <span className="text-green-800">{d.after || '—'}</span>
+                    </p>
+                  ))}
+                  {diff.criteria.length > 0 && (
+                    <div>
+                      <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-1">Criteria</h5>
+                      <div className="space-y-2">
+                        {diff.criteria.map(change => <CriterionDetail key={`${change.kind}:${change.category}`} change={change} />)}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import notify from '../utils/notify';
+import { useEssaySafeguarding, useSafeguardingLead } from '../hooks/useSafeguarding';
+import { addCaseNote, SAFEGUARDING_CATEGORY_LABELS, SEVERITY_STYLES } from '../utils/safeguarding';
+
+interface SafeguardingNoticeProps {
+  essayId: string | null | undefined;
+}
+
+const STATUS_LABELS = { open: 'Waiting for the DSL', acknowledged: 'Acknowledged by the DSL', resolved: 'Resolved' };
+
+/**
+ * Teacher-facing banner for safeguarding flags on an essay. Flags are stored separately from the
+ * feedback, so editing or deleting the feedback never hides them.
+ */
+export const SafeguardingNotice = ({ essayId }: SafeguardingNoticeProps) => {
+  const { user } = useAuth();
+  const { flags } = useEssaySafeguarding(essayId);
+  const { data: lead, isLoading: leadLoading } = useSafeguardingLead();
+  const [noteFor, setNoteFor] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [savingNote, setSavingNote] = useState(false);
+
+  if (flags.length === 0) return null;
+
+  const handleAddNote = async (flagId: string) => {
+    if (!user || !note.trim()) return;
+    setSavingNote(true);
+    try {
+      await addCaseNote(flagId, user.id, note);
+      notify.success('Note added to the safeguarding record');
+      setNote('');
+      setNoteFor(null);
+    } catch (error: any) {
+      console.error('❌ Failed to add case note:', error);
+      notify.error(error.message || 'Failed to add note');
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  return (
+    <div role="alert" className="border-l-4 border-red-600 bg-red-50 rounded-lg p-4 space-y-3">
+      <div>
+        <h3 className="font-semibold text-red-900">🛡️ Safeguarding concern flagged</h3>
+        {leadLoading ? null : lead ? (
+          <p className="text-sm text-red-900 mt-1">
+            This has been added to {lead.full_name || lead.email}'s safeguarding queue. Follow your school's
+            safeguarding procedure if you have further concerns.
+          </p>
+        ) : (
+          <p className="text-sm text-red-900 mt-1">
+            You haven't nominated a Designated Safeguarding Lead, so nobody else has been alerted.{' '}
+            <Link to="/account" className="underline font-medium">Nominate your DSL in Account Settings</Link>{' '}
+            and report this using your school's safeguarding procedure now.
+          </p>
+        )}
+      </div>
+
+      <ul className="space-y-3">
+        {flags.map((flag) => (
+          <li key={flag.id} className="bg-white border border-red-200 rounded-md p-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className={`px-2 py-0.5 rounded border text-xs font-semibold uppercase ${SEVERITY_STYLES[flag.severity]}`}>
+                {flag.severity}
+              </span>
+              <span className="font-medium text-gray-900">{SAFEGUARDING_CATEGORY_LABELS[flag.category]}</span>
+              <span className="text-gray-500 ml-auto">{STATUS_LABELS[flag.status]}</span>
+            </div>
+            <blockquote className="border-l-2 border-gray-300 pl-3 italic text-gray-800">"{flag.excerpt}"</blockquote>
+            {flag.rationale && <p className="text-gray-600 mt-2">{flag.rationale}</p>}
+            {flag.status === 'resolved' && flag.outcome && (
+              <p className="text-gray-700 mt-2"><span className="font-medium">Outcome:</span> {flag.outcome}</p>
+            )}
+
+            {noteFor === flag.id ? (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={3}
+                  placeholder="Context for your DSL, e.g. what the student said in class"
+                  aria-label="Note for your safeguarding lead"
+                  className="w-full border border-gray-300 rounded p-2"
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setNoteFor(null)} className="px-3 py-1.5 rounded border bg-white hover:bg-gray-50">Cancel</button>
+                  <button
+                    onClick={() => handleAddNote(flag.id)}
+                    disabled={savingNote || !note.trim()}
+                    className="px-3 py-1.5 rounded bg-red-700 text-white hover:bg-red-800 disabled:opacity-50"
+                  >
+                    {savingNote ? 'Saving...' : 'Add Note'}
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => { setNoteFor(flag.id); setNote(''); }}
+                className="mt-2 text-red-700 hover:text-red-900 font-medium"
+              >
+                Add a note for your DSL
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import type { ShareTarget } from '../utils/workspaces';
+
+interface ShareSelectProps {
+  value: ShareTarget;
+  onChange: (target: ShareTarget) => void;
+  disabled?: boolean;
+  label?: string;
+  className?: string;
+}
+
+const WHOLE_SCHOOL = '__organisation__';
+
+/**
+ * Private / whole school / one department, for the active workspace. Teachers can share with the departments
+ * they belong to; school admins with any department. Renders nothing in the personal workspace.
+ */
+export function ShareSelect({ value, onChange, disabled, label = 'Sharing', className = '' }: ShareSelectProps) {
+  const { activeWorkspace, departments, role, myDepartmentIds } = useWorkspace();
+  if (!activeWorkspace) return null;
+
+  const organisationId = activeWorkspace.organisation.id;
+  const options = departments.filter((d) => role === 'school_admin' || myDepartmentIds.includes(d.id));
+  // A row shared into another workspace shows as private here; re-sharing moves it
+  const current = value.organisation_id !== organisationId ? '' : value.department_id || WHOLE_SCHOOL;
+
+  const handleChange = (selected: string) => {
+    if (!selected) {
+      onChange({ organisation_id: null, department_id: null });
+    } else if (selected === WHOLE_SCHOOL) {
+      onChange({ organisation_id: organisationId, department_id: null });
+    } else {
+      onChange({ organisation_id: organisationId, department_id: selected });
+    }
+  };
+
+  return (
+    <select
+      value={current}
+      onChange={(e) => handleChange(e.target.value)}
+      disabled={disabled}
+      aria-label={label}
+      className={`border border-gray-300 rounded p-1 text-sm ${className}`}
+    >
+      <option value="">Private</option>
+      <option value={WHOLE_SCHOOL}>Whole school</option>
+      {options.map((d) => (
+        <option key={d.id} value={d.id}>{d.name} department</option>
+      ))}
+      {/* Keep a department the user has since left selectable as the current value */}
+      {value.department_id && current === value.department_id && !options.some((d) => d.id === value.department_id) && (
+        <option value={value.department_id}>
+          {departments.find((d) => d.id === value.department_id)?.name || 'Another'} department
+        </option>
+      )}
+    </select>
+  );
+}
+
+/** Read-only label for rows you can't re-share */
+export function ShareBadge({ value, shared }: { value: ShareTarget; shared?: boolean }) {
+  const { activeWorkspace, departments } = useWorkspace();
+  if (!activeWorkspace || value.organisation_id !== activeWorkspace.organisation.id) return null;
+  const department = value.department_id ? departments.find((d) => d.id === value.department_id) : null;
+  return (
+    <span className="text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded">
+      {shared ? 'Shared with you · ' : ''}
+      {department ? `${department.name} department` : 'Whole school'}
+    </span>
+  );
+}
@@ -0,0 +1,86 @@
+import type { PartialFeedback } from '../utils/openaiClient';
+
+interface StreamingFeedbackProps {
+  partial: PartialFeedback | null;
+  // Set when the stream stopped early (cancelled or connection lost); the partial result is kept
+  interruption?: string | null;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+/**
+ * Feedback as it streams in: strengths, improvements and the summary appear while the model writes them.
+ */
+export const StreamingFeedback = ({ partial, interruption, onRetry, onDismiss }: StreamingFeedbackProps) => {
+  const strengths = partial?.strengths ?? [];
+  const improvements = partial?.improvements ?? [];
+  const summary = partial?.suggested_feedback ?? '';
+  const hasContent = strengths.length > 0 || improvements.length > 0 || summary.length > 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-lg p-6 space-y-6" aria-live="polite">
+      {interruption ? (
+        <div className="bg-amber-50 border border-amber-300 rounded-lg p-4">
+          <p className="font-semibold text-amber-900">Feedback incomplete</p>
+          <p className="text-sm text-amber-800 mt-1">
+            {interruption} {hasContent ? 'What arrived so far is shown below and has not been saved.' : 'Nothing was received.'}
+          </p>
+          <div className="flex gap-3 mt-3">
+            {onRetry && (
+              <button
+                type="button"
+                onClick={onRetry}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700"
+              >
+                Try Again
+              </button>
+            )}
+            {onDismiss && (
+              <button
+                type="button"
+                onClick={onDismiss}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+              >
+                Dismiss
+              </button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 text-blue-700">
+          <span className="inline-block w-2 h-2 rounded-full bg-blue-600 animate-pulse" />
+          <span className="font-medium">{hasContent ? 'Writing feedback...' : 'Reading the essay...'}</span>
+        </div>
+      )}
+
+      {strengths.length > 0 && (
+        <div className="border-l-4 border-green-500 pl-4">
+          <h4 className="text-lg font-semibold text-gray-800 mb-2">Strengths</h4>
+          <ul className="list-disc pl-5 space-y-1 text-gray-700">
+            {strengths.map((strength, idx) => (
+              <li key={idx}>{strength}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {improvements.length > 0 && (
+        <div className="border-l-4 border-yellow-500 pl-4">
+          <h4 className="text-lg font-semibold text-gray-800 mb-2">Areas for Improvement</h4>
+          <ul className="list-disc pl-5 space-y-1 text-gray-700">
+            {improvements.map((improvement, idx) => (
+              <li key={idx}>{improvement}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {summary && (
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+          <h4 className="text-lg font-semibold text-gray-800 mb-2">Suggested Feedback Summary</h4>
+          <p className="text-gray-700 whitespace-pre-line leading-relaxed">{summary}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState } from 'react';
+import notify from '../utils/notify';
+import {
+  createPortalLink,
+  isLinkActive,
+  LINK_TTL_DAYS,
+  loadPortalLinks,
+  portalUrl,
+  revokePortalLink,
+  type StudentPortalLink,
+} from '../utils/studentPortal';
+
+interface StudentPortalLinksProps {
+  student: { id: string; name: string };
+  onClose: () => void;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+/**
+ * Create, copy and revoke a student's feedback portal links. The full link is only shown once,
+ * straight after it's created; a lost link is revoked and replaced.
+ */
+export const StudentPortalLinks = ({ student, onClose }: StudentPortalLinksProps) => {
+  const [links, setLinks] = useState<StudentPortalLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState<number>(30);
+  const [creating, setCreating] = useState(false);
+  const [newUrl, setNewUrl] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setLinks(await loadPortalLinks(student.id));
+    } catch (error: any) {
+      console.error('❌ Failed to load portal links:', error);
+      notify.error('Failed to load portal links');
+    } finally {
+      setLoading(false);
+    }
+  }, [student.id]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const link = await createPortalLink(student.id, days);
+      setNewUrl(portalUrl(link.token));
+      notify.success('Portal link created');
+      refresh();
+    } catch (error: any) {
+      console.error('❌ Failed to create portal link:', error);
+      notify.error(error.message || 'Failed to create portal link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newUrl) return;
+    try {
+      await navigator.clipboard.writeText(newUrl);
+      notify.success('Link copied');
+    } catch {
+      notify.error('Could not copy; select the link and copy it instead');
+    }
+  };
+
+  const handleRevoke = async (link: StudentPortalLink) => {
+    if (!window.confirm('Switch off this link? The student will need a new one.')) return;
+    try {
+      await revokePortalLink(link.id);
+      notify.success('Link switched off');
+      refresh();
+    } catch (error: any) {
+      console.error('❌ Failed to revoke portal link:', error);
+      notify.error(error.message || 'Failed to revoke link');
+    }
+  };
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="portal-links-title" className="fixed inset-0 bg-black/40 flex items-start sm:items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-xl overflow-hidden">
+        <div className="px-4 py-3 border-b flex justify-between items-center">
+          <h4 id="portal-links-title" className="font-semibold text-lg">Feedback portal: {student.name}</h4>
+          <button onClick={onClose} aria-label="Close portal links" className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <div className="p-4 max-h-[70vh] overflow-y-auto space-y-4">
+          <p className="text-sm text-gray-600">
+            The portal shows only feedback you've released: the score, what went well and next steps (as in the
+            student PDF), the annotated essay and a progress chart.
+          </p>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <label className="text-sm">
+              <span className="block text-gray-700 font-medium mb-1">Link lasts</span>
+              <select
+                value={days}
+                onChange={(e) => setDays(Number(e.target.value))}
+                className="border border-gray-300 rounded px-2 py-1.5"
+              >
+                {LINK_TTL_DAYS.map((d) => <option key={d} value={d}>{d} days</option>)}
+              </select>
+            </label>
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="px-4 py-2 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {creating ? 'Creating...' : 'Create link'}
+            </button>
+          </div>
+
+          {newUrl && (
+            <div className="bg-blue-50 border border-blue-200 rounded p-3 space-y-2">
+              <p className="text-xs text-gray-700">Copy this now; it won't be shown again.</p>
+              <div className="flex gap-2">
+                <input readOnly value={newUrl} onFocus={(e) => e.target.select()} className="flex-1 border rounded px-2 py-1 text-xs" aria-label="Portal link" />
+                <button onClick={handleCopy} className="px-3 py-1 rounded border border-blue-600 text-blue-700 text-sm hover:bg-blue-100">Copy</button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h5 className="font-medium text-sm text-gray-800 mb-2">Links</h5>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading links...</p>
+            ) : links.length === 0 ? (
+              <p className="text-sm text-gray-500">No links yet.</p>
+            ) : (
+              <table className="w-full text-sm border">
+                <thead>
+                  <tr className="bg-gray-100 text-left">
+                    <th className="p-2 border">Created</th>
+                    <th className="p-2 border">Status</th>
+                    <th className="p-2 border">Last opened</th>
+                    <th className="p-2 border"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {links.map((link) => {
+                    const active = isLinkActive(link);
+                    return (
+                      <tr key={link.id}>
+                        <td className="p-2 border">{formatDate(link.created_at)}</td>
+                        <td className="p-2 border">
+                          {link.revoked_at ? 'Switched off' : active ? `Until ${formatDate(link.expires_at)}` : 'Expired'}
+                        </td>
+                        <td className="p-2 border">{link.last_opened_at ? formatDate(link.last_opened_at) : 'Never'}</td>
+                        <td className="p-2 border text-right">
+                          {active && (
+                            <button onClick={() => handleRevoke(link)} className="text-red-600 hover:text-red-800 text-xs font-medium">
+                              Switch off
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
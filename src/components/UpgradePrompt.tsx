@@ -3,9 +3,11 @@ import { Link } from 'react-router-dom';
 interface UpgradePromptProps {
   feature: string;
   description?: string;
+  title?: string;
+  onClose?: () => void; // Dismiss in place instead of navigating back
 }
 
-export const UpgradePrompt = ({ feature, description }: UpgradePromptProps) => {
+export const UpgradePrompt = ({ feature, description, title, onClose }: UpgradePromptProps) => {
   return (
     <div className="fixed inset-0 bg-gray-900 bg-opacity-50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-8">
@@ -16,7 +18,7 @@ export const UpgradePrompt = ({ feature, description }: UpgradePromptProps) => {
             </svg>
           </div>
           <h3 className="text-2xl font-bold text-gray-900 mb-2">
-            Upgrade to Access {feature}
+            {title || `Upgrade to Access ${feature}`}
           </h3>
           <p className="text-gray-600 mb-6">
             {description || `${feature} is available on our Teacher Pro plan. Upgrade now to unlock unlimited features and save hours of marking time.`}
@@ -29,10 +31,10 @@ export const UpgradePrompt = ({ feature, description }: UpgradePromptProps) => {
               View Plans & Upgrade
             </Link>
             <button
-              onClick={() => window.history.back()}
+              onClick={() => (onClose ? onClose() : window.history.back())}
               className="block w-full bg-gray-100 text-gray-700 rounded-lg py-3 px-6 font-semibold hover:bg-gray-200 transition"
             >
-              Go Back
+              {onClose ? 'Not Now' : 'Go Back'}
             </button>
           </div>
         </div>
@@ -6,6 +6,7 @@ interface Profile {
   email: string | null;
   full_name: string | null;
   is_admin: boolean;
+  is_safeguarding_lead?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -63,7 +64,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         // Use maybeSingle() instead of single() to avoid 406 errors when row doesn't exist
         const { data: profileData, error: selectError } = await supabase
           .from('profiles')
-          .select('id, email, full_name, is_admin, created_at, updated_at')
+          .select('id, email, full_name, is_admin, is_safeguarding_lead, created_at, updated_at')
           .eq('id', currentUser.id)
           .maybeSingle();
 
@@ -128,7 +129,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           }
           const { data: newProfile } = await supabase
             .from('profiles')
-            .select('id, email, full_name, is_admin, created_at, updated_at')
+            .select('id, email, full_name, is_admin, is_safeguarding_lead, created_at, updated_at')
             .eq('id', currentUser.id)
             .maybeSingle();
           return newProfile || null;
@@ -226,7 +227,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const { data } = await supabase
         .from('profiles')
-        .select('id, email, full_name, is_admin, created_at, updated_at')
+        .select('id, email, full_name, is_admin, is_safeguarding_lead, created_at, updated_at')
         .eq('id', user.id)
         .maybeSingle();
 
@@ -0,0 +1,96 @@
+import { createContext, useContext, useState, ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from './AuthContext';
+import {
+  loadDepartments,
+  loadMyDepartmentIds,
+  loadWorkspaces,
+  type Department,
+  type WorkspaceMembership,
+  type WorkspaceRole,
+} from '../utils/workspaces';
+
+const STORAGE_KEY = 'simple-rubriq-workspace';
+
+export const workspacesKey = (userId: string | undefined) => ['workspaces', userId];
+export const departmentsKey = (organisationId: string | null) => ['workspace', organisationId, 'departments'];
+export const myDepartmentsKey = (userId: string | undefined) => ['workspace', 'my-departments', userId];
+
+interface WorkspaceContextType {
+  workspaces: WorkspaceMembership[];
+  /** null = the personal workspace */
+  activeWorkspace: WorkspaceMembership | null;
+  activeWorkspaceId: string | null;
+  role: WorkspaceRole | null;
+  departments: Department[];
+  myDepartmentIds: string[];
+  isLoading: boolean;
+  setActiveWorkspaceId: (organisationId: string | null) => void;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
+
+interface WorkspaceProviderProps {
+  children: ReactNode;
+}
+
+export function WorkspaceProvider({ children }: WorkspaceProviderProps) {
+  const { user } = useAuth();
+  const [selectedId, setSelectedId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY));
+
+  const { data: workspaces = [], isLoading } = useQuery<WorkspaceMembership[], Error>(
+    workspacesKey(user?.id),
+    () => loadWorkspaces(user!.id),
+    { enabled: !!user, staleTime: 5 * 60_000 }
+  );
+
+  // Fall back to the personal workspace if the saved one was left or deleted
+  const activeWorkspace = workspaces.find((w) => w.organisation.id === selectedId) ?? null;
+  const activeWorkspaceId = activeWorkspace?.organisation.id ?? null;
+
+  const { data: departments = [] } = useQuery<Department[], Error>(
+    departmentsKey(activeWorkspaceId),
+    () => loadDepartments(activeWorkspaceId!),
+    { enabled: !!activeWorkspaceId, staleTime: 5 * 60_000 }
+  );
+
+  const { data: myDepartmentIds = [] } = useQuery<string[], Error>(
+    myDepartmentsKey(user?.id),
+    () => loadMyDepartmentIds(user!.id),
+    { enabled: !!user && workspaces.length > 0, staleTime: 5 * 60_000 }
+  );
+
+  const setActiveWorkspaceId = (organisationId: string | null) => {
+    setSelectedId(organisationId);
+    if (organisationId) {
+      localStorage.setItem(STORAGE_KEY, organisationId);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  };
+
+  return (
+    <WorkspaceContext.Provider
+      value={{
+        workspaces,
+        activeWorkspace,
+        activeWorkspaceId,
+        role: activeWorkspace?.role ?? null,
+        departments,
+        myDepartmentIds,
+        isLoading: !!user && isLoading,
+        setActiveWorkspaceId,
+      }}
+    >
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+}
@@ -1,3 +1,5 @@
+import type { MarkSchemeCriterion } from '../utils/markSchemeParser';
+
 // GCSE Rubric Templates Phase 1
 export type AssessmentObjective = 'AO1' | 'AO2' | 'AO3' | 'AO4';
 
@@ -104,10 +106,31 @@ export const gcseRubricTemplates: GCSERubricTemplate[] = [
   }
 ];
 
+// Board IDs the templates are published for, in template order
+export const GCSE_EXAM_BOARDS: string[] = Array.from(new Set(gcseRubricTemplates.map(t => t.examBoard)));
+
 export function getTemplatesByBoard(board: string) {
   return gcseRubricTemplates.filter(t => t.examBoard === board);
 }
 
+/**
+ * One criterion per assessment objective, each marked on the template's bands (band N = N marks).
+ * The bands describe the whole response, so every AO is judged against the same descriptors.
+ */
+export function gcseTemplateCriteria(tpl: GCSERubricTemplate): MarkSchemeCriterion[] {
+  const top = Math.max(...tpl.bands.map(b => b.band));
+  const levels = [...tpl.bands]
+    .sort((a, b) => b.band - a.band)
+    .map(b => ({ level: b.band, minMarks: b.band, maxMarks: b.band, descriptor: `${b.level}: ${b.descriptor}` }));
+  return tpl.assessmentObjectives.map(a => ({
+    category: a.ao,
+    maxPoints: top,
+    description: a.description,
+    levels,
+    indicativeContent: [],
+  }));
+}
+
 export function getTemplate(id: string) {
   return gcseRubricTemplates.find(t => t.id === id);
 }
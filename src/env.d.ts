@@ -5,6 +5,8 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_ANON_KEY: string
   // Comma-separated list of admin emails for override (e.g. "teacher@test.com,admin@site.com")
   readonly VITE_ADMIN_EMAILS?: string
+  // Where OCR language data (<lang>.traineddata.gz) is served from; defaults to /tesseract
+  readonly VITE_OCR_LANG_PATH?: string
 }
 
 interface ImportMeta {
@@ -0,0 +1,54 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  createAnnotation,
+  deleteAnnotation,
+  loadAnnotations,
+  updateAnnotation,
+  type AnnotationChanges,
+  type EssayAnnotationRow,
+} from '../utils/annotations';
+
+export const essayAnnotationsKey = (essayId: string | null | undefined) => ['essay', 'annotations', essayId];
+
+export function useEssayAnnotations(essayId: string | null | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = essayAnnotationsKey(essayId);
+
+  const query = useQuery<EssayAnnotationRow[], Error>(
+    queryKey,
+    () => loadAnnotations(essayId!),
+    { enabled: !!user && !!essayId, staleTime: 30_000, cacheTime: 5 * 60_000, retry: 1 }
+  );
+
+  const refresh = () => queryClient.invalidateQueries(queryKey);
+
+  const add = async (
+    annotation: Pick<EssayAnnotationRow, 'start_offset' | 'length' | 'quote' | 'type' | 'ao' | 'comment'>
+  ) => {
+    if (!user || !essayId) return;
+    await createAnnotation(user.id, { ...annotation, essay_id: essayId });
+    await refresh();
+  };
+
+  const update = async (id: string, changes: AnnotationChanges) => {
+    await updateAnnotation(id, changes);
+    await refresh();
+  };
+
+  const remove = async (id: string) => {
+    await deleteAnnotation(id);
+    await refresh();
+  };
+
+  return {
+    annotations: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    refresh,
+    add,
+    update,
+    remove,
+  };
+}
@@ -21,14 +21,11 @@ export const usePlan = (): UserPlan => {
       }
 
       try {
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('plan')
-          .eq('id', user.id)
-          .single();
+        // Their own subscription, or 'school' through a school-plan workspace
+        const { data, error } = await supabase.rpc('effective_plan');
 
         if (error) throw error;
-        setPlan(data?.plan || 'free');
+        setPlan(data || 'free');
       } catch (error) {
         console.error('Error fetching plan:', error);
         setPlan('free');
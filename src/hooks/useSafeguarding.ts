@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getSafeguardingLead,
+  loadEssaySafeguarding,
+  loadSafeguardingQueue,
+  screenEssay,
+  type EssaySafeguarding,
+  type SafeguardingLead,
+  type SafeguardingQueueEntry,
+} from '../utils/safeguarding';
+
+export const essaySafeguardingKey = (essayId: string | null | undefined) => ['essay', 'safeguarding', essayId];
+export const safeguardingLeadKey = ['safeguarding', 'lead'];
+export const safeguardingQueueKey = ['safeguarding', 'queue'];
+
+/**
+ * Flags on one essay. Essays that were never screened (saved before screening existed, or whose
+ * screen failed) are screened the first time they're shown.
+ */
+export function useEssaySafeguarding(essayId: string | null | undefined) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const screenRequested = useRef<string | null>(null);
+
+  const query = useQuery<EssaySafeguarding, Error>(
+    essaySafeguardingKey(essayId),
+    () => loadEssaySafeguarding(essayId!),
+    { enabled: !!user && !!essayId, staleTime: 30_000, retry: 1 }
+  );
+
+  const unscreened = !!essayId && !!query.data && !query.data.screenedAt;
+  useEffect(() => {
+    if (!unscreened || screenRequested.current === essayId) return;
+    screenRequested.current = essayId!;
+    screenEssay(essayId!)
+      .then(() => queryClient.invalidateQueries(essaySafeguardingKey(essayId)))
+      .catch((error) => console.error('❌ Safeguarding check failed:', error));
+  }, [unscreened, essayId, queryClient]);
+
+  return {
+    flags: query.data?.flags ?? [],
+    screened: !!query.data?.screenedAt,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+export function useSafeguardingLead() {
+  const { user } = useAuth();
+  return useQuery<SafeguardingLead | null, Error>(safeguardingLeadKey, getSafeguardingLead, {
+    enabled: !!user,
+    staleTime: 5 * 60_000,
+  });
+}
+
+/**
+ * The lead's queue; only fetched for profiles with safeguarding lead access. Polls so the Navbar badge stays current.
+ */
+export function useSafeguardingQueue() {
+  const { user, profile } = useAuth();
+  return useQuery<SafeguardingQueueEntry[], Error>(safeguardingQueueKey, loadSafeguardingQueue, {
+    enabled: !!user && !!profile?.is_safeguarding_lead,
+    staleTime: 30_000,
+    refetchInterval: 60_000,
+  });
+}
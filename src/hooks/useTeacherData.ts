@@ -1,45 +1,87 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
+import { workspaceFilter } from '../utils/workspaces';
+import { assignmentsKey, loadAssignments, type Assignment } from '../utils/assignments';
+import {
+  gradeBoundarySetsKey,
+  loadBoundarySets,
+  loadRubricBoundaries,
+  rubricBoundariesKey,
+  type GradeBoundarySet,
+} from '../utils/gradeBoundaries';
 
-export type Rubric = { id: string; name: string; subject: string; exam_board?: string };
+export type Rubric = { id: string; name: string; subject: string; exam_board?: string; grade_boundary_set_id?: string | null };
 export type Student = { id: string; name: string };
 
-async function fetchRubrics(userId: string): Promise<Rubric[]> {
+async function fetchRubrics(userId: string, workspaceId: string | null): Promise<Rubric[]> {
   const { data, error } = await supabase
     .from('rubrics')
-    .select('id, name, subject, exam_board')
-    .eq('teacher_id', userId)
+    .select('id, name, subject, exam_board, grade_boundary_set_id')
+    .or(workspaceFilter(userId, workspaceId))
     .order('created_at', { ascending: false });
   if (error) throw error;
   return data || [];
 }
 
-async function fetchStudents(userId: string): Promise<Student[]> {
+async function fetchStudents(userId: string, workspaceId: string | null): Promise<Student[]> {
   const { data, error } = await supabase
     .from('students')
     .select('id, name')
-    .eq('teacher_id', userId)
+    .or(workspaceFilter(userId, workspaceId))
     .eq('active', true)
     .order('name');
   if (error) throw error;
   return data || [];
 }
 
+// Your own rubrics and students, plus those shared with the active workspace
 export function useTeacherRubrics() {
   const { user } = useAuth();
+  const { activeWorkspaceId } = useWorkspace();
   return useQuery<Rubric[], Error>(
-    ['teacher', 'rubrics', user?.id],
-    () => fetchRubrics(user!.id),
+    ['teacher', 'rubrics', user?.id, activeWorkspaceId],
+    () => fetchRubrics(user!.id, activeWorkspaceId),
     { enabled: !!user, refetchOnWindowFocus: true, staleTime: 60_000, cacheTime: 5 * 60_000, retry: 1 }
   );
 }
 
 export function useTeacherStudents() {
   const { user } = useAuth();
+  const { activeWorkspaceId } = useWorkspace();
   return useQuery<Student[], Error>(
-    ['teacher', 'students', user?.id],
-    () => fetchStudents(user!.id),
+    ['teacher', 'students', user?.id, activeWorkspaceId],
+    () => fetchStudents(user!.id, activeWorkspaceId),
     { enabled: !!user, refetchOnWindowFocus: true, staleTime: 60_000, cacheTime: 5 * 60_000, retry: 1 }
   );
 }
+
+// Assignments are never shared, so only your own
+export function useTeacherAssignments() {
+  const { user } = useAuth();
+  return useQuery<Assignment[], Error>(
+    assignmentsKey(user?.id),
+    () => loadAssignments(user!.id),
+    { enabled: !!user, refetchOnWindowFocus: true, staleTime: 60_000, cacheTime: 5 * 60_000, retry: 1 }
+  );
+}
+
+// Grade boundary sets are never shared directly, only through the rubrics linked to them
+export function useGradeBoundarySets() {
+  const { user } = useAuth();
+  return useQuery<GradeBoundarySet[], Error>(
+    gradeBoundarySetsKey(user?.id),
+    () => loadBoundarySets(user!.id),
+    { enabled: !!user, refetchOnWindowFocus: true, staleTime: 60_000, cacheTime: 5 * 60_000, retry: 1 }
+  );
+}
+
+export function useRubricBoundaries(rubricIds: string[]) {
+  const { user } = useAuth();
+  return useQuery<Map<string, GradeBoundarySet>, Error>(
+    rubricBoundariesKey(rubricIds),
+    () => loadRubricBoundaries(rubricIds),
+    { enabled: !!user && rubricIds.some(Boolean), staleTime: 60_000, cacheTime: 5 * 60_000, retry: 1 }
+  );
+}
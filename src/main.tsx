@@ -6,6 +6,7 @@ import App from './App';
 import { testSupabaseConnection } from './lib/supabaseClient';
 import { AuthProvider } from './contexts/AuthContext';
 import { ThemeProvider } from './contexts/ThemeContext';
+import { WorkspaceProvider } from './contexts/WorkspaceContext';
 import './index.css';
 
 const queryClient = new QueryClient();
@@ -16,7 +17,9 @@ ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
       <BrowserRouter>
         <ThemeProvider>
           <AuthProvider>
-            <App />
+            <WorkspaceProvider>
+              <App />
+            </WorkspaceProvider>
           </AuthProvider>
         </ThemeProvider>
       </BrowserRouter>
@@ -1,11 +1,20 @@
-import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabaseClient';
 import ConfirmModal from '../components/ConfirmModal';
 import Navbar from '../components/Navbar';
 import { notify } from '../utils/notify';
 import { PageGuide } from '../components/PageGuide';
+import {
+  connectClassroom,
+  disconnectClassroom,
+  loadClassroomConnection,
+  type ClassroomConnection,
+} from '../utils/googleClassroom';
+import { safeguardingLeadKey, useSafeguardingLead } from '../hooks/useSafeguarding';
+import { setSafeguardingLead } from '../utils/safeguarding';
 
 export default function AccountSettings() {
   const { user, profile, signOut, refreshProfile } = useAuth();
@@ -17,6 +26,73 @@ export default function AccountSettings() {
   const [sessionTimeout, setSessionTimeout] = useState(() => {
     return localStorage.getItem('simple-rubriq-session-timeout') || '30';
   });
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [classroom, setClassroom] = useState<ClassroomConnection | null>(null);
+  const [classroomBusy, setClassroomBusy] = useState(false);
+  const queryClient = useQueryClient();
+  const { data: safeguardingLead } = useSafeguardingLead();
+  const [leadEmail, setLeadEmail] = useState('');
+  const [leadBusy, setLeadBusy] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    loadClassroomConnection(user.id)
+      .then(setClassroom)
+      .catch((error) => console.error('❌ Failed to load Google Classroom connection:', error));
+  }, [user]);
+
+  // Google's OAuth redirect lands back here with ?classroom=connected|error
+  useEffect(() => {
+    const status = searchParams.get('classroom');
+    if (!status) return;
+    if (status === 'connected') {
+      notify.success('Google Classroom connected');
+    } else {
+      notify.error(searchParams.get('message') || 'Could not connect Google Classroom');
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const handleConnectClassroom = async () => {
+    setClassroomBusy(true);
+    try {
+      await connectClassroom();
+    } catch (error: any) {
+      console.error('❌ Failed to start Google Classroom connection:', error);
+      notify.error(error.message || 'Could not start Google Classroom connection');
+      setClassroomBusy(false);
+    }
+  };
+
+  const handleSetSafeguardingLead = async (email: string) => {
+    setLeadBusy(true);
+    try {
+      const lead = await setSafeguardingLead(email);
+      queryClient.setQueryData(safeguardingLeadKey, lead);
+      setLeadEmail('');
+      notify.success(lead ? `${lead.full_name || lead.email} is now your safeguarding lead` : 'Safeguarding lead removed');
+    } catch (error: any) {
+      console.error('❌ Failed to set safeguarding lead:', error);
+      notify.error(error.message || 'Failed to set safeguarding lead');
+    } finally {
+      setLeadBusy(false);
+    }
+  };
+
+  const handleDisconnectClassroom = async () => {
+    if (!window.confirm('Disconnect Google Classroom? Synced students and imported essays are kept.')) return;
+    setClassroomBusy(true);
+    try {
+      await disconnectClassroom();
+      setClassroom(null);
+      notify.success('Google Classroom disconnected');
+    } catch (error: any) {
+      console.error('❌ Failed to disconnect Google Classroom:', error);
+      notify.error(error.message || 'Failed to disconnect Google Classroom');
+    } finally {
+      setClassroomBusy(false);
+    }
+  };
 
   // Update profile information
   const handleUpdateProfile = async (e: React.FormEvent) => {
@@ -157,6 +233,14 @@ export default function AccountSettings() {
                   title: 'Profile details',
                   body: <p>Update your name and refresh the profile; email is read-only.</p>,
                 },
+                {
+                  title: 'Google Classroom',
+                  body: <p>Connect once to sync rosters on the Students page, import submissions in Batch Processing and send draft grades back.</p>,
+                },
+                {
+                  title: 'Safeguarding lead',
+                  body: <p>Nominate your school's Designated Safeguarding Lead. Concerns the safeguarding check finds in your students' essays go to their queue.</p>,
+                },
                 {
                   title: 'Session timeout',
                   body: <p>Pick an inactivity limit to auto-sign-out on shared devices.</p>,
@@ -224,6 +308,108 @@ export default function AccountSettings() {
         </div>
       </section>
 
+      {/* Integrations */}
+      <section className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+          Google Classroom
+        </h2>
+        {classroom ? (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <p className="text-green-600 dark:text-green-400 font-medium">
+                ✓ Connected{classroom.google_email ? ` as ${classroom.google_email}` : ''}
+              </p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {classroom.last_sync_at
+                  ? `Last roster sync ${new Date(classroom.last_sync_at).toLocaleString()}`
+                  : 'No rosters synced yet. Use Sync Google Classroom on the Students page.'}
+              </p>
+            </div>
+            <button
+              onClick={handleDisconnectClassroom}
+              disabled={classroomBusy}
+              className="px-4 py-2 text-red-600 hover:text-red-700 border border-red-200 rounded-lg font-medium disabled:opacity-50"
+            >
+              Disconnect
+            </button>
+          </div>
+        ) : (
+          <div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+              Sync class rosters, import turned-in work for marking and send draft grades back to Classroom.
+              Draft grades are only written when you choose to send them.
+            </p>
+            <button
+              onClick={handleConnectClassroom}
+              disabled={classroomBusy}
+              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              {classroomBusy ? 'Redirecting...' : 'Connect Google Classroom'}
+            </button>
+          </div>
+        )}
+      </section>
+
+      {/* Safeguarding */}
+      <section className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
+          Designated Safeguarding Lead
+        </h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+          Every essay is screened for safeguarding concerns. Flags appear on the essay for you and in your DSL's
+          escalation queue, where they acknowledge them and keep case notes.
+        </p>
+        {safeguardingLead ? (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3">
+            <p className="text-gray-900 dark:text-white">
+              <span className="font-medium">{safeguardingLead.full_name || safeguardingLead.email}</span>
+              {safeguardingLead.full_name && safeguardingLead.email ? ` (${safeguardingLead.email})` : ''}
+            </p>
+            <button
+              onClick={() => {
+                if (window.confirm('Remove your safeguarding lead? New concerns will only be shown to you.')) {
+                  handleSetSafeguardingLead('');
+                }
+              }}
+              disabled={leadBusy}
+              className="px-4 py-2 text-red-600 hover:text-red-700 border border-red-200 rounded-lg font-medium disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-amber-700 dark:text-amber-400 mb-3">
+            No lead nominated: safeguarding concerns are only shown to you.
+          </p>
+        )}
+        <div className="flex gap-2">
+          <input
+            type="email"
+            value={leadEmail}
+            onChange={(e) => setLeadEmail(e.target.value)}
+            placeholder="dsl@yourschool.org"
+            aria-label="Safeguarding lead email"
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+          />
+          <button
+            onClick={() => handleSetSafeguardingLead(leadEmail)}
+            disabled={leadBusy || !leadEmail.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {safeguardingLead ? 'Change' : 'Nominate'}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+          Your DSL needs their own account with safeguarding lead access, granted by an admin.
+        </p>
+        {profile?.is_safeguarding_lead && (
+          <p className="text-sm mt-3">
+            You are a safeguarding lead.{' '}
+            <Link to="/safeguarding" className="text-blue-600 hover:text-blue-800 underline">Open the safeguarding queue</Link>
+          </p>
+        )}
+      </section>
+
       {/* Security Settings */}
       <section className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 mb-6">
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">
@@ -18,6 +18,7 @@ interface UserProfile {
   email: string;
   full_name: string | null;
   is_admin: boolean;
+  is_safeguarding_lead?: boolean;
   created_at: string;
   essay_count: number;
   rubric_count: number;
@@ -120,6 +121,23 @@ export function AdminUsers() {
     }
   };
 
+  const toggleSafeguardingLead = async (userId: string, currentStatus: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ is_safeguarding_lead: !currentStatus })
+        .eq('id', userId);
+
+      if (error) throw error;
+
+      notify.success(`Safeguarding lead access ${!currentStatus ? 'granted' : 'revoked'}`);
+      fetchUsers(); // Refresh the list
+    } catch (error) {
+      console.error('Error updating safeguarding lead status:', error);
+      notify.error('Failed to update safeguarding lead access');
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -285,6 +303,9 @@ export function AdminUsers() {
                           <div>
                             <div className="text-sm font-medium text-gray-900 dark:text-white">
                               {user.full_name || 'Unnamed User'}
+                              {user.is_safeguarding_lead && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-100 text-blue-800 text-xs font-medium">DSL</span>
+                              )}
                             </div>
                             <div className="text-xs text-gray-500 dark:text-gray-400">
                               ID: {user.id.slice(0, 8)}...
@@ -323,6 +344,16 @@ export function AdminUsers() {
                         >
                           {user.is_admin ? 'Revoke Admin' : 'Make Admin'}
                         </button>
+                        <button
+                          onClick={() => toggleSafeguardingLead(user.id, !!user.is_safeguarding_lead)}
+                          className={`mt-2 block px-3 py-1 rounded-md text-xs font-medium ${
+                            user.is_safeguarding_lead
+                              ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 hover:bg-red-200 dark:hover:bg-red-800'
+                              : 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 hover:bg-blue-200 dark:hover:bg-blue-800'
+                          }`}
+                        >
+                          {user.is_safeguarding_lead ? 'Revoke DSL' : 'Make DSL'}
+                        </button>
                       </td>
                     </tr>
                   ))
@@ -23,6 +23,9 @@ import Navbar from '../components/Navbar';
 import ErrorBoundary from '../components/ErrorBoundary';
 import { exportToCSV } from '../utils/csvExport';
 import { PageGuide } from '../components/PageGuide';
+import { formatCriterionPoints, formatCriterionScore, toCriterionScores } from '../utils/rubricUtils';
+import type { CriterionScore } from '../utils/openaiClient';
+import { GCSE_GRADES, gradeForScore, loadRubricBoundaries, type Grade } from '../utils/gradeBoundaries';
 
 interface FeedbackData {
   id: string;
@@ -32,6 +35,8 @@ interface FeedbackData {
   essay_title: string;
   rubric_name: string;
   student_name?: string;
+  criteria_scores: CriterionScore[];
+  grade: Grade | null; // From the rubric's grade boundaries, if it has any
 }
 
 interface GradeDistribution {
@@ -51,6 +56,14 @@ interface RubricPerformance {
   count: number;
 }
 
+interface CriterionPerformance {
+  criterion: string;
+  avgPoints: number;
+  maxPoints: number;
+  avgPercent: number;
+  count: number;
+}
+
 interface StudentPerformance {
   name: string;
   avgScore: number;
@@ -70,9 +83,11 @@ function Analytics() {
     standardDeviation: 0,
   });
   const [gradeDistribution, setGradeDistribution] = useState<GradeDistribution[]>([]);
+  const [gcseGradeDistribution, setGcseGradeDistribution] = useState<GradeDistribution[]>([]);
   const [trendData, setTrendData] = useState<TrendData[]>([]);
   const [rubricPerformance, setRubricPerformance] = useState<RubricPerformance[]>([]);
   const [studentPerformance, setStudentPerformance] = useState<StudentPerformance[]>([]);
+  const [criterionPerformance, setCriterionPerformance] = useState<CriterionPerformance[]>([]);
 
   useEffect(() => {
     if (user?.id) {
@@ -102,8 +117,10 @@ function Analytics() {
         });
         setFeedbackData([]);
         setGradeDistribution([]);
+        setGcseGradeDistribution([]);
         setTrendData([]);
         setRubricPerformance([]);
+        setCriterionPerformance([]);
         setLoading(false);
         return;
       }
@@ -114,7 +131,7 @@ function Analytics() {
       // Try fetching with student names first
       const { data: dataWithStudents, error: errorWithStudents } = await supabase
         .from('feedback')
-        .select('id, essay_id, overall_score, created_at, essays!inner(id,title,rubric_id,teacher_id, students(name))')
+        .select('id, essay_id, overall_score, criteria_scores, created_at, essays!inner(id,title,rubric_id,teacher_id, students(name))')
         .eq('essays.teacher_id', user!.id)
         .order('created_at', { ascending: false })
         .limit(500);
@@ -126,7 +143,7 @@ function Analytics() {
         // Fallback: fetch without students(name)
         const { data: dataWithoutStudents, error: errorWithoutStudents } = await supabase
           .from('feedback')
-          .select('id, essay_id, overall_score, created_at, essays!inner(id,title,rubric_id,teacher_id)')
+          .select('id, essay_id, overall_score, criteria_scores, created_at, essays!inner(id,title,rubric_id,teacher_id)')
           .eq('essays.teacher_id', user!.id)
           .order('created_at', { ascending: false })
           .limit(500);
@@ -157,6 +174,12 @@ function Analytics() {
         }
       }
 
+      // Grades use the boundaries as they are now, so past essays are regraded when boundaries change
+      const rubricBoundaries = await loadRubricBoundaries(Array.from(rubricIdSet)).catch((error) => {
+        console.warn('Failed to load grade boundaries for analytics', error);
+        return new Map();
+      });
+
       // Transform feedback data
       const transformedFeedback: FeedbackData[] = (feedbackJoined || []).map((f: any) => {
         const essayTitle = f.essays?.title || 'Untitled Essay';
@@ -170,6 +193,8 @@ function Analytics() {
           essay_title: essayTitle,
           rubric_name: rname,
           student_name: sname,
+          criteria_scores: toCriterionScores(f.criteria_scores),
+          grade: gradeForScore(f.overall_score, f.essays?.rubric_id ? rubricBoundaries.get(f.essays.rubric_id) : null),
         };
       });
 
@@ -227,6 +252,14 @@ function Analytics() {
           Object.entries(distribution).map(([range, count]) => ({ range, count }))
         );
 
+        // GCSE grades, for essays marked with a rubric that has grade boundaries
+        const graded = transformedFeedback.filter(f => f.grade);
+        setGcseGradeDistribution(
+          graded.length > 0
+            ? [...GCSE_GRADES, 'U'].map(grade => ({ range: grade, count: graded.filter(f => f.grade === grade).length }))
+            : []
+        );
+
         // Calculate trend data (last 30 days)
         const last30Days = new Date();
         last30Days.setDate(last30Days.getDate() - 30);
@@ -271,6 +304,29 @@ function Analytics() {
 
         setRubricPerformance(performance);
 
+        // Calculate criterion performance (same criterion name and maxPoints are grouped together)
+        const criterionGroups: { [key: string]: { criterion: string; maxPoints: number; points: number[] } } = {};
+        transformedFeedback.forEach(f => {
+          f.criteria_scores.forEach(c => {
+            const key = `${c.criterion}|${c.max_points}`;
+            if (!criterionGroups[key]) criterionGroups[key] = { criterion: c.criterion, maxPoints: c.max_points, points: [] };
+            criterionGroups[key].points.push(c.points);
+          });
+        });
+
+        const criterionPerf = Object.values(criterionGroups).map(({ criterion, maxPoints, points }) => {
+          const avgPoints = Math.round((points.reduce((a, b) => a + b, 0) / points.length) * 10) / 10;
+          return {
+            criterion,
+            avgPoints,
+            maxPoints,
+            avgPercent: Math.round((avgPoints / maxPoints) * 100),
+            count: points.length,
+          };
+        });
+
+        setCriterionPerformance(criterionPerf);
+
         // Calculate Student Performance
         const studentGroups: { [key: string]: { scores: number[], dates: Date[] } } = {};
         transformedFeedback.forEach(f => {
@@ -318,9 +374,11 @@ function Analytics() {
       });
       setFeedbackData([]);
       setGradeDistribution([]);
+      setGcseGradeDistribution([]);
       setTrendData([]);
       setRubricPerformance([]);
       setStudentPerformance([]);
+      setCriterionPerformance([]);
     } finally {
       setLoading(false);
     }
@@ -331,6 +389,8 @@ function Analytics() {
       'Essay Title': item.essay_title,
       'Rubric Name': item.rubric_name,
       'Score': item.overall_score,
+      'Grade': item.grade ?? '',
+      'Criteria': item.criteria_scores.map(formatCriterionScore).join('; '),
       'Date': new Date(item.created_at).toLocaleDateString('en-US', {
         year: 'numeric',
         month: 'short',
@@ -618,6 +678,27 @@ function Analytics() {
             </div>
           )}
 
+          {/* GCSE Grades */}
+          {gcseGradeDistribution.length > 0 && (
+            <div className="bg-white p-4 sm:p-6 rounded-lg shadow-md overflow-hidden mb-6">
+              <h3 className="text-lg sm:text-xl font-bold text-gray-900 mb-1">GCSE Grades</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                {gcseGradeDistribution.reduce((sum, g) => sum + g.count, 0)} essays marked with rubrics that have grade boundaries
+              </p>
+              <div className="w-full overflow-x-auto">
+                <ResponsiveContainer width="100%" height={260} minWidth={320}>
+                  <BarChart data={gcseGradeDistribution}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E5E7EB" />
+                    <XAxis dataKey="range" tick={{ fill: '#6B7280', fontSize: 12 }} axisLine={false} tickLine={false} />
+                    <YAxis allowDecimals={false} tick={{ fill: '#6B7280', fontSize: 12 }} axisLine={false} tickLine={false} />
+                    <Tooltip cursor={{ fill: '#F3F4F6' }} formatter={(value: number) => [`${value} essays`, 'Grade']} />
+                    <Bar dataKey="count" fill="#10b981" name="Number of Essays" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          )}
+
           {/* Charts Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
             {/* Grade Distribution */}
@@ -832,6 +913,33 @@ function Analytics() {
             </div>
           )}
 
+          {/* Criterion Performance */}
+          {criterionPerformance.length > 0 && (
+            <div className="bg-white p-4 sm:p-6 rounded-lg shadow-md mb-8">
+              <h3 className="text-lg sm:text-xl font-bold text-gray-900 mb-1">Performance by Criterion</h3>
+              <p className="text-sm text-gray-500 mb-4">Average points awarded per rubric criterion, out of its maximum.</p>
+              <div className="space-y-3">
+                {criterionPerformance.map((c) => (
+                  <div key={`${c.criterion}|${c.maxPoints}`}>
+                    <div className="flex items-center justify-between text-sm mb-1">
+                      <span className="font-medium text-gray-900">{c.criterion}</span>
+                      <span className="text-gray-600">
+                        <span className="font-semibold text-gray-900">{formatCriterionPoints({ points: c.avgPoints, max_points: c.maxPoints })}</span>
+                        <span className="ml-2 text-xs">({c.count} essay{c.count === 1 ? '' : 's'})</span>
+                      </span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${c.avgPercent >= 80 ? 'bg-green-500' : c.avgPercent >= 60 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                        style={{ width: `${c.avgPercent}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Recent Graded Essays Table */}
           <div className="bg-white rounded-lg shadow-md overflow-hidden">
             <div className="px-6 py-4 border-b border-gray-200">
@@ -846,6 +954,8 @@ function Analytics() {
                     <th className="px-6 py-3">Essay Title</th>
                     <th className="px-6 py-3">Rubric</th>
                     <th className="px-6 py-3">Score</th>
+                    <th className="px-6 py-3">Grade</th>
+                    <th className="px-6 py-3">Criteria</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
@@ -868,6 +978,10 @@ function Analytics() {
                           {item.overall_score}
                         </span>
                       </td>
+                      <td className="px-6 py-3 font-bold text-gray-900">{item.grade ?? '—'}</td>
+                      <td className="px-6 py-3 text-gray-600 text-xs">
+                        {item.criteria_scores.length > 0 ? item.criteria_scores.map(formatCriterionScore).join(' · ') : '—'}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
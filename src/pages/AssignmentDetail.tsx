@@ -0,0 +1,153 @@
+import { Link, useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import Navbar from '../components/Navbar';
+import ErrorBoundary from '../components/ErrorBoundary';
+import { useTeacherAssignments } from '../hooks/useTeacherData';
+import {
+  SUBMISSION_STATUS_LABELS,
+  assignmentSubmissionsKey,
+  countSubmissions,
+  formatDueDate,
+  isOverWordLimit,
+  loadAssignment,
+  loadAssignmentSubmissions,
+  type Assignment,
+  type StudentSubmission,
+  type SubmissionStatus,
+} from '../utils/assignments';
+
+const STATUS_STYLES: Record<SubmissionStatus, string> = {
+  marked: 'bg-green-100 text-green-800',
+  submitted: 'bg-blue-100 text-blue-800',
+  missing: 'bg-red-100 text-red-800',
+  not_due: 'bg-gray-100 text-gray-700',
+};
+
+function AssignmentDetail() {
+  const { assignmentId } = useParams<{ assignmentId: string }>();
+  const { user } = useAuth();
+  const { data: assignments = [] } = useTeacherAssignments();
+  const cached = assignments.find((a) => a.id === assignmentId);
+
+  const { data: assignment, isLoading: loadingAssignment, error: assignmentError } = useQuery<Assignment | null, Error>(
+    ['assignments', 'detail', assignmentId],
+    () => loadAssignment(assignmentId!),
+    { enabled: !!user && !!assignmentId, initialData: cached, staleTime: 30_000 }
+  );
+  const { data: rows = [], isLoading: loadingRows, error: rowsError } = useQuery<StudentSubmission[], Error>(
+    assignmentSubmissionsKey(assignmentId),
+    () => loadAssignmentSubmissions(assignment!, user!.id),
+    { enabled: !!user && !!assignment, staleTime: 30_000 }
+  );
+
+  const counts = countSubmissions(rows);
+  const error = assignmentError || rowsError;
+
+  return (
+    <>
+      <Navbar />
+      <ErrorBoundary>
+        <div className="p-4 sm:p-6 max-w-6xl mx-auto">
+          <Link to="/assignments" className="text-sm text-blue-600 hover:text-blue-800">← All assignments</Link>
+
+          {loadingAssignment ? (
+            <div className="flex items-center justify-center min-h-[30vh]">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : error ? (
+            <p className="text-red-600 mt-4">Failed to load assignment: {error.message}</p>
+          ) : !assignment ? (
+            <p className="text-gray-600 mt-4">Assignment not found.</p>
+          ) : (
+            <>
+              <div className="mt-3 mb-6">
+                <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">{assignment.title}</h2>
+                <div className="text-sm text-gray-600 mt-1 flex flex-wrap gap-x-3">
+                  <span>Due {formatDueDate(assignment.due_at)}</span>
+                  {assignment.class_section && <span>Class {assignment.class_section}</span>}
+                  {assignment.word_limit && <span>{assignment.word_limit} word limit</span>}
+                </div>
+                {assignment.prompt && <p className="mt-3 text-gray-800 whitespace-pre-wrap">{assignment.prompt}</p>}
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+                {[
+                  { label: 'Submitted', value: counts.submitted, className: 'text-blue-700' },
+                  { label: 'Missing', value: counts.missing, className: 'text-red-700' },
+                  { label: 'Late', value: counts.late, className: 'text-amber-700' },
+                  { label: 'Marked', value: counts.marked, className: 'text-green-700' },
+                ].map((card) => (
+                  <div key={card.label} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                    <p className="text-sm text-gray-600">{card.label}</p>
+                    <p className={`text-2xl font-bold ${card.className}`}>
+                      {card.value}
+                      {counts.total > 0 && card.label !== 'Late' && (
+                        <span className="text-sm font-normal text-gray-500"> / {counts.total}</span>
+                      )}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {!assignment.class_section && (
+                <p className="text-sm text-gray-600 mb-4">
+                  No class section is set, so only students who have handed work in are listed.
+                </p>
+              )}
+
+              {loadingRows ? (
+                <p className="text-sm text-gray-500">Loading submissions...</p>
+              ) : rows.length === 0 ? (
+                <div className="bg-white rounded-lg shadow-sm p-12 text-center text-gray-600">
+                  No students in this class and nothing handed in yet.
+                </div>
+              ) : (
+                <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b bg-gray-50">
+                        <th className="py-2 px-4 font-medium">Student</th>
+                        <th className="py-2 px-4 font-medium">Status</th>
+                        <th className="py-2 px-4 font-medium">Handed in</th>
+                        <th className="py-2 px-4 font-medium">Words</th>
+                        <th className="py-2 px-4 font-medium">Score</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row, idx) => (
+                        <tr key={row.essay_id ?? row.student_id ?? idx} className="border-b last:border-0">
+                          <td className="py-2 px-4">
+                            <span className={row.on_roster ? 'text-gray-900' : 'text-gray-500 italic'}>{row.student_name}</span>
+                            {row.essay_title && <p className="text-xs text-gray-500">{row.essay_title}</p>}
+                          </td>
+                          <td className="py-2 px-4">
+                            <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[row.status]}`}>
+                              {SUBMISSION_STATUS_LABELS[row.status]}
+                            </span>
+                            {row.late && (
+                              <span className="ml-1 px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">Late</span>
+                            )}
+                          </td>
+                          <td className="py-2 px-4 text-gray-700">
+                            {row.submitted_at ? new Date(row.submitted_at).toLocaleString() : '–'}
+                          </td>
+                          <td className={`py-2 px-4 ${row.word_count !== null && isOverWordLimit(assignment, row.word_count) ? 'text-red-700 font-medium' : 'text-gray-700'}`}>
+                            {row.word_count ?? '–'}
+                          </td>
+                          <td className="py-2 px-4 text-gray-900 font-medium">{row.score !== null ? `${row.score}%` : '–'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </ErrorBoundary>
+    </>
+  );
+}
+
+export default AssignmentDetail;
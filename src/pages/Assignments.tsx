@@ -0,0 +1,307 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import notify from '../utils/notify';
+import Navbar from '../components/Navbar';
+import ErrorBoundary from '../components/ErrorBoundary';
+import ConfirmModal from '../components/ConfirmModal';
+import { PageGuide } from '../components/PageGuide';
+import { useTeacherAssignments, useTeacherRubrics } from '../hooks/useTeacherData';
+import {
+  assignmentsKey,
+  deleteAssignment,
+  formatDueDate,
+  isPastDue,
+  loadClassSections,
+  saveAssignment,
+  type Assignment,
+} from '../utils/assignments';
+
+interface AssignmentForm {
+  title: string;
+  prompt: string;
+  rubric_id: string;
+  class_section: string;
+  due_at: string; // datetime-local value
+  word_limit: string;
+}
+
+const EMPTY_FORM: AssignmentForm = { title: '', prompt: '', rubric_id: '', class_section: '', due_at: '', word_limit: '' };
+
+// datetime-local inputs work in local time without a zone
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+function Assignments() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: assignments = [], isLoading, error } = useTeacherAssignments();
+  const { data: rubrics = [] } = useTeacherRubrics();
+  const { data: classSections = [] } = useQuery<string[], Error>(
+    ['teacher', 'class-sections', user?.id],
+    () => loadClassSections(user!.id),
+    { enabled: !!user, staleTime: 60_000 }
+  );
+  const [form, setForm] = useState<AssignmentForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [toDelete, setToDelete] = useState<Assignment | null>(null);
+
+  const rubricName = (id: string | null) => rubrics.find((r) => r.id === id)?.name;
+
+  const openForm = (assignment?: Assignment) => {
+    setEditingId(assignment?.id ?? null);
+    setForm(assignment
+      ? {
+          title: assignment.title,
+          prompt: assignment.prompt || '',
+          rubric_id: assignment.rubric_id || '',
+          class_section: assignment.class_section || '',
+          due_at: toLocalInput(assignment.due_at),
+          word_limit: assignment.word_limit ? String(assignment.word_limit) : '',
+        }
+      : EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    setForm({ ...form, [e.target.name]: e.target.value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (!form.title.trim()) {
+      notify.error('Please enter a title');
+      return;
+    }
+    const wordLimit = form.word_limit ? Number(form.word_limit) : null;
+    if (wordLimit !== null && (!Number.isInteger(wordLimit) || wordLimit <= 0)) {
+      notify.error('The word limit must be a whole number of words');
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveAssignment(user.id, {
+        title: form.title,
+        prompt: form.prompt,
+        rubric_id: form.rubric_id || null,
+        class_section: form.class_section,
+        due_at: form.due_at ? new Date(form.due_at).toISOString() : null,
+        word_limit: wordLimit,
+      }, editingId ?? undefined);
+      queryClient.invalidateQueries(assignmentsKey(user.id));
+      notify.success(editingId ? 'Assignment updated' : 'Assignment set');
+      setShowForm(false);
+      setEditingId(null);
+      setForm(EMPTY_FORM);
+    } catch (error: any) {
+      console.error('❌ Failed to save assignment:', error);
+      notify.error(`Failed to save assignment: ${error.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete || !user) return;
+    try {
+      await deleteAssignment(toDelete.id);
+      queryClient.invalidateQueries(assignmentsKey(user.id));
+      notify.success('Assignment deleted');
+    } catch (error: any) {
+      console.error('❌ Failed to delete assignment:', error);
+      notify.error(`Failed to delete assignment: ${error.message || 'Unknown error'}`);
+    } finally {
+      setToDelete(null);
+    }
+  };
+
+  return (
+    <>
+      <Navbar />
+      <ErrorBoundary>
+        <div className="p-4 sm:p-6 max-w-6xl mx-auto">
+          <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">Assignments</h2>
+              <p className="text-sm sm:text-base text-gray-600 mt-1">Set work for a class and see who has handed it in</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <PageGuide
+                title="Setting assignments"
+                ctaLabel="Assignments guide"
+                summary="An assignment is a piece of work set for one class, with a question, rubric, due date and word limit."
+                sections={[
+                  { title: 'Set work', body: <p>Pick the class section from your student roster. Students in that section are expected to hand the work in.</p> },
+                  { title: 'File essays', body: <p>Choose the assignment in Essay Feedback or Batch Processor. Its rubric is selected for you, and its question and word limit are given to the AI when marking.</p> },
+                  { title: 'Track submissions', body: <p>Open an assignment to see, per student, who has submitted, who is missing or late, and whose work is marked.</p> },
+                ]}
+              />
+              <button
+                type="button"
+                onClick={() => openForm()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+              >
+                New Assignment
+              </button>
+            </div>
+          </div>
+
+          {showForm && (
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 mb-6 space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900">{editingId ? 'Edit Assignment' : 'New Assignment'}</h3>
+              <div>
+                <label htmlFor="assignment-title" className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                <input
+                  id="assignment-title"
+                  name="title"
+                  value={form.title}
+                  onChange={handleChange}
+                  placeholder="e.g. Year 10 Macbeth essay"
+                  className="w-full border border-gray-300 rounded-lg p-2"
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="assignment-prompt" className="block text-sm font-medium text-gray-700 mb-1">
+                  Question or task <span className="text-gray-400">(Optional)</span>
+                </label>
+                <textarea
+                  id="assignment-prompt"
+                  name="prompt"
+                  value={form.prompt}
+                  onChange={handleChange}
+                  rows={3}
+                  placeholder="e.g. How does Shakespeare present ambition in Macbeth?"
+                  className="w-full border border-gray-300 rounded-lg p-2"
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="assignment-rubric" className="block text-sm font-medium text-gray-700 mb-1">Rubric</label>
+                  <select
+                    id="assignment-rubric"
+                    name="rubric_id"
+                    value={form.rubric_id}
+                    onChange={handleChange}
+                    className="w-full border border-gray-300 rounded-lg p-2"
+                  >
+                    <option value="">-- Choose when marking --</option>
+                    {rubrics.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="assignment-class" className="block text-sm font-medium text-gray-700 mb-1">Class section</label>
+                  <input
+                    id="assignment-class"
+                    name="class_section"
+                    value={form.class_section}
+                    onChange={handleChange}
+                    list="assignment-class-sections"
+                    placeholder="e.g. 10A"
+                    className="w-full border border-gray-300 rounded-lg p-2"
+                  />
+                  <datalist id="assignment-class-sections">
+                    {classSections.map((section) => <option key={section} value={section} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label htmlFor="assignment-due" className="block text-sm font-medium text-gray-700 mb-1">Due</label>
+                  <input
+                    id="assignment-due"
+                    name="due_at"
+                    type="datetime-local"
+                    value={form.due_at}
+                    onChange={handleChange}
+                    className="w-full border border-gray-300 rounded-lg p-2"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="assignment-words" className="block text-sm font-medium text-gray-700 mb-1">
+                    Word limit <span className="text-gray-400">(Optional)</span>
+                  </label>
+                  <input
+                    id="assignment-words"
+                    name="word_limit"
+                    type="number"
+                    min="1"
+                    value={form.word_limit}
+                    onChange={handleChange}
+                    className="w-full border border-gray-300 rounded-lg p-2"
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => { setShowForm(false); setEditingId(null); }}
+                  className="px-4 py-2 rounded-lg border bg-white hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Set Assignment'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center min-h-[30vh]">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : error ? (
+            <p className="text-red-600">Failed to load assignments: {error.message}</p>
+          ) : assignments.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm p-12 text-center text-gray-600">
+              No assignments yet. Set one to start tracking submissions.
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {assignments.map((a) => (
+                <li key={a.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <Link to={`/assignments/${a.id}`} className="font-semibold text-gray-900 hover:text-blue-700">
+                      {a.title}
+                    </Link>
+                    <div className="text-sm text-gray-600 mt-1 flex flex-wrap gap-x-3">
+                      <span className={isPastDue(a) ? 'text-gray-500' : 'text-gray-800'}>Due {formatDueDate(a.due_at)}</span>
+                      {a.class_section && <span>Class {a.class_section}</span>}
+                      {rubricName(a.rubric_id) && <span>{rubricName(a.rubric_id)}</span>}
+                      {a.word_limit && <span>{a.word_limit} words</span>}
+                    </div>
+                  </div>
+                  <div className="flex gap-3 text-sm">
+                    <Link to={`/assignments/${a.id}`} className="text-blue-600 hover:text-blue-800 font-medium">Submissions</Link>
+                    <button type="button" onClick={() => openForm(a)} className="text-gray-600 hover:text-gray-900 font-medium">Edit</button>
+                    <button type="button" onClick={() => setToDelete(a)} className="text-red-600 hover:text-red-800 font-medium">Delete</button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </ErrorBoundary>
+      <ConfirmModal
+        isOpen={!!toDelete}
+        onClose={() => setToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete assignment?"
+        message={`"${toDelete?.title ?? ''}" will be deleted. Essays and feedback filed against it are kept.`}
+        confirmText="Delete"
+      />
+    </>
+  );
+}
+
+export default Assignments;
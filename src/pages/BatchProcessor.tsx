@@ -1,12 +1,39 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
 import { supabase } from '../lib/supabaseClient';
 import notify from '../utils/notify';
 import { parseEssayFile } from '../utils/essayParser';
-import { generateAiFeedback } from '../utils/edgeFunctions';
+import { workspaceFilter } from '../utils/workspaces';
+import {
+  createBatchJob,
+  isActiveJob,
+  kickBatchWorker,
+  loadBatchJob,
+  loadBatchJobs,
+  retryFailedItems,
+  setBatchJobStatus,
+  type BatchJob,
+  type BatchJobItem,
+} from '../utils/batchJobs';
+import { releaseBatchFeedback } from '../utils/studentPortal';
+import { useTeacherAssignments } from '../hooks/useTeacherData';
+import { isOverWordLimit } from '../utils/assignments';
+import {
+  MATCH_SOURCE_LABELS,
+  isConfidentMatch,
+  suggestStudents,
+  type MatchableStudent,
+  type StudentMatch,
+} from '../utils/studentMatching';
+import { DELIVERY_STATUS_LABELS, describeSendResult, loadBatchDeliveries, sendFeedbackEmails, type Delivery } from '../utils/deliveries';
 import JSZip from 'jszip';
 import Navbar from '../components/Navbar';
 import { PageGuide } from '../components/PageGuide';
+import { UpgradePrompt } from '../components/UpgradePrompt';
+import { ClassroomImportPanel } from '../components/ClassroomImportPanel';
+import { DELIVERY_STATUS_STYLES } from '../components/DeliveryHistory';
 
 interface BatchEssay {
   id: string;
@@ -15,32 +42,41 @@ interface BatchEssay {
   content: string;
   studentId?: string;
   studentName?: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
   wordCount: number;
-  score?: number;
-  error?: string;
-  feedbackId?: string;
+  suggestions: StudentMatch[]; // Ranked, most likely first
+  confirmed: boolean; // False until the teacher has checked an uncertain match
 }
 
-interface Student {
-  id: string;
-  name: string;
-}
+type Student = MatchableStudent;
+
+const QUOTA_PAUSE_REASONS = ['quota_exceeded', 'daily_limit_reached'];
+// While a job is active the page re-kicks the worker so it doesn't wait for the next cron tick
+const KICK_INTERVAL_MS = 15000;
 
 function BatchProcessor() {
   const { user } = useAuth();
+  const { activeWorkspaceId } = useWorkspace();
   const [essays, setEssays] = useState<BatchEssay[]>([]);
   const [rubricId, setRubricId] = useState<string>('');
+  const [assignmentId, setAssignmentId] = useState<string>('');
+  const { data: assignments = [] } = useTeacherAssignments();
+  const selectedAssignment = assignments.find(a => a.id === assignmentId);
   const [rubrics, setRubrics] = useState<Array<{ id: string; name: string; subject: string }>>([]);
   const [students, setStudents] = useState<Student[]>([]);
-  const [processing, setProcessing] = useState(false);
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [progress, setProgress] = useState(0);
+  const [starting, setStarting] = useState(false);
   const [autoMatchStudents, setAutoMatchStudents] = useState(true);
+  const [showUncheckedOnly, setShowUncheckedOnly] = useState(false);
   const [aiPreMark, setAiPreMark] = useState(true);
-  const [showResults, setShowResults] = useState(false);
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [items, setItems] = useState<BatchJobItem[]>([]);
+  const [dismissedQuotaJobId, setDismissedQuotaJobId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<Map<string, Delivery>>(new Map());
+  const [emailing, setEmailing] = useState(false);
+  const [ccGuardian, setCcGuardian] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const jobId = searchParams.get('job');
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const isPaused = useRef(false);
 
   useEffect(() => {
     if (!user) return;
@@ -50,7 +86,7 @@ function BatchProcessor() {
       const { data: rubricsData } = await supabase
         .from('rubrics')
         .select('id, name, subject')
-        .eq('teacher_id', user.id)
+        .or(workspaceFilter(user.id, activeWorkspaceId))
         .order('created_at', { ascending: false });
       
       if (rubricsData) setRubrics(rubricsData);
@@ -58,8 +94,8 @@ function BatchProcessor() {
       // Load students
       const { data: studentsData } = await supabase
         .from('students')
-        .select('id, name')
-        .eq('teacher_id', user.id)
+        .select('id, name, student_id')
+        .or(workspaceFilter(user.id, activeWorkspaceId))
         .eq('active', true)
         .order('name');
       
@@ -67,8 +103,88 @@ function BatchProcessor() {
     };
     
     loadData();
+  }, [user, activeWorkspaceId]);
+
+  const refreshJobs = useCallback(async () => {
+    if (!user) return;
+    try {
+      setJobs(await loadBatchJobs(user.id));
+    } catch (error) {
+      console.error('❌ Failed to load batch jobs:', error);
+    }
   }, [user]);
 
+  const refreshJob = useCallback(async () => {
+    if (!jobId) return;
+    try {
+      const result = await loadBatchJob(jobId);
+      if (!result) {
+        notify.error('Batch job not found');
+        setSearchParams({});
+        return;
+      }
+      setJob(result.job);
+      setItems(result.items);
+    } catch (error) {
+      console.error('❌ Failed to load batch job:', error);
+    }
+  }, [jobId, setSearchParams]);
+
+  // Latest email per essay in the batch
+  const refreshDeliveries = useCallback(async () => {
+    if (!jobId) return;
+    try {
+      const rows = await loadBatchDeliveries(jobId);
+      const latest = new Map<string, Delivery>();
+      rows.forEach((d) => {
+        if (d.essay_id && !latest.has(d.essay_id)) latest.set(d.essay_id, d);
+      });
+      setDeliveries(latest);
+    } catch (error) {
+      console.error('❌ Failed to load batch deliveries:', error);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    refreshJobs();
+  }, [refreshJobs]);
+
+  useEffect(() => {
+    setDeliveries(new Map());
+    refreshDeliveries();
+  }, [refreshDeliveries]);
+
+  useEffect(() => {
+    setJob(null);
+    setItems([]);
+    if (!jobId) return;
+    refreshJob();
+
+    // Live progress: the worker updates items and the job row as it goes
+    const channel = supabase
+      .channel(`batch-job-${jobId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'batch_job_items', filter: `job_id=eq.${jobId}` }, () => {
+        refreshJob();
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'batch_jobs', filter: `id=eq.${jobId}` }, () => {
+        refreshJob();
+      })
+      .subscribe();
+    return () => { supabase.removeChannel(channel); };
+  }, [jobId, refreshJob]);
+
+  const jobActive = !!job && isActiveJob(job);
+
+  useEffect(() => {
+    if (!jobActive) return;
+    // Fallback for missed Realtime events, and keeps the worker busy while the page is open
+    const timer = window.setInterval(() => {
+      kickBatchWorker();
+      refreshJob();
+    }, KICK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [jobActive, refreshJob]);
+
   const handleFilesUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length === 0) return;
@@ -100,7 +216,8 @@ function BatchProcessor() {
                 title: filename.replace(/\.(txt|docx|pdf)$/i, ''),
                 content,
                 wordCount,
-                status: 'pending',
+                suggestions: [],
+                confirmed: true,
               });
             } catch (error) {
               console.error(`Failed to parse ${filename}:`, error);
@@ -119,7 +236,8 @@ function BatchProcessor() {
               title: file.name.replace(/\.(txt|docx|pdf)$/i, ''),
               content,
               wordCount,
-              status: 'pending',
+              suggestions: [],
+              confirmed: true,
             });
           } catch (error) {
             console.error(`Failed to parse ${file.name}:`, error);
@@ -141,17 +259,14 @@ function BatchProcessor() {
         notify.info(`Loaded ${loadedEssays.length} essays. ${errors.length} files failed to load.`);
       }
 
-      // Auto-match students by filename if enabled
+      // Suggest a student for each essay; only confident matches skip the teacher's review
       if (autoMatchStudents && students.length > 0) {
         loadedEssays.forEach(essay => {
-          const matchedStudent = students.find(s => 
-            essay.filename.toLowerCase().includes(s.name.toLowerCase()) ||
-            essay.title.toLowerCase().includes(s.name.toLowerCase())
-          );
-          if (matchedStudent) {
-            essay.studentId = matchedStudent.id;
-            essay.studentName = matchedStudent.name;
-          }
+          essay.suggestions = suggestStudents(essay, students);
+          const best = students.find(s => s.id === essay.suggestions[0]?.studentId);
+          essay.studentId = best?.id;
+          essay.studentName = best?.name;
+          essay.confirmed = isConfidentMatch(essay.suggestions);
         });
       }
 
@@ -175,148 +290,167 @@ function BatchProcessor() {
           ...e,
           studentId: studentId || undefined,
           studentName: student?.name || undefined,
+          confirmed: true,
         };
       }
       return e;
     }));
   };
 
+  // Students matched to more than one staged essay
+  const duplicateStudentIds = new Set(
+    essays
+      .map(e => e.studentId)
+      .filter((id, idx, ids): id is string => !!id && ids.indexOf(id) !== idx)
+  );
+  const uncheckedCount = essays.filter(e => !e.confirmed).length;
+  const visibleEssays = showUncheckedOnly
+    ? essays.filter(e => !e.confirmed || (e.studentId && duplicateStudentIds.has(e.studentId)))
+    : essays;
+
+  const confirmAllMatches = () => {
+    setEssays(prev => prev.map(e => ({ ...e, confirmed: true })));
+  };
+
   const startProcessing = async () => {
     if (!rubricId) {
       notify.error('Please select a rubric');
       return;
     }
 
-    if (!user) {
-      notify.error('Please sign in');
+    const unchecked = essays.filter(e => !e.confirmed).length;
+    if (
+      (unchecked > 0 || duplicateStudentIds.size > 0) &&
+      !window.confirm(
+        unchecked > 0
+          ? `${unchecked} student ${unchecked === 1 ? 'match hasn\'t' : 'matches haven\'t'} been checked. Start processing anyway?`
+          : 'Some students are matched to more than one essay. Start processing anyway?'
+      )
+    ) {
       return;
     }
 
-    setProcessing(true);
-    setCurrentIndex(0);
-    setProgress(0);
-    isPaused.current = false;
-
-    // Get rubric criteria
-    const { data: rubricData, error: rubricError } = await supabase
-      .from('rubrics')
-      .select('criteria')
-      .eq('id', rubricId)
-      .single();
-
-    if (rubricError || !rubricData) {
-      notify.error('Failed to load rubric');
-      setProcessing(false);
+    if (!user) {
+      notify.error('Please sign in');
       return;
     }
 
-    const pendingEssays = essays.filter(e => e.status === 'pending' || e.status === 'error');
-    
-    for (let i = 0; i < pendingEssays.length; i++) {
-      if (isPaused.current) break;
-
-      const essay = pendingEssays[i];
-      setCurrentIndex(i);
-
-      // Update status to processing
-      setEssays(prev => prev.map(e => 
-        e.id === essay.id ? { ...e, status: 'processing' } : e
-      ));
-
-      try {
-        // Generate AI feedback if enabled
-        let aiFeedback = null;
-        if (aiPreMark) {
-          aiFeedback = await generateAiFeedback(essay.content, { criteria: rubricData.criteria });
-        }
+    setStarting(true);
+    try {
+      const rubricName = rubrics.find(r => r.id === rubricId)?.name || 'Batch';
+      const created = await createBatchJob(user.id, {
+        rubricId,
+        assignmentId: assignmentId || undefined,
+        name: `${selectedAssignment?.title || rubricName} — ${new Date().toLocaleString()}`,
+        aiPreMark,
+        items: essays.map(e => ({
+          filename: e.filename,
+          title: e.title,
+          content: e.content,
+          wordCount: e.wordCount,
+          studentId: e.studentId,
+        })),
+      });
 
-        // Save essay to database
-        const { data: essayDbData, error: essayError } = await supabase
-          .from('essays')
-          .insert([{
-            title: essay.title,
-            content: essay.content,
-            word_count: essay.wordCount,
-            teacher_id: user.id,
-            rubric_id: rubricId,
-            student_id: essay.studentId || null,
-          }])
-          .select('id')
-          .single();
-
-        if (essayError || !essayDbData) {
-          throw new Error('Failed to save essay');
-        }
+      setEssays([]);
+      setSearchParams({ job: created.id });
+      notify.success(`Queued ${created.total_items} essays. Marking continues on the server if you close this page.`);
+      kickBatchWorker();
+      refreshJobs();
+    } catch (error: any) {
+      console.error('❌ Failed to start batch:', error);
+      notify.error(error.message || 'Failed to start batch');
+    } finally {
+      setStarting(false);
+    }
+  };
 
-        // Save feedback to database if AI pre-mark is enabled
-        let feedbackDbData = null;
-        if (aiPreMark && aiFeedback) {
-          const { data: feedbackData, error: feedbackError } = await supabase
-            .from('feedback')
-            .insert([{
-              essay_id: essayDbData.id,
-              rubric_id: rubricId,
-              grammar_issues: aiFeedback.grammar_issues,
-              strengths: aiFeedback.strengths,
-              improvements: aiFeedback.improvements,
-              suggested_feedback: aiFeedback.suggested_feedback,
-              overall_score: aiFeedback.overall_score,
-            }])
-            .select('id')
-            .single();
-
-          if (feedbackError || !feedbackData) {
-            throw new Error('Failed to save feedback');
-          }
-          feedbackDbData = feedbackData;
-        }
+  const updateJobStatus = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (!job) return;
+    if (action === 'cancel' && !window.confirm('Cancel this batch? Essays already marked are kept.')) return;
 
-        // Update essay status to completed
-        setEssays(prev => prev.map(e => 
-          e.id === essay.id 
-            ? { 
-                ...e, 
-                status: 'completed', 
-                score: aiFeedback?.overall_score,
-                feedbackId: feedbackDbData?.id,
-              } 
-            : e
-        ));
-
-      } catch (error: any) {
-        console.error(`Error processing essay ${essay.title}:`, error);
-        setEssays(prev => prev.map(e => 
-          e.id === essay.id 
-            ? { ...e, status: 'error', error: error.message } 
-            : e
-        ));
+    try {
+      await setBatchJobStatus(job.id, action);
+      if (action === 'resume') {
+        setDismissedQuotaJobId(null);
+        kickBatchWorker();
       }
+      notify.info(action === 'pause' ? 'Processing paused' : action === 'resume' ? 'Processing resumed' : 'Batch cancelled');
+      await refreshJob();
+      refreshJobs();
+    } catch (error) {
+      console.error(`❌ Failed to ${action} batch:`, error);
+      notify.error(`Failed to ${action} batch`);
+    }
+  };
 
-      // Update progress
-      setProgress(Math.round(((i + 1) / pendingEssays.length) * 100));
+  const releaseFeedback = async (release: boolean) => {
+    if (!job) return;
+    if (!release && !window.confirm('Withdraw this batch\'s feedback from the student portal?')) return;
+
+    try {
+      const changed = await releaseBatchFeedback(job.id, release);
+      notify.success(
+        release
+          ? `Released feedback on ${changed} essay${changed === 1 ? '' : 's'} to the student portal`
+          : `Withdrew feedback on ${changed} essay${changed === 1 ? '' : 's'}`
+      );
+    } catch (error) {
+      console.error('❌ Failed to update batch release:', error);
+      notify.error('Failed to update release');
+    }
+  };
+
+  const emailFeedback = async () => {
+    if (!job) return;
+    const essayIds = items.filter((item) => item.essay_id && item.status === 'completed').map((item) => item.essay_id as string);
+    if (essayIds.length === 0) {
+      notify.error('No marked essays to send yet');
+      return;
     }
+    if (!window.confirm(`Email feedback for ${essayIds.length} essay${essayIds.length === 1 ? '' : 's'} to the students${ccGuardian ? ', copying parents/guardians' : ''}?`)) return;
 
-    setProcessing(false);
-    setShowResults(true);
-    notify.success('Batch processing completed!');
+    setEmailing(true);
+    try {
+      const result = await sendFeedbackEmails(essayIds, { jobId: job.id, ccGuardian });
+      const summary = describeSendResult(result);
+      if (result.failed || result.bounced) notify.error(summary);
+      else notify.success(summary);
+    } catch (error: any) {
+      console.error('❌ Failed to email batch feedback:', error);
+      notify.error(error.message || 'Failed to send emails');
+    } finally {
+      setEmailing(false);
+      refreshDeliveries();
+    }
   };
 
-  const pauseProcessing = () => {
-    isPaused.current = true;
-    setProcessing(false);
-    notify.info('Processing paused');
+  const retryFailed = async () => {
+    if (!job) return;
+    try {
+      await retryFailedItems(job);
+      kickBatchWorker();
+      notify.info('Retrying failed essays');
+      await refreshJob();
+      refreshJobs();
+    } catch (error) {
+      console.error('❌ Failed to retry essays:', error);
+      notify.error('Failed to retry essays');
+    }
   };
 
+  const studentName = (studentId: string | null) => students.find(s => s.id === studentId)?.name;
+
   const exportResults = () => {
     const csv = [
       ['Title', 'Student', 'Score', 'Word Count', 'Status', 'Error'].join(','),
-      ...essays.map(e => [
-        `"${e.title}"`,
-        `"${e.studentName || 'Unassigned'}"`,
-        e.score || '',
-        e.wordCount,
-        e.status,
-        `"${e.error || ''}"`,
+      ...items.map(item => [
+        `"${item.title}"`,
+        `"${studentName(item.student_id) || 'Unassigned'}"`,
+        item.score ?? '',
+        item.word_count ?? '',
+        item.status,
+        `"${item.last_error || ''}"`,
       ].join(','))
     ].join('\n');
 
@@ -331,16 +465,20 @@ function BatchProcessor() {
 
   const resetBatch = () => {
     setEssays([]);
-    setProgress(0);
-    setCurrentIndex(0);
-    setShowResults(false);
+    setShowUncheckedOnly(false);
+  };
+
+  const openJob = (id: string | null) => {
+    setSearchParams(id ? { job: id } : {});
   };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'text-green-600 bg-green-50';
-      case 'processing': return 'text-blue-600 bg-blue-50';
+      case 'processing':
+      case 'running': return 'text-blue-600 bg-blue-50';
       case 'error': return 'text-red-600 bg-red-50';
+      case 'paused': return 'text-orange-600 bg-orange-50';
       default: return 'text-gray-600 bg-gray-50';
     }
   };
@@ -348,19 +486,33 @@ function BatchProcessor() {
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'completed': return '✓';
-      case 'processing': return '⟳';
+      case 'processing':
+      case 'running': return '⟳';
       case 'error': return '✗';
+      case 'paused': return '❚❚';
       default: return '○';
     }
   };
 
-  const completedCount = essays.filter(e => e.status === 'completed').length;
-  const errorCount = essays.filter(e => e.status === 'error').length;
-  const pendingCount = essays.filter(e => e.status === 'pending').length;
+  const jobProgress = (j: BatchJob) =>
+    j.total_items > 0 ? Math.round(((j.completed_items + j.failed_items) / j.total_items) * 100) : 0;
+
+  const processingCount = items.filter(i => i.status === 'processing').length;
+  const retryingCount = items.filter(i => i.status === 'pending' && i.attempts > 0).length;
+  const quotaPaused =
+    !!job && job.status === 'paused' && QUOTA_PAUSE_REASONS.includes(job.paused_reason || '') && dismissedQuotaJobId !== job.id;
 
   return (
     <>
       <Navbar />
+      {quotaPaused && job && (
+        <UpgradePrompt
+          feature="AI Marking"
+          title={job.paused_reason === 'daily_limit_reached' ? 'Daily Marking Limit Reached' : 'Monthly Marking Quota Used'}
+          description={`${job.last_error || 'Your marking allowance is used up.'} Unmarked essays stay in the queue — resume the batch once your allowance resets.`}
+          onClose={() => setDismissedQuotaJobId(job.id)}
+        />
+      )}
       <div className="p-6 max-w-7xl mx-auto">
         <div className="mb-6 flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
           <div>
@@ -370,7 +522,7 @@ function BatchProcessor() {
           <PageGuide
             title="How to use Batch Processing"
             ctaLabel="Page guide"
-            summary="Upload a set of essays, apply one rubric, and export results."
+            summary="Upload a set of essays, apply one rubric, and let the server mark them in the background."
             sections={[
               {
                 title: 'Upload essays',
@@ -382,18 +534,22 @@ function BatchProcessor() {
               },
               {
                 title: 'Run and monitor',
-                body: <p>Start Processing to grade pending essays. Pause/resume as needed; progress and statuses update live.</p>,
+                body: <p>Start Processing to queue the batch. Marking runs on the server, so you can close the tab and reopen the batch from Recent Batches on any device. Pause, resume or cancel at any time; failed essays are retried automatically.</p>,
+              },
+              {
+                title: 'Google Classroom',
+                body: <p>Pick a course and assignment to queue its turned-in work as a batch. When marking finishes, Send Draft Grades fills in Classroom's grade column and Copy comment gives you feedback to paste as a private comment.</p>,
               },
               {
                 title: 'Review & export',
-                body: <p>When finished, view scores/feedback and export results for sharing.</p>,
+                body: <p>Scores appear as each essay finishes. Retry any essays that still failed, then export results for sharing.</p>,
               },
             ]}
           />
         </div>
 
         {/* Upload Section */}
-        {essays.length === 0 && (
+        {!jobId && essays.length === 0 && (
           <div className="bg-white rounded-lg shadow-md p-8 mb-6">
             <div className="text-center mb-6">
               <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-purple-100 mb-4">
@@ -430,7 +586,7 @@ function BatchProcessor() {
                     className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
                   />
                   <span className="ml-2 text-sm text-gray-700">
-                    Auto-match students by filename
+                    Suggest students from filenames, names and candidate numbers
                   </span>
                 </label>
               </div>
@@ -441,7 +597,7 @@ function BatchProcessor() {
               <ul className="text-sm text-gray-600 space-y-2">
                 <li>• Upload multiple .txt, .docx, or .pdf files at once</li>
                 <li>• Or upload a ZIP file containing all essays</li>
-                <li>• Name files with student names for auto-matching (e.g., "John_Doe_Essay.docx")</li>
+                <li>• Students are matched from the filename (e.g., "John_Doe_Essay.docx"), a "Name:" line or candidate number at the top of the essay</li>
                 <li>• All essays will be graded using the same rubric</li>
               </ul>
             </div>
@@ -449,10 +605,10 @@ function BatchProcessor() {
         )}
 
         {/* Configuration Section */}
-        {essays.length > 0 && !showResults && (
+        {!jobId && essays.length > 0 && (
           <div className="bg-white rounded-lg shadow-md p-6 mb-6">
             <h3 className="text-xl font-semibold text-gray-900 mb-4">Configuration</h3>
-            
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
               <div>
                 <label className="block font-medium text-gray-700 mb-2">
@@ -463,7 +619,7 @@ function BatchProcessor() {
                   value={rubricId}
                   onChange={e => setRubricId(e.target.value)}
                   className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                  disabled={processing}
+                  disabled={starting}
                 >
                   <option value="">-- Choose a rubric --</option>
                   {rubrics.map(r => (
@@ -473,7 +629,38 @@ function BatchProcessor() {
                   ))}
                 </select>
               </div>
-              
+
+              {assignments.length > 0 && (
+                <div>
+                  <label className="block font-medium text-gray-700 mb-2">
+                    Assignment <span className="text-gray-400 text-sm">(Optional)</span>
+                  </label>
+                  <select
+                    aria-label="Assignment the essays were submitted for"
+                    value={assignmentId}
+                    onChange={e => {
+                      setAssignmentId(e.target.value);
+                      const assignment = assignments.find(a => a.id === e.target.value);
+                      if (assignment?.rubric_id) setRubricId(assignment.rubric_id);
+                    }}
+                    className="w-full border border-gray-300 rounded-lg p-3 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    disabled={starting}
+                  >
+                    <option value="">-- Not set work --</option>
+                    {assignments.map(a => (
+                      <option key={a.id} value={a.id}>
+                        {a.title}{a.class_section ? ` (${a.class_section})` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  {selectedAssignment && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Essays are filed against this assignment; its question and word limit are given to the AI.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className="block font-medium text-gray-700 mb-2">Options</label>
                 <div className="space-y-3">
@@ -483,7 +670,7 @@ function BatchProcessor() {
                       checked={aiPreMark}
                       onChange={e => setAiPreMark(e.target.checked)}
                       className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
-                      disabled={processing}
+                      disabled={starting}
                     />
                     <span className="ml-2 text-sm text-gray-700">
                       AI pre-mark on upload <span className="text-gray-500">(generate feedback automatically)</span>
@@ -495,142 +682,387 @@ function BatchProcessor() {
                 </div>
               </div>
             </div>
-            
-            <div className="mt-6">
-              <label className="block font-medium text-gray-700 mb-2">Status</label>
-              <div className="flex gap-4">
-                <div className="bg-gray-50 rounded-lg px-4 py-3 flex-1">
-                  <p className="text-sm text-gray-600">Total</p>
-                  <p className="text-2xl font-bold text-gray-900">{essays.length}</p>
-                </div>
-                <div className="bg-green-50 rounded-lg px-4 py-3 flex-1">
-                  <p className="text-sm text-green-600">Completed</p>
-                  <p className="text-2xl font-bold text-green-600">{completedCount}</p>
-                </div>
-                <div className="bg-red-50 rounded-lg px-4 py-3 flex-1">
-                  <p className="text-sm text-red-600">Errors</p>
-                  <p className="text-2xl font-bold text-red-600">{errorCount}</p>
-                </div>
-              </div>
-            </div>
 
             <div className="flex gap-3">
-              {!processing && pendingCount > 0 && (
-                <button
-                  onClick={startProcessing}
-                  disabled={!rubricId}
-                  className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
-                >
-                  Start Processing ({pendingCount} essays)
-                </button>
-              )}
-              {processing && (
-                <button
-                  onClick={pauseProcessing}
-                  className="bg-orange-600 text-white px-6 py-3 rounded-lg hover:bg-orange-700 font-medium"
-                >
-                  Pause
-                </button>
-              )}
+              <button
+                onClick={startProcessing}
+                disabled={!rubricId || starting}
+                className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              >
+                {starting ? 'Queuing...' : `Start Processing (${essays.length} essays)`}
+              </button>
               <button
                 onClick={resetBatch}
-                disabled={processing}
+                disabled={starting}
                 className="bg-gray-600 text-white px-6 py-3 rounded-lg hover:bg-gray-700 disabled:opacity-50 font-medium"
               >
                 Reset
               </button>
             </div>
-
-            {processing && (
-              <div className="mt-6">
-                <div className="flex justify-between text-sm text-gray-600 mb-2">
-                  <span>Processing... ({currentIndex + 1} of {pendingCount})</span>
-                  <span>{progress}%</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-3">
-                  <div
-                    className="bg-green-500 h-3 rounded-full transition-all duration-300"
-                    style={{ width: `${progress}%` }}
-                  />
-                </div>
-              </div>
-            )}
           </div>
         )}
 
-        {/* Essays List */}
-        {essays.length > 0 && (
+        {/* Staged Essays */}
+        {!jobId && essays.length > 0 && (
           <div className="bg-white rounded-lg shadow-md overflow-hidden">
-            <div className="p-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
-              <h3 className="text-lg font-semibold text-gray-900">Essays ({essays.length})</h3>
-              {showResults && (
-                <button
-                  onClick={exportResults}
-                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 font-medium text-sm flex items-center gap-2"
-                >
-                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                  </svg>
-                  Export Results
-                </button>
+            <div className="p-4 bg-gray-50 border-b border-gray-200 flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">Essays ({essays.length})</h3>
+                {(uncheckedCount > 0 || duplicateStudentIds.size > 0) && (
+                  <p className="text-sm text-amber-700">
+                    {uncheckedCount > 0 && `${uncheckedCount} student ${uncheckedCount === 1 ? 'match needs' : 'matches need'} checking. `}
+                    {duplicateStudentIds.size > 0 && `${duplicateStudentIds.size} ${duplicateStudentIds.size === 1 ? 'student is' : 'students are'} matched to more than one essay.`}
+                  </p>
+                )}
+              </div>
+              {uncheckedCount > 0 && (
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={showUncheckedOnly}
+                      onChange={e => setShowUncheckedOnly(e.target.checked)}
+                      className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+                    />
+                    <span className="ml-2">Only show essays to check</span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={confirmAllMatches}
+                    disabled={starting}
+                    className="bg-purple-600 text-white px-3 py-1.5 rounded-lg text-sm hover:bg-purple-700 disabled:opacity-50"
+                  >
+                    Confirm All Matches
+                  </button>
+                </div>
               )}
             </div>
-            
+
             <div className="overflow-x-auto">
               <table className="w-full">
                 <thead className="bg-gray-100 border-b border-gray-200">
                   <tr>
-                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Status</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Essay Title</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Student</th>
                     <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Words</th>
-                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Score</th>
-                    <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Error</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200">
-                  {essays.map((essay) => (
-                    <tr key={essay.id} className="hover:bg-gray-50">
-                      <td className="px-4 py-3">
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(essay.status)}`}>
-                          {getStatusIcon(essay.status)} {essay.status}
-                        </span>
-                      </td>
+                  {visibleEssays.map((essay) => {
+                    const match = essay.suggestions.find(m => m.studentId === essay.studentId);
+                    const suggested = essay.suggestions
+                      .map(m => ({ match: m, student: students.find(s => s.id === m.studentId) }))
+                      .filter((m): m is { match: StudentMatch; student: Student } => !!m.student);
+                    return (
+                    <tr key={essay.id} className={essay.confirmed ? 'hover:bg-gray-50' : 'bg-amber-50'}>
                       <td className="px-4 py-3 text-sm text-gray-900 font-medium">{essay.title}</td>
                       <td className="px-4 py-3">
-                        {!processing && essay.status === 'pending' ? (
+                        <div className="flex flex-wrap items-center gap-2">
                           <select
                             aria-label={`Assign student to ${essay.title}`}
                             value={essay.studentId || ''}
                             onChange={e => updateEssayStudent(essay.id, e.target.value)}
+                            disabled={starting}
                             className="text-sm border border-gray-300 rounded px-2 py-1 focus:ring-2 focus:ring-purple-500"
                           >
                             <option value="">Unassigned</option>
-                            {students.map(s => (
-                              <option key={s.id} value={s.id}>{s.name}</option>
-                            ))}
+                            {suggested.length > 0 && (
+                              <optgroup label="Suggested">
+                                {suggested.map(({ match: m, student }) => (
+                                  <option key={student.id} value={student.id}>{student.name} ({m.confidence}%)</option>
+                                ))}
+                              </optgroup>
+                            )}
+                            <optgroup label="All students">
+                              {students.filter(s => !suggested.some(m => m.student.id === s.id)).map(s => (
+                                <option key={s.id} value={s.id}>{s.name}</option>
+                              ))}
+                            </optgroup>
                           </select>
-                        ) : (
-                          <span className="text-sm text-gray-600">{essay.studentName || 'Unassigned'}</span>
+                          {!essay.confirmed && (
+                            <button
+                              type="button"
+                              onClick={() => updateEssayStudent(essay.id, essay.studentId || '')}
+                              disabled={starting}
+                              className="text-xs px-2 py-1 rounded border border-amber-300 bg-white text-amber-800 hover:bg-amber-100"
+                            >
+                              Confirm
+                            </button>
+                          )}
+                          {essay.studentId && duplicateStudentIds.has(essay.studentId) && (
+                            <span className="text-xs px-2 py-0.5 rounded bg-red-100 text-red-800">Also on another essay</span>
+                          )}
+                        </div>
+                        {match ? (
+                          <p className="text-xs text-gray-500 mt-1" title={match.evidence}>
+                            {match.confidence}% · {match.sources.map(src => MATCH_SOURCE_LABELS[src]).join(', ')}
+                          </p>
+                        ) : autoMatchStudents && !essay.studentId && essay.suggestions.length === 0 && (
+                          <p className="text-xs text-gray-500 mt-1">No likely student found</p>
                         )}
                       </td>
-                      <td className="px-4 py-3 text-sm text-gray-600">{essay.wordCount}</td>
-                      <td className="px-4 py-3">
-                        {essay.score !== undefined && (
-                          <span className="text-sm font-semibold text-green-600">{essay.score}/100</span>
-                        )}
+                      <td className={`px-4 py-3 text-sm ${isOverWordLimit(selectedAssignment, essay.wordCount) ? 'text-amber-700 font-medium' : 'text-gray-600'}`}>
+                        {essay.wordCount}
                       </td>
-                      <td className="px-4 py-3 text-sm text-red-600">{essay.error || ''}</td>
                     </tr>
-                  ))}
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
           </div>
         )}
+
+        {/* Google Classroom */}
+        {!jobId && essays.length === 0 && (
+          <ClassroomImportPanel
+            rubrics={rubrics}
+            onImported={(id) => {
+              kickBatchWorker();
+              refreshJobs();
+              openJob(id);
+            }}
+          />
+        )}
+
+        {/* Recent Batches */}
+        {!jobId && essays.length === 0 && jobs.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="p-4 bg-gray-50 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Recent Batches</h3>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {jobs.map(j => (
+                <li key={j.id} className="p-4 flex flex-col md:flex-row md:items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{j.name || 'Batch'}</p>
+                    <p className="text-sm text-gray-500">
+                      {j.completed_items} of {j.total_items} marked
+                      {j.failed_items > 0 && ` · ${j.failed_items} failed`}
+                    </p>
+                    <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                      <div className="bg-green-500 h-2 rounded-full" style={{ width: `${jobProgress(j)}%` }} />
+                    </div>
+                  </div>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(j.status)}`}>
+                    {getStatusIcon(j.status)} {j.status}
+                  </span>
+                  <button
+                    onClick={() => openJob(j.id)}
+                    className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 font-medium text-sm"
+                  >
+                    Open
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Batch Progress */}
+        {jobId && !job && (
+          <div className="bg-white rounded-lg shadow-md p-8 text-center text-gray-600">Loading batch...</div>
+        )}
+
+        {job && (
+          <>
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3 mb-4">
+                <div>
+                  <button onClick={() => openJob(null)} className="text-sm text-purple-600 hover:text-purple-800 mb-1">
+                    ← All batches
+                  </button>
+                  <h3 className="text-xl font-semibold text-gray-900">{job.name || 'Batch'}</h3>
+                  <p className="text-sm text-gray-500">
+                    Started {new Date(job.created_at).toLocaleString()}
+                    {!job.ai_pre_mark && ' · Upload only (no AI pre-mark)'}
+                  </p>
+                </div>
+                <span className={`self-start inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(job.status)}`}>
+                  {getStatusIcon(job.status)} {job.status}
+                </span>
+              </div>
+
+              {job.status === 'paused' && job.last_error && (
+                <div className="mb-4 rounded-lg bg-orange-50 border border-orange-200 p-3 text-sm text-orange-800">
+                  {job.last_error}
+                </div>
+              )}
+
+              <div className="flex gap-4 mb-6">
+                <div className="bg-gray-50 rounded-lg px-4 py-3 flex-1">
+                  <p className="text-sm text-gray-600">Total</p>
+                  <p className="text-2xl font-bold text-gray-900">{job.total_items}</p>
+                </div>
+                <div className="bg-green-50 rounded-lg px-4 py-3 flex-1">
+                  <p className="text-sm text-green-600">Completed</p>
+                  <p className="text-2xl font-bold text-green-600">{job.completed_items}</p>
+                </div>
+                <div className="bg-blue-50 rounded-lg px-4 py-3 flex-1">
+                  <p className="text-sm text-blue-600">In Progress</p>
+                  <p className="text-2xl font-bold text-blue-600">{processingCount}</p>
+                </div>
+                <div className="bg-red-50 rounded-lg px-4 py-3 flex-1">
+                  <p className="text-sm text-red-600">Errors</p>
+                  <p className="text-2xl font-bold text-red-600">{job.failed_items}</p>
+                </div>
+              </div>
+
+              <div className="mb-6">
+                <div className="flex justify-between text-sm text-gray-600 mb-2">
+                  <span>
+                    {jobActive
+                      ? `Processing on the server... ${retryingCount > 0 ? `(${retryingCount} waiting to retry)` : ''}`
+                      : `${job.completed_items + job.failed_items} of ${job.total_items} processed`}
+                  </span>
+                  <span>{jobProgress(job)}%</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-3">
+                  <div
+                    className="bg-green-500 h-3 rounded-full transition-all duration-300"
+                    style={{ width: `${jobProgress(job)}%` }}
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-3">
+                {jobActive && (
+                  <button
+                    onClick={() => updateJobStatus('pause')}
+                    className="bg-orange-600 text-white px-6 py-3 rounded-lg hover:bg-orange-700 font-medium"
+                  >
+                    Pause
+                  </button>
+                )}
+                {job.status === 'paused' && (
+                  <button
+                    onClick={() => updateJobStatus('resume')}
+                    className="bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 font-medium"
+                  >
+                    Resume
+                  </button>
+                )}
+                {job.failed_items > 0 && job.status !== 'cancelled' && (
+                  <button
+                    onClick={retryFailed}
+                    className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 font-medium"
+                  >
+                    Retry Failed ({job.failed_items})
+                  </button>
+                )}
+                {(jobActive || job.status === 'paused') && (
+                  <button
+                    onClick={() => updateJobStatus('cancel')}
+                    className="bg-gray-600 text-white px-6 py-3 rounded-lg hover:bg-gray-700 font-medium"
+                  >
+                    Cancel Batch
+                  </button>
+                )}
+                {job.completed_items > 0 && (
+                  <>
+                    <button
+                      onClick={() => releaseFeedback(true)}
+                      className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 font-medium"
+                      title="Show the marked essays' feedback in each student's portal"
+                    >
+                      Release to Students
+                    </button>
+                    <button
+                      onClick={() => releaseFeedback(false)}
+                      className="bg-white border border-purple-600 text-purple-700 px-6 py-3 rounded-lg hover:bg-purple-50 font-medium"
+                    >
+                      Withdraw Release
+                    </button>
+                    <button
+                      onClick={emailFeedback}
+                      disabled={emailing}
+                      className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+                    >
+                      {emailing ? 'Sending...' : 'Email Feedback'}
+                    </button>
+                    <label className="flex items-center gap-2 text-sm text-gray-700" title="Copy each student's parent or guardian on the email">
+                      <input type="checkbox" checked={ccGuardian} onChange={(e) => setCcGuardian(e.target.checked)} />
+                      CC parents/guardians
+                    </label>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* Essays List */}
+            <div className="bg-white rounded-lg shadow-md overflow-hidden">
+              <div className="p-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">Essays ({items.length})</h3>
+                <button
+                  onClick={exportResults}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 font-medium text-sm flex items-center gap-2"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 10v6m0 0l-3-3m3 3l3-3m2 8H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                  </svg>
+                  Export Results
+                </button>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-100 border-b border-gray-200">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Status</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Essay Title</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Student</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Words</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Score</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Email</th>
+                      <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">Error</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {items.map((item) => (
+                      <tr key={item.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-3">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(item.status)}`}>
+                            {getStatusIcon(item.status)} {item.status}
+                          </span>
+                          {item.status === 'pending' && item.attempts > 0 && (
+                            <span className="block text-xs text-gray-500 mt-1">
+                              Retry at {new Date(item.next_attempt_at).toLocaleTimeString()}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900 font-medium">{item.title}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{studentName(item.student_id) || 'Unassigned'}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{item.word_count ?? ''}</td>
+                        <td className="px-4 py-3">
+                          {item.score !== null && (
+                            <span className="text-sm font-semibold text-green-600">{item.score}/100</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          {(() => {
+                            const delivery = item.essay_id ? deliveries.get(item.essay_id) : undefined;
+                            return delivery ? (
+                              <span
+                                className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${DELIVERY_STATUS_STYLES[delivery.status]}`}
+                                title={delivery.error || delivery.recipient}
+                              >
+                                {DELIVERY_STATUS_LABELS[delivery.status]}
+                              </span>
+                            ) : null;
+                          })()}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-red-600">{item.last_error || ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </>
+        )}
       </div>
     </>
   );
 }
 
-export default BatchProcessor;
\ No newline at end of file
+export default BatchProcessor;
@@ -3,18 +3,29 @@ import { Link } from 'react-router-dom';
 import Navbar from '../components/Navbar';
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
 import notify from '../utils/notify';
 import ErrorBoundary from '../components/ErrorBoundary';
 import { CardSkeleton } from '../components/LoadingSkeleton';
 import { PageGuide } from '../components/PageGuide';
+import { CalibrationSessionPanel } from '../components/CalibrationSessionPanel';
+import { workspaceFilter } from '../utils/workspaces';
+import {
+  CALIBRATION_PHASE_LABELS,
+  createCalibrationSession,
+  deleteCalibrationSession,
+  loadCalibrationSessions,
+  respondToCalibrationInvite,
+  toCalibrationCriteria,
+  type CalibrationSession,
+} from '../utils/calibration';
 
-interface RubricLite { id: string; name: string; }
-interface EssayLite { id: string; title: string; content: string; rubric_id: string | null; }
-interface CalibrationSession { id: string; name: string; rubric_id: string | null; status: string; created_at: string; }
-interface CalibrationMark { id: string; essay_id: string; marker_id: string; scores: { ao1: number; ao2: number; ao3: number; ao4: number }; }
+interface RubricLite { id: string; name: string; criteria: unknown; }
+interface EssayLite { id: string; title: string; rubric_id: string | null; }
 
 function Calibration() {
   const { user } = useAuth();
+  const { activeWorkspaceId } = useWorkspace();
   const [rubrics, setRubrics] = useState<RubricLite[]>([]);
   const [essays, setEssays] = useState<EssayLite[]>([]);
   const [sessions, setSessions] = useState<CalibrationSession[]>([]);
@@ -22,33 +33,38 @@ function Calibration() {
   const [sessionName, setSessionName] = useState('Calibration Set');
   const [sessionRubricId, setSessionRubricId] = useState<string>('');
   const [activeSessionId, setActiveSessionId] = useState<string>('');
-  const [marks, setMarks] = useState<CalibrationMark[]>([]);
-  const [currentEssayId, setCurrentEssayId] = useState<string>('');
-  const [scores, setScores] = useState({ ao1: 0, ao2: 0, ao3: 0, ao4: 0 });
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [showExplainer, setShowExplainer] = useState(true);
 
+  const loadSessions = async () => {
+    if (!user) return;
+    try {
+      setSessions(await loadCalibrationSessions(user.id));
+    } catch (e: any) {
+      setFetchError(e?.message || 'Failed to load sessions');
+    }
+  };
+
   const loadInitial = async () => {
     if (!user) return;
     setInitialLoading(true);
     setFetchError(null);
     try {
-      const [rubricRes, essayRes, sessionRes] = await Promise.all([
-        supabase.from('rubrics').select('id, name').eq('teacher_id', user.id),
-        supabase.from('essays').select('id, title, content, rubric_id').eq('teacher_id', user.id).limit(50),
-        supabase.from('calibration_sessions').select('id, name, rubric_id, status, created_at').eq('created_by', user.id).order('created_at', { ascending: false })
+      const [rubricRes, essayRes] = await Promise.all([
+        supabase.from('rubrics').select('id, name, criteria').or(workspaceFilter(user.id, activeWorkspaceId)),
+        supabase.from('essays').select('id, title, rubric_id').eq('teacher_id', user.id).limit(50),
+        loadSessions(),
       ]);
 
-      if (rubricRes.error || essayRes.error || sessionRes.error) {
-        const msg = rubricRes.error?.message || essayRes.error?.message || sessionRes.error?.message || 'Failed to load data';
+      if (rubricRes.error || essayRes.error) {
+        const msg = rubricRes.error?.message || essayRes.error?.message || 'Failed to load data';
         setFetchError(msg);
       }
 
       setRubrics((rubricRes.data || []) as RubricLite[]);
       setEssays((essayRes.data || []) as EssayLite[]);
-      setSessions((sessionRes.data || []) as CalibrationSession[]);
     } catch (e: any) {
       setFetchError(e?.message || 'Unexpected error loading data');
     } finally {
@@ -59,37 +75,31 @@ function Calibration() {
   useEffect(() => {
     if (!user) return;
     loadInitial();
-  }, [user]);
+  }, [user, activeWorkspaceId]);
 
   useEffect(() => {
     const dismissed = typeof window !== 'undefined' && localStorage.getItem('calibrationExplainerDismissed') === '1';
     if (dismissed) setShowExplainer(false);
   }, []);
 
-  // (Future) sessionEssays reserved for expanded UI; suppress unused warning for now
+  const sessionCriteria = useMemo(
+    () => toCalibrationCriteria(rubrics.find(r => r.id === sessionRubricId)?.criteria),
+    [rubrics, sessionRubricId]
+  );
 
   const createSession = async () => {
     if (!user) return notify.error('Sign in required');
     if (!sessionName.trim()) return notify.error('Session name required');
     if (!sessionRubricId) return notify.error('Select a rubric');
+    if (sessionCriteria.length === 0) return notify.error('That rubric has no criteria with marks to calibrate');
     if (selectedEssayIds.length < 1) return notify.error('Select at least one essay');
     setLoading(true);
     try {
-      const { data: session, error } = await supabase
-        .from('calibration_sessions')
-        .insert([{ name: sessionName.trim(), rubric_id: sessionRubricId, created_by: user.id }])
-        .select('*')
-        .single();
-      if (error) throw error;
-
-      // Link essays
-      const linkRows = selectedEssayIds.map(id => ({ session_id: session.id, essay_id: id }));
-      const { error: linkError } = await supabase.from('calibration_session_essays').insert(linkRows);
-      if (linkError) throw linkError;
-
-      setSessions(prev => [session as CalibrationSession, ...prev]);
+      const session = await createCalibrationSession(user.id, sessionName, sessionRubricId, sessionCriteria, selectedEssayIds);
+      setSessions(prev => [session, ...prev]);
       setActiveSessionId(session.id);
-      notify.success('Calibration session created');
+      setSelectedEssayIds([]);
+      notify.success('Calibration session created. Invite colleagues to mark it with you.');
     } catch (err: any) {
       console.error(err);
       notify.error(err.message || 'Failed to create session');
@@ -98,45 +108,34 @@ function Calibration() {
     }
   };
 
-  const loadMarks = async (essayId: string) => {
-    if (!activeSessionId) return;
-    const { data } = await supabase
-      .from('calibration_marks')
-      .select('id, essay_id, marker_id, scores')
-      .eq('session_id', activeSessionId)
-      .eq('essay_id', essayId);
-    setMarks((data || []) as CalibrationMark[]);
-  };
-
-  const openEssayForMarking = (essayId: string) => {
-    setCurrentEssayId(essayId);
-    setScores({ ao1: 0, ao2: 0, ao3: 0, ao4: 0 });
-    loadMarks(essayId);
+  const respondToInvite = async (sessionId: string, accept: boolean) => {
+    try {
+      await respondToCalibrationInvite(sessionId, accept);
+      notify.success(accept ? 'You joined the session' : 'Invitation declined');
+      if (accept) setActiveSessionId(sessionId);
+      await loadSessions();
+    } catch (err: any) {
+      console.error('❌ Failed to respond to calibration invite:', err);
+      notify.error(err.message || 'Failed to respond to invitation');
+    }
   };
 
-  const submitMark = async () => {
-    if (!user) return notify.error('Sign in required');
-    if (!activeSessionId || !currentEssayId) return notify.error('Select a session and essay');
-    const { error } = await supabase
-      .from('calibration_marks')
-      .insert([{ session_id: activeSessionId, essay_id: currentEssayId, marker_id: user.id, scores }]);
-    if (error) return notify.error(error.message);
-    notify.success('Mark submitted');
-    loadMarks(currentEssayId);
+  const deleteSession = async (session: CalibrationSession) => {
+    if (!window.confirm(`Delete "${session.name}"? Every marker's marks and the moderated marks are deleted too.`)) return;
+    try {
+      await deleteCalibrationSession(session.id);
+      if (activeSessionId === session.id) setActiveSessionId('');
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      notify.success('Session deleted');
+    } catch (err: any) {
+      console.error('❌ Failed to delete calibration session:', err);
+      notify.error(err.message || 'Failed to delete session');
+    }
   };
 
-  const stats = useMemo(() => {
-    if (marks.length === 0) return null;
-    const fields: (keyof CalibrationMark['scores'])[] = ['ao1','ao2','ao3','ao4'];
-    const result: Record<string, { avg: number; sd: number; values: number[] }> = {};
-    fields.forEach(f => {
-      const vals = marks.map(m => m.scores[f]);
-      const avg = vals.reduce((a,b)=>a+b,0)/vals.length;
-      const variance = vals.reduce((a,b)=>a+Math.pow(b-avg,2),0)/vals.length;
-      result[f] = { avg, sd: Math.sqrt(variance), values: vals };
-    });
-    return result;
-  }, [marks]);
+  const invitations = sessions.filter(s => s.my_status === 'invited');
+  const joinedSessions = sessions.filter(s => s.my_status === 'accepted');
+  const activeSession = joinedSessions.find(s => s.id === activeSessionId);
 
   return (
     <ErrorBoundary>
@@ -155,15 +154,19 @@ function Calibration() {
               },
               {
                 title: 'Create a session',
-                body: <p>Name the session, pick the rubric, and select up to 10 essays before creating.</p>,
+                body: <p>Name the session, pick the rubric, and select up to 10 essays before creating. Then invite colleagues by email; they join from their own Calibration page.</p>,
+              },
+              {
+                title: 'Mark blind',
+                body: <p>Open an essay, enter a mark for each rubric criterion (level descriptors are shown beside each one), and submit. Other markers’ marks for an essay stay hidden until you’ve submitted yours, and submitted marks are final.</p>,
               },
               {
-                title: 'Mark together',
-                body: <p>Open an essay, enter AO scores, and submit marks; repeat for each essay.</p>,
+                title: 'Reveal and moderate',
+                body: <p>The lead marker reveals the marks, records the agreed moderated mark for each essay, then closes the session.</p>,
               },
               {
-                title: 'Review agreement',
-                body: <p>Use the stats section to spot variance across AO1–AO4 and discuss outliers.</p>,
+                title: 'Report',
+                body: <p>The moderation report shows each marker’s divergence from the lead per essay. Marker Reliability adds ICC, Fleiss’ and Cohen’s kappa on bands, severity/leniency per marker and AI-vs-human agreement; export either as CSV, or reliability as PDF.</p>,
               },
             ]}
           />
@@ -189,8 +192,8 @@ function Calibration() {
                 <p className="mb-2">Calibration helps your team align on how a rubric is applied so students receive consistent, fair marks.</p>
                 <ul className="list-disc pl-5 space-y-1">
                   <li>Select a rubric and a short set of representative scripts.</li>
-                  <li>Each marker scores the same scripts independently.</li>
-                  <li>Review the agreement stats to spot drift and discuss outliers.</li>
+                  <li>Invite colleagues; each marker scores the same scripts blind.</li>
+                  <li>Reveal the marks, agree a moderated mark, and review divergence from the lead marker.</li>
                 </ul>
                 <p className="mt-2 text-blue-800">Tip: Use anonymised scripts and keep sets small (5–10) for focused discussion.</p>
               </div>
@@ -238,6 +241,13 @@ function Calibration() {
                 <option value="">Select rubric…</option>
                 {rubrics.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
               </select>
+              {sessionRubricId && (
+                <p className="mt-1 text-xs text-gray-600">
+                  {sessionCriteria.length > 0
+                    ? `Marked on ${sessionCriteria.map(c => `${c.name} (/${c.maxPoints})`).join(', ')}`
+                    : 'This rubric has no criteria with marks, so it can’t be calibrated.'}
+                </p>
+              )}
             </div>
             <div>
               <label className="block text-sm font-medium mb-1">Select Essays (up to 10)</label>
@@ -264,118 +274,52 @@ function Calibration() {
             {loading ? 'Creating…' : 'Create Session'}
           </button>
         </div>
+        {/* Invitations */}
+        {invitations.length > 0 && (
+          <div className="mb-6 rounded-md border border-amber-200 bg-amber-50 p-4 text-sm">
+            <h3 className="font-semibold mb-2 text-amber-900">Invitations to mark</h3>
+            <div className="space-y-2">
+              {invitations.map(s => (
+                <div key={s.id} className="p-3 border border-amber-200 rounded bg-white flex items-center justify-between gap-3">
+                  <div>
+                    <div className="font-medium">{s.name}</div>
+                    <div className="text-xs text-gray-600">{new Date(s.created_at).toLocaleDateString()} • {CALIBRATION_PHASE_LABELS[s.status]}</div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button onClick={() => respondToInvite(s.id, true)} className="px-3 py-1 rounded bg-brand-600 text-white text-sm hover:bg-brand-700">Join</button>
+                    <button onClick={() => respondToInvite(s.id, false)} className="px-3 py-1 rounded border border-gray-300 text-sm hover:bg-gray-50">Decline</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
         {/* Sessions List */}
         <div className="mb-8">
           <h3 className="font-semibold mb-2">Sessions</h3>
           <div className="space-y-2">
-            {sessions.map(s => (
-              <div key={s.id} className={`p-3 border rounded flex items-center justify-between ${activeSessionId===s.id ? 'bg-indigo-50' : 'bg-white'}`}> 
+            {joinedSessions.map(s => (
+              <div key={s.id} className={`p-3 border rounded flex items-center justify-between ${activeSessionId===s.id ? 'bg-indigo-50' : 'bg-white'}`}>
                 <div>
                   <div className="font-medium">{s.name}</div>
-                  <div className="text-xs text-gray-600">{new Date(s.created_at).toLocaleDateString()} • {s.status}</div>
-                </div>
-                <button onClick={()=>{setActiveSessionId(s.id);}} className="text-sm text-indigo-600 hover:underline">Open</button>
-              </div>
-            ))}
-            {sessions.length===0 && <p className="text-gray-500 text-sm">No sessions yet.</p>}
-          </div>
-        </div>
-        {/* Marking Interface */}
-        {activeSessionId && (
-          <div className="border rounded p-4 bg-white mb-6">
-            <h3 className="font-semibold mb-3">Mark Essays</h3>
-            <div className="flex flex-wrap gap-2 mb-3">
-              {selectedEssayIds.map(id => {
-                const essay = essays.find(e=>e.id===id);
-                if (!essay) return null;
-                return (
-                  <button
-                    key={id}
-                    onClick={()=>openEssayForMarking(id)}
-                    className={`px-3 py-1 rounded text-sm border ${currentEssayId===id ? 'bg-indigo-600 text-white' : 'bg-gray-50 hover:bg-gray-100'}`}
-                  >{essay.title}</button>
-                );
-              })}
-            </div>
-            {!currentEssayId && <p className="text-gray-500 text-sm">Select an essay above to begin marking.</p>}
-            {currentEssayId && (
-              <div className="grid md:grid-cols-2 gap-6">
-                <div className="space-y-4">
-                  <div className="border rounded p-3 bg-gray-50">
-                    <h4 className="font-medium mb-2">Essay Content</h4>
-                    <div className="text-sm whitespace-pre-wrap max-h-72 overflow-y-auto">{essays.find(e=>e.id===currentEssayId)?.content}</div>
-                  </div>
-                  <div className="border rounded p-3 bg-gray-50">
-                    <h4 className="font-medium mb-2">Submit Your Scores</h4>
-                    <div className="grid grid-cols-2 gap-2 mb-3">
-                      {(['ao1','ao2','ao3','ao4'] as const).map(k => (
-                        <div key={k} className="flex flex-col">
-                          <label className="text-xs font-semibold uppercase">{k}</label>
-                          <input
-                            type="number"
-                            min={0}
-                            max={40}
-                            value={scores[k]}
-                            onChange={e=>setScores(prev=>({ ...prev, [k]: Number(e.target.value) }))}
-                            className="border p-1 rounded text-sm"
-                            aria-label={`Score ${k.toUpperCase()}`}
-                            placeholder="0"
-                          />
-                        </div>
-                      ))}
-                    </div>
-                    <button onClick={submitMark} className="bg-green-600 text-white px-3 py-1 rounded text-sm">Submit Mark</button>
+                  <div className="text-xs text-gray-600">
+                    {new Date(s.created_at).toLocaleDateString()} • {CALIBRATION_PHASE_LABELS[s.status]}
+                    {s.created_by !== user?.id && ' • Invited'}
                   </div>
                 </div>
-                <div className="space-y-4">
-                  <div className="border rounded p-3 bg-gray-50">
-                    <h4 className="font-medium mb-2">Current Marks (This Essay)</h4>
-                    {marks.length === 0 && <p className="text-xs text-gray-500">No marks yet.</p>}
-                    {marks.length > 0 && (
-                      <table className="w-full text-xs border">
-                        <thead>
-                          <tr className="bg-white">
-                            <th className="border p-1">Marker</th>
-                            <th className="border p-1">AO1</th>
-                            <th className="border p-1">AO2</th>
-                            <th className="border p-1">AO3</th>
-                            <th className="border p-1">AO4</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {marks.map(m => (
-                            <tr key={m.id} className="odd:bg-white even:bg-gray-100">
-                              <td className="border p-1">{m.marker_id.slice(0,8)}</td>
-                              <td className="border p-1">{m.scores.ao1}</td>
-                              <td className="border p-1">{m.scores.ao2}</td>
-                              <td className="border p-1">{m.scores.ao3}</td>
-                              <td className="border p-1">{m.scores.ao4}</td>
-                            </tr>
-                          ))}
-                        </tbody>
-                      </table>
-                    )}
-                  </div>
-                  <div className="border rounded p-3 bg-gray-50">
-                    <h4 className="font-medium mb-2">Agreement Stats</h4>
-                    {!stats && <p className="text-xs text-gray-500">No data yet.</p>}
-                    {stats && (
-                      <div className="grid grid-cols-2 gap-2 text-xs">
-                        {Object.entries(stats).map(([ao, obj]) => (
-                          <div key={ao} className="p-2 bg-white rounded border">
-                            <div className="font-semibold uppercase">{ao}</div>
-                            <div>Avg: {obj.avg.toFixed(1)}</div>
-                            <div>SD: {obj.sd.toFixed(2)}</div>
-                            <div className="text-gray-500">n={obj.values.length}</div>
-                          </div>
-                        ))}
-                      </div>
-                    )}
-                  </div>
+                <div className="flex items-center gap-3">
+                  <button onClick={()=>{setActiveSessionId(s.id);}} className="text-sm text-indigo-600 hover:underline">Open</button>
+                  {s.created_by === user?.id && (
+                    <button onClick={() => deleteSession(s)} className="text-sm text-red-600 hover:underline">Delete</button>
+                  )}
                 </div>
               </div>
-            )}
+            ))}
+            {joinedSessions.length===0 && <p className="text-gray-500 text-sm">No sessions yet.</p>}
           </div>
+        </div>
+        {activeSession && user && (
+          <CalibrationSessionPanel key={activeSession.id} session={activeSession} userId={user.id} onSessionChanged={loadSessions} />
         )}
       </div>
     </ErrorBoundary>
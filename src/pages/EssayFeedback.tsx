@@ -1,105 +1,104 @@
-import { useState, useRef, useMemo } from 'react';
+import { useState, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabaseClient'; // for saving essays/feedback
 import notify from '../utils/notify';
-import { parseEssayFile, validateEssay } from '../utils/essayParser';
-import { generateEssayFeedback, generateEssayScore, generateBandAnalysis } from '../utils/openaiClient';
-import { generateFeedbackViaEdgeFunction, generateScoreViaEdgeFunction, generateBothViaEdgeFunction } from '../utils/openaiEdgeFunction';
-import { AiFeedback } from '../utils/edgeFunctions';
+import { parseEssayFiles, validateEssay } from '../utils/essayParser';
+import { OCR_LANGUAGES, type OcrLanguage, type OcrResult } from '../utils/ocr';
+import {
+  streamEssayMarking,
+  toBandAnalysis,
+  EssayMarking,
+  MarkingStreamError,
+  PartialFeedback,
+  QuotaExceededError,
+} from '../utils/openaiClient';
+import { formatCriterionPoints, formatCriterionScore, formatRubricCriteria } from '../utils/rubricUtils';
+import { streamFeedbackViaEdgeFunction } from '../utils/openaiEdgeFunction';
+import { AiFeedback, toAiFeedback } from '../utils/edgeFunctions';
 import Navbar from '../components/Navbar';
 import ErrorBoundary from '../components/ErrorBoundary';
 import { FormSkeleton } from '../components/LoadingSkeleton';
 import { PageGuide } from '../components/PageGuide';
+import { UpgradePrompt } from '../components/UpgradePrompt';
+import { StreamingFeedback } from '../components/StreamingFeedback';
+import { AnnotatedEssay } from '../components/AnnotatedEssay';
+import { SafeguardingNotice } from '../components/SafeguardingNotice';
+import { OcrReview } from '../components/OcrReview';
 // Heavy export libs will be lazy-loaded when needed
 import { useKeyboardShortcuts, KeyboardShortcutsHelp } from '../hooks/useKeyboardShortcuts';
 import CommentBank from '../components/CommentBank';
-import { useTeacherRubrics, useTeacherStudents } from '../hooks/useTeacherData';
+import { useRubricBoundaries, useTeacherAssignments, useTeacherRubrics, useTeacherStudents } from '../hooks/useTeacherData';
+import { describeBoundarySet, formatScoreWithGrade, gradeForScore, gradeLabel, scoreToMark } from '../utils/gradeBoundaries';
+import { essayAnnotationsKey } from '../hooks/useEssayAnnotations';
+import { saveAiAnnotations } from '../utils/annotations';
+import { changedFields, saveFeedbackEdits, toFeedbackSnapshot, type FeedbackSnapshot } from '../utils/feedbackRevisions';
+import { feedbackRevisionsKey } from '../components/FeedbackRevisionHistory';
+import { DraftComparison } from '../components/DraftComparison';
+import {
+  ensureSubmissionThread,
+  loadPreviousImprovements,
+  loadRedraftSources,
+  submissionThreadKey,
+  type RedraftSource,
+} from '../utils/submissionThreads';
+import { assignmentBrief, formatDueDate, isOverWordLimit } from '../utils/assignments';
 
 type FeedbackTone = 'encouraging' | 'strict' | 'concise' | 'socratic';
 
 type ExportAudience = 'teacher' | 'student' | 'parent' | 'evidence';
 
-// Helper to create a simple text highlight based on keyword matching
-function highlightEssayText(text: string, feedback: AiFeedback | null): React.ReactNode[] {
-  if (!feedback) {
-    return [<span key={0}>{text}</span>];
-  }
-
-  // Extract keywords from feedback for highlighting
-  const sentences = text.split(/([.!?]\s+)/);
-  
-  return sentences.map((sentence, idx) => {
-    const lowerSentence = sentence.toLowerCase();
-    
-    // Check for grammar issues (red highlight)
-    const hasGrammarIssue = feedback.grammar_issues.some(issue => {
-      const keywords = issue.toLowerCase().match(/\b\w{4,}\b/g) || [];
-      return keywords.some(kw => lowerSentence.includes(kw));
-    });
-    
-    // Check for strengths (green highlight)
-    const hasStrength = feedback.strengths.some(strength => {
-      const keywords = strength.toLowerCase().match(/\b\w{4,}\b/g) || [];
-      return keywords.some(kw => lowerSentence.includes(kw));
-    });
-    
-    // Check for criterion matches (purple highlight)
-    const hasCriterion = feedback.criteria_matches?.some(match => {
-      return match.examples.some(example => {
-        const keywords = example.toLowerCase().match(/\b\w{4,}\b/g) || [];
-        return keywords.some(kw => lowerSentence.includes(kw));
-      });
-    });
-    
-    // Apply highlight based on priority: grammar > criterion > strength
-    if (hasGrammarIssue && sentence.trim().length > 10) {
-      return (
-        <span key={idx} className="bg-red-100 border-b-2 border-red-400 px-1" title="Grammar Issue">
-          {sentence}
-        </span>
-      );
-    } else if (hasCriterion && sentence.trim().length > 10) {
-      return (
-        <span key={idx} className="bg-purple-100 border-b-2 border-purple-400 px-1" title="Rubric Criterion Match">
-          {sentence}
-        </span>
-      );
-    } else if (hasStrength && sentence.trim().length > 10) {
-      return (
-        <span key={idx} className="bg-green-100 border-b-2 border-green-400 px-1" title="Strength">
-          {sentence}
-        </span>
-      );
-    }
-    
-    return <span key={idx}>{sentence}</span>;
-  });
-}
-
 function EssayFeedback() {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
   const [rubricId, setRubricId] = useState<string>('');
   const [studentId, setStudentId] = useState<string>('');
+  const [assignmentId, setAssignmentId] = useState<string>('');
+  // Essay this one is a new draft of ('' = a new piece of work)
+  const [redraftOf, setRedraftOf] = useState<string>('');
   const [customPrompt, setCustomPrompt] = useState<string>('Please provide detailed, constructive feedback for this essay based on the rubric criteria.');
   const [selectedTone, setSelectedTone] = useState<FeedbackTone>('encouraging');
   const { data: rubrics = [], isLoading: rubricsLoading } = useTeacherRubrics();
   const { data: students = [], isLoading: studentsLoading } = useTeacherStudents();
+  const { data: assignments = [] } = useTeacherAssignments();
+  const selectedAssignment = assignments.find(a => a.id === assignmentId);
+  const { data: rubricBoundaries } = useRubricBoundaries([rubricId]);
+  const boundarySet = rubricBoundaries?.get(rubricId);
   const [bandAnalysis, setBandAnalysis] = useState<any>(null);
   const [feedback, setFeedback] = useState<AiFeedback | null>(null);
+  // Recomputed as the score is adjusted, from the selected rubric's grade boundaries
+  const grade = feedback ? gradeForScore(feedback.overall_score, boundarySet) : null;
+  const [quotaError, setQuotaError] = useState<QuotaExceededError | null>(null);
   const [savedEssayId, setSavedEssayId] = useState<string | null>(null);
+  const [savedThreadId, setSavedThreadId] = useState<string | null>(null);
+  const [savedFeedbackId, setSavedFeedbackId] = useState<string | null>(null);
+  // Last persisted version of the feedback; edits after this are unsaved overrides
+  const [savedSnapshot, setSavedSnapshot] = useState<FeedbackSnapshot | null>(null);
+  const [savingEdits, setSavingEdits] = useState(false);
   const [uploading, setUploading] = useState(false);
+  // Scanned text waiting for the teacher to check before it becomes the essay
+  const [ocrReview, setOcrReview] = useState<OcrResult | null>(null);
+  const [ocrLanguage, setOcrLanguage] = useState<OcrLanguage>('eng');
   const [generating, setGenerating] = useState(false);
+  const [streamedFeedback, setStreamedFeedback] = useState<PartialFeedback | null>(null);
+  const [streamInterruption, setStreamInterruption] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [shortcutsOpen, setShortcutsOpen] = useState(false);
   const [showCommentBank, setShowCommentBank] = useState(false);
   const [showAoLegend, setShowAoLegend] = useState(false);
   const [exportAudience, setExportAudience] = useState<ExportAudience>('teacher');
   const initialLoading = rubricsLoading || studentsLoading;
+  const { data: redraftSources = [] } = useQuery<RedraftSource[], Error>(
+    ['redraft-sources', studentId],
+    () => loadRedraftSources(studentId),
+    { enabled: !!user && !!studentId, staleTime: 30_000 }
+  );
   const fileInputRef = useRef<HTMLInputElement>(null);
   const feedbackRef = useRef<HTMLDivElement>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const scanInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -110,19 +109,24 @@ function EssayFeedback() {
     setUploadProgress(0);
     
     try {
-      const text = await parseEssayFile(file, (progress) => {
-        setUploadProgress(progress);
+      const parsed = await parseEssayFiles([file], {
+        languages: [ocrLanguage],
+        onProgress: (progress) => setUploadProgress(progress),
       });
       
-      setContent(text);
-      
       // Auto-fill title from filename if not set
       if (!title) {
         const baseName = file.name.replace(/\.(txt|docx|pdf)$/i, '');
         setTitle(baseName);
       }
       
-      notify.success(`Essay loaded from ${file.name}`);
+      if (parsed.ocr) {
+        setOcrReview(parsed.ocr);
+        notify.info(`${file.name} is a scan. Check the highlighted words before marking.`);
+      } else {
+        setContent(parsed.text);
+        notify.success(`Essay loaded from ${file.name}`);
+      }
     } catch (error) {
       console.error('File upload error:', error);
       notify.error(error instanceof Error ? error.message : 'Failed to parse essay file');
@@ -136,19 +140,21 @@ function EssayFeedback() {
   };
 
   const handleScan = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const imgFile = e.target.files?.[0];
-    if (!imgFile) return;
+    // One photo per page; they are read in filename order
+    const pageFiles = Array.from(e.target.files || []);
+    if (pageFiles.length === 0) return;
     
     setUploading(true);
     setUploadProgress(0);
     
     try {
-      const text = await parseEssayFile(imgFile, (progress) => {
-        setUploadProgress(progress);
+      const parsed = await parseEssayFiles(pageFiles, {
+        languages: [ocrLanguage],
+        onProgress: (progress) => setUploadProgress(progress),
       });
       
-      setContent(text);
-      notify.success('Essay scanned successfully');
+      setOcrReview(parsed.ocr);
+      notify.success(`Scanned ${pageFiles.length} ${pageFiles.length === 1 ? 'page' : 'pages'}. Check the highlighted words before marking.`);
     } catch (error) {
       console.error('Scan error:', error);
       notify.error(error instanceof Error ? error.message : 'Failed to scan essay');
@@ -162,6 +168,13 @@ function EssayFeedback() {
   };
 
   const handleGenerate = async () => {
+    if (generating) return;
+
+    if (ocrReview) {
+      notify.error('Check the scanned text and choose "Use This Text" first');
+      return;
+    }
+
     // Validate essay
     const validation = validateEssay(content);
     if (!validation.valid) {
@@ -185,12 +198,22 @@ function EssayFeedback() {
     }
     
     setGenerating(true);
+    setFeedback(null);
+    setStreamedFeedback(null);
+    setStreamInterruption(null);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    let latestPartial: PartialFeedback | null = null;
+    const onPartial = (partial: PartialFeedback) => {
+      latestPartial = partial;
+      setStreamedFeedback(partial);
+    };
     
     try {
       // Get rubric details
       const { data: rubricData, error: rubricError } = await supabase
         .from('rubrics')
-        .select('criteria, name')
+        .select('criteria, name, current_version_id')
         .eq('id', rubricId)
         .single();
       
@@ -199,13 +222,7 @@ function EssayFeedback() {
       }
       
       // Prepare rubric criteria string for OpenAI
-      const rubricCriteria = Array.isArray(rubricData.criteria)
-        ? rubricData.criteria.join('\n')
-        : typeof rubricData.criteria === 'string'
-        ? rubricData.criteria
-        : JSON.stringify(rubricData.criteria);
-      
-      notify.info('Generating AI feedback... please wait');
+      const rubricCriteria = formatRubricCriteria(rubricData.criteria);
       
       // Get selected rubric's exam board for GCSE-specific feedback
       const selectedRubric = rubrics.find(r => r.id === rubricId);
@@ -221,120 +238,55 @@ function EssayFeedback() {
 
       const fullPrompt = `
         ${customPrompt ? `Teacher Instructions: ${customPrompt}` : ''}
+        ${selectedAssignment ? assignmentBrief(selectedAssignment) : ''}
         
         Tone of Voice: ${toneInstructions[selectedTone]}
       `;
 
-      // Try edge function first (secure server-side), fallback to enhanced client-side
-      let feedbackText: string;
-      let score: number;
-      let bandData: any = null;
+      // A redraft joins the previous draft's thread and is checked against its areas for improvement
+      const threadId = redraftOf ? await ensureSubmissionThread(redraftOf) : null;
+      const previousImprovements = redraftOf ? await loadPreviousImprovements(redraftOf) : [];
+
+      // Stream from the edge function first (secure server-side), falling back to the streaming API route
+      let marking: EssayMarking;
       
       try {
-        // Attempt to use Edge Function (most secure)
-        console.log('­ƒôí Trying Edge Function for feedback generation...');
-        const { feedback: edgeFeedback, score: edgeScore } = await generateBothViaEdgeFunction(content, rubricCriteria, fullPrompt);
-        feedbackText = edgeFeedback;
-        score = edgeScore;
-        console.log('Ô£à Using Edge Function - API key safely on server');
+        console.log('📡 Streaming feedback from Edge Function...');
+        const { feedback: edgeFeedback } = await streamFeedbackViaEdgeFunction(content, rubricCriteria, {
+          customPrompt: fullPrompt,
+          previousImprovements,
+          signal: controller.signal,
+          onPartial,
+        });
+        marking = edgeFeedback;
       } catch (edgeFunctionError) {
-        console.warn('ÔÜá´©Å Edge Function failed, falling back to enhanced client-side OpenAI:', edgeFunctionError);
-        // Fallback to enhanced client-side OpenAI with GCSE analysis
-        feedbackText = await generateEssayFeedback(content, rubricCriteria, examBoard, fullPrompt);
-        score = await generateEssayScore(content, rubricCriteria);
-        
-        // Get detailed band analysis if GCSE rubric
-        try {
-          bandData = await generateBandAnalysis(content, rubricCriteria, examBoard);
-          setBandAnalysis(bandData);
-          console.log('Ô£à GCSE Band Analysis:', bandData);
-        } catch (bandError) {
-          console.warn('ÔÜá´©Å Band analysis failed (non-critical):', bandError);
+        // Only fall back when nothing arrived: a cancelled or half-finished stream keeps its partial result
+        if (
+          controller.signal.aborted ||
+          edgeFunctionError instanceof QuotaExceededError ||
+          (edgeFunctionError instanceof MarkingStreamError && edgeFunctionError.partial)
+        ) {
+          throw edgeFunctionError;
         }
-        
-        console.log('Ô£à Using Enhanced Client-side OpenAI API with GCSE analysis');
+        console.warn('⚠️ Edge Function stream failed, falling back to /api/generate-feedback:', edgeFunctionError);
+        marking = await streamEssayMarking(content, rubricCriteria, {
+          examBoard,
+          customPrompt: fullPrompt,
+          previousImprovements,
+          signal: controller.signal,
+          onPartial,
+        });
       }
-      
-      // Parse feedback text into structured format and ignore any trailing JSON blocks
-      const parseFeedbackText = (text: string) => {
-        // Capture optional fenced JSON (e.g., AO scores) so we can store without breaking parsing
-        const jsonBlock = text.match(/```json\s*([\s\S]*?)```/i);
-        let criteriaScores: Record<string, number> | undefined;
-        if (jsonBlock?.[1]) {
-          try {
-            const parsedJson = JSON.parse(jsonBlock[1]);
-            if (parsedJson && typeof parsedJson === 'object') {
-              criteriaScores = parsedJson as Record<string, number>;
-            }
-          } catch {
-            // Ignore bad JSON from the model
-          }
-        }
+      setStreamedFeedback(null);
 
-        // Remove the JSON block from the main text for cleaner section parsing
-        const sanitized = text.replace(/```json[\s\S]*?```/gi, '');
+      // Bands, criterion scores and justification come from the same call, so they always agree
+      setBandAnalysis(toBandAnalysis(marking));
 
-        const sections = {
-          strengths: [] as string[],
-          improvements: [] as string[],
-          grammar_issues: [] as string[],
-        };
-        
-        // Split into main sections - look for common patterns
-        const strengthsMatch = sanitized.match(/Strengths:(.*?)(?=Areas for Improvement:|$)/is);
-        const improvementsMatch = sanitized.match(/Areas for Improvement:(.*?)(?=Action Steps:|Suggested Feedback:|$)/is);
-        const grammarMatch = sanitized.match(/grammar issues?:(.*?)(?=Strengths:|Areas for Improvement:|$)/is);
-        
-        if (strengthsMatch) {
-          sections.strengths = strengthsMatch[1]
-            .split(/[\-ÔÇó*]|\d+\./)
-            .filter(s => s.trim())
-            .map(s => s.trim())
-            .filter(s => s.length > 0);
-        }
-        
-        if (improvementsMatch) {
-          sections.improvements = improvementsMatch[1]
-            .split(/[\-ÔÇó*]|\d+\./)
-            .filter(s => s.trim())
-            .map(s => s.trim())
-            .filter(s => s.length > 0);
-        }
-        
-        if (grammarMatch) {
-          sections.grammar_issues = grammarMatch[1]
-            .split(/[\-ÔÇó*]|\d+\./)
-            .filter(s => s.trim())
-            .map(s => s.trim())
-            .filter(s => s.length > 0);
-        }
-        
-        const cleanedFeedback = sanitized.trim();
-        return { sections, criteriaScores, cleanedFeedback };
-      };
-      
-      const { sections: parsedSections, criteriaScores, cleanedFeedback } = parseFeedbackText(feedbackText);
-
-      // Derive a more human-feeling score: prefer explicit criteria/AO scores if present, otherwise fall back to model score
-      const computeHumanScore = () => {
-        if (criteriaScores && Object.keys(criteriaScores).length > 0) {
-          const values = Object.values(criteriaScores).map(Number).filter(v => !Number.isNaN(v));
-          if (values.length) return values.reduce((a, b) => a + b, 0) / values.length;
-        }
-        if (bandAnalysis?.overall_score) return bandAnalysis.overall_score;
-        return score;
-      };
-
-      const humanScore = Math.min(100, Math.max(0, computeHumanScore()));
-      
+      const mapped = toAiFeedback(marking);
       const aiFeedback: AiFeedback = {
-        overall_score: humanScore,
-        grammar_issues: parsedSections.grammar_issues.length > 0 ? parsedSections.grammar_issues : ['No significant grammar issues found'],
-        strengths: parsedSections.strengths.length > 0 ? parsedSections.strengths : ['Well-structured and coherent essay'],
-        improvements: parsedSections.improvements.length > 0 ? parsedSections.improvements : ['Continue to develop and refine writing skills'],
-        suggested_feedback: cleanedFeedback || feedbackText,
-        criteria_matches: [],
-        ...(criteriaScores ? { criteria_scores: criteriaScores } : {}),
+        ...mapped,
+        overall_score: Math.min(100, Math.max(0, mapped.overall_score)),
+        grammar_issues: mapped.grammar_issues.length > 0 ? mapped.grammar_issues : ['No significant grammar issues found'],
       };
       
       setFeedback(aiFeedback);
@@ -357,6 +309,8 @@ function EssayFeedback() {
           teacher_id: user.id,
           rubric_id: rubricId,
           student_id: studentId || null,
+          thread_id: threadId,
+          assignment_id: assignmentId || null,
         }])
         .select('id')
         .single();
@@ -378,6 +332,7 @@ function EssayFeedback() {
       
       // Save feedback to database
       setSavedEssayId(essayData.id);
+      setSavedThreadId(threadId);
       console.log('­ƒÆ¥ Saving feedback to database...', {
         essay_id: essayData.id,
         rubric_id: rubricId,
@@ -388,12 +343,16 @@ function EssayFeedback() {
         .insert([{
           essay_id: essayData.id,
           rubric_id: rubricId,
+          // The version these criteria came from, even if the rubric is edited while marking
+          rubric_version_id: rubricData.current_version_id ?? null,
           grammar_issues: aiFeedback.grammar_issues,
           strengths: aiFeedback.strengths,
           improvements: aiFeedback.improvements,
           suggested_feedback: aiFeedback.suggested_feedback,
           // DB expects an integer; round the human-friendly score
           overall_score: Math.round(aiFeedback.overall_score),
+          criteria_scores: aiFeedback.criteria_scores || [],
+          addressed_improvements: aiFeedback.addressed_improvements || [],
         }])
         .select('id')
         .single();
@@ -404,6 +363,19 @@ function EssayFeedback() {
         console.error('ÔØî Failed to save feedback - Full error:', JSON.stringify(feedbackError, null, 2));
         notify.error(`Essay saved but feedback failed to save: ${feedbackError.message || 'Unknown error'}`);
       } else {
+        setSavedFeedbackId(feedbackData?.id ?? null);
+        setSavedSnapshot(toFeedbackSnapshot(aiFeedback));
+        if (threadId) queryClient.invalidateQueries(submissionThreadKey(threadId));
+        queryClient.invalidateQueries(['redraft-sources', studentId]);
+        if (aiFeedback.annotations?.length) {
+          try {
+            await saveAiAnnotations(essayData.id, feedbackData?.id ?? null, user.id, aiFeedback.annotations);
+            queryClient.invalidateQueries(essayAnnotationsKey(essayData.id));
+          } catch (annotationError: any) {
+            console.error('❌ Failed to save annotations:', annotationError);
+            notify.error('Feedback saved, but the inline comments could not be saved');
+          }
+        }
         console.log('Ô£à Essay and feedback saved successfully!');
         notify.success('AI feedback generated and saved successfully!');
         
@@ -413,24 +385,78 @@ function EssayFeedback() {
         }, 100);
       }
     } catch (error) {
+      if (controller.signal.aborted) {
+        setStreamInterruption('You cancelled feedback generation.');
+        setStreamedFeedback(latestPartial);
+        notify.info('Feedback generation cancelled');
+        return;
+      }
       console.error('ÔØî Generate error:', error);
+      setStreamedFeedback(null);
+      if (error instanceof QuotaExceededError) {
+        setQuotaError(error);
+        return;
+      }
+      if (error instanceof MarkingStreamError) {
+        // Keep whatever streamed in so the teacher can still read it
+        setStreamInterruption(error.message);
+        setStreamedFeedback(error.partial);
+        notify.error('Feedback stopped before it finished. Partial results are shown below.');
+        return;
+      }
       const errorMessage = error instanceof Error ? error.message : String(error);
       console.error('Error details:', { errorMessage, fullError: error });
       notify.error(errorMessage || 'Failed to generate feedback');
     } finally {
+      generationAbortRef.current = null;
       setGenerating(false);
     }
   };
 
+  const handleCancelGenerate = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const dismissPartialFeedback = () => {
+    setStreamedFeedback(null);
+    setStreamInterruption(null);
+  };
+
+  const unsavedFields = feedback && savedSnapshot ? changedFields(savedSnapshot, toFeedbackSnapshot(feedback)) : [];
+
+  const handleSaveEdits = async () => {
+    if (!feedback || !savedFeedbackId || unsavedFields.length === 0) return;
+    setSavingEdits(true);
+    try {
+      const snapshot = toFeedbackSnapshot(feedback);
+      await saveFeedbackEdits(savedFeedbackId, snapshot);
+      setSavedSnapshot(snapshot);
+      queryClient.invalidateQueries(feedbackRevisionsKey(savedFeedbackId));
+      notify.success('Changes saved to feedback history');
+    } catch (error: any) {
+      console.error('❌ Failed to save feedback edits:', error);
+      notify.error(`Failed to save changes: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setSavingEdits(false);
+    }
+  };
+
   const handleDone = () => {
+    if (unsavedFields.length > 0 && !window.confirm('Discard your unsaved changes to this feedback?')) return;
     // Clear state and scroll to top for new feedback
     setFeedback(null);
     setSavedEssayId(null);
+    setSavedThreadId(null);
+    setSavedFeedbackId(null);
+    setSavedSnapshot(null);
     setBandAnalysis(null);
     setTitle('');
     setContent('');
     setRubricId('');
     setStudentId('');
+    setAssignmentId('');
+    setRedraftOf('');
+    setOcrReview(null);
     window.scrollTo({ top: 0, behavior: 'smooth' });
     notify.success('Ready to grade another essay!');
   };
@@ -471,6 +497,7 @@ function EssayFeedback() {
       addText(`Date: ${new Date().toLocaleDateString()}`, 10, false, subtle);
       addText(`Audience: ${audience === 'teacher' ? 'Teacher report' : audience === 'student' ? 'Student summary' : audience === 'parent' ? 'Parent summary' : 'Evidence pack'}`, 10, false, subtle);
       addText(`Overall Score: ${Math.round(feedback.overall_score)} / 100`, 12, true);
+      if (grade) addText(`GCSE ${gradeLabel(grade)} (${describeBoundarySet(boundarySet!)})`, 12, true);
 
       if (audience === 'student' || audience === 'parent') {
         if (feedback.strengths?.length) {
@@ -496,9 +523,9 @@ function EssayFeedback() {
           bandAnalysis.ao_bands.forEach((ao: any) => addText(`${ao.ao}: Band ${ao.band} — ${ao.comment}`, 10));
         }
 
-        if (feedback.criteria_scores && Object.keys(feedback.criteria_scores).length > 0) {
+        if (feedback.criteria_scores?.length) {
           addText('Criteria Scores', 12, true, brandPrimary);
-          Object.entries(feedback.criteria_scores).forEach(([criterion, score]) => addText(`${criterion}: ${Math.round(score as number)}%`, 10));
+          feedback.criteria_scores.forEach((c) => addText(formatCriterionScore(c), 10));
         }
 
         if (feedback.grammar_issues?.length) {
@@ -565,7 +592,8 @@ function EssayFeedback() {
       pushHeading('Essay Feedback Report', docx.HeadingLevel.HEADING_1);
       pushText(`Essay Title: ${title}`);
       pushText(`Date: ${new Date().toLocaleDateString()}`);
-      pushText(`Overall Score: ${feedback.overall_score}/100`);
+      pushText(`Overall Score: ${formatScoreWithGrade(feedback.overall_score, boundarySet)}`);
+      feedback.criteria_scores?.forEach((c) => pushText(formatCriterionScore(c)));
 
       pushHeading('Grammar Issues');
       feedback.grammar_issues.forEach((s, i) => pushText(`${i + 1}. ${s}`));
@@ -624,12 +652,18 @@ function EssayFeedback() {
       }, description: 'Decrease score -1' },
   ]);
 
-  const highlightedEssay = useMemo(() => highlightEssayText(content, feedback), [content, feedback]);
-
   return (
     <>
       <Navbar />
       <ErrorBoundary>
+      {quotaError && (
+        <UpgradePrompt
+          feature="AI Marking"
+          title={quotaError.period === 'day' ? 'Daily Marking Limit Reached' : 'Monthly Marking Quota Used'}
+          description={quotaError.message}
+          onClose={() => setQuotaError(null)}
+        />
+      )}
       <div className="max-w-4xl mx-auto p-4 sm:p-6">
         <h2 className="text-2xl sm:text-3xl font-bold mb-4 sm:mb-6 text-gray-900">Essay Feedback Generator</h2>
         {initialLoading ? (
@@ -703,6 +737,42 @@ function EssayFeedback() {
           />
           <p className="text-xs text-gray-500 mt-1">This prompt will be sent to the AI when generating feedback. You can tailor it to your subject, rubric, or teaching style.</p>
         </div>
+        {/* Assignment */}
+        {assignments.length > 0 && (
+          <div className="mb-6">
+            <label htmlFor="assignment-select" className="block font-semibold text-gray-700 mb-2">
+              Assignment <span className="text-gray-400 text-sm">(Optional)</span>
+            </label>
+            <select
+              id="assignment-select"
+              value={assignmentId}
+              onChange={e => {
+                setAssignmentId(e.target.value);
+                const assignment = assignments.find(a => a.id === e.target.value);
+                if (assignment?.rubric_id) setRubricId(assignment.rubric_id);
+                if (assignment && !title.trim()) setTitle(assignment.title);
+              }}
+              className="border border-gray-300 p-3 w-full rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">-- Not set work --</option>
+              {assignments.map(a => (
+                <option key={a.id} value={a.id}>
+                  {a.title}{a.class_section ? ` (${a.class_section})` : ''}
+                </option>
+              ))}
+            </select>
+            {selectedAssignment && (
+              <div className="text-sm text-gray-600 mt-2 space-y-1">
+                {selectedAssignment.prompt && <p className="text-gray-800">{selectedAssignment.prompt}</p>}
+                <p>
+                  Due {formatDueDate(selectedAssignment.due_at)}
+                  {selectedAssignment.word_limit && ` · ${selectedAssignment.word_limit} word limit`}
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Essay Title */}
         <div className="mb-6">
           <label htmlFor="essay-title" className="block font-semibold text-gray-700 mb-2">
@@ -751,7 +821,10 @@ function EssayFeedback() {
           <select
             id="student-select"
             value={studentId}
-            onChange={e => setStudentId(e.target.value)}
+            onChange={e => {
+              setStudentId(e.target.value);
+              setRedraftOf('');
+            }}
             className="border border-gray-300 p-3 w-full rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
           >
             <option value="">-- Unassigned --</option>
@@ -767,7 +840,48 @@ function EssayFeedback() {
             </p>
           )}
         </div>
+
+        {/* Redraft of an earlier essay */}
+        {studentId && redraftSources.length > 0 && (
+          <div className="mb-6">
+            <label htmlFor="redraft-select" className="block font-semibold text-gray-700 mb-2">
+              New Draft Of <span className="text-gray-400 text-sm">(Optional)</span>
+            </label>
+            <select
+              id="redraft-select"
+              value={redraftOf}
+              onChange={e => {
+                setRedraftOf(e.target.value);
+                const source = redraftSources.find(r => r.id === e.target.value);
+                if (source && !title.trim()) setTitle(source.title);
+              }}
+              className="border border-gray-300 p-3 w-full rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">-- A new piece of work --</option>
+              {redraftSources.map(r => (
+                <option key={r.id} value={r.id}>
+                  {r.title}{r.version ? ` (Draft ${r.version})` : ''} · {new Date(r.created_at).toLocaleDateString()}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              The AI will check whether this draft acts on the previous draft's areas for improvement, and you can compare the two.
+            </p>
+          </div>
+        )}
         
+        {/* Scanned text to check */}
+        {ocrReview && (
+          <OcrReview
+            result={ocrReview}
+            onAccept={(text) => {
+              setContent(text);
+              setOcrReview(null);
+            }}
+            onDiscard={() => setOcrReview(null)}
+          />
+        )}
+
         {/* Essay Content */}
         <div className="mb-6">
           <label htmlFor="essay-content" className="block font-semibold text-gray-700 mb-2">
@@ -784,6 +898,9 @@ function EssayFeedback() {
             <p className={`text-sm ${content.trim().split(/\s+/).filter(Boolean).length > 3000 ? 'text-red-600 font-bold' : 'text-gray-600'}`}>
               Word count: {content.trim().split(/\s+/).filter(Boolean).length}
               {content.trim().split(/\s+/).filter(Boolean).length > 3000 && ' (Warning: Long essay may timeout)'}
+              {isOverWordLimit(selectedAssignment, content.trim().split(/\s+/).filter(Boolean).length) && (
+                <span className="text-amber-700 font-medium"> (Over the {selectedAssignment!.word_limit} word limit)</span>
+              )}
             </p>
             {content && (
               <button
@@ -827,7 +944,7 @@ function EssayFeedback() {
             ) : (
               <>
                 <span>📄</span>
-                <span>Upload File (.txt, .docx)</span>
+                <span>Upload File (.txt, .docx, .pdf)</span>
               </>
             )}
           </button>
@@ -838,6 +955,7 @@ function EssayFeedback() {
             ref={scanInputRef}
             type="file"
             accept="image/*"
+            multiple
             className="hidden"
             onChange={handleScan}
           />
@@ -864,6 +982,21 @@ function EssayFeedback() {
               </>
             )}
           </button>
+          <div className="sm:col-span-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+            <label htmlFor="ocr-language">Handwriting language</label>
+            <select
+              id="ocr-language"
+              value={ocrLanguage}
+              onChange={e => setOcrLanguage(e.target.value as OcrLanguage)}
+              disabled={uploading}
+              className="border border-gray-300 rounded px-2 py-1 text-xs"
+            >
+              {(Object.keys(OCR_LANGUAGES) as OcrLanguage[]).map(lang => (
+                <option key={lang} value={lang}>{OCR_LANGUAGES[lang]}</option>
+              ))}
+            </select>
+            <span>Select every page photo at once, or upload a scanned PDF. Pages are read in filename order.</span>
+          </div>
         </div>
         
         {/* Generate Button */}
@@ -882,6 +1015,15 @@ function EssayFeedback() {
             <span>✨ Generate AI Feedback</span>
           )}
         </button>
+        {generating && (
+          <button
+            type="button"
+            onClick={handleCancelGenerate}
+            className="w-full -mt-4 mb-6 bg-gray-100 text-gray-700 py-2 px-6 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
 
         {/* AO Legend Toggle */}
         <div className="mb-6">
@@ -929,9 +1071,22 @@ function EssayFeedback() {
           )}
         </div>
         
+        {/* Streaming / partial feedback */}
+        {!feedback && (generating || streamInterruption) && (
+          <StreamingFeedback
+            partial={streamedFeedback}
+            interruption={streamInterruption}
+            onRetry={handleGenerate}
+            onDismiss={dismissPartialFeedback}
+          />
+        )}
+
         {/* Feedback Display */}
         {feedback && (
           <div ref={feedbackRef} className="bg-white border border-gray-200 rounded-xl shadow-lg p-6 space-y-6 animate-fade-in-up">
+            {/* Safeguarding flags: the essay is screened once it has been saved */}
+            <SafeguardingNotice essayId={savedEssayId} />
+
             {/* Success Banner */}
             <div className="bg-green-50 border-2 border-green-300 rounded-lg p-6 mb-6">
               <div className="flex items-center justify-between mb-4">
@@ -976,6 +1131,17 @@ function EssayFeedback() {
             <div className="flex items-center justify-between mb-4 flex-wrap gap-3">
               <h3 className="text-2xl font-bold text-gray-900">AI Feedback Results</h3>
               <div className="flex gap-3 flex-wrap items-center justify-end">
+                {savedFeedbackId && (
+                  <button
+                    type="button"
+                    onClick={handleSaveEdits}
+                    disabled={savingEdits || unsavedFields.length === 0}
+                    title={unsavedFields.length > 0 ? 'Record your changes as a new revision' : 'No unsaved changes'}
+                    className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {savingEdits ? 'Saving...' : unsavedFields.length > 0 ? `💾 Save Changes (${unsavedFields.length})` : '💾 Saved'}
+                  </button>
+                )}
                 {savedEssayId && (
                   <Link
                     to="/feedback-history"
@@ -1026,8 +1192,18 @@ function EssayFeedback() {
               <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 flex flex-col gap-2">
                 <div className="text-sm text-gray-600">Overall Score</div>
                 <div className="text-3xl font-bold text-gray-900">{Math.round(feedback.overall_score)}%</div>
-                <p className="text-sm text-gray-700">Out of 100 based on rubric and AI assessment.</p>
+                <p className="text-sm text-gray-700">Weighted total of the rubric criteria, as a percentage.</p>
               </div>
+              {grade && boundarySet && (
+                <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4 flex flex-col gap-1">
+                  <div className="text-sm text-emerald-700">GCSE Grade</div>
+                  <div className="text-2xl font-bold text-emerald-900">{grade}</div>
+                  <div className="text-sm text-emerald-800">
+                    {scoreToMark(feedback.overall_score, boundarySet)}/{boundarySet.max_mark} marks
+                  </div>
+                  <p className="text-xs text-emerald-700">{describeBoundarySet(boundarySet)} boundaries.</p>
+                </div>
+              )}
               {bandAnalysis?.overall_band && (
                 <div className="bg-indigo-50 border border-indigo-200 rounded-lg p-4 flex flex-col gap-1">
                   <div className="text-sm text-indigo-700">GCSE Band</div>
@@ -1036,41 +1212,39 @@ function EssayFeedback() {
                   <p className="text-xs text-indigo-700">Based on AO analysis returned by the model.</p>
                 </div>
               )}
-              {feedback.criteria_scores && Object.keys(feedback.criteria_scores).length > 0 && (
+              {feedback.criteria_scores && feedback.criteria_scores.length > 0 && (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                   <div className="text-sm text-blue-700 mb-2">Criteria Scores</div>
                   <div className="space-y-2">
-                    {Object.entries(feedback.criteria_scores).map(([criterion, score]) => (
-                      <div key={criterion} className="flex items-center justify-between text-sm text-blue-900">
-                        <span className="font-medium">{criterion}</span>
-                        <span className="bg-white border border-blue-200 rounded px-2 py-1 text-xs">{Math.round(score)}%</span>
+                    {feedback.criteria_scores.map((c) => (
+                      <div key={c.criterion} className="flex items-center justify-between text-sm text-blue-900">
+                        <span className="font-medium">{c.criterion}</span>
+                        <span className="bg-white border border-blue-200 rounded px-2 py-1 text-xs">{formatCriterionPoints(c)}</span>
                       </div>
                     ))}
                   </div>
+                  <div className="mt-2 pt-2 border-t border-blue-200 flex items-center justify-between text-sm font-semibold text-blue-900">
+                    <span>Total</span>
+                    <span>
+                      {formatCriterionPoints({
+                        points: feedback.criteria_scores.reduce((sum, c) => sum + c.points, 0),
+                        max_points: feedback.criteria_scores.reduce((sum, c) => sum + c.max_points, 0),
+                      })}
+                    </span>
+                  </div>
                 </div>
               )}
             </div>
             
-            {/* Highlighted Essay View */}
+            {/* Essay with anchored inline comments */}
             <div className="bg-gray-50 border border-gray-300 rounded-lg p-4">
-              <h4 className="text-lg font-semibold text-gray-800 mb-3">Essay with Highlights</h4>
-              <div className="mb-3 flex gap-4 text-sm">
-                <span className="flex items-center gap-2">
-                  <span className="inline-block w-4 h-4 bg-red-100 border-b-2 border-red-400"></span>
-                  Grammar Issues
-                </span>
-                <span className="flex items-center gap-2">
-                  <span className="inline-block w-4 h-4 bg-purple-100 border-b-2 border-purple-400"></span>
-                  Rubric Match
-                </span>
-                <span className="flex items-center gap-2">
-                  <span className="inline-block w-4 h-4 bg-green-100 border-b-2 border-green-400"></span>
-                  Strengths
-                </span>
-              </div>
-              <div className="bg-white p-4 rounded border border-gray-200 max-h-96 overflow-y-auto text-sm leading-relaxed">
-                {highlightedEssay}
-              </div>
+              <h4 className="text-lg font-semibold text-gray-800 mb-1">Essay Comments</h4>
+              <p className="text-xs text-gray-500 mb-3">
+                {savedEssayId
+                  ? 'Select any passage to add your own comment. Click a highlight to find its comment.'
+                  : 'Comments can be edited once the essay is saved.'}
+              </p>
+              <AnnotatedEssay text={content} essayId={savedEssayId} pendingAnnotations={feedback.annotations} />
             </div>
             
             {/* Overall Score with Band Analysis */}
@@ -1094,6 +1268,11 @@ function EssayFeedback() {
                       className="w-24 text-3xl font-bold text-blue-600 bg-white border border-blue-200 rounded px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:outline-none text-right"
                     />
                     <span className="text-3xl font-bold text-blue-600">/100</span>
+                    {grade && (
+                      <span className="ml-2 px-3 py-1 bg-emerald-600 text-white rounded-full font-bold text-lg" title={gradeLabel(grade)}>
+                        {grade}
+                      </span>
+                    )}
                   </div>
                 </div>
                 
@@ -1202,6 +1381,14 @@ function EssayFeedback() {
                 </div>
               )}
             </div>
+
+            {/* Comparison with the previous draft */}
+            {savedThreadId && savedEssayId && (
+              <div className="bg-gray-50 border border-gray-300 rounded-lg p-4">
+                <h4 className="text-lg font-semibold text-gray-800 mb-3">Progress Since the Last Draft</h4>
+                <DraftComparison threadId={savedThreadId} essayId={savedEssayId} />
+              </div>
+            )}
             
             {/* Criteria Matches */}
             {feedback.criteria_matches && feedback.criteria_matches.length > 0 && (
@@ -1223,7 +1410,13 @@ function EssayFeedback() {
             {/* Suggested Feedback */}
             <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
               <h4 className="text-lg font-semibold text-gray-800 mb-2">Suggested Feedback Summary</h4>
-              <p className="text-gray-700 whitespace-pre-line leading-relaxed">{feedback.suggested_feedback}</p>
+              <textarea
+                value={feedback.suggested_feedback}
+                onChange={(e) => setFeedback({ ...feedback, suggested_feedback: e.target.value })}
+                rows={Math.max(4, feedback.suggested_feedback.split('\n').length + 1)}
+                className="w-full bg-white border border-gray-200 rounded p-2 text-gray-700 leading-relaxed focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                aria-label="Suggested feedback summary"
+              />
             </div>
           </div>
         )}
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabaseClient';
@@ -7,8 +7,19 @@ import Navbar from '../components/Navbar';
 import ErrorBoundary from '../components/ErrorBoundary';
 import { ListItemSkeleton } from '../components/LoadingSkeleton';
 import ConfirmModal from '../components/ConfirmModal';
-import { sendFeedbackEmail } from '../utils/emailTemplate';
+import { AnnotatedEssay } from '../components/AnnotatedEssay';
+import { FeedbackRevisionHistory } from '../components/FeedbackRevisionHistory';
+import { RubricVersionHistory } from '../components/RubricVersionHistory';
+import { SafeguardingNotice } from '../components/SafeguardingNotice';
+import { DeliveryHistory } from '../components/DeliveryHistory';
+import { DraftComparison } from '../components/DraftComparison';
+import { describeSendResult, sendFeedbackEmails } from '../utils/deliveries';
+import { setFeedbackReleased } from '../utils/studentPortal';
 import { PageGuide } from '../components/PageGuide';
+import { formatCriterionPoints, formatCriterionScore, toCriterionScores } from '../utils/rubricUtils';
+import type { CriterionScore } from '../utils/openaiClient';
+import { useRubricBoundaries } from '../hooks/useTeacherData';
+import { describeBoundarySet, gradeForScore, gradeLabel } from '../utils/gradeBoundaries';
 
 interface FeedbackItem {
   id: string;
@@ -19,10 +30,16 @@ interface FeedbackItem {
   strengths: string[];
   improvements: string[];
   suggested_feedback: string;
+  criteria_scores: CriterionScore[];
+  rubric_version_id: string | null; // Rubric version this feedback was marked against
   essays: {
     title: string;
     content: string;
     created_at: string;
+    feedback_released_at: string | null;
+    thread_id: string | null; // Submission thread when the essay is one of several drafts
+    version: number | null;
+    rubric_id: string | null;
     students?: {
       name: string;
     } | null;
@@ -39,6 +56,9 @@ function FeedbackHistory() {
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [feedbackToDelete, setFeedbackToDelete] = useState<string | null>(null);
   const [sendingEmail, setSendingEmail] = useState(false);
+  const [ccGuardian, setCcGuardian] = useState(false);
+  const [deliveriesKey, setDeliveriesKey] = useState(0);
+  const [releasing, setReleasing] = useState(false);
   
   // Advanced filters
   const [showFilters, setShowFilters] = useState(false);
@@ -48,6 +68,15 @@ function FeedbackHistory() {
   const [endDate, setEndDate] = useState('');
   const [studentNameFilter, setStudentNameFilter] = useState('');
 
+  // Grades come from each rubric's current boundaries, so they follow any boundary edits
+  const rubricIds = useMemo(
+    () => Array.from(new Set(feedbackList.map(f => f.essays.rubric_id).filter((id): id is string => !!id))),
+    [feedbackList]
+  );
+  const { data: rubricBoundaries } = useRubricBoundaries(rubricIds);
+  const boundariesOf = (item: FeedbackItem) => (item.essays.rubric_id ? rubricBoundaries?.get(item.essays.rubric_id) : undefined);
+  const gradeOf = (item: FeedbackItem) => gradeForScore(item.overall_score, boundariesOf(item));
+
   useEffect(() => {
     if (!user) return;
 
@@ -58,7 +87,7 @@ function FeedbackHistory() {
         // Load essays first, then feedback, then students — avoids PostgREST embed 400s
         const { data: essays, error: essaysErr } = await supabase
           .from('essays')
-          .select('id, title, content, created_at, student_id')
+          .select('id, title, content, created_at, student_id, feedback_released_at, thread_id, version, rubric_id')
           .eq('teacher_id', user.id);
 
         if (essaysErr) {
@@ -74,7 +103,7 @@ function FeedbackHistory() {
 
         const { data: fb, error: fbErr } = await supabase
           .from('feedback')
-          .select('id, created_at, essay_id, overall_score, grammar_issues, strengths, improvements, suggested_feedback')
+          .select('id, created_at, essay_id, overall_score, grammar_issues, strengths, improvements, suggested_feedback, criteria_scores, rubric_version_id')
           .in('essay_id', essayIds)
           .order('created_at', { ascending: false });
 
@@ -111,10 +140,16 @@ function FeedbackHistory() {
             strengths: f.strengths || [],
             improvements: f.improvements || [],
             suggested_feedback: f.suggested_feedback || '',
+            criteria_scores: toCriterionScores(f.criteria_scores),
+            rubric_version_id: f.rubric_version_id ?? null,
             essays: {
               title: essay?.title || 'Untitled Essay',
               content: essay?.content || '',
               created_at: essay?.created_at || '',
+              feedback_released_at: essay?.feedback_released_at ?? null,
+              thread_id: essay?.thread_id ?? null,
+              version: essay?.version ?? null,
+              rubric_id: essay?.rubric_id ?? null,
               students: studentName ? { name: studentName } : null,
             },
           };
@@ -230,36 +265,47 @@ function FeedbackHistory() {
     setDeleteModalOpen(true);
   };
 
+  const handleToggleRelease = async () => {
+    if (!selectedFeedback || !user) return;
+    const release = !selectedFeedback.essays.feedback_released_at;
+    setReleasing(true);
+    try {
+      const releasedAt = await setFeedbackReleased(selectedFeedback.essay_id, user.id, release);
+      // Every feedback row for the essay shares the flag
+      const applyRelease = (item: FeedbackItem) =>
+        item.essay_id === selectedFeedback.essay_id
+          ? { ...item, essays: { ...item.essays, feedback_released_at: releasedAt } }
+          : item;
+      setFeedbackList(prev => prev.map(applyRelease));
+      setSelectedFeedback(applyRelease(selectedFeedback));
+      notify.success(release ? 'Feedback released to the student portal' : 'Feedback withdrawn from the student portal');
+    } catch (error) {
+      console.error('❌ Failed to update feedback release:', error);
+      notify.error('Failed to update release');
+    } finally {
+      setReleasing(false);
+    }
+  };
+
   const handleSendEmail = async () => {
     if (!selectedFeedback) return;
 
-    const studentName = selectedFeedback.essays?.students?.name || 'Student';
-    const studentEmail = `${studentName.toLowerCase().replace(/\s+/g, '.')}@example.com`; // Mock email
-
     setSendingEmail(true);
     try {
-      const result = await sendFeedbackEmail({
-        studentName,
-        studentEmail,
-        essayTitle: selectedFeedback.essays.title,
-        overallScore: selectedFeedback.overall_score,
-        strengths: selectedFeedback.strengths || [],
-        improvements: selectedFeedback.improvements || [],
-        grammarIssues: selectedFeedback.grammar_issues || [],
-        suggestedFeedback: selectedFeedback.suggested_feedback,
-        teacherName: user?.email || 'Your Teacher',
-      });
-
-      if (result.success) {
-        notify.success(`Feedback email sent to ${studentName} (${studentEmail})`);
+      const result = await sendFeedbackEmails([selectedFeedback.essay_id], { ccGuardian });
+      if (result.skipped.length > 0) {
+        notify.error(`Not sent: ${result.skipped[0].reason}`);
+      } else if (result.sent > 0) {
+        notify.success(`Feedback emailed to ${selectedFeedback.essays?.students?.name || 'the student'}`);
       } else {
-        notify.error(result.error || 'Failed to send email');
+        notify.error(describeSendResult(result));
       }
     } catch (error: any) {
-      console.error('Email send error:', error);
-      notify.error('Failed to send feedback email');
+      console.error('❌ Email send error:', error);
+      notify.error(error.message || 'Failed to send feedback email');
     } finally {
       setSendingEmail(false);
+      setDeliveriesKey((key) => key + 1);
     }
   };
 
@@ -311,7 +357,7 @@ function FeedbackHistory() {
                 {
                   title: 'Share or clean up',
                   body: (
-                    <p>Use the send button to email a student (mock email here) or the delete action to remove a record.</p>
+                    <p>Use the send button to email the feedback to the student (tick CC parent/guardian to copy them in) or the delete action to remove a record. Release to student puts the feedback in the student's portal (links are made on Students).</p>
                   ),
                 },
                 {
@@ -510,13 +556,35 @@ function FeedbackHistory() {
                       <span className={`ml-2 px-2 py-1 rounded-full text-sm font-semibold whitespace-nowrap ${getScoreColor(item.overall_score)}`}>
                         {item.overall_score}/100
                       </span>
+                      {gradeOf(item) && (
+                        <span className="ml-1 px-2 py-1 rounded-full text-sm font-semibold whitespace-nowrap bg-emerald-100 text-emerald-800" title={gradeLabel(gradeOf(item)!)}>
+                          {gradeOf(item)}
+                        </span>
+                      )}
                     </div>
                     {item.essays?.students?.name && (
                       <p className="text-sm text-gray-700 mb-1">
                         <span className="font-medium">Student:</span> {item.essays.students.name}
                       </p>
                     )}
-                    <p className="text-sm text-gray-500 mb-2">{formatDate(item.created_at)}</p>
+                    <p className="text-sm text-gray-500 mb-2">
+                      {formatDate(item.created_at)}
+                      {item.essays.version && (
+                        <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-blue-50 text-blue-700 border border-blue-200">
+                          Draft {item.essays.version}
+                        </span>
+                      )}
+                      {item.essays.feedback_released_at && (
+                        <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-purple-50 text-purple-700 border border-purple-200">
+                          Released
+                        </span>
+                      )}
+                    </p>
+                    {item.criteria_scores.length > 0 && (
+                      <p className="text-xs text-gray-500 mb-2">
+                        {item.criteria_scores.map(formatCriterionScore).join(' · ')}
+                      </p>
+                    )}
                     <p className="text-sm text-gray-600 line-clamp-2">{item.suggested_feedback}</p>
                   </div>
                 ))}
@@ -539,8 +607,30 @@ function FeedbackHistory() {
                         <p className="text-sm text-gray-500">
                           Graded on {formatDate(selectedFeedback.created_at)}
                         </p>
+                        {selectedFeedback.essays?.students?.name ? (
+                          <div className="mt-2 flex items-center gap-2 text-sm">
+                            <span className={selectedFeedback.essays.feedback_released_at ? 'text-purple-700' : 'text-gray-500'}>
+                              {selectedFeedback.essays.feedback_released_at
+                                ? `Released to student portal ${formatDate(selectedFeedback.essays.feedback_released_at)}`
+                                : 'Not released to the student'}
+                            </span>
+                            <button
+                              onClick={handleToggleRelease}
+                              disabled={releasing}
+                              className="px-2 py-0.5 rounded border border-purple-600 text-purple-700 text-xs hover:bg-purple-50 disabled:opacity-50"
+                            >
+                              {selectedFeedback.essays.feedback_released_at ? 'Withdraw' : 'Release to student'}
+                            </button>
+                          </div>
+                        ) : (
+                          <p className="mt-2 text-xs text-gray-500">Link this essay to a student to release it to their portal.</p>
+                        )}
                       </div>
-                      <div className="flex gap-2">
+                      <div className="flex items-center gap-2">
+                        <label className="flex items-center gap-1 text-xs text-gray-600" title="Copy the student's parent or guardian on the email">
+                          <input type="checkbox" checked={ccGuardian} onChange={(e) => setCcGuardian(e.target.checked)} />
+                          CC parent/guardian
+                        </label>
                         <button
                           onClick={handleSendEmail}
                           disabled={sendingEmail}
@@ -571,6 +661,8 @@ function FeedbackHistory() {
                       </div>
                     </div>
 
+                    <SafeguardingNotice essayId={selectedFeedback.essay_id} />
+
                     {/* Overall Score */}
                     <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                       <div className="flex items-center justify-between">
@@ -579,8 +671,36 @@ function FeedbackHistory() {
                           {selectedFeedback.overall_score}/100
                         </span>
                       </div>
+                      {gradeOf(selectedFeedback) && (
+                        <p className="mt-1 text-sm text-emerald-800">
+                          GCSE {gradeLabel(gradeOf(selectedFeedback)!)} on {describeBoundarySet(boundariesOf(selectedFeedback)!)} boundaries
+                        </p>
+                      )}
                     </div>
 
+                    {/* Criteria Breakdown */}
+                    {selectedFeedback.criteria_scores.length > 0 && (
+                      <div className="border-l-4 border-blue-500 pl-4">
+                        <h4 className="text-lg font-semibold text-gray-800 mb-2">Criteria Breakdown</h4>
+                        <div className="space-y-2">
+                          {selectedFeedback.criteria_scores.map((c) => (
+                            <div key={c.criterion}>
+                              <div className="flex items-center justify-between text-sm text-gray-700 mb-1">
+                                <span className="font-medium">{c.criterion}</span>
+                                <span className="font-semibold">{formatCriterionPoints(c)}</span>
+                              </div>
+                              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-blue-500 rounded-full"
+                                  style={{ width: `${Math.round((c.points / c.max_points) * 100)}%` }}
+                                />
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     {/* Grammar Issues */}
                     {selectedFeedback.grammar_issues && selectedFeedback.grammar_issues.length > 0 && (
                       <div className="border-l-4 border-red-500 pl-4">
@@ -648,14 +768,37 @@ function FeedbackHistory() {
                       </p>
                     </div>
 
+                    {/* Email Deliveries */}
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                      <h4 className="text-lg font-semibold text-gray-800 mb-2">Emails</h4>
+                      <DeliveryHistory essayId={selectedFeedback.essay_id} refreshKey={deliveriesKey} />
+                    </div>
+
+                    {/* Drafts */}
+                    {selectedFeedback.essays.thread_id && (
+                      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                        <h4 className="text-lg font-semibold text-gray-800 mb-2">Drafts</h4>
+                        <DraftComparison threadId={selectedFeedback.essays.thread_id} essayId={selectedFeedback.essay_id} />
+                      </div>
+                    )}
+
+                    {selectedFeedback.rubric_version_id && (
+                      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                        <h4 className="text-lg font-semibold text-gray-800 mb-2">Rubric Version</h4>
+                        <RubricVersionHistory pinnedVersionId={selectedFeedback.rubric_version_id} />
+                      </div>
+                    )}
+
+                    {/* Revision History */}
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                      <h4 className="text-lg font-semibold text-gray-800 mb-2">Revision History</h4>
+                      <FeedbackRevisionHistory feedbackId={selectedFeedback.id} />
+                    </div>
+
                     {/* Essay Content */}
                     <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
                       <h4 className="text-lg font-semibold text-gray-800 mb-2">Original Essay</h4>
-                      <div className="max-h-96 overflow-y-auto">
-                        <p className="text-gray-700 whitespace-pre-line leading-relaxed">
-                          {selectedFeedback.essays?.content}
-                        </p>
-                      </div>
+                      <AnnotatedEssay text={selectedFeedback.essays?.content || ''} essayId={selectedFeedback.essay_id} />
                     </div>
                   </div>
                 ) : (
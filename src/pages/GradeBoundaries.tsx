@@ -0,0 +1,370 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import notify from '../utils/notify';
+import Navbar from '../components/Navbar';
+import ErrorBoundary from '../components/ErrorBoundary';
+import ConfirmModal from '../components/ConfirmModal';
+import { PageGuide } from '../components/PageGuide';
+import { useGradeBoundarySets, useTeacherRubrics } from '../hooks/useTeacherData';
+import { getTemplatesByBoard } from '../data/gcseTemplates';
+import {
+  BOUNDARY_EXAM_BOARDS,
+  GCSE_GRADES,
+  GRADE_BOUNDARIES_KEY,
+  deleteBoundarySet,
+  describeBoundarySet,
+  gradeForScore,
+  gradeLabel,
+  saveBoundarySet,
+  scoreToMark,
+  validateBoundaries,
+  type GcseGrade,
+  type GradeBoundarySet,
+} from '../utils/gradeBoundaries';
+
+interface BoundaryForm {
+  exam_board: string;
+  subject: string;
+  paper: string;
+  year: string;
+  max_mark: string;
+  boundaries: Record<GcseGrade, string>;
+}
+
+const EMPTY_BOUNDARIES = Object.fromEntries(GCSE_GRADES.map((g) => [g, ''])) as Record<GcseGrade, string>;
+
+const emptyForm = (): BoundaryForm => ({
+  exam_board: BOUNDARY_EXAM_BOARDS[0],
+  subject: '',
+  paper: '',
+  year: String(new Date().getFullYear()),
+  max_mark: '',
+  boundaries: { ...EMPTY_BOUNDARIES },
+});
+
+function GradeBoundaries() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: sets = [], isLoading, error } = useGradeBoundarySets();
+  const { data: rubrics = [] } = useTeacherRubrics();
+  const [form, setForm] = useState<BoundaryForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [toDelete, setToDelete] = useState<GradeBoundarySet | null>(null);
+  const [tryScore, setTryScore] = useState('');
+
+  const subjects = Array.from(new Set(getTemplatesByBoard(form.exam_board).map((t) => t.subject)));
+  const rubricsUsing = (setId: string) => rubrics.filter((r) => r.grade_boundary_set_id === setId);
+
+  const openForm = (set?: GradeBoundarySet) => {
+    setEditingId(set?.id ?? null);
+    setForm(set
+      ? {
+          exam_board: set.exam_board,
+          subject: set.subject || '',
+          paper: set.paper,
+          year: set.year ? String(set.year) : '',
+          max_mark: String(set.max_mark),
+          boundaries: Object.fromEntries(GCSE_GRADES.map((g) => [g, String(set.boundaries[g] ?? '')])) as Record<GcseGrade, string>,
+        }
+      : emptyForm());
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setForm({ ...form, [e.target.name]: e.target.value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (!form.paper.trim()) {
+      notify.error('Please name the paper');
+      return;
+    }
+    const maxMark = Number(form.max_mark);
+    const boundaries = Object.fromEntries(
+      GCSE_GRADES.map((g) => [g, form.boundaries[g] === '' ? NaN : Number(form.boundaries[g])])
+    ) as Record<GcseGrade, number>;
+    const problem = validateBoundaries(maxMark, boundaries);
+    if (problem) {
+      notify.error(problem);
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveBoundarySet(user.id, {
+        exam_board: form.exam_board,
+        subject: form.subject,
+        paper: form.paper,
+        year: form.year ? Number(form.year) : null,
+        max_mark: maxMark,
+        boundaries,
+      }, editingId ?? undefined);
+      // Every grade shown anywhere may have changed
+      queryClient.invalidateQueries(GRADE_BOUNDARIES_KEY);
+      notify.success(editingId ? 'Grade boundaries updated; linked feedback has been regraded' : 'Grade boundaries saved');
+      closeForm();
+    } catch (error: any) {
+      console.error('❌ Failed to save grade boundaries:', error);
+      notify.error(`Failed to save grade boundaries: ${error.message || 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!toDelete) return;
+    try {
+      await deleteBoundarySet(toDelete.id);
+      queryClient.invalidateQueries(GRADE_BOUNDARIES_KEY);
+      queryClient.invalidateQueries(['teacher', 'rubrics']);
+      notify.success('Grade boundaries deleted');
+    } catch (error: any) {
+      console.error('❌ Failed to delete grade boundaries:', error);
+      notify.error(`Failed to delete grade boundaries: ${error.message || 'Unknown error'}`);
+    } finally {
+      setToDelete(null);
+    }
+  };
+
+  const score = tryScore === '' ? null : Number(tryScore);
+
+  return (
+    <>
+      <Navbar />
+      <ErrorBoundary>
+        <div className="p-4 sm:p-6 max-w-6xl mx-auto">
+          <Link to="/rubrics" className="text-sm text-blue-600 hover:text-blue-800">← Rubrics</Link>
+          <div className="mt-3 mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">Grade Boundaries</h2>
+              <p className="text-sm sm:text-base text-gray-600 mt-1">Turn rubric scores into GCSE 9–1 grades</p>
+            </div>
+            <div className="flex items-center gap-3">
+              <PageGuide
+                title="Using grade boundaries"
+                ctaLabel="Boundaries guide"
+                summary="A boundary table gives the lowest mark for each grade on one paper."
+                sections={[
+                  { title: 'Board boundaries', body: <p>Copy the raw-mark boundaries your exam board published for a paper and exam series, with the paper's total marks.</p> },
+                  { title: 'Your own boundaries', body: <p>Choose “Custom” for mocks or internal assessments where you set the boundaries yourself.</p> },
+                  { title: 'Link a rubric', body: <p>On the Rubrics page, pick the boundaries each rubric grades with. A score is scaled to a mark on the paper (72% of 80 marks is 58) and graded.</p> },
+                  { title: 'Regrading', body: <p>Grades are worked out from the current boundaries every time, so editing a table regrades all feedback marked with its rubrics, including exports and analytics.</p> },
+                ]}
+              />
+              <button
+                type="button"
+                onClick={() => openForm()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+              >
+                New Boundaries
+              </button>
+            </div>
+          </div>
+
+          {showForm && (
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 sm:p-6 mb-6 space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900">{editingId ? 'Edit Grade Boundaries' : 'New Grade Boundaries'}</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="boundary-board" className="block text-sm font-medium text-gray-700 mb-1">Exam board</label>
+                  <select
+                    id="boundary-board"
+                    name="exam_board"
+                    value={form.exam_board}
+                    onChange={handleChange}
+                    className="w-full border border-gray-300 rounded-lg p-2"
+                  >
+                    {BOUNDARY_EXAM_BOARDS.map((b) => <option key={b} value={b}>{b}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="boundary-subject" className="block text-sm font-medium text-gray-700 mb-1">
+                    Subject <span className="text-gray-400">(Optional)</span>
+                  </label>
+                  <input
+                    id="boundary-subject"
+                    name="subject"
+                    value={form.subject}
+                    onChange={handleChange}
+                    list="boundary-subjects"
+                    placeholder="e.g. English Language"
+                    className="w-full border border-gray-300 rounded-lg p-2"
+                  />
+                  <datalist id="boundary-subjects">
+                    {subjects.map((s) => <option key={s} value={s} />)}
+                  </datalist>
+                </div>
+                {form.exam_board !== 'Custom' && (
+                  <div>
+                    <label htmlFor="boundary-year" className="block text-sm font-medium text-gray-700 mb-1">Exam year</label>
+                    <input
+                      id="boundary-year"
+                      name="year"
+                      type="number"
+                      min="2017"
+                      max="2100"
+                      value={form.year}
+                      onChange={handleChange}
+                      className="w-full border border-gray-300 rounded-lg p-2"
+                    />
+                  </div>
+                )}
+                <div className="sm:col-span-2">
+                  <label htmlFor="boundary-paper" className="block text-sm font-medium text-gray-700 mb-1">Paper</label>
+                  <input
+                    id="boundary-paper"
+                    name="paper"
+                    value={form.paper}
+                    onChange={handleChange}
+                    placeholder={form.exam_board === 'Custom' ? 'e.g. Year 11 mock, Paper 1' : 'e.g. Paper 1'}
+                    className="w-full border border-gray-300 rounded-lg p-2"
+                    required
+                  />
+                </div>
+                <div>
+                  <label htmlFor="boundary-max" className="block text-sm font-medium text-gray-700 mb-1">Total marks</label>
+                  <input
+                    id="boundary-max"
+                    name="max_mark"
+                    type="number"
+                    min="1"
+                    value={form.max_mark}
+                    onChange={handleChange}
+                    className="w-full border border-gray-300 rounded-lg p-2"
+                    required
+                  />
+                </div>
+              </div>
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Lowest mark for each grade</p>
+                <div className="grid grid-cols-3 sm:grid-cols-9 gap-2">
+                  {GCSE_GRADES.map((grade) => (
+                    <div key={grade}>
+                      <label htmlFor={`boundary-grade-${grade}`} className="block text-xs text-gray-500 text-center mb-1">Grade {grade}</label>
+                      <input
+                        id={`boundary-grade-${grade}`}
+                        type="number"
+                        min="0"
+                        max={form.max_mark || undefined}
+                        value={form.boundaries[grade]}
+                        onChange={(e) => setForm({ ...form, boundaries: { ...form.boundaries, [grade]: e.target.value } })}
+                        className="w-full border border-gray-300 rounded-lg p-2 text-center"
+                        required
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">Marks below the grade 1 boundary are ungraded (U).</p>
+              </div>
+              <div className="flex justify-end gap-2">
+                <button type="button" onClick={closeForm} className="px-4 py-2 rounded-lg border bg-white hover:bg-gray-50">
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Save Boundaries'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {isLoading ? (
+            <div className="flex items-center justify-center min-h-[30vh]">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : error ? (
+            <p className="text-red-600">Failed to load grade boundaries: {error.message}</p>
+          ) : sets.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm p-12 text-center text-gray-600">
+              No grade boundaries yet. Add a board's published boundaries or your own, then link them to a rubric.
+            </div>
+          ) : (
+            <>
+              <div className="mb-3 flex items-center gap-2 text-sm">
+                <label htmlFor="boundary-try" className="text-gray-700">Try a score:</label>
+                <input
+                  id="boundary-try"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={tryScore}
+                  onChange={(e) => setTryScore(e.target.value)}
+                  className="w-20 border border-gray-300 rounded p-1"
+                />
+                <span className="text-gray-500">%</span>
+              </div>
+              <ul className="space-y-3">
+                {sets.map((set) => {
+                  const using = rubricsUsing(set.id);
+                  const grade = score !== null ? gradeForScore(score, set) : null;
+                  return (
+                    <li key={set.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                      <div className="flex flex-col sm:flex-row sm:items-start gap-3">
+                        <div className="flex-1 min-w-0">
+                          <p className="font-semibold text-gray-900">{describeBoundarySet(set)}</p>
+                          <div className="text-sm text-gray-600 mt-1 flex flex-wrap gap-x-3">
+                            {set.subject && <span>{set.subject}</span>}
+                            <span>{set.max_mark} marks</span>
+                            <span>
+                              {using.length === 0 ? 'Not linked to a rubric' : `Grades ${using.map((r) => r.name).join(', ')}`}
+                            </span>
+                            {grade && score !== null && (
+                              <span className="text-blue-700 font-medium">
+                                {Math.round(score)}% = {scoreToMark(score, set)}/{set.max_mark} = {gradeLabel(grade)}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex gap-3 text-sm">
+                          <button type="button" onClick={() => openForm(set)} className="text-gray-600 hover:text-gray-900 font-medium">Edit</button>
+                          <button type="button" onClick={() => setToDelete(set)} className="text-red-600 hover:text-red-800 font-medium">Delete</button>
+                        </div>
+                      </div>
+                      <div className="mt-3 overflow-x-auto">
+                        <table className="text-sm text-center">
+                          <thead>
+                            <tr className="text-gray-500">
+                              {GCSE_GRADES.map((g) => <th key={g} className="px-3 py-1 font-medium">{g}</th>)}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            <tr className="text-gray-900">
+                              {GCSE_GRADES.map((g) => <td key={g} className="px-3 py-1 border-t">{set.boundaries[g]}</td>)}
+                            </tr>
+                          </tbody>
+                        </table>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+      </ErrorBoundary>
+      <ConfirmModal
+        isOpen={!!toDelete}
+        onClose={() => setToDelete(null)}
+        onConfirm={handleDelete}
+        title="Delete grade boundaries?"
+        message={`"${toDelete ? describeBoundarySet(toDelete) : ''}" will be deleted. Rubrics linked to it will show percentages only.`}
+        confirmText="Delete"
+      />
+    </>
+  );
+}
+
+export default GradeBoundaries;
@@ -1,19 +1,36 @@
 import { useEffect, useMemo, useState, useRef } from 'react';
-import { getTemplatesByBoard, getTemplate, GCSERubricTemplate } from '../data/gcseTemplates';
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { getTemplatesByBoard, getTemplate, gcseTemplateCriteria, GCSERubricTemplate } from '../data/gcseTemplates';
 import { supabase } from '../lib/supabaseClient';
 import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
 import notify from '../utils/notify';
-import { parseRubricFile, parseRubricText, criteriaToCriteriaState } from '../utils/rubricParser';
+import { extractRubricSource } from '../utils/rubricParser';
+import { parseMarkScheme, type MarkBand, type MarkSchemeCriterion, type ParsedMarkScheme } from '../utils/markSchemeParser';
 import Navbar from '../components/Navbar';
 import ErrorBoundary from '../components/ErrorBoundary';
 import { FormSkeleton } from '../components/LoadingSkeleton';
 import ConfirmModal from '../components/ConfirmModal';
 import { PageGuide } from '../components/PageGuide';
+import { MarkSchemePreview } from '../components/MarkSchemePreview';
+import { RubricLibrary } from '../components/RubricLibrary';
+import { templateRef, type RubricPack, type RubricPackTemplate } from '../utils/rubricPacks';
+import { ShareBadge, ShareSelect } from '../components/ShareSelect';
+import { canManageShare, PRIVATE_SHARE, shareRows, workspaceFilter, type ShareTarget } from '../utils/workspaces';
+import { useGradeBoundarySets } from '../hooks/useTeacherData';
+import { describeBoundarySet, GRADE_BOUNDARIES_KEY, linkRubricBoundaries } from '../utils/gradeBoundaries';
+import { RubricVersionHistory } from '../components/RubricVersionHistory';
+import { RUBRIC_VERSIONS_KEY } from '../utils/rubricVersions';
 
 interface Criterion {
   id: number;
   category: string;
   maxPoints: number;
+  // Level-of-response detail from an imported mark scheme
+  description?: string;
+  levels?: MarkBand[];
+  indicativeContent?: string[];
 }
 
 interface RubricRow {
@@ -28,10 +45,22 @@ interface RubricRow {
   template_id?: string | null;
   version?: number;
   cloned_from?: string | null;
+  teacher_id?: string;
+  organisation_id?: string | null;
+  department_id?: string | null;
+  grade_boundary_set_id?: string | null;
 }
 
+const SUBJECTS = ['English', 'Math', 'Science', 'History', 'Geography', 'Religious Studies', 'Other'];
+
+// Copies were once named "X (v2)"; group them with the original
+const baseName = (name: string) => name.replace(/\s*\((?:v\d+|copy)\)$/, '').trim();
+
+const RUBRIC_COLUMNS = 'id, name, subject, criteria, created_at, exam_board, template_id, version, cloned_from, teacher_id, organisation_id, department_id, grade_boundary_set_id';
+
 function Rubrics() {
   const { user } = useAuth();
+  const { activeWorkspaceId, role, myDepartmentIds } = useWorkspace();
   const [rubrics, setRubrics] = useState<RubricRow[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [subject, setSubject] = useState('English');
@@ -48,10 +77,24 @@ function Rubrics() {
   const [rubricToDelete, setRubricToDelete] = useState<string | null>(null);
   const [essayCount, setEssayCount] = useState<number>(0);
   const [feedbackCount, setFeedbackCount] = useState<number>(0);
+  const [importPreview, setImportPreview] = useState<{ fileName: string; scheme: ParsedMarkScheme } | null>(null);
+  const [newShare, setNewShare] = useState<ShareTarget>(PRIVATE_SHARE);
+  const [sharing, setSharing] = useState<string | null>(null);
+  const [linking, setLinking] = useState<string | null>(null);
+  // Rubric whose next version the form is saving
+  const [editing, setEditing] = useState<RubricRow | null>(null);
+  const { data: boundarySets = [] } = useGradeBoundarySets();
+  const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const criteriaJson = useMemo(() => (
-    criteria.map(c => ({ category: c.category, maxPoints: c.maxPoints }))
+    criteria.map(c => ({
+      category: c.category,
+      maxPoints: c.maxPoints,
+      ...(c.description ? { description: c.description } : {}),
+      ...(c.levels?.length ? { levels: c.levels } : {}),
+      ...(c.indicativeContent?.length ? { indicativeContent: c.indicativeContent } : {}),
+    }))
   ), [criteria]);
 
   useEffect(() => {
@@ -67,8 +110,8 @@ function Rubrics() {
         );
         const fetchPromise = supabase
           .from('rubrics')
-          .select('id, name, subject, criteria, created_at, exam_board, template_id, version, cloned_from')
-          .eq('teacher_id', user.id)
+          .select(RUBRIC_COLUMNS)
+          .or(workspaceFilter(user.id, activeWorkspaceId))
           .order('created_at', { ascending: false })
           .then(res => res); // Convert to real Promise to prevent double-execution
           
@@ -104,7 +147,7 @@ function Rubrics() {
     };
     load();
     return () => { mounted = false; };
-  }, [user]);
+  }, [user, activeWorkspaceId]);
 
   const handleCriterionChange = (idx: number, field: keyof Criterion, value: string | number) => {
     setCriteria(prev => prev.map(c => (c.id === idx ? { ...c, [field]: field === 'maxPoints' ? Number(value) : value } : c)));
@@ -128,6 +171,55 @@ function Rubrics() {
     setExamBoard('AQA');
     setTemplateId('');
     setAvailableTemplates(getTemplatesByBoard('AQA'));
+    setEditing(null);
+  };
+
+  const startEdit = (rubric: RubricRow) => {
+    const board = rubric.exam_board || 'AQA';
+    setEditing(rubric);
+    setName(rubric.name);
+    setSubject(rubric.subject || 'Other');
+    setDescription('');
+    setExamBoard(board);
+    setAvailableTemplates(getTemplatesByBoard(board === 'WJEC Eduqas' ? 'WJEC' : board));
+    setTemplateId(rubric.template_id || '');
+    const existing: Criterion[] = (Array.isArray(rubric.criteria) ? rubric.criteria : []).map((c: any, idx: number) => ({
+      id: idx,
+      category: c.category || '',
+      maxPoints: Number(c.maxPoints) || 0,
+      description: c.description,
+      levels: c.levels,
+      indicativeContent: c.indicativeContent,
+    }));
+    setCriteria(existing.length ? existing : [{ id: 0, category: '', maxPoints: 10 }]);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // The database snapshots the change as the next version; feedback already given keeps the version it used
+  const saveEdit = async (rubric: RubricRow) => {
+    const { data, error } = await supabase
+      .from('rubrics')
+      .update({
+        name,
+        subject,
+        criteria: criteriaJson,
+        exam_board: examBoard,
+        template_id: templateId || null,
+      })
+      .eq('id', rubric.id)
+      .select(RUBRIC_COLUMNS)
+      .single();
+    if (error) {
+      console.error('Rubric update error:', error);
+      notify.error(`Failed to save rubric: ${error.message}`);
+      return;
+    }
+    const saved = data as RubricRow;
+    setRubrics(prev => prev.map(r => (r.id === saved.id ? saved : r)));
+    queryClient.invalidateQueries(RUBRIC_VERSIONS_KEY);
+    queryClient.invalidateQueries(['teacher', 'rubrics']);
+    notify.success(saved.version === rubric.version ? 'No changes to save' : `Saved as version ${saved.version}`);
+    resetForm();
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -147,6 +239,11 @@ function Rubrics() {
       notify.error('Please add at least one criterion');
       return;
     }
+
+    if (editing) {
+      await saveEdit(editing);
+      return;
+    }
     
     const { data, error } = await supabase
       .from('rubrics')
@@ -159,9 +256,10 @@ function Rubrics() {
           exam_board: examBoard,
           template_id: templateId || null,
           version: 1,
+          ...(activeWorkspaceId ? newShare : {}),
         },
       ])
-      .select('id, name, subject, criteria, created_at, exam_board, template_id, version, cloned_from')
+      .select(RUBRIC_COLUMNS)
       .single();
     if (error) {
       console.error('Rubric save error:', error);
@@ -179,28 +277,17 @@ function Rubrics() {
 
     setUploading(true);
     try {
-      // Parse the file
-      const text = await parseRubricFile(file);
-      
-      // Parse text into structured criteria
-      const parsed = parseRubricText(text);
+      // Extract text and tables, then read them as a mark scheme
+      const source = await extractRubricSource(file);
+      const scheme = parseMarkScheme(source);
       
-      if (parsed.length === 0) {
+      if (scheme.criteria.length === 0) {
         notify.error('No criteria found in file. Please check the format.');
         return;
       }
 
-      // Convert to form state
-      const newCriteria = criteriaToCriteriaState(parsed);
-      setCriteria(newCriteria);
-      
-      // Auto-fill name from filename if not set
-      if (!name) {
-        const baseName = file.name.replace(/\.(txt|docx|pdf)$/i, '');
-        setName(baseName);
-      }
-
-      notify.success(`Loaded ${parsed.length} criteria from ${file.name}`);
+      // Nothing changes until the teacher confirms the preview
+      setImportPreview({ fileName: file.name, scheme });
     } catch (error) {
       console.error('File upload error:', error);
       notify.error(error instanceof Error ? error.message : 'Failed to parse rubric file');
@@ -213,6 +300,44 @@ function Rubrics() {
     }
   };
 
+  const confirmImport = (imported: MarkSchemeCriterion[]) => {
+    if (!importPreview) return;
+    setCriteria(imported.map((c, idx) => ({
+      id: idx,
+      category: c.category,
+      maxPoints: c.maxPoints,
+      description: c.description,
+      levels: c.levels,
+      indicativeContent: c.indicativeContent,
+    })));
+    
+    // Auto-fill name from filename if not set
+    if (!name) {
+      setName(importPreview.fileName.replace(/\.(txt|docx|pdf)$/i, ''));
+    }
+
+    const levelCount = imported.reduce((sum, c) => sum + c.levels.length, 0);
+    notify.success(`Loaded ${imported.length} criteria${levelCount > 0 ? ` with ${levelCount} levels` : ''} from ${importPreview.fileName}`);
+    setImportPreview(null);
+  };
+
+  const applyPackTemplate = (pack: RubricPack, tpl: RubricPackTemplate) => {
+    setCriteria(tpl.criteria.map((c, idx) => ({
+      id: idx,
+      category: c.category,
+      maxPoints: c.maxPoints,
+      description: c.description,
+      levels: c.levels,
+      indicativeContent: c.indicativeContent,
+    })));
+    if (!name) setName(`${pack.subject}: ${tpl.name}`);
+    if (!description && tpl.guidance) setDescription(tpl.guidance);
+    setSubject(SUBJECTS.includes(pack.subject) ? pack.subject : 'Other');
+    if (pack.examBoard) setExamBoard(pack.examBoard);
+    setTemplateId(templateRef(pack, tpl));
+    notify.success(`Loaded ${tpl.name} from ${pack.name} (${tpl.totalMarks} marks)`);
+  };
+
   const openDeleteModal = async (id: string) => {
     setRubricToDelete(id);
     
@@ -297,47 +422,106 @@ function Rubrics() {
     if (!original) return;
 
     try {
-      // Get current version or default to 1
-      const { data: versionData } = await supabase
-        .from('rubrics')
-        .select('version')
-        .eq('id', rubricId)
-        .single();
-      
-      const currentVersion = versionData?.version || 1;
-
-      // Create cloned rubric with incremented version
+      // A copy is a rubric of its own with its own history; edits to the original make new versions instead
       const { data, error } = await supabase
         .from('rubrics')
         .insert([{
-          name: `${original.name} (v${currentVersion + 1})`,
+          name: `${baseName(original.name)} (copy)`,
           subject: original.subject,
           criteria: original.criteria,
           teacher_id: user.id,
           exam_board: (original as any).exam_board || null,
           template_id: (original as any).template_id || null,
-          version: currentVersion + 1,
+          version: 1,
           cloned_from: rubricId,
+          // Boundary sets aren't shared, so a colleague's clone starts without one
+          grade_boundary_set_id: original.teacher_id === user.id ? original.grade_boundary_set_id ?? null : null,
         }])
-        .select('id, name, subject, criteria, created_at, exam_board, template_id, version, cloned_from')
+        .select(RUBRIC_COLUMNS)
         .single();
 
       if (error) throw error;
 
       setRubrics(prev => [data as RubricRow, ...prev]);
-      notify.success(`Rubric cloned as version ${currentVersion + 1}`);
+      notify.success('Rubric copied');
     } catch (error: any) {
       console.error('Clone error:', error);
       notify.error(`Failed to clone rubric: ${error.message}`);
     }
   };
 
+  const handleShare = async (rubric: RubricRow, target: ShareTarget) => {
+    setSharing(rubric.id);
+    try {
+      await shareRows('rubrics', [rubric.id], target);
+      setRubrics(prev => prev
+        .map(r => (r.id === rubric.id ? { ...r, ...target } : r))
+        // Someone else's rubric unshared from this workspace is no longer visible
+        .filter(r => r.teacher_id === user?.id || r.organisation_id === activeWorkspaceId));
+      notify.success(target.organisation_id ? 'Rubric shared' : 'Rubric made private');
+    } catch (error: any) {
+      console.error('Rubric share error:', error);
+      notify.error(`Failed to update sharing: ${error.message}`);
+    } finally {
+      setSharing(null);
+    }
+  };
+
+  const renderSharing = (r: RubricRow) => {
+    const target = { organisation_id: r.organisation_id ?? null, department_id: r.department_id ?? null };
+    const owned = r.teacher_id === user?.id;
+    if (user && canManageShare({ ...target, teacher_id: r.teacher_id }, user.id, role, myDepartmentIds)) {
+      return (
+        <>
+          {!owned && <ShareBadge value={target} shared />}
+          <ShareSelect value={target} onChange={t => handleShare(r, t)} disabled={sharing === r.id} label={`Sharing for ${r.name}`} />
+        </>
+      );
+    }
+    return <ShareBadge value={target} shared={!owned} />;
+  };
+
+  const handleLinkBoundaries = async (rubric: RubricRow, setId: string | null) => {
+    setLinking(rubric.id);
+    try {
+      await linkRubricBoundaries(rubric.id, setId);
+      setRubrics(prev => prev.map(r => r.id === rubric.id ? { ...r, grade_boundary_set_id: setId } : r));
+      // Feedback marked with this rubric is regraded wherever it is shown
+      queryClient.invalidateQueries(GRADE_BOUNDARIES_KEY);
+      queryClient.invalidateQueries(['teacher', 'rubrics']);
+      notify.success(setId ? 'Rubric now grades 9–1' : 'Rubric shows percentages only');
+    } catch (error: any) {
+      console.error('Rubric boundaries error:', error);
+      notify.error(`Failed to link grade boundaries: ${error.message}`);
+    } finally {
+      setLinking(null);
+    }
+  };
+
+  const renderBoundaries = (r: RubricRow) => {
+    if (r.teacher_id !== user?.id) {
+      return r.grade_boundary_set_id
+        ? <span className="text-xs bg-emerald-100 text-emerald-800 px-2 py-0.5 rounded">9–1 grades</span>
+        : null;
+    }
+    return (
+      <select
+        value={r.grade_boundary_set_id || ''}
+        onChange={e => handleLinkBoundaries(r, e.target.value || null)}
+        disabled={linking === r.id}
+        aria-label={`Grade boundaries for ${r.name}`}
+        className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+      >
+        <option value="">No grade boundaries</option>
+        {boundarySets.map(set => <option key={set.id} value={set.id}>{describeBoundarySet(set)}</option>)}
+      </select>
+    );
+  };
+
   // Filtering & grouping state
   const [examBoardFilter, setExamBoardFilter] = useState<string>('All');
   const [groupView, setGroupView] = useState<boolean>(true);
-  const [lineageModalOpen, setLineageModalOpen] = useState(false);
-  const [lineageRubrics, setLineageRubrics] = useState<RubricRow[]>([]);
-  const [lineageBaseName, setLineageBaseName] = useState<string>('');
+  const [historyRubric, setHistoryRubric] = useState<RubricRow | null>(null);
 
   const filteredRubrics = useMemo(() => {
     return rubrics.filter(r => examBoardFilter === 'All' || (r.exam_board || 'Unknown') === examBoardFilter);
@@ -347,27 +531,17 @@ function Rubrics() {
     if (!groupView) return [] as { base: string; items: RubricRow[] }[];
     const groups: Record<string, RubricRow[]> = {};
     filteredRubrics.forEach(r => {
-      // Extract base name by stripping a trailing (vN)
-      const base = r.name.replace(/\(v\d+\)$/,'').trim();
+      const base = baseName(r.name);
       if (!groups[base]) groups[base] = [];
       groups[base].push(r);
     });
     return Object.entries(groups).map(([base, items]) => ({
       base,
-      items: items.sort((a,b) => (b.version || 1) - (a.version || 1))
+      // Original first, then its copies
+      items: items.sort((a,b) => (a.created_at || '').localeCompare(b.created_at || ''))
     })).sort((a,b) => a.base.localeCompare(b.base));
   }, [filteredRubrics, groupView]);
 
-  const openLineageModal = (rubric: RubricRow) => {
-    // Determine base name and collect all rubrics sharing base name
-    const base = rubric.name.replace(/\(v\d+\)$/,'').trim();
-    const related = rubrics.filter(r => r.name.replace(/\(v\d+\)$/,'').trim() === base)
-      .sort((a,b) => (a.version || 1) - (b.version || 1));
-    setLineageBaseName(base);
-    setLineageRubrics(related);
-    setLineageModalOpen(true);
-  };
-
   return (
     <>
       <Navbar />
@@ -378,18 +552,24 @@ function Rubrics() {
             <h2 className="text-2xl sm:text-3xl font-bold">Rubrics Manager</h2>
             <p className="text-gray-600 text-sm">Keep rubrics aligned to your boards and reuse them across essays.</p>
           </div>
-          <PageGuide
-            title="How to manage rubrics"
-            ctaLabel="Rubrics guide"
-            summary="Create, import, template, clone, and version."
-            sections={[
-              { title: 'Create or import', body: <p>Fill the form or import a TXT/DOCX. Exam board + template will prefill criteria.</p> },
-              { title: 'Version safely', body: <p>Use “Clone” to iterate; version history is kept via (v1, v2...). Lineage shows related versions.</p> },
-              { title: 'Templates', body: <p>Select a GCSE template to seed AO-aligned criteria. Adjust categories/points as needed.</p> },
-              { title: 'Clean saves', body: <p>Ensure each criterion has a category and max points. Required fields: name, criteria.</p> },
-              { title: 'Shortcuts', body: <p>Ctrl+R opens Rubrics, Ctrl+E jumps to Essay Feedback, Ctrl+H opens History.</p> },
-            ]}
-          />
+          <div className="flex items-center gap-3">
+            <Link to="/grade-boundaries" className="text-sm text-blue-600 hover:text-blue-800 font-medium">Grade Boundaries</Link>
+            <PageGuide
+              title="How to manage rubrics"
+              ctaLabel="Rubrics guide"
+              summary="Create, import, template, edit, and version."
+              sections={[
+                { title: 'Create or import', body: <p>Fill the form or import a TXT/DOCX/PDF mark scheme; level grids are detected and shown for review before they replace the criteria. Exam board + template will prefill criteria.</p> },
+                { title: 'Version safely', body: <p>“Edit” saves your changes as the next version (v2, v3…); earlier versions are kept unchanged and feedback stays linked to the version it was marked against. “History” compares any two versions criterion by criterion. “Duplicate” starts a separate rubric.</p> },
+                { title: 'Templates', body: <p>Select a GCSE template to seed one criterion per AO, marked on its bands. Adjust categories/points as needed.</p> },
+                { title: 'Template library', body: <p>Subject packs (History, Geography, RS, Science) hold mark schemes per question type, with levels and indicative content. Departments can export their rubrics as a pack file and colleagues import it; each pack version is kept.</p> },
+                { title: 'Clean saves', body: <p>Ensure each criterion has a category and max points. Required fields: name, criteria.</p> },
+                { title: 'Share with colleagues', body: <p>In a school workspace, share a rubric with the whole school or a department. Colleagues can mark with it and clone it; only you can delete it.</p> },
+                { title: 'GCSE grades', body: <p>Link a rubric to grade boundaries to show 9–1 grades alongside scores. Set up board or custom boundaries under Grade Boundaries.</p> },
+                { title: 'Shortcuts', body: <p>Ctrl+R opens Rubrics, Ctrl+E jumps to Essay Feedback, Ctrl+H opens History.</p> },
+              ]}
+            />
+          </div>
         </div>
         {loading ? (
           <div className="space-y-4">
@@ -398,6 +578,12 @@ function Rubrics() {
           </div>
         ) : (
         <form onSubmit={handleSubmit} className="border p-4 sm:p-6 bg-gray-50 rounded mb-6 space-y-4">
+          {editing && (
+            <div className="bg-amber-50 border border-amber-200 rounded p-3 text-sm text-amber-900">
+              Editing <span className="font-semibold">{editing.name}</span> v{editing.version || 1}. Saving creates version {(editing.version || 1) + 1};
+              feedback already given stays linked to the version it was marked against.
+            </div>
+          )}
           {/* Exam Board & Template Selection */}
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
             <div>
@@ -428,8 +614,8 @@ function Rubrics() {
                     if (tpl) {
                       // Apply template to form
                       if (!name) setName(`${tpl.subject} (${tpl.examBoard})`);
-                      // Map bands to criteria
-                      const mapped: Criterion[] = tpl.bands.map((b, idx) => ({ id: idx, category: `Band ${b.band} – ${b.level}`, maxPoints: b.band }));
+                      // One criterion per AO, with the bands as its levels
+                      const mapped: Criterion[] = gcseTemplateCriteria(tpl).map((c, idx) => ({ id: idx, ...c }));
                       setCriteria(mapped.length ? mapped : [{ id: 0, category: '', maxPoints: 10 }]);
                       // Prepend AO info to description if empty
                       if (!description) {
@@ -447,12 +633,13 @@ function Rubrics() {
               </select>
             </div>
           </div>
+          <RubricLibrary onApply={applyPackTemplate} exportableRubrics={filteredRubrics} />
           {/* File Upload Section */}
           <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
             <div className="flex items-start justify-between mb-2">
               <div>
                 <h3 className="font-semibold text-blue-900">Upload Rubric File</h3>
-                <p className="text-sm text-blue-700">Import criteria from .txt, .docx, or .pdf files</p>
+                <p className="text-sm text-blue-700">Import criteria or a full level-of-response mark scheme from .txt, .docx, or .pdf files</p>
               </div>
             </div>
             <div className="flex flex-wrap gap-3 items-center">
@@ -484,7 +671,7 @@ function Rubrics() {
                 )}
               </button>
               <p className="text-xs text-gray-600">
-                Supported formats: .txt, .docx (PDF coming soon)
+                Supported formats: .txt, .docx, .pdf. Level grids in tables are read with their mark ranges.
               </p>
             </div>
           </div>
@@ -493,12 +680,7 @@ function Rubrics() {
             <div>
               <label className="block font-semibold mb-1">Subject</label>
               <select aria-label="Subject" value={subject} onChange={e => setSubject(e.target.value)} className="border p-2 w-full">
-                <option>English</option>
-                <option>Math</option>
-                <option>Science</option>
-                <option>History</option>
-                <option>Geography</option>
-                <option>Other</option>
+                {SUBJECTS.map(s => <option key={s}>{s}</option>)}
               </select>
             </div>
             <div>
@@ -542,6 +724,14 @@ function Rubrics() {
                     onChange={e => handleCriterionChange(c.id, 'maxPoints', e.target.value)}
                     required
                   />
+                  {c.levels && c.levels.length > 0 && (
+                    <span
+                      className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded whitespace-nowrap"
+                      title={c.levels.map(l => `Level ${l.level}: ${l.minMarks}–${l.maxMarks}`).join('\n')}
+                    >
+                      {c.levels.length} levels
+                    </span>
+                  )}
                   {criteria.length > 1 && (
                     <button type="button" aria-label="Remove criterion" onClick={() => removeCriterion(c.id)} className="text-red-600 px-2">
                       Remove
@@ -556,10 +746,19 @@ function Rubrics() {
             <input type="checkbox" id="default" checked={isDefault} onChange={e => setIsDefault(e.target.checked)} />
             <label htmlFor="default">Set as default rubric for this subject</label>
           </div>
-          <button type="submit" className="bg-green-600 text-white py-2 px-4 rounded">Save Rubric</button>
+          <div className="flex items-center gap-3">
+            <button type="submit" className="bg-green-600 text-white py-2 px-4 rounded">
+              {editing ? `Save as Version ${(editing.version || 1) + 1}` : 'Save Rubric'}
+            </button>
+            {editing ? (
+              <button type="button" onClick={resetForm} className="py-2 px-4 rounded border bg-white hover:bg-gray-50">Cancel Edit</button>
+            ) : (
+              <ShareSelect value={newShare} onChange={setNewShare} label="Share new rubric" />
+            )}
+          </div>
         </form>
         )}
-        <h3 className="text-xl font-bold mb-4">Your Rubrics</h3>
+        <h3 className="text-xl font-bold mb-4">{activeWorkspaceId ? 'Your Rubrics and Shared Rubrics' : 'Your Rubrics'}</h3>
         {/* Controls */}
         <div className="flex flex-wrap gap-4 mb-4 items-center">
           <div>
@@ -580,7 +779,7 @@ function Rubrics() {
             onClick={() => setGroupView(v => !v)}
             className="text-sm px-3 py-2 rounded border bg-white hover:bg-gray-50"
           >
-            {groupView ? 'Switch to Flat View' : 'Group by Version Lineage'}
+            {groupView ? 'Switch to Flat View' : 'Group Copies by Name'}
           </button>
           <span className="text-xs text-gray-600">Showing {filteredRubrics.length} rubric(s)</span>
         </div>
@@ -606,7 +805,7 @@ function Rubrics() {
               <div key={group.base} className="border rounded bg-gray-50">
                 <div className="px-4 py-2 border-b flex items-center justify-between">
                   <h4 className="font-semibold">{group.base}</h4>
-                  <span className="text-xs text-gray-500">{group.items.length} version(s)</span>
+                  <span className="text-xs text-gray-500">{group.items.length} rubric(s)</span>
                 </div>
                 <div className="divide-y">
                   {group.items.map(r => (
@@ -620,6 +819,8 @@ function Rubrics() {
                           {r.exam_board && (
                             <span className="text-xs bg-gray-200 text-gray-700 px-2 py-0.5 rounded">{r.exam_board}</span>
                           )}
+                          {renderSharing(r)}
+                          {renderBoundaries(r)}
                         </div>
                         {Array.isArray(r.criteria) && (
                           <ul className="list-disc pl-5 mt-2 text-sm">
@@ -633,18 +834,26 @@ function Rubrics() {
                         )}
                       </div>
                       <div className="flex flex-col gap-2 ml-4 text-right">
+                        {r.teacher_id === user?.id && (
+                          <button
+                            onClick={() => startEdit(r)}
+                            className="text-green-700 hover:text-green-900 text-sm"
+                          >Edit</button>
+                        )}
                         <button
                           onClick={() => handleClone(r.id)}
                           className="text-blue-600 hover:text-blue-800 text-sm"
-                        >Clone</button>
+                        >Duplicate</button>
                         <button
-                          onClick={() => openLineageModal(r)}
+                          onClick={() => setHistoryRubric(r)}
                           className="text-indigo-600 hover:text-indigo-800 text-sm"
-                        >Lineage</button>
-                        <button
-                          onClick={() => openDeleteModal(r.id)}
-                          className="text-red-600 hover:text-red-800 text-sm"
-                        >Delete</button>
+                        >History</button>
+                        {r.teacher_id === user?.id && (
+                          <button
+                            onClick={() => openDeleteModal(r.id)}
+                            className="text-red-600 hover:text-red-800 text-sm"
+                          >Delete</button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -663,36 +872,54 @@ function Rubrics() {
                     <div className="flex flex-wrap gap-2 mt-1">
                       {r.exam_board && <span className="text-xs bg-gray-200 px-2 py-0.5 rounded">{r.exam_board}</span>}
                       {r.version && r.version > 1 && <span className="text-xs bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded">v{r.version}</span>}
+                      {renderSharing(r)}
+                      {renderBoundaries(r)}
                     </div>
                     {Array.isArray(r.criteria) && (
                       <ul className="list-disc pl-5 mt-2">
                         {r.criteria.map((c: any, idx: number) => (
-                          <li key={idx}>{c.category} — {c.maxPoints} pts</li>
+                          <li key={idx}>
+                            {c.category} — {c.maxPoints} pts
+                            {Array.isArray(c.levels) && c.levels.length > 0 && (
+                              <span className="text-xs text-gray-500"> ({c.levels.length} levels)</span>
+                            )}
+                          </li>
                         ))}
                       </ul>
                     )}
                   </div>
                   <div className="flex gap-2 ml-4">
+                    {r.teacher_id === user?.id && (
+                      <button
+                        onClick={() => startEdit(r)}
+                        className="text-green-700 hover:text-green-900 font-medium"
+                        title="Edit this rubric as a new version"
+                      >
+                        Edit
+                      </button>
+                    )}
                     <button
                       onClick={() => handleClone(r.id)}
                       className="text-blue-600 hover:text-blue-800 font-medium"
-                      title="Clone this rubric"
+                      title="Duplicate this rubric"
                     >
-                      Clone
+                      Duplicate
                     </button>
                     <button
-                      onClick={() => openLineageModal(r)}
+                      onClick={() => setHistoryRubric(r)}
                       className="text-indigo-600 hover:text-indigo-800 font-medium"
-                      title="View version lineage"
+                      title="View version history"
                     >
-                      Lineage
-                    </button>
-                    <button
-                      onClick={() => openDeleteModal(r.id)}
-                      className="text-red-600 hover:text-red-800 font-medium"
-                    >
-                      Delete
+                      History
                     </button>
+                    {r.teacher_id === user?.id && (
+                      <button
+                        onClick={() => openDeleteModal(r.id)}
+                        className="text-red-600 hover:text-red-800 font-medium"
+                      >
+                        Delete
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -702,42 +929,18 @@ function Rubrics() {
         )}
       </div>
       </ErrorBoundary>
-      {lineageModalOpen && (
-        <div role="dialog" aria-modal="true" aria-labelledby="lineage-title" className="fixed inset-0 bg-black/40 flex items-start sm:items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl overflow-hidden">
+      {historyRubric && (
+        <div role="dialog" aria-modal="true" aria-labelledby="history-title" className="fixed inset-0 bg-black/40 flex items-start sm:items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl overflow-hidden">
             <div className="px-4 py-3 border-b flex justify-between items-center">
-              <h4 id="lineage-title" className="font-semibold text-lg">Version Lineage – {lineageBaseName}</h4>
-              <button onClick={() => setLineageModalOpen(false)} aria-label="Close lineage modal" className="text-gray-500 hover:text-gray-700">✕</button>
+              <h4 id="history-title" className="font-semibold text-lg">Version History – {historyRubric.name}</h4>
+              <button onClick={() => setHistoryRubric(null)} aria-label="Close version history" className="text-gray-500 hover:text-gray-700">✕</button>
             </div>
             <div className="p-4 max-h-[70vh] overflow-y-auto">
-              {lineageRubrics.length === 0 && <p className="text-gray-500">No versions found.</p>}
-              {lineageRubrics.length > 0 && (
-                <table className="w-full text-sm border">
-                  <thead>
-                    <tr className="bg-gray-100 text-left">
-                      <th className="p-2 border">Version</th>
-                      <th className="p-2 border">Name</th>
-                      <th className="p-2 border">Exam Board</th>
-                      <th className="p-2 border">Criteria</th>
-                      <th className="p-2 border">Created</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {lineageRubrics.map(r => (
-                      <tr key={r.id} className="hover:bg-gray-50">
-                        <td className="p-2 border">{r.version || 1}</td>
-                        <td className="p-2 border">{r.name}</td>
-                        <td className="p-2 border">{r.exam_board || '—'}</td>
-                        <td className="p-2 border">{Array.isArray(r.criteria) ? r.criteria.length : '—'}</td>
-                        <td className="p-2 border">{r.created_at ? new Date(r.created_at).toLocaleDateString() : '—'}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              )}
+              <RubricVersionHistory rubricId={historyRubric.id} />
               <div className="mt-4 flex justify-end gap-3">
                 <button
-                  onClick={() => setLineageModalOpen(false)}
+                  onClick={() => setHistoryRubric(null)}
                   className="px-4 py-2 rounded border bg-white hover:bg-gray-50"
                 >Close</button>
               </div>
@@ -746,6 +949,15 @@ function Rubrics() {
         </div>
       )}
 
+      {importPreview && (
+        <MarkSchemePreview
+          fileName={importPreview.fileName}
+          scheme={importPreview.scheme}
+          onConfirm={confirmImport}
+          onCancel={() => setImportPreview(null)}
+        />
+      )}
+
       <ConfirmModal
         isOpen={deleteModalOpen}
         onClose={() => {
@@ -758,7 +970,7 @@ function Rubrics() {
         title="Delete Rubric"
         message={
           essayCount > 0 || feedbackCount > 0
-            ? `This rubric is used by ${essayCount} essay(s) and ${feedbackCount} feedback record(s). Deleting it will unlink these items (they won't be deleted, just have no rubric assigned). Continue?`
+            ? `This rubric is used by ${essayCount} essay(s) and ${feedbackCount} feedback record(s). Deleting it will unlink these items (they won't be deleted, just have no rubric assigned); feedback keeps the rubric version it was marked against. Continue?`
             : "Are you sure you want to delete this rubric? This action cannot be undone."
         }
         type="danger"
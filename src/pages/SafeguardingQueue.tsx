@@ -0,0 +1,396 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import notify from '../utils/notify';
+import Navbar from '../components/Navbar';
+import ErrorBoundary from '../components/ErrorBoundary';
+import { PageGuide } from '../components/PageGuide';
+import { safeguardingQueueKey, useSafeguardingQueue } from '../hooks/useSafeguarding';
+import {
+  acknowledgeFlag,
+  addCaseNote,
+  loadCaseNotes,
+  loadFlaggedEssay,
+  resolveFlag,
+  SAFEGUARDING_CATEGORY_LABELS,
+  SEVERITY_STYLES,
+  type SafeguardingCaseNote,
+  type SafeguardingQueueEntry,
+  type SafeguardingSeverity,
+  type SafeguardingStatus,
+} from '../utils/safeguarding';
+
+type StatusFilter = 'active' | SafeguardingStatus | 'all';
+
+const caseNotesKey = (flagId: string) => ['safeguarding', 'notes', flagId];
+
+const STATUS_STYLES: Record<SafeguardingStatus, string> = {
+  open: 'bg-red-600 text-white',
+  acknowledged: 'bg-amber-500 text-white',
+  resolved: 'bg-green-600 text-white',
+};
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+function CaseNotes({ flagId }: { flagId: string }) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { data: notes = [], isLoading } = useQuery<SafeguardingCaseNote[], Error>(caseNotesKey(flagId), () => loadCaseNotes(flagId));
+
+  const handleAdd = async () => {
+    if (!user || !note.trim()) return;
+    setSaving(true);
+    try {
+      await addCaseNote(flagId, user.id, note);
+      setNote('');
+      queryClient.invalidateQueries(caseNotesKey(flagId));
+      queryClient.invalidateQueries(safeguardingQueueKey);
+    } catch (error: any) {
+      console.error('❌ Failed to add case note:', error);
+      notify.error(error.message || 'Failed to add note');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-3 border-t border-gray-200 pt-3 space-y-3">
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading case notes...</p>
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-gray-500">No case notes yet.</p>
+      ) : (
+        <ol className="space-y-2">
+          {notes.map((n) => (
+            <li key={n.id} className={`text-sm rounded p-2 ${n.kind === 'status' ? 'bg-gray-50 text-gray-600' : 'bg-blue-50 text-gray-900'}`}>
+              <div className="text-xs text-gray-500 mb-0.5">
+                {n.author_name || 'Unknown'} · {formatDateTime(n.created_at)}
+              </div>
+              <p className="whitespace-pre-line">{n.body}</p>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="space-y-2">
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          rows={2}
+          placeholder="Actions taken, conversations, referrals..."
+          aria-label="New case note"
+          className="w-full border border-gray-300 rounded p-2 text-sm"
+        />
+        <div className="flex justify-end">
+          <button
+            onClick={handleAdd}
+            disabled={saving || !note.trim()}
+            className="px-3 py-1.5 rounded bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Add Case Note'}
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">Case notes can't be edited or deleted once added.</p>
+    </div>
+  );
+}
+
+function EssayModal({ flag, onClose }: { flag: SafeguardingQueueEntry; onClose: () => void }) {
+  const { data: essay, isLoading, error } = useQuery(['safeguarding', 'essay', flag.id], () => loadFlaggedEssay(flag.id));
+
+  // Highlight the flagged excerpt where it still appears verbatim
+  const parts = useMemo(() => {
+    if (!essay) return null;
+    const start = essay.content.indexOf(flag.excerpt);
+    if (start === -1) return { before: essay.content, match: '', after: '' };
+    return {
+      before: essay.content.slice(0, start),
+      match: flag.excerpt,
+      after: essay.content.slice(start + flag.excerpt.length),
+    };
+  }, [essay, flag.excerpt]);
+
+  return (
+    <div role="dialog" aria-modal="true" aria-labelledby="flagged-essay-title" className="fixed inset-0 bg-black/40 flex items-start sm:items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl overflow-hidden">
+        <div className="px-4 py-3 border-b flex justify-between items-center">
+          <h4 id="flagged-essay-title" className="font-semibold text-lg">{essay?.title || flag.essay_title || 'Essay'}</h4>
+          <button onClick={onClose} aria-label="Close essay" className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+        <div className="p-4 max-h-[70vh] overflow-y-auto">
+          {isLoading && <p className="text-sm text-gray-500">Loading essay...</p>}
+          {error ? <p className="text-sm text-red-600">Failed to load the essay.</p> : null}
+          {!isLoading && !error && !essay && (
+            <p className="text-sm text-gray-600">The essay has been deleted. The flagged excerpt is kept on the safeguarding record.</p>
+          )}
+          {parts && (
+            <p className="whitespace-pre-wrap text-gray-800 leading-relaxed">
+              {parts.before}
+              {parts.match && <mark className="bg-red-200 text-red-900">{parts.match}</mark>}
+              {parts.after}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SafeguardingQueue() {
+  const { profile, loading: authLoading } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: flags = [], isLoading, error } = useSafeguardingQueue();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [severityFilter, setSeverityFilter] = useState<SafeguardingSeverity | 'all'>('all');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<SafeguardingQueueEntry | null>(null);
+
+  const counts = useMemo(() => ({
+    open: flags.filter((f) => f.status === 'open').length,
+    acknowledged: flags.filter((f) => f.status === 'acknowledged').length,
+    highOpen: flags.filter((f) => f.status !== 'resolved' && f.severity === 'high').length,
+  }), [flags]);
+
+  const visible = flags.filter((f) =>
+    (statusFilter === 'all' || (statusFilter === 'active' ? f.status !== 'resolved' : f.status === statusFilter)) &&
+    (severityFilter === 'all' || f.severity === severityFilter)
+  );
+
+  const refresh = () => {
+    queryClient.invalidateQueries(safeguardingQueueKey);
+  };
+
+  const handleAcknowledge = async (flag: SafeguardingQueueEntry) => {
+    setBusy(flag.id);
+    try {
+      await acknowledgeFlag(flag.id);
+      notify.success(flag.status === 'resolved' ? 'Flag reopened' : 'Flag acknowledged');
+      refresh();
+      queryClient.invalidateQueries(caseNotesKey(flag.id));
+    } catch (error: any) {
+      console.error('❌ Failed to update safeguarding flag:', error);
+      notify.error(error.message || 'Failed to update flag');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleResolve = async (flag: SafeguardingQueueEntry) => {
+    if (!outcome.trim()) {
+      notify.error('Record the outcome before resolving');
+      return;
+    }
+    setBusy(flag.id);
+    try {
+      await resolveFlag(flag.id, outcome);
+      notify.success('Flag resolved');
+      setResolving(null);
+      setOutcome('');
+      refresh();
+      queryClient.invalidateQueries(caseNotesKey(flag.id));
+    } catch (error: any) {
+      console.error('❌ Failed to resolve safeguarding flag:', error);
+      notify.error(error.message || 'Failed to resolve flag');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!authLoading && !profile?.is_safeguarding_lead) {
+    return (
+      <>
+        <Navbar />
+        <div className="p-6 max-w-2xl mx-auto text-center space-y-3">
+          <h2 className="text-2xl font-bold text-gray-900">Safeguarding lead access required</h2>
+          <p className="text-gray-600">
+            This queue is only available to Designated Safeguarding Leads. Ask an admin to grant your account
+            safeguarding lead access; teachers then nominate you in their Account Settings.
+          </p>
+          <Link to="/dashboard" className="inline-block text-blue-600 hover:text-blue-800 underline">Back to Dashboard</Link>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Navbar />
+      <ErrorBoundary>
+        <div className="p-4 sm:p-6 max-w-6xl mx-auto">
+          <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">Safeguarding Queue</h2>
+              <p className="text-sm sm:text-base text-gray-600 mt-1">
+                Concerns raised in essays by the teachers who nominated you as their DSL
+              </p>
+            </div>
+            <PageGuide
+              title="Working the safeguarding queue"
+              ctaLabel="Queue guide"
+              summary="Every essay is screened automatically. Concerns land here for you to review."
+              sections={[
+                { title: 'Acknowledge', body: <p>Acknowledge a flag once you've seen it, so the teacher knows it's with you. Open flags count towards the badge in the navigation bar.</p> },
+                { title: 'Case notes', body: <p>Record conversations, actions and referrals. Notes are permanent; status changes are logged automatically.</p> },
+                { title: 'Resolve', body: <p>Resolve with an outcome (e.g. "No further action", "Referred to children's social care"). Resolved flags can be reopened.</p> },
+                { title: 'False positives', body: <p>The classifier errs on the side of caution. Resolve false positives with an outcome explaining why, so the record is complete.</p> },
+              ]}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+            <div className="bg-white rounded-lg shadow-sm p-4 border-l-4 border-red-600">
+              <div className="text-sm text-gray-600">Open</div>
+              <div className="text-2xl font-bold text-gray-900">{counts.open}</div>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm p-4 border-l-4 border-amber-500">
+              <div className="text-sm text-gray-600">Acknowledged</div>
+              <div className="text-2xl font-bold text-gray-900">{counts.acknowledged}</div>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm p-4 border-l-4 border-red-900">
+              <div className="text-sm text-gray-600">High severity, unresolved</div>
+              <div className="text-2xl font-bold text-gray-900">{counts.highOpen}</div>
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-3 mb-4">
+            <select
+              aria-label="Filter by status"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+              className="border border-gray-300 rounded-lg p-2 text-sm"
+            >
+              <option value="active">Open and acknowledged</option>
+              <option value="open">Open</option>
+              <option value="acknowledged">Acknowledged</option>
+              <option value="resolved">Resolved</option>
+              <option value="all">All</option>
+            </select>
+            <select
+              aria-label="Filter by severity"
+              value={severityFilter}
+              onChange={(e) => setSeverityFilter(e.target.value as SafeguardingSeverity | 'all')}
+              className="border border-gray-300 rounded-lg p-2 text-sm"
+            >
+              <option value="all">All severities</option>
+              <option value="high">High</option>
+              <option value="medium">Medium</option>
+              <option value="low">Low</option>
+            </select>
+          </div>
+
+          {isLoading || authLoading ? (
+            <div className="flex items-center justify-center min-h-[30vh]">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600"></div>
+            </div>
+          ) : error ? (
+            <p className="text-red-600">Failed to load the safeguarding queue: {error.message}</p>
+          ) : visible.length === 0 ? (
+            <div className="bg-white rounded-lg shadow-sm p-12 text-center text-gray-600">
+              {flags.length === 0 ? 'No concerns have been raised.' : 'No flags match these filters.'}
+            </div>
+          ) : (
+            <ul className="space-y-4">
+              {visible.map((flag) => (
+                <li key={flag.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className={`px-2 py-0.5 rounded border text-xs font-semibold uppercase ${SEVERITY_STYLES[flag.severity]}`}>
+                      {flag.severity}
+                    </span>
+                    <span className="font-semibold text-gray-900">{SAFEGUARDING_CATEGORY_LABELS[flag.category]}</span>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[flag.status]}`}>{flag.status}</span>
+                    <span className="text-sm text-gray-500 ml-auto">{formatDateTime(flag.created_at)}</span>
+                  </div>
+                  <div className="text-sm text-gray-700 mb-2">
+                    <span className="font-medium">{flag.student_name || 'Unlinked student'}</span>
+                    {' · '}{flag.essay_title || 'Deleted essay'}
+                    {' · '}referred by {flag.teacher_name || flag.teacher_email || 'unknown teacher'}
+                  </div>
+                  <blockquote className="border-l-2 border-red-300 pl-3 italic text-gray-800">"{flag.excerpt}"</blockquote>
+                  {flag.rationale && <p className="text-sm text-gray-600 mt-2">{flag.rationale}</p>}
+                  {flag.status === 'resolved' && flag.outcome && (
+                    <p className="text-sm text-gray-700 mt-2"><span className="font-medium">Outcome:</span> {flag.outcome}</p>
+                  )}
+
+                  {resolving === flag.id && (
+                    <div className="mt-3 space-y-2">
+                      <textarea
+                        value={outcome}
+                        onChange={(e) => setOutcome(e.target.value)}
+                        rows={2}
+                        placeholder="Outcome, e.g. spoke with student, no further action"
+                        aria-label="Outcome"
+                        className="w-full border border-gray-300 rounded p-2 text-sm"
+                      />
+                      <div className="flex justify-end gap-2">
+                        <button onClick={() => setResolving(null)} className="px-3 py-1.5 rounded border bg-white hover:bg-gray-50 text-sm">Cancel</button>
+                        <button
+                          onClick={() => handleResolve(flag)}
+                          disabled={busy === flag.id || !outcome.trim()}
+                          className="px-3 py-1.5 rounded bg-green-600 text-white text-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {busy === flag.id ? 'Saving...' : 'Resolve'}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap gap-3 mt-3 text-sm">
+                    {flag.status === 'open' && (
+                      <button
+                        onClick={() => handleAcknowledge(flag)}
+                        disabled={busy === flag.id}
+                        className="px-3 py-1.5 rounded bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50"
+                      >
+                        Acknowledge
+                      </button>
+                    )}
+                    {flag.status !== 'resolved' && resolving !== flag.id && (
+                      <button
+                        onClick={() => { setResolving(flag.id); setOutcome(''); }}
+                        className="px-3 py-1.5 rounded bg-green-600 text-white hover:bg-green-700"
+                      >
+                        Resolve...
+                      </button>
+                    )}
+                    {flag.status === 'resolved' && (
+                      <button
+                        onClick={() => handleAcknowledge(flag)}
+                        disabled={busy === flag.id}
+                        className="px-3 py-1.5 rounded border bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Reopen
+                      </button>
+                    )}
+                    {flag.essay_id && (
+                      <button onClick={() => setViewing(flag)} className="text-blue-600 hover:text-blue-800 font-medium">
+                        View essay
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setExpanded(expanded === flag.id ? null : flag.id)}
+                      className="text-blue-600 hover:text-blue-800 font-medium"
+                      aria-expanded={expanded === flag.id}
+                    >
+                      Case notes ({flag.note_count})
+                    </button>
+                  </div>
+
+                  {expanded === flag.id && <CaseNotes flagId={flag.id} />}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </ErrorBoundary>
+      {viewing && <EssayModal flag={viewing} onClose={() => setViewing(null)} />}
+    </>
+  );
+}
+
+export default SafeguardingQueue;
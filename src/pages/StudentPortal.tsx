@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import Logo from '../components/Logo';
+import { AnnotatedEssay } from '../components/AnnotatedEssay';
+import { fetchPortal, PortalLinkError, type PortalView } from '../utils/studentPortal';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * What a student sees through a share link: feedback their teacher has released, the annotated essay
+ * and how their scores have moved. No sign-in; the signed link is the credential.
+ */
+export default function StudentPortal() {
+  const { token = '' } = useParams();
+  const [view, setView] = useState<PortalView | null>(null);
+  const [error, setError] = useState<{ status: number; message: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    fetchPortal(token)
+      .then((data) => {
+        if (!mounted) return;
+        setView(data);
+        setSelectedId(data.essays[0]?.id ?? null);
+      })
+      .catch((err) => {
+        console.error('❌ Failed to open student portal:', err);
+        if (mounted) {
+          setError({ status: err instanceof PortalLinkError ? err.status : 500, message: err?.message || 'Could not open the portal' });
+        }
+      })
+      .finally(() => mounted && setLoading(false));
+    return () => { mounted = false; };
+  }, [token]);
+
+  // Oldest first for the progress chart
+  const progress = useMemo(
+    () =>
+      (view?.essays || [])
+        .filter((e) => e.overall_score !== null)
+        .slice()
+        .reverse()
+        .map((e) => ({ date: formatDate(e.submitted_at), title: e.title, score: e.overall_score as number })),
+    [view]
+  );
+  const change = progress.length > 1 ? progress[progress.length - 1].score - progress[0].score : null;
+  const selected = view?.essays.find((e) => e.id === selectedId) || null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b">
+        <div className="max-w-5xl mx-auto px-4 py-3 flex items-center justify-between">
+          <Logo className="h-8" />
+          {view && <span className="text-sm text-gray-600">Link valid until {formatDate(view.expires_at)}</span>}
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        {loading ? (
+          <p className="text-gray-600">Loading your feedback...</p>
+        ) : error || !view ? (
+          <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">
+              {error?.status === 410 ? 'This link no longer works' : 'We couldn’t open this link'}
+            </h1>
+            <p className="text-gray-600">{error?.message}</p>
+            <p className="text-gray-600 mt-2">Ask your teacher for a new link.</p>
+          </div>
+        ) : (
+          <>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Hi {view.student.name}</h1>
+              <p className="text-gray-600">Feedback your teacher has shared with you.</p>
+            </div>
+
+            {view.essays.length === 0 ? (
+              <div className="bg-white rounded-lg shadow-sm p-8 text-center text-gray-600">
+                Nothing has been shared yet. Check back once your teacher releases your feedback.
+              </div>
+            ) : (
+              <>
+                {progress.length > 1 && (
+                  <section className="bg-white rounded-lg shadow-sm p-4">
+                    <div className="flex items-baseline justify-between mb-2">
+                      <h2 className="text-lg font-semibold text-gray-900">Your progress</h2>
+                      {change !== null && (
+                        <span className={`text-sm font-medium ${change >= 0 ? 'text-green-700' : 'text-amber-700'}`}>
+                          {change >= 0 ? `Up ${change}` : `Down ${Math.abs(change)}`} since your first essay
+                        </span>
+                      )}
+                    </div>
+                    <ResponsiveContainer width="100%" height={220}>
+                      <LineChart data={progress}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                        <YAxis domain={[0, 100]} tick={{ fontSize: 12 }} />
+                        <Tooltip
+                          formatter={(value: number) => [`${value}/100`, 'Score']}
+                          labelFormatter={(label, payload) => payload?.[0]?.payload?.title || label}
+                        />
+                        <Line type="monotone" dataKey="score" stroke="#1e3a8a" strokeWidth={2} dot />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </section>
+                )}
+
+                <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+                  <nav className="space-y-2" aria-label="Your essays">
+                    {view.essays.map((essay) => (
+                      <button
+                        key={essay.id}
+                        onClick={() => setSelectedId(essay.id)}
+                        className={`w-full text-left bg-white rounded-lg shadow-sm p-3 hover:shadow-md ${
+                          selectedId === essay.id ? 'ring-2 ring-blue-500' : ''
+                        }`}
+                      >
+                        <span className="block font-medium text-gray-900 line-clamp-2">{essay.title}</span>
+                        <span className="block text-xs text-gray-500">{formatDate(essay.submitted_at)}</span>
+                      </button>
+                    ))}
+                  </nav>
+
+                  {selected && (
+                    <section className="lg:col-span-3 bg-white rounded-lg shadow-sm p-6 space-y-5">
+                      <div className="flex items-start justify-between gap-4">
+                        <div>
+                          <h2 className="text-xl font-bold text-gray-900">{selected.title}</h2>
+                          <p className="text-sm text-gray-500">Shared {formatDate(selected.released_at)}</p>
+                        </div>
+                        {selected.overall_score !== null && (
+                          <span className="text-2xl font-bold text-blue-700">{selected.overall_score}/100</span>
+                        )}
+                      </div>
+
+                      {selected.what_went_well.length > 0 && (
+                        <div className="border-l-4 border-green-500 pl-4">
+                          <h3 className="font-semibold text-gray-800 mb-1">What went well</h3>
+                          <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                            {selected.what_went_well.map((item, idx) => <li key={idx}>{item}</li>)}
+                          </ul>
+                        </div>
+                      )}
+
+                      {selected.next_steps.length > 0 && (
+                        <div className="border-l-4 border-yellow-500 pl-4">
+                          <h3 className="font-semibold text-gray-800 mb-1">Next steps</h3>
+                          <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                            {selected.next_steps.map((item, idx) => <li key={idx}>{item}</li>)}
+                          </ul>
+                        </div>
+                      )}
+
+                      <div>
+                        <h3 className="font-semibold text-gray-800 mb-2">Your essay</h3>
+                        <AnnotatedEssay text={selected.content} pendingAnnotations={selected.annotations} readOnly />
+                      </div>
+                    </section>
+                  )}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,34 +1,48 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useMemo, useState, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { useWorkspace } from '../contexts/WorkspaceContext';
 import { supabase } from '../lib/supabaseClient';
 import notify from '../utils/notify';
 import Navbar from '../components/Navbar';
 import ErrorBoundary from '../components/ErrorBoundary';
 import ConfirmModal from '../components/ConfirmModal';
 import { PageGuide } from '../components/PageGuide';
+import { ClassroomRosterSync } from '../components/ClassroomRosterSync';
+import { StudentPortalLinks } from '../components/StudentPortalLinks';
+import { ShareBadge, ShareSelect } from '../components/ShareSelect';
+import { canManageShare, PRIVATE_SHARE, shareRows, workspaceFilter, type ShareTarget } from '../utils/workspaces';
 
 interface Student {
   id: string;
   name: string;
   email: string;
+  guardian_email?: string | null;
   grade: string;
   class_section: string;
   student_id: string;
   active: boolean;
   notes: string;
+  google_classroom_id?: string | null;
+  teacher_id?: string;
+  organisation_id?: string | null;
+  department_id?: string | null;
 }
 
 function Students() {
   const { user } = useAuth();
+  const { activeWorkspaceId, role, myDepartmentIds } = useWorkspace();
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [importing, setImporting] = useState(false);
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
   const [studentToDelete, setStudentToDelete] = useState<string | null>(null);
+  const [rosterSyncOpen, setRosterSyncOpen] = useState(false);
+  const [portalStudent, setPortalStudent] = useState<Student | null>(null);
   const [form, setForm] = useState<Omit<Student, 'id'>>({
     name: '',
     email: '',
+    guardian_email: '',
     grade: '',
     class_section: '',
     student_id: '',
@@ -36,15 +50,24 @@ function Students() {
     notes: '',
   });
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [newShare, setNewShare] = useState<ShareTarget>(PRIVATE_SHARE);
+  const [shareClass, setShareClass] = useState('');
+  const [classShare, setClassShare] = useState<ShareTarget>(PRIVATE_SHARE);
+  const [sharing, setSharing] = useState(false);
   const csvInputRef = useRef<HTMLInputElement>(null);
 
+  // Classes you can share: the class sections of your own students
+  const ownClassSections = useMemo(() => (
+    Array.from(new Set(students.filter(s => s.teacher_id === user?.id && s.class_section).map(s => s.class_section))).sort()
+  ), [students, user?.id]);
+
   useEffect(() => {
     let mounted = true;
     if (user?.id) {
       loadStudents(mounted);
     }
     return () => { mounted = false; };
-  }, [user]);
+  }, [user, activeWorkspaceId]);
 
   const loadStudents = async (mounted = true) => {
     try {
@@ -56,7 +79,7 @@ function Students() {
       const fetchPromise = supabase
         .from('students')
         .select('*')
-        .eq('teacher_id', user!.id)
+        .or(workspaceFilter(user!.id, activeWorkspaceId))
         .order('name')
         .then(res => res); // Convert to real Promise to prevent double-execution
         
@@ -101,6 +124,7 @@ function Students() {
     setForm({ 
       name: '', 
       email: '', 
+      guardian_email: '',
       grade: '', 
       class_section: '', 
       student_id: '', 
@@ -129,11 +153,13 @@ function Students() {
             teacher_id: user.id,
             name: form.name,
             email: form.email,
+            guardian_email: form.guardian_email?.trim() || null,
             grade: form.grade,
             class_section: form.class_section,
             student_id: form.student_id,
             active: form.active,
             notes: form.notes,
+            ...(activeWorkspaceId ? newShare : {}),
           }])
           .select()
           .single();
@@ -148,6 +174,7 @@ function Students() {
           .update({
             name: form.name,
             email: form.email,
+            guardian_email: form.guardian_email?.trim() || null,
             grade: form.grade,
             class_section: form.class_section,
             student_id: form.student_id,
@@ -176,8 +203,8 @@ function Students() {
   const handleEdit = (id: string) => {
     const student = students.find(s => s.id === id);
     if (!student) return;
-    const { id: _id, ...rest } = student;
-    setForm(rest);
+    const { id: _id, google_classroom_id: _classroomId, teacher_id: _teacherId, organisation_id: _organisationId, department_id: _departmentId, ...rest } = student;
+    setForm({ ...rest, guardian_email: rest.guardian_email || '' });
     setEditingId(id);
   };
 
@@ -227,6 +254,50 @@ function Students() {
     }
   };
 
+  const applyShare = (ids: string[], target: ShareTarget) => {
+    setStudents(prev => prev
+      .map(s => (ids.includes(s.id) ? { ...s, ...target } : s))
+      // Someone else's student unshared from this workspace is no longer visible
+      .filter(s => s.teacher_id === user?.id || s.organisation_id === activeWorkspaceId));
+  };
+
+  const handleShareStudent = async (student: Student, target: ShareTarget) => {
+    setSharing(true);
+    try {
+      await shareRows('students', [student.id], target);
+      applyShare([student.id], target);
+      notify.success(target.organisation_id ? 'Student shared' : 'Student made private');
+    } catch (error: any) {
+      console.error('Error sharing student:', error);
+      notify.error(`Failed to update sharing: ${error.message || 'Unknown error'}`);
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const handleShareClass = async () => {
+    if (!shareClass) return;
+    const ids = students.filter(s => s.teacher_id === user?.id && s.class_section === shareClass).map(s => s.id);
+    setSharing(true);
+    try {
+      await shareRows('students', ids, classShare);
+      applyShare(ids, classShare);
+      notify.success(`${classShare.organisation_id ? 'Shared' : 'Made private'} ${ids.length} student(s) in ${shareClass}`);
+    } catch (error: any) {
+      console.error('Error sharing class:', error);
+      notify.error(`Failed to share class: ${error.message || 'Unknown error'}`);
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const canManage = (s: Student) => !!user && canManageShare(
+    { organisation_id: s.organisation_id ?? null, department_id: s.department_id ?? null, teacher_id: s.teacher_id },
+    user.id,
+    role,
+    myDepartmentIds
+  );
+
   const handleCsvImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -254,6 +325,7 @@ function Students() {
       const sectionIndex = headers.findIndex(h => h.includes('section') || h.includes('class'));
       const studentIdIndex = headers.findIndex(h => h.includes('student') && h.includes('id'));
       const notesIndex = headers.findIndex(h => h === 'notes');
+      const guardianIndex = headers.findIndex(h => h.includes('guardian') || h.includes('parent'));
       
       if (nameIndex === -1 || emailIndex === -1) {
         notify.error('CSV must have "name" and "email" columns');
@@ -273,6 +345,7 @@ function Students() {
           teacher_id: user!.id,
           name: cols[nameIndex],
           email: cols[emailIndex],
+          guardian_email: guardianIndex !== -1 ? cols[guardianIndex] || null : null,
           grade: gradeIndex !== -1 ? cols[gradeIndex] || '' : '',
           class_section: sectionIndex !== -1 ? cols[sectionIndex] || '' : '',
           student_id: studentIdIndex !== -1 ? cols[studentIdIndex] || '' : '',
@@ -308,7 +381,7 @@ function Students() {
   };
 
   const downloadCsvTemplate = () => {
-    const template = 'name,email,grade,class section,student id,notes\nJohn Doe,john@example.com,10,A,S001,Good student\nJane Smith,jane@example.com,10,B,S002,';
+    const template = 'name,email,grade,class section,student id,notes,guardian email\nJohn Doe,john@example.com,10,A,S001,Good student,parent.doe@example.com\nJane Smith,jane@example.com,10,B,S002,,';
     const blob = new Blob([template], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -367,15 +440,28 @@ function Students() {
                 className="hidden"
               />
             </label>
+            <button
+              onClick={() => setRosterSyncOpen(true)}
+              className="bg-green-600 text-white px-3 sm:px-4 py-2 rounded-lg hover:bg-green-700 font-medium flex items-center justify-center gap-2 text-sm"
+            >
+              <svg className="w-4 h-4 sm:w-5 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+              <span className="hidden sm:inline">Sync Google Classroom</span>
+              <span className="sm:hidden">Classroom</span>
+            </button>
             <PageGuide
               title="How to manage students"
               ctaLabel="Students guide"
               summary="Keep rosters clean and link essays easily."
               sections={[
-                { title: 'Add or edit', body: <p>Use the form to add students. Required: name; optional: email, grade, class, ID, notes.</p> },
+                { title: 'Add or edit', body: <p>Use the form to add students. Required: name; optional: email, parent/guardian email, grade, class, ID, notes.</p> },
                 { title: 'Import CSV', body: <p>Download the template, fill it, then import. We validate and show how many rows were added.</p> },
+                { title: 'Google Classroom', body: <p>Connect Classroom in Account Settings, then Sync Google Classroom to pull each course's roster into a class section. Re-sync any time to pick up new students.</p> },
                 { title: 'Link essays', body: <p>When grading, select the student to keep history tied to them.</p> },
+                { title: 'Feedback portal', body: <p>Portal creates an expiring link for the student. They see only feedback you've released from History or a batch, with the annotated essay and their progress.</p> },
                 { title: 'Active toggle', body: <p>Use the Active checkbox to archive without deleting.</p> },
+                { title: 'Share a class', body: <p>In a school workspace, share a whole class section (or single students) with the school or a department, so colleagues can mark their essays. Students stay on your roster.</p> },
                 { title: 'Shortcuts', body: <p>Ctrl+E Essay Feedback · Ctrl+R Rubrics · Ctrl+H History.</p> },
               ]}
             />
@@ -419,6 +505,20 @@ function Students() {
                 placeholder="student@email.com (optional)"
               />
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Parent/Guardian Email
+              </label>
+              <input
+                className="w-full border border-gray-300 rounded-lg p-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                name="guardian_email"
+                type="email"
+                value={form.guardian_email || ''}
+                onChange={handleChange}
+                placeholder="Copied on feedback emails when you choose (optional)"
+              />
+            </div>
             
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Grade Level</label>
@@ -496,9 +596,34 @@ function Students() {
                 Cancel
               </button>
             )}
+            {editingId === null && <ShareSelect value={newShare} onChange={setNewShare} label="Share new student" className="self-center" />}
           </div>
         </form>
 
+        {/* Share a whole class with the active workspace */}
+        {activeWorkspaceId && ownClassSections.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex flex-col sm:flex-row sm:items-center gap-3">
+            <span className="text-sm font-medium text-gray-700">Share a class</span>
+            <select
+              value={shareClass}
+              onChange={(e) => setShareClass(e.target.value)}
+              aria-label="Class to share"
+              className="border border-gray-300 rounded p-1 text-sm"
+            >
+              <option value="">Select class section…</option>
+              {ownClassSections.map(section => <option key={section} value={section}>{section}</option>)}
+            </select>
+            <ShareSelect value={classShare} onChange={setClassShare} label="Share class with" />
+            <button
+              onClick={handleShareClass}
+              disabled={sharing || !shareClass}
+              className="bg-purple-600 text-white py-1.5 px-4 rounded-lg text-sm hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+            >
+              Apply
+            </button>
+          </div>
+        )}
+
         {/* Students Table */}
         <div className="bg-white rounded-lg shadow-md overflow-hidden">
           <div className="overflow-x-auto -mx-4 sm:mx-0">
@@ -510,6 +635,7 @@ function Students() {
                   <th className="hidden lg:table-cell px-3 sm:px-4 py-3 text-left text-xs sm:text-sm font-semibold text-gray-700">Grade</th>
                   <th className="hidden lg:table-cell px-3 sm:px-4 py-3 text-left text-xs sm:text-sm font-semibold text-gray-700">Section</th>
                   <th className="hidden xl:table-cell px-3 sm:px-4 py-3 text-left text-xs sm:text-sm font-semibold text-gray-700">Student ID</th>
+                  {activeWorkspaceId && <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm font-semibold text-gray-700">Sharing</th>}
                   <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm font-semibold text-gray-700">Status</th>
                   <th className="px-3 sm:px-4 py-3 text-left text-xs sm:text-sm font-semibold text-gray-700">Actions</th>
                 </tr>
@@ -523,12 +649,31 @@ function Students() {
                           {getInitials(s.name)}
                         </div>
                         {s.name}
+                        {s.google_classroom_id && (
+                          <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-[10px] font-medium bg-green-50 text-green-700 border border-green-200" title="Synced from Google Classroom">
+                            Classroom
+                          </span>
+                        )}
                       </div>
                     </td>
                     <td className="hidden md:table-cell px-3 sm:px-4 py-3 text-xs sm:text-sm text-gray-600">{s.email}</td>
                     <td className="hidden lg:table-cell px-3 sm:px-4 py-3 text-xs sm:text-sm text-gray-600">{s.grade || '-'}</td>
                     <td className="hidden lg:table-cell px-3 sm:px-4 py-3 text-xs sm:text-sm text-gray-600">{s.class_section || '-'}</td>
                     <td className="hidden xl:table-cell px-3 sm:px-4 py-3 text-xs sm:text-sm text-gray-600">{s.student_id || '-'}</td>
+                    {activeWorkspaceId && (
+                      <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm">
+                        {canManage(s) ? (
+                          <ShareSelect
+                            value={{ organisation_id: s.organisation_id ?? null, department_id: s.department_id ?? null }}
+                            onChange={(t) => handleShareStudent(s, t)}
+                            disabled={sharing}
+                            label={`Sharing for ${s.name}`}
+                          />
+                        ) : (
+                          <ShareBadge value={{ organisation_id: s.organisation_id ?? null, department_id: s.department_id ?? null }} shared />
+                        )}
+                      </td>
+                    )}
                     <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm">
                       {s.active ? (
                         <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
@@ -542,25 +687,35 @@ function Students() {
                     </td>
                     <td className="px-3 sm:px-4 py-3 text-xs sm:text-sm">
                       <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
-                        <button 
-                          onClick={() => handleEdit(s.id)} 
-                          className="text-blue-600 hover:text-blue-800 font-medium"
-                        >
-                          Edit
-                        </button>
-                        <button 
-                          onClick={() => openDeleteModal(s.id)} 
-                          className="text-red-600 hover:text-red-800 font-medium"
+                        {canManage(s) && (
+                          <button 
+                            onClick={() => handleEdit(s.id)} 
+                            className="text-blue-600 hover:text-blue-800 font-medium"
+                          >
+                            Edit
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setPortalStudent(s)}
+                          className="text-purple-600 hover:text-purple-800 font-medium"
                         >
-                          Delete
+                          Portal
                         </button>
+                        {s.teacher_id === user?.id && (
+                          <button 
+                            onClick={() => openDeleteModal(s.id)} 
+                            className="text-red-600 hover:text-red-800 font-medium"
+                          >
+                            Delete
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
                 ))}
                 {students.length === 0 && (
                   <tr>
-                    <td colSpan={7} className="px-4 py-8 text-center">
+                    <td colSpan={activeWorkspaceId ? 8 : 7} className="px-4 py-8 text-center">
                       <div className="flex flex-col items-center">
                         <svg
                           className="w-12 h-12 text-gray-400 mb-3"
@@ -595,6 +750,14 @@ function Students() {
       )}
       </ErrorBoundary>
 
+      {rosterSyncOpen && (
+        <ClassroomRosterSync onClose={() => setRosterSyncOpen(false)} onSynced={() => loadStudents()} />
+      )}
+
+      {portalStudent && (
+        <StudentPortalLinks student={portalStudent} onClose={() => setPortalStudent(null)} />
+      )}
+
       <ConfirmModal
         isOpen={deleteModalOpen}
         onClose={() => {
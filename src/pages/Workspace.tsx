@@ -0,0 +1,439 @@
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../contexts/AuthContext';
+import { departmentsKey, myDepartmentsKey, useWorkspace, workspacesKey } from '../contexts/WorkspaceContext';
+import notify from '../utils/notify';
+import Navbar from '../components/Navbar';
+import ErrorBoundary from '../components/ErrorBoundary';
+import { PageGuide } from '../components/PageGuide';
+import {
+  addWorkspaceMember,
+  createDepartment,
+  createOrganisation,
+  deleteDepartment,
+  loadWorkspaceMembers,
+  removeWorkspaceMember,
+  renameOrganisation,
+  setDepartmentMember,
+  setWorkspaceRole,
+  WORKSPACE_ROLE_LABELS,
+  type WorkspaceMember,
+  type WorkspaceRole,
+} from '../utils/workspaces';
+
+const membersKey = (organisationId: string | null) => ['workspace', organisationId, 'members'];
+
+function Workspace() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { workspaces, activeWorkspace, activeWorkspaceId, role, departments, setActiveWorkspaceId, isLoading } = useWorkspace();
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [workspaceName, setWorkspaceName] = useState<string | null>(null);
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberRole, setMemberRole] = useState<WorkspaceRole>('teacher');
+  const [departmentName, setDepartmentName] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const isSchoolAdmin = role === 'school_admin';
+
+  const { data: members = [], isLoading: membersLoading } = useQuery<WorkspaceMember[], Error>(
+    membersKey(activeWorkspaceId),
+    () => loadWorkspaceMembers(activeWorkspaceId!),
+    { enabled: !!activeWorkspaceId }
+  );
+
+  const me = members.find((m) => m.user_id === user?.id);
+  const canManageDepartment = (departmentId: string) =>
+    isSchoolAdmin || (role === 'head_of_department' && !!me?.department_ids.includes(departmentId));
+
+  const refreshMembers = () => {
+    queryClient.invalidateQueries(membersKey(activeWorkspaceId));
+    queryClient.invalidateQueries(myDepartmentsKey(user?.id));
+  };
+
+  // Runs a change with a busy flag, then reports success or the error
+  const run = async (key: string, action: () => Promise<void>, success: string, failure: string) => {
+    setBusy(key);
+    try {
+      await action();
+      notify.success(success);
+    } catch (error: any) {
+      console.error(`❌ ${failure}:`, error);
+      notify.error(error.message || failure);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreateWorkspace = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newWorkspaceName.trim()) return;
+    run('create', async () => {
+      const organisationId = await createOrganisation(newWorkspaceName);
+      await queryClient.invalidateQueries(workspacesKey(user?.id));
+      setActiveWorkspaceId(organisationId);
+      setNewWorkspaceName('');
+    }, 'Workspace created. You are its school admin.', 'Failed to create workspace');
+  };
+
+  const handleRename = () => {
+    if (!activeWorkspaceId || !workspaceName?.trim()) return;
+    run('rename', async () => {
+      await renameOrganisation(activeWorkspaceId, workspaceName);
+      queryClient.invalidateQueries(workspacesKey(user?.id));
+      setWorkspaceName(null);
+    }, 'Workspace renamed', 'Failed to rename workspace');
+  };
+
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId || !memberEmail.trim()) return;
+    run('add-member', async () => {
+      await addWorkspaceMember(activeWorkspaceId, memberEmail, memberRole);
+      setMemberEmail('');
+      setMemberRole('teacher');
+      refreshMembers();
+    }, 'Member added', 'Failed to add member');
+  };
+
+  const handleRoleChange = (member: WorkspaceMember, newRole: WorkspaceRole) => {
+    if (!activeWorkspaceId) return;
+    run(`role-${member.user_id}`, async () => {
+      await setWorkspaceRole(activeWorkspaceId, member.user_id, newRole);
+      refreshMembers();
+      if (member.user_id === user?.id) queryClient.invalidateQueries(workspacesKey(user?.id));
+    }, 'Role updated', 'Failed to update role');
+  };
+
+  const handleRemove = (member: WorkspaceMember) => {
+    if (!activeWorkspaceId) return;
+    const leaving = member.user_id === user?.id;
+    const confirmed = window.confirm(
+      leaving
+        ? `Leave ${activeWorkspace?.organisation.name}? Rubrics and students you shared stay shared with the workspace.`
+        : `Remove ${member.full_name || member.email} from the workspace? Rubrics and students they shared stay shared.`
+    );
+    if (!confirmed) return;
+    run(`remove-${member.user_id}`, async () => {
+      await removeWorkspaceMember(activeWorkspaceId, member.user_id);
+      if (leaving) {
+        setActiveWorkspaceId(null);
+        queryClient.invalidateQueries(workspacesKey(user?.id));
+      } else {
+        refreshMembers();
+      }
+    }, leaving ? 'You left the workspace' : 'Member removed', 'Failed to remove member');
+  };
+
+  const handleToggleDepartment = (member: WorkspaceMember, departmentId: string) => {
+    const isMember = member.department_ids.includes(departmentId);
+    run(`dept-${member.user_id}-${departmentId}`, async () => {
+      await setDepartmentMember(departmentId, member.user_id, !isMember);
+      refreshMembers();
+    }, isMember ? 'Removed from department' : 'Added to department', 'Failed to update department');
+  };
+
+  const handleCreateDepartment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeWorkspaceId || !departmentName.trim()) return;
+    run('create-department', async () => {
+      await createDepartment(activeWorkspaceId, departmentName);
+      setDepartmentName('');
+      queryClient.invalidateQueries(departmentsKey(activeWorkspaceId));
+    }, 'Department created', 'Failed to create department');
+  };
+
+  const handleDeleteDepartment = (departmentId: string, name: string) => {
+    if (!window.confirm(`Delete the ${name} department? Rubrics and students shared only with it become private to their owners.`)) return;
+    run(`delete-${departmentId}`, async () => {
+      await deleteDepartment(departmentId);
+      queryClient.invalidateQueries(departmentsKey(activeWorkspaceId));
+      refreshMembers();
+    }, 'Department deleted', 'Failed to delete department');
+  };
+
+  return (
+    <>
+      <Navbar />
+      <ErrorBoundary>
+        <div className="p-4 sm:p-6 max-w-5xl mx-auto space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <h2 className="text-2xl sm:text-3xl font-bold text-gray-900">School Workspaces</h2>
+              <p className="text-sm sm:text-base text-gray-600 mt-1">
+                Share rubrics, classes and students with your school or department
+              </p>
+            </div>
+            <PageGuide
+              title="School workspaces"
+              ctaLabel="Workspace guide"
+              summary="A workspace is your school. Departments narrow what's shared to the teachers who need it."
+              sections={[
+                { title: 'Switching', body: <p>Use the workspace switcher in the navigation bar. In a school workspace, Rubrics, Students and the marking pages list your own items plus everything shared with you there.</p> },
+                { title: 'Sharing', body: <p>Rubrics and students stay yours. Share them with the whole school or one of your departments from the Rubrics and Students pages; share a whole class at once by its class section.</p> },
+                { title: 'Roles', body: <p>School admins manage members, departments and everything shared with the school. Heads of department manage their departments' members and shares. Teachers share their own work.</p> },
+                { title: 'School plan', body: <p>If your school is on the School plan, every member gets it while they belong to the workspace.</p> },
+              ]}
+            />
+          </div>
+
+          {/* Your workspaces */}
+          <section className="bg-white rounded-lg shadow-sm p-4 sm:p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-3">Your workspaces</h3>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading workspaces...</p>
+            ) : workspaces.length === 0 ? (
+              <p className="text-sm text-gray-600 mb-4">
+                You're not in a school workspace yet. Create one for your school, or ask your school admin to add you.
+              </p>
+            ) : (
+              <ul className="divide-y mb-4">
+                <li className="py-3 flex items-center justify-between gap-3">
+                  <div>
+                    <div className="font-medium text-gray-900">Personal</div>
+                    <div className="text-xs text-gray-500">Only your own rubrics and students</div>
+                  </div>
+                  {activeWorkspaceId === null ? (
+                    <span className="text-sm text-green-700 font-medium">Active</span>
+                  ) : (
+                    <button onClick={() => setActiveWorkspaceId(null)} className="text-sm text-blue-600 hover:text-blue-800 font-medium">Switch</button>
+                  )}
+                </li>
+                {workspaces.map((w) => (
+                  <li key={w.organisation.id} className="py-3 flex items-center justify-between gap-3">
+                    <div>
+                      <div className="font-medium text-gray-900 flex items-center gap-2">
+                        {w.organisation.name}
+                        {w.organisation.plan === 'school' && (
+                          <span className="px-2 py-0.5 rounded text-xs font-medium text-white bg-green-600">School</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">{WORKSPACE_ROLE_LABELS[w.role]}</div>
+                    </div>
+                    {activeWorkspaceId === w.organisation.id ? (
+                      <span className="text-sm text-green-700 font-medium">Active</span>
+                    ) : (
+                      <button onClick={() => setActiveWorkspaceId(w.organisation.id)} className="text-sm text-blue-600 hover:text-blue-800 font-medium">Switch</button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <form onSubmit={handleCreateWorkspace} className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+                placeholder="School name, e.g. Hillside Academy"
+                aria-label="New workspace name"
+                className="flex-1 border border-gray-300 rounded-lg p-2 text-sm"
+              />
+              <button
+                type="submit"
+                disabled={busy === 'create' || !newWorkspaceName.trim()}
+                className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busy === 'create' ? 'Creating...' : 'Create Workspace'}
+              </button>
+            </form>
+          </section>
+
+          {activeWorkspace && (
+            <>
+              {/* Workspace settings */}
+              <section className="bg-white rounded-lg shadow-sm p-4 sm:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                  {workspaceName !== null ? (
+                    <div className="flex gap-2 flex-1">
+                      <input
+                        type="text"
+                        value={workspaceName}
+                        onChange={(e) => setWorkspaceName(e.target.value)}
+                        aria-label="Workspace name"
+                        className="flex-1 border border-gray-300 rounded-lg p-2 text-sm"
+                      />
+                      <button onClick={handleRename} disabled={busy === 'rename' || !workspaceName.trim()} className="px-3 py-2 rounded-lg bg-blue-600 text-white text-sm hover:bg-blue-700 disabled:opacity-50">Save</button>
+                      <button onClick={() => setWorkspaceName(null)} className="px-3 py-2 rounded-lg border text-sm hover:bg-gray-50">Cancel</button>
+                    </div>
+                  ) : (
+                    <h3 className="text-lg font-semibold text-gray-900">
+                      {activeWorkspace.organisation.name}
+                      {isSchoolAdmin && (
+                        <button onClick={() => setWorkspaceName(activeWorkspace.organisation.name)} className="ml-3 text-sm font-normal text-blue-600 hover:text-blue-800">Rename</button>
+                      )}
+                    </h3>
+                  )}
+                  <span className="text-sm text-gray-600">You are a {WORKSPACE_ROLE_LABELS[activeWorkspace.role].toLowerCase()}</span>
+                </div>
+
+                <h4 className="font-medium text-gray-900 mb-2">Members</h4>
+                {membersLoading ? (
+                  <p className="text-sm text-gray-500">Loading members...</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-600 border-b">
+                          <th className="py-2 pr-3 font-medium">Name</th>
+                          <th className="py-2 pr-3 font-medium">Role</th>
+                          <th className="py-2 pr-3 font-medium">Departments</th>
+                          <th className="py-2 font-medium sr-only">Actions</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y">
+                        {members.map((member) => (
+                          <tr key={member.user_id}>
+                            <td className="py-2 pr-3">
+                              <div className="font-medium text-gray-900">{member.full_name || member.email}</div>
+                              {member.full_name && <div className="text-xs text-gray-500">{member.email}</div>}
+                            </td>
+                            <td className="py-2 pr-3">
+                              {isSchoolAdmin ? (
+                                <select
+                                  value={member.role}
+                                  onChange={(e) => handleRoleChange(member, e.target.value as WorkspaceRole)}
+                                  disabled={busy === `role-${member.user_id}`}
+                                  aria-label={`Role for ${member.full_name || member.email}`}
+                                  className="border border-gray-300 rounded p-1 text-sm"
+                                >
+                                  {(Object.keys(WORKSPACE_ROLE_LABELS) as WorkspaceRole[]).map((r) => (
+                                    <option key={r} value={r}>{WORKSPACE_ROLE_LABELS[r]}</option>
+                                  ))}
+                                </select>
+                              ) : (
+                                WORKSPACE_ROLE_LABELS[member.role]
+                              )}
+                            </td>
+                            <td className="py-2 pr-3">
+                              <div className="flex flex-wrap gap-1">
+                                {departments.map((d) => {
+                                  const inDepartment = member.department_ids.includes(d.id);
+                                  if (!canManageDepartment(d.id)) {
+                                    return inDepartment ? (
+                                      <span key={d.id} className="px-2 py-0.5 rounded bg-gray-100 text-gray-700 text-xs">{d.name}</span>
+                                    ) : null;
+                                  }
+                                  return (
+                                    <button
+                                      key={d.id}
+                                      onClick={() => handleToggleDepartment(member, d.id)}
+                                      disabled={busy === `dept-${member.user_id}-${d.id}`}
+                                      aria-pressed={inDepartment}
+                                      className={`px-2 py-0.5 rounded text-xs border ${
+                                        inDepartment ? 'bg-blue-100 text-blue-800 border-blue-200' : 'bg-white text-gray-500 border-dashed border-gray-300 hover:text-gray-800'
+                                      }`}
+                                    >
+                                      {d.name}
+                                    </button>
+                                  );
+                                })}
+                                {departments.length === 0 && <span className="text-xs text-gray-400">—</span>}
+                              </div>
+                            </td>
+                            <td className="py-2 text-right whitespace-nowrap">
+                              {member.user_id === user?.id ? (
+                                <button onClick={() => handleRemove(member)} disabled={busy === `remove-${member.user_id}`} className="text-red-600 hover:text-red-800">Leave</button>
+                              ) : isSchoolAdmin ? (
+                                <button onClick={() => handleRemove(member)} disabled={busy === `remove-${member.user_id}`} className="text-red-600 hover:text-red-800">Remove</button>
+                              ) : null}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {isSchoolAdmin && (
+                  <form onSubmit={handleAddMember} className="mt-4 flex flex-col sm:flex-row gap-2">
+                    <input
+                      type="email"
+                      value={memberEmail}
+                      onChange={(e) => setMemberEmail(e.target.value)}
+                      placeholder="colleague@school.org.uk"
+                      aria-label="Member email"
+                      className="flex-1 border border-gray-300 rounded-lg p-2 text-sm"
+                    />
+                    <select
+                      value={memberRole}
+                      onChange={(e) => setMemberRole(e.target.value as WorkspaceRole)}
+                      aria-label="New member role"
+                      className="border border-gray-300 rounded-lg p-2 text-sm"
+                    >
+                      {(Object.keys(WORKSPACE_ROLE_LABELS) as WorkspaceRole[]).map((r) => (
+                        <option key={r} value={r}>{WORKSPACE_ROLE_LABELS[r]}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="submit"
+                      disabled={busy === 'add-member' || !memberEmail.trim()}
+                      className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {busy === 'add-member' ? 'Adding...' : 'Add Member'}
+                    </button>
+                  </form>
+                )}
+                {isSchoolAdmin && (
+                  <p className="text-xs text-gray-500 mt-2">Colleagues need a Simple Rubriq account before you can add them.</p>
+                )}
+              </section>
+
+              {/* Departments */}
+              <section className="bg-white rounded-lg shadow-sm p-4 sm:p-6">
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">Departments</h3>
+                {departments.length === 0 ? (
+                  <p className="text-sm text-gray-600 mb-3">
+                    No departments yet. Anything shared goes to the whole school until departments are set up.
+                  </p>
+                ) : (
+                  <ul className="divide-y mb-3">
+                    {departments.map((d) => (
+                      <li key={d.id} className="py-2 flex items-center justify-between">
+                        <div>
+                          <span className="font-medium text-gray-900">{d.name}</span>
+                          <span className="text-xs text-gray-500 ml-2">
+                            {members.filter((m) => m.department_ids.includes(d.id)).length} member(s)
+                          </span>
+                        </div>
+                        {isSchoolAdmin && (
+                          <button
+                            onClick={() => handleDeleteDepartment(d.id, d.name)}
+                            disabled={busy === `delete-${d.id}`}
+                            className="text-sm text-red-600 hover:text-red-800"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {isSchoolAdmin && (
+                  <form onSubmit={handleCreateDepartment} className="flex flex-col sm:flex-row gap-2">
+                    <input
+                      type="text"
+                      value={departmentName}
+                      onChange={(e) => setDepartmentName(e.target.value)}
+                      placeholder="e.g. English"
+                      aria-label="New department name"
+                      className="flex-1 border border-gray-300 rounded-lg p-2 text-sm"
+                    />
+                    <button
+                      type="submit"
+                      disabled={busy === 'create-department' || !departmentName.trim()}
+                      className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Add Department
+                    </button>
+                  </form>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </ErrorBoundary>
+    </>
+  );
+}
+
+export default Workspace;
@@ -0,0 +1,148 @@
+/**
+ * Anchored inline comments on essays.
+ * Each annotation covers `essay.content.slice(start_offset, start_offset + length)`; AI annotations are
+ * resolved from quoted evidence on the server, teacher annotations from a text selection.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import type { EssayAnnotation } from './openaiClient';
+
+export type AnnotationType = EssayAnnotation['type'] | 'comment';
+
+export interface EssayAnnotationRow {
+  id: string;
+  essay_id: string;
+  feedback_id: string | null;
+  start_offset: number;
+  length: number;
+  quote: string;
+  type: AnnotationType;
+  ao: string | null;
+  comment: string;
+  source: 'ai' | 'teacher';
+  created_at: string;
+  updated_at: string;
+}
+
+export type AnnotationChanges = Partial<Pick<EssayAnnotationRow, 'type' | 'ao' | 'comment'>>;
+
+/**
+ * A run of essay text and the annotations covering all of it
+ */
+export interface TextSegment {
+  start: number;
+  text: string;
+  annotationIds: string[];
+}
+
+const ANNOTATION_COLUMNS =
+  'id, essay_id, feedback_id, start_offset, length, quote, type, ao, comment, source, created_at, updated_at';
+
+export const ANNOTATION_TYPE_LABELS: Record<AnnotationType, string> = {
+  strength: 'Strength',
+  improvement: 'Improvement',
+  grammar: 'Grammar',
+  evidence: 'Evidence',
+  comment: 'Comment',
+};
+
+export async function loadAnnotations(essayId: string): Promise<EssayAnnotationRow[]> {
+  const { data, error } = await supabase
+    .from('essay_annotations')
+    .select(ANNOTATION_COLUMNS)
+    .eq('essay_id', essayId)
+    .order('start_offset')
+    .order('created_at');
+  if (error) throw error;
+  return (data || []) as EssayAnnotationRow[];
+}
+
+/**
+ * Store the annotations returned with an AI marking against the saved essay and feedback rows
+ */
+export async function saveAiAnnotations(
+  essayId: string,
+  feedbackId: string | null,
+  teacherId: string,
+  annotations: EssayAnnotation[]
+): Promise<void> {
+  if (annotations.length === 0) return;
+  const { error } = await supabase.from('essay_annotations').insert(
+    annotations.map((a) => ({
+      essay_id: essayId,
+      feedback_id: feedbackId,
+      teacher_id: teacherId,
+      start_offset: a.start_offset,
+      length: a.length,
+      quote: a.quote,
+      type: a.type,
+      ao: a.ao,
+      comment: a.comment,
+      source: 'ai',
+    }))
+  );
+  if (error) throw error;
+}
+
+export async function createAnnotation(
+  teacherId: string,
+  annotation: Pick<EssayAnnotationRow, 'essay_id' | 'start_offset' | 'length' | 'quote' | 'type' | 'ao' | 'comment'>
+): Promise<EssayAnnotationRow> {
+  const { data, error } = await supabase
+    .from('essay_annotations')
+    .insert([{ ...annotation, teacher_id: teacherId, source: 'teacher' }])
+    .select(ANNOTATION_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as EssayAnnotationRow;
+}
+
+export async function updateAnnotation(id: string, changes: AnnotationChanges): Promise<void> {
+  const { error } = await supabase
+    .from('essay_annotations')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteAnnotation(id: string): Promise<void> {
+  const { error } = await supabase.from('essay_annotations').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Split the essay at every annotation boundary so overlapping ranges can be rendered as nested highlights.
+ * Ranges that fall outside the text (e.g. the essay was edited after annotating) are clamped.
+ */
+export function segmentText(
+  text: string,
+  annotations: Array<Pick<EssayAnnotationRow, 'id' | 'start_offset' | 'length'>>
+): TextSegment[] {
+  const ranges = annotations
+    .map((a) => ({
+      id: a.id,
+      start: Math.max(0, Math.min(text.length, a.start_offset)),
+      end: Math.max(0, Math.min(text.length, a.start_offset + a.length)),
+    }))
+    .filter((r) => r.end > r.start);
+
+  const boundaries = new Set<number>([0, text.length]);
+  ranges.forEach((r) => {
+    boundaries.add(r.start);
+    boundaries.add(r.end);
+  });
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    if (end <= start) continue;
+    segments.push({
+      start,
+      text: text.slice(start, end),
+      annotationIds: ranges.filter((r) => r.start <= start && r.end >= end).map((r) => r.id),
+    });
+  }
+  return segments;
+}
@@ -0,0 +1,256 @@
+/**
+ * Assignments: work set for a class section with a question, rubric, due date and word limit.
+ * Essays are filed against an assignment (essays.assignment_id); who is missing, late or marked is
+ * worked out here by comparing them with the class roster.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+
+export interface Assignment {
+  id: string;
+  title: string;
+  prompt: string | null;
+  rubric_id: string | null;
+  class_section: string | null;
+  due_at: string | null;
+  word_limit: number | null;
+  created_at: string;
+}
+
+export type AssignmentInput = Pick<Assignment, 'title' | 'prompt' | 'rubric_id' | 'class_section' | 'due_at' | 'word_limit'>;
+
+/**
+ * Where one student is with an assignment. `not_due` = nothing handed in yet, but the deadline hasn't passed.
+ */
+export type SubmissionStatus = 'marked' | 'submitted' | 'missing' | 'not_due';
+
+export interface StudentSubmission {
+  student_id: string | null;
+  student_name: string;
+  on_roster: boolean; // False for essays from students outside the assignment's class
+  status: SubmissionStatus;
+  late: boolean;
+  essay_id: string | null; // Latest essay handed in
+  essay_title: string | null;
+  submitted_at: string | null;
+  word_count: number | null;
+  score: number | null; // Latest feedback score on that essay
+}
+
+export interface SubmissionCounts {
+  total: number;
+  submitted: number; // Includes marked
+  missing: number;
+  late: number;
+  marked: number;
+}
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  marked: 'Marked',
+  submitted: 'Awaiting marking',
+  missing: 'Missing',
+  not_due: 'Not handed in yet',
+};
+
+export const assignmentsKey = (teacherId: string | undefined) => ['teacher', 'assignments', teacherId];
+export const assignmentSubmissionsKey = (assignmentId: string | undefined) => ['assignments', 'submissions', assignmentId];
+
+const ASSIGNMENT_COLUMNS = 'id, title, prompt, rubric_id, class_section, due_at, word_limit, created_at';
+
+export const isPastDue = (assignment: Pick<Assignment, 'due_at'>, now = new Date()) =>
+  !!assignment.due_at && new Date(assignment.due_at).getTime() < now.getTime();
+
+export const formatDueDate = (iso: string | null) =>
+  iso
+    ? new Date(iso).toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })
+    : 'No due date';
+
+export const isOverWordLimit = (assignment: Pick<Assignment, 'word_limit'> | null | undefined, wordCount: number) =>
+  !!assignment?.word_limit && wordCount > assignment.word_limit;
+
+/**
+ * The assignment's question and word limit as a marking instruction.
+ * Mirrors assignmentBrief in api/_lib/batchWorker.ts.
+ */
+export function assignmentBrief(assignment: Pick<Assignment, 'prompt' | 'word_limit'>): string {
+  return [
+    assignment.prompt?.trim() ? `The essay answers this question: ${assignment.prompt.trim()}` : '',
+    assignment.word_limit ? `The word limit is ${assignment.word_limit} words.` : '',
+  ].filter(Boolean).join('\n');
+}
+
+export async function loadAssignments(teacherId: string): Promise<Assignment[]> {
+  const { data, error } = await supabase
+    .from('assignments')
+    .select(ASSIGNMENT_COLUMNS)
+    .eq('teacher_id', teacherId)
+    .order('due_at', { ascending: false, nullsFirst: false });
+  if (error) throw error;
+  return (data || []) as Assignment[];
+}
+
+export async function loadAssignment(assignmentId: string): Promise<Assignment | null> {
+  const { data, error } = await supabase
+    .from('assignments')
+    .select(ASSIGNMENT_COLUMNS)
+    .eq('id', assignmentId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as Assignment | null;
+}
+
+/**
+ * Create an assignment, or update it when `assignmentId` is given
+ */
+export async function saveAssignment(teacherId: string, input: AssignmentInput, assignmentId?: string): Promise<Assignment> {
+  const row = {
+    title: input.title.trim(),
+    prompt: input.prompt?.trim() || null,
+    rubric_id: input.rubric_id || null,
+    class_section: input.class_section?.trim() || null,
+    due_at: input.due_at || null,
+    word_limit: input.word_limit || null,
+  };
+  const query = assignmentId
+    ? supabase.from('assignments').update({ ...row, updated_at: new Date().toISOString() }).eq('id', assignmentId)
+    : supabase.from('assignments').insert([{ ...row, teacher_id: teacherId }]);
+  const { data, error } = await query.select(ASSIGNMENT_COLUMNS).single();
+  if (error) throw error;
+  return data as Assignment;
+}
+
+/**
+ * Delete an assignment. Its essays and feedback are kept, just no longer filed against it.
+ */
+export async function deleteAssignment(assignmentId: string): Promise<void> {
+  const { error } = await supabase.from('assignments').delete().eq('id', assignmentId);
+  if (error) throw error;
+}
+
+/**
+ * One row per student in the assignment's class, plus anyone outside it who handed work in.
+ * Only the latest essay per student counts; it is late if handed in after the due date.
+ */
+export function summariseSubmissions(
+  assignment: Pick<Assignment, 'due_at'>,
+  roster: Array<{ id: string; name: string }>,
+  essays: Array<{
+    id: string;
+    title: string;
+    student_id: string | null;
+    submitted_at: string;
+    word_count: number | null;
+    score: number | null;
+  }>,
+  now = new Date()
+): StudentSubmission[] {
+  const latest = new Map<string, (typeof essays)[number]>();
+  const unlinked: typeof essays = [];
+  for (const essay of essays) {
+    if (!essay.student_id) {
+      unlinked.push(essay);
+      continue;
+    }
+    const current = latest.get(essay.student_id);
+    if (!current || essay.submitted_at > current.submitted_at) latest.set(essay.student_id, essay);
+  }
+
+  const dueAt = assignment.due_at ? new Date(assignment.due_at).getTime() : null;
+  const toRow = (
+    student: { id: string | null; name: string },
+    essay: (typeof essays)[number] | undefined,
+    onRoster: boolean
+  ): StudentSubmission => ({
+    student_id: student.id,
+    student_name: student.name,
+    on_roster: onRoster,
+    status: essay ? (essay.score !== null ? 'marked' : 'submitted') : isPastDue(assignment, now) ? 'missing' : 'not_due',
+    late: !!essay && dueAt !== null && new Date(essay.submitted_at).getTime() > dueAt,
+    essay_id: essay?.id ?? null,
+    essay_title: essay?.title ?? null,
+    submitted_at: essay?.submitted_at ?? null,
+    word_count: essay?.word_count ?? null,
+    score: essay?.score ?? null,
+  });
+
+  const rosterIds = new Set(roster.map((s) => s.id));
+  return [
+    ...roster.map((student) => toRow(student, latest.get(student.id), true)),
+    // Work handed in by students who aren't (or are no longer) in the class
+    ...Array.from(latest.values())
+      .filter((essay) => !rosterIds.has(essay.student_id!))
+      .map((essay) => toRow({ id: essay.student_id, name: 'Student not in this class' }, essay, false)),
+    ...unlinked.map((essay) => toRow({ id: null, name: 'Unassigned student' }, essay, false)),
+  ];
+}
+
+export function countSubmissions(rows: StudentSubmission[]): SubmissionCounts {
+  return {
+    total: rows.filter((r) => r.on_roster).length,
+    submitted: rows.filter((r) => r.status === 'submitted' || r.status === 'marked').length,
+    missing: rows.filter((r) => r.status === 'missing').length,
+    late: rows.filter((r) => r.late).length,
+    marked: rows.filter((r) => r.status === 'marked').length,
+  };
+}
+
+/**
+ * Submission tracker for an assignment: the class roster against the essays filed for it
+ */
+export async function loadAssignmentSubmissions(assignment: Assignment, teacherId: string): Promise<StudentSubmission[]> {
+  const [rosterResult, essaysResult] = await Promise.all([
+    assignment.class_section
+      ? supabase
+          .from('students')
+          .select('id, name')
+          .eq('teacher_id', teacherId)
+          .eq('class_section', assignment.class_section)
+          .eq('active', true)
+          .order('name')
+      : Promise.resolve({ data: [], error: null }),
+    supabase
+      .from('essays')
+      .select('id, title, student_id, submitted_at, word_count, feedback(overall_score, created_at)')
+      .eq('assignment_id', assignment.id),
+  ]);
+  if (rosterResult.error) throw rosterResult.error;
+  if (essaysResult.error) throw essaysResult.error;
+
+  const essays = (essaysResult.data || []).map((row: any) => {
+    const feedback = [...(row.feedback || [])].sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))[0];
+    return {
+      id: row.id,
+      title: row.title,
+      student_id: row.student_id,
+      submitted_at: row.submitted_at,
+      word_count: row.word_count,
+      score: feedback ? Number(feedback.overall_score) : null,
+    };
+  });
+
+  // Students who handed work in but have since left the class: show their names rather than a placeholder
+  const rows = summariseSubmissions(assignment, rosterResult.data || [], essays);
+  const offRosterIds = rows.filter((r) => !r.on_roster && r.student_id).map((r) => r.student_id!);
+  if (offRosterIds.length > 0) {
+    const { data: others, error } = await supabase.from('students').select('id, name').in('id', offRosterIds);
+    if (error) throw error;
+    const names = new Map((others || []).map((s: any) => [s.id, s.name]));
+    rows.forEach((r) => {
+      if (!r.on_roster && r.student_id && names.has(r.student_id)) r.student_name = names.get(r.student_id)!;
+    });
+  }
+  return rows;
+}
+
+/**
+ * Distinct class sections on the teacher's roster, for the assignment form
+ */
+export async function loadClassSections(teacherId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('students')
+    .select('class_section')
+    .eq('teacher_id', teacherId)
+    .eq('active', true);
+  if (error) throw error;
+  return Array.from(new Set((data || []).map((s: any) => s.class_section).filter(Boolean) as string[])).sort();
+}
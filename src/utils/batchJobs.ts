@@ -0,0 +1,184 @@
+/**
+ * Server-side batch marking jobs.
+ * The browser only queues work and watches progress; /api/process-batch does the marking,
+ * so a job keeps running after the tab is closed and can be reopened from any device.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { authHeaders } from './openaiClient';
+
+export type BatchJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'cancelled';
+export type BatchItemStatus = 'pending' | 'processing' | 'completed' | 'error';
+
+export interface BatchJob {
+  id: string;
+  name: string | null;
+  rubric_id: string;
+  assignment_id: string | null;
+  ai_pre_mark: boolean;
+  status: BatchJobStatus;
+  paused_reason: string | null; // 'teacher', 'quota_exceeded' or 'daily_limit_reached'
+  last_error: string | null;
+  total_items: number;
+  completed_items: number;
+  failed_items: number;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface BatchJobItem {
+  id: string;
+  job_id: string;
+  position: number;
+  filename: string | null;
+  title: string;
+  word_count: number | null;
+  student_id: string | null;
+  status: BatchItemStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string;
+  essay_id: string | null;
+  feedback_id: string | null;
+  score: number | null;
+}
+
+export interface NewBatchItem {
+  filename: string;
+  title: string;
+  content: string;
+  wordCount: number;
+  studentId?: string;
+}
+
+const JOB_COLUMNS =
+  'id, name, rubric_id, assignment_id, ai_pre_mark, status, paused_reason, last_error, total_items, completed_items, failed_items, created_at, updated_at, completed_at';
+// Essay text is only needed by the worker; keep it out of progress polling
+const ITEM_COLUMNS =
+  'id, job_id, position, filename, title, word_count, student_id, status, attempts, last_error, next_attempt_at, essay_id, feedback_id, score';
+
+export const isActiveJob = (job: Pick<BatchJob, 'status'>) => job.status === 'queued' || job.status === 'running';
+
+/**
+ * Queue a batch job with one item per essay. Nothing is marked until the worker picks it up.
+ */
+export async function createBatchJob(
+  teacherId: string,
+  options: { rubricId: string; assignmentId?: string; name: string; aiPreMark: boolean; items: NewBatchItem[] }
+): Promise<BatchJob> {
+  const { data: job, error: jobError } = await supabase
+    .from('batch_jobs')
+    .insert([{
+      teacher_id: teacherId,
+      rubric_id: options.rubricId,
+      assignment_id: options.assignmentId || null,
+      name: options.name,
+      ai_pre_mark: options.aiPreMark,
+      total_items: options.items.length,
+    }])
+    .select(JOB_COLUMNS)
+    .single();
+
+  if (jobError || !job) {
+    throw new Error('Failed to create batch job');
+  }
+
+  const { error: itemsError } = await supabase
+    .from('batch_job_items')
+    .insert(options.items.map((item, position) => ({
+      job_id: job.id,
+      teacher_id: teacherId,
+      position,
+      filename: item.filename,
+      title: item.title,
+      content: item.content,
+      word_count: item.wordCount,
+      student_id: item.studentId || null,
+    })));
+
+  if (itemsError) {
+    // Don't leave an empty job behind
+    await supabase.from('batch_jobs').delete().eq('id', job.id);
+    throw new Error('Failed to queue essays');
+  }
+
+  return job as BatchJob;
+}
+
+/**
+ * Ask the worker to start on this teacher's queue now rather than at the next cron tick.
+ * Best effort: the cron run picks the job up anyway if this fails.
+ */
+export async function kickBatchWorker(): Promise<void> {
+  try {
+    const response = await fetch('/api/process-batch', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    });
+    if (!response.ok) {
+      console.warn('⚠️ Batch worker kick failed:', response.status);
+    }
+  } catch (error) {
+    console.warn('⚠️ Batch worker kick failed:', error);
+  }
+}
+
+export async function loadBatchJobs(teacherId: string, limit = 10): Promise<BatchJob[]> {
+  const { data, error } = await supabase
+    .from('batch_jobs')
+    .select(JOB_COLUMNS)
+    .eq('teacher_id', teacherId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as BatchJob[];
+}
+
+export async function loadBatchJob(jobId: string): Promise<{ job: BatchJob; items: BatchJobItem[] } | null> {
+  const [{ data: job, error: jobError }, { data: items, error: itemsError }] = await Promise.all([
+    supabase.from('batch_jobs').select(JOB_COLUMNS).eq('id', jobId).maybeSingle(),
+    supabase.from('batch_job_items').select(ITEM_COLUMNS).eq('job_id', jobId).order('position'),
+  ]);
+  if (jobError) throw jobError;
+  if (itemsError) throw itemsError;
+  if (!job) return null;
+  return { job: job as BatchJob, items: (items || []) as BatchJobItem[] };
+}
+
+/**
+ * Pause, resume or cancel a job. Items already being marked finish; nothing new is claimed.
+ */
+export async function setBatchJobStatus(jobId: string, action: 'pause' | 'resume' | 'cancel'): Promise<void> {
+  const update =
+    action === 'pause'
+      ? { status: 'paused', paused_reason: 'teacher' }
+      : action === 'resume'
+        ? { status: 'queued', paused_reason: null, last_error: null }
+        : { status: 'cancelled', paused_reason: null };
+
+  const { error } = await supabase
+    .from('batch_jobs')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', jobId);
+  if (error) throw error;
+}
+
+/**
+ * Requeue items that ran out of attempts and reopen the job.
+ */
+export async function retryFailedItems(job: BatchJob): Promise<void> {
+  const now = new Date().toISOString();
+  const { error: itemsError } = await supabase
+    .from('batch_job_items')
+    .update({ status: 'pending', attempts: 0, last_error: null, next_attempt_at: now, updated_at: now })
+    .eq('job_id', job.id)
+    .eq('status', 'error');
+  if (itemsError) throw itemsError;
+
+  const { error: jobError } = await supabase
+    .from('batch_jobs')
+    .update({ status: 'queued', failed_items: 0, paused_reason: null, last_error: null, completed_at: null, updated_at: now })
+    .eq('id', job.id);
+  if (jobError) throw jobError;
+}
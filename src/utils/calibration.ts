@@ -0,0 +1,397 @@
+/**
+ * Multi-marker calibration sessions.
+ * The creator invites colleagues, everyone marks the same essays blind, the lead reveals the marks and records
+ * an agreed (moderated) mark per essay. RLS enforces the blind phase: until a marker has submitted their own
+ * mark for an essay, other markers' marks for it aren't returned.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import type { MarkBand } from './markSchemeParser';
+
+export type CalibrationPhase = 'marking' | 'revealed' | 'closed';
+export type CalibrationMemberStatus = 'invited' | 'accepted' | 'declined';
+
+/** A rubric criterion as snapshotted onto the session when it was created */
+export interface CalibrationCriterion {
+  /** Key in every mark's scores object */
+  key: string;
+  name: string;
+  maxPoints: number;
+  description?: string;
+  levels: MarkBand[];
+}
+
+/** Points per criterion, keyed by CalibrationCriterion.key */
+export type CriterionScores = Record<string, number>;
+
+export const CALIBRATION_PHASE_LABELS: Record<CalibrationPhase, string> = {
+  marking: 'Blind marking',
+  revealed: 'Revealed',
+  closed: 'Closed',
+};
+
+export interface CalibrationSession {
+  id: string;
+  name: string;
+  rubric_id: string | null;
+  status: CalibrationPhase;
+  criteria: CalibrationCriterion[];
+  created_by: string;
+  lead_marker_id: string | null;
+  created_at: string;
+  revealed_at: string | null;
+  closed_at: string | null;
+  /** The signed-in user's membership; the creator is always accepted */
+  my_status: CalibrationMemberStatus | null;
+}
+
+export interface CalibrationMember {
+  user_id: string;
+  email: string | null;
+  full_name: string | null;
+  status: CalibrationMemberStatus;
+  is_lead: boolean;
+  submitted_count: number;
+  invited_at: string;
+}
+
+export interface CalibrationEssay {
+  essay_id: string;
+  title: string;
+  content: string;
+}
+
+export interface CalibrationMark {
+  id: string;
+  essay_id: string;
+  marker_id: string;
+  scores: CriterionScores;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface ModeratedMark {
+  essay_id: string;
+  scores: CriterionScores;
+  notes: string | null;
+  agreed_by: string | null;
+  agreed_at: string;
+}
+
+const SESSION_COLUMNS = 'id, name, rubric_id, status, criteria, created_by, lead_marker_id, created_at, revealed_at, closed_at';
+
+/**
+ * Criteria to calibrate from stored rubric criteria ({ category, maxPoints, levels } objects).
+ * Criteria without a positive maxPoints can't be marked and are left out.
+ */
+export function toCalibrationCriteria(rubricCriteria: unknown): CalibrationCriterion[] {
+  if (!Array.isArray(rubricCriteria)) return [];
+  const used = new Set<string>();
+  return rubricCriteria
+    .filter((c: any) => c && typeof c === 'object' && Number(c.maxPoints) > 0)
+    .map((c: any, index) => {
+      const name = String(c.category || c.name || `Criterion ${index + 1}`).trim();
+      // Keys are the criterion names, made unique when a rubric repeats one
+      let key = name;
+      for (let n = 2; used.has(key); n++) key = `${name} (${n})`;
+      used.add(key);
+      return {
+        key,
+        name,
+        maxPoints: Number(c.maxPoints),
+        description: c.description || undefined,
+        levels: Array.isArray(c.levels) ? (c.levels as MarkBand[]) : [],
+      };
+    });
+}
+
+export function emptyScores(criteria: CalibrationCriterion[]): CriterionScores {
+  return Object.fromEntries(criteria.map((c) => [c.key, 0]));
+}
+
+export function criteriaMaxTotal(criteria: CalibrationCriterion[]): number {
+  return criteria.reduce((sum, c) => sum + c.maxPoints, 0);
+}
+
+/** First problem with a set of scores, or null; the database runs the same checks */
+export function validateScores(criteria: CalibrationCriterion[], scores: CriterionScores): string | null {
+  for (const c of criteria) {
+    const value = scores[c.key];
+    if (value === undefined || Number.isNaN(value)) return `Enter a mark for ${c.name}`;
+    if (value < 0 || value > c.maxPoints) return `${c.name} is marked out of ${c.maxPoints}`;
+  }
+  return null;
+}
+
+/** The level whose mark range contains the score, for level-of-response criteria */
+export function levelFor(criterion: CalibrationCriterion, score: number): MarkBand | undefined {
+  return criterion.levels.find((l) => score >= l.minMarks && score <= l.maxMarks);
+}
+
+export function scoreTotal(scores: CriterionScores): number {
+  return Object.values(scores || {}).reduce((sum, value) => sum + (Number(value) || 0), 0);
+}
+
+export function memberLabel(member: Pick<CalibrationMember, 'full_name' | 'email' | 'user_id'> | undefined): string {
+  if (!member) return 'Former marker';
+  return member.full_name || member.email || member.user_id.slice(0, 8);
+}
+
+/** Sessions you created, joined or have been invited to (RLS hides declined invitations) */
+export async function loadCalibrationSessions(userId: string): Promise<CalibrationSession[]> {
+  const [sessionRes, memberRes] = await Promise.all([
+    supabase.from('calibration_sessions').select(SESSION_COLUMNS).order('created_at', { ascending: false }),
+    supabase.from('calibration_session_members').select('session_id, status').eq('user_id', userId),
+  ]);
+  if (sessionRes.error) throw sessionRes.error;
+  if (memberRes.error) throw memberRes.error;
+
+  const statusBySession = new Map<string, CalibrationMemberStatus>(
+    (memberRes.data || []).map((row: any) => [row.session_id as string, row.status as CalibrationMemberStatus])
+  );
+  return ((sessionRes.data || []) as any[]).map((row) => ({
+    ...row,
+    criteria: row.criteria || [],
+    my_status: statusBySession.get(row.id) ?? (row.created_by === userId ? 'accepted' : null),
+  }));
+}
+
+export async function createCalibrationSession(
+  userId: string,
+  name: string,
+  rubricId: string,
+  criteria: CalibrationCriterion[],
+  essayIds: string[]
+): Promise<CalibrationSession> {
+  const { data, error } = await supabase
+    .from('calibration_sessions')
+    .insert([{ name: name.trim(), rubric_id: rubricId, criteria, created_by: userId }])
+    .select(SESSION_COLUMNS)
+    .single();
+  if (error) throw error;
+
+  const { error: linkError } = await supabase
+    .from('calibration_session_essays')
+    .insert(essayIds.map((essayId) => ({ session_id: data.id, essay_id: essayId })));
+  if (linkError) throw linkError;
+
+  return { ...(data as any), my_status: 'accepted' };
+}
+
+export async function deleteCalibrationSession(sessionId: string): Promise<void> {
+  const { error } = await supabase.from('calibration_sessions').delete().eq('id', sessionId);
+  if (error) throw error;
+}
+
+/** marking -> revealed -> closed; the database rejects going backwards */
+export async function setCalibrationPhase(sessionId: string, phase: CalibrationPhase): Promise<void> {
+  const { error } = await supabase.from('calibration_sessions').update({ status: phase }).eq('id', sessionId);
+  if (error) throw error;
+}
+
+export async function setLeadMarker(sessionId: string, userId: string): Promise<void> {
+  const { error } = await supabase.from('calibration_sessions').update({ lead_marker_id: userId }).eq('id', sessionId);
+  if (error) throw error;
+}
+
+export async function inviteCalibrationMarker(sessionId: string, email: string): Promise<void> {
+  const { error } = await supabase.rpc('invite_calibration_marker', {
+    p_session_id: sessionId,
+    p_email: email.trim(),
+  });
+  if (error) throw error;
+}
+
+/** Accept or decline an invitation; declining also leaves a session you'd joined */
+export async function respondToCalibrationInvite(sessionId: string, accept: boolean): Promise<void> {
+  const { error } = await supabase.rpc('respond_calibration_invite', { p_session_id: sessionId, p_accept: accept });
+  if (error) throw error;
+}
+
+export async function removeCalibrationMarker(sessionId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('calibration_session_members')
+    .delete()
+    .eq('session_id', sessionId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+export async function loadCalibrationMembers(sessionId: string): Promise<CalibrationMember[]> {
+  const { data, error } = await supabase.rpc('calibration_members_for', { p_session_id: sessionId });
+  if (error) throw error;
+  return (data || []) as CalibrationMember[];
+}
+
+export async function loadCalibrationEssays(sessionId: string): Promise<CalibrationEssay[]> {
+  const { data, error } = await supabase.rpc('calibration_session_essays_for', { p_session_id: sessionId });
+  if (error) throw error;
+  return (data || []) as CalibrationEssay[];
+}
+
+/** Every mark RLS lets you see: your own, plus others' for essays you've marked or once revealed */
+export async function loadCalibrationMarks(sessionId: string): Promise<CalibrationMark[]> {
+  const { data, error } = await supabase
+    .from('calibration_marks')
+    .select('id, essay_id, marker_id, scores, notes, created_at')
+    .eq('session_id', sessionId)
+    .order('created_at');
+  if (error) throw error;
+  return (data || []) as CalibrationMark[];
+}
+
+/** Marks are final once submitted */
+export async function submitCalibrationMark(
+  sessionId: string,
+  essayId: string,
+  markerId: string,
+  scores: CriterionScores,
+  notes: string
+): Promise<void> {
+  const { error } = await supabase.from('calibration_marks').insert([
+    { session_id: sessionId, essay_id: essayId, marker_id: markerId, scores, notes: notes.trim() || null },
+  ]);
+  if (error) {
+    if (error.code === '23505') throw new Error('You have already submitted a mark for this essay');
+    throw error;
+  }
+}
+
+export async function loadModeratedMarks(sessionId: string): Promise<ModeratedMark[]> {
+  const { data, error } = await supabase
+    .from('calibration_moderated_marks')
+    .select('essay_id, scores, notes, agreed_by, agreed_at')
+    .eq('session_id', sessionId);
+  if (error) throw error;
+  return (data || []) as ModeratedMark[];
+}
+
+export async function saveModeratedMark(
+  sessionId: string,
+  essayId: string,
+  leadId: string,
+  scores: CriterionScores,
+  notes: string
+): Promise<void> {
+  const { error } = await supabase.from('calibration_moderated_marks').upsert(
+    {
+      session_id: sessionId,
+      essay_id: essayId,
+      scores,
+      notes: notes.trim() || null,
+      agreed_by: leadId,
+      agreed_at: new Date().toISOString(),
+    },
+    { onConflict: 'session_id,essay_id' }
+  );
+  if (error) throw error;
+}
+
+export interface ModerationReportRow {
+  essayId: string;
+  essayTitle: string;
+  markerId: string;
+  marker: string;
+  scores: CriterionScores;
+  total: number;
+  leadScores: CriterionScores | null;
+  leadTotal: number | null;
+  /** marker minus lead, per criterion; null when the lead hasn't marked the essay */
+  divergence: CriterionScores | null;
+  totalDivergence: number | null;
+  moderatedTotal: number | null;
+}
+
+export interface ModerationEssaySummary {
+  essayId: string;
+  essayTitle: string;
+  markCount: number;
+  leadTotal: number | null;
+  moderatedTotal: number | null;
+  /** Largest absolute difference between a marker's total and the lead's */
+  maxDivergence: number | null;
+  meanAbsDivergence: number | null;
+}
+
+/** Per-essay, per-marker divergence from the lead marker's scores */
+export function buildModerationReport(
+  criteria: CalibrationCriterion[],
+  essays: CalibrationEssay[],
+  members: CalibrationMember[],
+  marks: CalibrationMark[],
+  moderated: ModeratedMark[],
+  leadId: string | null
+): { rows: ModerationReportRow[]; essays: ModerationEssaySummary[] } {
+  const memberById = new Map(members.map((m) => [m.user_id, m]));
+  const moderatedByEssay = new Map(moderated.map((m) => [m.essay_id, m]));
+  const rows: ModerationReportRow[] = [];
+  const summaries: ModerationEssaySummary[] = [];
+
+  essays.forEach((essay) => {
+    const essayMarks = marks.filter((m) => m.essay_id === essay.essay_id);
+    const lead = essayMarks.find((m) => m.marker_id === leadId) ?? null;
+    const leadTotal = lead ? scoreTotal(lead.scores) : null;
+    const moderatedMark = moderatedByEssay.get(essay.essay_id);
+    const moderatedTotal = moderatedMark ? scoreTotal(moderatedMark.scores) : null;
+
+    const essayRows = essayMarks
+      .filter((m) => m.marker_id !== leadId)
+      .map<ModerationReportRow>((mark) => {
+        const total = scoreTotal(mark.scores);
+        const divergence = lead
+          ? Object.fromEntries(
+              criteria.map((c) => [c.key, (Number(mark.scores[c.key]) || 0) - (Number(lead.scores[c.key]) || 0)])
+            )
+          : null;
+        return {
+          essayId: essay.essay_id,
+          essayTitle: essay.title,
+          markerId: mark.marker_id,
+          marker: memberLabel(memberById.get(mark.marker_id)),
+          scores: mark.scores,
+          total,
+          leadScores: lead?.scores ?? null,
+          leadTotal,
+          divergence,
+          totalDivergence: leadTotal === null ? null : total - leadTotal,
+          moderatedTotal,
+        };
+      });
+    rows.push(...essayRows);
+
+    const gaps = essayRows
+      .map((row) => row.totalDivergence)
+      .filter((gap): gap is number => gap !== null)
+      .map(Math.abs);
+    summaries.push({
+      essayId: essay.essay_id,
+      essayTitle: essay.title,
+      markCount: essayMarks.length,
+      leadTotal,
+      moderatedTotal,
+      maxDivergence: gaps.length ? Math.max(...gaps) : null,
+      meanAbsDivergence: gaps.length ? gaps.reduce((a, b) => a + b, 0) / gaps.length : null,
+    });
+  });
+
+  return { rows, essays: summaries };
+}
+
+/** Flat rows for exportToCSV */
+export function moderationReportCsvRows(
+  sessionName: string,
+  criteria: CalibrationCriterion[],
+  rows: ModerationReportRow[]
+) {
+  return rows.map((row) => ({
+    Session: sessionName,
+    Essay: row.essayTitle,
+    Marker: row.marker,
+    ...Object.fromEntries(criteria.map((c) => [c.name, row.scores[c.key] ?? null])),
+    Total: row.total,
+    'Lead total': row.leadTotal,
+    ...Object.fromEntries(criteria.map((c) => [`${c.name} vs lead`, row.divergence?.[c.key] ?? null])),
+    'Total vs lead': row.totalDivergence,
+    'Moderated total': row.moderatedTotal,
+  }));
+}
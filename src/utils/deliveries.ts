@@ -0,0 +1,96 @@
+/**
+ * Feedback email delivery (client side).
+ * Sending goes through /api/deliveries, which renders the email and records each attempt;
+ * the history is read straight from the deliveries table.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { authHeaders } from './openaiClient';
+
+// Keep in step with MAX_EMAILS_PER_REQUEST in api/_lib/deliveries.ts
+const EMAILS_PER_REQUEST = 50;
+
+export type DeliveryStatus = 'queued' | 'sent' | 'failed' | 'bounced';
+
+export interface Delivery {
+  id: string;
+  essay_id: string | null;
+  student_id: string | null;
+  batch_job_id: string | null;
+  recipient: string;
+  cc: string[];
+  status: DeliveryStatus;
+  error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+export interface SendFeedbackResult {
+  sent: number;
+  failed: number;
+  bounced: number;
+  skipped: Array<{ essayId: string; title: string; reason: string }>;
+}
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+  queued: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+  bounced: 'Bounced',
+};
+
+/**
+ * Email the latest feedback on each essay to its student, in chunks the server accepts.
+ * `jobId` ties the deliveries to a batch.
+ */
+export async function sendFeedbackEmails(
+  essayIds: string[],
+  options: { jobId?: string; ccGuardian: boolean }
+): Promise<SendFeedbackResult> {
+  const total: SendFeedbackResult = { sent: 0, failed: 0, bounced: 0, skipped: [] };
+  for (let start = 0; start < essayIds.length; start += EMAILS_PER_REQUEST) {
+    const response = await fetch('/api/deliveries?action=send', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify({ ...options, essayIds: essayIds.slice(start, start + EMAILS_PER_REQUEST) }),
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(data?.error || `Sending failed (${response.status})`);
+    }
+    total.sent += data.sent;
+    total.failed += data.failed;
+    total.bounced += data.bounced;
+    total.skipped.push(...data.skipped);
+  }
+  return total;
+}
+
+/** Short summary for a toast, e.g. "Sent 12 emails · 1 bounced · 2 skipped" */
+export function describeSendResult(result: SendFeedbackResult): string {
+  const parts = [`Sent ${result.sent} email${result.sent === 1 ? '' : 's'}`];
+  if (result.bounced) parts.push(`${result.bounced} bounced`);
+  if (result.failed) parts.push(`${result.failed} failed`);
+  if (result.skipped.length) parts.push(`${result.skipped.length} skipped`);
+  return parts.join(' · ');
+}
+
+export async function loadDeliveries(essayId: string): Promise<Delivery[]> {
+  const { data, error } = await supabase
+    .from('deliveries')
+    .select('id, essay_id, student_id, batch_job_id, recipient, cc, status, error, created_at, sent_at')
+    .eq('essay_id', essayId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as Delivery[];
+}
+
+export async function loadBatchDeliveries(jobId: string): Promise<Delivery[]> {
+  const { data, error } = await supabase
+    .from('deliveries')
+    .select('id, essay_id, student_id, batch_job_id, recipient, cc, status, error, created_at, sent_at')
+    .eq('batch_job_id', jobId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as Delivery[];
+}
@@ -1,4 +1,6 @@
 import { supabase } from '../lib/supabaseClient';
+import type { CriterionScore, EnhancedFeedback, EssayAnnotation, EssayMarking, ImprovementProgress } from './openaiClient';
+import { formatRubricCriteria } from './rubricUtils';
 
 type CriteriaMatch = { criterion: string; examples: string[] };
 
@@ -9,9 +11,38 @@ export type AiFeedback = {
   criteria_matches: CriteriaMatch[];
   suggested_feedback: string;
   overall_score: number;
-  criteria_scores?: Record<string, number>; // New field for dynamic grading
+  criteria_scores?: CriterionScore[]; // Points per rubric criterion, out of its maxPoints
+  annotations?: EssayAnnotation[]; // Anchored margin comments, saved to essay_annotations
+  addressed_improvements?: ImprovementProgress[]; // Redrafts: which previous improvements were acted on
 };
 
+/**
+ * Map the structured API contract onto the shape the UI and feedback table use.
+ * AO evidence quotes become criteria matches so they can be highlighted in the essay.
+ */
+export function toAiFeedback(enhanced: EnhancedFeedback | EssayMarking): AiFeedback {
+  const criteriaScores = 'criteria_scores' in enhanced && enhanced.criteria_scores.length > 0
+    ? enhanced.criteria_scores
+    : undefined;
+  const annotations = 'annotations' in enhanced && enhanced.annotations?.length ? enhanced.annotations : undefined;
+  const addressed = 'addressed_improvements' in enhanced && enhanced.addressed_improvements?.length
+    ? enhanced.addressed_improvements
+    : undefined;
+  return {
+    grammar_issues: enhanced.grammar_issues,
+    strengths: enhanced.strengths,
+    improvements: enhanced.improvements,
+    criteria_matches: enhanced.ao_analysis
+      .filter((a) => a.evidence)
+      .map((a) => ({ criterion: a.ao, examples: [a.evidence] })),
+    suggested_feedback: enhanced.suggested_feedback,
+    overall_score: enhanced.overall_score,
+    ...(criteriaScores ? { criteria_scores: criteriaScores } : {}),
+    ...(annotations ? { annotations } : {}),
+    ...(addressed ? { addressed_improvements: addressed } : {}),
+  };
+}
+
 /**
  * Invokes the generate-feedback Edge Function with authentication.
  * Requires a logged-in user session.
@@ -48,11 +79,10 @@ export async function generateAiFeedback(
       criteria_matches,
       suggested_feedback: 'Well done overall. Focus on adding concrete evidence and polishing sentence structure.',
       overall_score: scoreBase,
-      criteria_scores: {
-        'Content': Math.min(100, scoreBase + 5),
-        'Organization': Math.max(0, scoreBase - 5),
-        'Language': scoreBase
-      }
+      criteria_scores: criteria.map((c: any) => {
+        const maxPoints = Number(c?.maxPoints) || 10;
+        return { criterion: c?.category || 'Criterion', points: Math.round((scoreBase / 100) * maxPoints), max_points: maxPoints };
+      })
     };
   };
 
@@ -82,7 +112,11 @@ export async function generateAiFeedback(
   }
 
   const response = await supabase.functions.invoke('generate-feedback', {
-    body: { essay, rubric },
+    body: {
+      essay,
+      rubricCriteria: formatRubricCriteria(rubric?.criteria),
+      type: 'feedback',
+    },
     headers: {
       Authorization: `Bearer ${session.access_token}`,
     },
@@ -99,5 +133,5 @@ export async function generateAiFeedback(
     throw new Error((response.error.message || 'Failed to generate feedback') + hint);
   }
 
-  return response.data as AiFeedback;
+  return toAiFeedback(response.data.feedback as EssayMarking);
 }
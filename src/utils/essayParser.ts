@@ -1,9 +1,21 @@
 import mammoth from 'mammoth';
-import Tesseract from 'tesseract.js';
 import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { imageFileToCanvas, recognizeScript, type OcrOptions, type OcrResult } from './ocr';
 
-// Set worker source for PDF.js - use unpkg for better reliability
-pdfjsLib.GlobalWorkerOptions.workerSrc = `https://unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.js`;
+// PDF.js worker is bundled with the app so parsing doesn't depend on a CDN
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Scanned pages are rendered at this scale (roughly 150 dpi for A4) before OCR
+const PDF_OCR_SCALE = 2;
+
+/**
+ * Text from a file, plus the OCR result when it came from a scan (for the teacher to check)
+ */
+export interface ParsedEssay {
+  text: string;
+  ocr: OcrResult | null;
+}
 
 /**
  * Parse essay content from various file formats
@@ -26,9 +38,26 @@ async function parseDocxFile(file: File): Promise<string> {
 }
 
 /**
- * Extract text from .pdf file using PDF.js
+ * Render each page of a PDF to a canvas for OCR
  */
-async function parsePdfFile(file: File): Promise<string> {
+async function renderPdfPages(pdf: pdfjsLib.PDFDocumentProxy): Promise<HTMLCanvasElement[]> {
+  const canvases: HTMLCanvasElement[] = [];
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const viewport = page.getViewport({ scale: PDF_OCR_SCALE });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    await page.render({ canvas, viewport }).promise;
+    canvases.push(canvas);
+  }
+  return canvases;
+}
+
+/**
+ * Extract text from .pdf file using PDF.js. Scanned PDFs (no text layer) are OCR'd page by page.
+ */
+async function parsePdfFile(file: File, ocrOptions: OcrOptions = {}): Promise<ParsedEssay> {
   try {
     const arrayBuffer = await file.arrayBuffer();
     const loadingTask = pdfjsLib.getDocument({
@@ -55,12 +84,13 @@ async function parsePdfFile(file: File): Promise<string> {
     
     const trimmedText = fullText.trim();
     
-    // Check if PDF has no extractable text (image-only PDF)
+    // No text layer: a scanned document
     if (trimmedText.length === 0) {
-      throw new Error('PDF contains no extractable text. This may be a scanned document - please use OCR or convert to text first.');
+      const ocr = await recognizeScript(await renderPdfPages(pdf), ocrOptions);
+      return { text: ocr.text, ocr };
     }
     
-    return trimmedText;
+    return { text: trimmedText, ocr: null };
   } catch (error) {
     console.error('PDF parsing error:', error);
     if (error instanceof Error) {
@@ -70,43 +100,60 @@ async function parsePdfFile(file: File): Promise<string> {
   }
 }
 
+/**
+ * OCR photos of a handwritten script, one image per page. Pages are read in filename order
+ * (so IMG_0012 comes before IMG_0013, and page2 before page10).
+ */
+export async function parseImageFiles(files: File[], ocrOptions: OcrOptions = {}): Promise<ParsedEssay> {
+  const ordered = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  const pages: HTMLCanvasElement[] = [];
+  for (const file of ordered) {
+    pages.push(await imageFileToCanvas(file));
+  }
+  const ocr = await recognizeScript(pages, ocrOptions);
+  return { text: ocr.text, ocr };
+}
+
 /**
  * Extract text from image using OCR (Tesseract.js)
  */
 export async function parseImageFile(file: File, onProgress?: (progress: number) => void): Promise<string> {
-  const result = await Tesseract.recognize(file, 'eng', {
-    logger: (m) => {
-      if (m.status === 'recognizing text' && onProgress) {
-        onProgress(Math.round(m.progress * 100));
-      }
-    },
-  });
-  return result.data.text;
+  return (await parseImageFiles([file], { onProgress })).text;
 }
 
 /**
- * Main parser - detects file type and extracts text
+ * Parse one essay from its file(s): a document, a PDF (OCR'd if scanned), or photos of each page
  */
-export async function parseEssayFile(file: File, onProgress?: (progress: number) => void): Promise<string> {
-  const ext = file.name.split('.').pop()?.toLowerCase();
-  
-  // Check if it's an image file
-  if (file.type.startsWith('image/')) {
-    return await parseImageFile(file, onProgress);
+export async function parseEssayFiles(files: File[], ocrOptions: OcrOptions = {}): Promise<ParsedEssay> {
+  if (files.length === 0) throw new Error('No file selected');
+  if (files.every((f) => f.type.startsWith('image/'))) {
+    return await parseImageFiles(files, ocrOptions);
   }
-  
+  if (files.length > 1) {
+    throw new Error('Several files can only be combined when they are photos of the pages. Upload one document at a time.');
+  }
+
+  const file = files[0];
+  const ext = file.name.split('.').pop()?.toLowerCase();
   switch (ext) {
     case 'txt':
-      return await parseTextFile(file);
+      return { text: await parseTextFile(file), ocr: null };
     case 'docx':
-      return await parseDocxFile(file);
+      return { text: await parseDocxFile(file), ocr: null };
     case 'pdf':
-      return await parsePdfFile(file);
+      return await parsePdfFile(file, ocrOptions);
     default:
-      throw new Error(`Unsupported file type: ${ext}. Please upload .txt, .docx files, or use images for OCR scanning.`);
+      throw new Error(`Unsupported file type: ${ext}. Please upload .txt, .docx or .pdf files, or use images for OCR scanning.`);
   }
 }
 
+/**
+ * Main parser - detects file type and extracts text
+ */
+export async function parseEssayFile(file: File, onProgress?: (progress: number) => void): Promise<string> {
+  return (await parseEssayFiles([file], { onProgress })).text;
+}
+
 /**
  * Validate essay content
  */
@@ -0,0 +1,149 @@
+/**
+ * Audit trail of feedback edits.
+ * Revisions are written by database triggers: revision 0 is the AI output as first saved and every
+ * update to a feedback row appends a teacher revision, so the client only ever reads them.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import type { CriterionScore } from './openaiClient';
+import { toCriterionScores } from './rubricUtils';
+import { diffLists, diffWords, type DiffPart } from './textDiff';
+
+/**
+ * The teacher-editable part of a feedback row
+ */
+export interface FeedbackSnapshot {
+  overall_score: number;
+  criteria_scores: CriterionScore[];
+  strengths: string[];
+  improvements: string[];
+  grammar_issues: string[];
+  suggested_feedback: string;
+}
+
+export type FeedbackField = keyof FeedbackSnapshot;
+
+export interface FeedbackRevision extends FeedbackSnapshot {
+  id: string;
+  feedback_id: string;
+  revision_number: number;
+  source: 'ai' | 'teacher';
+  changed_by: string | null;
+  changed_fields: FeedbackField[];
+  created_at: string;
+}
+
+export type RevisionChange =
+  | { field: 'overall_score'; before: number; after: number }
+  | { field: 'criteria_scores'; changes: Array<{ criterion: string; before: number | null; after: number | null; max_points: number }> }
+  | { field: 'strengths' | 'improvements' | 'grammar_issues'; added: string[]; removed: string[] }
+  | { field: 'suggested_feedback'; parts: DiffPart[] };
+
+export const FEEDBACK_FIELD_LABELS: Record<FeedbackField, string> = {
+  overall_score: 'Overall score',
+  criteria_scores: 'Criterion scores',
+  strengths: 'Strengths',
+  improvements: 'Areas for improvement',
+  grammar_issues: 'Grammar issues',
+  suggested_feedback: 'Suggested feedback',
+};
+
+const REVISION_COLUMNS =
+  'id, feedback_id, revision_number, source, changed_by, changed_fields, overall_score, criteria_scores, strengths, improvements, grammar_issues, suggested_feedback, created_at';
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+export function toFeedbackSnapshot(feedback: {
+  overall_score: number;
+  criteria_scores?: unknown;
+  strengths?: unknown;
+  improvements?: unknown;
+  grammar_issues?: unknown;
+  suggested_feedback?: string | null;
+}): FeedbackSnapshot {
+  return {
+    // The feedback table stores whole percentages
+    overall_score: Math.round(Number(feedback.overall_score) || 0),
+    criteria_scores: toCriterionScores(feedback.criteria_scores),
+    strengths: toStringList(feedback.strengths),
+    improvements: toStringList(feedback.improvements),
+    grammar_issues: toStringList(feedback.grammar_issues),
+    suggested_feedback: feedback.suggested_feedback || '',
+  };
+}
+
+/**
+ * Fields that differ between two snapshots, in display order
+ */
+export function changedFields(before: FeedbackSnapshot, after: FeedbackSnapshot): FeedbackField[] {
+  return (Object.keys(FEEDBACK_FIELD_LABELS) as FeedbackField[]).filter(
+    (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+}
+
+export async function loadFeedbackRevisions(feedbackId: string): Promise<FeedbackRevision[]> {
+  const { data, error } = await supabase
+    .from('feedback_revisions')
+    .select(REVISION_COLUMNS)
+    .eq('feedback_id', feedbackId)
+    .order('revision_number');
+  if (error) throw error;
+  return (data || []).map((row: any) => ({
+    ...row,
+    ...toFeedbackSnapshot(row),
+    changed_fields: toStringList(row.changed_fields) as FeedbackField[],
+  }));
+}
+
+/**
+ * Persist teacher edits to a feedback row. The update trigger records the revision.
+ */
+export async function saveFeedbackEdits(feedbackId: string, snapshot: FeedbackSnapshot): Promise<void> {
+  const { error } = await supabase
+    .from('feedback')
+    .update({
+      overall_score: snapshot.overall_score,
+      criteria_scores: snapshot.criteria_scores,
+      strengths: snapshot.strengths,
+      improvements: snapshot.improvements,
+      grammar_issues: snapshot.grammar_issues,
+      suggested_feedback: snapshot.suggested_feedback,
+    })
+    .eq('id', feedbackId);
+  if (error) throw error;
+}
+
+/**
+ * What changed from one snapshot to the next, field by field
+ */
+export function diffSnapshots(before: FeedbackSnapshot, after: FeedbackSnapshot): RevisionChange[] {
+  return changedFields(before, after).map((field): RevisionChange => {
+    switch (field) {
+      case 'overall_score':
+        return { field, before: before.overall_score, after: after.overall_score };
+      case 'criteria_scores': {
+        const previous = new Map(before.criteria_scores.map((c) => [c.criterion, c]));
+        const next = new Map(after.criteria_scores.map((c) => [c.criterion, c]));
+        const names = Array.from(new Set([...previous.keys(), ...next.keys()]));
+        return {
+          field,
+          changes: names
+            .map((criterion) => ({
+              criterion,
+              before: previous.get(criterion)?.points ?? null,
+              after: next.get(criterion)?.points ?? null,
+              max_points: (next.get(criterion) || previous.get(criterion))!.max_points,
+            }))
+            .filter((c) => c.before !== c.after),
+        };
+      }
+      case 'suggested_feedback':
+        return { field, parts: diffWords(before.suggested_feedback, after.suggested_feedback) };
+      default: {
+        const { added, removed } = diffLists(before[field], after[field]);
+        return { field, added, removed };
+      }
+    }
+  });
+}
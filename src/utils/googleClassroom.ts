@@ -0,0 +1,210 @@
+/**
+ * Google Classroom integration (client side).
+ * Everything that needs the teacher's Google token goes through /api/google-classroom;
+ * connection status and import history are read straight from Supabase.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { authHeaders } from './openaiClient';
+import type { BatchItemStatus } from './batchJobs';
+import { toFeedbackSnapshot } from './feedbackRevisions';
+import { formatCriterionScore } from './rubricUtils';
+
+export interface ClassroomConnection {
+  google_email: string | null;
+  connected_at: string;
+  last_sync_at: string | null;
+}
+
+export interface ClassroomCourse {
+  id: string;
+  name: string;
+  section?: string;
+}
+
+export interface ClassroomCourseMapping {
+  course_id: string;
+  class_section: string;
+  last_roster_sync_at: string | null;
+}
+
+export interface ClassroomCourseWork {
+  id: string;
+  title: string;
+  description?: string;
+  maxPoints: number | null;
+  dueDate?: string;
+}
+
+export interface ClassroomImportResult {
+  jobId: string | null;
+  queued: number;
+  skipped: Array<{ student: string; reason: string }>;
+}
+
+export interface ClassroomSubmissionLink {
+  id: string;
+  submission_id: string;
+  student_id: string | null;
+  student_name: string | null;
+  item_status: BatchItemStatus | null;
+  essay_id: string | null;
+  score: number | null;
+  draft_grade: number | null;
+  grade_pushed_at: string | null;
+  push_error: string | null;
+}
+
+/** Imported submissions grouped by Classroom assignment */
+export interface ClassroomImport {
+  course_id: string;
+  coursework_id: string;
+  coursework_title: string;
+  max_points: number | null;
+  imported_at: string;
+  submissions: ClassroomSubmissionLink[];
+}
+
+async function classroomRequest<T>(action: string, options: { body?: unknown; query?: Record<string, string> } = {}): Promise<T> {
+  const query = new URLSearchParams({ action, ...(options.query || {}) });
+  const response = await fetch(`/api/google-classroom?${query.toString()}`, {
+    method: options.body === undefined ? 'GET' : 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || `Google Classroom request failed (${response.status})`);
+  }
+  return data as T;
+}
+
+export async function loadClassroomConnection(teacherId: string): Promise<ClassroomConnection | null> {
+  // The refresh token column isn't readable from the browser, so name the columns
+  const { data, error } = await supabase
+    .from('classroom_connections')
+    .select('google_email, connected_at, last_sync_at')
+    .eq('teacher_id', teacherId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as ClassroomConnection | null;
+}
+
+/**
+ * Send the browser to Google's consent screen; it comes back to Account Settings.
+ */
+export async function connectClassroom(): Promise<void> {
+  const { url } = await classroomRequest<{ url: string }>('auth-url');
+  window.location.href = url;
+}
+
+export async function disconnectClassroom(): Promise<void> {
+  await classroomRequest('disconnect', { body: {} });
+}
+
+export async function listClassroomCourses(): Promise<ClassroomCourse[]> {
+  return (await classroomRequest<{ courses: ClassroomCourse[] }>('courses')).courses;
+}
+
+export async function loadCourseMappings(teacherId: string): Promise<ClassroomCourseMapping[]> {
+  const { data, error } = await supabase
+    .from('classroom_courses')
+    .select('course_id, class_section, last_roster_sync_at')
+    .eq('teacher_id', teacherId);
+  if (error) throw error;
+  return (data || []) as ClassroomCourseMapping[];
+}
+
+export async function listClassroomCourseWork(courseId: string): Promise<ClassroomCourseWork[]> {
+  return (await classroomRequest<{ courseWork: ClassroomCourseWork[] }>('coursework', { query: { courseId } })).courseWork;
+}
+
+export async function syncClassroomRosters(
+  courses: Array<{ courseId: string; classSection: string }>
+): Promise<{ courses: number; created: number; updated: number }> {
+  return classroomRequest('sync-roster', { body: { courses } });
+}
+
+/**
+ * Queue an assignment's turned-in work as a batch job. Kick the batch worker afterwards.
+ */
+export async function importClassroomSubmissions(options: {
+  courseId: string;
+  courseWorkId: string;
+  rubricId: string;
+  aiPreMark: boolean;
+}): Promise<ClassroomImportResult> {
+  return classroomRequest('import', { body: options });
+}
+
+export async function pushClassroomGrades(
+  courseId: string,
+  courseWorkId: string
+): Promise<{ pushed: number; failed: number; notMarked: number }> {
+  return classroomRequest('push-grades', { body: { courseId, courseWorkId } });
+}
+
+export async function loadClassroomImports(teacherId: string): Promise<ClassroomImport[]> {
+  const { data, error } = await supabase
+    .from('classroom_submission_links')
+    .select('id, course_id, coursework_id, coursework_title, max_points, submission_id, student_id, draft_grade, grade_pushed_at, push_error, created_at, students(name), batch_job_items(status, essay_id, score)')
+    .eq('teacher_id', teacherId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  const one = (value: any) => (Array.isArray(value) ? value[0] : value) || null;
+  const groups = new Map<string, ClassroomImport>();
+  for (const row of (data || []) as any[]) {
+    const key = `${row.course_id}/${row.coursework_id}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        course_id: row.course_id,
+        coursework_id: row.coursework_id,
+        coursework_title: row.coursework_title,
+        max_points: row.max_points === null ? null : Number(row.max_points),
+        imported_at: row.created_at,
+        submissions: [],
+      });
+    }
+    const item = one(row.batch_job_items);
+    groups.get(key)!.submissions.push({
+      id: row.id,
+      submission_id: row.submission_id,
+      student_id: row.student_id,
+      student_name: one(row.students)?.name ?? null,
+      item_status: item?.status ?? null,
+      essay_id: item?.essay_id ?? null,
+      score: item?.score ?? null,
+      draft_grade: row.draft_grade === null ? null : Number(row.draft_grade),
+      grade_pushed_at: row.grade_pushed_at,
+      push_error: row.push_error,
+    });
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Private comment text for a marked essay. Classroom's API has no way to post comments,
+ * so teachers paste this into the submission's private comments themselves.
+ */
+export async function classroomCommentFor(essayId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('feedback')
+    .select('overall_score, criteria_scores, strengths, improvements, grammar_issues, suggested_feedback')
+    .eq('essay_id', essayId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error('This essay has not been marked yet');
+
+  const feedback = toFeedbackSnapshot(data);
+  const section = (title: string, items: string[]) =>
+    items.length > 0 ? `${title}:\n${items.map((item) => `• ${item}`).join('\n')}` : '';
+  return [
+    feedback.criteria_scores.length > 0 ? feedback.criteria_scores.map(formatCriterionScore).join(' · ') : '',
+    section('What went well', feedback.strengths),
+    section('Next steps', feedback.improvements),
+    feedback.suggested_feedback,
+  ].filter(Boolean).join('\n\n');
+}
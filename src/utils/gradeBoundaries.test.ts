@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeBoundarySet,
+  formatScoreWithGrade,
+  gradeForScore,
+  gradeLabel,
+  scoreToMark,
+  validateBoundaries,
+  type GradeBoundarySet,
+} from './gradeBoundaries';
+
+const BOUNDARIES = { '9': 72, '8': 64, '7': 56, '6': 48, '5': 40, '4': 32, '3': 24, '2': 16, '1': 8 };
+
+const SET: GradeBoundarySet = {
+  id: 'set-1',
+  teacher_id: 'teacher-1',
+  exam_board: 'AQA',
+  subject: 'English Literature',
+  paper: 'Paper 1',
+  year: 2024,
+  max_mark: 80,
+  boundaries: BOUNDARIES,
+  created_at: '2025-12-01T00:00:00Z',
+};
+
+describe('scoreToMark', () => {
+  it('scales a percentage to the paper and clamps it', () => {
+    expect(scoreToMark(50, SET)).toBe(40);
+    expect(scoreToMark(71, SET)).toBe(57); // 56.8 rounds up
+    expect(scoreToMark(-5, SET)).toBe(0);
+    expect(scoreToMark(120, SET)).toBe(80);
+  });
+});
+
+describe('gradeForScore', () => {
+  it('gives the highest grade whose boundary the mark reaches', () => {
+    expect(gradeForScore(100, SET)).toBe('9');
+    expect(gradeForScore(90, SET)).toBe('9'); // 72 marks, exactly on the boundary
+    expect(gradeForScore(89, SET)).toBe('8');
+    expect(gradeForScore(50, SET)).toBe('5');
+    expect(gradeForScore(10, SET)).toBe('1');
+  });
+
+  it('is U below grade 1 and null without a set or score', () => {
+    expect(gradeForScore(5, SET)).toBe('U');
+    expect(gradeForScore(50, null)).toBeNull();
+    expect(gradeForScore(null, SET)).toBeNull();
+    expect(gradeForScore(Number.NaN, SET)).toBeNull();
+  });
+});
+
+describe('formatting', () => {
+  it('shows the grade alongside the percentage when there is a set', () => {
+    expect(formatScoreWithGrade(72.4, SET)).toBe('72% (Grade 7)');
+    expect(formatScoreWithGrade(5, SET)).toBe('5% (U (ungraded))');
+    expect(formatScoreWithGrade(72, undefined)).toBe('72%');
+  });
+
+  it('labels sets and grades', () => {
+    expect(describeBoundarySet(SET)).toBe('AQA Paper 1 (2024)');
+    expect(describeBoundarySet({ exam_board: 'Custom', paper: 'Mock', year: null })).toBe('Mock');
+    expect(gradeLabel('4')).toBe('Grade 4');
+    expect(gradeLabel('U')).toBe('U (ungraded)');
+  });
+});
+
+describe('validateBoundaries', () => {
+  it('accepts a complete, non-increasing table', () => {
+    expect(validateBoundaries(80, BOUNDARIES)).toBeNull();
+    expect(validateBoundaries(80, { ...BOUNDARIES, '2': 8 })).toBeNull(); // Equal boundaries are allowed
+  });
+
+  it('explains what is wrong', () => {
+    expect(validateBoundaries(0, BOUNDARIES)).toBe('The maximum mark must be a whole number above 0');
+    expect(validateBoundaries(80, { ...BOUNDARIES, '5': undefined })).toBe('Enter a whole-number boundary for grade 5');
+    expect(validateBoundaries(80, { ...BOUNDARIES, '5': 40.5 })).toBe('Enter a whole-number boundary for grade 5');
+    expect(validateBoundaries(70, BOUNDARIES)).toBe('The grade 9 boundary must be between 0 and 70');
+    expect(validateBoundaries(80, { ...BOUNDARIES, '4': 50 })).toBe("Grade 4 can't need more marks than grade 5");
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * GCSE 9-1 grades from grade boundaries. A boundary set gives the lowest raw mark for each grade on
+ * one paper (a board's published table for a year, or the teacher's own); a rubric is linked to a set,
+ * and a feedback percentage is scaled to a mark on that paper and graded.
+ *
+ * Grades are never stored: they are worked out whenever feedback is shown or exported, so editing a
+ * set or relinking a rubric regrades everything marked with it.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { GCSE_EXAM_BOARDS } from '../data/gcseTemplates';
+
+export const GCSE_GRADES = ['9', '8', '7', '6', '5', '4', '3', '2', '1'] as const;
+
+export type GcseGrade = (typeof GCSE_GRADES)[number];
+
+// Below grade 1 is ungraded
+export type Grade = GcseGrade | 'U';
+
+export const BOUNDARY_EXAM_BOARDS = [...GCSE_EXAM_BOARDS, 'Custom'];
+
+export interface GradeBoundarySet {
+  id: string;
+  teacher_id: string;
+  exam_board: string; // A GCSE_EXAM_BOARDS ID, or 'Custom' for the teacher's own
+  subject: string | null;
+  paper: string;
+  year: number | null;
+  max_mark: number;
+  boundaries: Record<GcseGrade, number>; // Lowest mark for each grade
+  created_at: string;
+}
+
+export type GradeBoundaryInput = Pick<GradeBoundarySet, 'exam_board' | 'subject' | 'paper' | 'year' | 'max_mark' | 'boundaries'>;
+
+// Invalidate this prefix after any change, so every grade on screen is recomputed
+export const GRADE_BOUNDARIES_KEY = ['grade-boundaries'];
+export const gradeBoundarySetsKey = (teacherId: string | undefined) => [...GRADE_BOUNDARIES_KEY, 'sets', teacherId];
+export const rubricBoundariesKey = (rubricIds: string[]) => [...GRADE_BOUNDARIES_KEY, 'rubrics', [...rubricIds].sort()];
+
+const BOUNDARY_COLUMNS = 'id, teacher_id, exam_board, subject, paper, year, max_mark, boundaries, created_at';
+
+export const describeBoundarySet = (set: Pick<GradeBoundarySet, 'exam_board' | 'paper' | 'year'>) =>
+  `${set.exam_board === 'Custom' ? '' : `${set.exam_board} `}${set.paper}${set.year ? ` (${set.year})` : ''}`;
+
+export const gradeLabel = (grade: Grade) => (grade === 'U' ? 'U (ungraded)' : `Grade ${grade}`);
+
+/**
+ * A percentage score as a raw mark on the set's paper
+ */
+export const scoreToMark = (score: number, set: Pick<GradeBoundarySet, 'max_mark'>) =>
+  Math.round((Math.min(100, Math.max(0, score)) / 100) * set.max_mark);
+
+/**
+ * The grade for a percentage score: the highest grade whose boundary the mark reaches.
+ * Null when there are no boundaries to grade against.
+ */
+export function gradeForScore(score: number | null | undefined, set: GradeBoundarySet | null | undefined): Grade | null {
+  if (!set || score === null || score === undefined || Number.isNaN(score)) return null;
+  const mark = scoreToMark(score, set);
+  return GCSE_GRADES.find((grade) => mark >= set.boundaries[grade]) ?? 'U';
+}
+
+/**
+ * "72% (Grade 6)", or just "72%" when the rubric has no boundaries
+ */
+export const formatScoreWithGrade = (score: number, set: GradeBoundarySet | null | undefined) => {
+  const grade = gradeForScore(score, set);
+  return `${Math.round(score)}%${grade ? ` (${gradeLabel(grade)})` : ''}`;
+};
+
+/**
+ * What is wrong with a boundary table, or null if it can be saved.
+ * Every grade needs a whole-number boundary within the paper, and no grade can need more than the one above it.
+ */
+export function validateBoundaries(maxMark: number, boundaries: Partial<Record<GcseGrade, number>>): string | null {
+  if (!Number.isInteger(maxMark) || maxMark <= 0) return 'The maximum mark must be a whole number above 0';
+  for (let i = 0; i < GCSE_GRADES.length; i++) {
+    const grade = GCSE_GRADES[i];
+    const mark = boundaries[grade];
+    if (mark === undefined || !Number.isInteger(mark)) return `Enter a whole-number boundary for grade ${grade}`;
+    if (mark < 0 || mark > maxMark) return `The grade ${grade} boundary must be between 0 and ${maxMark}`;
+    const above = i > 0 ? boundaries[GCSE_GRADES[i - 1]] : undefined;
+    if (above !== undefined && mark > above) return `Grade ${grade} can't need more marks than grade ${GCSE_GRADES[i - 1]}`;
+  }
+  return null;
+}
+
+export async function loadBoundarySets(teacherId: string): Promise<GradeBoundarySet[]> {
+  const { data, error } = await supabase
+    .from('grade_boundary_sets')
+    .select(BOUNDARY_COLUMNS)
+    .eq('teacher_id', teacherId)
+    .order('exam_board')
+    .order('year', { ascending: false, nullsFirst: false })
+    .order('paper');
+  if (error) throw error;
+  return (data || []) as GradeBoundarySet[];
+}
+
+/**
+ * Create a boundary set, or update it when `setId` is given
+ */
+export async function saveBoundarySet(teacherId: string, input: GradeBoundaryInput, setId?: string): Promise<GradeBoundarySet> {
+  const problem = validateBoundaries(input.max_mark, input.boundaries);
+  if (problem) throw new Error(problem);
+  const row = {
+    exam_board: input.exam_board,
+    subject: input.subject?.trim() || null,
+    paper: input.paper.trim(),
+    year: input.exam_board === 'Custom' ? null : input.year || null,
+    max_mark: input.max_mark,
+    boundaries: input.boundaries,
+  };
+  const query = setId
+    ? supabase.from('grade_boundary_sets').update({ ...row, updated_at: new Date().toISOString() }).eq('id', setId)
+    : supabase.from('grade_boundary_sets').insert([{ ...row, teacher_id: teacherId }]);
+  const { data, error } = await query.select(BOUNDARY_COLUMNS).single();
+  if (error) throw error;
+  return data as GradeBoundarySet;
+}
+
+/**
+ * Delete a boundary set. Rubrics linked to it go back to percentages only.
+ */
+export async function deleteBoundarySet(setId: string): Promise<void> {
+  const { error } = await supabase.from('grade_boundary_sets').delete().eq('id', setId);
+  if (error) throw error;
+}
+
+export async function linkRubricBoundaries(rubricId: string, setId: string | null): Promise<void> {
+  const { error } = await supabase.from('rubrics').update({ grade_boundary_set_id: setId }).eq('id', rubricId);
+  if (error) throw error;
+}
+
+/**
+ * The boundary set each rubric grades with, keyed by rubric ID. Rubrics without one are left out.
+ */
+export async function loadRubricBoundaries(rubricIds: string[]): Promise<Map<string, GradeBoundarySet>> {
+  const ids = Array.from(new Set(rubricIds.filter(Boolean)));
+  if (ids.length === 0) return new Map();
+  const { data, error } = await supabase
+    .from('rubrics')
+    .select(`id, grade_boundary_sets(${BOUNDARY_COLUMNS})`)
+    .in('id', ids)
+    .not('grade_boundary_set_id', 'is', null);
+  if (error) throw error;
+  return new Map(
+    (data || [])
+      .filter((r: any) => r.grade_boundary_sets)
+      .map((r: any) => [r.id, r.grade_boundary_sets as GradeBoundarySet])
+  );
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseGridTable, parseLevelText, parseMarkRange, parseMarkScheme } from './markSchemeParser';
+
+// The simple-format fallback lives in rubricParser, which loads PDF.js; its browser build needs a DOM
+vi.mock('pdfjs-dist', () => ({ GlobalWorkerOptions: {} }));
+
+describe('parseMarkRange', () => {
+  it('reads ranges in any order and single mark values', () => {
+    expect(parseMarkRange('16–20 marks')).toEqual({ min: 16, max: 20 });
+    expect(parseMarkRange('Level 2: 8 to 5')).toEqual({ min: 5, max: 8 });
+    expect(parseMarkRange('(0 marks)')).toEqual({ min: 0, max: 0 });
+    expect(parseMarkRange('No marks here')).toBeNull();
+  });
+});
+
+describe('parseGridTable', () => {
+  it('reads levels as rows with a level, marks and descriptor column', () => {
+    const criteria = parseGridTable([
+      ['Level', 'Marks', 'Response (9 marks)'],
+      ['Level 3', '7–9', 'Perceptive, detailed analysis'],
+      ['Level 2', '4–6', 'Clear explanation'],
+      ['Level 1', '1–3', 'Simple comments'],
+    ]);
+    expect(criteria).toEqual([{
+      category: 'Response',
+      maxPoints: 9,
+      levels: [
+        { level: 1, minMarks: 1, maxMarks: 3, descriptor: 'Simple comments' },
+        { level: 2, minMarks: 4, maxMarks: 6, descriptor: 'Clear explanation' },
+        { level: 3, minMarks: 7, maxMarks: 9, descriptor: 'Perceptive, detailed analysis' },
+      ],
+      indicativeContent: [],
+    }]);
+  });
+
+  it('splits descriptor columns with their own marks into separate criteria', () => {
+    const criteria = parseGridTable([
+      ['Level', 'Content and organisation (24 marks)', 'Technical accuracy (16 marks)'],
+      ['Level 2', '13–24 Convincing, crafted writing', '9–16 Accurate sentence demarcation'],
+      ['Level 1', '1–12 Simple, limited communication', '1–8 Occasional accuracy'],
+    ]);
+    expect(criteria?.map((c) => [c.category, c.maxPoints, c.levels.map((l) => `${l.level}:${l.minMarks}-${l.maxMarks} ${l.descriptor}`)])).toEqual([
+      ['Content and organisation', 24, ['1:1-12 Simple, limited communication', '2:13-24 Convincing, crafted writing']],
+      ['Technical accuracy', 16, ['1:1-8 Occasional accuracy', '2:9-16 Accurate sentence demarcation']],
+    ]);
+  });
+
+  it('reads levels as columns with one row per criterion', () => {
+    const criteria = parseGridTable([
+      ['Criterion', 'Level 1 (1–2 marks)', 'Level 2 (3–4 marks)'],
+      ['AO1 Knowledge', 'Some knowledge', 'Accurate knowledge'],
+      ['AO2 Analysis', 'Basic analysis', 'Developed analysis'],
+    ]);
+    expect(criteria?.map((c) => c.category)).toEqual(['AO1 Knowledge', 'AO2 Analysis']);
+    expect(criteria?.[1]).toMatchObject({
+      maxPoints: 4,
+      levels: [
+        { level: 1, minMarks: 1, maxMarks: 2, descriptor: 'Basic analysis' },
+        { level: 2, minMarks: 3, maxMarks: 4, descriptor: 'Developed analysis' },
+      ],
+    });
+  });
+
+  it('returns null for tables that are not mark grids', () => {
+    expect(parseGridTable([['Name', 'Class'], ['Emma', '10A'], ['James', '10B']])).toBeNull();
+    expect(parseGridTable([['Level 1']])).toBeNull();
+  });
+});
+
+describe('parseLevelText', () => {
+  it('groups level headings, descriptors and indicative content under criterion headings', () => {
+    const criteria = parseLevelText([
+      'AO1 (6 marks)',
+      'Level 2 (4–6 marks)',
+      'Detailed knowledge of the period,',
+      'supported by examples.',
+      'Level 1 (1–3 marks)',
+      'Basic knowledge.',
+      'Indicative content',
+      '- The Treaty of Versailles',
+      '- Reparations and',
+      'hyperinflation',
+      'AO2 (4 marks)',
+      'Level 1 (1–4 marks): Some analysis of causes.',
+    ].join('\n'));
+
+    expect(criteria).toEqual([
+      {
+        category: 'AO1',
+        maxPoints: 6,
+        levels: [
+          { level: 1, minMarks: 1, maxMarks: 3, descriptor: 'Basic knowledge.' },
+          { level: 2, minMarks: 4, maxMarks: 6, descriptor: 'Detailed knowledge of the period, supported by examples.' },
+        ],
+        indicativeContent: ['The Treaty of Versailles', 'Reparations and hyperinflation'],
+      },
+      {
+        category: 'AO2',
+        maxPoints: 4,
+        levels: [{ level: 1, minMarks: 1, maxMarks: 4, descriptor: 'Some analysis of causes.' }],
+        indicativeContent: [],
+      },
+    ]);
+  });
+
+  it('takes the marks from the line after a bare level heading', () => {
+    const [criterion] = parseLevelText('Level 1\n1-5 marks\nLimited response');
+    expect(criterion.levels).toEqual([{ level: 1, minMarks: 1, maxMarks: 5, descriptor: 'Limited response' }]);
+  });
+
+  it('finds nothing in a one-line-per-criterion rubric', () => {
+    expect(parseLevelText('Analysis (10 points): Close reading\nStructure - 5 marks')).toEqual([]);
+  });
+
+  it('keeps indicative content that has no levels of its own', () => {
+    expect(parseLevelText('Indicative content\n- Imagery of blood')).toEqual([
+      { category: 'Whole response', maxPoints: 0, levels: [], indicativeContent: ['Imagery of blood'] },
+    ]);
+  });
+});
+
+describe('parseMarkScheme', () => {
+  it('prefers a table and attaches indicative content from the text to a single criterion', () => {
+    const result = parseMarkScheme({
+      text: 'Indicative content\n- Imagery of blood\n- Sleep and guilt',
+      tables: [[
+        ['Level', 'Marks', 'Descriptor'],
+        ['Level 2', '4–6', 'Clear'],
+        ['Level 1', '1–3', 'Simple'],
+      ]],
+    });
+    expect(result.format).toBe('grid');
+    expect(result.criteria).toHaveLength(1);
+    expect(result.criteria[0].indicativeContent).toEqual(['Imagery of blood', 'Sleep and guilt']);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('merges a criterion split across two tables', () => {
+    const result = parseMarkScheme({
+      text: '',
+      tables: [
+        [['Level', 'Marks', 'Writing (10 marks)'], ['Level 2', '6–10', 'Crafted'], ['Level 1', '1–5', 'Simple']],
+        [['Level', 'Marks', 'Writing (10 marks)'], ['Level 1', '1–5', 'Simple'], ['Level 0', '0', 'Nothing creditworthy']],
+      ],
+    });
+    expect(result.criteria).toHaveLength(1);
+    expect(result.criteria[0].levels.map((l) => `${l.minMarks}-${l.maxMarks}`)).toEqual(['0-0', '1-5', '6-10']);
+  });
+
+  it('warns about headings that disagree with the levels and gaps between them', () => {
+    const result = parseMarkScheme({ text: 'Question 5 (20 marks)\nLevel 2 (11–16 marks) Good\nLevel 1 (1–8 marks) Weak', tables: [] });
+    expect(result.format).toBe('levels');
+    expect(result.warnings).toEqual([
+      'Question 5: heading says 20 marks but the top level goes to 16.',
+      'Question 5: no level covers 9–10 marks.',
+    ]);
+  });
+
+  it('falls back to the simple one-line format', () => {
+    const result = parseMarkScheme({ text: 'Analysis (10 points): Close reading\nStructure - 5 marks', tables: [] });
+    expect(result.format).toBe('simple');
+    expect(result.criteria.map((c) => [c.category, c.maxPoints])).toEqual([['Analysis', 10], ['Structure', 5]]);
+  });
+});
@@ -0,0 +1,392 @@
+import { parseRubricText } from './rubricParser';
+
+/**
+ * Level-of-response mark schemes (AQA/Edexcel style): each criterion has levels with a mark range
+ * ("Level 4, 16–20 marks") and a descriptor, optionally followed by indicative content.
+ * Tables from DOCX/PDF are read as grids first; plain text falls back to "Level N" headings,
+ * then to the one-line "Category (10 points)" format of parseRubricText.
+ */
+
+export interface MarkBand {
+  level: number;
+  minMarks: number;
+  maxMarks: number;
+  descriptor: string;
+}
+
+export interface MarkSchemeCriterion {
+  category: string;
+  maxPoints: number;
+  description?: string;
+  levels: MarkBand[];
+  indicativeContent: string[];
+}
+
+export interface ParsedMarkScheme {
+  format: 'grid' | 'levels' | 'simple';
+  criteria: MarkSchemeCriterion[];
+  warnings: string[];
+}
+
+/**
+ * Extracted document content: running text plus any tables as rows of cell text
+ */
+export interface RubricSource {
+  text: string;
+  tables: string[][][];
+}
+
+const RANGE_RE = /(\d{1,3})\s*(?:[-–—]|to)\s*(\d{1,3})(?:\s*marks?)?/i;
+const SINGLE_MARK_RE = /\b(\d{1,3})\s*marks?\b/i;
+const LEVEL_RE = /\b(?:level|band|lvl)\s*(\d{1,2})\b|^L(\d{1,2})\b/i;
+const HEADING_MARKS_RE = /^(.{2,100}?)\s*[([]\s*(\d{1,3})\s*marks?\s*[)\]]\s*[:.]?$/i;
+const CRITERION_HEADING_RE = /^(?:AO\d+\b|(?:question|section)\s*\d+[a-z]?\b)/i;
+const MARKS_ONLY_RE = /^\(?\s*(\d{1,3})\s*(?:(?:[-–—]|to)\s*(\d{1,3}))?\s*(?:marks?)?\s*\)?$/i;
+const INDICATIVE_RE = /^indicative\s+content\b/i;
+const BULLET_RE = /^\s*(?:[-*•●▪◦‣]|\d+[.)])\s+/;
+
+const clean = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export function parseMarkRange(text: string): { min: number; max: number } | null {
+  const range = text.match(RANGE_RE);
+  if (range) {
+    const a = Number(range[1]);
+    const b = Number(range[2]);
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+  const single = text.match(SINGLE_MARK_RE);
+  if (single) {
+    const marks = Number(single[1]);
+    return { min: marks, max: marks };
+  }
+  return null;
+}
+
+// A cell that holds nothing but marks: "16–20", "(0)", "6-10 marks"
+function parseMarksCell(cell: string): { min: number; max: number } | null {
+  const match = clean(cell).match(MARKS_ONLY_RE);
+  if (!match) return null;
+  const a = Number(match[1]);
+  const b = match[2] !== undefined ? Number(match[2]) : a;
+  return { min: Math.min(a, b), max: Math.max(a, b) };
+}
+
+export function parseLevelNumber(text: string): number | null {
+  const match = clean(text).match(LEVEL_RE);
+  if (!match) return null;
+  return Number(match[1] ?? match[2]);
+}
+
+const LEADING_LABEL_RE =
+  /^(?:\s*(?:(?:level|band|lvl)\s*\d{1,2}\b|L\d{1,2}\b|\(?\d{1,3}\s*(?:[-–—]|to)\s*\d{1,3}(?:\s*marks?)?\)?|\(?\d{1,3}\s*marks?\)?|[:.,;–—-]))+/i;
+const TRAILING_MARKS_RE = /[\s,;(]*\d{1,3}\s*(?:(?:[-–—]|to)\s*\d{1,3}\s*)?marks?\)?\s*$/i;
+
+// Strip a leading "Level 4 (16–20 marks):" and a trailing "16–20 marks" from a descriptor
+const stripLabels = (text: string) => clean(clean(text).replace(LEADING_LABEL_RE, '').replace(TRAILING_MARKS_RE, ''));
+
+const stripHeadingMarks = (text: string) => {
+  const match = clean(text).match(HEADING_MARKS_RE);
+  return match ? { name: match[1].trim(), marks: Number(match[2]) } : { name: clean(text), marks: null };
+};
+
+// Only trust a range at the start of a cell ("Level 3 (5–6 marks): ..."); descriptors mention numbers too
+const leadingRange = (cell: string) => parseMarkRange(cell.slice(0, 25));
+
+const mostly = (cells: string[], test: (cell: string) => boolean) =>
+  cells.length > 0 && cells.filter(test).length >= Math.ceil(cells.length / 2);
+
+function finishCriterion(
+  category: string,
+  levels: MarkBand[],
+  explicitMax: number | null,
+  extras: Partial<Pick<MarkSchemeCriterion, 'description' | 'indicativeContent'>> = {}
+): MarkSchemeCriterion {
+  const sorted = [...levels].sort((a, b) => a.minMarks - b.minMarks || a.level - b.level);
+  const levelMax = sorted.reduce((max, l) => Math.max(max, l.maxMarks), 0);
+  return {
+    category: category || 'Whole response',
+    maxPoints: explicitMax ?? levelMax,
+    levels: sorted,
+    indicativeContent: extras.indicativeContent ?? [],
+    ...(extras.description ? { description: extras.description } : {}),
+  };
+}
+
+/**
+ * Read one table as a level grid. Handles levels as rows (with a level and/or marks column, and either
+ * one descriptor column per criterion or several AO columns describing one holistic mark) and levels as
+ * columns (one row per criterion). Returns null when the table isn't a mark grid.
+ */
+export function parseGridTable(table: string[][]): MarkSchemeCriterion[] | null {
+  const rows = table.map((row) => row.map(clean)).filter((row) => row.some((cell) => cell.length > 0));
+  if (rows.length < 2) return null;
+  const width = Math.max(...rows.map((r) => r.length));
+  if (width < 2) return null;
+  const grid = rows.map((r) => [...r, ...Array(width - r.length).fill('')]);
+  const isLevelHeader = (h: string) => parseLevelNumber(h) !== null || parseMarkRange(h) !== null;
+  let [header, ...body] = grid;
+  // Grids without a header row start straight in with "Level 4 ..."
+  if (parseLevelNumber(header[0]) !== null && header.slice(1).filter(isLevelHeader).length < 2) {
+    body = grid;
+    header = grid[0].map(() => '');
+  }
+  const column = (idx: number) => body.map((r) => r[idx]).filter((c) => c.length > 0);
+
+  const levelsAsColumns = header.slice(1).filter(isLevelHeader).length >= 2 &&
+    !mostly(column(0), (c) => parseLevelNumber(c) !== null);
+
+  // Levels as rows
+  let levelCol = levelsAsColumns
+    ? -1
+    : header.findIndex((h, idx) => /^(?:levels?|bands?)$/i.test(h) || mostly(column(idx), (c) => parseLevelNumber(c) !== null && c.length <= 40));
+  let marksCol = levelsAsColumns
+    ? -1
+    : header.findIndex((h, idx) => idx !== levelCol && (
+      /^(?:marks?|mark range|marks? available)$/i.test(h) ||
+      // Bare numbers only count as marks next to a level column; otherwise they need a range or "marks"
+      mostly(column(idx), (c) => parseMarksCell(c) !== null && (levelCol !== -1 || /[-–—]|to|mark/i.test(c)))
+    ));
+  if (levelCol === -1 && marksCol !== -1) levelCol = marksCol;
+  if (levelCol !== -1) {
+    if (marksCol === -1 && mostly(column(levelCol), (c) => parseMarkRange(c) !== null)) marksCol = levelCol;
+    const descriptorCols = header.map((_, idx) => idx).filter((idx) => idx !== levelCol && idx !== marksCol);
+    if (descriptorCols.length === 0) return null;
+
+    const ranges = body.map((row) => (marksCol !== -1 ? parseMarksCell(row[marksCol]) : null) ?? parseMarkRange(row[levelCol]));
+    // Unlabelled rows are numbered from the lowest mark range up, whatever order the grid lists them in
+    const ascending = ranges.flatMap((r) => (r && r.max > 0 ? [r.min] : [])).sort((a, b) => a - b);
+    const allBands = body.map((row, idx) => {
+      const range = ranges[idx];
+      const level = parseLevelNumber(row[levelCol]) ??
+        (range ? (range.max === 0 ? 0 : ascending.indexOf(range.min) + 1) : idx + 1);
+      return { row, range, level };
+    });
+
+    // A descriptor column with its own mark ranges (or marks in its header) is a separately marked criterion
+    const perColumn = (descriptorCols.length > 1 || marksCol === -1) && descriptorCols.every((idx) =>
+      stripHeadingMarks(header[idx]).marks !== null || mostly(column(idx), (c) => leadingRange(c) !== null)
+    );
+
+    if (perColumn) {
+      const criteria = descriptorCols.map((idx) => {
+        const { name, marks } = stripHeadingMarks(header[idx]);
+        const levels = allBands.flatMap(({ row, range, level }) => {
+          const band = leadingRange(row[idx]) ?? range;
+          if (!row[idx] || !band) return [];
+          return [{ level, minMarks: band.min, maxMarks: band.max, descriptor: stripLabels(row[idx]) || row[idx] }];
+        });
+        return finishCriterion(name, levels, marks);
+      }).filter((c) => c.levels.length > 0);
+      return criteria.length > 0 ? criteria : null;
+    }
+
+    const rowBands = allBands.filter((b) => b.range !== null);
+    if (marksCol === -1 || rowBands.length === 0) return null;
+
+    const levels = rowBands.map(({ row, range, level }) => ({
+      level,
+      minMarks: range!.min,
+      maxMarks: range!.max,
+      descriptor: descriptorCols
+        .filter((idx) => row[idx])
+        .map((idx) => (descriptorCols.length > 1 && header[idx] ? `${header[idx]}: ${row[idx]}` : row[idx]))
+        .join('\n'),
+    }));
+    const heading = descriptorCols.length === 1 ? stripHeadingMarks(header[descriptorCols[0]]) : { name: '', marks: null };
+    return [finishCriterion(heading.name, levels, heading.marks)];
+  }
+
+  // Levels as columns: first column names the criterion
+  if (!levelsAsColumns) return null;
+  const levelHeaders = header.slice(1);
+  const criteria = body
+    .filter((row) => row[0])
+    .map((row) => {
+      const { name, marks } = stripHeadingMarks(row[0]);
+      const levels = levelHeaders.flatMap((h, offset) => {
+        const cell = row[offset + 1];
+        const range = leadingRange(cell) ?? parseMarkRange(h);
+        if (!cell || !range) return [];
+        return [{
+          level: parseLevelNumber(h) ?? offset + 1,
+          minMarks: range.min,
+          maxMarks: range.max,
+          descriptor: stripLabels(cell) || cell,
+        }];
+      });
+      return finishCriterion(name, levels, marks);
+    })
+    .filter((c) => c.levels.length > 0);
+  return criteria.length > 0 ? criteria : null;
+}
+
+/**
+ * Read "Level N (a–b marks)" headings and their descriptors from running text, grouped under
+ * criterion headings ("AO2", "Question 5", "Content and organisation (24 marks)").
+ * Indicative content with no levels of its own (it belongs to a grid) comes back as a criterion without levels.
+ */
+export function parseLevelText(text: string): MarkSchemeCriterion[] {
+  const lines = text.split(/\r?\n/).map((l) => l.replace(/\t+/g, ' ').trim()).filter((l) => l.length > 0);
+  const criteria: MarkSchemeCriterion[] = [];
+
+  let name = '';
+  let explicitMax: number | null = null;
+  let description: string[] = [];
+  let levels: MarkBand[] = [];
+  let indicative: string[] = [];
+  let current: { level: number; range: { min: number; max: number } | null; descriptor: string[] } | null = null;
+  let inIndicative = false;
+
+  const closeLevel = () => {
+    if (current?.range) {
+      levels.push({
+        level: current.level,
+        minMarks: current.range.min,
+        maxMarks: current.range.max,
+        descriptor: current.descriptor.join(' ').trim(),
+      });
+    }
+    current = null;
+  };
+  const closeCriterion = () => {
+    closeLevel();
+    if (levels.length > 0 || indicative.length > 0) {
+      criteria.push(finishCriterion(name, levels, explicitMax, {
+        description: description.join(' ').trim() || undefined,
+        indicativeContent: indicative,
+      }));
+    }
+    name = '';
+    explicitMax = null;
+    description = [];
+    levels = [];
+    indicative = [];
+    inIndicative = false;
+  };
+
+  for (const line of lines) {
+    const level = parseLevelNumber(line);
+    const startsWithLevel = level !== null && /^(?:level|band|lvl|L)\s*\d/i.test(line);
+    const heading = line.match(HEADING_MARKS_RE);
+
+    if (!startsWithLevel && line.length <= 120 && (heading || CRITERION_HEADING_RE.test(line))) {
+      // A new heading after levels starts the next criterion; before any levels it names this one
+      if (levels.length > 0 || current) closeCriterion();
+      const parsed = stripHeadingMarks(line);
+      name = parsed.name;
+      explicitMax = parsed.marks;
+      continue;
+    }
+
+    if (INDICATIVE_RE.test(line)) {
+      closeLevel();
+      inIndicative = true;
+      const rest = clean(line.replace(INDICATIVE_RE, '').replace(/^[\s:.-]+/, ''));
+      if (rest) indicative.push(rest);
+      continue;
+    }
+
+    if (startsWithLevel) {
+      closeLevel();
+      inIndicative = false;
+      current = { level: level!, range: parseMarkRange(line), descriptor: [] };
+      const rest = stripLabels(line);
+      if (rest) current.descriptor.push(rest);
+      continue;
+    }
+
+    if (current && !current.range && line.length <= 30 && parseMarkRange(line)) {
+      current.range = parseMarkRange(line);
+      continue;
+    }
+
+    if (inIndicative) {
+      const item = clean(line.replace(BULLET_RE, ''));
+      if (BULLET_RE.test(line) || indicative.length === 0) indicative.push(item);
+      else indicative[indicative.length - 1] += ` ${item}`;
+    } else if (current) {
+      current.descriptor.push(line);
+    } else if (name) {
+      description.push(line);
+    }
+  }
+  closeCriterion();
+
+  return criteria;
+}
+
+function checkCriterion(criterion: MarkSchemeCriterion): string[] {
+  const warnings: string[] = [];
+  const label = criterion.category;
+  if (criterion.levels.length === 0) return warnings;
+  const levelMax = Math.max(...criterion.levels.map((l) => l.maxMarks));
+  if (levelMax !== criterion.maxPoints) {
+    warnings.push(`${label}: heading says ${criterion.maxPoints} marks but the top level goes to ${levelMax}.`);
+  }
+  for (let i = 1; i < criterion.levels.length; i++) {
+    const prev = criterion.levels[i - 1];
+    const next = criterion.levels[i];
+    if (next.minMarks <= prev.maxMarks) {
+      warnings.push(`${label}: Level ${prev.level} (${prev.minMarks}–${prev.maxMarks}) overlaps Level ${next.level} (${next.minMarks}–${next.maxMarks}).`);
+    } else if (next.minMarks > prev.maxMarks + 1) {
+      warnings.push(`${label}: no level covers ${prev.maxMarks + 1}–${next.minMarks - 1} marks.`);
+    }
+  }
+  if (criterion.levels.some((l) => !l.descriptor)) {
+    warnings.push(`${label}: some levels have no descriptor.`);
+  }
+  return warnings;
+}
+
+/**
+ * Turn extracted document content into a structured rubric, best format first
+ */
+export function parseMarkScheme(source: RubricSource): ParsedMarkScheme {
+  const fromTables = source.tables.flatMap((table) => parseGridTable(table) ?? []);
+  let format: ParsedMarkScheme['format'];
+  let criteria: MarkSchemeCriterion[];
+
+  if (fromTables.length > 0) {
+    format = 'grid';
+    criteria = fromTables;
+    // Indicative content usually sits outside the grid; attach it when there's only one thing to attach it to
+    if (criteria.length === 1) {
+      const fromText = parseLevelText(source.text).flatMap((c) => c.indicativeContent);
+      if (fromText.length > 0) criteria = [{ ...criteria[0], indicativeContent: fromText }];
+    }
+  } else {
+    criteria = parseLevelText(source.text).filter((c) => c.levels.length > 0);
+    format = 'levels';
+    if (criteria.length === 0) {
+      format = 'simple';
+      criteria = parseRubricText(source.text).map((c) => ({
+        category: c.category,
+        maxPoints: c.maxPoints,
+        levels: [],
+        indicativeContent: [],
+        ...(c.description ? { description: c.description } : {}),
+      }));
+    }
+  }
+
+  // Same criterion split across tables/pages: keep the first and merge its levels
+  const merged = new Map<string, MarkSchemeCriterion>();
+  for (const criterion of criteria) {
+    const key = criterion.category.toLowerCase();
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, criterion);
+      continue;
+    }
+    const seen = new Set(existing.levels.map((l) => `${l.minMarks}-${l.maxMarks}`));
+    merged.set(key, finishCriterion(
+      existing.category,
+      [...existing.levels, ...criterion.levels.filter((l) => !seen.has(`${l.minMarks}-${l.maxMarks}`))],
+      Math.max(existing.maxPoints, criterion.maxPoints),
+      { description: existing.description, indicativeContent: [...existing.indicativeContent, ...criterion.indicativeContent] }
+    ));
+  }
+  criteria = Array.from(merged.values());
+
+  return { format, criteria, warnings: criteria.flatMap(checkCriterion) };
+}
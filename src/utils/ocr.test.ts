@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { applyOcrCorrections, stitchPages, type OcrPageWords } from './ocr';
+
+const line = (text: string, confidence = 90) => text.split(' ').map((word) => ({ text: word, confidence }));
+
+describe('stitchPages', () => {
+  it('joins words, line wraps and paragraphs on one page', () => {
+    const { text, words } = stitchPages([
+      { page: 1, paragraphs: [[line('Macbeth is'), line('ambitious.')], [line('Lady Macbeth')]] },
+    ]);
+    expect(text).toBe('Macbeth is ambitious.\n\nLady Macbeth');
+    expect(words.map((w) => text.slice(w.start, w.start + w.length))).toEqual(['Macbeth', 'is', 'ambitious.', 'Lady', 'Macbeth']);
+  });
+
+  it('rejoins a word hyphenated across a line wrap', () => {
+    const { text, words } = stitchPages([{ page: 1, paragraphs: [[line('a clear exam-'), line('ple of this')]] }]);
+    expect(text).toBe('a clear example of this');
+    expect(words[2]).toMatchObject({ text: 'exam', start: 8, length: 4 });
+    expect(words[3]).toMatchObject({ text: 'ple', start: 12 });
+  });
+
+  it('keeps hyphens before capitals and within a line', () => {
+    expect(stitchPages([{ page: 1, paragraphs: [[line('post-'), line('War Britain')]] }]).text).toBe('post- War Britain');
+    expect(stitchPages([{ page: 1, paragraphs: [[line('self- aware')]] }]).text).toBe('self- aware');
+  });
+
+  it('continues a sentence across pages and breaks the paragraph after a full stop', () => {
+    const pages: OcrPageWords[] = [
+      { page: 1, paragraphs: [[line('The witches')]] },
+      { page: 2, paragraphs: [[line('appear first.')]] },
+      { page: 3, paragraphs: [[line('Banquo doubts them')]] },
+    ];
+    const { text, words } = stitchPages(pages);
+    expect(text).toBe('The witches appear first.\n\nBanquo doubts them');
+    expect(words.map((w) => w.page)).toEqual([1, 1, 2, 2, 3, 3, 3]);
+  });
+
+  it('skips blank words and empty pages', () => {
+    const { text, words } = stitchPages([
+      { page: 1, paragraphs: [[[{ text: ' ', confidence: 10 }, { text: 'Hello', confidence: 95 }]]] },
+      { page: 2, paragraphs: [] },
+    ]);
+    expect(text).toBe('Hello');
+    expect(words).toEqual([{ text: 'Hello', confidence: 95, page: 1, start: 0, length: 5 }]);
+  });
+});
+
+describe('applyOcrCorrections', () => {
+  it('replaces words by index without disturbing the rest', () => {
+    const result = stitchPages([{ page: 1, paragraphs: [[line('Macbetb is arnbitious')]] }]);
+    expect(applyOcrCorrections(result, { 0: 'Macbeth', 2: ' ambitious ' })).toBe('Macbeth is ambitious');
+    expect(applyOcrCorrections(result, { 7: 'ignored' })).toBe(result.text);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * OCR for handwritten scripts: each page is straightened and read with Tesseract, then the pages are
+ * stitched in order into one text with a confidence per word, so the teacher can correct doubtful
+ * words before marking.
+ *
+ * The Tesseract worker, core and language data are all served with the app rather than loaded from a
+ * CDN. The build copies the language data to /tesseract (VITE_OCR_LANG_PATH overrides where it is
+ * read from), and the browser caches it in IndexedDB after the first load.
+ */
+
+import Tesseract from 'tesseract.js';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import simdCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+
+export type OcrLanguage = 'eng' | 'fra' | 'deu' | 'spa';
+
+export const OCR_LANGUAGES: Record<OcrLanguage, string> = {
+  eng: 'English',
+  fra: 'French',
+  deu: 'German',
+  spa: 'Spanish',
+};
+
+// Words Tesseract is less sure of than this (0-100) are flagged for the teacher to check
+export const LOW_CONFIDENCE_THRESHOLD = 70;
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  page: number; // 1-based
+  start: number; // Offset into OcrResult.text
+  length: number;
+}
+
+export interface OcrPage {
+  page: number;
+  confidence: number;
+  rotation: number; // Degrees the page was turned to straighten it
+}
+
+export interface OcrResult {
+  text: string;
+  words: OcrWord[];
+  pages: OcrPage[];
+  confidence: number; // Mean word confidence
+}
+
+export interface OcrOptions {
+  languages?: OcrLanguage[];
+  onProgress?: (progress: number) => void; // 0-100 across all pages
+}
+
+/**
+ * One page as Tesseract laid it out: paragraphs of lines of words
+ */
+export interface OcrPageWords {
+  page: number;
+  paragraphs: Array<Array<Array<{ text: string; confidence: number }>>>;
+}
+
+const LANG_PATH = (import.meta.env.VITE_OCR_LANG_PATH || '/tesseract').trim();
+
+// Phone photos are far larger than Tesseract needs; the longest side is scaled down to this
+const MAX_IMAGE_SIDE = 3000;
+
+// Smallest module using a SIMD instruction (as in wasm-feature-detect)
+const SIMD_PROBE = new Uint8Array([
+  0, 97, 115, 109, 1, 0, 0, 0, 1, 5, 1, 96, 0, 1, 123, 3, 2, 1, 0, 10, 10, 1, 8, 0, 65, 0, 253, 15, 253, 98, 11,
+]);
+
+const supportsSimd = () => {
+  try {
+    return WebAssembly.validate(SIMD_PROBE);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Start a worker from the bundled files and the self-hosted language data
+ */
+async function createOcrWorker(languages: OcrLanguage[], logger: (m: Tesseract.LoggerMessage) => void) {
+  try {
+    return await Tesseract.createWorker(languages, Tesseract.OEM.LSTM_ONLY, {
+      workerPath: workerUrl,
+      corePath: supportsSimd() ? simdCoreUrl : coreUrl,
+      langPath: LANG_PATH,
+      logger,
+    });
+  } catch {
+    throw new Error(
+      `Handwriting recognition could not load its language data from ${LANG_PATH}. ` +
+        'Check that the deployment serves the .traineddata.gz files there (see DEPLOY.md).'
+    );
+  }
+}
+
+/**
+ * Draw an image file upright (phone photos carry their orientation in EXIF), scaled down and in greyscale
+ */
+export async function imageFileToCanvas(file: Blob): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+  ctx.filter = 'grayscale(1)';
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas;
+}
+
+// A page that ends mid-sentence carries on into the next page's first paragraph
+const ENDS_SENTENCE = /[.!?:;"'”’)\]]$/;
+
+/**
+ * Join pages into one text. Lines within a paragraph are joined with spaces (handwriting wraps
+ * wherever the paper ends), and a word hyphenated across a line or page break is rejoined.
+ */
+export function stitchPages(pages: OcrPageWords[]): { text: string; words: OcrWord[] } {
+  let text = '';
+  const words: OcrWord[] = [];
+  // What separates the next word from the last: within a line, a line wrap, or a paragraph break
+  let gap: 'word' | 'line' | 'paragraph' = 'word';
+
+  for (const page of pages) {
+    const last = words[words.length - 1];
+    if (last) gap = ENDS_SENTENCE.test(last.text) ? 'paragraph' : 'line';
+    page.paragraphs.forEach((paragraph, p) => {
+      if (p > 0) gap = 'paragraph';
+      paragraph.forEach((line, l) => {
+        if (l > 0) gap = 'line';
+        for (const word of line) {
+          const value = word.text.trim();
+          if (!value) continue;
+          const previous = words[words.length - 1];
+          let separator = previous ? (gap === 'paragraph' ? '\n\n' : ' ') : '';
+          if (previous && gap !== 'paragraph' && gap !== 'word' && /\p{L}-$/u.test(previous.text) && /^\p{Ll}/u.test(value)) {
+            text = text.slice(0, -1);
+            previous.text = previous.text.slice(0, -1);
+            previous.length -= 1;
+            separator = '';
+          }
+          text += separator;
+          words.push({ text: value, confidence: word.confidence, page: page.page, start: text.length, length: value.length });
+          text += value;
+          gap = 'word';
+        }
+      });
+    });
+  }
+  return { text, words };
+}
+
+/**
+ * The text with the teacher's corrections (by word index) applied
+ */
+export function applyOcrCorrections(result: Pick<OcrResult, 'text' | 'words'>, corrections: Record<number, string>): string {
+  let text = result.text;
+  // Work backwards so earlier offsets stay valid
+  Object.keys(corrections)
+    .map(Number)
+    .sort((a, b) => b - a)
+    .forEach((index) => {
+      const word = result.words[index];
+      if (!word) return;
+      text = text.slice(0, word.start) + corrections[index].trim() + text.slice(word.start + word.length);
+    });
+  return text;
+}
+
+/**
+ * Read pages in order and stitch them into one script
+ */
+export async function recognizeScript(pages: HTMLCanvasElement[], options: OcrOptions = {}): Promise<OcrResult> {
+  if (pages.length === 0) throw new Error('No pages to scan');
+  const languages = options.languages?.length ? options.languages : (['eng'] as OcrLanguage[]);
+  let current = 0;
+  const worker = await createOcrWorker(languages, (m) => {
+    if (m.status === 'recognizing text' && options.onProgress) {
+      options.onProgress(Math.round(((current + m.progress) / pages.length) * 100));
+    }
+  });
+
+  const laidOut: OcrPageWords[] = [];
+  const pageInfo: OcrPage[] = [];
+  try {
+    for (let i = 0; i < pages.length; i++) {
+      current = i;
+      // rotateAuto measures the skew of the text lines and straightens the page before reading it
+      const { data } = await worker.recognize(pages[i], { rotateAuto: true }, { text: true, blocks: true });
+      laidOut.push({
+        page: i + 1,
+        paragraphs: (data.blocks || []).flatMap((block) =>
+          block.paragraphs.map((paragraph) =>
+            paragraph.lines.map((line) => line.words.map((w) => ({ text: w.text, confidence: w.confidence })))
+          )
+        ),
+      });
+      pageInfo.push({
+        page: i + 1,
+        confidence: data.confidence,
+        rotation: Math.round(((data.rotateRadians || 0) * 180) / Math.PI * 10) / 10,
+      });
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  const { text, words } = stitchPages(laidOut);
+  if (!text.trim()) {
+    throw new Error('No text could be read from the scan. Try a clearer, well-lit photo of each page.');
+  }
+  const confidence = words.length > 0 ? words.reduce((sum, w) => sum + w.confidence, 0) / words.length : 0;
+  return { text, words, pages: pageInfo, confidence: Math.round(confidence) };
+}
@@ -1,3 +1,5 @@
+import { supabase } from '../lib/supabaseClient';
+
 // Serverless function API endpoints (secure - API key stays on server)
 // In development, we'll use mock responses or fallback to direct OpenAI calls
 // In production, we use Vercel serverless functions
@@ -21,13 +23,132 @@ export interface EnhancedFeedback {
   suggested_feedback: string; // Natural teacher voice summary
 }
 
+/**
+ * Combined marking result from /api/mark-essay. Feedback, criterion scores and
+ * band justification come from one model call, so they always agree.
+ */
+export interface EssayMarking extends EnhancedFeedback {
+  criteria_scores: CriterionScore[];
+  total_points: number;
+  total_max_points: number;
+  justification: string;
+  annotations?: EssayAnnotation[]; // Quoted evidence resolved to exact ranges of the essay
+  addressed_improvements?: ImprovementProgress[]; // Only for redrafts marked with the previous draft's improvements
+}
+
+export type ImprovementStatus = 'addressed' | 'partly_addressed' | 'not_addressed';
+
+/**
+ * Whether a redraft acted on one "Area for Improvement" from the previous draft's feedback.
+ * Stored as-is in feedback.addressed_improvements.
+ */
+export interface ImprovementProgress {
+  improvement: string;
+  status: ImprovementStatus;
+  evidence: string;
+}
+
+/**
+ * Margin comment pinned to the essay: `essay.slice(start_offset, start_offset + length)` is the passage
+ */
+export interface EssayAnnotation {
+  quote: string;
+  type: 'strength' | 'improvement' | 'grammar' | 'evidence';
+  ao: string | null;
+  comment: string;
+  start_offset: number;
+  length: number;
+}
+
+/**
+ * Points for one rubric criterion, out of that criterion's maxPoints (e.g. AO2: 7/10).
+ * Stored as-is in feedback.criteria_scores.
+ */
+export interface CriterionScore {
+  criterion: string;
+  points: number;
+  max_points: number;
+}
+
+/**
+ * Strengths, improvements and suggested feedback received so far while a marking response streams in
+ */
+export interface PartialFeedback {
+  strengths: string[];
+  improvements: string[];
+  suggested_feedback: string;
+}
+
+/**
+ * Typed error surfaced by the api/ handlers (e.g. code "invalid_model_output")
+ */
+export class FeedbackApiError extends Error {
+  code?: string;
+  details: string[];
+
+  constructor(message: string, code?: string, details: string[] = []) {
+    super(message);
+    this.name = 'FeedbackApiError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+/**
+ * Plan allowance used up: 402 "quota_exceeded" (monthly) or 429 "daily_limit_reached".
+ * Render with UpgradePrompt rather than a generic error toast.
+ */
+export class QuotaExceededError extends FeedbackApiError {
+  status: number;
+  plan: string;
+  period: 'month' | 'day';
+  limit: number;
+  used: number;
+  resetsAt: string;
+
+  constructor(status: number, body: any) {
+    super(body?.error || 'Plan limit reached', body?.code);
+    this.name = 'QuotaExceededError';
+    this.status = status;
+    this.plan = body?.plan || 'free';
+    this.period = body?.period === 'day' ? 'day' : 'month';
+    this.limit = Number(body?.limit) || 0;
+    this.used = Number(body?.used) || 0;
+    this.resetsAt = body?.resets_at || '';
+  }
+}
+
+/**
+ * A streamed marking response that broke off before the final result.
+ * `partial` holds whatever had arrived, so it can still be shown to the teacher.
+ */
+export class MarkingStreamError extends FeedbackApiError {
+  partial: PartialFeedback | null;
+
+  constructor(message: string, partial: PartialFeedback | null, code?: string) {
+    super(message, code);
+    this.name = 'MarkingStreamError';
+    this.partial = partial;
+  }
+}
+
+const QUOTA_ERROR_CODES = ['quota_exceeded', 'daily_limit_reached'];
+
+// The marking and batch endpoints verify the Supabase session server-side
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
 // Helper for exponential backoff retry
 async function fetchWithRetry(url: string, options: RequestInit, retries = 3, delay = 1000): Promise<Response> {
   try {
     const response = await fetch(url, options);
     
-    // Retry on 429 (Too Many Requests) or 5xx (Server Errors)
-    if (!response.ok && (response.status === 429 || response.status >= 500) && retries > 0) {
+    // Retry on 429 (Too Many Requests) or 5xx (Server Errors), but not when a plan quota is exhausted
+    const quotaExhausted = response.status === 429 && response.headers.get('X-Quota-Remaining') === '0';
+    if (!response.ok && !quotaExhausted && (response.status === 429 || response.status >= 500) && retries > 0) {
       console.warn(`⚠️ Request failed with ${response.status}. Retrying in ${delay}ms... (${retries} attempts left)`);
       await new Promise(resolve => setTimeout(resolve, delay));
       return fetchWithRetry(url, options, retries - 1, delay * 2);
@@ -45,22 +166,23 @@ async function fetchWithRetry(url: string, options: RequestInit, retries = 3, de
 }
 
 /**
- * Generate AI feedback for an essay with GCSE band analysis
+ * Mark an essay in a single call: feedback, per-criterion scores, overall band and justification
  * @param essayText - The essay content to analyze
  * @param rubricCriteria - The grading rubric criteria
  * @param examBoard - Optional exam board (AQA, Edexcel, OCR, WJEC)
- * @returns Promise with structured feedback object
+ * @param customPrompt - Optional teacher instructions and tone
+ * @returns Promise with the schema-validated marking result
  */
-export async function generateEssayFeedback(
+export async function markEssay(
   essayText: string,
   rubricCriteria: string,
   examBoard?: string,
   customPrompt?: string
-): Promise<string> {
+): Promise<EssayMarking> {
   try {
-    const response = await fetchWithRetry(`${API_BASE}/generate-feedback`, {
+    const response = await fetchWithRetry(`${API_BASE}/mark-essay`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
       body: JSON.stringify({ essayText, rubricCriteria, examBoard, customPrompt }),
     });
 
@@ -74,17 +196,139 @@ export async function generateEssayFeedback(
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Failed to generate feedback');
+      if ((response.status === 402 || response.status === 429) && QUOTA_ERROR_CODES.includes(error.code)) {
+        throw new QuotaExceededError(response.status, error);
+      }
+      throw new FeedbackApiError(error.error || 'Failed to mark essay', error.code, error.details);
     }
 
     const data = await response.json();
-    return data.feedback;
+    return data.marking as EssayMarking;
   } catch (error: any) {
-    console.error('❌ OpenAI Feedback Generation Error:', error);
+    console.error('❌ Essay Marking Error:', error);
+    if (error instanceof FeedbackApiError) throw error;
     throw new Error(error?.message || 'Connection error. Please try again.');
   }
 }
 
+/**
+ * Turn a non-2xx JSON error response into FeedbackApiError (or QuotaExceededError)
+ */
+export async function toFeedbackApiError(response: Response, fallback: string): Promise<FeedbackApiError> {
+  const error = await response.json().catch(() => ({}));
+  if ((response.status === 402 || response.status === 429) && QUOTA_ERROR_CODES.includes(error.code)) {
+    return new QuotaExceededError(response.status, error);
+  }
+  return new FeedbackApiError(error.error || `${fallback} (${response.status})`, error.code, error.details);
+}
+
+/**
+ * Read a marking event stream (`partial`, then `done` or `error`) from /api/generate-feedback
+ * or the generate-feedback edge function. Resolves with the `done` payload.
+ * Throws MarkingStreamError carrying the last partial result if the stream breaks first.
+ */
+export async function readMarkingStream<T extends { feedback: EssayMarking }>(
+  response: Response,
+  onPartial: (partial: PartialFeedback) => void
+): Promise<T> {
+  if (!response.body) {
+    throw new MarkingStreamError('Streaming is not supported by this browser.', null);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let partial: PartialFeedback | null = null;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        const event = block.match(/^event: (.+)$/m)?.[1]?.trim();
+        const data = block.split('\n').filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n');
+        if (!event || !data) continue;
+
+        const payload = JSON.parse(data);
+        if (event === 'partial') {
+          partial = payload as PartialFeedback;
+          onPartial(partial);
+        } else if (event === 'done') {
+          return payload as T;
+        } else if (event === 'error') {
+          throw new MarkingStreamError(payload.error || 'Failed to generate feedback', partial, payload.code);
+        }
+      }
+    }
+  } catch (error: any) {
+    if (error instanceof MarkingStreamError || error?.name === 'AbortError') throw error;
+    throw new MarkingStreamError('The connection was interrupted while feedback was streaming.', partial);
+  }
+
+  throw new MarkingStreamError('The feedback stream ended before the marking was complete.', partial);
+}
+
+/**
+ * Stream marking from /api/generate-feedback, reporting strengths, improvements and the
+ * suggested feedback as they are written. Abort via `signal` to cancel (nothing is charged).
+ */
+export async function streamEssayMarking(
+  essayText: string,
+  rubricCriteria: string,
+  options: {
+    examBoard?: string;
+    customPrompt?: string;
+    previousImprovements?: string[]; // Previous draft's improvements, when marking a redraft
+    signal?: AbortSignal;
+    onPartial: (partial: PartialFeedback) => void;
+  }
+): Promise<EssayMarking> {
+  const response = await fetch(`${API_BASE}/generate-feedback`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream', ...(await authHeaders()) },
+    body: JSON.stringify({
+      essayText,
+      rubricCriteria,
+      examBoard: options.examBoard,
+      customPrompt: options.customPrompt,
+      previousImprovements: options.previousImprovements,
+      stream: true,
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    throw await toFeedbackApiError(response, 'Failed to generate feedback');
+  }
+
+  const { feedback } = await readMarkingStream<{ feedback: EssayMarking }>(response, options.onPartial);
+  return feedback;
+}
+
+/**
+ * Generate AI feedback for an essay with GCSE band analysis
+ * @param essayText - The essay content to analyze
+ * @param rubricCriteria - The grading rubric criteria
+ * @param examBoard - Optional exam board (AQA, Edexcel, OCR, WJEC)
+ * @returns Promise with schema-validated structured feedback
+ */
+export async function generateEssayFeedback(
+  essayText: string,
+  rubricCriteria: string,
+  examBoard?: string,
+  customPrompt?: string
+): Promise<EnhancedFeedback> {
+  return markEssay(essayText, rubricCriteria, examBoard, customPrompt);
+}
+
 /**
  * Generate GCSE band-level score with justification
  * @param essayText - The essay content
@@ -95,31 +339,25 @@ export async function generateEssayScore(
   essayText: string,
   rubricCriteria: string
 ): Promise<number> {
-  try {
-    const response = await fetchWithRetry(`${API_BASE}/generate-score`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ essayText, rubricCriteria }),
-    });
-
-    const contentType = response.headers.get('content-type');
-    if (!contentType || !contentType.includes('application/json')) {
-      const text = await response.text();
-      console.error('❌ Non-JSON response:', text);
-      throw new Error('Server error: Invalid response format. Please check API configuration.');
-    }
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to generate score');
-    }
+  const marking = await markEssay(essayText, rubricCriteria);
+  return Math.round(marking.overall_score);
+}
 
-    const data = await response.json();
-    return data.score;
-  } catch (error: any) {
-    console.error('❌ Score Generation Error:', error);
-    throw new Error(error?.message || 'Connection error. Please try again.');
-  }
+/**
+ * Band analysis view of a marking result (no extra model call)
+ */
+export function toBandAnalysis(marking: EssayMarking): {
+  overall_band: number;
+  overall_score: number;
+  ao_bands: Array<{ ao: string; band: number; comment: string }>;
+  justification: string;
+} {
+  return {
+    overall_band: marking.overall_band,
+    overall_score: marking.overall_score,
+    ao_bands: marking.ao_analysis.map(({ ao, band, comment }) => ({ ao, band, comment })),
+    justification: marking.justification,
+  };
 }
 
 /**
@@ -133,34 +371,6 @@ export async function generateBandAnalysis(
   essayText: string,
   rubricCriteria: string,
   examBoard?: string
-): Promise<{
-  overall_band: number;
-  overall_score: number;
-  ao_bands: Array<{ ao: string; band: number; comment: string }>;
-  justification: string;
-}> {
-  try {
-    const response = await fetch(`${API_BASE}/generate-band-analysis`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ essayText, rubricCriteria, examBoard }),
-    });
-
-    const contentType = response.headers.get('content-type');
-    if (!contentType || !contentType.includes('application/json')) {
-      const text = await response.text();
-      console.error('❌ Non-JSON response:', text);
-      throw new Error('Server error: Invalid response format. Please check API configuration.');
-    }
-
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || 'Failed to generate band analysis');
-    }
-
-    return await response.json();
-  } catch (error: any) {
-    console.error('❌ Band Analysis Error:', error);
-    throw new Error(error?.message || 'Connection error. Please try again.');
-  }
+): Promise<ReturnType<typeof toBandAnalysis>> {
+  return toBandAnalysis(await markEssay(essayText, rubricCriteria, examBoard));
 }
@@ -1,4 +1,11 @@
 import { supabase } from '../lib/supabaseClient';
+import {
+  authHeaders,
+  readMarkingStream,
+  toFeedbackApiError,
+  type EssayMarking,
+  type PartialFeedback,
+} from './openaiClient';
 
 /**
  * Call the Supabase Edge Function to generate essay feedback
@@ -8,7 +15,7 @@ export async function generateFeedbackViaEdgeFunction(
   essay: string,
   rubricCriteria: string,
   customPrompt?: string
-): Promise<string> {
+): Promise<EssayMarking> {
   try {
     const { data, error } = await supabase.functions.invoke('generate-feedback', {
       body: {
@@ -67,17 +74,19 @@ export async function generateScoreViaEdgeFunction(
 }
 
 /**
- * Generate both feedback and score in parallel
+ * Generate the full marking result and its score in one call
  */
 export async function generateBothViaEdgeFunction(
   essay: string,
-  rubricCriteria: string
-): Promise<{ feedback: string; score: number }> {
+  rubricCriteria: string,
+  customPrompt?: string
+): Promise<{ feedback: EssayMarking; score: number }> {
   try {
     const { data, error } = await supabase.functions.invoke('generate-feedback', {
       body: {
         essay,
         rubricCriteria,
+        customPrompt,
         type: 'both',
       },
     });
@@ -99,3 +108,49 @@ export async function generateBothViaEdgeFunction(
     throw error;
   }
 }
+
+/**
+ * Stream the marking result from the Edge Function, reporting strengths, improvements and the
+ * suggested feedback as they arrive. Uses fetch directly because functions.invoke buffers the body.
+ */
+export async function streamFeedbackViaEdgeFunction(
+  essay: string,
+  rubricCriteria: string,
+  options: {
+    customPrompt?: string;
+    previousImprovements?: string[];
+    signal?: AbortSignal;
+    onPartial: (partial: PartialFeedback) => void;
+  }
+): Promise<{ feedback: EssayMarking; score: number }> {
+  const supabaseUrl = (import.meta.env.VITE_SUPABASE_URL || '').trim();
+  const anonKey = (import.meta.env.VITE_SUPABASE_ANON_KEY || '').trim();
+  if (!supabaseUrl || !anonKey) {
+    throw new Error('Edge function unavailable: Supabase is not configured');
+  }
+
+  const headers = await authHeaders();
+  if (!headers.Authorization) {
+    throw new Error('Please sign in to generate AI feedback');
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/generate-feedback`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream', apikey: anonKey, ...headers },
+    body: JSON.stringify({
+      essay,
+      rubricCriteria,
+      customPrompt: options.customPrompt,
+      previousImprovements: options.previousImprovements,
+      type: 'both',
+      stream: true,
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok) {
+    throw await toFeedbackApiError(response, 'Edge function error');
+  }
+
+  return readMarkingStream<{ feedback: EssayMarking; score: number }>(response, options.onPartial);
+}
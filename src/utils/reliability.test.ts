@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import type { CalibrationCriterion, CalibrationMark } from './calibration';
+import {
+  aiCriterionScores,
+  buildReliabilityReport,
+  cohensKappa,
+  describeIcc,
+  describeKappa,
+  fleissKappa,
+  icc21,
+  toBand,
+} from './reliability';
+
+describe('icc21', () => {
+  it('matches the Shrout & Fleiss worked example', () => {
+    const matrix = [
+      [9, 2, 5, 8],
+      [6, 1, 3, 2],
+      [8, 4, 6, 8],
+      [7, 1, 2, 6],
+      [10, 5, 6, 9],
+      [6, 2, 4, 7],
+    ];
+    expect(icc21(matrix)).toBeCloseTo(0.29, 2);
+  });
+
+  it('is 1 for identical markers and null without enough data', () => {
+    expect(icc21([[4, 4], [7, 7], [9, 9]])).toBeCloseTo(1);
+    expect(icc21([[4, 5]])).toBeNull();
+    expect(icc21([[4], [5]])).toBeNull();
+  });
+});
+
+describe('cohensKappa', () => {
+  it('corrects observed agreement for chance', () => {
+    // 3 of 4 agree; chance agreement is 0.5
+    expect(cohensKappa([1, 1, 2, 2], [1, 2, 2, 2], 2)).toBeCloseTo(0.5);
+    expect(cohensKappa([1, 2, 3], [1, 2, 3], 3)).toBeCloseTo(1);
+  });
+
+  it('penalises near misses less when weighted', () => {
+    const a = [1, 2, 3, 4, 5];
+    const b = [2, 3, 4, 5, 5];
+    expect(cohensKappa(a, b, 5, true)!).toBeGreaterThan(cohensKappa(a, b, 5)!);
+  });
+
+  it('is null for mismatched or too few ratings', () => {
+    expect(cohensKappa([1], [1], 3)).toBeNull();
+    expect(cohensKappa([1, 2], [1], 3)).toBeNull();
+  });
+});
+
+describe('fleissKappa', () => {
+  it('matches the Fleiss (1971) worked example', () => {
+    const counts = [
+      [0, 0, 0, 0, 14],
+      [0, 2, 6, 4, 2],
+      [0, 0, 3, 5, 6],
+      [0, 3, 9, 2, 0],
+      [2, 2, 8, 1, 1],
+      [7, 7, 0, 0, 0],
+      [3, 2, 6, 3, 0],
+      [2, 5, 3, 2, 2],
+      [6, 5, 2, 1, 0],
+      [0, 2, 2, 3, 7],
+    ];
+    const ratings = counts.map((row) => row.flatMap((count, band) => new Array<number>(count).fill(band + 1)));
+    expect(fleissKappa(ratings, 5)).toBeCloseTo(0.21, 2);
+  });
+
+  it('is null for a single marker', () => {
+    expect(fleissKappa([[1], [2]], 3)).toBeNull();
+  });
+});
+
+describe('labels and bands', () => {
+  it('describes kappa and ICC on their published scales', () => {
+    expect(describeKappa(null)).toBe('Not enough data');
+    expect(describeKappa(-0.1)).toBe('Poor');
+    expect(describeKappa(0.5)).toBe('Moderate');
+    expect(describeKappa(0.81)).toBe('Almost perfect');
+    expect(describeIcc(0.49)).toBe('Poor');
+    expect(describeIcc(0.75)).toBe('Good');
+    expect(describeIcc(0.9)).toBe('Excellent');
+  });
+
+  it('slices the marks available into equal bands', () => {
+    expect(toBand(0, 20, 4)).toBe(1);
+    expect(toBand(5, 20, 4)).toBe(1);
+    expect(toBand(6, 20, 4)).toBe(2);
+    expect(toBand(20, 20, 4)).toBe(4);
+    expect(toBand(25, 20, 4)).toBe(4);
+    expect(toBand(3, 0, 4)).toBe(1);
+  });
+});
+
+const CRITERIA: CalibrationCriterion[] = [
+  { key: 'a', name: 'AO1', maxPoints: 10, levels: [] },
+  { key: 'b', name: 'AO2 Analysis', maxPoints: 10, levels: [] },
+];
+
+const mark = (essayId: string, markerId: string, a: number, b: number): CalibrationMark => ({
+  id: `${essayId}-${markerId}`,
+  essay_id: essayId,
+  marker_id: markerId,
+  scores: { a, b },
+  notes: null,
+  created_at: '2025-12-01T00:00:00Z',
+});
+
+describe('aiCriterionScores', () => {
+  it('matches criteria by name or AO code and needs all of them', () => {
+    const ai = {
+      essay_id: 'e1',
+      overall_score: 70,
+      created_at: '',
+      criteria_scores: [{ criterion: 'ao1', points: 7 }, { criterion: 'AO2', points: 6 }],
+    };
+    expect(aiCriterionScores(ai, CRITERIA)).toEqual({ a: 7, b: 6 });
+    expect(aiCriterionScores({ ...ai, criteria_scores: ai.criteria_scores.slice(0, 1) }, CRITERIA)).toBeNull();
+  });
+});
+
+describe('buildReliabilityReport', () => {
+  const report = buildReliabilityReport({
+    criteria: CRITERIA,
+    essays: [
+      { essay_id: 'e1', title: 'Essay 1', content: '' },
+      { essay_id: 'e2', title: 'Essay 2', content: '' },
+    ],
+    members: [],
+    marks: [mark('e1', 'lead', 8, 8), mark('e2', 'lead', 4, 4), mark('e1', 'm2', 6, 6), mark('e2', 'm2', 2, 2)],
+    moderated: [],
+    aiMarks: [
+      { essay_id: 'e1', overall_score: 70, created_at: '', criteria_scores: [{ criterion: 'AO1', points: 7 }, { criterion: 'AO2', points: 7 }] },
+      { essay_id: 'e2', overall_score: 30, created_at: '', criteria_scores: [] },
+    ],
+    leadId: 'lead',
+    marksAvailable: 20,
+    bandCount: 4,
+  });
+
+  it('reports each marker against the others, lead first', () => {
+    expect(report.completeEssays).toBe(2);
+    expect(report.completeMarkers).toBe(2);
+    const [lead, other] = report.markers;
+    expect(lead).toMatchObject({ markerId: 'lead', isLead: true, bias: 4, tendency: 'lenient' });
+    expect(other).toMatchObject({ markerId: 'm2', bias: -4, meanAbsoluteError: 4, tendency: 'severe', exactBandAgreementWithLead: 0 });
+    expect(other.criterionBias).toEqual({ a: -2, b: -2 });
+  });
+
+  it('compares the AI with the human consensus, scaling the overall score when criteria do not match', () => {
+    expect(report.ai.essaysCompared).toBe(2);
+    expect(report.ai.scaledFromPercentage).toBe(1);
+    expect(report.ai.rows.map((r) => [r.aiTotal, r.humanTotal])).toEqual([[14, 14], [6, 6]]);
+    expect(report.ai.bias).toBe(0);
+  });
+});
@@ -0,0 +1,404 @@
+/**
+ * Inter-rater reliability for calibration sessions.
+ * Totals are compared as continuous marks (ICC, bias) and as bands (kappa), where a band is an equal-width
+ * slice of the marks available. All statistics return null when there isn't enough data to compute them.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import {
+  memberLabel,
+  scoreTotal,
+  type CalibrationCriterion,
+  type CalibrationEssay,
+  type CalibrationMark,
+  type CalibrationMember,
+  type CriterionScores,
+  type ModeratedMark,
+} from './calibration';
+
+export interface AiMark {
+  essay_id: string;
+  overall_score: number | null;
+  criteria_scores: { criterion: string; points: number; max_points?: number }[];
+  created_at: string;
+}
+
+export async function loadCalibrationAiMarks(sessionId: string): Promise<AiMark[]> {
+  const { data, error } = await supabase.rpc('calibration_ai_marks_for', { p_session_id: sessionId });
+  if (error) throw error;
+  return ((data || []) as any[]).map((row) => ({ ...row, criteria_scores: row.criteria_scores || [] }));
+}
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * ICC(2,1): two-way random effects, absolute agreement, single marker (Shrout & Fleiss).
+ * `matrix` is essays x markers with every cell filled.
+ */
+export function icc21(matrix: number[][]): number | null {
+  const n = matrix.length;
+  const k = matrix[0]?.length ?? 0;
+  if (n < 2 || k < 2) return null;
+
+  const grand = mean(matrix.flat());
+  const rowMeans = matrix.map(mean);
+  const colMeans = Array.from({ length: k }, (_, j) => mean(matrix.map((row) => row[j])));
+
+  const ssRows = k * rowMeans.reduce((sum, m) => sum + (m - grand) ** 2, 0);
+  const ssCols = n * colMeans.reduce((sum, m) => sum + (m - grand) ** 2, 0);
+  const ssTotal = matrix.flat().reduce((sum, x) => sum + (x - grand) ** 2, 0);
+  const ssError = ssTotal - ssRows - ssCols;
+
+  const msRows = ssRows / (n - 1);
+  const msCols = ssCols / (k - 1);
+  const msError = ssError / ((n - 1) * (k - 1));
+  const denominator = msRows + (k - 1) * msError + (k * (msCols - msError)) / n;
+  if (denominator <= 0) return null;
+  return (msRows - msError) / denominator;
+}
+
+/** Cohen's kappa between two markers' bands; `weighted` uses quadratic weights for ordinal bands */
+export function cohensKappa(a: number[], b: number[], bandCount: number, weighted = false): number | null {
+  const n = a.length;
+  if (n < 2 || n !== b.length || bandCount < 2) return null;
+
+  const observed = Array.from({ length: bandCount }, () => new Array<number>(bandCount).fill(0));
+  a.forEach((band, i) => { observed[band - 1][b[i] - 1] += 1; });
+  const rowTotals = observed.map((row) => row.reduce((s, x) => s + x, 0));
+  const colTotals = observed[0].map((_, j) => observed.reduce((s, row) => s + row[j], 0));
+
+  let po = 0;
+  let pe = 0;
+  for (let i = 0; i < bandCount; i++) {
+    for (let j = 0; j < bandCount; j++) {
+      const weight = weighted ? 1 - ((i - j) / (bandCount - 1)) ** 2 : i === j ? 1 : 0;
+      po += (weight * observed[i][j]) / n;
+      pe += (weight * rowTotals[i] * colTotals[j]) / (n * n);
+    }
+  }
+  if (pe >= 1) return po >= 1 ? 1 : null;
+  return (po - pe) / (1 - pe);
+}
+
+/** Fleiss' kappa; `ratings` has one array of bands per essay, all the same length (markers) */
+export function fleissKappa(ratings: number[][], bandCount: number): number | null {
+  const subjects = ratings.length;
+  const raters = ratings[0]?.length ?? 0;
+  if (subjects < 2 || raters < 2 || bandCount < 2) return null;
+
+  const counts = ratings.map((bands) => {
+    const row = new Array<number>(bandCount).fill(0);
+    bands.forEach((band) => { row[band - 1] += 1; });
+    return row;
+  });
+  const agreement = counts.map((row) => (row.reduce((s, x) => s + x * x, 0) - raters) / (raters * (raters - 1)));
+  const observed = mean(agreement);
+  const proportions = Array.from({ length: bandCount }, (_, j) =>
+    counts.reduce((s, row) => s + row[j], 0) / (subjects * raters)
+  );
+  const expected = proportions.reduce((s, p) => s + p * p, 0);
+  if (expected >= 1) return observed >= 1 ? 1 : null;
+  return (observed - expected) / (1 - expected);
+}
+
+/** Landis & Koch bands for kappa */
+export function describeKappa(kappa: number | null): string {
+  if (kappa === null) return 'Not enough data';
+  if (kappa < 0) return 'Poor';
+  if (kappa <= 0.2) return 'Slight';
+  if (kappa <= 0.4) return 'Fair';
+  if (kappa <= 0.6) return 'Moderate';
+  if (kappa <= 0.8) return 'Substantial';
+  return 'Almost perfect';
+}
+
+/** Koo & Li bands for ICC */
+export function describeIcc(icc: number | null): string {
+  if (icc === null) return 'Not enough data';
+  if (icc < 0.5) return 'Poor';
+  if (icc < 0.75) return 'Moderate';
+  if (icc < 0.9) return 'Good';
+  return 'Excellent';
+}
+
+/** Band 1..bandCount for a total out of marksAvailable */
+export function toBand(total: number, marksAvailable: number, bandCount: number): number {
+  if (marksAvailable <= 0) return 1;
+  const band = Math.ceil((total / marksAvailable) * bandCount);
+  return Math.min(bandCount, Math.max(1, band));
+}
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+const aoCode = (name: string) => /^\s*(ao\s*\d+)\b/i.exec(name)?.[1].replace(/\s/g, '').toLowerCase() ?? null;
+
+/**
+ * The AI's points per session criterion, matched by name ("AO2" also matches "AO2 Analysis").
+ * Null unless every criterion was matched, since a partial total can't be compared.
+ */
+export function aiCriterionScores(mark: AiMark, criteria: CalibrationCriterion[]): CriterionScores | null {
+  const scores: CriterionScores = {};
+  criteria.forEach((criterion) => {
+    const match = mark.criteria_scores.find((c) => {
+      const name = c.criterion || '';
+      if (normaliseName(name) === normaliseName(criterion.name)) return true;
+      const code = aoCode(criterion.name);
+      return code !== null && code === aoCode(name);
+    });
+    if (match) scores[criterion.key] = Number(match.points) || 0;
+  });
+  return Object.keys(scores).length === criteria.length ? scores : null;
+}
+
+export type MarkerTendency = 'severe' | 'lenient' | 'consistent';
+
+export interface MarkerEssayDetail {
+  essayId: string;
+  essayTitle: string;
+  total: number;
+  band: number;
+  /** Moderated total, else the mean of the other markers */
+  reference: number | null;
+  difference: number | null;
+  leadTotal: number | null;
+  criterionDifference: Record<string, number>;
+}
+
+export interface MarkerReliability {
+  markerId: string;
+  marker: string;
+  isLead: boolean;
+  essaysMarked: number;
+  /** Mean of (marker - reference); negative = severe, positive = lenient */
+  bias: number | null;
+  meanAbsoluteError: number | null;
+  criterionBias: Record<string, number>;
+  tendency: MarkerTendency;
+  exactBandAgreementWithLead: number | null;
+  kappaWithLead: number | null;
+  weightedKappaWithLead: number | null;
+  details: MarkerEssayDetail[];
+}
+
+export interface AiAgreement {
+  essaysCompared: number;
+  /** Mean of (AI - human consensus) */
+  bias: number | null;
+  meanAbsoluteError: number | null;
+  exactBandAgreement: number | null;
+  kappa: number | null;
+  weightedKappa: number | null;
+  icc: number | null;
+  /** How many AI totals were scaled from the overall percentage because its criteria didn't match */
+  scaledFromPercentage: number;
+  rows: { essayId: string; essayTitle: string; aiTotal: number; humanTotal: number; difference: number }[];
+}
+
+export interface ReliabilityReport {
+  marksAvailable: number;
+  bandCount: number;
+  /** Essays and markers in the complete-case matrix used for ICC and Fleiss' kappa */
+  completeEssays: number;
+  completeMarkers: number;
+  icc: number | null;
+  fleiss: number | null;
+  markers: MarkerReliability[];
+  ai: AiAgreement;
+}
+
+interface ReliabilityInput {
+  criteria: CalibrationCriterion[];
+  essays: CalibrationEssay[];
+  members: CalibrationMember[];
+  marks: CalibrationMark[];
+  moderated: ModeratedMark[];
+  aiMarks: AiMark[];
+  leadId: string | null;
+  marksAvailable: number;
+  bandCount: number;
+}
+
+export function buildReliabilityReport(input: ReliabilityInput): ReliabilityReport {
+  const { criteria, essays, members, marks, moderated, aiMarks, leadId, marksAvailable, bandCount } = input;
+  const band = (total: number) => toBand(total, marksAvailable, bandCount);
+  const memberById = new Map(members.map((m) => [m.user_id, m]));
+  const essayIds = essays.map((e) => e.essay_id);
+  const titleById = new Map(essays.map((e) => [e.essay_id, e.title]));
+  const moderatedTotal = new Map(moderated.map((m) => [m.essay_id, scoreTotal(m.scores)]));
+  const moderatedScores = new Map(moderated.map((m) => [m.essay_id, m.scores]));
+
+  const markFor = new Map<string, CalibrationMark>();
+  marks.forEach((m) => markFor.set(`${m.essay_id}:${m.marker_id}`, m));
+  const markerIds = Array.from(new Set(marks.map((m) => m.marker_id)));
+
+  // Complete-case matrix: markers with at least two essays, essays every one of them marked
+  const raters = markerIds.filter((id) => marks.filter((m) => m.marker_id === id).length >= 2);
+  const completeEssayIds = essayIds.filter((essayId) => raters.every((id) => markFor.has(`${essayId}:${id}`)));
+  const matrix = completeEssayIds.map((essayId) => raters.map((id) => scoreTotal(markFor.get(`${essayId}:${id}`)!.scores)));
+  const icc = raters.length >= 2 ? icc21(matrix) : null;
+  const fleiss = raters.length >= 2 ? fleissKappa(matrix.map((row) => row.map(band)), bandCount) : null;
+
+  const markerRows = markerIds.map<MarkerReliability>((markerId) => {
+    const own = marks.filter((m) => m.marker_id === markerId && essayIds.includes(m.essay_id));
+    const details = own.map<MarkerEssayDetail>((mark) => {
+      const total = scoreTotal(mark.scores);
+      const others = marks.filter((m) => m.essay_id === mark.essay_id && m.marker_id !== markerId);
+      const referenceScores = moderatedScores.get(mark.essay_id);
+      const reference = moderatedTotal.get(mark.essay_id)
+        ?? (others.length ? mean(others.map((m) => scoreTotal(m.scores))) : null);
+      const criterionDifference: Record<string, number> = {};
+      criteria.forEach(({ key }) => {
+        const ref = referenceScores
+          ? Number(referenceScores[key]) || 0
+          : others.length ? mean(others.map((m) => Number(m.scores[key]) || 0)) : null;
+        if (ref !== null) criterionDifference[key] = (Number(mark.scores[key]) || 0) - ref;
+      });
+      const lead = leadId ? markFor.get(`${mark.essay_id}:${leadId}`) : undefined;
+      return {
+        essayId: mark.essay_id,
+        essayTitle: titleById.get(mark.essay_id) || 'Essay',
+        total,
+        band: band(total),
+        reference,
+        difference: reference === null ? null : total - reference,
+        leadTotal: lead ? scoreTotal(lead.scores) : null,
+        criterionDifference,
+      };
+    });
+
+    const differences = details.map((d) => d.difference).filter((d): d is number => d !== null);
+    const bias = differences.length ? mean(differences) : null;
+    const criterionBias: Record<string, number> = {};
+    criteria.forEach(({ key }) => {
+      const values = details.map((d) => d.criterionDifference[key]).filter((v): v is number => v !== undefined);
+      if (values.length) criterionBias[key] = mean(values);
+    });
+
+    // Treat anything within 5% of the marks available (at least one mark) as consistent
+    const tolerance = Math.max(1, marksAvailable * 0.05);
+    const tendency: MarkerTendency = bias === null || Math.abs(bias) < tolerance ? 'consistent' : bias < 0 ? 'severe' : 'lenient';
+
+    const withLead = markerId === leadId ? [] : details.filter((d) => d.leadTotal !== null);
+    const ownBands = withLead.map((d) => d.band);
+    const leadBands = withLead.map((d) => band(d.leadTotal!));
+
+    return {
+      markerId,
+      marker: memberLabel(memberById.get(markerId)),
+      isLead: markerId === leadId,
+      essaysMarked: own.length,
+      bias,
+      meanAbsoluteError: differences.length ? mean(differences.map(Math.abs)) : null,
+      criterionBias,
+      tendency,
+      exactBandAgreementWithLead: withLead.length ? ownBands.filter((b, i) => b === leadBands[i]).length / withLead.length : null,
+      kappaWithLead: cohensKappa(ownBands, leadBands, bandCount),
+      weightedKappaWithLead: cohensKappa(ownBands, leadBands, bandCount, true),
+      details,
+    };
+  });
+
+  // AI vs the human consensus (moderated mark, else the mean of the markers)
+  let scaledFromPercentage = 0;
+  const aiRows: AiAgreement['rows'] = [];
+  aiMarks.forEach((ai) => {
+    if (!essayIds.includes(ai.essay_id)) return;
+    const humanTotals = marks.filter((m) => m.essay_id === ai.essay_id).map((m) => scoreTotal(m.scores));
+    const humanTotal = moderatedTotal.get(ai.essay_id) ?? (humanTotals.length ? mean(humanTotals) : null);
+    if (humanTotal === null) return;
+
+    const aiScores = aiCriterionScores(ai, criteria);
+    let aiTotal: number;
+    if (aiScores) {
+      aiTotal = scoreTotal(aiScores);
+    } else if (ai.overall_score !== null && marksAvailable > 0) {
+      aiTotal = (ai.overall_score / 100) * marksAvailable;
+      scaledFromPercentage += 1;
+    } else {
+      return;
+    }
+    aiRows.push({
+      essayId: ai.essay_id,
+      essayTitle: titleById.get(ai.essay_id) || 'Essay',
+      aiTotal,
+      humanTotal,
+      difference: aiTotal - humanTotal,
+    });
+  });
+
+  const aiBands = aiRows.map((r) => band(r.aiTotal));
+  const humanBands = aiRows.map((r) => band(r.humanTotal));
+  const ai: AiAgreement = {
+    essaysCompared: aiRows.length,
+    bias: aiRows.length ? mean(aiRows.map((r) => r.difference)) : null,
+    meanAbsoluteError: aiRows.length ? mean(aiRows.map((r) => Math.abs(r.difference))) : null,
+    exactBandAgreement: aiRows.length ? aiBands.filter((b, i) => b === humanBands[i]).length / aiRows.length : null,
+    kappa: cohensKappa(aiBands, humanBands, bandCount),
+    weightedKappa: cohensKappa(aiBands, humanBands, bandCount, true),
+    icc: icc21(aiRows.map((r) => [r.aiTotal, r.humanTotal])),
+    scaledFromPercentage,
+    rows: aiRows,
+  };
+
+  return {
+    marksAvailable,
+    bandCount,
+    completeEssays: raters.length >= 2 ? completeEssayIds.length : 0,
+    completeMarkers: raters.length,
+    icc,
+    fleiss,
+    markers: markerRows.sort((a, b) => Number(b.isLead) - Number(a.isLead) || a.marker.localeCompare(b.marker)),
+    ai,
+  };
+}
+
+const round = (value: number | null, digits = 2) => (value === null ? null : Number(value.toFixed(digits)));
+
+/** One row per marker, plus session-wide and AI rows, for exportToCSV */
+export function reliabilityCsvRows(sessionName: string, criteria: CalibrationCriterion[], report: ReliabilityReport) {
+  const base = { Session: sessionName, 'Marks available': report.marksAvailable, Bands: report.bandCount };
+  return [
+    {
+      ...base,
+      Row: 'Session',
+      Marker: '',
+      Essays: report.completeEssays,
+      'ICC(2,1)': round(report.icc),
+      "Fleiss' kappa": round(report.fleiss),
+    },
+    ...report.markers.map((m) => ({
+      ...base,
+      Row: 'Marker',
+      Marker: m.marker + (m.isLead ? ' (lead)' : ''),
+      Essays: m.essaysMarked,
+      Bias: round(m.bias),
+      'Mean absolute error': round(m.meanAbsoluteError),
+      Tendency: m.tendency,
+      ...Object.fromEntries(criteria.map((c) => [`${c.name} bias`, round(m.criterionBias[c.key] ?? null)])),
+      'Compared with': m.isLead ? '' : 'Lead marker',
+      'Exact band agreement': round(m.exactBandAgreementWithLead),
+      "Cohen's kappa": round(m.kappaWithLead),
+      'Weighted kappa': round(m.weightedKappaWithLead),
+    })),
+    {
+      ...base,
+      Row: 'AI vs human',
+      Marker: 'AI',
+      Essays: report.ai.essaysCompared,
+      Bias: round(report.ai.bias),
+      'Mean absolute error': round(report.ai.meanAbsoluteError),
+      'ICC(2,1)': round(report.ai.icc),
+      'Compared with': 'Human consensus',
+      'Exact band agreement': round(report.ai.exactBandAgreement),
+      "Cohen's kappa": round(report.ai.kappa),
+      'Weighted kappa': round(report.ai.weightedKappa),
+    },
+  ];
+}
+
+export function reliabilityCsvHeaders(criteria: CalibrationCriterion[]): string[] {
+  return [
+    'Session', 'Row', 'Marker', 'Essays', 'Marks available', 'Bands', 'ICC(2,1)', "Fleiss' kappa", 'Bias',
+    'Mean absolute error', 'Tendency', ...criteria.map((c) => `${c.name} bias`),
+    'Compared with', 'Exact band agreement', "Cohen's kappa", 'Weighted kappa',
+  ];
+}
@@ -0,0 +1,274 @@
+/**
+ * Rubric packs: versioned JSON files of question-level mark schemes for one subject, each template
+ * with its criteria, level descriptors and indicative content. Built-in packs ship in
+ * src/data/rubricPacks; departments import their own (rubric_packs) and export rubrics as packs to share.
+ *
+ * File format (formatVersion 1):
+ *   { format: "simple-rubriq/rubric-pack", formatVersion: 1, id, version, name, subject, examBoard?,
+ *     publisher?, description?, templates: [{ id, name, questionType?, totalMarks, guidance?,
+ *     criteria: [{ category, maxPoints, description?, levels: [{ level, minMarks, maxMarks, descriptor }],
+ *     indicativeContent: [] }] }] }
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { workspaceFilter, type ShareTarget } from './workspaces';
+import type { MarkSchemeCriterion } from './markSchemeParser';
+import historyPack from '../data/rubricPacks/history.json';
+import geographyPack from '../data/rubricPacks/geography.json';
+import religiousStudiesPack from '../data/rubricPacks/religious-studies.json';
+import sciencePack from '../data/rubricPacks/science.json';
+
+export const RUBRIC_PACK_FORMAT = 'simple-rubriq/rubric-pack';
+export const RUBRIC_PACK_FORMAT_VERSION = 1;
+
+export interface RubricPackTemplate {
+  id: string;
+  name: string;
+  questionType?: string;
+  totalMarks: number;
+  guidance?: string;
+  criteria: MarkSchemeCriterion[];
+}
+
+export interface RubricPack {
+  format: typeof RUBRIC_PACK_FORMAT;
+  formatVersion: number;
+  id: string; // Stable across versions, e.g. "gcse-history"
+  version: string; // e.g. "1.2.0"
+  name: string;
+  subject: string;
+  examBoard?: string | null;
+  publisher?: string;
+  description?: string;
+  templates: RubricPackTemplate[];
+}
+
+/**
+ * A pack imported into the library, owned by a teacher and optionally shared with their school or department
+ */
+export interface SavedRubricPack extends ShareTarget {
+  id: string;
+  teacher_id: string;
+  pack: RubricPack;
+  created_at: string;
+}
+
+export const rubricPacksKey = (userId: string | undefined, workspaceId: string | null) => ['rubric-packs', userId, workspaceId];
+
+const PACK_COLUMNS = 'id, teacher_id, organisation_id, department_id, pack, created_at';
+const ID_RE = /^[a-z0-9][a-z0-9-]*$/;
+const VERSION_RE = /^\d+(?:\.\d+){0,2}$/;
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isWholeNumber = (value: unknown, min: number): value is number => Number.isInteger(value) && (value as number) >= min;
+
+export const slugify = (text: string) =>
+  text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'pack';
+
+/**
+ * Compare "1.2" and "1.10.0" numerically, part by part
+ */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map(Number);
+  const pb = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function criterionProblems(criterion: unknown, where: string): string[] {
+  if (!isObject(criterion)) return [`${where} is not an object`];
+  const problems: string[] = [];
+  if (!isText(criterion.category)) problems.push(`${where} needs a category`);
+  if (!isWholeNumber(criterion.maxPoints, 1)) problems.push(`${where} needs maxPoints as a whole number above 0`);
+  if (criterion.description !== undefined && typeof criterion.description !== 'string') problems.push(`${where} description must be text`);
+  if (!Array.isArray(criterion.levels)) {
+    problems.push(`${where} needs a levels list (it may be empty)`);
+  } else {
+    criterion.levels.forEach((band: unknown, i: number) => {
+      const at = `${where}, level ${i + 1}`;
+      if (!isObject(band)) {
+        problems.push(`${at} is not an object`);
+        return;
+      }
+      if (!isWholeNumber(band.level, 0)) problems.push(`${at} needs a level number`);
+      if (!isWholeNumber(band.minMarks, 0) || !isWholeNumber(band.maxMarks, 0) || band.minMarks > band.maxMarks) {
+        problems.push(`${at} needs minMarks no higher than maxMarks`);
+      } else if (isWholeNumber(criterion.maxPoints, 1) && band.maxMarks > criterion.maxPoints) {
+        problems.push(`${at} goes above the criterion's ${criterion.maxPoints} marks`);
+      }
+      if (!isText(band.descriptor)) problems.push(`${at} needs a descriptor`);
+    });
+  }
+  if (!Array.isArray(criterion.indicativeContent) || criterion.indicativeContent.some((c: unknown) => typeof c !== 'string')) {
+    problems.push(`${where} needs indicativeContent as a list of text (it may be empty)`);
+  }
+  return problems;
+}
+
+/**
+ * Everything wrong with a pack, or an empty list if it can be used
+ */
+export function validateRubricPack(value: unknown): string[] {
+  if (!isObject(value)) return ['The file is not a rubric pack'];
+  if (value.format !== RUBRIC_PACK_FORMAT) return [`The file is not a rubric pack (format should be "${RUBRIC_PACK_FORMAT}")`];
+  if (!isWholeNumber(value.formatVersion, 1)) return ['The pack has no formatVersion'];
+  if (value.formatVersion > RUBRIC_PACK_FORMAT_VERSION) {
+    return [`The pack uses format version ${value.formatVersion}; this app reads up to version ${RUBRIC_PACK_FORMAT_VERSION}`];
+  }
+
+  const problems: string[] = [];
+  if (!isText(value.id) || !ID_RE.test(value.id)) problems.push('The pack id must be lowercase letters, numbers and hyphens');
+  if (!isText(value.version) || !VERSION_RE.test(value.version)) problems.push('The pack version must look like 1.0.0');
+  if (!isText(value.name)) problems.push('The pack needs a name');
+  if (!isText(value.subject)) problems.push('The pack needs a subject');
+  if (value.examBoard !== undefined && value.examBoard !== null && typeof value.examBoard !== 'string') problems.push('examBoard must be text');
+  if (!Array.isArray(value.templates) || value.templates.length === 0) {
+    problems.push('The pack has no templates');
+    return problems;
+  }
+
+  const ids = new Set<string>();
+  value.templates.forEach((template: unknown, t: number) => {
+    const where = `Template ${t + 1}`;
+    if (!isObject(template)) {
+      problems.push(`${where} is not an object`);
+      return;
+    }
+    if (!isText(template.id) || !ID_RE.test(template.id)) problems.push(`${where} needs an id of lowercase letters, numbers and hyphens`);
+    else if (ids.has(template.id)) problems.push(`${where} repeats the id "${template.id}"`);
+    else ids.add(template.id);
+    if (!isText(template.name)) problems.push(`${where} needs a name`);
+    if (!Array.isArray(template.criteria) || template.criteria.length === 0) {
+      problems.push(`${where} has no criteria`);
+      return;
+    }
+    template.criteria.forEach((criterion: unknown, c: number) => problems.push(...criterionProblems(criterion, `${where}, criterion ${c + 1}`)));
+    const total = template.criteria.reduce((sum: number, c: any) => sum + (Number(c?.maxPoints) || 0), 0);
+    if (!isWholeNumber(template.totalMarks, 1)) problems.push(`${where} needs totalMarks`);
+    else if (template.totalMarks !== total) problems.push(`${where} totals ${template.totalMarks} marks but its criteria add up to ${total}`);
+  });
+  return problems;
+}
+
+/**
+ * A checked pack from parsed JSON. Throws with the first few problems if it isn't valid.
+ */
+export function parseRubricPack(value: unknown): RubricPack {
+  const problems = validateRubricPack(value);
+  if (problems.length > 0) {
+    const more = problems.length > 3 ? ` (and ${problems.length - 3} more)` : '';
+    throw new Error(`${problems.slice(0, 3).join('; ')}${more}`);
+  }
+  return value as RubricPack;
+}
+
+export async function readRubricPackFile(file: File): Promise<RubricPack> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  return parseRubricPack(json);
+}
+
+export const BUILT_IN_PACKS: RubricPack[] = [historyPack, geographyPack, religiousStudiesPack, sciencePack].map(parseRubricPack);
+
+/**
+ * Stored in rubrics.template_id so a rubric records the pack version it came from
+ */
+export const templateRef = (pack: Pick<RubricPack, 'id' | 'version'>, template: Pick<RubricPackTemplate, 'id'>) =>
+  `${pack.id}/${template.id}@${pack.version}`;
+
+/**
+ * A pack of the given rubrics, one template each, for a department to publish
+ */
+export function packFromRubrics(
+  meta: Pick<RubricPack, 'name' | 'subject' | 'version'> & Partial<Pick<RubricPack, 'id' | 'publisher' | 'description' | 'examBoard'>>,
+  rubrics: Array<{ name: string; criteria: any }>
+): RubricPack {
+  const usedIds = new Set<string>();
+  const templates = rubrics.map((rubric): RubricPackTemplate => {
+    const base = slugify(rubric.name.replace(/\(v\d+\)$/, ''));
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) id = `${base}-${n}`;
+    usedIds.add(id);
+    const criteria: MarkSchemeCriterion[] = (Array.isArray(rubric.criteria) ? rubric.criteria : []).map((c: any) => ({
+      category: String(c.category || '').trim(),
+      maxPoints: Number(c.maxPoints) || 0,
+      ...(c.description ? { description: c.description } : {}),
+      levels: Array.isArray(c.levels) ? c.levels : [],
+      indicativeContent: Array.isArray(c.indicativeContent) ? c.indicativeContent : [],
+    }));
+    return { id, name: rubric.name, totalMarks: criteria.reduce((sum, c) => sum + c.maxPoints, 0), criteria };
+  });
+  return parseRubricPack({
+    format: RUBRIC_PACK_FORMAT,
+    formatVersion: RUBRIC_PACK_FORMAT_VERSION,
+    id: meta.id || slugify(meta.name),
+    version: meta.version,
+    name: meta.name.trim(),
+    subject: meta.subject.trim(),
+    examBoard: meta.examBoard ?? null,
+    ...(meta.publisher ? { publisher: meta.publisher } : {}),
+    ...(meta.description ? { description: meta.description } : {}),
+    templates,
+  });
+}
+
+export function downloadRubricPack(pack: RubricPack): void {
+  const blob = new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${pack.id}-${pack.version}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Imported packs: your own, plus those shared with the active workspace
+ */
+export async function loadSavedPacks(userId: string, workspaceId: string | null): Promise<SavedRubricPack[]> {
+  const { data, error } = await supabase
+    .from('rubric_packs')
+    .select(PACK_COLUMNS)
+    .or(workspaceFilter(userId, workspaceId))
+    .order('name')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as SavedRubricPack[];
+}
+
+export async function saveRubricPack(teacherId: string, pack: RubricPack, share: ShareTarget): Promise<SavedRubricPack> {
+  const { data, error } = await supabase
+    .from('rubric_packs')
+    .insert([{
+      teacher_id: teacherId,
+      pack_id: pack.id,
+      version: pack.version,
+      name: pack.name,
+      subject: pack.subject,
+      pack,
+      organisation_id: share.organisation_id,
+      department_id: share.department_id,
+    }])
+    .select(PACK_COLUMNS)
+    .single();
+  if (error) {
+    if (error.code === '23505') throw new Error(`Version ${pack.version} of "${pack.name}" is already in your library`);
+    throw error;
+  }
+  return data as SavedRubricPack;
+}
+
+export async function deleteRubricPack(id: string): Promise<void> {
+  const { error } = await supabase.from('rubric_packs').delete().eq('id', id);
+  if (error) throw error;
+}
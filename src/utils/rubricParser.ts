@@ -1,8 +1,10 @@
 import mammoth from 'mammoth';
 import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import type { RubricSource } from './markSchemeParser';
 
-// Set worker source for PDF.js
-pdfjsLib.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjsLib.version}/pdf.worker.min.js`;
+// Bundled PDF.js worker (see essayParser.ts)
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
 
 /**
  * Parse rubric content from various file formats
@@ -22,36 +24,155 @@ async function parseTextFile(file: File): Promise<string> {
 }
 
 /**
- * Extract text from .docx file using mammoth
+ * Extract text and tables from .docx file using mammoth.
+ * Tables come from the HTML conversion; merged cells keep their text in the first column they span.
  */
-async function parseDocxFile(file: File): Promise<string> {
+async function parseDocxFile(file: File): Promise<RubricSource> {
   const arrayBuffer = await file.arrayBuffer();
-  const result = await mammoth.extractRawText({ arrayBuffer });
-  return result.value;
+  const [raw, html] = await Promise.all([
+    mammoth.extractRawText({ arrayBuffer }),
+    mammoth.convertToHtml({ arrayBuffer }),
+  ]);
+
+  const doc = new DOMParser().parseFromString(html.value, 'text/html');
+  const tables = Array.from(doc.querySelectorAll('table')).map((table) =>
+    Array.from(table.rows).map((row) =>
+      Array.from(row.cells).flatMap((cell) => {
+        const text = (cell.textContent || '').replace(/\s+/g, ' ').trim();
+        const span = Math.max(1, cell.colSpan || 1);
+        return [text, ...Array(span - 1).fill('')];
+      })
+    )
+  );
+
+  return { text: raw.value, tables };
+}
+
+interface PdfChunk {
+  x: number;
+  text: string;
+}
+
+interface PdfLine {
+  y: number;
+  chunks: PdfChunk[];
+}
+
+// Horizontal gap (in PDF units) between text runs that starts a new table cell
+const PDF_COLUMN_GAP = 12;
+// Vertical gap that ends a table
+const PDF_TABLE_BREAK = 30;
+
+/**
+ * Group PDF.js text items into lines (by baseline) and each line into cells (by horizontal gaps)
+ */
+function toPdfLines(items: any[]): PdfLine[] {
+  const rows: Array<{ y: number; items: Array<{ x: number; end: number; str: string }> }> = [];
+  for (const item of items) {
+    if (typeof item?.str !== 'string' || !item.str.trim()) continue;
+    const x = item.transform[4];
+    const y = item.transform[5];
+    let row = rows.find((r) => Math.abs(r.y - y) <= 2);
+    if (!row) {
+      row = { y, items: [] };
+      rows.push(row);
+    }
+    row.items.push({ x, end: x + (item.width || 0), str: item.str });
+  }
+
+  return rows
+    .sort((a, b) => b.y - a.y)
+    .map((row) => {
+      const chunks: PdfChunk[] = [];
+      let lastEnd = -Infinity;
+      for (const item of row.items.sort((a, b) => a.x - b.x)) {
+        const last = chunks[chunks.length - 1];
+        if (last && item.x - lastEnd <= PDF_COLUMN_GAP) {
+          last.text += (item.x - lastEnd > 1 && !last.text.endsWith(' ') ? ' ' : '') + item.str;
+        } else {
+          chunks.push({ x: item.x, text: item.str });
+        }
+        lastEnd = Math.max(lastEnd, item.end);
+      }
+      return { y: row.y, chunks: chunks.map((c) => ({ ...c, text: c.text.trim() })) };
+    });
+}
+
+/**
+ * Rebuild grids from aligned PDF text. A block starts at a line with two or more cells (the header sets the
+ * columns); a line with text in the first column and another column starts a row, anything else wraps
+ * into the row above.
+ */
+function toPdfTables(lines: PdfLine[]): string[][][] {
+  const tables: string[][][] = [];
+  let columns: number[] = [];
+  let rows: string[][] = [];
+  let lastY = 0;
+
+  const flush = () => {
+    if (rows.length >= 2 && columns.length >= 2) tables.push(rows);
+    columns = [];
+    rows = [];
+  };
+
+  for (const line of lines) {
+    if (rows.length > 0 && lastY - line.y > PDF_TABLE_BREAK) flush();
+    lastY = line.y;
+
+    if (rows.length === 0) {
+      if (line.chunks.length >= 2) {
+        columns = line.chunks.map((c) => c.x);
+        rows = [line.chunks.map((c) => c.text)];
+      }
+      continue;
+    }
+
+    const cells: string[] = Array(columns.length).fill('');
+    for (const chunk of line.chunks) {
+      let col = 0;
+      columns.forEach((x, idx) => {
+        if (chunk.x + 4 >= x) col = idx;
+      });
+      cells[col] = cells[col] ? `${cells[col]} ${chunk.text}` : chunk.text;
+    }
+
+    const filled = cells.filter((c) => c).length;
+    if (cells[0] && filled >= 2) {
+      rows.push(cells);
+    } else {
+      const previous = rows[rows.length - 1];
+      cells.forEach((text, idx) => {
+        if (text) previous[idx] = previous[idx] ? `${previous[idx]} ${text}` : text;
+      });
+    }
+  }
+  flush();
+
+  return tables;
 }
 
 /**
- * Extract text from .pdf file using PDF.js
+ * Extract text and tables from .pdf file using PDF.js
  */
-async function parsePdfFile(file: File): Promise<string> {
+async function parsePdfFile(file: File): Promise<RubricSource> {
   try {
     const arrayBuffer = await file.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
     
-    let fullText = '';
+    const lines: string[] = [];
+    const tables: string[][][] = [];
     
-    // Extract text from each page
+    // Extract text from each page; tables don't continue across pages
     for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
       const page = await pdf.getPage(pageNum);
       const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ');
+      const pageLines = toPdfLines(textContent.items as any[]);
       
-      fullText += pageText + '\n';
+      lines.push(...pageLines.map((line) => line.chunks.map((c) => c.text).join('\t')));
+      tables.push(...toPdfTables(pageLines));
     }
     
-    return fullText.trim();
+    return { text: lines.join('\n').trim(), tables };
   } catch (error) {
     console.error('PDF parsing error:', error);
     throw new Error('Failed to parse PDF file. The file may be corrupted or encrypted.');
@@ -59,14 +180,14 @@ async function parsePdfFile(file: File): Promise<string> {
 }
 
 /**
- * Main parser - detects file type and extracts text
+ * Extract text and any tables from a rubric or mark scheme file
  */
-export async function parseRubricFile(file: File): Promise<string> {
+export async function extractRubricSource(file: File): Promise<RubricSource> {
   const ext = file.name.split('.').pop()?.toLowerCase();
   
   switch (ext) {
     case 'txt':
-      return await parseTextFile(file);
+      return { text: await parseTextFile(file), tables: [] };
     case 'docx':
       return await parseDocxFile(file);
     case 'pdf':
@@ -76,6 +197,13 @@ export async function parseRubricFile(file: File): Promise<string> {
   }
 }
 
+/**
+ * Main parser - detects file type and extracts text
+ */
+export async function parseRubricFile(file: File): Promise<string> {
+  return (await extractRubricSource(file)).text;
+}
+
 /**
  * Parse rubric text into structured criteria
  * Supports multiple formats:
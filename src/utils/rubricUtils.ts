@@ -1,3 +1,5 @@
+import type { CriterionScore } from './openaiClient';
+
 export interface RubricCriterion {
   id: string;
   name: string;
@@ -10,6 +12,53 @@ export interface RubricScore {
   feedback: string;
 }
 
+/**
+ * Flatten stored rubric criteria (jsonb: { category, maxPoints } objects, plain strings, or text)
+ * into the one-criterion-per-line string the marking endpoints expect.
+ */
+export function formatRubricCriteria(criteria: unknown): string {
+  if (typeof criteria === 'string') return criteria;
+  if (!Array.isArray(criteria)) return JSON.stringify(criteria ?? []);
+  return criteria
+    .map((c: any) => {
+      if (typeof c === 'string') return c;
+      const heading = `${c?.category || c?.name || 'Criterion'} (${c?.maxPoints ?? '?'} points)`;
+      // Level-of-response criteria: one indented line per level, lowest first
+      const levels = Array.isArray(c?.levels)
+        ? c.levels.map((l: any) =>
+            `  Level ${l?.level} (${l?.minMarks}-${l?.maxMarks} marks): ${String(l?.descriptor || '').replace(/\s*\n\s*/g, '; ')}`)
+        : [];
+      return [heading, ...levels].join('\n');
+    })
+    .join('\n');
+}
+
+const formatPoints = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(1));
+
+/**
+ * "7/10" for a criterion score.
+ */
+export function formatCriterionPoints({ points, max_points }: Pick<CriterionScore, 'points' | 'max_points'>): string {
+  return `${formatPoints(points)}/${formatPoints(max_points)}`;
+}
+
+/**
+ * "AO2: 7/10" label for a criterion score.
+ */
+export function formatCriterionScore(score: CriterionScore): string {
+  return `${score.criterion}: ${formatCriterionPoints(score)}`;
+}
+
+/**
+ * Read feedback.criteria_scores (jsonb) defensively; rows saved before the column existed come back empty.
+ */
+export function toCriterionScores(value: unknown): CriterionScore[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((c: any) => c && typeof c.criterion === 'string' && Number(c.max_points) > 0)
+    .map((c: any) => ({ criterion: c.criterion, points: Number(c.points) || 0, max_points: Number(c.max_points) }));
+}
+
 export const gcseEnglishRubric: RubricCriterion[] = [
   {
     id: "AO1",
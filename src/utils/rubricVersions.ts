@@ -0,0 +1,153 @@
+/**
+ * Immutable rubric versions.
+ * Every saved change to a rubric's name, subject, exam board or criteria is snapshotted by a database
+ * trigger as the next version, and feedback pins the version it was marked against (rubric_version_id),
+ * so the client only reads versions and compares them.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import type { MarkBand, MarkSchemeCriterion } from './markSchemeParser';
+import { diffLists, diffWords, type DiffPart } from './textDiff';
+
+export interface RubricVersion {
+  id: string;
+  rubric_id: string | null; // Null once the rubric has been deleted
+  version: number;
+  name: string;
+  subject: string | null;
+  exam_board: string | null;
+  criteria: MarkSchemeCriterion[];
+  created_by: string | null;
+  created_at: string;
+}
+
+export type CriterionFieldChange =
+  | { field: 'maxPoints'; before: number; after: number }
+  | { field: 'description'; parts: DiffPart[] }
+  | { field: 'level'; level: number; before: MarkBand | null; after: MarkBand | null; parts: DiffPart[] }
+  | { field: 'indicativeContent'; added: string[]; removed: string[] };
+
+export type CriterionChange =
+  | { kind: 'added'; category: string; after: MarkSchemeCriterion }
+  | { kind: 'removed'; category: string; before: MarkSchemeCriterion }
+  | { kind: 'changed'; category: string; changes: CriterionFieldChange[] };
+
+export interface RubricVersionDiff {
+  details: Array<{ field: 'name' | 'subject' | 'exam_board'; before: string; after: string }>;
+  totalMarks: { before: number; after: number };
+  criteria: CriterionChange[];
+}
+
+export const RUBRIC_VERSIONS_KEY = ['rubric-versions'];
+export const rubricVersionsKey = (rubricId: string | null | undefined) => [...RUBRIC_VERSIONS_KEY, rubricId];
+export const rubricVersionKey = (versionId: string | null | undefined) => [...RUBRIC_VERSIONS_KEY, 'version', versionId];
+
+export const RUBRIC_DETAIL_LABELS: Record<RubricVersionDiff['details'][number]['field'], string> = {
+  name: 'Name',
+  subject: 'Subject',
+  exam_board: 'Exam board',
+};
+
+const VERSION_COLUMNS = 'id, rubric_id, version, name, subject, exam_board, criteria, created_by, created_at';
+
+const toCriteria = (value: unknown): MarkSchemeCriterion[] =>
+  (Array.isArray(value) ? value : []).map((c: any) => ({
+    category: String(c?.category || '').trim(),
+    maxPoints: Number(c?.maxPoints) || 0,
+    ...(c?.description ? { description: String(c.description) } : {}),
+    levels: Array.isArray(c?.levels) ? c.levels : [],
+    indicativeContent: Array.isArray(c?.indicativeContent) ? c.indicativeContent.filter((i: unknown) => typeof i === 'string') : [],
+  }));
+
+const toVersion = (row: any): RubricVersion => ({ ...row, criteria: toCriteria(row.criteria) });
+
+export const totalMarks = (criteria: MarkSchemeCriterion[]) => criteria.reduce((sum, c) => sum + c.maxPoints, 0);
+
+export const describeVersion = (version: Pick<RubricVersion, 'name' | 'version'>) => `${version.name} v${version.version}`;
+
+/**
+ * All versions of one rubric, newest first
+ */
+export async function loadRubricVersions(rubricId: string): Promise<RubricVersion[]> {
+  const { data, error } = await supabase
+    .from('rubric_versions')
+    .select(VERSION_COLUMNS)
+    .eq('rubric_id', rubricId)
+    .order('version', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(toVersion);
+}
+
+export async function loadRubricVersion(versionId: string): Promise<RubricVersion | null> {
+  const { data, error } = await supabase
+    .from('rubric_versions')
+    .select(VERSION_COLUMNS)
+    .eq('id', versionId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toVersion(data) : null;
+}
+
+const criterionKey = (category: string) => category.trim().toLowerCase().replace(/\s+/g, ' ');
+const bandRange = (band: MarkBand) => (band.minMarks === band.maxMarks ? `${band.maxMarks}` : `${band.minMarks}–${band.maxMarks}`);
+
+function diffLevels(before: MarkBand[], after: MarkBand[]): CriterionFieldChange[] {
+  const previous = new Map(before.map(b => [b.level, b]));
+  const next = new Map(after.map(b => [b.level, b]));
+  const levels = Array.from(new Set([...previous.keys(), ...next.keys()])).sort((a, b) => b - a);
+  return levels.flatMap((level): CriterionFieldChange[] => {
+    const was = previous.get(level) ?? null;
+    const now = next.get(level) ?? null;
+    if (was && now && bandRange(was) === bandRange(now) && was.descriptor === now.descriptor) return [];
+    return [{ field: 'level', level, before: was, after: now, parts: diffWords(was?.descriptor || '', now?.descriptor || '') }];
+  });
+}
+
+function diffCriterion(before: MarkSchemeCriterion, after: MarkSchemeCriterion): CriterionFieldChange[] {
+  const changes: CriterionFieldChange[] = [];
+  if (before.maxPoints !== after.maxPoints) changes.push({ field: 'maxPoints', before: before.maxPoints, after: after.maxPoints });
+  if ((before.description || '') !== (after.description || '')) {
+    changes.push({ field: 'description', parts: diffWords(before.description || '', after.description || '') });
+  }
+  changes.push(...diffLevels(before.levels, after.levels));
+  const { added, removed } = diffLists(before.indicativeContent, after.indicativeContent);
+  if (added.length > 0 || removed.length > 0) changes.push({ field: 'indicativeContent', added, removed });
+  return changes;
+}
+
+/**
+ * What changed from one version to another. Criteria are matched by name, in the newer version's order,
+ * with removed criteria last; a renamed criterion shows as one removed and one added.
+ */
+export function diffRubricVersions(before: RubricVersion, after: RubricVersion): RubricVersionDiff {
+  const details = (['name', 'subject', 'exam_board'] as const)
+    .filter(field => (before[field] || '') !== (after[field] || ''))
+    .map(field => ({ field, before: before[field] || '', after: after[field] || '' }));
+
+  const previous = new Map(before.criteria.map(c => [criterionKey(c.category), c]));
+  const nextKeys = new Set(after.criteria.map(c => criterionKey(c.category)));
+  const criteria: CriterionChange[] = [];
+  for (const criterion of after.criteria) {
+    const was = previous.get(criterionKey(criterion.category));
+    if (!was) {
+      criteria.push({ kind: 'added', category: criterion.category, after: criterion });
+      continue;
+    }
+    const changes = diffCriterion(was, criterion);
+    if (changes.length > 0) criteria.push({ kind: 'changed', category: criterion.category, changes });
+  }
+  for (const criterion of before.criteria) {
+    if (!nextKeys.has(criterionKey(criterion.category))) criteria.push({ kind: 'removed', category: criterion.category, before: criterion });
+  }
+
+  return {
+    details,
+    totalMarks: { before: totalMarks(before.criteria), after: totalMarks(after.criteria) },
+    criteria,
+  };
+}
+
+export const isEmptyDiff = (diff: RubricVersionDiff) =>
+  diff.details.length === 0 && diff.criteria.length === 0 && diff.totalMarks.before === diff.totalMarks.after;
+
+export const describeBand = (band: MarkBand) => `Level ${band.level} (${bandRange(band)} marks)`;
@@ -0,0 +1,176 @@
+/**
+ * Safeguarding flags (client side).
+ * Essays are screened by /api/safeguarding (or the batch worker); flags, case notes and the lead's
+ * queue are read from Supabase, where RLS limits them to the referring teacher and their nominated lead.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { authHeaders } from './openaiClient';
+
+export type SafeguardingCategory =
+  | 'self_harm'
+  | 'suicidal_ideation'
+  | 'physical_abuse'
+  | 'sexual_abuse'
+  | 'emotional_abuse'
+  | 'neglect'
+  | 'domestic_abuse'
+  | 'radicalisation'
+  | 'violence'
+  | 'exploitation'
+  | 'substance_misuse'
+  | 'bullying'
+  | 'other';
+
+export type SafeguardingSeverity = 'low' | 'medium' | 'high';
+export type SafeguardingStatus = 'open' | 'acknowledged' | 'resolved';
+
+export interface SafeguardingFlag {
+  id: string;
+  essay_id: string | null;
+  category: SafeguardingCategory;
+  severity: SafeguardingSeverity;
+  excerpt: string;
+  rationale: string | null;
+  status: SafeguardingStatus;
+  outcome: string | null;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+/** A flag in the lead's queue, with the context the lead can't read through RLS */
+export interface SafeguardingQueueEntry extends SafeguardingFlag {
+  essay_title: string | null;
+  student_name: string | null;
+  teacher_id: string;
+  teacher_name: string | null;
+  teacher_email: string | null;
+  note_count: number;
+}
+
+export interface SafeguardingCaseNote {
+  id: string;
+  kind: 'note' | 'status';
+  body: string;
+  author_name: string | null;
+  created_at: string;
+}
+
+export interface SafeguardingLead {
+  lead_id: string;
+  email: string | null;
+  full_name: string | null;
+  nominated_at: string;
+}
+
+export interface EssaySafeguarding {
+  screenedAt: string | null;
+  flags: SafeguardingFlag[];
+}
+
+export const SAFEGUARDING_CATEGORY_LABELS: Record<SafeguardingCategory, string> = {
+  self_harm: 'Self-harm',
+  suicidal_ideation: 'Suicidal thoughts',
+  physical_abuse: 'Physical abuse',
+  sexual_abuse: 'Sexual abuse',
+  emotional_abuse: 'Emotional abuse',
+  neglect: 'Neglect',
+  domestic_abuse: 'Domestic abuse',
+  radicalisation: 'Radicalisation',
+  violence: 'Serious violence',
+  exploitation: 'Exploitation',
+  substance_misuse: 'Substance misuse',
+  bullying: 'Bullying',
+  other: 'Other concern',
+};
+
+export const SEVERITY_STYLES: Record<SafeguardingSeverity, string> = {
+  high: 'bg-red-100 text-red-800 border-red-200',
+  medium: 'bg-amber-100 text-amber-800 border-amber-200',
+  low: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+const FLAG_COLUMNS =
+  'id, essay_id, category, severity, excerpt, rationale, status, outcome, acknowledged_at, resolved_at, created_at';
+
+/**
+ * Run the classifier on a saved essay. Safe to call more than once; returns how many concerns were raised.
+ */
+export async function screenEssay(essayId: string): Promise<number> {
+  const response = await fetch('/api/safeguarding', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ essayId }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || `Safeguarding check failed (${response.status})`);
+  }
+  return data?.flags ?? 0;
+}
+
+export async function loadEssaySafeguarding(essayId: string): Promise<EssaySafeguarding> {
+  const [essay, flags] = await Promise.all([
+    supabase.from('essays').select('safeguarding_screened_at').eq('id', essayId).maybeSingle(),
+    supabase.from('safeguarding_flags').select(FLAG_COLUMNS).eq('essay_id', essayId).order('created_at'),
+  ]);
+  if (essay.error) throw essay.error;
+  if (flags.error) throw flags.error;
+  return {
+    screenedAt: essay.data?.safeguarding_screened_at ?? null,
+    flags: (flags.data || []) as SafeguardingFlag[],
+  };
+}
+
+export async function loadSafeguardingQueue(): Promise<SafeguardingQueueEntry[]> {
+  const { data, error } = await supabase.rpc('safeguarding_queue');
+  if (error) throw error;
+  return ((data || []) as any[]).map((row) => ({ ...row, note_count: Number(row.note_count) || 0 }));
+}
+
+/** Also reopens a resolved flag: flags go back to acknowledged, never to open */
+export async function acknowledgeFlag(flagId: string): Promise<void> {
+  const { error } = await supabase.from('safeguarding_flags').update({ status: 'acknowledged' }).eq('id', flagId);
+  if (error) throw error;
+}
+
+export async function resolveFlag(flagId: string, outcome: string): Promise<void> {
+  const { error } = await supabase
+    .from('safeguarding_flags')
+    .update({ status: 'resolved', outcome: outcome.trim() })
+    .eq('id', flagId);
+  if (error) throw error;
+}
+
+export async function loadCaseNotes(flagId: string): Promise<SafeguardingCaseNote[]> {
+  const { data, error } = await supabase.rpc('safeguarding_case_notes_for', { p_flag_id: flagId });
+  if (error) throw error;
+  return (data || []) as SafeguardingCaseNote[];
+}
+
+export async function addCaseNote(flagId: string, authorId: string, body: string): Promise<void> {
+  const { error } = await supabase
+    .from('safeguarding_case_notes')
+    .insert([{ flag_id: flagId, author_id: authorId, kind: 'note', body: body.trim() }]);
+  if (error) throw error;
+}
+
+export async function loadFlaggedEssay(flagId: string): Promise<{ title: string; content: string; created_at: string } | null> {
+  const { data, error } = await supabase.rpc('safeguarding_essay', { p_flag_id: flagId });
+  if (error) throw error;
+  return (data || [])[0] ?? null;
+}
+
+export async function getSafeguardingLead(): Promise<SafeguardingLead | null> {
+  const { data, error } = await supabase.rpc('get_safeguarding_lead');
+  if (error) throw error;
+  return (data || [])[0] ?? null;
+}
+
+/** Nominate the lead by email, or pass an empty string to remove the nomination */
+export async function setSafeguardingLead(email: string): Promise<SafeguardingLead | null> {
+  const { data, error } = await supabase.rpc('set_safeguarding_lead', { p_email: email.trim() || null });
+  if (error) throw error;
+  return (data || [])[0] ?? null;
+}
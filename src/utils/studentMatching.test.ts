@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { isConfidentMatch, nameSimilarity, suggestStudents, type MatchableStudent, type StudentMatch } from './studentMatching';
+
+const STUDENTS: MatchableStudent[] = [
+  { id: 's1', name: 'John Smith', student_id: 'C1234' },
+  { id: 's2', name: 'Jane Smith', student_id: null },
+  { id: 's3', name: 'Amir Khan', student_id: 'C5678' },
+];
+
+const ESSAY = 'Macbeth is presented as a tragic hero whose ambition destroys him.';
+
+describe('nameSimilarity', () => {
+  it('matches names in any order, with accents, joined words and initials', () => {
+    expect(nameSimilarity('John Smith', 'Smith John')).toBe(1);
+    expect(nameSimilarity('Zoë Brown', 'zoe brown')).toBe(1);
+    expect(nameSimilarity('John Smith', 'JohnSmith')).toBe(1);
+    expect(nameSimilarity('John Smith', 'J Smith')).toBeCloseTo(0.9);
+  });
+
+  it('scores a first name alone or a misspelling below an exact match', () => {
+    expect(nameSimilarity('John Smith', 'John')).toBeLessThan(0.85);
+    expect(nameSimilarity('John Smith', 'Jon Smith')).toBeLessThan(1);
+    expect(nameSimilarity('John Smith', 'Jon Smith')).toBeGreaterThan(0.8);
+    expect(nameSimilarity('John Smith', '')).toBe(0);
+  });
+});
+
+describe('suggestStudents', () => {
+  it('suggests from the filename, ignoring words like essay and draft', () => {
+    const [best, next] = suggestStudents({ filename: 'john_smith_essay_draft.docx', content: ESSAY }, STUDENTS);
+    expect(best).toMatchObject({ studentId: 's1', confidence: 90, sources: ['filename'] });
+    expect(next.studentId).toBe('s2');
+    expect(next.confidence).toBeLessThan(best.confidence);
+  });
+
+  it('prefers a labelled name at the top of the essay', () => {
+    const [best] = suggestStudents({ filename: 'scan 3.pdf', content: `Name: Amir Khan\n${ESSAY}` }, STUDENTS);
+    expect(best).toMatchObject({ studentId: 's3', confidence: 95, sources: ['header_name'], evidence: 'Name: Amir Khan' });
+  });
+
+  it('uses a short opening line as a possible name', () => {
+    const [best] = suggestStudents({ filename: 'upload.txt', content: `Jane Smith\n\n${ESSAY}` }, STUDENTS);
+    expect(best).toMatchObject({ studentId: 's2', confidence: 75, sources: ['opening_line'] });
+  });
+
+  it('combines a candidate number with other signals', () => {
+    const [best] = suggestStudents(
+      { filename: 'amir_khan.pdf', content: `Candidate number: C5678\n${ESSAY}` },
+      STUDENTS
+    );
+    expect(best).toMatchObject({ studentId: 's3', confidence: 99, sources: ['candidate_number', 'filename'] });
+  });
+
+  it('finds a bare candidate number in the filename', () => {
+    const [best] = suggestStudents({ filename: 'C1234-paper1.pdf', content: ESSAY }, STUDENTS);
+    expect(best).toMatchObject({ studentId: 's1', confidence: 90, sources: ['candidate_number'] });
+  });
+
+  it('suggests nobody when nothing matches', () => {
+    expect(suggestStudents({ filename: 'essay.docx', content: ESSAY }, STUDENTS)).toEqual([]);
+    expect(suggestStudents({ filename: 'john_smith.docx', content: ESSAY }, [])).toEqual([]);
+  });
+});
+
+describe('isConfidentMatch', () => {
+  const match = (studentId: string, confidence: number): StudentMatch => ({ studentId, confidence, sources: ['filename'], evidence: '' });
+
+  it('needs a confident best match clearly ahead of the runner-up', () => {
+    expect(isConfidentMatch([match('s1', 90)])).toBe(true);
+    expect(isConfidentMatch([match('s1', 90), match('s2', 80)])).toBe(true);
+    expect(isConfidentMatch([match('s1', 90), match('s2', 85)])).toBe(false);
+    expect(isConfidentMatch([match('s1', 80)])).toBe(false);
+    expect(isConfidentMatch([])).toBe(false);
+  });
+});
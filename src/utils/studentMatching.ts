@@ -0,0 +1,184 @@
+/**
+ * Student matching for batch uploads: which student wrote each essay, judged from the filename,
+ * the essay's opening lines ("Name: ...", candidate numbers) and fuzzy name similarity.
+ * Suggestions are ranked by confidence for the teacher to confirm before the batch starts.
+ */
+
+export interface MatchableStudent {
+  id: string;
+  name: string;
+  student_id: string | null; // School ID or exam candidate number
+}
+
+export type MatchSource = 'candidate_number' | 'header_name' | 'filename' | 'opening_line';
+
+export interface StudentMatch {
+  studentId: string;
+  confidence: number; // 0-100
+  sources: MatchSource[]; // Strongest first
+  evidence: string; // What matched, e.g. `Name: J Smith`
+}
+
+export const MATCH_SOURCE_LABELS: Record<MatchSource, string> = {
+  candidate_number: 'Candidate number',
+  header_name: 'Name on the essay',
+  filename: 'Filename',
+  opening_line: 'Opening line',
+};
+
+// Suggestions at or above this are applied without review
+export const AUTO_ACCEPT_CONFIDENCE = 85;
+// Below this a name is too unlike to suggest at all
+const MIN_SUGGESTION_CONFIDENCE = 50;
+const MAX_SUGGESTIONS = 3;
+
+// The most each signal can contribute; an exact name scores the ceiling, near misses less
+const SIGNAL_CEILING: Record<MatchSource, number> = {
+  candidate_number: 98,
+  header_name: 95,
+  filename: 90,
+  opening_line: 75,
+};
+
+// Only the top of the essay is searched for a name or number
+const HEADER_LINES = 6;
+const HEADER_LABEL = /^\s*(?:student(?:'s)?\s*name|full\s*name|name|student|pupil|author|by)\s*[:\-–]\s*(.+)$/i;
+const CANDIDATE_LABEL = /\b(?:candidate|cand\.?|student|pupil|exam)\s*(?:number|no\.?|num|#|id)\s*[:\-–]?\s*([A-Za-z0-9][A-Za-z0-9\-/]{2,})/i;
+// Filename words that are never part of a name
+const FILENAME_NOISE = new Set([
+  'essay', 'draft', 'final', 'copy', 'version', 'assignment', 'homework', 'hw', 'coursework', 'submission', 'scan', 'doc', 'docx', 'pdf', 'txt', 'img', 'page',
+]);
+
+const stripAccents = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const nameTokens = (s: string) =>
+  stripAccents(s)
+    .replace(/([a-z])([A-Z])/g, '$1 $2') // JohnSmith
+    .toLowerCase()
+    .split(/[^a-z']+/)
+    .map((t) => t.replace(/'/g, ''))
+    .filter(Boolean);
+
+const normaliseCandidate = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+const tokenSimilarity = (studentToken: string, token: string) => {
+  if (studentToken === token) return 1;
+  // An initial ("J Smith") is a weaker match for the whole name
+  if (token.length === 1) return studentToken.startsWith(token) ? 0.8 : 0;
+  return 1 - levenshtein(studentToken, token) / Math.max(studentToken.length, token.length);
+};
+
+/**
+ * How alike a student's name is to some text's words (0-1), in any order ("Smith John" matches
+ * "John Smith"). Every part of the student's name must be found; extra words are ignored.
+ */
+export function nameSimilarity(studentName: string, text: string): number {
+  const wanted = nameTokens(studentName);
+  const found = nameTokens(text);
+  if (wanted.length === 0 || found.length === 0) return 0;
+  const scores = wanted.map((w) => Math.max(...found.map((t) => tokenSimilarity(w, t))));
+  // A single name part (first name only) is much weaker evidence than a full name
+  const coverage = wanted.length === 1 || found.length > 1 ? 1 : 0.85;
+  return (scores.reduce((sum, s) => sum + s, 0) / scores.length) * coverage;
+}
+
+interface Signal {
+  studentId: string;
+  confidence: number;
+  source: MatchSource;
+  evidence: string;
+}
+
+function candidateSignals(header: string[], filename: string, students: MatchableStudent[]): Signal[] {
+  const withNumbers = students.filter((s) => s.student_id && normaliseCandidate(s.student_id).length >= 3);
+  if (withNumbers.length === 0) return [];
+  const signals: Signal[] = [];
+  const labelled = header.map((line) => CANDIDATE_LABEL.exec(line)?.[1]).filter((v): v is string => !!v);
+  const headerWords = header.flatMap((line) => line.split(/[\s,;|]+/));
+  const fileWords = filename.split(/[\s_\-.()]+/);
+
+  for (const student of withNumbers) {
+    const number = normaliseCandidate(student.student_id!);
+    if (labelled.some((v) => normaliseCandidate(v) === number)) {
+      signals.push({ studentId: student.id, confidence: SIGNAL_CEILING.candidate_number, source: 'candidate_number', evidence: `Candidate number ${student.student_id}` });
+    } else if (headerWords.some((w) => normaliseCandidate(w) === number)) {
+      signals.push({ studentId: student.id, confidence: SIGNAL_CEILING.candidate_number - 5, source: 'candidate_number', evidence: `${student.student_id} at the top of the essay` });
+    } else if (fileWords.some((w) => normaliseCandidate(w) === number)) {
+      signals.push({ studentId: student.id, confidence: SIGNAL_CEILING.candidate_number - 8, source: 'candidate_number', evidence: `${student.student_id} in the filename` });
+    }
+  }
+  return signals;
+}
+
+function nameSignals(text: string, source: MatchSource, evidence: string, students: MatchableStudent[]): Signal[] {
+  return students
+    .map((student) => ({
+      studentId: student.id,
+      confidence: Math.round(nameSimilarity(student.name, text) * SIGNAL_CEILING[source]),
+      source,
+      evidence,
+    }))
+    .filter((s) => s.confidence >= MIN_SUGGESTION_CONFIDENCE);
+}
+
+/**
+ * Ranked suggestions for who wrote one essay
+ */
+export function suggestStudents(
+  essay: { filename: string; content: string },
+  students: MatchableStudent[]
+): StudentMatch[] {
+  if (students.length === 0) return [];
+  const header = essay.content.split(/\r?\n/).map((l) => l.trim()).filter(Boolean).slice(0, HEADER_LINES);
+  const baseName = essay.filename.replace(/^.*[\\/]/, '').replace(/\.[a-z0-9]+$/i, '');
+  const fileText = nameTokens(baseName).filter((t) => !FILENAME_NOISE.has(t)).join(' ');
+
+  const signals: Signal[] = [...candidateSignals(header, baseName, students)];
+  const labelledName = header.map((line) => HEADER_LABEL.exec(line)).find(Boolean);
+  if (labelledName) {
+    signals.push(...nameSignals(labelledName[1], 'header_name', labelledName[0].trim(), students));
+  } else if (header[0] && header[0].split(/\s+/).length <= 4) {
+    // A short first line is often just the student's name
+    signals.push(...nameSignals(header[0], 'opening_line', header[0], students));
+  }
+  if (fileText) signals.push(...nameSignals(fileText, 'filename', essay.filename, students));
+
+  // Independent signals for the same student reinforce each other
+  const byStudent = new Map<string, Signal[]>();
+  signals.forEach((s) => byStudent.set(s.studentId, [...(byStudent.get(s.studentId) || []), s]));
+  return Array.from(byStudent.entries())
+    .map(([studentId, found]): StudentMatch => {
+      const ranked = [...found].sort((a, b) => b.confidence - a.confidence);
+      const missing = ranked.reduce((product, s) => product * (1 - s.confidence / 100), 1);
+      return {
+        studentId,
+        confidence: Math.min(99, Math.round((1 - missing) * 100)),
+        sources: Array.from(new Set(ranked.map((s) => s.source))),
+        evidence: ranked[0].evidence,
+      };
+    })
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Whether a suggestion can be applied without the teacher looking: confident, and clearly ahead of the runner-up
+ */
+export function isConfidentMatch(suggestions: StudentMatch[]): boolean {
+  const [best, next] = suggestions;
+  return !!best && best.confidence >= AUTO_ACCEPT_CONFIDENCE && (!next || best.confidence - next.confidence >= 10);
+}
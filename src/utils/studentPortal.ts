@@ -0,0 +1,123 @@
+/**
+ * Student feedback portal (client side).
+ * Teachers release feedback by flagging essays and share an expiring link per student; links are signed
+ * by /api/student-portal, which also serves the portal itself to the student.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import { authHeaders } from './openaiClient';
+import type { AnnotationType } from './annotations';
+
+export const LINK_TTL_DAYS = [7, 30, 90] as const;
+
+export interface StudentPortalLink {
+  id: string;
+  student_id: string;
+  expires_at: string;
+  revoked_at: string | null;
+  last_opened_at: string | null;
+  created_at: string;
+}
+
+export interface PortalAnnotation {
+  start_offset: number;
+  length: number;
+  quote: string;
+  type: AnnotationType;
+  ao: string | null;
+  comment: string;
+}
+
+/** One released essay, already cut down to the student export audience */
+export interface PortalEssay {
+  id: string;
+  title: string;
+  content: string;
+  submitted_at: string;
+  released_at: string;
+  overall_score: number | null;
+  what_went_well: string[];
+  next_steps: string[];
+  annotations: PortalAnnotation[];
+}
+
+export interface PortalView {
+  student: { name: string };
+  expires_at: string;
+  essays: PortalEssay[];
+}
+
+export class PortalLinkError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'PortalLinkError';
+    this.status = status;
+  }
+}
+
+export const portalUrl = (token: string) => `${window.location.origin}/portal/${encodeURIComponent(token)}`;
+
+export const isLinkActive = (link: Pick<StudentPortalLink, 'expires_at' | 'revoked_at'>, now = Date.now()) =>
+  !link.revoked_at && new Date(link.expires_at).getTime() > now;
+
+/** The student's view; needs no sign-in */
+export async function fetchPortal(token: string): Promise<PortalView> {
+  const query = new URLSearchParams({ action: 'view', token });
+  const response = await fetch(`/api/student-portal?${query.toString()}`);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new PortalLinkError(response.status, data?.error || `Could not open the portal (${response.status})`);
+  }
+  return data as PortalView;
+}
+
+export async function createPortalLink(studentId: string, days: number): Promise<{ id: string; token: string; expires_at: string }> {
+  const response = await fetch('/api/student-portal?action=create-link', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ studentId, days }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || `Could not create the link (${response.status})`);
+  }
+  return data;
+}
+
+export async function loadPortalLinks(studentId: string): Promise<StudentPortalLink[]> {
+  const { data, error } = await supabase
+    .from('student_portal_links')
+    .select('id, student_id, expires_at, revoked_at, last_opened_at, created_at')
+    .eq('student_id', studentId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as StudentPortalLink[];
+}
+
+export async function revokePortalLink(linkId: string): Promise<void> {
+  const { error } = await supabase
+    .from('student_portal_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', linkId);
+  if (error) throw error;
+}
+
+/** Release one essay's feedback to the student, or take it back */
+export async function setFeedbackReleased(essayId: string, userId: string, released: boolean): Promise<string | null> {
+  const releasedAt = released ? new Date().toISOString() : null;
+  const { error } = await supabase
+    .from('essays')
+    .update({ feedback_released_at: releasedAt, feedback_released_by: released ? userId : null })
+    .eq('id', essayId);
+  if (error) throw error;
+  return releasedAt;
+}
+
+/** Release (or withdraw) every marked essay in a batch; returns how many essays changed */
+export async function releaseBatchFeedback(jobId: string, released: boolean): Promise<number> {
+  const { data, error } = await supabase.rpc('release_batch_feedback', { p_job_id: jobId, p_release: released });
+  if (error) throw error;
+  return (data as number) ?? 0;
+}
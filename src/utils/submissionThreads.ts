@@ -0,0 +1,174 @@
+/**
+ * Submission threads: a student's drafts of one piece of work.
+ * Each draft is an essays row with thread_id; the database numbers drafts (essays.version) as they join.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+import type { CriterionScore, ImprovementProgress, ImprovementStatus } from './openaiClient';
+import { toCriterionScores } from './rubricUtils';
+
+export interface DraftFeedback {
+  id: string;
+  overall_score: number;
+  criteria_scores: CriterionScore[];
+  improvements: string[];
+  addressed_improvements: ImprovementProgress[];
+  created_at: string;
+}
+
+export interface ThreadDraft {
+  id: string;
+  title: string;
+  content: string;
+  version: number;
+  created_at: string;
+  feedback: DraftFeedback | null; // Latest feedback on the draft
+}
+
+export interface SubmissionThread {
+  id: string;
+  title: string;
+  student_id: string | null;
+  drafts: ThreadDraft[]; // Oldest first
+}
+
+/**
+ * An essay a new draft can follow on from: a standalone essay or the latest draft of a thread
+ */
+export interface RedraftSource {
+  id: string;
+  title: string;
+  thread_id: string | null;
+  version: number | null;
+  created_at: string;
+}
+
+export interface CriterionDelta {
+  criterion: string;
+  before: number | null; // null when the criterion wasn't scored on that draft
+  after: number | null;
+  max_points: number;
+  delta: number | null;
+}
+
+export const IMPROVEMENT_STATUS_LABELS: Record<ImprovementStatus, string> = {
+  addressed: 'Addressed',
+  partly_addressed: 'Partly addressed',
+  not_addressed: 'Not addressed yet',
+};
+
+export const submissionThreadKey = (threadId: string | null | undefined) => ['submission-threads', threadId];
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const STATUSES = Object.keys(IMPROVEMENT_STATUS_LABELS) as ImprovementStatus[];
+
+/**
+ * Read feedback.addressed_improvements (jsonb) defensively
+ */
+export function toImprovementProgress(value: unknown): ImprovementProgress[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((p: any) => p && typeof p.improvement === 'string' && STATUSES.includes(p.status))
+    .map((p: any) => ({ improvement: p.improvement, status: p.status, evidence: typeof p.evidence === 'string' ? p.evidence : '' }));
+}
+
+/**
+ * The student's essays a new draft can follow: standalone essays and the latest draft of each thread, newest first
+ */
+export async function loadRedraftSources(studentId: string): Promise<RedraftSource[]> {
+  const { data, error } = await supabase
+    .from('essays')
+    .select('id, title, thread_id, version, created_at')
+    .eq('student_id', studentId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  const seenThreads = new Set<string>();
+  return ((data || []) as RedraftSource[]).filter((essay) => {
+    if (!essay.thread_id) return true;
+    if (seenThreads.has(essay.thread_id)) return false;
+    seenThreads.add(essay.thread_id);
+    return true;
+  });
+}
+
+/**
+ * "Areas for Improvement" from the latest feedback on an essay
+ */
+export async function loadPreviousImprovements(essayId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('feedback')
+    .select('improvements')
+    .eq('essay_id', essayId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return toStringList(data?.improvements);
+}
+
+/**
+ * Thread the essay belongs to, starting one (with the essay as draft 1) if it is standalone
+ */
+export async function ensureSubmissionThread(essayId: string): Promise<string> {
+  const { data, error } = await supabase.rpc('ensure_submission_thread', { p_essay_id: essayId });
+  if (error) throw error;
+  return data as string;
+}
+
+export async function loadSubmissionThread(threadId: string): Promise<SubmissionThread> {
+  const [threadResult, draftsResult] = await Promise.all([
+    supabase.from('submission_threads').select('id, title, student_id').eq('id', threadId).single(),
+    supabase
+      .from('essays')
+      .select('id, title, content, version, created_at, feedback(id, overall_score, criteria_scores, improvements, addressed_improvements, created_at)')
+      .eq('thread_id', threadId)
+      .order('version'),
+  ]);
+  if (threadResult.error) throw threadResult.error;
+  if (draftsResult.error) throw draftsResult.error;
+
+  const drafts = (draftsResult.data || []).map((row: any): ThreadDraft => {
+    const latest = [...(row.feedback || [])].sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))[0];
+    return {
+      id: row.id,
+      title: row.title,
+      content: row.content || '',
+      version: row.version,
+      created_at: row.created_at,
+      feedback: latest
+        ? {
+            id: latest.id,
+            overall_score: Number(latest.overall_score) || 0,
+            criteria_scores: toCriterionScores(latest.criteria_scores),
+            improvements: toStringList(latest.improvements),
+            addressed_improvements: toImprovementProgress(latest.addressed_improvements),
+            created_at: latest.created_at,
+          }
+        : null,
+    };
+  });
+  return { ...threadResult.data, drafts };
+}
+
+/**
+ * Points per criterion on two drafts, matched by criterion name, in the later draft's order
+ */
+export function compareCriterionScores(before: CriterionScore[], after: CriterionScore[]): CriterionDelta[] {
+  const previous = new Map(before.map((c) => [c.criterion, c]));
+  const next = new Map(after.map((c) => [c.criterion, c]));
+  const names = Array.from(new Set([...next.keys(), ...previous.keys()]));
+  return names.map((criterion) => {
+    const b = previous.get(criterion);
+    const a = next.get(criterion);
+    return {
+      criterion,
+      before: b?.points ?? null,
+      after: a?.points ?? null,
+      max_points: (a || b)!.max_points,
+      delta: a && b ? a.points - b.points : null,
+    };
+  });
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { diffLists, diffWords, type DiffPart } from './textDiff';
+
+// Joining the parts a side keeps reproduces that draft
+const side = (parts: DiffPart[], skip: DiffPart['type']) => parts.filter((p) => p.type !== skip).map((p) => p.text).join('');
+
+describe('diffWords', () => {
+  it('marks replaced words and merges neighbouring parts of the same type', () => {
+    expect(diffWords('Macbeth is ambitious and cruel.', 'Macbeth is ruthless, ambitious and cruel.')).toEqual([
+      { type: 'same', text: 'Macbeth is ' },
+      { type: 'added', text: 'ruthless, ' },
+      { type: 'same', text: 'ambitious and cruel.' },
+    ]);
+    expect(diffWords('The witches lie to him', 'The witches deceive him')).toEqual([
+      { type: 'same', text: 'The witches ' },
+      { type: 'removed', text: 'lie to' },
+      { type: 'added', text: 'deceive' },
+      { type: 'same', text: ' him' },
+    ]);
+  });
+
+  it('rebuilds both drafts exactly, whitespace and line breaks included', () => {
+    const before = 'In Act 1 Macbeth hesitates.\n\nLady Macbeth  persuades him.';
+    const after = 'In Act 1, Macbeth hesitates.\nLady Macbeth persuades him to kill Duncan.';
+    const parts = diffWords(before, after);
+    expect(side(parts, 'added')).toBe(before);
+    expect(side(parts, 'removed')).toBe(after);
+  });
+
+  it('handles identical and empty texts', () => {
+    expect(diffWords('Same draft', 'Same draft')).toEqual([{ type: 'same', text: 'Same draft' }]);
+    expect(diffWords('', '')).toEqual([]);
+    expect(diffWords('', 'New draft')).toEqual([{ type: 'added', text: 'New draft' }]);
+    expect(diffWords('Old draft', '')).toEqual([{ type: 'removed', text: 'Old draft' }]);
+  });
+
+  it('swaps the whole text when the drafts are too long to compare word by word', () => {
+    const before = 'word '.repeat(2500);
+    const after = 'other '.repeat(2500);
+    expect(diffWords(before, after)).toEqual([
+      { type: 'removed', text: before },
+      { type: 'added', text: after },
+    ]);
+  });
+});
+
+describe('diffLists', () => {
+  it('splits items into added, removed and kept by exact text', () => {
+    expect(diffLists(['Use quotations', 'Check spelling'], ['Use quotations', 'Link to context'])).toEqual({
+      added: ['Link to context'],
+      removed: ['Check spelling'],
+      kept: ['Use quotations'],
+    });
+  });
+});
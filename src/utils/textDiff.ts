@@ -0,0 +1,71 @@
+export type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Above this many token pairs the LCS table gets too big for the main thread; fall back to a whole-text swap
+const MAX_DIFF_CELLS = 4_000_000;
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter((t) => t.length > 0);
+
+/**
+ * Word-level diff of two texts (longest common subsequence over words and whitespace).
+ * Adjacent parts of the same type are merged so the result renders as a few runs.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  if (before === after) return before ? [{ type: 'same', text: before }] : [];
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, text: before }] : []),
+      ...(after ? [{ type: 'added' as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS of a[i..] and b[j..], stored row-major
+  const cols = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = a[i] === b[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+}
+
+/**
+ * Items added to and removed from a list, compared by exact text
+ */
+export function diffLists(before: string[], after: string[]): { added: string[]; removed: string[]; kept: string[] } {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    added: after.filter((item) => !beforeSet.has(item)),
+    removed: before.filter((item) => !afterSet.has(item)),
+    kept: after.filter((item) => beforeSet.has(item)),
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * School workspaces (organisations, departments and membership roles).
+ * Rubrics and students belong to the teacher who created them and are shared into a workspace, or one of its
+ * departments, through organisation_id / department_id; RLS decides who can see and manage shared rows.
+ */
+
+import { supabase } from '../lib/supabaseClient';
+
+export type WorkspaceRole = 'teacher' | 'head_of_department' | 'school_admin';
+
+export interface Organisation {
+  id: string;
+  name: string;
+  plan: 'free' | 'school';
+}
+
+export interface WorkspaceMembership {
+  organisation: Organisation;
+  role: WorkspaceRole;
+}
+
+export interface Department {
+  id: string;
+  organisation_id: string;
+  name: string;
+}
+
+export interface WorkspaceMember {
+  user_id: string;
+  email: string | null;
+  full_name: string | null;
+  role: WorkspaceRole;
+  department_ids: string[];
+  joined_at: string;
+}
+
+/** Where a rubric or student is shared. Both null = private to its owner. */
+export interface ShareTarget {
+  organisation_id: string | null;
+  department_id: string | null;
+}
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  teacher: 'Teacher',
+  head_of_department: 'Head of Department',
+  school_admin: 'School Admin',
+};
+
+export const PRIVATE_SHARE: ShareTarget = { organisation_id: null, department_id: null };
+
+/**
+ * PostgREST `or` filter for rows to list in a workspace: your own rows, plus (in a school workspace)
+ * everything shared with it that RLS lets you see.
+ */
+export function workspaceFilter(userId: string, organisationId: string | null): string {
+  return organisationId
+    ? `teacher_id.eq.${userId},organisation_id.eq.${organisationId}`
+    : `teacher_id.eq.${userId}`;
+}
+
+/** Owners can always re-share; school admins and heads of department can manage what's shared with them */
+export function canManageShare(
+  row: ShareTarget & { teacher_id?: string | null },
+  userId: string,
+  role: WorkspaceRole | null,
+  myDepartmentIds: string[]
+): boolean {
+  if (row.teacher_id === userId) return true;
+  if (!row.organisation_id || !role) return false;
+  if (role === 'school_admin') return true;
+  return role === 'head_of_department' && !!row.department_id && myDepartmentIds.includes(row.department_id);
+}
+
+export async function loadWorkspaces(userId: string): Promise<WorkspaceMembership[]> {
+  const { data, error } = await supabase
+    .from('organisation_members')
+    .select('role, organisations(id, name, plan)')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return ((data || []) as any[])
+    .filter((row) => row.organisations)
+    .map((row) => ({ role: row.role as WorkspaceRole, organisation: row.organisations as Organisation }))
+    .sort((a, b) => a.organisation.name.localeCompare(b.organisation.name));
+}
+
+export async function createOrganisation(name: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_organisation', { p_name: name.trim() });
+  if (error) throw error;
+  return data as string;
+}
+
+export async function renameOrganisation(organisationId: string, name: string): Promise<void> {
+  const { error } = await supabase.from('organisations').update({ name: name.trim() }).eq('id', organisationId);
+  if (error) throw error;
+}
+
+export async function loadDepartments(organisationId: string): Promise<Department[]> {
+  const { data, error } = await supabase
+    .from('departments')
+    .select('id, organisation_id, name')
+    .eq('organisation_id', organisationId)
+    .order('name');
+  if (error) throw error;
+  return (data || []) as Department[];
+}
+
+export async function loadMyDepartmentIds(userId: string): Promise<string[]> {
+  const { data, error } = await supabase.from('department_members').select('department_id').eq('user_id', userId);
+  if (error) throw error;
+  return (data || []).map((row: any) => row.department_id as string);
+}
+
+export async function createDepartment(organisationId: string, name: string): Promise<Department> {
+  const { data, error } = await supabase
+    .from('departments')
+    .insert([{ organisation_id: organisationId, name: name.trim() }])
+    .select('id, organisation_id, name')
+    .single();
+  if (error) throw error;
+  return data as Department;
+}
+
+/** Rubrics and students shared with the department become private to their owners again */
+export async function deleteDepartment(departmentId: string): Promise<void> {
+  const { error } = await supabase.from('departments').delete().eq('id', departmentId);
+  if (error) throw error;
+}
+
+export async function loadWorkspaceMembers(organisationId: string): Promise<WorkspaceMember[]> {
+  const { data, error } = await supabase.rpc('organisation_members_for', { p_organisation_id: organisationId });
+  if (error) throw error;
+  return ((data || []) as any[]).map((row) => ({ ...row, department_ids: row.department_ids || [] }));
+}
+
+export async function addWorkspaceMember(organisationId: string, email: string, role: WorkspaceRole): Promise<void> {
+  const { error } = await supabase.rpc('add_organisation_member', {
+    p_organisation_id: organisationId,
+    p_email: email.trim(),
+    p_role: role,
+  });
+  if (error) throw error;
+}
+
+export async function setWorkspaceRole(organisationId: string, userId: string, role: WorkspaceRole): Promise<void> {
+  const { error } = await supabase.rpc('set_organisation_role', {
+    p_organisation_id: organisationId,
+    p_user_id: userId,
+    p_role: role,
+  });
+  if (error) throw error;
+}
+
+/** Also used to leave a workspace (pass your own user id) */
+export async function removeWorkspaceMember(organisationId: string, userId: string): Promise<void> {
+  const { error } = await supabase.rpc('remove_organisation_member', {
+    p_organisation_id: organisationId,
+    p_user_id: userId,
+  });
+  if (error) throw error;
+}
+
+export async function setDepartmentMember(departmentId: string, userId: string, member: boolean): Promise<void> {
+  const { error } = await supabase.rpc('set_department_member', {
+    p_department_id: departmentId,
+    p_user_id: userId,
+    p_member: member,
+  });
+  if (error) throw error;
+}
+
+/** Share (or unshare) rubrics or students. Rows the caller can't manage are left unchanged by RLS. */
+export async function shareRows(table: 'rubrics' | 'students', ids: string[], target: ShareTarget): Promise<void> {
+  if (ids.length === 0) return;
+  const { error } = await supabase
+    .from(table)
+    .update({ organisation_id: target.organisation_id, department_id: target.department_id })
+    .in('id', ids);
+  if (error) throw error;
+}
@@ -0,0 +1,156 @@
+// Resolve quoted evidence from the model to exact character ranges in the essay (Deno copy of api/_lib/annotations.ts).
+// Offsets are UTF-16 code unit indexes into the essay text as submitted, matching String.prototype.slice.
+
+export type AnnotationType = 'strength' | 'improvement' | 'grammar' | 'evidence';
+
+const ANNOTATION_TYPES: AnnotationType[] = ['strength', 'improvement', 'grammar', 'evidence'];
+
+// Keep the margin readable; the model is asked for 4-8 plus one per AO
+const MAX_ANNOTATIONS = 20;
+
+// Longest gap allowed between the two halves of an elided quote ("opening ... closing")
+const MAX_ELISION_GAP = 400;
+
+/**
+ * A margin comment as written by the model: a verbatim quote plus what to say about it.
+ */
+export interface QuotedAnnotation {
+  quote: string;
+  type: AnnotationType;
+  ao: string | null;
+  comment: string;
+}
+
+/**
+ * A quoted annotation pinned to the essay: `essay.slice(start_offset, start_offset + length)` is the passage.
+ */
+export interface EssayAnnotation extends QuotedAnnotation {
+  start_offset: number;
+  length: number;
+}
+
+const PUNCTUATION_MAP: Record<string, string> = {
+  '‘': "'", '’': "'", '‚': "'", '′': "'",
+  '“': '"', '”': '"', '„': '"', '″': '"',
+  '–': '-', '—': '-', '−': '-',
+  ' ': ' ',
+};
+
+/**
+ * Lower-case, straighten quotes/dashes and collapse whitespace, remembering where each
+ * normalised character came from so matches can be mapped back to the original text.
+ */
+function normalise(text: string): { value: string; origin: number[] } {
+  let value = '';
+  const origin: number[] = [];
+  let lastWasSpace = false;
+  for (let i = 0; i < text.length; i++) {
+    let ch = PUNCTUATION_MAP[text[i]] ?? text[i];
+    if (/\s/.test(ch)) {
+      if (lastWasSpace) continue;
+      ch = ' ';
+      lastWasSpace = true;
+    } else {
+      lastWasSpace = false;
+    }
+    value += ch.toLowerCase();
+    origin.push(i);
+  }
+  return { value, origin };
+}
+
+function cleanQuote(quote: string): string {
+  return quote
+    .trim()
+    .replace(/^["'‘’“”]+|["'‘’“”]+$/g, '')
+    .replace(/^(?:\.\.\.|…)\s*|\s*(?:\.\.\.|…)$/g, '')
+    .trim();
+}
+
+/**
+ * Find a quote in the essay. Tries an exact match, then a whitespace/punctuation-insensitive match,
+ * then an elided quote ("first words ... last words"). Returns null when the quote isn't in the essay.
+ */
+export function resolveQuote(essay: string, quote: string, fromOffset = 0): { start: number; length: number } | null {
+  const cleaned = cleanQuote(quote);
+  if (cleaned.length < 3) return null;
+
+  const exact = essay.indexOf(cleaned, fromOffset);
+  if (exact !== -1) return { start: exact, length: cleaned.length };
+
+  const haystack = normalise(essay);
+  const firstIndexAfter = (offset: number) => {
+    const idx = haystack.origin.findIndex((o) => o >= offset);
+    return idx === -1 ? haystack.value.length : idx;
+  };
+  const toRange = (normStart: number, normEnd: number) => {
+    const start = haystack.origin[normStart];
+    const end = haystack.origin[normEnd - 1] + 1;
+    return { start, length: end - start };
+  };
+
+  const needle = normalise(cleaned).value.trim();
+  const from = firstIndexAfter(fromOffset);
+  const loose = haystack.value.indexOf(needle, from);
+  if (loose !== -1) return toRange(loose, loose + needle.length);
+
+  const parts = needle.split(/\s*(?:\.\.\.|…)\s*/).filter((p) => p.length >= 3);
+  if (parts.length >= 2) {
+    const head = haystack.value.indexOf(parts[0], from);
+    if (head !== -1) {
+      const last = parts[parts.length - 1];
+      const tail = haystack.value.indexOf(last, head + parts[0].length);
+      if (tail !== -1 && tail - (head + parts[0].length) <= MAX_ELISION_GAP) {
+        return toRange(head, tail + last.length);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read the model's `annotations` array leniently: malformed entries are dropped rather than failing the marking.
+ */
+export function toQuotedAnnotations(value: unknown): QuotedAnnotation[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((entry) => {
+    const e = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const quote = typeof e.quote === 'string' ? e.quote.trim() : '';
+    const comment = typeof e.comment === 'string' ? e.comment.trim() : '';
+    if (!quote || !comment) return [];
+    const type = typeof e.type === 'string' ? e.type.trim().toLowerCase() : '';
+    return [{
+      quote,
+      comment,
+      type: (ANNOTATION_TYPES as string[]).includes(type) ? (type as AnnotationType) : 'evidence',
+      ao: typeof e.ao === 'string' && e.ao.trim() ? e.ao.trim() : null,
+    }];
+  });
+}
+
+/**
+ * Pin quoted annotations to the essay. Quotes that can't be found are dropped (the model paraphrased),
+ * as are exact duplicates of a range already annotated with the same type. Sorted by position.
+ */
+export function resolveAnnotations(essay: string, quoted: QuotedAnnotation[]): EssayAnnotation[] {
+  const resolved: EssayAnnotation[] = [];
+  const seen = new Set<string>();
+
+  for (const annotation of quoted) {
+    if (resolved.length >= MAX_ANNOTATIONS) break;
+    const range = resolveQuote(essay, annotation.quote);
+    if (!range) continue;
+    const key = `${range.start}:${range.length}:${annotation.type}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    resolved.push({
+      ...annotation,
+      quote: essay.slice(range.start, range.start + range.length),
+      start_offset: range.start,
+      length: range.length,
+    });
+  }
+
+  return resolved.sort((a, b) => a.start_offset - b.start_offset || b.length - a.length);
+}
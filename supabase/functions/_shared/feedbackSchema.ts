@@ -0,0 +1,494 @@
+// Shared contract for structured essay feedback returned by the edge functions.
+// Deno copy of api/_lib/feedbackSchema.ts — keep the two in sync.
+
+import { resolveAnnotations, toQuotedAnnotations, type EssayAnnotation } from "./annotations.ts";
+
+/**
+ * Structured feedback object returned to every consumer (single essay, batch, demo).
+ * Mirrors `EnhancedFeedback` in src/utils/openaiClient.ts.
+ */
+export interface EnhancedFeedback {
+  overall_band: number; // 1-6 GCSE band
+  overall_score: number; // 0-100 percentage
+  ao_analysis: Array<{
+    ao: string; // e.g., "AO1", "AO2"
+    band: number; // 1-6
+    evidence: string; // Quote from essay
+    comment: string; // Teacher comment
+  }>;
+  strengths: string[];
+  improvements: string[];
+  grammar_issues: string[];
+  suggested_feedback: string; // Natural teacher voice summary
+}
+
+/**
+ * Single consistent marking response from /api/mark-essay: feedback, per-criterion scores,
+ * overall band and its justification all come from the same model call.
+ */
+export interface EssayMarking extends EnhancedFeedback {
+  criteria_scores: CriterionScore[];
+  total_points: number; // Sum of criteria_scores points
+  total_max_points: number; // Sum of criteria_scores max_points
+  justification: string; // 2-3 sentence explanation of the overall band
+  annotations: EssayAnnotation[]; // Quoted evidence pinned to character ranges in the essay
+  addressed_improvements: ImprovementProgress[]; // Empty unless the previous draft's improvements were given
+}
+
+export type ImprovementStatus = 'addressed' | 'partly_addressed' | 'not_addressed';
+
+/**
+ * Whether a redraft acted on one "Area for Improvement" from the feedback on the previous draft.
+ */
+export interface ImprovementProgress {
+  improvement: string; // The previous improvement, as given to the model
+  status: ImprovementStatus;
+  evidence: string; // Quote or explanation from the new draft
+}
+
+/**
+ * Points awarded for one rubric criterion, out of that criterion's own maxPoints.
+ */
+export interface CriterionScore {
+  criterion: string; // Rubric criterion name as given in the rubric
+  points: number; // 0 to max_points
+  max_points: number;
+}
+
+/**
+ * A rubric criterion as stored in rubrics.criteria (jsonb `{ category, maxPoints }`).
+ */
+export interface RubricCriterion {
+  category: string;
+  maxPoints: number;
+}
+
+/**
+ * The parts of a marking response shown while it is still streaming.
+ */
+export interface PartialFeedback {
+  strengths: string[];
+  improvements: string[];
+  suggested_feedback: string;
+}
+
+export type FeedbackErrorCode = 'invalid_model_output' | 'empty_model_output';
+
+/**
+ * Raised when the model output cannot be repaired into a valid EnhancedFeedback.
+ */
+export class FeedbackValidationError extends Error {
+  code: FeedbackErrorCode;
+  details: string[];
+
+  constructor(code: FeedbackErrorCode, message: string, details: string[] = []) {
+    super(message);
+    this.name = 'FeedbackValidationError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export type ValidationResult<T = EssayMarking> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+/**
+ * JSON shape described to the model. Kept next to the validator so the two can't drift.
+ */
+export const MARKING_JSON_SHAPE = `{
+  "overall_band": number (1-6, the band the overall_score falls in),
+  "overall_score": number (0-100, the weighted total of criteria_scores as a percentage),
+  "ao_analysis": [
+    {"ao": "AO1", "band": number (1-6), "evidence": "exact quote from the essay", "comment": "teacher comment"}
+  ],
+  "strengths": ["specific strength with quote"],
+  "improvements": ["specific area with example"],
+  "grammar_issues": ["issue, or empty array if none"],
+  "suggested_feedback": "natural, encouraging summary spoken directly to the student",
+  "criteria_scores": [
+    {"criterion": "rubric criterion name", "points": number (0 to max_points), "max_points": number (the criterion's points in the rubric)}
+  ],
+  "justification": "2-3 sentence explanation of the overall band",
+  "annotations": [
+    {"quote": "5-25 words copied exactly from the essay", "type": "strength" | "improvement" | "grammar", "ao": "AO2" or null, "comment": "margin comment about this passage"}
+  ],
+  "addressed_improvements": [
+    {"improvement": "previous area for improvement, copied exactly", "status": "addressed" | "partly_addressed" | "not_addressed", "evidence": "quote or explanation from this draft"}
+  ] (empty array unless areas for improvement from a previous draft are listed)
+}`;
+
+// Redrafts are checked against at most this many improvements from the previous draft
+export const MAX_PREVIOUS_IMPROVEMENTS = 10;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Lowest percentage for GCSE bands 2-6, matching the band conversion given to the model
+const BAND_THRESHOLDS = [30, 45, 60, 75, 90];
+
+/**
+ * GCSE band (1-6) for a 0-100 percentage: Band 1 = 0-29%, Band 2 = 30-44% ... Band 6 = 90-100%.
+ */
+export function bandForScore(score: number): number {
+  return 1 + BAND_THRESHOLDS.filter((threshold) => score >= threshold).length;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.replace('%', '').trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function toStringList(value: unknown): string[] | null {
+  if (typeof value === 'string') {
+    // Models occasionally return a bulleted string instead of an array
+    return value
+      .split(/\n+/)
+      .map((s) => s.replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').trim())
+      .filter(Boolean);
+  }
+  if (!Array.isArray(value)) return null;
+  return value
+    .map((item) => (typeof item === 'string' ? item.trim() : item == null ? '' : String(item).trim()))
+    .filter(Boolean);
+}
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const IMPROVEMENT_STATUSES: Record<string, ImprovementStatus> = {
+  addressed: 'addressed',
+  partly_addressed: 'partly_addressed',
+  partly: 'partly_addressed',
+  partially_addressed: 'partly_addressed',
+  not_addressed: 'not_addressed',
+  unaddressed: 'not_addressed',
+};
+
+/**
+ * Flatten stored rubric criteria (jsonb) into the one-criterion-per-line string the marking prompt expects.
+ * Mirrors formatRubricCriteria in src/utils/rubricUtils.ts, for server-side callers such as the batch worker.
+ */
+export function formatRubricCriteria(criteria: unknown): string {
+  if (typeof criteria === 'string') return criteria;
+  if (!Array.isArray(criteria)) return JSON.stringify(criteria ?? []);
+  return criteria
+    .map((c: any) => {
+      if (typeof c === 'string') return c;
+      const heading = `${c?.category || c?.name || 'Criterion'} (${c?.maxPoints ?? '?'} points)`;
+      // Level-of-response criteria: one indented line per level, lowest first
+      const levels = Array.isArray(c?.levels)
+        ? c.levels.map((l: any) =>
+            `  Level ${l?.level} (${l?.minMarks}-${l?.maxMarks} marks): ${String(l?.descriptor || '').replace(/\s*\n\s*/g, '; ')}`)
+        : [];
+      return [heading, ...levels].join('\n');
+    })
+    .join('\n');
+}
+
+/**
+ * Read criteria and their maxPoints back out of the formatted rubric string
+ * ("Category (10 points)" per line, as produced by formatRubricCriteria in the client).
+ * Lines without a points value are ignored, so free-text rubrics yield an empty list.
+ */
+export function parseRubricCriteria(rubricCriteria: string): RubricCriterion[] {
+  return rubricCriteria
+    .split(/\n+/)
+    .map((line) => line.match(/^\s*(?:[-*•]\s*)?(.+?)\s*\((\d+(?:\.\d+)?)\s*(?:points?|pts|marks?)\)\s*$/i))
+    .filter((m): m is RegExpMatchArray => !!m && Number(m[2]) > 0)
+    .map((m) => ({ category: m[1].trim(), maxPoints: Number(m[2]) }));
+}
+
+/**
+ * Extract a JSON object from raw model text. Tolerates ```json fences and leading/trailing prose.
+ */
+export function extractJson(raw: string): unknown {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = (fenced?.[1] ?? raw).trim();
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start === -1 || end <= start) return null;
+    try {
+      return JSON.parse(candidate.slice(start, end + 1));
+    } catch {
+      return null;
+    }
+  }
+}
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Best-effort parse of a JSON object that is still being streamed: the open string is closed,
+ * an incomplete trailing member is dropped and open arrays/objects are closed.
+ * Returns null until at least the opening brace has arrived.
+ */
+export function parsePartialJson(raw: string): unknown {
+  const start = raw.indexOf('{');
+  if (start === -1) return null;
+  const text = raw.slice(start);
+
+  const stack: string[] = [];
+  // Positions where the text can be cut and still closed validly, with the open containers at that point
+  const cuts: Array<{ at: number; stack: string[] }> = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') {
+      stack.push(ch);
+      cuts.push({ at: i + 1, stack: [...stack] });
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+      if (stack.length === 0) return extractJson(text.slice(0, i + 1));
+    } else if (ch === ',') {
+      cuts.push({ at: i, stack: [...stack] });
+    }
+  }
+
+  const close = (open: string[]) => open.map((c) => CLOSERS[c]).reverse().join('');
+  const tryParse = (candidate: string) => {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      return undefined;
+    }
+  };
+
+  // Keep the partial string value (e.g. suggested_feedback mid-sentence) when possible
+  const body = inString ? `${escaped ? text.slice(0, -1) : text}"` : text;
+  const whole = tryParse(body + close(stack));
+  if (whole !== undefined) return whole;
+
+  for (let c = cuts.length - 1; c >= 0; c--) {
+    const parsed = tryParse(text.slice(0, cuts[c].at) + close(cuts[c].stack));
+    if (parsed !== undefined) return parsed;
+  }
+  return null;
+}
+
+/**
+ * Strengths, improvements and the suggested feedback received so far in a streamed marking response.
+ */
+export function extractPartialFeedback(raw: string): PartialFeedback {
+  const parsed = parsePartialJson(raw);
+  const obj = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : {};
+  return {
+    strengths: toStringList(obj.strengths) ?? [],
+    improvements: toStringList(obj.improvements) ?? [],
+    suggested_feedback: typeof obj.suggested_feedback === 'string' ? obj.suggested_feedback : '',
+  };
+}
+
+/**
+ * Validate (and lightly repair) a parsed model response.
+ * Repairs are limited to safe coercions: numeric strings, out-of-range bands, string lists.
+ */
+export function validateEnhancedFeedback(input: unknown): ValidationResult<EnhancedFeedback> {
+  const errors: string[] = [];
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: ['Response is not a JSON object'] };
+  }
+  const obj = input as Record<string, unknown>;
+
+  const overallBand = toNumber(obj.overall_band);
+  if (overallBand === null) errors.push('overall_band must be a number between 1 and 6');
+
+  const overallScore = toNumber(obj.overall_score);
+  if (overallScore === null) errors.push('overall_score must be a number between 0 and 100');
+
+  const aoAnalysis: EnhancedFeedback['ao_analysis'] = [];
+  if (!Array.isArray(obj.ao_analysis)) {
+    errors.push('ao_analysis must be an array');
+  } else {
+    obj.ao_analysis.forEach((entry, idx) => {
+      if (!entry || typeof entry !== 'object') {
+        errors.push(`ao_analysis[${idx}] must be an object`);
+        return;
+      }
+      const e = entry as Record<string, unknown>;
+      const band = toNumber(e.band);
+      if (typeof e.ao !== 'string' || !e.ao.trim()) errors.push(`ao_analysis[${idx}].ao must be a non-empty string`);
+      if (band === null) errors.push(`ao_analysis[${idx}].band must be a number between 1 and 6`);
+      aoAnalysis.push({
+        ao: typeof e.ao === 'string' ? e.ao.trim() : '',
+        band: band === null ? 0 : Math.round(clamp(band, 1, 6)),
+        evidence: typeof e.evidence === 'string' ? e.evidence.trim() : '',
+        comment: typeof e.comment === 'string' ? e.comment.trim() : '',
+      });
+    });
+  }
+
+  const strengths = toStringList(obj.strengths);
+  if (strengths === null) errors.push('strengths must be an array of strings');
+  const improvements = toStringList(obj.improvements);
+  if (improvements === null) errors.push('improvements must be an array of strings');
+  const grammarIssues = obj.grammar_issues === undefined ? [] : toStringList(obj.grammar_issues);
+  if (grammarIssues === null) errors.push('grammar_issues must be an array of strings');
+
+  const suggested = typeof obj.suggested_feedback === 'string' ? obj.suggested_feedback.trim() : '';
+  if (!suggested) errors.push('suggested_feedback must be a non-empty string');
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      overall_band: Math.round(clamp(overallBand as number, 1, 6)),
+      overall_score: clamp(overallScore as number, 0, 100),
+      ao_analysis: aoAnalysis,
+      strengths: strengths as string[],
+      improvements: improvements as string[],
+      grammar_issues: grammarIssues as string[],
+      suggested_feedback: suggested,
+    },
+  };
+}
+
+/**
+ * Check the model's verdict on each previous improvement. Entries are matched by text, falling back to
+ * position, and every previous improvement must get a status. Returns [] when there was no previous draft.
+ */
+function validateAddressedImprovements(value: unknown, previous: string[], errors: string[]): ImprovementProgress[] {
+  if (previous.length === 0) return [];
+  if (!Array.isArray(value)) {
+    errors.push('addressed_improvements must be an array with one entry per previous improvement');
+    return [];
+  }
+  const entries = value.map((entry) => (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>);
+  const byText = new Map(entries.map((e) => [normaliseName(String(e.improvement ?? '')), e]));
+
+  return previous.map((improvement, idx) => {
+    const entry = byText.get(normaliseName(improvement)) ?? entries[idx];
+    if (!entry) {
+      errors.push(`addressed_improvements is missing previous improvement ${idx + 1}`);
+      return { improvement, status: 'not_addressed', evidence: '' };
+    }
+    const status = IMPROVEMENT_STATUSES[String(entry.status ?? '').toLowerCase().trim().replace(/[\s-]+/g, '_')];
+    if (!status) errors.push(`addressed_improvements[${idx}].status must be addressed, partly_addressed or not_addressed`);
+    return {
+      improvement,
+      status: status ?? 'not_addressed',
+      evidence: typeof entry.evidence === 'string' ? entry.evidence.trim() : '',
+    };
+  });
+}
+
+/**
+ * Validate a full marking response: the feedback fields plus criterion scores and justification.
+ * When the rubric's criteria are known, every criterion must be scored, points are clamped to its
+ * maxPoints, and overall_score is recomputed as the weighted total so it always matches the rubric.
+ * overall_band is then taken from the recomputed score, so the two can never disagree.
+ * For a redraft, pass the previous draft's improvements to require a verdict on each.
+ */
+export function validateEssayMarking(
+  input: unknown,
+  rubric: RubricCriterion[] = [],
+  essayText = '',
+  previousImprovements: string[] = []
+): ValidationResult {
+  const base = validateEnhancedFeedback(input);
+  const errors = base.ok ? [] : [...base.errors];
+  const obj = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  let criteriaScores: CriterionScore[] = [];
+  if (!Array.isArray(obj.criteria_scores)) {
+    errors.push('criteria_scores must be an array');
+  } else {
+    obj.criteria_scores.forEach((entry, idx) => {
+      const e = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+      // "score" is accepted for output written against the older percentage contract
+      const points = toNumber(e.points ?? e.score);
+      const maxPoints = toNumber(e.max_points);
+      if (typeof e.criterion !== 'string' || !e.criterion.trim()) errors.push(`criteria_scores[${idx}].criterion must be a non-empty string`);
+      if (points === null) errors.push(`criteria_scores[${idx}].points must be a number`);
+      criteriaScores.push({
+        criterion: typeof e.criterion === 'string' ? e.criterion.trim() : '',
+        points: points ?? 0,
+        max_points: maxPoints !== null && maxPoints > 0 ? maxPoints : 100,
+      });
+    });
+
+    if (rubric.length > 0) {
+      const byName = new Map(criteriaScores.map((c) => [normaliseName(c.criterion), c]));
+      criteriaScores = rubric.map(({ category, maxPoints }) => {
+        const scored = byName.get(normaliseName(category));
+        if (!scored) errors.push(`criteria_scores is missing rubric criterion "${category}"`);
+        return { criterion: category, points: scored ? scored.points : 0, max_points: maxPoints };
+      });
+    }
+    criteriaScores = criteriaScores.map((c) => ({ ...c, points: clamp(c.points, 0, c.max_points) }));
+  }
+
+  const justification = typeof obj.justification === 'string' ? obj.justification.trim() : '';
+  if (!justification) errors.push('justification must be a non-empty string');
+
+  const addressedImprovements = validateAddressedImprovements(obj.addressed_improvements, previousImprovements, errors);
+
+  if (!base.ok || errors.length > 0) return { ok: false, errors };
+
+  // Annotations are optional: quotes that can't be found in the essay are dropped, never a validation error.
+  // AO evidence quotes become margin comments too.
+  const annotations = essayText
+    ? resolveAnnotations(essayText, [
+        ...toQuotedAnnotations(obj.annotations),
+        ...base.value.ao_analysis
+          .filter((a) => a.evidence && a.comment)
+          .map((a) => ({ quote: a.evidence, type: 'evidence' as const, ao: a.ao, comment: a.comment })),
+      ])
+    : [];
+
+  const totalPoints = criteriaScores.reduce((sum, c) => sum + c.points, 0);
+  const totalMaxPoints = criteriaScores.reduce((sum, c) => sum + c.max_points, 0);
+  const overallScore = totalMaxPoints > 0 ? Math.round((totalPoints / totalMaxPoints) * 100) : base.value.overall_score;
+  return {
+    ok: true,
+    value: {
+      ...base.value,
+      overall_band: bandForScore(overallScore),
+      overall_score: overallScore,
+      criteria_scores: criteriaScores,
+      total_points: totalPoints,
+      total_max_points: totalMaxPoints,
+      justification,
+      annotations,
+      addressed_improvements: addressedImprovements,
+    },
+  };
+}
+
+/**
+ * Parse raw model text into a validated EssayMarking, or describe why it failed.
+ * Pass the essay text to resolve annotation quotes to character offsets.
+ */
+export function parseEssayMarking(
+  raw: string | null | undefined,
+  rubric: RubricCriterion[] = [],
+  essayText = '',
+  previousImprovements: string[] = []
+): ValidationResult {
+  if (!raw || !raw.trim()) return { ok: false, errors: ['Empty response'] };
+  const parsed = extractJson(raw);
+  if (parsed === null) return { ok: false, errors: ['Response is not valid JSON'] };
+  return validateEssayMarking(parsed, rubric, essayText, previousImprovements);
+}
+
+/**
+ * Previous-draft improvements from a request body: trimmed, non-empty strings only, at most `limit`.
+ */
+export function toPreviousImprovements(value: unknown, limit = MAX_PREVIOUS_IMPROVEMENTS): string[] {
+  return (toStringList(Array.isArray(value) ? value : []) ?? []).slice(0, limit);
+}
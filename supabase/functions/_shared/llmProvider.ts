@@ -0,0 +1,185 @@
+// Pluggable LLM provider layer for the edge functions (Deno counterpart of api/_lib/llmProvider.ts).
+// Select with: supabase secrets set LLM_PROVIDER=openai | azure | local | mock (defaults to openai)
+
+import { mockCompletion, mockStream } from "./mockProvider.ts";
+
+export type ProviderName = "openai" | "azure" | "local" | "mock";
+export type ModelTier = "quality" | "fast";
+export type CompletionPurpose = "marking" | "score" | "band-analysis" | "safeguarding";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  purpose: CompletionPurpose;
+  tier: ModelTier;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+  context?: { essayText: string; rubricCriteria: string; previousImprovements?: string[] };
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  complete(request: CompletionRequest): Promise<string | null>;
+  /** Same request, yielding content deltas as the model produces them */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+export class LLMConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LLMConfigError";
+  }
+}
+
+/**
+ * Non-2xx response from an upstream provider. `status` mirrors the OpenAI SDK error shape.
+ */
+export class LLMProviderError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "LLMProviderError";
+    this.status = status;
+  }
+}
+
+const DEFAULT_MODELS: Record<ModelTier, string> = {
+  quality: "gpt-4o",
+  fast: "gpt-4o-mini",
+};
+
+function env(key: string): string | undefined {
+  return Deno.env.get(key) || undefined;
+}
+
+function modelFor(tier: ModelTier, fallback?: string): string {
+  const override = tier === "quality" ? env("LLM_MODEL_QUALITY") : env("LLM_MODEL_FAST");
+  return override || fallback || DEFAULT_MODELS[tier];
+}
+
+function createChatProvider(
+  name: ProviderName,
+  urlFor: (tier: ModelTier) => string,
+  headers: Record<string, string>,
+  models: Record<ModelTier, string>,
+): LLMProvider {
+  const post = async (request: CompletionRequest, stream: boolean): Promise<Response> => {
+    const resp = await fetch(urlFor(request.tier), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({
+        model: models[request.tier],
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.json ? { response_format: { type: "json_object" } } : {}),
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal: request.signal,
+    });
+
+    if (!resp.ok) {
+      const text = await resp.text();
+      throw new LLMProviderError(resp.status, `${name} API error (${resp.status}): ${text}`);
+    }
+    return resp;
+  };
+
+  return {
+    name,
+    async complete(request) {
+      const data = await (await post(request, false)).json();
+      return data?.choices?.[0]?.message?.content ?? null;
+    },
+    async *stream(request) {
+      const resp = await post(request, true);
+      if (!resp.body) throw new LLMProviderError(502, `${name} API returned an empty stream`);
+
+      // OpenAI-compatible SSE: "data: {chunk}" lines, terminated by "data: [DONE]"
+      const reader = resp.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith("data:")) continue;
+          const payload = data.slice(5).trim();
+          if (payload === "[DONE]") return;
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Build a provider from function secrets. Throws LLMConfigError if misconfigured.
+ */
+export function getLLMProvider(): LLMProvider {
+  const name = (env("LLM_PROVIDER") || "openai").trim().toLowerCase() as ProviderName;
+
+  switch (name) {
+    case "openai": {
+      const apiKey = env("OPENAI_API_KEY");
+      if (!apiKey) throw new LLMConfigError("Server misconfiguration: missing OPENAI_API_KEY");
+      return createChatProvider(
+        "openai",
+        () => "https://api.openai.com/v1/chat/completions",
+        { Authorization: `Bearer ${apiKey}` },
+        { quality: modelFor("quality"), fast: modelFor("fast") },
+      );
+    }
+    case "azure": {
+      const apiKey = env("AZURE_OPENAI_API_KEY");
+      const endpoint = env("AZURE_OPENAI_ENDPOINT");
+      if (!apiKey || !endpoint) {
+        throw new LLMConfigError("Server misconfiguration: missing AZURE_OPENAI_API_KEY or AZURE_OPENAI_ENDPOINT");
+      }
+      const apiVersion = env("AZURE_OPENAI_API_VERSION") || "2024-10-21";
+      const deployments: Record<ModelTier, string> = {
+        quality: env("AZURE_OPENAI_DEPLOYMENT_QUALITY") || modelFor("quality"),
+        fast: env("AZURE_OPENAI_DEPLOYMENT_FAST") || env("AZURE_OPENAI_DEPLOYMENT_QUALITY") || modelFor("fast"),
+      };
+      return createChatProvider(
+        "azure",
+        (tier) => `${endpoint.replace(/\/$/, "")}/openai/deployments/${deployments[tier]}/chat/completions?api-version=${apiVersion}`,
+        { "api-key": apiKey },
+        deployments,
+      );
+    }
+    case "local": {
+      const baseUrl = env("LOCAL_LLM_BASE_URL");
+      if (!baseUrl) throw new LLMConfigError("Server misconfiguration: missing LOCAL_LLM_BASE_URL");
+      return createChatProvider(
+        "local",
+        () => `${baseUrl.replace(/\/$/, "")}/chat/completions`,
+        { Authorization: `Bearer ${env("LOCAL_LLM_API_KEY") || "local"}` },
+        { quality: modelFor("quality", env("LOCAL_LLM_MODEL")), fast: modelFor("fast", env("LOCAL_LLM_MODEL")) },
+      );
+    }
+    case "mock":
+      return {
+        name: "mock",
+        async complete(request) {
+          return mockCompletion(request);
+        },
+        stream(request) {
+          return mockStream(request);
+        },
+      };
+    default:
+      throw new LLMConfigError(`Server misconfiguration: unknown LLM_PROVIDER "${name}"`);
+  }
+}
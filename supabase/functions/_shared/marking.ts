@@ -0,0 +1,165 @@
+// Single-call essay marking for the edge functions (Deno copy of api/_lib/marking.ts).
+
+import {
+  MARKING_JSON_SHAPE,
+  FeedbackValidationError,
+  extractPartialFeedback,
+  parseEssayMarking,
+  parseRubricCriteria,
+  type EssayMarking,
+  type PartialFeedback,
+} from './feedbackSchema.ts';
+import type { ChatMessage, CompletionRequest, LLMProvider } from './llmProvider.ts';
+
+// One initial attempt plus one repair attempt when the output fails validation
+const MAX_ATTEMPTS = 2;
+
+export interface MarkingInput {
+  essayText: string;
+  rubricCriteria: string;
+  examBoard?: string;
+  customPrompt?: string;
+  previousImprovements?: string[]; // "Areas for Improvement" from the previous draft, when this is a redraft
+}
+
+export interface MarkingOptions {
+  /** Stream the first attempt, reporting strengths/improvements/suggested feedback as they arrive */
+  onPartial?: (partial: PartialFeedback) => void;
+  signal?: AbortSignal;
+}
+
+export function buildMarkingMessages({ essayText, rubricCriteria, examBoard, customPrompt, previousImprovements = [] }: MarkingInput): ChatMessage[] {
+  const redraft = previousImprovements.length > 0
+    ? `
+
+🔁 REDRAFT: the feedback on this student's previous draft gave these Areas for Improvement:
+${previousImprovements.map((item, i) => `${i + 1}. ${item}`).join('\n')}
+
+Add one addressed_improvements entry per item above, in the same order, copying the improvement text exactly. Use "addressed" when this draft clearly acts on it, "partly_addressed" when it makes a start, and "not_addressed" otherwise, with a short quote or explanation from this draft as evidence.`
+    : '';
+
+  return [
+    {
+      role: 'system',
+      content: `You are an experienced GCSE English teacher and examiner${examBoard ? ` for ${examBoard}` : ''}. Provide warm, authentic feedback as if speaking face-to-face with your student.
+
+${customPrompt ? `TEACHER INSTRUCTION: ${customPrompt}\n` : ''}
+
+📋 YOUR TASK:
+1. Assess against GCSE Assessment Objectives (AO1-AO4 where applicable)
+2. Assign band levels (1=emerging, 2-3=developing, 4-5=secure, 6=exceptional)
+3. Quote specific evidence from their writing (exact quotes, copied verbatim)
+4. Score every rubric criterion in points out of that criterion's own maximum (shown in brackets in the rubric), and make overall_score and overall_band consistent with those points. Where a criterion lists levels with mark ranges, decide the best-fit level from its descriptor first, then award marks within that level's range
+5. Return ONLY a JSON object matching the response format below
+
+✨ TONE:
+- Encouraging yet honest - celebrate wins, be constructive about gaps
+- Specific over generic ("Your metaphor 'time is a thief' creates..." not "Good imagery")
+- Natural speech patterns ("I really liked..." "Have you considered..." "One thing to work on...")
+- Avoid: "overall", "in conclusion", "the student demonstrates", robotic lists
+
+🎯 ASSESSMENT OBJECTIVES (adapt to rubric):
+- AO1: Ideas, themes, purpose
+- AO2: Language, structure, form techniques
+- AO3: Context (if relevant)
+- AO4: SPaG (spelling, punctuation, grammar)
+
+📊 BAND DESCRIPTORS:
+Band 6 (90-100%): Perceptive, sophisticated, compelling
+Band 5 (75-89%): Clear, effective, well-developed
+Band 4 (60-74%): Explained, some development, generally clear
+Band 3 (45-59%): Attempts made, simple ideas, basic clarity
+Band 2 (30-44%): Limited, unclear, minimal development
+Band 1 (0-29%): Very limited, unclear purpose
+
+📦 RESPONSE FORMAT (JSON only, no prose):
+${MARKING_JSON_SHAPE}`,
+    },
+    {
+      role: 'user',
+      content: `Assess this essay using GCSE standards. Provide detailed analysis.
+
+📋 RUBRIC:
+${rubricCriteria}
+
+📝 ESSAY:
+${essayText}
+
+Include one ao_analysis entry per Assessment Objective assessed, and one criteria_scores entry per rubric criterion, using the criterion name exactly as written and its maximum points as max_points.
+
+Add 4-8 annotations: margin comments on specific passages. Each quote must be copied character-for-character from the essay (no paraphrasing, no added punctuation) so it can be located in the text.
+
+Be specific. Quote their work. Sound like a real teacher, not a robot. Return JSON only.${redraft}`,
+    },
+  ];
+}
+
+async function streamContent(
+  llm: LLMProvider,
+  request: CompletionRequest,
+  onPartial: (partial: PartialFeedback) => void
+): Promise<string> {
+  let content = '';
+  let lastSent = '';
+  for await (const delta of llm.stream(request)) {
+    content += delta;
+    const partial = extractPartialFeedback(content);
+    const serialised = JSON.stringify(partial);
+    if (serialised !== lastSent) {
+      lastSent = serialised;
+      onPartial(partial);
+    }
+  }
+  return content;
+}
+
+/**
+ * Mark an essay in one model call, repairing malformed output once before giving up.
+ * Criterion points are checked against the rubric's maxPoints and summed into the weighted total.
+ * For a redraft, the result also says which of the previous draft's improvements were acted on.
+ * Throws FeedbackValidationError when the output can't be turned into a valid EssayMarking.
+ */
+export async function markEssay(llm: LLMProvider, input: MarkingInput, options: MarkingOptions = {}): Promise<EssayMarking> {
+  const messages = buildMarkingMessages(input);
+  const rubric = parseRubricCriteria(input.rubricCriteria);
+  const previousImprovements = input.previousImprovements ?? [];
+  let lastErrors: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const request: CompletionRequest = {
+      purpose: 'marking',
+      tier: 'quality',
+      messages,
+      temperature: attempt === 1 ? 0.85 : 0.3,
+      // Room for the verdicts on the previous draft's improvements
+      maxTokens: previousImprovements.length > 0 ? 2200 : 1800,
+      json: true,
+      context: { essayText: input.essayText, rubricCriteria: input.rubricCriteria, previousImprovements },
+      signal: options.signal,
+    };
+    // Repair attempts are short and not streamed; the caller already has the first attempt's partial output
+    const content = options.onPartial && attempt === 1
+      ? await streamContent(llm, request, options.onPartial)
+      : await llm.complete(request);
+
+    const result = parseEssayMarking(content, rubric, input.essayText, previousImprovements);
+    if (result.ok) return result.value;
+
+    lastErrors = result.errors;
+    console.warn(`⚠️ Marking output failed validation (attempt ${attempt}/${MAX_ATTEMPTS}):`, result.errors);
+    // Ask the model to repair its own output against the reported errors
+    messages.push(
+      { role: 'assistant', content: content || '' },
+      {
+        role: 'user',
+        content: `Your response did not match the required JSON format:\n- ${result.errors.join('\n- ')}\n\nReturn the corrected JSON object only, matching:\n${MARKING_JSON_SHAPE}`,
+      }
+    );
+  }
+
+  throw new FeedbackValidationError(
+    lastErrors.includes('Empty response') ? 'empty_model_output' : 'invalid_model_output',
+    'The AI returned feedback in an unexpected format. Please try again.',
+    lastErrors
+  );
+}
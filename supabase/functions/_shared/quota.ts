@@ -0,0 +1,184 @@
+// Monthly essay quotas per plan for the edge functions (Deno copy of api/_lib/quota.ts).
+// One ledger row = one essay marked, reserved before the model call and released if marking fails.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.4.0";
+
+export type PlanName = 'free' | 'teacher_pro' | 'teacher_pro_plus' | 'school';
+
+export interface PlanQuota {
+  monthlyEssays: number;
+  dailyEssays: number | null; // null = no daily cap
+}
+
+/**
+ * Essays per calendar month (UTC). The "unlimited" paid tiers get a fair-use ceiling.
+ * Free keeps the 3/day limit advertised on the pricing page.
+ */
+export const PLAN_QUOTAS: Record<PlanName, PlanQuota> = {
+  free: { monthlyEssays: 30, dailyEssays: 3 },
+  teacher_pro: { monthlyEssays: 500, dailyEssays: null },
+  teacher_pro_plus: { monthlyEssays: 2000, dailyEssays: null },
+  school: { monthlyEssays: 10000, dailyEssays: null },
+};
+
+const PLAN_LABELS: Record<PlanName, string> = {
+  free: 'Free',
+  teacher_pro: 'Teacher Pro',
+  teacher_pro_plus: 'Teacher Pro Plus',
+  school: 'School',
+};
+
+export function toPlanName(value: unknown): PlanName {
+  return typeof value === 'string' && value in PLAN_QUOTAS ? (value as PlanName) : 'free';
+}
+
+/**
+ * The user's plan: their own subscription, or 'school' when they belong to a school-plan workspace.
+ */
+export async function loadEffectivePlan(supabase: SupabaseClient, userId: string): Promise<PlanName> {
+  const { data, error } = await supabase.rpc('effective_plan', { p_user_id: userId });
+  if (error) {
+    console.error('❌ Failed to load profile plan:', error);
+  }
+  return toPlanName(data);
+}
+
+export type QuotaPeriod = 'month' | 'day';
+export type QuotaErrorCode = 'quota_exceeded' | 'daily_limit_reached';
+
+export interface QuotaStatus {
+  plan: PlanName;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string;
+}
+
+/**
+ * Raised when a plan's allowance is used up. 402 for the monthly quota (upgrade needed),
+ * 429 for the free plan's daily cap (wait or upgrade).
+ */
+export class QuotaExceededError extends Error {
+  status: 402 | 429;
+  code: QuotaErrorCode;
+  plan: PlanName;
+  period: QuotaPeriod;
+  limit: number;
+  used: number;
+  resetsAt: string;
+
+  constructor(plan: PlanName, period: QuotaPeriod, limit: number, used: number, resetsAt: string) {
+    super(
+      period === 'month'
+        ? `You've used all ${limit} essays included in the ${PLAN_LABELS[plan]} plan this month. ${plan === 'school' ? 'Contact us to raise your limit.' : 'Upgrade to keep marking.'}`
+        : `You've reached today's limit of ${limit} AI-marked essays on the ${PLAN_LABELS[plan]} plan. Upgrade for unlimited daily marking.`
+    );
+    this.name = 'QuotaExceededError';
+    this.status = period === 'month' ? 402 : 429;
+    this.code = period === 'month' ? 'quota_exceeded' : 'daily_limit_reached';
+    this.plan = plan;
+    this.period = period;
+    this.limit = limit;
+    this.used = used;
+    this.resetsAt = resetsAt;
+  }
+
+  /** Seconds until the allowance resets, for the Retry-After header */
+  retryAfterSeconds(now = new Date()): number {
+    return Math.max(1, Math.ceil((new Date(this.resetsAt).getTime() - now.getTime()) / 1000));
+  }
+
+  toResponseBody() {
+    return {
+      error: this.message,
+      code: this.code,
+      plan: this.plan,
+      period: this.period,
+      limit: this.limit,
+      used: this.used,
+      resets_at: this.resetsAt,
+      upgrade_url: '/pricing',
+    };
+  }
+}
+
+function periodBounds(period: QuotaPeriod, now: Date): { start: Date; end: Date } {
+  if (period === 'month') {
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+  }
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+  };
+}
+
+export interface UsageReservation extends QuotaStatus {
+  ids: string[]; // usage_ledger rows held for this request
+}
+
+/**
+ * Reserve `essays` essays of the user's allowance before marking them. The check and the ledger insert
+ * happen in one database call, so concurrent requests can't both pass the check.
+ * Throws QuotaExceededError when either the monthly quota or the daily cap would be exceeded.
+ */
+export async function reserveUsage(
+  supabase: SupabaseClient,
+  entry: { userId: string; plan: PlanName; endpoint: string; provider?: string },
+  essays = 1,
+  now = new Date()
+): Promise<UsageReservation> {
+  const quota = PLAN_QUOTAS[entry.plan];
+  const month = periodBounds('month', now);
+  const day = periodBounds('day', now);
+  const { data, error } = await supabase.rpc('reserve_usage', {
+    p_user_id: entry.userId,
+    p_plan: entry.plan,
+    p_endpoint: entry.endpoint,
+    p_provider: entry.provider ?? null,
+    p_month_start: month.start.toISOString(),
+    p_monthly_limit: quota.monthlyEssays,
+    p_day_start: day.start.toISOString(),
+    p_daily_limit: quota.dailyEssays,
+    p_essays: essays,
+  });
+  if (error) throw error;
+
+  const row = (Array.isArray(data) ? data[0] : data) as {
+    reservation_ids: string[] | null;
+    used_this_month: number;
+    used_today: number;
+    exceeded: QuotaPeriod | null;
+  } | null;
+  if (!row) throw new Error('Usage reservation returned no result');
+  if (row.exceeded === 'month') {
+    throw new QuotaExceededError(entry.plan, 'month', quota.monthlyEssays, row.used_this_month, month.end.toISOString());
+  }
+  if (row.exceeded === 'day') {
+    throw new QuotaExceededError(entry.plan, 'day', quota.dailyEssays ?? 0, row.used_today, day.end.toISOString());
+  }
+
+  const used = row.used_this_month + essays;
+  return {
+    ids: row.reservation_ids || [],
+    plan: entry.plan,
+    limit: quota.monthlyEssays,
+    used,
+    remaining: quota.monthlyEssays - used,
+    resetsAt: month.end.toISOString(),
+  };
+}
+
+/**
+ * Give a reservation back when marking fails or is cancelled. Failed model calls are never charged.
+ */
+export async function releaseUsage(supabase: SupabaseClient, reservation: Pick<UsageReservation, 'ids'>): Promise<void> {
+  if (reservation.ids.length === 0) return;
+  const { error } = await supabase.from('usage_ledger').delete().in('id', reservation.ids);
+  if (error) {
+    // Don't hide the marking error behind a ledger failure; the teacher is over-counted by one at worst
+    console.error('❌ Failed to release usage reservation:', error);
+  }
+}
@@ -1,25 +1,20 @@
 // Supabase Edge Function: generate-feedback
 // Set your secrets with: supabase secrets set OPENAI_API_KEY=sk-proj-...
+// Choose a provider with: supabase secrets set LLM_PROVIDER=openai|azure|local|mock
 // Deploy with: supabase functions deploy generate-feedback
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.4.0";
+import { FeedbackValidationError, toPreviousImprovements, type EssayMarking } from "../_shared/feedbackSchema.ts";
+import { getLLMProvider, LLMConfigError, type LLMProvider } from "../_shared/llmProvider.ts";
+import { markEssay } from "../_shared/marking.ts";
+import { loadEffectivePlan, QuotaExceededError, releaseUsage, reserveUsage, type UsageReservation } from "../_shared/quota.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-type CriteriaMatch = { criterion: string; examples: string[] };
-type AiFeedback = {
-  grammar_issues: string[];
-  strengths: string[];
-  improvements: string[];
-  criteria_matches: CriteriaMatch[];
-  suggested_feedback: string;
-  overall_score: number;
-};
-
 serve(async (req: Request): Promise<Response> => {
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: { ...corsHeaders } });
@@ -77,12 +72,15 @@ serve(async (req: Request): Promise<Response> => {
     );
   }
 
-  const { essay, rubricCriteria, type, customPrompt } = (body as { 
+  const { essay, rubricCriteria, type, customPrompt, stream } = (body as { 
     essay?: string
     rubricCriteria?: string
     type?: 'feedback' | 'score' | 'both'
     customPrompt?: string
+    stream?: boolean
   }) ?? {};
+  // Redrafts: the previous draft's "Areas for Improvement", so the marking can say which were acted on
+  const previousImprovements = toPreviousImprovements((body as { previousImprovements?: unknown })?.previousImprovements);
 
   if (typeof essay !== "string" || typeof rubricCriteria !== "string") {
     return new Response(
@@ -101,131 +99,133 @@ serve(async (req: Request): Promise<Response> => {
     );
   }
 
-  const apiKey = Deno.env.get("OPENAI_API_KEY");
-  if (!apiKey) {
+  // Plan lookup and usage ledger use the service role directly, not the caller's RLS context
+  const admin = createClient(supabaseUrl, supabaseServiceKey);
+  const plan = await loadEffectivePlan(admin, user.id);
+
+  let llm: LLMProvider;
+  try {
+    llm = getLLMProvider();
+  } catch (err) {
+    const message = err instanceof LLMConfigError ? err.message : "Server misconfiguration";
     return new Response(
-      JSON.stringify({ error: "Server misconfiguration: missing OPENAI_API_KEY" }),
+      JSON.stringify({ error: message }),
       { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
     );
   }
 
-  const requestType = type || 'both';
+  // Reserved before the model call and given back if marking fails
+  let reservation: UsageReservation;
+  try {
+    reservation = await reserveUsage(admin, { userId: user.id, plan, endpoint: "edge:generate-feedback", provider: llm.name });
+  } catch (err) {
+    if (err instanceof QuotaExceededError) {
+      return new Response(JSON.stringify(err.toResponseBody()), {
+        status: err.status,
+        headers: {
+          "Content-Type": "application/json",
+          "Retry-After": String(err.retryAfterSeconds()),
+          ...corsHeaders,
+        },
+      });
+    }
+    console.error("quota check error", err);
+    return new Response(
+      JSON.stringify({ error: "Failed to check usage quota" }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
 
-  // Helper to call OpenAI chat completions
-  async function generateFeedback(): Promise<string> {
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
+  // Server-sent events: `partial` as strengths, improvements and suggested feedback arrive,
+  // then `done` with { feedback, score } (or `error`). Same event format as /api/generate-feedback.
+  if (stream === true) {
+    const encoder = new TextEncoder();
+    const events = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: string, data: unknown) => {
+          try {
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          } catch {
+            // Client already gone
+          }
+        };
+        try {
+          const feedback = await markEssay(
+            llm,
+            { essayText: essay, rubricCriteria, customPrompt, previousImprovements },
+            { signal: req.signal, onPartial: (partial) => send("partial", partial) },
+          );
+          send("done", { feedback, score: Math.round(feedback.overall_score) });
+        } catch (err) {
+          await releaseUsage(admin, reservation);
+          if (req.signal.aborted) {
+            // Teacher cancelled; nothing is charged
+            console.log("generate-feedback stream cancelled by client");
+          } else {
+            console.error("generate-feedback stream error", err);
+            send("error", {
+              error: err instanceof Error ? err.message : "Failed to generate feedback",
+              code: err instanceof FeedbackValidationError ? err.code : undefined,
+            });
+          }
+        }
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client disconnecting
+        }
       },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          { 
-            role: "system", 
-            content: `You are an experienced GCSE English teacher and examiner. Provide warm, authentic feedback as if speaking face-to-face with your student.
-
-${customPrompt ? `TEACHER INSTRUCTION: ${customPrompt}\n` : ''}
-
-🛡️ SAFEGUARDING PROTOCOL:
-If the student's work contains explicit mentions or strong indicators of self-harm, abuse, severe violence, or radicalization:
-1. Start your response with "⚠️ SAFEGUARDING ALERT: This work contains concerning themes. Please review in accordance with your school's safeguarding policy."
-2. Proceed with the academic assessment as normal, but maintain a neutral, professional tone.
-
-📋 YOUR TASK:
-1. Assess against GCSE Assessment Objectives (AO1-AO4 where applicable)
-2. Assign band levels (1=emerging, 2-3=developing, 4-5=secure, 6=exceptional)
-3. Quote specific evidence from their writing
-5. Provide a JSON object with breakdown scores for each rubric criterion (0-100)
-
-✨ TONE:
-- Encouraging yet honest - celebrate wins, be constructive about gaps
-- Specific over generic ("Your metaphor 'time is a thief' creates..." not "Good imagery")
-- Natural speech patterns ("I really liked..." "Have you considered..." "One thing to work on...")
-- Avoid: "overall", "in conclusion", "the student demonstrates", robotic lists
-
-🎯 ASSESSMENT OBJECTIVES (adapt to rubric):
-- AO1: Ideas, themes, purpose
-- AO2: Language, structure, form techniques
-- AO3: Context (if relevant)
-- AO4: SPaG (spelling, punctuation, grammar)
+    });
 
-📊 BAND DESCRIPTORS:
-Band 6 (90-100%): Perceptive, sophisticated, compelling
-Band 5 (75-89%): Clear, effective, well-developed
-Band 4 (60-74%): Explained, some development, generally clear
-Band 3 (45-59%): Attempts made, simple ideas, basic clarity
-Band 2 (30-44%): Limited, unclear, minimal development
-Band 1 (0-29%): Very limited, unclear purpose` 
-          },
-          {
-            role: "user",
-            content: `Please grade and provide feedback on this essay using the following rubric:
-            
-            RUBRIC:
-            ${rubricCriteria}
-            
-            ESSAY:
-            ${essay}
-            
-            Provide detailed, helpful feedback that follows the rubric.`,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 1500,
-      }),
+    return new Response(events, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache",
+        ...corsHeaders,
+      },
     });
+  }
 
-    if (!resp.ok) {
-      const text = await resp.text();
-      throw new Error(`OpenAI API error (${resp.status}): ${text}`);
-    }
+  const requestType = type || 'both';
 
-    const data = await resp.json();
-    const content = data?.choices?.[0]?.message?.content;
-    if (!content) throw new Error("No content from OpenAI");
-    return content;
+  // Single-call marking shared with /api/mark-essay, validated and repaired against the schema
+  function generateFeedback(): Promise<EssayMarking> {
+    return markEssay(llm, {
+      essayText: essay as string,
+      rubricCriteria: rubricCriteria as string,
+      customPrompt,
+      previousImprovements,
+    });
   }
 
   async function generateScore(): Promise<number> {
-    const resp = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `You are an expert educator. Return ONLY a number between 0-100 representing the essay score based on the rubric.
+    const content = await llm.complete({
+      purpose: "score",
+      tier: "quality",
+      messages: [
+        {
+          role: "system",
+          content: `You are an expert educator. Return ONLY a number between 0-100 representing the essay score based on the rubric.
             Do not include any other text, just the number.`,
-          },
-          {
-            role: "user",
-            content: `Score this essay on a scale of 0-100 using this rubric:
+        },
+        {
+          role: "user",
+          content: `Score this essay on a scale of 0-100 using this rubric:
             
             RUBRIC:
             ${rubricCriteria}
             
             ESSAY:
             ${essay}`,
-          },
-        ],
-        temperature: 0.5,
-        max_tokens: 10,
-      }),
+        },
+      ],
+      temperature: 0.5,
+      maxTokens: 10,
+      context: { essayText: essay as string, rubricCriteria: rubricCriteria as string },
     });
 
-    if (!resp.ok) {
-      const text = await resp.text();
-      throw new Error(`OpenAI API error (${resp.status}): ${text}`);
-    }
-
-    const data = await resp.json();
-    const scoreText = data?.choices?.[0]?.message?.content?.trim();
+    const scoreText = content?.trim();
     const score = parseInt(scoreText || '0', 10);
     
     if (isNaN(score) || score < 0 || score > 100) {
@@ -235,14 +235,17 @@ Band 1 (0-29%): Very limited, unclear purpose`
   }
 
   try {
-    const result: any = {};
+    const result: { feedback?: EssayMarking; score?: number } = {};
 
     if (requestType === 'feedback' || requestType === 'both') {
       result.feedback = await generateFeedback();
     }
 
-    if (requestType === 'score' || requestType === 'both') {
+    if (requestType === 'score') {
       result.score = await generateScore();
+    } else if (requestType === 'both' && result.feedback) {
+      // Reuse the structured score so feedback and score can never disagree
+      result.score = Math.round(result.feedback.overall_score);
     }
 
     return new Response(JSON.stringify(result), {
@@ -251,6 +254,13 @@ Band 1 (0-29%): Very limited, unclear purpose`
     });
   } catch (err) {
     console.error("generate-feedback error", err);
+    await releaseUsage(admin, reservation);
+    if (err instanceof FeedbackValidationError) {
+      return new Response(
+        JSON.stringify({ error: err.message, code: err.code, details: err.details }),
+        { status: 502, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
     return new Response(
       JSON.stringify({ error: `Failed to generate: ${err instanceof Error ? err.message : 'Unknown error'}` }),
       { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
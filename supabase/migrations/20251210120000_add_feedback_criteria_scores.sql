@@ -0,0 +1,7 @@
+-- Migration: Store the per-criterion breakdown on feedback
+-- Timestamp: 2025-12-10 12:00:00
+-- criteria_scores: [{ "criterion": "AO2", "points": 7, "max_points": 10 }, ...]
+-- points are out of each rubric criterion's maxPoints; overall_score remains the weighted percentage.
+
+ALTER TABLE public.feedback
+ADD COLUMN IF NOT EXISTS criteria_scores jsonb NOT NULL DEFAULT '[]'::jsonb;
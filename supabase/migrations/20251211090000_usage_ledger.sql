@@ -0,0 +1,58 @@
+-- Migration: Usage ledger for server-side plan quotas
+-- Timestamp: 2025-12-11 09:00:00
+-- One row per AI-marked essay, written by the /api marking handlers and the generate-feedback
+-- edge function using the service role. Quotas are counted per calendar month (UTC).
+-- The quota trusts profiles.plan, so only the service role or an admin may change a profile's plan or admin flag.
+
+CREATE TABLE IF NOT EXISTS public.usage_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan text NOT NULL,
+  endpoint text NOT NULL, -- e.g. 'mark-essay', 'edge:generate-feedback'
+  provider text, -- LLM provider that served the request
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_ledger_user_created ON public.usage_ledger(user_id, created_at DESC);
+
+ALTER TABLE public.usage_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Teachers can read their own usage; only the service role writes (no insert/update/delete policies)
+DROP POLICY IF EXISTS "Users can view own usage" ON public.usage_ledger;
+
+CREATE POLICY "Users can view own usage"
+  ON public.usage_ledger FOR SELECT
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.usage_ledger IS 'One row per AI-marked essay, used to enforce monthly plan quotas';
+
+-- Plan and admin flag: only the service role (Stripe webhook, server code) or an admin may change them.
+-- "Profiles update self or admins" has no column guard, so without this a teacher could lift their own quota.
+CREATE OR REPLACE FUNCTION public.guard_profile_plan()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+     OR EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = TRUE) THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' THEN
+    IF COALESCE(NEW.plan, 'free') <> 'free' OR COALESCE(NEW.is_admin, FALSE) THEN
+      RAISE EXCEPTION 'Only an admin can set the plan or admin flag' USING ERRCODE = '42501';
+    END IF;
+  ELSIF NEW.plan IS DISTINCT FROM OLD.plan OR NEW.is_admin IS DISTINCT FROM OLD.is_admin THEN
+    RAISE EXCEPTION 'Only an admin can change the plan or admin flag' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_guard_plan ON public.profiles;
+CREATE TRIGGER profiles_guard_plan
+  BEFORE INSERT OR UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_plan();
+
+REVOKE EXECUTE ON FUNCTION public.guard_profile_plan() FROM PUBLIC, anon, authenticated;
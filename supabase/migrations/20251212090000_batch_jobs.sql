@@ -0,0 +1,252 @@
+-- Migration: Persistent server-side batch marking jobs
+-- Timestamp: 2025-12-12 09:00:00
+-- Teachers enqueue a job with one item per essay; /api/process-batch (Vercel Cron + on-demand kicks)
+-- claims items, marks them and writes essay + feedback rows in one transaction.
+
+-- 1. Tables
+CREATE TABLE IF NOT EXISTS public.batch_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rubric_id uuid NOT NULL REFERENCES public.rubrics(id) ON DELETE CASCADE,
+  name text,
+  ai_pre_mark boolean NOT NULL DEFAULT TRUE,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'paused', 'completed', 'cancelled')),
+  paused_reason text, -- 'teacher', 'quota_exceeded' or 'daily_limit_reached'
+  last_error text,
+  total_items integer NOT NULL DEFAULT 0,
+  completed_items integer NOT NULL DEFAULT 0,
+  failed_items integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS public.batch_job_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id uuid NOT NULL REFERENCES public.batch_jobs(id) ON DELETE CASCADE,
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position integer NOT NULL DEFAULT 0,
+  filename text,
+  title text NOT NULL,
+  content text NOT NULL,
+  word_count integer,
+  student_id uuid REFERENCES public.students(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'error')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  essay_id uuid REFERENCES public.essays(id) ON DELETE SET NULL,
+  feedback_id uuid REFERENCES public.feedback(id) ON DELETE SET NULL,
+  score integer,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_jobs_teacher_created ON public.batch_jobs(teacher_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_batch_job_items_job ON public.batch_job_items(job_id, position);
+CREATE INDEX IF NOT EXISTS idx_batch_job_items_queue ON public.batch_job_items(status, next_attempt_at)
+  WHERE status IN ('pending', 'processing');
+
+-- 2. RLS: teachers manage their own jobs; the worker uses the service role
+ALTER TABLE public.batch_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.batch_job_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers manage own batch jobs" ON public.batch_jobs;
+CREATE POLICY "Teachers manage own batch jobs"
+  ON public.batch_jobs FOR ALL
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+DROP POLICY IF EXISTS "Teachers manage own batch job items" ON public.batch_job_items;
+CREATE POLICY "Teachers manage own batch job items"
+  ON public.batch_job_items FOR ALL
+  USING (teacher_id = auth.uid())
+  WITH CHECK (
+    teacher_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.batch_jobs j WHERE j.id = job_id AND j.teacher_id = auth.uid())
+  );
+
+-- 3. Mark a job completed once nothing is left to process
+CREATE OR REPLACE FUNCTION public.finalize_batch_job(p_job_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.batch_jobs j
+  SET status = 'completed', completed_at = now(), updated_at = now()
+  WHERE j.id = p_job_id
+    AND j.status IN ('queued', 'running')
+    AND NOT EXISTS (
+      SELECT 1 FROM public.batch_job_items i
+      WHERE i.job_id = p_job_id AND i.status IN ('pending', 'processing')
+    );
+$$;
+
+-- 4. Claim up to p_limit due items, at most p_per_teacher in flight per teacher.
+-- Items stuck in 'processing' longer than p_stale_after (worker crashed/timed out) are reclaimed.
+CREATE OR REPLACE FUNCTION public.claim_batch_job_items(
+  p_limit integer,
+  p_teacher_id uuid DEFAULT NULL,
+  p_per_teacher integer DEFAULT 2,
+  p_stale_after interval DEFAULT interval '5 minutes'
+)
+RETURNS SETOF public.batch_job_items
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH candidates AS (
+    SELECT i.id, i.teacher_id, i.next_attempt_at, i.position
+    FROM public.batch_job_items i
+    JOIN public.batch_jobs j ON j.id = i.job_id
+    WHERE j.status IN ('queued', 'running')
+      AND (p_teacher_id IS NULL OR i.teacher_id = p_teacher_id)
+      AND (
+        (i.status = 'pending' AND i.next_attempt_at <= now())
+        OR (i.status = 'processing' AND i.locked_at < now() - p_stale_after)
+      )
+    ORDER BY i.next_attempt_at, i.position
+    LIMIT p_limit * 5
+    FOR UPDATE OF i SKIP LOCKED
+  ), busy AS (
+    SELECT b.teacher_id, count(*) AS n
+    FROM public.batch_job_items b
+    WHERE b.status = 'processing' AND b.locked_at >= now() - p_stale_after
+    GROUP BY b.teacher_id
+  ), chosen AS (
+    SELECT ranked.id
+    FROM (
+      SELECT c.id, c.next_attempt_at, c.position, COALESCE(busy.n, 0) AS busy_n,
+             row_number() OVER (PARTITION BY c.teacher_id ORDER BY c.next_attempt_at, c.position) AS rn
+      FROM candidates c
+      LEFT JOIN busy ON busy.teacher_id = c.teacher_id
+    ) ranked
+    WHERE ranked.rn + ranked.busy_n <= p_per_teacher
+    ORDER BY ranked.next_attempt_at, ranked.position
+    LIMIT p_limit
+  ), claimed AS (
+    UPDATE public.batch_job_items i
+    SET status = 'processing', locked_at = now(), attempts = i.attempts + 1, updated_at = now()
+    FROM chosen
+    WHERE i.id = chosen.id
+    RETURNING i.*
+  ), started AS (
+    UPDATE public.batch_jobs j
+    SET status = 'running', updated_at = now()
+    WHERE j.status = 'queued' AND j.id IN (SELECT claimed.job_id FROM claimed)
+  )
+  SELECT * FROM claimed;
+$$;
+
+-- 5. Save the essay (and feedback, when pre-marked) and complete the item atomically,
+-- so an interrupted run never leaves an essay without its feedback.
+CREATE OR REPLACE FUNCTION public.complete_batch_job_item(p_item_id uuid, p_feedback jsonb DEFAULT NULL)
+RETURNS public.batch_job_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.batch_job_items;
+  v_job public.batch_jobs;
+  v_essay_id uuid;
+  v_feedback_id uuid;
+  v_score integer;
+BEGIN
+  SELECT * INTO v_item FROM public.batch_job_items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND OR v_item.status <> 'processing' THEN
+    RETURN v_item;
+  END IF;
+  SELECT * INTO v_job FROM public.batch_jobs WHERE id = v_item.job_id;
+
+  INSERT INTO public.essays (title, content, word_count, teacher_id, rubric_id, student_id)
+  VALUES (v_item.title, v_item.content, v_item.word_count, v_item.teacher_id, v_job.rubric_id, v_item.student_id)
+  RETURNING id INTO v_essay_id;
+
+  IF p_feedback IS NOT NULL THEN
+    v_score := round((p_feedback->>'overall_score')::numeric);
+    INSERT INTO public.feedback (
+      essay_id, rubric_id, grammar_issues, strengths, improvements, suggested_feedback, overall_score, criteria_scores
+    )
+    VALUES (
+      v_essay_id,
+      v_job.rubric_id,
+      p_feedback->'grammar_issues',
+      p_feedback->'strengths',
+      p_feedback->'improvements',
+      p_feedback->>'suggested_feedback',
+      v_score,
+      COALESCE(p_feedback->'criteria_scores', '[]'::jsonb)
+    )
+    RETURNING id INTO v_feedback_id;
+  END IF;
+
+  UPDATE public.batch_job_items
+  SET status = 'completed', essay_id = v_essay_id, feedback_id = v_feedback_id, score = v_score,
+      last_error = NULL, locked_at = NULL, updated_at = now()
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  UPDATE public.batch_jobs
+  SET completed_items = completed_items + 1, updated_at = now()
+  WHERE id = v_item.job_id;
+  PERFORM public.finalize_batch_job(v_item.job_id);
+
+  RETURN v_item;
+END;
+$$;
+
+-- 6. Record a failed attempt: reschedule at p_retry_at, or mark the item as errored when NULL
+CREATE OR REPLACE FUNCTION public.fail_batch_job_item(p_item_id uuid, p_error text, p_retry_at timestamptz DEFAULT NULL)
+RETURNS public.batch_job_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.batch_job_items;
+BEGIN
+  UPDATE public.batch_job_items
+  SET status = CASE WHEN p_retry_at IS NULL THEN 'error' ELSE 'pending' END,
+      next_attempt_at = COALESCE(p_retry_at, next_attempt_at),
+      last_error = p_error, locked_at = NULL, updated_at = now()
+  WHERE id = p_item_id AND status = 'processing'
+  RETURNING * INTO v_item;
+
+  IF FOUND AND p_retry_at IS NULL THEN
+    UPDATE public.batch_jobs
+    SET failed_items = failed_items + 1, updated_at = now()
+    WHERE id = v_item.job_id;
+    PERFORM public.finalize_batch_job(v_item.job_id);
+  END IF;
+
+  RETURN v_item;
+END;
+$$;
+
+-- Worker-only functions: not callable from the browser
+REVOKE EXECUTE ON FUNCTION public.finalize_batch_job(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_batch_job_items(integer, uuid, integer, interval) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.complete_batch_job_item(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fail_batch_job_item(uuid, text, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.finalize_batch_job(uuid) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_batch_job_items(integer, uuid, integer, interval) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_batch_job_item(uuid, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_batch_job_item(uuid, text, timestamptz) TO service_role;
+
+-- 7. Live progress in BatchProcessor via Realtime
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'batch_jobs') THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE public.batch_jobs;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_publication_tables WHERE pubname = 'supabase_realtime' AND tablename = 'batch_job_items') THEN
+      ALTER PUBLICATION supabase_realtime ADD TABLE public.batch_job_items;
+    END IF;
+  END IF;
+END$$;
@@ -0,0 +1,114 @@
+-- Migration: Anchored inline comments on essays
+-- Timestamp: 2025-12-13 09:00:00
+-- Each row pins a margin comment to an exact character range of essays.content
+-- (content.slice(start_offset, start_offset + length)). AI rows come from the quoted evidence returned
+-- with the marking; teachers can edit or delete them and add their own.
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS public.essay_annotations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  essay_id uuid NOT NULL REFERENCES public.essays(id) ON DELETE CASCADE,
+  feedback_id uuid REFERENCES public.feedback(id) ON DELETE SET NULL,
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_offset integer NOT NULL CHECK (start_offset >= 0),
+  length integer NOT NULL CHECK (length > 0),
+  quote text NOT NULL, -- Passage at the time of annotating, to spot drift if the essay is edited
+  type text NOT NULL DEFAULT 'comment'
+    CHECK (type IN ('strength', 'improvement', 'grammar', 'evidence', 'comment')),
+  ao text, -- Assessment objective, e.g. 'AO2'
+  comment text NOT NULL DEFAULT '',
+  source text NOT NULL DEFAULT 'teacher' CHECK (source IN ('ai', 'teacher')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_essay_annotations_essay ON public.essay_annotations(essay_id, start_offset);
+
+-- 2. RLS: teachers manage annotations on their own essays
+ALTER TABLE public.essay_annotations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers manage own essay annotations" ON public.essay_annotations;
+CREATE POLICY "Teachers manage own essay annotations"
+  ON public.essay_annotations FOR ALL
+  USING (teacher_id = auth.uid())
+  WITH CHECK (
+    teacher_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.essays e WHERE e.id = essay_id AND e.teacher_id = auth.uid())
+  );
+
+-- 3. Batch marking: store the AI annotations alongside the feedback row
+CREATE OR REPLACE FUNCTION public.complete_batch_job_item(p_item_id uuid, p_feedback jsonb DEFAULT NULL)
+RETURNS public.batch_job_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.batch_job_items;
+  v_job public.batch_jobs;
+  v_essay_id uuid;
+  v_feedback_id uuid;
+  v_score integer;
+BEGIN
+  SELECT * INTO v_item FROM public.batch_job_items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND OR v_item.status <> 'processing' THEN
+    RETURN v_item;
+  END IF;
+  SELECT * INTO v_job FROM public.batch_jobs WHERE id = v_item.job_id;
+
+  INSERT INTO public.essays (title, content, word_count, teacher_id, rubric_id, student_id)
+  VALUES (v_item.title, v_item.content, v_item.word_count, v_item.teacher_id, v_job.rubric_id, v_item.student_id)
+  RETURNING id INTO v_essay_id;
+
+  IF p_feedback IS NOT NULL THEN
+    v_score := round((p_feedback->>'overall_score')::numeric);
+    INSERT INTO public.feedback (
+      essay_id, rubric_id, grammar_issues, strengths, improvements, suggested_feedback, overall_score, criteria_scores
+    )
+    VALUES (
+      v_essay_id,
+      v_job.rubric_id,
+      p_feedback->'grammar_issues',
+      p_feedback->'strengths',
+      p_feedback->'improvements',
+      p_feedback->>'suggested_feedback',
+      v_score,
+      COALESCE(p_feedback->'criteria_scores', '[]'::jsonb)
+    )
+    RETURNING id INTO v_feedback_id;
+
+    INSERT INTO public.essay_annotations (
+      essay_id, feedback_id, teacher_id, start_offset, length, quote, type, ao, comment, source
+    )
+    SELECT
+      v_essay_id,
+      v_feedback_id,
+      v_item.teacher_id,
+      (a->>'start_offset')::integer,
+      (a->>'length')::integer,
+      a->>'quote',
+      a->>'type',
+      a->>'ao',
+      COALESCE(a->>'comment', ''),
+      'ai'
+    FROM jsonb_array_elements(COALESCE(p_feedback->'annotations', '[]'::jsonb)) AS a
+    WHERE (a->>'length')::integer > 0;
+  END IF;
+
+  UPDATE public.batch_job_items
+  SET status = 'completed', essay_id = v_essay_id, feedback_id = v_feedback_id, score = v_score,
+      last_error = NULL, locked_at = NULL, updated_at = now()
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  UPDATE public.batch_jobs
+  SET completed_items = completed_items + 1, updated_at = now()
+  WHERE id = v_item.job_id;
+  PERFORM public.finalize_batch_job(v_item.job_id);
+
+  RETURN v_item;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_batch_job_item(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_batch_job_item(uuid, jsonb) TO service_role;
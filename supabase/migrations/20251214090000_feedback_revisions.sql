@@ -0,0 +1,123 @@
+-- Migration: Audit trail of AI output and teacher overrides on feedback
+-- Timestamp: 2025-12-14 09:00:00
+-- Revision 0 is the feedback as first saved (the AI judgement); every later UPDATE that changes a
+-- tracked column appends a teacher revision with the full snapshot, who made it and when.
+-- Rows are written by triggers only, so the history can't be edited from the client.
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS public.feedback_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  feedback_id uuid NOT NULL REFERENCES public.feedback(id) ON DELETE CASCADE,
+  revision_number integer NOT NULL,
+  source text NOT NULL CHECK (source IN ('ai', 'teacher')),
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  overall_score integer,
+  criteria_scores jsonb NOT NULL DEFAULT '[]'::jsonb,
+  strengths jsonb,
+  improvements jsonb,
+  grammar_issues jsonb,
+  suggested_feedback text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (feedback_id, revision_number)
+);
+
+-- 2. RLS: teachers read the history of feedback on their own essays; no write policies
+ALTER TABLE public.feedback_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers can view revisions of their feedback" ON public.feedback_revisions;
+CREATE POLICY "Teachers can view revisions of their feedback"
+  ON public.feedback_revisions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.feedback f
+      JOIN public.essays e ON e.id = f.essay_id
+      WHERE f.id = feedback_revisions.feedback_id AND e.teacher_id = auth.uid()
+    )
+  );
+
+-- 3. Trigger: snapshot on insert (AI) and on every changing update (teacher)
+CREATE OR REPLACE FUNCTION public.record_feedback_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid;
+  v_changed text[] := '{}';
+  v_next integer;
+BEGIN
+  -- Batch marking writes through the service role, where auth.uid() is NULL; attribute it to the essay owner
+  SELECT teacher_id INTO v_actor FROM public.essays WHERE id = NEW.essay_id;
+  v_actor := COALESCE(auth.uid(), v_actor);
+
+  IF TG_OP = 'INSERT' THEN
+    v_next := 0;
+  ELSE
+    IF NEW.overall_score IS DISTINCT FROM OLD.overall_score THEN v_changed := v_changed || 'overall_score'; END IF;
+    IF NEW.criteria_scores IS DISTINCT FROM OLD.criteria_scores THEN v_changed := v_changed || 'criteria_scores'; END IF;
+    IF NEW.strengths IS DISTINCT FROM OLD.strengths THEN v_changed := v_changed || 'strengths'; END IF;
+    IF NEW.improvements IS DISTINCT FROM OLD.improvements THEN v_changed := v_changed || 'improvements'; END IF;
+    IF NEW.grammar_issues IS DISTINCT FROM OLD.grammar_issues THEN v_changed := v_changed || 'grammar_issues'; END IF;
+    IF NEW.suggested_feedback IS DISTINCT FROM OLD.suggested_feedback THEN v_changed := v_changed || 'suggested_feedback'; END IF;
+    IF cardinality(v_changed) = 0 THEN
+      RETURN NEW;
+    END IF;
+    -- The row lock held by the UPDATE serialises concurrent edits of the same feedback
+    SELECT COALESCE(max(revision_number), -1) + 1 INTO v_next
+    FROM public.feedback_revisions WHERE feedback_id = NEW.id;
+  END IF;
+
+  INSERT INTO public.feedback_revisions (
+    feedback_id, revision_number, source, changed_by, changed_fields,
+    overall_score, criteria_scores, strengths, improvements, grammar_issues, suggested_feedback
+  )
+  VALUES (
+    NEW.id, v_next, CASE WHEN v_next = 0 THEN 'ai' ELSE 'teacher' END, v_actor, v_changed,
+    NEW.overall_score, COALESCE(NEW.criteria_scores, '[]'::jsonb), NEW.strengths, NEW.improvements,
+    NEW.grammar_issues, NEW.suggested_feedback
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS feedback_revisions_on_insert ON public.feedback;
+CREATE TRIGGER feedback_revisions_on_insert
+  AFTER INSERT ON public.feedback
+  FOR EACH ROW EXECUTE FUNCTION public.record_feedback_revision();
+
+DROP TRIGGER IF EXISTS feedback_revisions_on_update ON public.feedback;
+CREATE TRIGGER feedback_revisions_on_update
+  AFTER UPDATE ON public.feedback
+  FOR EACH ROW EXECUTE FUNCTION public.record_feedback_revision();
+
+REVOKE EXECUTE ON FUNCTION public.record_feedback_revision() FROM PUBLIC, anon, authenticated;
+
+-- 4. Backfill: existing feedback becomes revision 0 (overrides were never persisted before this)
+INSERT INTO public.feedback_revisions (
+  feedback_id, revision_number, source, changed_by,
+  overall_score, criteria_scores, strengths, improvements, grammar_issues, suggested_feedback, created_at
+)
+SELECT
+  f.id, 0, 'ai', e.teacher_id,
+  f.overall_score, COALESCE(f.criteria_scores, '[]'::jsonb), f.strengths, f.improvements, f.grammar_issues,
+  f.suggested_feedback, COALESCE(f.created_at, now())
+FROM public.feedback f
+LEFT JOIN public.essays e ON e.id = f.essay_id
+WHERE NOT EXISTS (SELECT 1 FROM public.feedback_revisions r WHERE r.feedback_id = f.id);
+
+-- 5. AI vs teacher per feedback, for measuring how often teachers disagree with the AI
+CREATE OR REPLACE VIEW public.feedback_override_summary
+WITH (security_invoker = true) AS
+SELECT
+  ai.feedback_id,
+  ai.overall_score AS ai_score,
+  f.overall_score AS final_score,
+  f.overall_score - ai.overall_score AS score_delta,
+  (SELECT count(*) FROM public.feedback_revisions r WHERE r.feedback_id = ai.feedback_id AND r.source = 'teacher')
+    AS teacher_revisions
+FROM public.feedback_revisions ai
+JOIN public.feedback f ON f.id = ai.feedback_id
+WHERE ai.revision_number = 0;
@@ -0,0 +1,93 @@
+-- Migration: Google Classroom roster, submission import and grade push
+-- Timestamp: 2025-12-15 09:00:00
+-- /api/google-classroom holds the OAuth refresh token (encrypted, service role only), links
+-- students to their Classroom user ID, queues turned-in submissions as batch job items and
+-- records which draft grades were written back.
+
+-- 1. Students: remember the Classroom identity so re-syncs update instead of duplicating
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS google_classroom_id text,
+  ADD COLUMN IF NOT EXISTS classroom_course_id text;
+
+ALTER TABLE public.students DROP CONSTRAINT IF EXISTS students_teacher_google_classroom_id_key;
+ALTER TABLE public.students
+  ADD CONSTRAINT students_teacher_google_classroom_id_key UNIQUE (teacher_id, google_classroom_id);
+
+-- 2. One Classroom connection per teacher
+CREATE TABLE IF NOT EXISTS public.classroom_connections (
+  teacher_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  google_email text,
+  refresh_token_encrypted text NOT NULL,
+  scopes text,
+  connected_at timestamptz NOT NULL DEFAULT now(),
+  last_sync_at timestamptz
+);
+
+-- 3. Courses the teacher has synced, and the class section each maps to
+CREATE TABLE IF NOT EXISTS public.classroom_courses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_id text NOT NULL,
+  name text NOT NULL,
+  section text,
+  class_section text NOT NULL,
+  last_roster_sync_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (teacher_id, course_id)
+);
+
+-- 4. One row per imported submission: where it came from and what was sent back
+CREATE TABLE IF NOT EXISTS public.classroom_submission_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  course_id text NOT NULL,
+  coursework_id text NOT NULL,
+  coursework_title text NOT NULL,
+  max_points numeric, -- NULL for ungraded coursework
+  submission_id text NOT NULL,
+  classroom_user_id text NOT NULL,
+  student_id uuid REFERENCES public.students(id) ON DELETE SET NULL,
+  batch_job_item_id uuid REFERENCES public.batch_job_items(id) ON DELETE SET NULL,
+  draft_grade numeric,
+  grade_pushed_at timestamptz,
+  push_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (teacher_id, submission_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classroom_links_coursework
+  ON public.classroom_submission_links(teacher_id, course_id, coursework_id);
+
+-- 5. RLS: the refresh token never leaves the server; teachers can see and remove their connection
+ALTER TABLE public.classroom_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classroom_courses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classroom_submission_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers view own classroom connection" ON public.classroom_connections;
+CREATE POLICY "Teachers view own classroom connection"
+  ON public.classroom_connections FOR SELECT
+  USING (teacher_id = auth.uid());
+
+DROP POLICY IF EXISTS "Teachers remove own classroom connection" ON public.classroom_connections;
+CREATE POLICY "Teachers remove own classroom connection"
+  ON public.classroom_connections FOR DELETE
+  USING (teacher_id = auth.uid());
+
+REVOKE SELECT ON public.classroom_connections FROM anon, authenticated;
+GRANT SELECT (teacher_id, google_email, scopes, connected_at, last_sync_at)
+  ON public.classroom_connections TO authenticated;
+
+DROP POLICY IF EXISTS "Teachers manage own classroom courses" ON public.classroom_courses;
+CREATE POLICY "Teachers manage own classroom courses"
+  ON public.classroom_courses FOR ALL
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+-- Links are written by the service role only
+DROP POLICY IF EXISTS "Teachers view own classroom submissions" ON public.classroom_submission_links;
+CREATE POLICY "Teachers view own classroom submissions"
+  ON public.classroom_submission_links FOR SELECT
+  USING (teacher_id = auth.uid());
+
+COMMENT ON TABLE public.classroom_connections IS 'Google Classroom OAuth connection per teacher; refresh token is AES-GCM encrypted by the api';
+COMMENT ON TABLE public.classroom_submission_links IS 'Classroom submissions imported as batch job items, and the draft grades pushed back';
@@ -0,0 +1,337 @@
+-- Migration: Safeguarding flags and the DSL escalation queue
+-- Timestamp: 2025-12-16 09:00:00
+-- Every essay is screened by a separate classifier call (/api/safeguarding, or the batch worker) and each
+-- concern is stored as a safeguarding_flags row. Teachers nominate their school's Designated Safeguarding
+-- Lead, who works the flags from /safeguarding: acknowledge, add case notes, resolve with an outcome.
+-- Flags and notes are written by the server or through narrow grants, and notes can't be edited.
+
+-- 1. Safeguarding leads: granted by an admin, nominated by each teacher
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS is_safeguarding_lead boolean NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN public.profiles.is_safeguarding_lead IS 'Can be nominated as a Designated Safeguarding Lead';
+
+-- Profiles are self-updatable, so only admins (or the service role) may change the lead flag
+CREATE OR REPLACE FUNCTION public.guard_safeguarding_lead_flag()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_safeguarding_lead IS DISTINCT FROM OLD.is_safeguarding_lead
+     AND auth.uid() IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = TRUE) THEN
+    RAISE EXCEPTION 'Only an admin can change safeguarding lead status' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_guard_safeguarding_lead ON public.profiles;
+CREATE TRIGGER profiles_guard_safeguarding_lead
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_safeguarding_lead_flag();
+
+CREATE TABLE IF NOT EXISTS public.safeguarding_leads (
+  teacher_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  lead_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  nominated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_safeguarding_leads_lead ON public.safeguarding_leads(lead_id);
+
+ALTER TABLE public.safeguarding_leads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers view own safeguarding lead" ON public.safeguarding_leads;
+CREATE POLICY "Teachers view own safeguarding lead"
+  ON public.safeguarding_leads FOR SELECT
+  USING (teacher_id = auth.uid());
+
+-- True when the caller is the current, still-authorised lead for this teacher
+CREATE OR REPLACE FUNCTION public.is_safeguarding_lead_for(p_teacher_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.safeguarding_leads l
+    JOIN public.profiles p ON p.id = l.lead_id
+    WHERE l.teacher_id = p_teacher_id AND l.lead_id = auth.uid() AND p.is_safeguarding_lead = TRUE
+  );
+$$;
+
+-- 2. Essays: when the classifier last ran, so unscreened essays can be picked up later
+ALTER TABLE public.essays
+  ADD COLUMN IF NOT EXISTS safeguarding_screened_at timestamptz;
+
+-- 3. Flags: one row per concern the classifier raised
+CREATE TABLE IF NOT EXISTS public.safeguarding_flags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Kept when the essay is deleted: the excerpt is part of the safeguarding record
+  essay_id uuid REFERENCES public.essays(id) ON DELETE SET NULL,
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_id uuid REFERENCES public.students(id) ON DELETE SET NULL,
+  category text NOT NULL CHECK (category IN (
+    'self_harm', 'suicidal_ideation', 'physical_abuse', 'sexual_abuse', 'emotional_abuse', 'neglect',
+    'domestic_abuse', 'radicalisation', 'violence', 'exploitation', 'substance_misuse', 'bullying', 'other'
+  )),
+  severity text NOT NULL CHECK (severity IN ('low', 'medium', 'high')),
+  excerpt text NOT NULL,
+  rationale text,
+  classifier text NOT NULL, -- LLM provider that raised the flag
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged', 'resolved')),
+  outcome text,
+  acknowledged_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  acknowledged_at timestamptz,
+  resolved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_safeguarding_flags_teacher_status ON public.safeguarding_flags(teacher_id, status);
+CREATE INDEX IF NOT EXISTS idx_safeguarding_flags_essay ON public.safeguarding_flags(essay_id);
+
+-- 4. Case notes: append-only; status changes are recorded here by trigger
+CREATE TABLE IF NOT EXISTS public.safeguarding_case_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  flag_id uuid NOT NULL REFERENCES public.safeguarding_flags(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  kind text NOT NULL DEFAULT 'note' CHECK (kind IN ('note', 'status')),
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_safeguarding_case_notes_flag ON public.safeguarding_case_notes(flag_id, created_at);
+
+-- 5. RLS: the referring teacher and their lead can read; only the lead changes status; nobody deletes
+ALTER TABLE public.safeguarding_flags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.safeguarding_case_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers and leads view safeguarding flags" ON public.safeguarding_flags;
+CREATE POLICY "Teachers and leads view safeguarding flags"
+  ON public.safeguarding_flags FOR SELECT
+  USING (teacher_id = auth.uid() OR public.is_safeguarding_lead_for(teacher_id));
+
+DROP POLICY IF EXISTS "Leads update safeguarding flags" ON public.safeguarding_flags;
+CREATE POLICY "Leads update safeguarding flags"
+  ON public.safeguarding_flags FOR UPDATE
+  USING (public.is_safeguarding_lead_for(teacher_id))
+  WITH CHECK (public.is_safeguarding_lead_for(teacher_id));
+
+REVOKE INSERT, UPDATE, DELETE ON public.safeguarding_flags FROM anon, authenticated;
+GRANT UPDATE (status, outcome) ON public.safeguarding_flags TO authenticated;
+
+DROP POLICY IF EXISTS "Teachers and leads view case notes" ON public.safeguarding_case_notes;
+CREATE POLICY "Teachers and leads view case notes"
+  ON public.safeguarding_case_notes FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.safeguarding_flags f WHERE f.id = safeguarding_case_notes.flag_id));
+
+DROP POLICY IF EXISTS "Teachers and leads add case notes" ON public.safeguarding_case_notes;
+CREATE POLICY "Teachers and leads add case notes"
+  ON public.safeguarding_case_notes FOR INSERT
+  WITH CHECK (
+    author_id = auth.uid()
+    AND kind = 'note'
+    AND EXISTS (SELECT 1 FROM public.safeguarding_flags f WHERE f.id = safeguarding_case_notes.flag_id)
+  );
+
+REVOKE UPDATE, DELETE ON public.safeguarding_case_notes FROM anon, authenticated;
+
+-- 6. Status workflow: stamp who acknowledged/resolved and log every change as a case note
+CREATE OR REPLACE FUNCTION public.on_safeguarding_flag_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'open' THEN
+    -- Reopening a resolved flag moves it back to acknowledged; it never becomes unseen again
+    RAISE EXCEPTION 'A safeguarding flag cannot be moved back to open' USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.status = 'resolved' THEN
+    IF NEW.outcome IS NULL OR length(trim(NEW.outcome)) = 0 THEN
+      RAISE EXCEPTION 'Record an outcome before resolving a safeguarding flag' USING ERRCODE = '22023';
+    END IF;
+    NEW.resolved_by := auth.uid();
+    NEW.resolved_at := now();
+  ELSE
+    NEW.resolved_by := NULL;
+    NEW.resolved_at := NULL;
+  END IF;
+
+  IF NEW.acknowledged_at IS NULL THEN
+    NEW.acknowledged_by := auth.uid();
+    NEW.acknowledged_at := now();
+  END IF;
+
+  INSERT INTO public.safeguarding_case_notes (flag_id, author_id, kind, body)
+  VALUES (
+    NEW.id,
+    auth.uid(),
+    'status',
+    CASE
+      WHEN NEW.status = 'resolved' THEN 'Resolved: ' || NEW.outcome
+      WHEN OLD.status = 'resolved' THEN 'Reopened'
+      ELSE 'Acknowledged'
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS safeguarding_flags_on_update ON public.safeguarding_flags;
+CREATE TRIGGER safeguarding_flags_on_update
+  BEFORE UPDATE ON public.safeguarding_flags
+  FOR EACH ROW EXECUTE FUNCTION public.on_safeguarding_flag_update();
+
+REVOKE EXECUTE ON FUNCTION public.on_safeguarding_flag_update() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.guard_safeguarding_lead_flag() FROM PUBLIC, anon, authenticated;
+
+-- 7. Nominating a lead by email (teachers can't read other profiles directly)
+CREATE OR REPLACE FUNCTION public.get_safeguarding_lead()
+RETURNS TABLE (lead_id uuid, email text, full_name text, nominated_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.lead_id, p.email, p.full_name, l.nominated_at
+  FROM public.safeguarding_leads l
+  JOIN public.profiles p ON p.id = l.lead_id
+  WHERE l.teacher_id = auth.uid() AND p.is_safeguarding_lead = TRUE;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_safeguarding_lead(p_email text)
+RETURNS TABLE (lead_id uuid, email text, full_name text, nominated_at timestamptz)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_email IS NULL OR length(trim(p_email)) = 0 THEN
+    DELETE FROM public.safeguarding_leads WHERE teacher_id = auth.uid();
+    RETURN;
+  END IF;
+
+  SELECT p.id INTO v_lead_id
+  FROM public.profiles p
+  WHERE lower(p.email) = lower(trim(p_email)) AND p.is_safeguarding_lead = TRUE;
+
+  IF v_lead_id IS NULL THEN
+    RAISE EXCEPTION 'No safeguarding lead with that email. Ask an admin to grant them safeguarding lead access first.'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.safeguarding_leads (teacher_id, lead_id)
+  VALUES (auth.uid(), v_lead_id)
+  ON CONFLICT (teacher_id) DO UPDATE SET lead_id = EXCLUDED.lead_id, nominated_at = now();
+
+  RETURN QUERY SELECT * FROM public.get_safeguarding_lead();
+END;
+$$;
+
+-- 8. The lead's queue: flags with the context they can't read through RLS (essay title, student, teacher)
+CREATE OR REPLACE FUNCTION public.safeguarding_queue()
+RETURNS TABLE (
+  id uuid,
+  essay_id uuid,
+  essay_title text,
+  student_name text,
+  teacher_id uuid,
+  teacher_name text,
+  teacher_email text,
+  category text,
+  severity text,
+  excerpt text,
+  rationale text,
+  status text,
+  outcome text,
+  acknowledged_at timestamptz,
+  resolved_at timestamptz,
+  created_at timestamptz,
+  note_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    f.id, f.essay_id, e.title, s.name, f.teacher_id, tp.full_name, tp.email,
+    f.category, f.severity, f.excerpt, f.rationale, f.status, f.outcome,
+    f.acknowledged_at, f.resolved_at, f.created_at,
+    (SELECT count(*) FROM public.safeguarding_case_notes n WHERE n.flag_id = f.id)
+  FROM public.safeguarding_flags f
+  LEFT JOIN public.essays e ON e.id = f.essay_id
+  LEFT JOIN public.students s ON s.id = f.student_id
+  LEFT JOIN public.profiles tp ON tp.id = f.teacher_id
+  WHERE public.is_safeguarding_lead_for(f.teacher_id)
+  ORDER BY
+    CASE f.status WHEN 'open' THEN 0 WHEN 'acknowledged' THEN 1 ELSE 2 END,
+    CASE f.severity WHEN 'high' THEN 0 WHEN 'medium' THEN 1 ELSE 2 END,
+    f.created_at DESC;
+$$;
+
+-- Full essay text for a flag the caller can see (leads can't read other teachers' essays directly)
+CREATE OR REPLACE FUNCTION public.safeguarding_essay(p_flag_id uuid)
+RETURNS TABLE (title text, content text, created_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.title, e.content, e.created_at
+  FROM public.safeguarding_flags f
+  JOIN public.essays e ON e.id = f.essay_id
+  WHERE f.id = p_flag_id
+    AND (f.teacher_id = auth.uid() OR public.is_safeguarding_lead_for(f.teacher_id));
+$$;
+
+-- Author names on case notes, for both the teacher and the lead
+CREATE OR REPLACE FUNCTION public.safeguarding_case_notes_for(p_flag_id uuid)
+RETURNS TABLE (id uuid, kind text, body text, author_name text, created_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT n.id, n.kind, n.body, COALESCE(p.full_name, p.email), n.created_at
+  FROM public.safeguarding_case_notes n
+  JOIN public.safeguarding_flags f ON f.id = n.flag_id
+  LEFT JOIN public.profiles p ON p.id = n.author_id
+  WHERE n.flag_id = p_flag_id
+    AND (f.teacher_id = auth.uid() OR public.is_safeguarding_lead_for(f.teacher_id))
+  ORDER BY n.created_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_safeguarding_lead_for(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_safeguarding_lead() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_safeguarding_lead(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.safeguarding_queue() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.safeguarding_essay(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.safeguarding_case_notes_for(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_safeguarding_lead_for(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_safeguarding_lead() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_safeguarding_lead(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.safeguarding_queue() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.safeguarding_essay(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.safeguarding_case_notes_for(uuid) TO authenticated;
@@ -0,0 +1,548 @@
+-- Migration: School workspaces (organisations, departments, membership roles)
+-- Timestamp: 2025-12-17 09:00:00
+-- Rubrics and students stay owned by the teacher who created them (teacher_id), and can be shared with
+-- a whole organisation or one of its departments through organisation_id / department_id. Sharing a
+-- class shares the students in that class section. Roles: teacher, head_of_department, school_admin.
+-- Members are managed through RPCs because teachers can't read other profiles (or look them up by email).
+
+-- 1. Organisations and departments
+CREATE TABLE IF NOT EXISTS public.organisations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  plan text NOT NULL DEFAULT 'free' CHECK (plan IN ('free', 'school')),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.departments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organisation_id uuid NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (organisation_id, name),
+  UNIQUE (organisation_id, id) -- target for the composite FKs below
+);
+
+CREATE TABLE IF NOT EXISTS public.organisation_members (
+  organisation_id uuid NOT NULL REFERENCES public.organisations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'teacher' CHECK (role IN ('teacher', 'head_of_department', 'school_admin')),
+  joined_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (organisation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organisation_members_user ON public.organisation_members(user_id);
+
+-- A head_of_department leads every department they belong to
+CREATE TABLE IF NOT EXISTS public.department_members (
+  department_id uuid NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  added_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (department_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_department_members_user ON public.department_members(user_id);
+
+-- 2. Sharing columns. A department share must belong to the same organisation.
+ALTER TABLE public.rubrics
+  ADD COLUMN IF NOT EXISTS organisation_id uuid REFERENCES public.organisations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS department_id uuid;
+
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS organisation_id uuid REFERENCES public.organisations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS department_id uuid;
+
+ALTER TABLE public.rubrics DROP CONSTRAINT IF EXISTS rubrics_department_fkey;
+ALTER TABLE public.rubrics
+  ADD CONSTRAINT rubrics_department_fkey FOREIGN KEY (organisation_id, department_id)
+  REFERENCES public.departments(organisation_id, id);
+
+ALTER TABLE public.students DROP CONSTRAINT IF EXISTS students_department_fkey;
+ALTER TABLE public.students
+  ADD CONSTRAINT students_department_fkey FOREIGN KEY (organisation_id, department_id)
+  REFERENCES public.departments(organisation_id, id);
+
+CREATE INDEX IF NOT EXISTS idx_rubrics_organisation ON public.rubrics(organisation_id) WHERE organisation_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_students_organisation ON public.students(organisation_id) WHERE organisation_id IS NOT NULL;
+
+COMMENT ON COLUMN public.rubrics.organisation_id IS 'Shared with this organisation (NULL = private to teacher_id)';
+COMMENT ON COLUMN public.rubrics.department_id IS 'Narrows an organisation share to one department';
+COMMENT ON COLUMN public.students.organisation_id IS 'Shared with this organisation (NULL = private to teacher_id)';
+COMMENT ON COLUMN public.students.department_id IS 'Narrows an organisation share to one department';
+
+-- 3. Membership helpers (SECURITY DEFINER so policies don't recurse through organisation_members)
+CREATE OR REPLACE FUNCTION public.organisation_role(p_organisation_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.organisation_members
+  WHERE organisation_id = p_organisation_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_department_member(p_department_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.department_members
+    WHERE department_id = p_department_id AND user_id = auth.uid()
+  );
+$$;
+
+-- Members see organisation-wide shares; department shares are limited to the department and school admins
+CREATE OR REPLACE FUNCTION public.can_view_shared(p_organisation_id uuid, p_department_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_organisation_id IS NOT NULL AND CASE public.organisation_role(p_organisation_id)
+    WHEN 'school_admin' THEN TRUE
+    WHEN 'head_of_department' THEN p_department_id IS NULL OR public.is_department_member(p_department_id)
+    WHEN 'teacher' THEN p_department_id IS NULL OR public.is_department_member(p_department_id)
+    ELSE FALSE
+  END;
+$$;
+
+-- School admins manage everything shared with the organisation; heads manage their departments' shares
+CREATE OR REPLACE FUNCTION public.can_manage_shared(p_organisation_id uuid, p_department_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_organisation_id IS NOT NULL AND CASE public.organisation_role(p_organisation_id)
+    WHEN 'school_admin' THEN TRUE
+    WHEN 'head_of_department' THEN p_department_id IS NOT NULL AND public.is_department_member(p_department_id)
+    ELSE FALSE
+  END;
+$$;
+
+-- 4. Only share into workspaces you belong to (the owner policies only check teacher_id), and keep the owner:
+-- the leader update policies below would otherwise let a head of department reassign a colleague's row
+CREATE OR REPLACE FUNCTION public.guard_workspace_share()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.teacher_id IS DISTINCT FROM OLD.teacher_id AND auth.uid() IS NOT NULL THEN
+    RAISE EXCEPTION 'The teacher who owns a rubric or student can''t be changed' USING ERRCODE = '42501';
+  END IF;
+
+  IF auth.uid() IS NULL OR NEW.organisation_id IS NULL THEN
+    IF NEW.organisation_id IS NULL THEN
+      NEW.department_id := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.organisation_id IS NOT DISTINCT FROM OLD.organisation_id
+     AND NEW.department_id IS NOT DISTINCT FROM OLD.department_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.organisation_role(NEW.organisation_id) IS NULL THEN
+    RAISE EXCEPTION 'You are not a member of that workspace' USING ERRCODE = '42501';
+  END IF;
+  IF NEW.department_id IS NOT NULL AND NOT public.can_view_shared(NEW.organisation_id, NEW.department_id) THEN
+    RAISE EXCEPTION 'You can only share with departments you belong to' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rubrics_guard_workspace_share ON public.rubrics;
+CREATE TRIGGER rubrics_guard_workspace_share
+  BEFORE INSERT OR UPDATE ON public.rubrics
+  FOR EACH ROW EXECUTE FUNCTION public.guard_workspace_share();
+
+DROP TRIGGER IF EXISTS students_guard_workspace_share ON public.students;
+CREATE TRIGGER students_guard_workspace_share
+  BEFORE INSERT OR UPDATE ON public.students
+  FOR EACH ROW EXECUTE FUNCTION public.guard_workspace_share();
+
+-- Deleting a department unshares its rows rather than widening them to the whole organisation
+CREATE OR REPLACE FUNCTION public.on_department_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.rubrics SET organisation_id = NULL, department_id = NULL WHERE department_id = OLD.id;
+  UPDATE public.students SET organisation_id = NULL, department_id = NULL WHERE department_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS departments_on_delete ON public.departments;
+CREATE TRIGGER departments_on_delete
+  BEFORE DELETE ON public.departments
+  FOR EACH ROW EXECUTE FUNCTION public.on_department_delete();
+
+-- Only admins (or the service role) may change an organisation's plan
+CREATE OR REPLACE FUNCTION public.guard_organisation_plan()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.plan IS DISTINCT FROM OLD.plan
+     AND auth.uid() IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND is_admin = TRUE) THEN
+    RAISE EXCEPTION 'Only an admin can change a workspace plan' USING ERRCODE = '42501';
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS organisations_guard_plan ON public.organisations;
+CREATE TRIGGER organisations_guard_plan
+  BEFORE UPDATE ON public.organisations
+  FOR EACH ROW EXECUTE FUNCTION public.guard_organisation_plan();
+
+REVOKE EXECUTE ON FUNCTION public.guard_workspace_share() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.on_department_delete() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.guard_organisation_plan() FROM PUBLIC, anon, authenticated;
+
+-- 5. RLS
+ALTER TABLE public.organisations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organisation_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.department_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members view their organisations" ON public.organisations;
+CREATE POLICY "Members view their organisations"
+  ON public.organisations FOR SELECT
+  USING (public.organisation_role(id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "School admins rename organisations" ON public.organisations;
+CREATE POLICY "School admins rename organisations"
+  ON public.organisations FOR UPDATE
+  USING (public.organisation_role(id) = 'school_admin')
+  WITH CHECK (public.organisation_role(id) = 'school_admin');
+
+REVOKE UPDATE ON public.organisations FROM anon, authenticated;
+GRANT UPDATE (name) ON public.organisations TO authenticated;
+
+DROP POLICY IF EXISTS "Members view departments" ON public.departments;
+CREATE POLICY "Members view departments"
+  ON public.departments FOR SELECT
+  USING (public.organisation_role(organisation_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "School admins manage departments" ON public.departments;
+CREATE POLICY "School admins manage departments"
+  ON public.departments FOR ALL
+  USING (public.organisation_role(organisation_id) = 'school_admin')
+  WITH CHECK (public.organisation_role(organisation_id) = 'school_admin');
+
+-- Membership rows are written by the RPCs below
+DROP POLICY IF EXISTS "Members view organisation members" ON public.organisation_members;
+CREATE POLICY "Members view organisation members"
+  ON public.organisation_members FOR SELECT
+  USING (public.organisation_role(organisation_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Members view department members" ON public.department_members;
+CREATE POLICY "Members view department members"
+  ON public.department_members FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.departments d
+    WHERE d.id = department_members.department_id AND public.organisation_role(d.organisation_id) IS NOT NULL
+  ));
+
+-- Shared rubrics and students (the existing owner policies still apply)
+DROP POLICY IF EXISTS "Members can select shared rubrics" ON public.rubrics;
+CREATE POLICY "Members can select shared rubrics"
+  ON public.rubrics FOR SELECT
+  USING (public.can_view_shared(organisation_id, department_id));
+
+DROP POLICY IF EXISTS "Leaders can update shared rubrics" ON public.rubrics;
+CREATE POLICY "Leaders can update shared rubrics"
+  ON public.rubrics FOR UPDATE
+  USING (public.can_manage_shared(organisation_id, department_id))
+  WITH CHECK (organisation_id IS NULL OR public.can_manage_shared(organisation_id, department_id));
+
+DROP POLICY IF EXISTS "Members can select shared students" ON public.students;
+CREATE POLICY "Members can select shared students"
+  ON public.students FOR SELECT
+  USING (public.can_view_shared(organisation_id, department_id));
+
+DROP POLICY IF EXISTS "Leaders can update shared students" ON public.students;
+CREATE POLICY "Leaders can update shared students"
+  ON public.students FOR UPDATE
+  USING (public.can_manage_shared(organisation_id, department_id))
+  WITH CHECK (organisation_id IS NULL OR public.can_manage_shared(organisation_id, department_id));
+
+-- 6. Feedback follows the essay. The original policies also matched on rubric ownership, which would let the
+-- owner of a shared rubric read and edit colleagues' feedback.
+DROP POLICY IF EXISTS "Teachers can select feedback for their essays/rubrics" ON public.feedback;
+DROP POLICY IF EXISTS "Teachers can insert feedback for their essays/rubrics" ON public.feedback;
+DROP POLICY IF EXISTS "Teachers can update feedback for their essays/rubrics" ON public.feedback;
+DROP POLICY IF EXISTS "Teachers can delete feedback for their essays/rubrics" ON public.feedback;
+DROP POLICY IF EXISTS "Teachers manage feedback for their essays" ON public.feedback;
+
+CREATE POLICY "Teachers manage feedback for their essays"
+  ON public.feedback FOR ALL
+  USING (EXISTS (SELECT 1 FROM public.essays e WHERE e.id = feedback.essay_id AND e.teacher_id = auth.uid()))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.essays e WHERE e.id = feedback.essay_id AND e.teacher_id = auth.uid()));
+
+-- Deleting a rubric cascades to batch jobs, so one that colleagues have marked with can only be made private
+CREATE OR REPLACE FUNCTION public.guard_shared_rubric_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.essays WHERE rubric_id = OLD.id AND teacher_id <> OLD.teacher_id)
+     OR EXISTS (SELECT 1 FROM public.batch_jobs WHERE rubric_id = OLD.id AND teacher_id <> OLD.teacher_id) THEN
+    RAISE EXCEPTION 'Colleagues have marked essays with this rubric, so it can''t be deleted. Make it private instead.'
+      USING ERRCODE = '23503';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rubrics_guard_shared_delete ON public.rubrics;
+CREATE TRIGGER rubrics_guard_shared_delete
+  BEFORE DELETE ON public.rubrics
+  FOR EACH ROW EXECUTE FUNCTION public.guard_shared_rubric_delete();
+
+REVOKE EXECUTE ON FUNCTION public.guard_shared_rubric_delete() FROM PUBLIC, anon, authenticated;
+
+-- 7. Workspaces and membership
+CREATE OR REPLACE FUNCTION public.create_organisation(p_name text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.organisations (name, created_by)
+  VALUES (trim(p_name), auth.uid())
+  RETURNING id INTO v_id;
+
+  INSERT INTO public.organisation_members (organisation_id, user_id, role)
+  VALUES (v_id, auth.uid(), 'school_admin');
+
+  RETURN v_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.organisation_members_for(p_organisation_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  full_name text,
+  role text,
+  department_ids uuid[],
+  joined_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.user_id,
+    p.email,
+    p.full_name,
+    m.role,
+    COALESCE(
+      ARRAY(
+        SELECT dm.department_id
+        FROM public.department_members dm
+        JOIN public.departments d ON d.id = dm.department_id
+        WHERE dm.user_id = m.user_id AND d.organisation_id = m.organisation_id
+      ),
+      '{}'
+    ),
+    m.joined_at
+  FROM public.organisation_members m
+  LEFT JOIN public.profiles p ON p.id = m.user_id
+  WHERE m.organisation_id = p_organisation_id
+    AND public.organisation_role(p_organisation_id) IS NOT NULL
+  ORDER BY
+    CASE m.role WHEN 'school_admin' THEN 0 WHEN 'head_of_department' THEN 1 ELSE 2 END,
+    lower(COALESCE(p.full_name, p.email));
+$$;
+
+-- Add a member by email; school admins only. Existing members keep their role.
+CREATE OR REPLACE FUNCTION public.add_organisation_member(p_organisation_id uuid, p_email text, p_role text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF public.organisation_role(p_organisation_id) IS DISTINCT FROM 'school_admin' THEN
+    RAISE EXCEPTION 'Only a school admin can add members' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT p.id INTO v_user_id FROM public.profiles p WHERE lower(p.email) = lower(trim(p_email));
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account with that email. Ask them to sign up first.' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.organisation_members (organisation_id, user_id, role)
+  VALUES (p_organisation_id, v_user_id, COALESCE(p_role, 'teacher'))
+  ON CONFLICT (organisation_id, user_id) DO NOTHING;
+
+  RETURN v_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_organisation_role(p_organisation_id uuid, p_user_id uuid, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.organisation_role(p_organisation_id) IS DISTINCT FROM 'school_admin' THEN
+    RAISE EXCEPTION 'Only a school admin can change roles' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_role <> 'school_admin' AND NOT EXISTS (
+    SELECT 1 FROM public.organisation_members
+    WHERE organisation_id = p_organisation_id AND role = 'school_admin' AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'A workspace needs at least one school admin' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.organisation_members SET role = p_role
+  WHERE organisation_id = p_organisation_id AND user_id = p_user_id;
+END;
+$$;
+
+-- School admins can remove anyone; members can leave. Their own shared rows stay shared.
+CREATE OR REPLACE FUNCTION public.remove_organisation_member(p_organisation_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_user_id <> auth.uid() AND public.organisation_role(p_organisation_id) IS DISTINCT FROM 'school_admin' THEN
+    RAISE EXCEPTION 'Only a school admin can remove members' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organisation_members
+    WHERE organisation_id = p_organisation_id AND role = 'school_admin' AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'A workspace needs at least one school admin' USING ERRCODE = 'P0001';
+  END IF;
+
+  DELETE FROM public.department_members dm
+  USING public.departments d
+  WHERE d.id = dm.department_id AND d.organisation_id = p_organisation_id AND dm.user_id = p_user_id;
+
+  DELETE FROM public.organisation_members
+  WHERE organisation_id = p_organisation_id AND user_id = p_user_id;
+END;
+$$;
+
+-- School admins place anyone; heads of department manage their own departments
+CREATE OR REPLACE FUNCTION public.set_department_member(p_department_id uuid, p_user_id uuid, p_member boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_organisation_id uuid;
+BEGIN
+  SELECT organisation_id INTO v_organisation_id FROM public.departments WHERE id = p_department_id;
+  IF v_organisation_id IS NULL OR NOT public.can_manage_shared(v_organisation_id, p_department_id) THEN
+    RAISE EXCEPTION 'Only a school admin or the head of department can change department members'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.organisation_members WHERE organisation_id = v_organisation_id AND user_id = p_user_id
+  ) THEN
+    RAISE EXCEPTION 'Add them to the workspace first' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_member THEN
+    INSERT INTO public.department_members (department_id, user_id)
+    VALUES (p_department_id, p_user_id)
+    ON CONFLICT DO NOTHING;
+  ELSE
+    DELETE FROM public.department_members WHERE department_id = p_department_id AND user_id = p_user_id;
+  END IF;
+END;
+$$;
+
+-- 8. The "school" plan: membership of a school-plan organisation upgrades every member
+CREATE OR REPLACE FUNCTION public.effective_plan(p_user_id uuid DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := COALESCE(p_user_id, auth.uid());
+  v_plan text;
+BEGIN
+  IF auth.uid() IS NOT NULL AND v_user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM public.organisation_members m
+    JOIN public.organisations o ON o.id = m.organisation_id
+    WHERE m.user_id = v_user_id AND o.plan = 'school'
+  ) THEN
+    RETURN 'school';
+  END IF;
+
+  SELECT plan INTO v_plan FROM public.profiles WHERE id = v_user_id;
+  RETURN COALESCE(v_plan, 'free');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_organisation(text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.organisation_members_for(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.add_organisation_member(uuid, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_organisation_role(uuid, uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.remove_organisation_member(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_department_member(uuid, uuid, boolean) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.effective_plan(uuid) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.create_organisation(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.organisation_members_for(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.add_organisation_member(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_organisation_role(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.remove_organisation_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_department_member(uuid, uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.effective_plan(uuid) TO authenticated, service_role;
+
+COMMENT ON TABLE public.organisations IS 'School workspaces; plan = school upgrades every member';
+COMMENT ON TABLE public.organisation_members IS 'Workspace membership and role (teacher, head_of_department, school_admin)';
+COMMENT ON TABLE public.department_members IS 'Department membership; heads of department lead the departments they belong to';
@@ -0,0 +1,443 @@
+-- Migration: Multi-marker calibration (invites, blind marking, reveal, moderated marks)
+-- Timestamp: 2025-12-18 09:00:00
+-- Sessions gain invited markers and a phase: marking -> revealed -> closed. While marking, each marker
+-- only sees their own mark for an essay until they have submitted it; once the lead reveals the session
+-- everyone sees every mark and the lead records the agreed (moderated) mark per essay.
+-- Markers can't read each other's essays through RLS, so session essays and members come from RPCs.
+
+-- 1. Session phase and lead marker
+UPDATE public.calibration_sessions SET status = 'marking' WHERE status IN ('active', 'draft');
+
+ALTER TABLE public.calibration_sessions
+  ALTER COLUMN status SET DEFAULT 'marking',
+  ADD COLUMN IF NOT EXISTS lead_marker_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS revealed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS closed_at timestamptz;
+
+UPDATE public.calibration_sessions SET lead_marker_id = created_by WHERE lead_marker_id IS NULL;
+
+ALTER TABLE public.calibration_sessions DROP CONSTRAINT IF EXISTS calibration_sessions_status_check;
+ALTER TABLE public.calibration_sessions
+  ADD CONSTRAINT calibration_sessions_status_check CHECK (status IN ('marking', 'revealed', 'closed'));
+
+COMMENT ON COLUMN public.calibration_sessions.status IS 'marking (blind) -> revealed (marks visible, moderation) -> closed';
+COMMENT ON COLUMN public.calibration_sessions.lead_marker_id IS 'Divergence in the moderation report is measured against this marker';
+
+-- 2. Members and invitations
+CREATE TABLE IF NOT EXISTS public.calibration_session_members (
+  session_id uuid NOT NULL REFERENCES public.calibration_sessions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'accepted', 'declined')),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  invited_at timestamptz NOT NULL DEFAULT now(),
+  responded_at timestamptz,
+  PRIMARY KEY (session_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calib_members_user ON public.calibration_session_members(user_id);
+
+-- Session creators are accepted members of their own sessions
+INSERT INTO public.calibration_session_members (session_id, user_id, status, invited_by, responded_at)
+SELECT s.id, s.created_by, 'accepted', s.created_by, s.created_at
+FROM public.calibration_sessions s
+ON CONFLICT (session_id, user_id) DO NOTHING;
+
+-- 3. One mark per marker per essay. Keep the latest where earlier sessions recorded several.
+DELETE FROM public.calibration_marks m
+USING public.calibration_marks newer
+WHERE newer.session_id = m.session_id
+  AND newer.essay_id = m.essay_id
+  AND newer.marker_id = m.marker_id
+  AND (newer.created_at, newer.id) > (m.created_at, m.id);
+
+ALTER TABLE public.calibration_marks DROP CONSTRAINT IF EXISTS calibration_marks_one_per_marker;
+ALTER TABLE public.calibration_marks
+  ADD CONSTRAINT calibration_marks_one_per_marker UNIQUE (session_id, essay_id, marker_id);
+
+-- 4. Moderated (agreed) marks, recorded by the lead after the reveal
+CREATE TABLE IF NOT EXISTS public.calibration_moderated_marks (
+  session_id uuid NOT NULL REFERENCES public.calibration_sessions(id) ON DELETE CASCADE,
+  essay_id uuid NOT NULL REFERENCES public.essays(id) ON DELETE CASCADE,
+  scores jsonb NOT NULL, -- same shape as calibration_marks.scores
+  notes text,
+  agreed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  agreed_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, essay_id)
+);
+
+-- 5. Helpers (SECURITY DEFINER so policies don't recurse through the member table)
+CREATE OR REPLACE FUNCTION public.calibration_member_status(p_session_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT status FROM public.calibration_session_members
+  WHERE session_id = p_session_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_calibration_marker(p_session_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(public.calibration_member_status(p_session_id) = 'accepted', FALSE);
+$$;
+
+CREATE OR REPLACE FUNCTION public.calibration_session_phase(p_session_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT status FROM public.calibration_sessions WHERE id = p_session_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_calibration_lead(p_session_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.calibration_sessions
+    WHERE id = p_session_id AND lead_marker_id = auth.uid()
+  );
+$$;
+
+-- Blind marking: other markers' marks for an essay appear once you've submitted yours, or after the reveal
+CREATE OR REPLACE FUNCTION public.can_see_calibration_marks(p_session_id uuid, p_essay_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_calibration_marker(p_session_id) AND (
+    public.calibration_session_phase(p_session_id) IN ('revealed', 'closed')
+    OR EXISTS (
+      SELECT 1 FROM public.calibration_marks
+      WHERE session_id = p_session_id AND essay_id = p_essay_id AND marker_id = auth.uid()
+    )
+  );
+$$;
+
+-- 6. Session lifecycle: phases only move forward and the lead must be an accepted marker
+CREATE OR REPLACE FUNCTION public.guard_calibration_session()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'marking';
+    NEW.lead_marker_id := NEW.created_by;
+    NEW.revealed_at := NULL;
+    NEW.closed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+    RAISE EXCEPTION 'A session''s creator can''t change' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.lead_marker_id IS DISTINCT FROM OLD.lead_marker_id THEN
+    IF auth.uid() IS NOT NULL AND auth.uid() <> OLD.created_by THEN
+      RAISE EXCEPTION 'Only the session creator can change the lead marker' USING ERRCODE = '42501';
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM public.calibration_session_members
+      WHERE session_id = NEW.id AND user_id = NEW.lead_marker_id AND status = 'accepted'
+    ) THEN
+      RAISE EXCEPTION 'The lead marker must have joined the session' USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'marking' AND NEW.status IN ('revealed', 'closed'))
+      OR (OLD.status = 'revealed' AND NEW.status = 'closed')
+    ) THEN
+      RAISE EXCEPTION 'A session can''t go back from % to %', OLD.status, NEW.status USING ERRCODE = 'P0001';
+    END IF;
+    IF NEW.status = 'revealed' OR (NEW.status = 'closed' AND OLD.revealed_at IS NULL) THEN
+      NEW.revealed_at := now();
+    END IF;
+    IF NEW.status = 'closed' THEN
+      NEW.closed_at := now();
+    END IF;
+  ELSE
+    NEW.revealed_at := OLD.revealed_at;
+    NEW.closed_at := OLD.closed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS calibration_sessions_guard ON public.calibration_sessions;
+CREATE TRIGGER calibration_sessions_guard
+  BEFORE INSERT OR UPDATE ON public.calibration_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.guard_calibration_session();
+
+CREATE OR REPLACE FUNCTION public.on_calibration_session_created()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.calibration_session_members (session_id, user_id, status, invited_by, responded_at)
+  VALUES (NEW.id, NEW.created_by, 'accepted', NEW.created_by, now())
+  ON CONFLICT (session_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS calibration_sessions_add_creator ON public.calibration_sessions;
+CREATE TRIGGER calibration_sessions_add_creator
+  AFTER INSERT ON public.calibration_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.on_calibration_session_created();
+
+REVOKE EXECUTE ON FUNCTION public.guard_calibration_session() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.on_calibration_session_created() FROM PUBLIC, anon, authenticated;
+
+-- 7. RLS
+ALTER TABLE public.calibration_session_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.calibration_moderated_marks ENABLE ROW LEVEL SECURITY;
+
+-- Sessions: invitees see the session; the creator and lead run it
+DROP POLICY IF EXISTS "Teachers select own calibration sessions" ON public.calibration_sessions;
+DROP POLICY IF EXISTS "Members select calibration sessions" ON public.calibration_sessions;
+CREATE POLICY "Members select calibration sessions" ON public.calibration_sessions
+  FOR SELECT USING (
+    created_by = auth.uid()
+    OR public.calibration_member_status(id) IN ('invited', 'accepted')
+  );
+
+DROP POLICY IF EXISTS "Teachers update own calibration sessions" ON public.calibration_sessions;
+DROP POLICY IF EXISTS "Leads update calibration sessions" ON public.calibration_sessions;
+CREATE POLICY "Leads update calibration sessions" ON public.calibration_sessions
+  FOR UPDATE USING (created_by = auth.uid() OR lead_marker_id = auth.uid())
+  WITH CHECK (created_by = auth.uid() OR lead_marker_id = auth.uid());
+
+-- Members: invites go through invite_calibration_marker(); the creator can remove anyone but the lead
+DROP POLICY IF EXISTS "Markers select session members" ON public.calibration_session_members;
+CREATE POLICY "Markers select session members" ON public.calibration_session_members
+  FOR SELECT USING (user_id = auth.uid() OR public.is_calibration_marker(session_id));
+
+DROP POLICY IF EXISTS "Creators remove session members" ON public.calibration_session_members;
+CREATE POLICY "Creators remove session members" ON public.calibration_session_members
+  FOR DELETE USING (
+    user_id <> auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.calibration_sessions s
+      WHERE s.id = calibration_session_members.session_id
+        AND s.created_by = auth.uid()
+        AND s.lead_marker_id IS DISTINCT FROM calibration_session_members.user_id
+    )
+  );
+
+-- Session essays: markers see the list; only the creator's own essays can be added
+DROP POLICY IF EXISTS "Teachers select session essays" ON public.calibration_session_essays;
+CREATE POLICY "Teachers select session essays" ON public.calibration_session_essays
+  FOR SELECT USING (public.is_calibration_marker(session_id));
+
+DROP POLICY IF EXISTS "Teachers insert session essays" ON public.calibration_session_essays;
+CREATE POLICY "Teachers insert session essays" ON public.calibration_session_essays
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.calibration_sessions s
+      WHERE s.id = calibration_session_essays.session_id AND s.created_by = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.essays e
+      WHERE e.id = calibration_session_essays.essay_id AND e.teacher_id = auth.uid()
+    )
+  );
+
+-- Marks: blind until submitted or revealed, one per marker per essay, and final once submitted
+DROP POLICY IF EXISTS "Teachers select calibration marks" ON public.calibration_marks;
+CREATE POLICY "Teachers select calibration marks" ON public.calibration_marks
+  FOR SELECT USING (marker_id = auth.uid() OR public.can_see_calibration_marks(session_id, essay_id));
+
+DROP POLICY IF EXISTS "Teachers insert calibration marks" ON public.calibration_marks;
+CREATE POLICY "Teachers insert calibration marks" ON public.calibration_marks
+  FOR INSERT WITH CHECK (
+    marker_id = auth.uid()
+    AND public.is_calibration_marker(session_id)
+    AND public.calibration_session_phase(session_id) = 'marking'
+    AND EXISTS (
+      SELECT 1 FROM public.calibration_session_essays se
+      WHERE se.session_id = calibration_marks.session_id AND se.essay_id = calibration_marks.essay_id
+    )
+  );
+
+DROP POLICY IF EXISTS "Teachers update own calibration marks" ON public.calibration_marks;
+DROP POLICY IF EXISTS "Teachers delete own calibration marks" ON public.calibration_marks;
+
+-- Moderated marks: markers read them; the lead records them while the session is revealed
+DROP POLICY IF EXISTS "Markers select moderated marks" ON public.calibration_moderated_marks;
+CREATE POLICY "Markers select moderated marks" ON public.calibration_moderated_marks
+  FOR SELECT USING (public.is_calibration_marker(session_id));
+
+DROP POLICY IF EXISTS "Leads insert moderated marks" ON public.calibration_moderated_marks;
+CREATE POLICY "Leads insert moderated marks" ON public.calibration_moderated_marks
+  FOR INSERT WITH CHECK (
+    public.is_calibration_lead(session_id)
+    AND public.calibration_session_phase(session_id) = 'revealed'
+    AND agreed_by = auth.uid()
+  );
+
+DROP POLICY IF EXISTS "Leads update moderated marks" ON public.calibration_moderated_marks;
+CREATE POLICY "Leads update moderated marks" ON public.calibration_moderated_marks
+  FOR UPDATE USING (
+    public.is_calibration_lead(session_id)
+    AND public.calibration_session_phase(session_id) = 'revealed'
+  )
+  WITH CHECK (agreed_by = auth.uid());
+
+-- 8. RPCs
+-- Invite a colleague by email; the creator or lead, while the session is still marking.
+-- Re-inviting someone who declined resets their invitation.
+CREATE OR REPLACE FUNCTION public.invite_calibration_marker(p_session_id uuid, p_email text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.calibration_sessions
+    WHERE id = p_session_id AND (created_by = auth.uid() OR lead_marker_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Only the session creator or lead can invite markers' USING ERRCODE = '42501';
+  END IF;
+  IF public.calibration_session_phase(p_session_id) <> 'marking' THEN
+    RAISE EXCEPTION 'Markers can only be invited while the session is marking' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT p.id INTO v_user_id FROM public.profiles p WHERE lower(p.email) = lower(trim(p_email));
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account with that email. Ask them to sign up first.' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.calibration_session_members (session_id, user_id, status, invited_by)
+  VALUES (p_session_id, v_user_id, 'invited', auth.uid())
+  ON CONFLICT (session_id, user_id) DO UPDATE
+    SET status = 'invited', invited_by = EXCLUDED.invited_by, invited_at = now(), responded_at = NULL
+    WHERE calibration_session_members.status = 'declined';
+
+  RETURN v_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_calibration_invite(p_session_id uuid, p_accept boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.calibration_sessions
+    WHERE id = p_session_id AND (created_by = auth.uid() OR lead_marker_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'The session creator and lead marker can''t leave the session' USING ERRCODE = 'P0001';
+  END IF;
+
+  UPDATE public.calibration_session_members
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END, responded_at = now()
+  WHERE session_id = p_session_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You haven''t been invited to this session' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- Members with how many essays each has submitted (counts only, so blind marking holds)
+CREATE OR REPLACE FUNCTION public.calibration_members_for(p_session_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  full_name text,
+  status text,
+  is_lead boolean,
+  submitted_count integer,
+  invited_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    m.user_id,
+    p.email,
+    p.full_name,
+    m.status,
+    s.lead_marker_id = m.user_id,
+    (
+      SELECT count(*)::integer FROM public.calibration_marks cm
+      WHERE cm.session_id = m.session_id AND cm.marker_id = m.user_id
+    ),
+    m.invited_at
+  FROM public.calibration_session_members m
+  JOIN public.calibration_sessions s ON s.id = m.session_id
+  LEFT JOIN public.profiles p ON p.id = m.user_id
+  WHERE m.session_id = p_session_id
+    AND public.is_calibration_marker(p_session_id)
+  ORDER BY s.lead_marker_id = m.user_id DESC, lower(COALESCE(p.full_name, p.email));
+$$;
+
+-- The session's essays for its markers, who can't otherwise read the creator's essays
+CREATE OR REPLACE FUNCTION public.calibration_session_essays_for(p_session_id uuid)
+RETURNS TABLE (
+  essay_id uuid,
+  title text,
+  content text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.id, e.title, e.content
+  FROM public.calibration_session_essays se
+  JOIN public.essays e ON e.id = se.essay_id
+  WHERE se.session_id = p_session_id
+    AND public.is_calibration_marker(p_session_id)
+  ORDER BY se.created_at, e.title;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calibration_member_status(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.is_calibration_marker(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.calibration_session_phase(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.is_calibration_lead(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.can_see_calibration_marks(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.invite_calibration_marker(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.respond_calibration_invite(uuid, boolean) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.calibration_members_for(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.calibration_session_essays_for(uuid) FROM PUBLIC, anon;
+
+GRANT EXECUTE ON FUNCTION public.calibration_member_status(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_calibration_marker(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.calibration_session_phase(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_calibration_lead(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_see_calibration_marks(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.invite_calibration_marker(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_calibration_invite(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.calibration_members_for(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.calibration_session_essays_for(uuid) TO authenticated;
+
+COMMENT ON TABLE public.calibration_session_members IS 'Invited and joined markers per calibration session (the creator is always accepted)';
+COMMENT ON TABLE public.calibration_moderated_marks IS 'Agreed mark per essay, recorded by the lead marker after the reveal';
@@ -0,0 +1,36 @@
+-- Migration: AI marks for calibration essays
+-- Timestamp: 2025-12-19 09:00:00
+-- The reliability dashboard compares markers with the AI's original judgement (feedback revision 0).
+-- Markers can't read feedback on the creator's essays, so it comes from an RPC that follows the same
+-- blind-marking rule as calibration_marks: visible once you've marked the essay, or after the reveal.
+
+-- 1. AI's first-pass scores for each session essay (latest feedback per essay)
+CREATE OR REPLACE FUNCTION public.calibration_ai_marks_for(p_session_id uuid)
+RETURNS TABLE (
+  essay_id uuid,
+  overall_score integer,
+  criteria_scores jsonb,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (se.essay_id)
+    se.essay_id,
+    r.overall_score,
+    r.criteria_scores,
+    r.created_at
+  FROM public.calibration_session_essays se
+  JOIN public.feedback f ON f.essay_id = se.essay_id
+  JOIN public.feedback_revisions r ON r.feedback_id = f.id AND r.revision_number = 0
+  WHERE se.session_id = p_session_id
+    AND public.can_see_calibration_marks(p_session_id, se.essay_id)
+  ORDER BY se.essay_id, f.created_at DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calibration_ai_marks_for(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.calibration_ai_marks_for(uuid) TO authenticated;
+
+COMMENT ON FUNCTION public.calibration_ai_marks_for(uuid) IS 'AI (revision 0) scores for a calibration session''s essays, for AI-vs-human agreement';
@@ -0,0 +1,121 @@
+-- Migration: Calibration marks keyed by the session rubric's criteria
+-- Timestamp: 2025-12-20 09:00:00
+-- Sessions snapshot their rubric's criteria when created ([{ key, name, maxPoints, description, levels }]),
+-- so markers who can't read the rubric still get the criteria, and editing the rubric mid-session doesn't
+-- change what is being marked. calibration_marks.scores and calibration_moderated_marks.scores become
+-- { <criterion key>: points } and are checked against each criterion's maxPoints.
+-- Sessions created before this migration keep the old AO1-AO4 criteria (0-40 each).
+
+-- 1. Criteria snapshot
+ALTER TABLE public.calibration_sessions
+  ADD COLUMN IF NOT EXISTS criteria jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE public.calibration_sessions
+SET criteria = '[
+  {"key": "ao1", "name": "AO1", "maxPoints": 40, "levels": []},
+  {"key": "ao2", "name": "AO2", "maxPoints": 40, "levels": []},
+  {"key": "ao3", "name": "AO3", "maxPoints": 40, "levels": []},
+  {"key": "ao4", "name": "AO4", "maxPoints": 40, "levels": []}
+]'::jsonb
+WHERE criteria = '[]'::jsonb;
+
+COMMENT ON COLUMN public.calibration_sessions.criteria IS 'Snapshot of the rubric criteria being marked: [{ key, name, maxPoints, description, levels }]';
+COMMENT ON COLUMN public.calibration_marks.scores IS '{ <criterion key>: points }, keys from calibration_sessions.criteria';
+
+-- 2. Criteria must be well formed and can't change once the session exists
+CREATE OR REPLACE FUNCTION public.guard_calibration_criteria()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_criterion jsonb;
+  v_keys text[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.criteria IS DISTINCT FROM OLD.criteria THEN
+      RAISE EXCEPTION 'A session''s criteria can''t change once it has been created' USING ERRCODE = 'P0001';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(NEW.criteria) <> 'array' OR jsonb_array_length(NEW.criteria) = 0 THEN
+    RAISE EXCEPTION 'A calibration session needs at least one criterion' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_criterion IN SELECT * FROM jsonb_array_elements(NEW.criteria) LOOP
+    IF COALESCE(trim(v_criterion->>'key'), '') = '' OR COALESCE(trim(v_criterion->>'name'), '') = '' THEN
+      RAISE EXCEPTION 'Every criterion needs a key and a name' USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(v_criterion->'maxPoints') <> 'number' OR (v_criterion->>'maxPoints')::numeric <= 0 THEN
+      RAISE EXCEPTION 'Criterion "%" needs a positive maxPoints', v_criterion->>'name' USING ERRCODE = '22023';
+    END IF;
+    IF (v_criterion->>'key') = ANY (v_keys) THEN
+      RAISE EXCEPTION 'Criterion key "%" is used twice', v_criterion->>'key' USING ERRCODE = '22023';
+    END IF;
+    v_keys := v_keys || (v_criterion->>'key');
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS calibration_sessions_criteria ON public.calibration_sessions;
+CREATE TRIGGER calibration_sessions_criteria
+  BEFORE INSERT OR UPDATE OF criteria ON public.calibration_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.guard_calibration_criteria();
+
+-- 3. Scores: exactly the session's criteria, each between 0 and its maxPoints
+CREATE OR REPLACE FUNCTION public.validate_calibration_scores()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_criteria jsonb;
+  v_criterion jsonb;
+  v_value jsonb;
+  v_key text;
+BEGIN
+  SELECT criteria INTO v_criteria FROM public.calibration_sessions WHERE id = NEW.session_id;
+  IF v_criteria IS NULL THEN
+    RAISE EXCEPTION 'Calibration session not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF jsonb_typeof(NEW.scores) <> 'object' THEN
+    RAISE EXCEPTION 'Scores must be an object keyed by criterion' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_key IN SELECT jsonb_object_keys(NEW.scores) LOOP
+    IF NOT EXISTS (SELECT 1 FROM jsonb_array_elements(v_criteria) c WHERE c->>'key' = v_key) THEN
+      RAISE EXCEPTION '"%" isn''t one of this session''s criteria', v_key USING ERRCODE = '22023';
+    END IF;
+  END LOOP;
+
+  FOR v_criterion IN SELECT * FROM jsonb_array_elements(v_criteria) LOOP
+    v_value := NEW.scores->(v_criterion->>'key');
+    IF v_value IS NULL OR jsonb_typeof(v_value) <> 'number' THEN
+      RAISE EXCEPTION 'Enter a mark for %', v_criterion->>'name' USING ERRCODE = '22023';
+    END IF;
+    IF v_value::text::numeric < 0 OR v_value::text::numeric > (v_criterion->>'maxPoints')::numeric THEN
+      RAISE EXCEPTION '% is marked out of %', v_criterion->>'name', v_criterion->>'maxPoints' USING ERRCODE = '22023';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS calibration_marks_validate_scores ON public.calibration_marks;
+CREATE TRIGGER calibration_marks_validate_scores
+  BEFORE INSERT OR UPDATE OF scores ON public.calibration_marks
+  FOR EACH ROW EXECUTE FUNCTION public.validate_calibration_scores();
+
+DROP TRIGGER IF EXISTS calibration_moderated_marks_validate_scores ON public.calibration_moderated_marks;
+CREATE TRIGGER calibration_moderated_marks_validate_scores
+  BEFORE INSERT OR UPDATE OF scores ON public.calibration_moderated_marks
+  FOR EACH ROW EXECUTE FUNCTION public.validate_calibration_scores();
+
+REVOKE EXECUTE ON FUNCTION public.guard_calibration_criteria() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.validate_calibration_scores() FROM PUBLIC, anon, authenticated;
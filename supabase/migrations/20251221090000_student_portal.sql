@@ -0,0 +1,106 @@
+-- Migration: Student feedback portal
+-- Timestamp: 2025-12-21 09:00:00
+-- Teachers release an essay's feedback to the student, one essay at a time or a whole batch at once.
+-- Students open their portal through an expiring link signed by /api/student-portal; the link row is
+-- what the teacher revokes, and the signature stops anyone guessing one. The portal is served with the
+-- service role, so there are no student-facing policies here.
+
+-- 1. Release flag on essays
+ALTER TABLE public.essays
+  ADD COLUMN IF NOT EXISTS feedback_released_at timestamptz,
+  ADD COLUMN IF NOT EXISTS feedback_released_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_essays_student_released ON public.essays(student_id, feedback_released_at)
+  WHERE feedback_released_at IS NOT NULL;
+
+COMMENT ON COLUMN public.essays.feedback_released_at IS 'When the feedback was released to the student portal (NULL = teacher only)';
+
+-- 2. Release or withdraw every marked essay in a batch
+CREATE OR REPLACE FUNCTION public.release_batch_feedback(p_job_id uuid, p_release boolean DEFAULT TRUE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.batch_jobs WHERE id = p_job_id AND teacher_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Batch not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.essays e
+  SET feedback_released_at = CASE WHEN p_release THEN COALESCE(e.feedback_released_at, now()) END,
+      feedback_released_by = CASE WHEN p_release THEN COALESCE(e.feedback_released_by, auth.uid()) END
+  FROM public.batch_job_items i
+  WHERE i.job_id = p_job_id
+    AND i.essay_id = e.id
+    AND e.teacher_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.feedback f WHERE f.essay_id = e.id);
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_batch_feedback(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.release_batch_feedback(uuid, boolean) TO authenticated;
+
+COMMENT ON FUNCTION public.release_batch_feedback IS 'Release (or withdraw) the feedback on every marked essay in one of the caller''s batches; returns the number of essays changed';
+
+-- 3. Share links
+CREATE TABLE IF NOT EXISTS public.student_portal_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at timestamptz NOT NULL,
+  revoked_at timestamptz,
+  last_opened_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_portal_links_student ON public.student_portal_links(student_id, created_at DESC);
+
+-- 4. RLS: teachers list and revoke their own links; links are created by the API, which signs them
+ALTER TABLE public.student_portal_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers can view own portal links" ON public.student_portal_links;
+CREATE POLICY "Teachers can view own portal links"
+  ON public.student_portal_links FOR SELECT
+  USING (teacher_id = auth.uid());
+
+DROP POLICY IF EXISTS "Teachers can revoke own portal links" ON public.student_portal_links;
+CREATE POLICY "Teachers can revoke own portal links"
+  ON public.student_portal_links FOR UPDATE
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid() AND revoked_at IS NOT NULL);
+
+-- Revoking is the only change a teacher can make; the expiry is also baked into the signed token
+CREATE OR REPLACE FUNCTION public.guard_student_portal_link()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND (
+    NEW.student_id IS DISTINCT FROM OLD.student_id
+    OR NEW.teacher_id IS DISTINCT FROM OLD.teacher_id
+    OR NEW.expires_at IS DISTINCT FROM OLD.expires_at
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.last_opened_at IS DISTINCT FROM OLD.last_opened_at
+  ) THEN
+    RAISE EXCEPTION 'Portal links can only be revoked' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS student_portal_links_guard ON public.student_portal_links;
+CREATE TRIGGER student_portal_links_guard
+  BEFORE UPDATE ON public.student_portal_links
+  FOR EACH ROW EXECUTE FUNCTION public.guard_student_portal_link();
+
+REVOKE EXECUTE ON FUNCTION public.guard_student_portal_link() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.student_portal_links IS 'Expiring links to a student''s feedback portal; the token is signed by /api/student-portal';
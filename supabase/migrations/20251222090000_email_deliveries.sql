@@ -0,0 +1,49 @@
+-- Migration: Feedback email deliveries
+-- Timestamp: 2025-12-22 09:00:00
+-- /api/deliveries emails feedback to students (optionally copying a parent or guardian) through the
+-- configured transport. Every attempt is a deliveries row: queued when it's handed to the transport,
+-- then sent, failed (transport error) or bounced (recipient rejected, or reported by the provider's webhook).
+-- Rows are written with the service role only; teachers read their own.
+
+-- 1. Parent/guardian contact on students
+ALTER TABLE public.students
+  ADD COLUMN IF NOT EXISTS guardian_email text;
+
+COMMENT ON COLUMN public.students.guardian_email IS 'Parent or guardian copied on feedback emails when the teacher asks for it';
+
+-- 2. Deliveries
+CREATE TABLE IF NOT EXISTS public.deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  essay_id uuid REFERENCES public.essays(id) ON DELETE SET NULL,
+  feedback_id uuid REFERENCES public.feedback(id) ON DELETE SET NULL,
+  student_id uuid REFERENCES public.students(id) ON DELETE SET NULL,
+  batch_job_id uuid REFERENCES public.batch_jobs(id) ON DELETE SET NULL,
+  recipient text NOT NULL,
+  cc text[] NOT NULL DEFAULT '{}',
+  subject text NOT NULL,
+  transport text NOT NULL, -- 'smtp', 'resend' or 'mock'
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'sent', 'failed', 'bounced')),
+  provider_message_id text,
+  error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz,
+  bounced_at timestamptz,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deliveries_teacher_created ON public.deliveries(teacher_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deliveries_essay ON public.deliveries(essay_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deliveries_batch ON public.deliveries(batch_job_id) WHERE batch_job_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_deliveries_provider_message ON public.deliveries(provider_message_id) WHERE provider_message_id IS NOT NULL;
+
+-- 3. RLS: teachers read their own deliveries; no write policies
+ALTER TABLE public.deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers can view own deliveries" ON public.deliveries;
+CREATE POLICY "Teachers can view own deliveries"
+  ON public.deliveries FOR SELECT
+  USING (teacher_id = auth.uid());
+
+COMMENT ON TABLE public.deliveries IS 'One row per feedback email handed to the transport, with its outcome';
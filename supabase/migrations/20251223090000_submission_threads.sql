@@ -0,0 +1,120 @@
+-- Migration: Submission threads (student redrafts)
+-- Timestamp: 2025-12-23 09:00:00
+-- A student's redrafts of the same piece are grouped into a submission thread, one essay row per draft,
+-- numbered 1, 2, 3... in the order they were added. Marking a redraft records which of the previous
+-- draft's "Areas for Improvement" were acted on (feedback.addressed_improvements).
+
+-- 1. Threads
+CREATE TABLE IF NOT EXISTS public.submission_threads (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_id uuid REFERENCES public.students(id) ON DELETE SET NULL,
+  title text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_submission_threads_teacher ON public.submission_threads(teacher_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_submission_threads_student ON public.submission_threads(student_id) WHERE student_id IS NOT NULL;
+
+-- 2. Drafts: essays join a thread and get the next version number
+ALTER TABLE public.essays
+  ADD COLUMN IF NOT EXISTS thread_id uuid REFERENCES public.submission_threads(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS version integer CHECK (version IS NULL OR version >= 1);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_essays_thread_version ON public.essays(thread_id, version)
+  WHERE thread_id IS NOT NULL;
+
+COMMENT ON COLUMN public.essays.thread_id IS 'Submission thread this essay is a draft in (NULL = standalone essay)';
+COMMENT ON COLUMN public.essays.version IS 'Draft number within the thread, assigned on insert';
+
+-- 3. Redraft progress on feedback: [{ improvement, status, evidence }]
+ALTER TABLE public.feedback
+  ADD COLUMN IF NOT EXISTS addressed_improvements jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.feedback.addressed_improvements IS 'For a redraft: each previous "Area for Improvement" with status addressed, partly_addressed or not_addressed';
+
+-- 4. RLS: teachers manage their own threads
+ALTER TABLE public.submission_threads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers manage own submission threads" ON public.submission_threads;
+CREATE POLICY "Teachers manage own submission threads"
+  ON public.submission_threads FOR ALL
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+-- 5. Number drafts as they join a thread. Locking the thread row serialises concurrent inserts.
+CREATE OR REPLACE FUNCTION public.assign_essay_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.thread_id IS NULL THEN
+    NEW.version := NULL;
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.thread_id IS NOT DISTINCT FROM NEW.thread_id THEN
+    NEW.version := OLD.version;
+    RETURN NEW;
+  END IF;
+
+  PERFORM 1 FROM public.submission_threads
+  WHERE id = NEW.thread_id AND teacher_id = NEW.teacher_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Submission thread not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO NEW.version
+  FROM public.essays
+  WHERE thread_id = NEW.thread_id;
+
+  UPDATE public.submission_threads SET updated_at = now() WHERE id = NEW.thread_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS essays_assign_version ON public.essays;
+CREATE TRIGGER essays_assign_version
+  BEFORE INSERT OR UPDATE OF thread_id ON public.essays
+  FOR EACH ROW EXECUTE FUNCTION public.assign_essay_version();
+
+REVOKE EXECUTE ON FUNCTION public.assign_essay_version() FROM PUBLIC, anon, authenticated;
+
+-- 6. Start a thread from a standalone essay (it becomes draft 1); returns the essay's thread either way
+CREATE OR REPLACE FUNCTION public.ensure_submission_thread(p_essay_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_essay public.essays%ROWTYPE;
+  v_thread_id uuid;
+BEGIN
+  SELECT * INTO v_essay FROM public.essays
+  WHERE id = p_essay_id AND teacher_id = auth.uid()
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Essay not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_essay.thread_id IS NOT NULL THEN
+    RETURN v_essay.thread_id;
+  END IF;
+
+  INSERT INTO public.submission_threads (teacher_id, student_id, title)
+  VALUES (v_essay.teacher_id, v_essay.student_id, v_essay.title)
+  RETURNING id INTO v_thread_id;
+
+  UPDATE public.essays SET thread_id = v_thread_id WHERE id = p_essay_id;
+  RETURN v_thread_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_submission_thread(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.ensure_submission_thread(uuid) TO authenticated;
+
+COMMENT ON TABLE public.submission_threads IS 'A student''s drafts of one piece of work; each draft is an essays row with thread_id and version';
+COMMENT ON FUNCTION public.ensure_submission_thread IS 'Return the caller''s essay''s submission thread, starting one (with the essay as draft 1) if it has none';
@@ -0,0 +1,162 @@
+-- Migration: Assignments with deadlines and submission tracking
+-- Timestamp: 2025-12-24 09:00:00
+-- An assignment is a piece of work set for a class section ("Year 10 Macbeth essay, due Friday"), with
+-- its question, rubric, due date and word limit. Essays marked singly or in a batch can be filed against
+-- an assignment; the assignment page compares them with the class roster to show who is missing or late.
+
+-- 1. Assignments
+CREATE TABLE IF NOT EXISTS public.assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  prompt text, -- The question or task as set
+  rubric_id uuid REFERENCES public.rubrics(id) ON DELETE SET NULL,
+  class_section text, -- Matches students.class_section; NULL = no roster to track against
+  due_at timestamptz,
+  word_limit integer CHECK (word_limit IS NULL OR word_limit > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignments_teacher_due ON public.assignments(teacher_id, due_at DESC NULLS LAST);
+
+-- 2. Essays and batches target an assignment. submitted_at is when the work was handed in (lateness
+-- is judged on it); existing essays take their created_at.
+ALTER TABLE public.essays
+  ADD COLUMN IF NOT EXISTS assignment_id uuid REFERENCES public.assignments(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS submitted_at timestamptz;
+
+UPDATE public.essays SET submitted_at = created_at WHERE submitted_at IS NULL;
+
+ALTER TABLE public.essays
+  ALTER COLUMN submitted_at SET DEFAULT now(),
+  ALTER COLUMN submitted_at SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_essays_assignment ON public.essays(assignment_id, student_id) WHERE assignment_id IS NOT NULL;
+
+ALTER TABLE public.batch_jobs
+  ADD COLUMN IF NOT EXISTS assignment_id uuid REFERENCES public.assignments(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.essays.assignment_id IS 'Assignment this essay was submitted for (NULL = not set work)';
+COMMENT ON COLUMN public.essays.submitted_at IS 'When the student handed the work in; compared with assignments.due_at';
+COMMENT ON COLUMN public.batch_jobs.assignment_id IS 'Assignment the batch''s essays are filed against';
+
+-- 3. RLS: teachers manage their own assignments
+ALTER TABLE public.assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers manage own assignments" ON public.assignments;
+CREATE POLICY "Teachers manage own assignments"
+  ON public.assignments FOR ALL
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+-- 4. Essays and batches can only be filed against the teacher's own assignments
+CREATE OR REPLACE FUNCTION public.check_assignment_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assignment_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.assignments WHERE id = NEW.assignment_id AND teacher_id = NEW.teacher_id
+  ) THEN
+    RAISE EXCEPTION 'Assignment not found' USING ERRCODE = 'P0002';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS essays_check_assignment ON public.essays;
+CREATE TRIGGER essays_check_assignment
+  BEFORE INSERT OR UPDATE OF assignment_id ON public.essays
+  FOR EACH ROW EXECUTE FUNCTION public.check_assignment_owner();
+
+DROP TRIGGER IF EXISTS batch_jobs_check_assignment ON public.batch_jobs;
+CREATE TRIGGER batch_jobs_check_assignment
+  BEFORE INSERT OR UPDATE OF assignment_id ON public.batch_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.check_assignment_owner();
+
+REVOKE EXECUTE ON FUNCTION public.check_assignment_owner() FROM PUBLIC, anon, authenticated;
+
+-- 5. Batch essays inherit the job's assignment and count as submitted when they were queued
+CREATE OR REPLACE FUNCTION public.complete_batch_job_item(p_item_id uuid, p_feedback jsonb DEFAULT NULL)
+RETURNS public.batch_job_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.batch_job_items;
+  v_job public.batch_jobs;
+  v_essay_id uuid;
+  v_feedback_id uuid;
+  v_score integer;
+BEGIN
+  SELECT * INTO v_item FROM public.batch_job_items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND OR v_item.status <> 'processing' THEN
+    RETURN v_item;
+  END IF;
+  SELECT * INTO v_job FROM public.batch_jobs WHERE id = v_item.job_id;
+
+  INSERT INTO public.essays (title, content, word_count, teacher_id, rubric_id, student_id, assignment_id, submitted_at)
+  VALUES (
+    v_item.title, v_item.content, v_item.word_count, v_item.teacher_id, v_job.rubric_id, v_item.student_id,
+    v_job.assignment_id, v_item.created_at
+  )
+  RETURNING id INTO v_essay_id;
+
+  IF p_feedback IS NOT NULL THEN
+    v_score := round((p_feedback->>'overall_score')::numeric);
+    INSERT INTO public.feedback (
+      essay_id, rubric_id, grammar_issues, strengths, improvements, suggested_feedback, overall_score, criteria_scores
+    )
+    VALUES (
+      v_essay_id,
+      v_job.rubric_id,
+      p_feedback->'grammar_issues',
+      p_feedback->'strengths',
+      p_feedback->'improvements',
+      p_feedback->>'suggested_feedback',
+      v_score,
+      COALESCE(p_feedback->'criteria_scores', '[]'::jsonb)
+    )
+    RETURNING id INTO v_feedback_id;
+
+    INSERT INTO public.essay_annotations (
+      essay_id, feedback_id, teacher_id, start_offset, length, quote, type, ao, comment, source
+    )
+    SELECT
+      v_essay_id,
+      v_feedback_id,
+      v_item.teacher_id,
+      (a->>'start_offset')::integer,
+      (a->>'length')::integer,
+      a->>'quote',
+      a->>'type',
+      a->>'ao',
+      COALESCE(a->>'comment', ''),
+      'ai'
+    FROM jsonb_array_elements(COALESCE(p_feedback->'annotations', '[]'::jsonb)) AS a
+    WHERE (a->>'length')::integer > 0;
+  END IF;
+
+  UPDATE public.batch_job_items
+  SET status = 'completed', essay_id = v_essay_id, feedback_id = v_feedback_id, score = v_score,
+      last_error = NULL, locked_at = NULL, updated_at = now()
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  UPDATE public.batch_jobs
+  SET completed_items = completed_items + 1, updated_at = now()
+  WHERE id = v_item.job_id;
+  PERFORM public.finalize_batch_job(v_item.job_id);
+
+  RETURN v_item;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_batch_job_item(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_batch_job_item(uuid, jsonb) TO service_role;
+
+COMMENT ON TABLE public.assignments IS 'Work set for a class section, with question, rubric, due date and word limit';
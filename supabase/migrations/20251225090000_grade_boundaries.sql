@@ -0,0 +1,69 @@
+-- Migration: GCSE grade boundaries
+-- Timestamp: 2025-12-25 09:00:00
+-- A grade boundary set is the lowest raw mark for each GCSE grade 9-1 on one paper: either an exam
+-- board's published table for a given year, or a teacher's own. A rubric is linked to a set, and
+-- feedback percentages are converted to a mark on that paper and then to a grade when displayed, so
+-- editing a set or relinking a rubric regrades all of its past feedback.
+
+-- 1. Boundary sets
+CREATE TABLE IF NOT EXISTS public.grade_boundary_sets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  exam_board text NOT NULL CHECK (exam_board IN ('AQA', 'Edexcel', 'OCR', 'WJEC', 'Custom')),
+  subject text,
+  paper text NOT NULL, -- e.g. "Paper 1: Explorations in Creative Reading and Writing"
+  year integer CHECK (year IS NULL OR year BETWEEN 2017 AND 2100), -- Exam series; NULL for custom boundaries
+  max_mark integer NOT NULL CHECK (max_mark > 0),
+  boundaries jsonb NOT NULL, -- {"9": 72, "8": 65, ..., "1": 9}: lowest mark for each grade
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_grade_boundary_sets_teacher ON public.grade_boundary_sets(teacher_id, exam_board, year DESC NULLS LAST);
+
+-- 2. Rubrics grade against a set
+ALTER TABLE public.rubrics
+  ADD COLUMN IF NOT EXISTS grade_boundary_set_id uuid REFERENCES public.grade_boundary_sets(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.rubrics.grade_boundary_set_id IS 'Boundaries used to turn this rubric''s scores into 9-1 grades (NULL = percentages only)';
+
+-- 3. RLS: teachers manage their own sets; anyone who can see a rubric can see the set it grades with,
+-- so colleagues marking with a shared rubric get the same grades
+ALTER TABLE public.grade_boundary_sets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers manage own grade boundaries" ON public.grade_boundary_sets;
+CREATE POLICY "Teachers manage own grade boundaries"
+  ON public.grade_boundary_sets FOR ALL
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+DROP POLICY IF EXISTS "Grade boundaries visible through rubrics" ON public.grade_boundary_sets;
+CREATE POLICY "Grade boundaries visible through rubrics"
+  ON public.grade_boundary_sets FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.rubrics r WHERE r.grade_boundary_set_id = grade_boundary_sets.id));
+
+-- 4. A rubric can only be linked to its owner's sets
+CREATE OR REPLACE FUNCTION public.check_grade_boundary_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.grade_boundary_set_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.grade_boundary_sets WHERE id = NEW.grade_boundary_set_id AND teacher_id = NEW.teacher_id
+  ) THEN
+    RAISE EXCEPTION 'Grade boundaries not found' USING ERRCODE = 'P0002';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rubrics_check_grade_boundaries ON public.rubrics;
+CREATE TRIGGER rubrics_check_grade_boundaries
+  BEFORE INSERT OR UPDATE OF grade_boundary_set_id ON public.rubrics
+  FOR EACH ROW EXECUTE FUNCTION public.check_grade_boundary_owner();
+
+REVOKE EXECUTE ON FUNCTION public.check_grade_boundary_owner() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.grade_boundary_sets IS 'Lowest raw mark for each GCSE grade 9-1 on one paper, per exam board and year or teacher-defined';
@@ -0,0 +1,67 @@
+-- Migration: Rubric pack library
+-- Timestamp: 2025-12-26 09:00:00
+-- A rubric pack is a versioned JSON file of question-level mark schemes for one subject (criteria,
+-- level descriptors and indicative content per question type). Built-in packs ship with the app;
+-- this table holds packs teachers import, which can be shared with a school or department like rubrics.
+-- Each version of a pack is its own row, so publishing 1.1.0 leaves 1.0.0 in place.
+
+-- 1. Imported packs
+CREATE TABLE IF NOT EXISTS public.rubric_packs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  organisation_id uuid REFERENCES public.organisations(id) ON DELETE SET NULL,
+  department_id uuid,
+  pack_id text NOT NULL, -- The pack's own id, stable across versions
+  version text NOT NULL,
+  name text NOT NULL,
+  subject text NOT NULL,
+  pack jsonb NOT NULL, -- The whole file, checked client-side on import
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT rubric_packs_department_fkey FOREIGN KEY (organisation_id, department_id)
+    REFERENCES public.departments(organisation_id, id),
+  CONSTRAINT rubric_packs_version_unique UNIQUE (teacher_id, pack_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rubric_packs_teacher ON public.rubric_packs(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_rubric_packs_organisation ON public.rubric_packs(organisation_id) WHERE organisation_id IS NOT NULL;
+
+COMMENT ON TABLE public.rubric_packs IS 'Imported rubric packs (versioned question-level mark schemes), optionally shared with a workspace';
+COMMENT ON COLUMN public.rubric_packs.organisation_id IS 'Shared with this organisation (NULL = private to teacher_id)';
+COMMENT ON COLUMN public.rubric_packs.department_id IS 'Narrows an organisation share to one department';
+
+-- 2. RLS: owners manage their packs; members see packs shared with them
+ALTER TABLE public.rubric_packs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Teachers manage own rubric packs" ON public.rubric_packs;
+CREATE POLICY "Teachers manage own rubric packs"
+  ON public.rubric_packs FOR ALL
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid());
+
+DROP POLICY IF EXISTS "Members can select shared rubric packs" ON public.rubric_packs;
+CREATE POLICY "Members can select shared rubric packs"
+  ON public.rubric_packs FOR SELECT
+  USING (public.can_view_shared(organisation_id, department_id));
+
+-- 3. Only share into workspaces you belong to
+DROP TRIGGER IF EXISTS rubric_packs_guard_workspace_share ON public.rubric_packs;
+CREATE TRIGGER rubric_packs_guard_workspace_share
+  BEFORE INSERT OR UPDATE ON public.rubric_packs
+  FOR EACH ROW EXECUTE FUNCTION public.guard_workspace_share();
+
+-- 4. Deleting a department unshares its packs too
+CREATE OR REPLACE FUNCTION public.on_department_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.rubrics SET organisation_id = NULL, department_id = NULL WHERE department_id = OLD.id;
+  UPDATE public.students SET organisation_id = NULL, department_id = NULL WHERE department_id = OLD.id;
+  UPDATE public.rubric_packs SET organisation_id = NULL, department_id = NULL WHERE department_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.on_department_delete() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,295 @@
+-- Migration: Immutable rubric versions
+-- Timestamp: 2025-12-27 09:00:00
+-- Saving a change to a rubric's name, subject, exam board or criteria snapshots it as the next numbered
+-- version instead of rewriting what earlier marks meant. Feedback and batch jobs pin the version they
+-- were marked against. Versions are written by triggers only, never change, and outlive the rubric so
+-- old feedback can still be read against the mark scheme it was given under.
+
+-- 1. Table
+CREATE TABLE IF NOT EXISTS public.rubric_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rubric_id uuid REFERENCES public.rubrics(id) ON DELETE SET NULL, -- NULL once the rubric is deleted
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE, -- The rubric's owner
+  version integer NOT NULL CHECK (version >= 1),
+  name text NOT NULL,
+  subject text,
+  exam_board text,
+  criteria jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL, -- Who saved this version
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (rubric_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rubric_versions_teacher ON public.rubric_versions(teacher_id);
+
+ALTER TABLE public.rubrics ADD COLUMN IF NOT EXISTS current_version_id uuid;
+
+-- Deferred: the rubric row gets its version id before the snapshot row is written
+ALTER TABLE public.rubrics DROP CONSTRAINT IF EXISTS rubrics_current_version_fkey;
+ALTER TABLE public.rubrics ADD CONSTRAINT rubrics_current_version_fkey
+  FOREIGN KEY (current_version_id) REFERENCES public.rubric_versions(id) ON DELETE SET NULL
+  DEFERRABLE INITIALLY DEFERRED;
+
+ALTER TABLE public.feedback ADD COLUMN IF NOT EXISTS rubric_version_id uuid
+  REFERENCES public.rubric_versions(id) ON DELETE SET NULL;
+ALTER TABLE public.batch_jobs ADD COLUMN IF NOT EXISTS rubric_version_id uuid
+  REFERENCES public.rubric_versions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_rubric_version ON public.feedback(rubric_version_id) WHERE rubric_version_id IS NOT NULL;
+
+-- 2. Backfill: each rubric as it stands becomes its current version. Earlier edits were never recorded,
+-- so existing feedback and jobs are pinned to that version.
+UPDATE public.rubrics
+SET current_version_id = gen_random_uuid(), version = COALESCE(version, 1)
+WHERE current_version_id IS NULL;
+
+INSERT INTO public.rubric_versions (id, rubric_id, teacher_id, version, name, subject, exam_board, criteria, created_by, created_at)
+SELECT current_version_id, id, teacher_id, version, name, subject, exam_board, COALESCE(criteria, '[]'::jsonb), teacher_id, created_at
+FROM public.rubrics
+ON CONFLICT DO NOTHING;
+
+UPDATE public.feedback f
+SET rubric_version_id = r.current_version_id
+FROM public.rubrics r
+WHERE r.id = f.rubric_id AND f.rubric_version_id IS NULL;
+
+UPDATE public.batch_jobs j
+SET rubric_version_id = r.current_version_id
+FROM public.rubrics r
+WHERE r.id = j.rubric_id AND j.rubric_version_id IS NULL;
+
+-- 3. RLS: versions are visible with their rubric, or through feedback on your essays once the rubric
+-- is gone. No write policies; rows come from the triggers below.
+ALTER TABLE public.rubric_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Rubric versions visible with their rubric" ON public.rubric_versions;
+CREATE POLICY "Rubric versions visible with their rubric"
+  ON public.rubric_versions FOR SELECT
+  USING (
+    teacher_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM public.rubrics r WHERE r.id = rubric_versions.rubric_id)
+  );
+
+DROP POLICY IF EXISTS "Rubric versions visible through feedback" ON public.rubric_versions;
+CREATE POLICY "Rubric versions visible through feedback"
+  ON public.rubric_versions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.feedback f
+      JOIN public.essays e ON e.id = f.essay_id
+      WHERE f.rubric_version_id = rubric_versions.id AND e.teacher_id = auth.uid()
+    )
+  );
+
+-- 4. Number the version before the rubric row is written; unchanged content keeps its version
+CREATE OR REPLACE FUNCTION public.next_rubric_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.version := COALESCE(NEW.version, 1);
+  ELSIF NEW.name IS DISTINCT FROM OLD.name
+     OR NEW.subject IS DISTINCT FROM OLD.subject
+     OR NEW.exam_board IS DISTINCT FROM OLD.exam_board
+     OR NEW.criteria IS DISTINCT FROM OLD.criteria THEN
+    NEW.version := OLD.version + 1;
+  ELSE
+    NEW.version := OLD.version;
+    NEW.current_version_id := OLD.current_version_id;
+    RETURN NEW;
+  END IF;
+  NEW.current_version_id := gen_random_uuid();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rubrics_next_version ON public.rubrics;
+CREATE TRIGGER rubrics_next_version
+  BEFORE INSERT OR UPDATE ON public.rubrics
+  FOR EACH ROW EXECUTE FUNCTION public.next_rubric_version();
+
+REVOKE EXECUTE ON FUNCTION public.next_rubric_version() FROM PUBLIC, anon, authenticated;
+
+-- 5. Snapshot the new version once the rubric row exists
+CREATE OR REPLACE FUNCTION public.record_rubric_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.current_version_id IS NOT DISTINCT FROM OLD.current_version_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.rubric_versions (id, rubric_id, teacher_id, version, name, subject, exam_board, criteria, created_by)
+  VALUES (
+    NEW.current_version_id, NEW.id, NEW.teacher_id, NEW.version, NEW.name, NEW.subject, NEW.exam_board,
+    COALESCE(NEW.criteria, '[]'::jsonb), COALESCE(auth.uid(), NEW.teacher_id)
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rubrics_record_version ON public.rubrics;
+CREATE TRIGGER rubrics_record_version
+  AFTER INSERT OR UPDATE ON public.rubrics
+  FOR EACH ROW EXECUTE FUNCTION public.record_rubric_version();
+
+REVOKE EXECUTE ON FUNCTION public.record_rubric_version() FROM PUBLIC, anon, authenticated;
+
+-- 6. Versions are immutable. Only the unlink when their rubric is deleted gets through.
+CREATE OR REPLACE FUNCTION public.guard_rubric_version_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.version IS DISTINCT FROM OLD.version
+     OR NEW.name IS DISTINCT FROM OLD.name
+     OR NEW.subject IS DISTINCT FROM OLD.subject
+     OR NEW.exam_board IS DISTINCT FROM OLD.exam_board
+     OR NEW.criteria IS DISTINCT FROM OLD.criteria
+     OR NEW.created_at IS DISTINCT FROM OLD.created_at
+     OR (NEW.rubric_id IS NOT NULL AND NEW.rubric_id IS DISTINCT FROM OLD.rubric_id) THEN
+    RAISE EXCEPTION 'Rubric versions cannot be changed; save the rubric to create a new version' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rubric_versions_immutable ON public.rubric_versions;
+CREATE TRIGGER rubric_versions_immutable
+  BEFORE UPDATE ON public.rubric_versions
+  FOR EACH ROW EXECUTE FUNCTION public.guard_rubric_version_change();
+
+REVOKE EXECUTE ON FUNCTION public.guard_rubric_version_change() FROM PUBLIC, anon, authenticated;
+
+-- 7. Feedback and batch jobs pin the rubric's current version unless given one of its versions.
+-- A row whose rubric was unlinked (rubric deleted) keeps its pin.
+CREATE OR REPLACE FUNCTION public.pin_rubric_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.rubric_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.rubric_version_id IS NULL
+     OR (TG_OP = 'UPDATE' AND NEW.rubric_id IS DISTINCT FROM OLD.rubric_id
+         AND NEW.rubric_version_id IS NOT DISTINCT FROM OLD.rubric_version_id) THEN
+    SELECT current_version_id INTO NEW.rubric_version_id FROM public.rubrics WHERE id = NEW.rubric_id;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.rubric_versions WHERE id = NEW.rubric_version_id AND rubric_id = NEW.rubric_id
+  ) THEN
+    RAISE EXCEPTION 'That rubric version belongs to a different rubric' USING ERRCODE = '23503';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS feedback_pin_rubric_version ON public.feedback;
+CREATE TRIGGER feedback_pin_rubric_version
+  BEFORE INSERT OR UPDATE OF rubric_id, rubric_version_id ON public.feedback
+  FOR EACH ROW EXECUTE FUNCTION public.pin_rubric_version();
+
+DROP TRIGGER IF EXISTS batch_jobs_pin_rubric_version ON public.batch_jobs;
+CREATE TRIGGER batch_jobs_pin_rubric_version
+  BEFORE INSERT OR UPDATE OF rubric_id, rubric_version_id ON public.batch_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.pin_rubric_version();
+
+REVOKE EXECUTE ON FUNCTION public.pin_rubric_version() FROM PUBLIC, anon, authenticated;
+
+-- 8. Batch feedback is pinned to the version the job was marked against, even if the rubric is
+-- edited while the job runs
+CREATE OR REPLACE FUNCTION public.complete_batch_job_item(p_item_id uuid, p_feedback jsonb DEFAULT NULL)
+RETURNS public.batch_job_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.batch_job_items;
+  v_job public.batch_jobs;
+  v_essay_id uuid;
+  v_feedback_id uuid;
+  v_score integer;
+BEGIN
+  SELECT * INTO v_item FROM public.batch_job_items WHERE id = p_item_id FOR UPDATE;
+  IF NOT FOUND OR v_item.status <> 'processing' THEN
+    RETURN v_item;
+  END IF;
+  SELECT * INTO v_job FROM public.batch_jobs WHERE id = v_item.job_id;
+
+  INSERT INTO public.essays (title, content, word_count, teacher_id, rubric_id, student_id, assignment_id, submitted_at)
+  VALUES (
+    v_item.title, v_item.content, v_item.word_count, v_item.teacher_id, v_job.rubric_id, v_item.student_id,
+    v_job.assignment_id, v_item.created_at
+  )
+  RETURNING id INTO v_essay_id;
+
+  IF p_feedback IS NOT NULL THEN
+    v_score := round((p_feedback->>'overall_score')::numeric);
+    INSERT INTO public.feedback (
+      essay_id, rubric_id, rubric_version_id, grammar_issues, strengths, improvements, suggested_feedback,
+      overall_score, criteria_scores
+    )
+    VALUES (
+      v_essay_id,
+      v_job.rubric_id,
+      v_job.rubric_version_id,
+      p_feedback->'grammar_issues',
+      p_feedback->'strengths',
+      p_feedback->'improvements',
+      p_feedback->>'suggested_feedback',
+      v_score,
+      COALESCE(p_feedback->'criteria_scores', '[]'::jsonb)
+    )
+    RETURNING id INTO v_feedback_id;
+
+    INSERT INTO public.essay_annotations (
+      essay_id, feedback_id, teacher_id, start_offset, length, quote, type, ao, comment, source
+    )
+    SELECT
+      v_essay_id,
+      v_feedback_id,
+      v_item.teacher_id,
+      (a->>'start_offset')::integer,
+      (a->>'length')::integer,
+      a->>'quote',
+      a->>'type',
+      a->>'ao',
+      COALESCE(a->>'comment', ''),
+      'ai'
+    FROM jsonb_array_elements(COALESCE(p_feedback->'annotations', '[]'::jsonb)) AS a
+    WHERE (a->>'length')::integer > 0;
+  END IF;
+
+  UPDATE public.batch_job_items
+  SET status = 'completed', essay_id = v_essay_id, feedback_id = v_feedback_id, score = v_score,
+      last_error = NULL, locked_at = NULL, updated_at = now()
+  WHERE id = p_item_id
+  RETURNING * INTO v_item;
+
+  UPDATE public.batch_jobs
+  SET completed_items = completed_items + 1, updated_at = now()
+  WHERE id = v_item.job_id;
+  PERFORM public.finalize_batch_job(v_item.job_id);
+
+  RETURN v_item;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_batch_job_item(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_batch_job_item(uuid, jsonb) TO service_role;
+
+COMMENT ON TABLE public.rubric_versions IS 'Immutable snapshots of a rubric, one per saved change, numbered from 1';
+COMMENT ON COLUMN public.rubrics.current_version_id IS 'Snapshot of the rubric as it stands now; maintained by trigger';
+COMMENT ON COLUMN public.feedback.rubric_version_id IS 'Rubric version this feedback was marked against';
+COMMENT ON COLUMN public.batch_jobs.rubric_version_id IS 'Rubric version the job marks against, pinned when it was created';
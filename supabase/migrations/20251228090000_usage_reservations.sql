@@ -0,0 +1,71 @@
+-- Migration: Atomic usage reservations
+-- Timestamp: 2025-12-28 09:00:00
+-- Counting usage_ledger rows and inserting one after the model call let concurrent requests all pass
+-- the count before any of them was recorded, going over the monthly quota and the free daily cap.
+-- reserve_usage now checks the allowance and inserts the ledger rows in one transaction, serialised per
+-- user; the handlers delete the reserved rows again when marking fails, so failures are still never charged.
+
+-- 1. Check and reserve in one step
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_user_id uuid,
+  p_plan text,
+  p_endpoint text,
+  p_provider text,
+  p_month_start timestamptz,
+  p_monthly_limit integer,
+  p_day_start timestamptz,
+  p_daily_limit integer, -- NULL = no daily cap
+  p_essays integer DEFAULT 1
+)
+RETURNS TABLE (
+  reservation_ids uuid[], -- NULL when the allowance would be exceeded
+  used_this_month integer, -- Before this reservation
+  used_today integer,
+  exceeded text -- 'month', 'day' or NULL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month integer;
+  v_day integer;
+  v_ids uuid[];
+BEGIN
+  -- Held until commit, so a second request for the same user counts after this one has inserted
+  PERFORM pg_advisory_xact_lock(hashtextextended('usage_ledger:' || p_user_id::text, 0));
+
+  SELECT
+    count(*) FILTER (WHERE l.created_at >= p_month_start),
+    count(*) FILTER (WHERE l.created_at >= p_day_start)
+  INTO v_month, v_day
+  FROM public.usage_ledger l
+  WHERE l.user_id = p_user_id
+    AND l.created_at >= LEAST(p_month_start, p_day_start);
+
+  IF v_month + p_essays > p_monthly_limit THEN
+    RETURN QUERY SELECT NULL::uuid[], v_month, v_day, 'month'::text;
+    RETURN;
+  END IF;
+  IF p_daily_limit IS NOT NULL AND v_day + p_essays > p_daily_limit THEN
+    RETURN QUERY SELECT NULL::uuid[], v_month, v_day, 'day'::text;
+    RETURN;
+  END IF;
+
+  WITH inserted AS (
+    INSERT INTO public.usage_ledger (user_id, plan, endpoint, provider)
+    SELECT p_user_id, p_plan, p_endpoint, p_provider
+    FROM generate_series(1, p_essays)
+    RETURNING id
+  )
+  SELECT array_agg(inserted.id) INTO v_ids FROM inserted;
+
+  RETURN QUERY SELECT v_ids, v_month, v_day, NULL::text;
+END;
+$$;
+
+-- 2. Only the service role reserves; releasing is a plain delete by ID with the same role
+REVOKE EXECUTE ON FUNCTION public.reserve_usage(uuid, text, text, text, timestamptz, integer, timestamptz, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_usage(uuid, text, text, text, timestamptz, integer, timestamptz, integer, integer) TO service_role;
+
+COMMENT ON FUNCTION public.reserve_usage(uuid, text, text, text, timestamptz, integer, timestamptz, integer, integer) IS 'Atomically check a user''s essay allowance and insert usage_ledger rows for the essays about to be marked';
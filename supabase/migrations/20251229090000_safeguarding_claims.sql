@@ -0,0 +1,54 @@
+-- Migration: Safeguarding screening claims
+-- Timestamp: 2025-12-29 09:00:00
+-- safeguarding_screened_at doubled as the claim taken before the classifier ran, so an essay whose screen
+-- was cut off (function timeout, crashed process) stayed marked as screened with no flags and was never
+-- screened again. The claim now has its own column and goes stale after a few minutes, and
+-- safeguarding_screened_at is only set in the same transaction that stores the flags.
+
+-- 1. Essays: who is screening right now (cleared when the screen finishes or fails)
+ALTER TABLE public.essays
+  ADD COLUMN IF NOT EXISTS safeguarding_claimed_at timestamptz;
+
+COMMENT ON COLUMN public.essays.safeguarding_claimed_at IS 'When a safeguarding screen started; a claim older than 10 minutes can be taken over';
+
+-- 2. Store the flags and mark the essay screened in one step, but only while the caller still holds the claim
+CREATE OR REPLACE FUNCTION public.complete_safeguarding_screen(
+  p_essay_id uuid,
+  p_claimed_at timestamptz,
+  p_classifier text,
+  p_concerns jsonb -- [{ category, severity, excerpt, rationale }]
+)
+RETURNS integer -- Flags stored, or NULL when the claim was taken over and nothing was stored
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_essay public.essays%ROWTYPE;
+BEGIN
+  SELECT * INTO v_essay
+  FROM public.essays
+  WHERE id = p_essay_id
+    AND safeguarding_claimed_at = p_claimed_at
+    AND safeguarding_screened_at IS NULL
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.safeguarding_flags (essay_id, teacher_id, student_id, category, severity, excerpt, rationale, classifier)
+  SELECT v_essay.id, v_essay.teacher_id, v_essay.student_id, c.category, c.severity, c.excerpt, NULLIF(c.rationale, ''), p_classifier
+  FROM jsonb_to_recordset(COALESCE(p_concerns, '[]'::jsonb)) AS c(category text, severity text, excerpt text, rationale text);
+
+  UPDATE public.essays
+  SET safeguarding_screened_at = now(), safeguarding_claimed_at = NULL
+  WHERE id = p_essay_id;
+
+  RETURN jsonb_array_length(COALESCE(p_concerns, '[]'::jsonb));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_safeguarding_screen(uuid, timestamptz, text, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_safeguarding_screen(uuid, timestamptz, text, jsonb) TO service_role;
+
+COMMENT ON FUNCTION public.complete_safeguarding_screen(uuid, timestamptz, text, jsonb) IS 'Record the classifier''s concerns for a claimed essay and mark it screened, atomically';
@@ -0,0 +1,36 @@
+-- Migration: Batch jobs can only use rubrics the teacher can see
+-- Timestamp: 2025-12-30 09:00:00
+-- "Teachers manage own batch jobs" only checks teacher_id, and the batch worker loads the job's rubric with
+-- the service role, so a job naming another teacher's private rubric would be marked against it. Like
+-- check_assignment_owner for assignment_id, a trigger now checks rubric_id on insert and when it changes.
+-- Server code (the Classroom import) runs as the service role and checks the rubric itself.
+
+-- 1. Own rubrics, or ones shared with the teacher's workspace or department
+CREATE OR REPLACE FUNCTION public.check_batch_job_rubric()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rubrics r
+    WHERE r.id = NEW.rubric_id
+      AND (r.teacher_id = auth.uid() OR public.can_view_shared(r.organisation_id, r.department_id))
+  ) THEN
+    RAISE EXCEPTION 'Rubric not found' USING ERRCODE = 'P0002';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS batch_jobs_check_rubric ON public.batch_jobs;
+CREATE TRIGGER batch_jobs_check_rubric
+  BEFORE INSERT OR UPDATE OF rubric_id ON public.batch_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.check_batch_job_rubric();
+
+REVOKE EXECUTE ON FUNCTION public.check_batch_job_rubric() FROM PUBLIC, anon, authenticated;
@@ -50,6 +50,7 @@ create table if not exists public.feedback (
   improvements jsonb,
   suggested_feedback text,
   overall_score int,
+  criteria_scores jsonb not null default '[]'::jsonb, -- [{criterion, points, max_points}]
   created_at timestamptz default now()
 );
 
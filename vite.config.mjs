@@ -1,11 +1,40 @@
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { visualizer } from 'rollup-plugin-visualizer';
 
+const require = createRequire(import.meta.url);
+
+// OCR language data (src/utils/ocr.ts OCR_LANGUAGES), served from /tesseract in dev and copied there by the build
+const OCR_LANGUAGES = ['eng', 'fra', 'deu', 'spa'];
+const ocrDataPath = (lang) =>
+  require.resolve(`@tesseract.js-data/${lang}/4.0.0_best_int/${lang}.traineddata.gz`);
+
+function ocrLanguageData() {
+  return {
+    name: 'ocr-language-data',
+    configureServer(server) {
+      server.middlewares.use('/tesseract', (req, res, next) => {
+        const lang = OCR_LANGUAGES.find((l) => req.url === `/${l}.traineddata.gz`);
+        if (!lang) return next();
+        res.setHeader('Content-Type', 'application/gzip');
+        res.end(readFileSync(ocrDataPath(lang)));
+      });
+    },
+    generateBundle() {
+      for (const lang of OCR_LANGUAGES) {
+        this.emitFile({ type: 'asset', fileName: `tesseract/${lang}.traineddata.gz`, source: readFileSync(ocrDataPath(lang)) });
+      }
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   plugins: [
     react(),
+    ocrLanguageData(),
     // Enable bundle analysis when ANALYZE=true
     process.env.ANALYZE === 'true' && visualizer({
       filename: 'stats.html',